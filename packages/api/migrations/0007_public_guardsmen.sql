@@ -0,0 +1,15 @@
+CREATE TABLE "pidRegistry" (
+	"pid" text PRIMARY KEY NOT NULL,
+	"mode" text DEFAULT '01' NOT NULL,
+	"name" text NOT NULL,
+	"description" text,
+	"category" text NOT NULL,
+	"unit" text NOT NULL,
+	"minValue" double precision,
+	"maxValue" double precision,
+	"typicalMin" double precision,
+	"typicalMax" double precision,
+	"aliases" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"createdAt" timestamp DEFAULT now() NOT NULL,
+	"updatedAt" timestamp DEFAULT now() NOT NULL
+);
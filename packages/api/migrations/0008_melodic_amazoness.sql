@@ -0,0 +1,19 @@
+CREATE TYPE "public"."distanceUnit" AS ENUM('km', 'mi');--> statement-breakpoint
+CREATE TYPE "public"."pressureUnit" AS ENUM('kPa', 'psi', 'bar');--> statement-breakpoint
+CREATE TYPE "public"."speedUnit" AS ENUM('km/h', 'mph');--> statement-breakpoint
+CREATE TYPE "public"."temperatureUnit" AS ENUM('°C', '°F');--> statement-breakpoint
+CREATE TYPE "public"."unitSystem" AS ENUM('metric', 'imperial', 'mixed');--> statement-breakpoint
+CREATE TYPE "public"."volumeUnit" AS ENUM('L', 'gal');--> statement-breakpoint
+CREATE TABLE "userPreferences" (
+	"userId" text PRIMARY KEY NOT NULL,
+	"unitSystem" "unitSystem" DEFAULT 'metric' NOT NULL,
+	"distanceUnit" "distanceUnit",
+	"speedUnit" "speedUnit",
+	"temperatureUnit" "temperatureUnit",
+	"pressureUnit" "pressureUnit",
+	"volumeUnit" "volumeUnit",
+	"createdAt" timestamp DEFAULT now() NOT NULL,
+	"updatedAt" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "userPreferences" ADD CONSTRAINT "userPreferences_userId_user_id_fk" FOREIGN KEY ("userId") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
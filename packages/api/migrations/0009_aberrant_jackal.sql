@@ -0,0 +1,39 @@
+CREATE TYPE "public"."alertOperator" AS ENUM('gt', 'gte', 'lt', 'lte');--> statement-breakpoint
+CREATE TABLE "alertEvents" (
+	"uuid" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"alertRuleUUID" uuid NOT NULL,
+	"vehicleUUID" uuid NOT NULL,
+	"diagnosticUUID" uuid NOT NULL,
+	"sensorSnapshotUUID" uuid NOT NULL,
+	"sensorReadingUUID" uuid NOT NULL,
+	"notificationUUID" uuid,
+	"pid" text NOT NULL,
+	"value" double precision NOT NULL,
+	"threshold" double precision NOT NULL,
+	"unit" text NOT NULL,
+	"firedAt" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "alertRules" (
+	"uuid" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"vehicleUUID" uuid NOT NULL,
+	"name" text NOT NULL,
+	"pid" text NOT NULL,
+	"operator" "alertOperator" NOT NULL,
+	"threshold" double precision NOT NULL,
+	"unit" text NOT NULL,
+	"durationSeconds" integer DEFAULT 0 NOT NULL,
+	"cooldownSeconds" integer DEFAULT 300 NOT NULL,
+	"enabled" boolean DEFAULT true NOT NULL,
+	"lastFiredAt" timestamp,
+	"createdAt" timestamp DEFAULT now() NOT NULL,
+	"updatedAt" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "alertEvents" ADD CONSTRAINT "alertEvents_alertRuleUUID_alertRules_uuid_fk" FOREIGN KEY ("alertRuleUUID") REFERENCES "public"."alertRules"("uuid") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "alertEvents" ADD CONSTRAINT "alertEvents_vehicleUUID_vehicles_uuid_fk" FOREIGN KEY ("vehicleUUID") REFERENCES "public"."vehicles"("uuid") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "alertEvents" ADD CONSTRAINT "alertEvents_diagnosticUUID_diagnostics_uuid_fk" FOREIGN KEY ("diagnosticUUID") REFERENCES "public"."diagnostics"("uuid") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "alertEvents" ADD CONSTRAINT "alertEvents_sensorSnapshotUUID_sensorSnapshots_uuid_fk" FOREIGN KEY ("sensorSnapshotUUID") REFERENCES "public"."sensorSnapshots"("uuid") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "alertEvents" ADD CONSTRAINT "alertEvents_sensorReadingUUID_sensorReadings_uuid_fk" FOREIGN KEY ("sensorReadingUUID") REFERENCES "public"."sensorReadings"("uuid") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "alertEvents" ADD CONSTRAINT "alertEvents_notificationUUID_notifications_uuid_fk" FOREIGN KEY ("notificationUUID") REFERENCES "public"."notifications"("uuid") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "alertRules" ADD CONSTRAINT "alertRules_vehicleUUID_vehicles_uuid_fk" FOREIGN KEY ("vehicleUUID") REFERENCES "public"."vehicles"("uuid") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
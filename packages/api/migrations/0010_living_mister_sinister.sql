@@ -0,0 +1,23 @@
+CREATE TYPE "public"."anomalySeverity" AS ENUM('warning', 'critical');--> statement-breakpoint
+CREATE TABLE "sensorAnomalies" (
+	"uuid" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"vehicleUUID" uuid NOT NULL,
+	"diagnosticUUID" uuid NOT NULL,
+	"sensorSnapshotUUID" uuid NOT NULL,
+	"sensorReadingUUID" uuid NOT NULL,
+	"pid" text NOT NULL,
+	"value" double precision NOT NULL,
+	"unit" text NOT NULL,
+	"baselineMean" double precision NOT NULL,
+	"baselineStddev" double precision NOT NULL,
+	"sampleCount" integer NOT NULL,
+	"rpmBand" integer,
+	"zScore" double precision NOT NULL,
+	"severity" "anomalySeverity" NOT NULL,
+	"detectedAt" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "sensorAnomalies" ADD CONSTRAINT "sensorAnomalies_vehicleUUID_vehicles_uuid_fk" FOREIGN KEY ("vehicleUUID") REFERENCES "public"."vehicles"("uuid") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "sensorAnomalies" ADD CONSTRAINT "sensorAnomalies_diagnosticUUID_diagnostics_uuid_fk" FOREIGN KEY ("diagnosticUUID") REFERENCES "public"."diagnostics"("uuid") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "sensorAnomalies" ADD CONSTRAINT "sensorAnomalies_sensorSnapshotUUID_sensorSnapshots_uuid_fk" FOREIGN KEY ("sensorSnapshotUUID") REFERENCES "public"."sensorSnapshots"("uuid") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "sensorAnomalies" ADD CONSTRAINT "sensorAnomalies_sensorReadingUUID_sensorReadings_uuid_fk" FOREIGN KEY ("sensorReadingUUID") REFERENCES "public"."sensorReadings"("uuid") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,10 @@
+CREATE TABLE "dtcFreezeFrameReadings" (
+	"uuid" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"diagnosticDTCUUID" uuid NOT NULL,
+	"pid" text NOT NULL,
+	"value" double precision NOT NULL,
+	"unit" text NOT NULL,
+	"createdAt" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "dtcFreezeFrameReadings" ADD CONSTRAINT "dtcFreezeFrameReadings_diagnosticDTCUUID_diagnosticDTC_uuid_fk" FOREIGN KEY ("diagnosticDTCUUID") REFERENCES "public"."diagnosticDTC"("uuid") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
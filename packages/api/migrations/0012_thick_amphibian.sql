@@ -0,0 +1,2 @@
+CREATE TYPE "public"."dtcStatus" AS ENUM('pending', 'confirmed', 'permanent');--> statement-breakpoint
+ALTER TABLE "diagnosticDTC" ADD COLUMN "status" "dtcStatus";
\ No newline at end of file
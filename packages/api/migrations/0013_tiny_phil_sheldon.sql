@@ -0,0 +1,2 @@
+CREATE INDEX "dtcLibrary_code_prefix_idx" ON "dtcLibrary" USING btree ("code" text_pattern_ops);--> statement-breakpoint
+CREATE INDEX "dtcLibrary_description_search_idx" ON "dtcLibrary" USING gin (to_tsvector('english', "description"));
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "dtcLibrary" ADD COLUMN "needsReview" boolean DEFAULT false NOT NULL;
\ No newline at end of file
@@ -0,0 +1,15 @@
+CREATE TABLE "dtcManufacturerOverlays" (
+	"uuid" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"code" text NOT NULL,
+	"make" text NOT NULL,
+	"model" text,
+	"yearFrom" integer,
+	"yearTo" integer,
+	"description" text NOT NULL,
+	"severity" "severity" NOT NULL,
+	"affectedSystem" text,
+	"createdAt" timestamp DEFAULT now() NOT NULL,
+	"updatedAt" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "dtcManufacturerOverlays_code_idx" ON "dtcManufacturerOverlays" USING btree ("code");
\ No newline at end of file
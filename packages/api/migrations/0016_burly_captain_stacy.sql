@@ -0,0 +1,30 @@
+CREATE TYPE "public"."dtcLibraryChangeType" AS ENUM('added', 'updated', 'removed');--> statement-breakpoint
+CREATE TYPE "public"."dtcLibraryVersionSource" AS ENUM('import', 'manual');--> statement-breakpoint
+CREATE TABLE "dtcLibraryChanges" (
+	"uuid" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"versionUUID" uuid NOT NULL,
+	"code" text NOT NULL,
+	"changeType" "dtcLibraryChangeType" NOT NULL,
+	"previous" jsonb,
+	"current" jsonb,
+	"createdAt" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "dtcLibraryVersions" (
+	"uuid" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"version" integer NOT NULL,
+	"source" "dtcLibraryVersionSource" NOT NULL,
+	"note" text,
+	"addedCount" integer DEFAULT 0 NOT NULL,
+	"updatedCount" integer DEFAULT 0 NOT NULL,
+	"removedCount" integer DEFAULT 0 NOT NULL,
+	"createdBy" text,
+	"createdAt" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "dtcLibraryVersions_version_unique" UNIQUE("version")
+);
+--> statement-breakpoint
+ALTER TABLE "diagnosticDTC" ADD COLUMN "libraryVersion" integer;--> statement-breakpoint
+ALTER TABLE "dtcLibraryChanges" ADD CONSTRAINT "dtcLibraryChanges_versionUUID_dtcLibraryVersions_uuid_fk" FOREIGN KEY ("versionUUID") REFERENCES "public"."dtcLibraryVersions"("uuid") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "dtcLibraryVersions" ADD CONSTRAINT "dtcLibraryVersions_createdBy_user_id_fk" FOREIGN KEY ("createdBy") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "dtcLibraryChanges_versionUUID_idx" ON "dtcLibraryChanges" USING btree ("versionUUID");--> statement-breakpoint
+ALTER TABLE "diagnosticDTC" ADD CONSTRAINT "diagnosticDTC_libraryVersion_dtcLibraryVersions_version_fk" FOREIGN KEY ("libraryVersion") REFERENCES "public"."dtcLibraryVersions"("version") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,21 @@
+CREATE TYPE "public"."driveSafety" AS ENUM('safe', 'caution', 'unsafe');--> statement-breakpoint
+CREATE TYPE "public"."dtcUrgency" AS ENUM('monitor', 'soon', 'immediate');--> statement-breakpoint
+ALTER TYPE "public"."dtcLibraryVersionSource" ADD VALUE 'classification';--> statement-breakpoint
+CREATE TABLE "dtcClassificationOverrides" (
+	"uuid" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"code" text NOT NULL,
+	"severity" "severity",
+	"affectedSystem" text,
+	"safeToDrive" "driveSafety",
+	"urgency" "dtcUrgency",
+	"note" text,
+	"createdBy" text,
+	"createdAt" timestamp DEFAULT now() NOT NULL,
+	"updatedAt" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "dtcClassificationOverrides_code_unique" UNIQUE("code")
+);
+--> statement-breakpoint
+ALTER TABLE "dtcLibrary" ADD COLUMN "safeToDrive" "driveSafety";--> statement-breakpoint
+ALTER TABLE "dtcLibrary" ADD COLUMN "urgency" "dtcUrgency";--> statement-breakpoint
+ALTER TABLE "dtcClassificationOverrides" ADD CONSTRAINT "dtcClassificationOverrides_code_dtcLibrary_code_fk" FOREIGN KEY ("code") REFERENCES "public"."dtcLibrary"("code") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "dtcClassificationOverrides" ADD CONSTRAINT "dtcClassificationOverrides_createdBy_user_id_fk" FOREIGN KEY ("createdBy") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
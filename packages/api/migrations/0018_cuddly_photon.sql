@@ -0,0 +1,17 @@
+CREATE TABLE "dtcKnowledgeBase" (
+	"uuid" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"code" text NOT NULL,
+	"causes" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"symptoms" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"diagnosticSteps" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"relatedCodes" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"typicalFixes" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"body" text,
+	"updatedBy" text,
+	"createdAt" timestamp DEFAULT now() NOT NULL,
+	"updatedAt" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "dtcKnowledgeBase_code_unique" UNIQUE("code")
+);
+--> statement-breakpoint
+ALTER TABLE "dtcKnowledgeBase" ADD CONSTRAINT "dtcKnowledgeBase_code_dtcLibrary_code_fk" FOREIGN KEY ("code") REFERENCES "public"."dtcLibrary"("code") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "dtcKnowledgeBase" ADD CONSTRAINT "dtcKnowledgeBase_updatedBy_user_id_fk" FOREIGN KEY ("updatedBy") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,21 @@
+CREATE TABLE "trips" (
+	"uuid" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"vehicleUUID" uuid NOT NULL,
+	"startedAt" timestamp NOT NULL,
+	"endedAt" timestamp NOT NULL,
+	"startLatitude" double precision NOT NULL,
+	"startLongitude" double precision NOT NULL,
+	"endLatitude" double precision NOT NULL,
+	"endLongitude" double precision NOT NULL,
+	"distance" double precision NOT NULL,
+	"duration" integer NOT NULL,
+	"maxSpeed" double precision NOT NULL,
+	"avgSpeed" double precision NOT NULL,
+	"idleTime" integer NOT NULL,
+	"locationCount" integer NOT NULL,
+	"createdAt" timestamp DEFAULT now() NOT NULL,
+	"updatedAt" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "trips" ADD CONSTRAINT "trips_vehicleUUID_vehicles_uuid_fk" FOREIGN KEY ("vehicleUUID") REFERENCES "public"."vehicles"("uuid") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "trips_vehicleUUID_startedAt_idx" ON "trips" USING btree ("vehicleUUID","startedAt");
\ No newline at end of file
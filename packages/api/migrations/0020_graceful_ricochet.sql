@@ -0,0 +1,39 @@
+CREATE TYPE "public"."geofenceEventType" AS ENUM('enter', 'exit');--> statement-breakpoint
+CREATE TYPE "public"."geofenceShape" AS ENUM('circle', 'polygon');--> statement-breakpoint
+CREATE TABLE "geofenceEvents" (
+	"uuid" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"geofenceUUID" uuid NOT NULL,
+	"vehicleUUID" uuid NOT NULL,
+	"locationUUID" uuid,
+	"notificationUUID" uuid,
+	"eventType" "geofenceEventType" NOT NULL,
+	"latitude" double precision NOT NULL,
+	"longitude" double precision NOT NULL,
+	"occurredAt" timestamp NOT NULL,
+	"createdAt" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "geofences" (
+	"uuid" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"vehicleUUID" uuid NOT NULL,
+	"name" text NOT NULL,
+	"shape" "geofenceShape" NOT NULL,
+	"centerLatitude" double precision,
+	"centerLongitude" double precision,
+	"radius" double precision,
+	"polygon" jsonb,
+	"notifyOnEnter" boolean DEFAULT true NOT NULL,
+	"notifyOnExit" boolean DEFAULT true NOT NULL,
+	"enabled" boolean DEFAULT true NOT NULL,
+	"isInside" boolean,
+	"lastLocationAt" timestamp,
+	"createdAt" timestamp DEFAULT now() NOT NULL,
+	"updatedAt" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "geofenceEvents" ADD CONSTRAINT "geofenceEvents_geofenceUUID_geofences_uuid_fk" FOREIGN KEY ("geofenceUUID") REFERENCES "public"."geofences"("uuid") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "geofenceEvents" ADD CONSTRAINT "geofenceEvents_vehicleUUID_vehicles_uuid_fk" FOREIGN KEY ("vehicleUUID") REFERENCES "public"."vehicles"("uuid") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "geofenceEvents" ADD CONSTRAINT "geofenceEvents_locationUUID_locations_uuid_fk" FOREIGN KEY ("locationUUID") REFERENCES "public"."locations"("uuid") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "geofenceEvents" ADD CONSTRAINT "geofenceEvents_notificationUUID_notifications_uuid_fk" FOREIGN KEY ("notificationUUID") REFERENCES "public"."notifications"("uuid") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "geofences" ADD CONSTRAINT "geofences_vehicleUUID_vehicles_uuid_fk" FOREIGN KEY ("vehicleUUID") REFERENCES "public"."vehicles"("uuid") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "geofenceEvents_vehicleUUID_occurredAt_idx" ON "geofenceEvents" USING btree ("vehicleUUID","occurredAt");
\ No newline at end of file
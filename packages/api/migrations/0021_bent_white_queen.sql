@@ -0,0 +1,19 @@
+CREATE TABLE "fuelLogs" (
+	"uuid" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"vehicleUUID" uuid NOT NULL,
+	"filledAt" timestamp NOT NULL,
+	"odometer" integer NOT NULL,
+	"volume" double precision NOT NULL,
+	"pricePerLitre" double precision NOT NULL,
+	"totalCost" double precision NOT NULL,
+	"isFullTank" boolean DEFAULT true NOT NULL,
+	"station" text,
+	"latitude" double precision,
+	"longitude" double precision,
+	"notes" text,
+	"createdAt" timestamp DEFAULT now() NOT NULL,
+	"updatedAt" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "fuelLogs" ADD CONSTRAINT "fuelLogs_vehicleUUID_vehicles_uuid_fk" FOREIGN KEY ("vehicleUUID") REFERENCES "public"."vehicles"("uuid") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "fuelLogs_vehicleUUID_filledAt_idx" ON "fuelLogs" USING btree ("vehicleUUID","filledAt");
\ No newline at end of file
@@ -0,0 +1,16 @@
+CREATE TYPE "public"."maintenanceDueStatus" AS ENUM('upcoming', 'due', 'overdue');--> statement-breakpoint
+CREATE TABLE "maintenanceSchedules" (
+	"uuid" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"vehicleUUID" uuid NOT NULL,
+	"serviceType" "serviceType" NOT NULL,
+	"intervalKm" integer,
+	"intervalMonths" integer,
+	"enabled" boolean DEFAULT true NOT NULL,
+	"notifiedStatus" "maintenanceDueStatus",
+	"notifiedAt" timestamp,
+	"createdAt" timestamp DEFAULT now() NOT NULL,
+	"updatedAt" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "maintenanceSchedules" ADD CONSTRAINT "maintenanceSchedules_vehicleUUID_vehicles_uuid_fk" FOREIGN KEY ("vehicleUUID") REFERENCES "public"."vehicles"("uuid") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "maintenanceSchedules_vehicleUUID_serviceType_idx" ON "maintenanceSchedules" USING btree ("vehicleUUID","serviceType");
\ No newline at end of file
@@ -0,0 +1,16 @@
+CREATE TABLE "maintenanceLineItems" (
+	"uuid" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"maintenanceLogUUID" uuid NOT NULL,
+	"description" text NOT NULL,
+	"partNumber" text,
+	"quantity" double precision DEFAULT 1 NOT NULL,
+	"unitPrice" double precision NOT NULL,
+	"labourHours" double precision,
+	"taxRate" double precision DEFAULT 0 NOT NULL,
+	"position" integer DEFAULT 0 NOT NULL,
+	"createdAt" timestamp DEFAULT now() NOT NULL,
+	"updatedAt" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "maintenanceLineItems" ADD CONSTRAINT "maintenanceLineItems_maintenanceLogUUID_maintenanceLog_uuid_fk" FOREIGN KEY ("maintenanceLogUUID") REFERENCES "public"."maintenanceLog"("uuid") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "maintenanceLineItems_maintenanceLogUUID_idx" ON "maintenanceLineItems" USING btree ("maintenanceLogUUID","position");
\ No newline at end of file
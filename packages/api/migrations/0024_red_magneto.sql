@@ -0,0 +1,15 @@
+CREATE TABLE "maintenanceAttachments" (
+	"uuid" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"maintenanceLogUUID" uuid NOT NULL,
+	"storageKey" text NOT NULL,
+	"fileName" text NOT NULL,
+	"contentType" text NOT NULL,
+	"size" integer NOT NULL,
+	"uploadedBy" text,
+	"createdAt" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "maintenanceAttachments_storageKey_unique" UNIQUE("storageKey")
+);
+--> statement-breakpoint
+ALTER TABLE "maintenanceAttachments" ADD CONSTRAINT "maintenanceAttachments_maintenanceLogUUID_maintenanceLog_uuid_fk" FOREIGN KEY ("maintenanceLogUUID") REFERENCES "public"."maintenanceLog"("uuid") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "maintenanceAttachments" ADD CONSTRAINT "maintenanceAttachments_uploadedBy_user_id_fk" FOREIGN KEY ("uploadedBy") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "maintenanceAttachments_maintenanceLogUUID_idx" ON "maintenanceAttachments" USING btree ("maintenanceLogUUID");
\ No newline at end of file
@@ -0,0 +1,23 @@
+CREATE TYPE "public"."vehicleDocumentType" AS ENUM('rca', 'casco', 'itp', 'rovinieta', 'registration', 'other');--> statement-breakpoint
+CREATE TABLE "vehicleDocuments" (
+	"uuid" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"vehicleUUID" uuid NOT NULL,
+	"type" "vehicleDocumentType" NOT NULL,
+	"number" text,
+	"issuer" text,
+	"validFrom" timestamp,
+	"validTo" timestamp,
+	"reminderLeadDays" integer[] DEFAULT '{30,7,1}' NOT NULL,
+	"remindedLeadDays" integer,
+	"notes" text,
+	"fileKey" text,
+	"fileName" text,
+	"fileContentType" text,
+	"fileSize" integer,
+	"createdAt" timestamp DEFAULT now() NOT NULL,
+	"updatedAt" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "vehicleDocuments_fileKey_unique" UNIQUE("fileKey")
+);
+--> statement-breakpoint
+ALTER TABLE "vehicleDocuments" ADD CONSTRAINT "vehicleDocuments_vehicleUUID_vehicles_uuid_fk" FOREIGN KEY ("vehicleUUID") REFERENCES "public"."vehicles"("uuid") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "vehicleDocuments_vehicleUUID_validTo_idx" ON "vehicleDocuments" USING btree ("vehicleUUID","validTo");
\ No newline at end of file
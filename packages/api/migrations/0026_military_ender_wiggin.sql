@@ -0,0 +1,8 @@
+ALTER TABLE "serviceWorkshops" ALTER COLUMN "latitude" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "serviceWorkshops" ALTER COLUMN "longitude" DROP NOT NULL;--> statement-breakpoint
+UPDATE "serviceWorkshops" SET "latitude" = NULL, "longitude" = NULL WHERE "latitude" = 0 AND "longitude" = 0;--> statement-breakpoint
+ALTER TABLE "serviceWorkshops" ADD COLUMN "address" text;--> statement-breakpoint
+ALTER TABLE "serviceWorkshops" ADD COLUMN "timezone" text DEFAULT 'Europe/Bucharest' NOT NULL;--> statement-breakpoint
+ALTER TABLE "serviceWorkshops" ADD COLUMN "createdBy" text;--> statement-breakpoint
+ALTER TABLE "serviceWorkshops" ADD CONSTRAINT "serviceWorkshops_createdBy_user_id_fk" FOREIGN KEY ("createdBy") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "serviceWorkshops_latitude_longitude_idx" ON "serviceWorkshops" USING btree ("latitude","longitude");
\ No newline at end of file
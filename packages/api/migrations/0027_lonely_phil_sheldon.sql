@@ -0,0 +1 @@
+ALTER TABLE "locations" ADD COLUMN "createdAt" timestamp DEFAULT now() NOT NULL;
\ No newline at end of file
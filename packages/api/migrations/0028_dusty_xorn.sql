@@ -0,0 +1,2 @@
+ALTER TABLE "diagnostics" ADD COLUMN "dtcScannedAt" timestamp;--> statement-breakpoint
+UPDATE "diagnostics" SET "dtcScannedAt" = "createdAt" WHERE EXISTS (SELECT 1 FROM "diagnosticDTC" WHERE "diagnosticDTC"."diagnosticUUID" = "diagnostics"."uuid");
\ No newline at end of file
@@ -0,0 +1,2 @@
+-- "temp" could be any temperature, readings sent as it are no longer taken as the coolant temperature
+UPDATE "pidRegistry" SET "aliases" = "aliases" - 'temp' WHERE "pid" = '05';
\ No newline at end of file
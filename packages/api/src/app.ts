@@ -9,10 +9,14 @@ import { locationsRoute } from "./routes/locations-route";
 import { maintenanceRoute } from "./routes/maintenance-route";
 import { notificationsRoute } from "./routes/notifications-route";
 import { ownershipTransfersRoute } from "./routes/ownership-transfers-route";
+import { pidsRoute } from "./routes/pids-route";
+import { preferencesRoute } from "./routes/preferences-route";
 import { sessionStatusRoute } from "./routes/session-status-route";
+import { telemetryRoute } from "./routes/telemetry-route";
 import { testRoute } from "./routes/test-route";
 import { uploadRoute } from "./routes/upload-route";
 import { vehiclesRoute } from "./routes/vehicles-route";
+import { workshopsRoute } from "./routes/workshops-route";
 // try {
 //   const result = await auth.api.signInEmail({
 //     body: {
@@ -47,7 +51,11 @@ export const apiRoutes = app
   .route("/maintenance", maintenanceRoute)
   .route("/notifications", notificationsRoute)
   .route("/ownership-transfers", ownershipTransfersRoute)
-  .route("/upload", uploadRoute);
+  .route("/telemetry", telemetryRoute)
+  .route("/pids", pidsRoute)
+  .route("/preferences", preferencesRoute)
+  .route("/upload", uploadRoute)
+  .route("/workshops", workshopsRoute);
 
 // app.get("*", c => c.env.ASSETS.fetch(c.req.raw));
 
@@ -0,0 +1,73 @@
+import { boolean, doublePrecision, integer, pgEnum, pgTable, text, timestamp, uuid } from "drizzle-orm/pg-core";
+import {
+  createInsertSchema,
+  createSelectSchema,
+  createUpdateSchema,
+} from "drizzle-zod";
+
+import { diagnosticsTable } from "./diagnostics-schema";
+import { notificationsTable } from "./notifications";
+import { sensorReadingsTable } from "./sensor-readings-schema";
+import { sensorSnapshotsTable } from "./sensor-snapshots-schema";
+import { vehiclesTable } from "./vehicles-schema";
+
+export const alertOperatorEnum = pgEnum("alertOperator", ["gt", "gte", "lt", "lte"]);
+
+export const alertRulesTable = pgTable("alertRules", {
+  uuid: uuid("uuid").primaryKey().defaultRandom(),
+  vehicleUUID: uuid("vehicleUUID")
+    .notNull()
+    .references(() => vehiclesTable.uuid, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  pid: text("pid").notNull(), // Registry PID, eg: "05", "42"
+  operator: alertOperatorEnum("operator").notNull(),
+  threshold: doublePrecision("threshold").notNull(), // Stored in the canonical unit of the PID
+  unit: text("unit").notNull(),
+  // How long the condition has to hold before the rule fires, 0 fires on the first matching reading
+  durationSeconds: integer("durationSeconds").notNull().default(0),
+  // Minimum time between two alerts of the same rule
+  cooldownSeconds: integer("cooldownSeconds").notNull().default(300),
+  enabled: boolean("enabled").notNull().default(true),
+  lastFiredAt: timestamp("lastFiredAt"),
+  createdAt: timestamp("createdAt").notNull().defaultNow(),
+  updatedAt: timestamp("updatedAt")
+    .notNull()
+    .defaultNow()
+    .$onUpdate(() => new Date()),
+});
+
+export const alertEventsTable = pgTable("alertEvents", {
+  uuid: uuid("uuid").primaryKey().defaultRandom(),
+  alertRuleUUID: uuid("alertRuleUUID")
+    .notNull()
+    .references(() => alertRulesTable.uuid, { onDelete: "cascade" }),
+  vehicleUUID: uuid("vehicleUUID")
+    .notNull()
+    .references(() => vehiclesTable.uuid, { onDelete: "cascade" }),
+  diagnosticUUID: uuid("diagnosticUUID")
+    .notNull()
+    .references(() => diagnosticsTable.uuid, { onDelete: "cascade" }),
+  sensorSnapshotUUID: uuid("sensorSnapshotUUID")
+    .notNull()
+    .references(() => sensorSnapshotsTable.uuid, { onDelete: "cascade" }),
+  sensorReadingUUID: uuid("sensorReadingUUID")
+    .notNull()
+    .references(() => sensorReadingsTable.uuid, { onDelete: "cascade" }),
+  notificationUUID: uuid("notificationUUID")
+    .references(() => notificationsTable.uuid, { onDelete: "set null" }),
+  pid: text("pid").notNull(),
+  value: doublePrecision("value").notNull(),
+  threshold: doublePrecision("threshold").notNull(),
+  unit: text("unit").notNull(),
+  firedAt: timestamp("firedAt").notNull().defaultNow(),
+});
+
+export const insertAlertRuleSchema = createInsertSchema(alertRulesTable);
+
+export const updateAlertRuleSchema = createUpdateSchema(alertRulesTable);
+
+export const selectAlertRuleSchema = createSelectSchema(alertRulesTable);
+
+export const insertAlertEventSchema = createInsertSchema(alertEventsTable);
+
+export const selectAlertEventSchema = createSelectSchema(alertEventsTable);
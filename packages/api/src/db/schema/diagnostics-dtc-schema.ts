@@ -1,5 +1,7 @@
 import {
   boolean,
+  integer,
+  pgEnum,
   pgTable,
   text,
   timestamp,
@@ -13,6 +15,10 @@ import {
 
 import { diagnosticsTable } from "./diagnostics-schema";
 import { DTCLibraryTable } from "./dtc-library-schema";
+import { dtcLibraryVersionsTable } from "./dtc-library-versions-schema";
+
+// OBD-II reports stored codes as pending (mode 07), confirmed (mode 03) or permanent (mode 0A)
+export const dtcStatusEnum = pgEnum("dtcStatus", ["pending", "confirmed", "permanent"]);
 
 export const diagnosticsDTCTable = pgTable("diagnosticDTC", {
   uuid: uuid("uuid").primaryKey().defaultRandom(),
@@ -21,6 +27,9 @@ export const diagnosticsDTCTable = pgTable("diagnosticDTC", {
     .notNull()
     .references(() => DTCLibraryTable.code),
   confirmed: boolean("confirmed"),
+  status: dtcStatusEnum("status"),
+  // Library version the code was interpreted under, null for codes stored before versioning
+  libraryVersion: integer("libraryVersion").references(() => dtcLibraryVersionsTable.version),
   createdAt: timestamp("createdAt").notNull().defaultNow(),
   updatedAt: timestamp("updatedAt")
     .notNull()
@@ -23,6 +23,8 @@ export const diagnosticsTable = pgTable("diagnostics", {
   locationLat: doublePrecision("locationLat"),
   locationLong: doublePrecision("locationLong"),
   notes: text("notes"),
+  // When the session read the stored DTCs, even if none were reported
+  dtcScannedAt: timestamp("dtcScannedAt"),
   createdAt: timestamp("createdAt").notNull().defaultNow(),
   updatedAt: timestamp("updatedAt")
     .notNull()
@@ -0,0 +1,33 @@
+import { pgTable, text, timestamp, uuid } from "drizzle-orm/pg-core";
+import {
+  createInsertSchema,
+  createSelectSchema,
+} from "drizzle-zod";
+
+import { user } from "./auth-schema";
+import { driveSafetyEnum, DTCLibraryTable, dtcUrgencyEnum, severityEnum } from "./dtc-library-schema";
+
+// Admin classification of a single code, takes precedence over the range rules.
+// Null fields keep the rule's value.
+export const dtcClassificationOverridesTable = pgTable("dtcClassificationOverrides", {
+  uuid: uuid("uuid").primaryKey().defaultRandom(),
+  code: text("code")
+    .notNull()
+    .unique()
+    .references(() => DTCLibraryTable.code, { onDelete: "cascade" }),
+  severity: severityEnum("severity"),
+  affectedSystem: text("affectedSystem"),
+  safeToDrive: driveSafetyEnum("safeToDrive"),
+  urgency: dtcUrgencyEnum("urgency"),
+  note: text("note"),
+  createdBy: text("createdBy").references(() => user.id, { onDelete: "set null" }),
+  createdAt: timestamp("createdAt").notNull().defaultNow(),
+  updatedAt: timestamp("updatedAt")
+    .notNull()
+    .defaultNow()
+    .$onUpdate(() => new Date()),
+});
+
+export const insertDTCClassificationOverrideSchema = createInsertSchema(dtcClassificationOverridesTable);
+
+export const selectDTCClassificationOverrideSchema = createSelectSchema(dtcClassificationOverridesTable);
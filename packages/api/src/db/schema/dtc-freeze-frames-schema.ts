@@ -0,0 +1,20 @@
+import { doublePrecision, pgTable, text, timestamp, uuid } from "drizzle-orm/pg-core";
+import { createInsertSchema, createSelectSchema } from "drizzle-zod";
+
+import { diagnosticsDTCTable } from "./diagnostics-dtc-schema";
+
+// Mode 02 freeze-frame: the PID values the ECU captured when it stored a DTC
+export const dtcFreezeFrameReadingsTable = pgTable("dtcFreezeFrameReadings", {
+  uuid: uuid("uuid").primaryKey().defaultRandom(),
+  diagnosticDTCUUID: uuid("diagnosticDTCUUID")
+    .notNull()
+    .references(() => diagnosticsDTCTable.uuid, { onDelete: "cascade" }),
+  pid: text("pid").notNull(), // Registry PID, eg: "0C", "05"
+  value: doublePrecision("value").notNull(), // Stored in the canonical unit of the PID
+  unit: text("unit").notNull(),
+  createdAt: timestamp("createdAt").notNull().defaultNow(),
+});
+
+export const insertDTCFreezeFrameReadingSchema = createInsertSchema(dtcFreezeFrameReadingsTable);
+
+export const selectDTCFreezeFrameReadingSchema = createSelectSchema(dtcFreezeFrameReadingsTable);
@@ -0,0 +1,38 @@
+import { jsonb, pgTable, text, timestamp, uuid } from "drizzle-orm/pg-core";
+import {
+  createInsertSchema,
+  createSelectSchema,
+} from "drizzle-zod";
+
+import { user } from "./auth-schema";
+import { DTCLibraryTable } from "./dtc-library-schema";
+
+export type DTCTypicalFix = {
+  description: string;
+  difficulty: "easy" | "moderate" | "professional";
+};
+
+// Repair guidance of a library code, one record per code
+export const dtcKnowledgeBaseTable = pgTable("dtcKnowledgeBase", {
+  uuid: uuid("uuid").primaryKey().defaultRandom(),
+  code: text("code")
+    .notNull()
+    .unique()
+    .references(() => DTCLibraryTable.code, { onDelete: "cascade" }),
+  causes: jsonb("causes").$type<string[]>().notNull().default([]),
+  symptoms: jsonb("symptoms").$type<string[]>().notNull().default([]),
+  diagnosticSteps: jsonb("diagnosticSteps").$type<string[]>().notNull().default([]), // In the order they should be carried out
+  relatedCodes: jsonb("relatedCodes").$type<string[]>().notNull().default([]),
+  typicalFixes: jsonb("typicalFixes").$type<DTCTypicalFix[]>().notNull().default([]),
+  body: text("body"), // Markdown
+  updatedBy: text("updatedBy").references(() => user.id, { onDelete: "set null" }),
+  createdAt: timestamp("createdAt").notNull().defaultNow(),
+  updatedAt: timestamp("updatedAt")
+    .notNull()
+    .defaultNow()
+    .$onUpdate(() => new Date()),
+});
+
+export const insertDTCKnowledgeBaseSchema = createInsertSchema(dtcKnowledgeBaseTable);
+
+export const selectDTCKnowledgeBaseSchema = createSelectSchema(dtcKnowledgeBaseTable);
@@ -1,4 +1,7 @@
+import { sql } from "drizzle-orm";
 import {
+  boolean,
+  index,
   pgEnum,
   pgTable,
   text,
@@ -13,6 +16,12 @@ import {
 
 export const severityEnum = pgEnum("severity", ["low", "medium", "high"]);
 
+// Whether the vehicle can keep being driven with the fault present
+export const driveSafetyEnum = pgEnum("driveSafety", ["safe", "caution", "unsafe"]);
+
+// How soon the fault should be looked at
+export const dtcUrgencyEnum = pgEnum("dtcUrgency", ["monitor", "soon", "immediate"]);
+
 export const DTCLibraryTable = pgTable("dtcLibrary", {
   uuid: uuid("uuid").primaryKey().defaultRandom(),
   code: text("code").notNull().unique(),
@@ -20,12 +29,22 @@ export const DTCLibraryTable = pgTable("dtcLibrary", {
   severity: severityEnum("severity").notNull(),
   affectedSystem: text("affectedSystem"),
   category: text("category"),
+  // Set by the classification engine (lib/dtc-classification-rules.ts), null until classified
+  safeToDrive: driveSafetyEnum("safeToDrive"),
+  urgency: dtcUrgencyEnum("urgency"),
+  // Placeholder created for a code reported by a vehicle but missing from the library
+  needsReview: boolean("needsReview").notNull().default(false),
   createdAt: timestamp("createdAt").notNull().defaultNow(),
   updatedAt: timestamp("updatedAt")
     .notNull()
     .defaultNow()
     .$onUpdate(() => new Date()),
-});
+}, table => [
+  // Code prefix search ("P03" matches P0300 to P03FF)
+  index("dtcLibrary_code_prefix_idx").on(table.code.op("text_pattern_ops")),
+  // Full-text search over the description
+  index("dtcLibrary_description_search_idx").using("gin", sql`to_tsvector('english', ${table.description})`),
+]);
 
 export const insertDTCLibrarySchema = createInsertSchema(DTCLibraryTable);
 
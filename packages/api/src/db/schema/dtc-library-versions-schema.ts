@@ -0,0 +1,57 @@
+import { index, integer, jsonb, pgEnum, pgTable, text, timestamp, uuid } from "drizzle-orm/pg-core";
+import {
+  createInsertSchema,
+  createSelectSchema,
+} from "drizzle-zod";
+
+import { user } from "./auth-schema";
+
+export const dtcLibraryVersionSourceEnum = pgEnum("dtcLibraryVersionSource", ["import", "manual", "classification"]);
+
+export const dtcLibraryChangeTypeEnum = pgEnum("dtcLibraryChangeType", ["added", "updated", "removed"]);
+
+// Fields of a library entry recorded in the changelog
+export type DTCLibraryChangeSnapshot = {
+  description: string;
+  severity: "low" | "medium" | "high";
+  affectedSystem: string | null;
+  category: string | null;
+  // Missing from changes recorded before classification existed
+  safeToDrive?: "safe" | "caution" | "unsafe" | null;
+  urgency?: "monitor" | "soon" | "immediate" | null;
+};
+
+// Every change to the library produces a new version, numbered from 1
+export const dtcLibraryVersionsTable = pgTable("dtcLibraryVersions", {
+  uuid: uuid("uuid").primaryKey().defaultRandom(),
+  version: integer("version").notNull().unique(),
+  source: dtcLibraryVersionSourceEnum("source").notNull(),
+  note: text("note"),
+  addedCount: integer("addedCount").notNull().default(0),
+  updatedCount: integer("updatedCount").notNull().default(0),
+  removedCount: integer("removedCount").notNull().default(0),
+  createdBy: text("createdBy").references(() => user.id, { onDelete: "set null" }),
+  createdAt: timestamp("createdAt").notNull().defaultNow(),
+});
+
+export const dtcLibraryChangesTable = pgTable("dtcLibraryChanges", {
+  uuid: uuid("uuid").primaryKey().defaultRandom(),
+  versionUUID: uuid("versionUUID")
+    .notNull()
+    .references(() => dtcLibraryVersionsTable.uuid, { onDelete: "cascade" }),
+  code: text("code").notNull(),
+  changeType: dtcLibraryChangeTypeEnum("changeType").notNull(),
+  previous: jsonb("previous").$type<DTCLibraryChangeSnapshot>(), // Null for added codes
+  current: jsonb("current").$type<DTCLibraryChangeSnapshot>(), // Null for removed codes
+  createdAt: timestamp("createdAt").notNull().defaultNow(),
+}, table => [
+  index("dtcLibraryChanges_versionUUID_idx").on(table.versionUUID),
+]);
+
+export const insertDTCLibraryVersionSchema = createInsertSchema(dtcLibraryVersionsTable);
+
+export const selectDTCLibraryVersionSchema = createSelectSchema(dtcLibraryVersionsTable);
+
+export const insertDTCLibraryChangeSchema = createInsertSchema(dtcLibraryChangesTable);
+
+export const selectDTCLibraryChangeSchema = createSelectSchema(dtcLibraryChangesTable);
@@ -0,0 +1,34 @@
+import { index, integer, pgTable, text, timestamp, uuid } from "drizzle-orm/pg-core";
+import {
+  createInsertSchema,
+  createSelectSchema,
+  createUpdateSchema,
+} from "drizzle-zod";
+
+import { severityEnum } from "./dtc-library-schema";
+
+// Manufacturer-specific meaning of a code, takes precedence over the generic library entry
+export const dtcManufacturerOverlaysTable = pgTable("dtcManufacturerOverlays", {
+  uuid: uuid("uuid").primaryKey().defaultRandom(),
+  code: text("code").notNull(),
+  make: text("make").notNull(), // Matched case-insensitively against vehiclesTable.make
+  model: text("model"), // Null applies to every model of the make
+  yearFrom: integer("yearFrom"), // Null is open-ended
+  yearTo: integer("yearTo"),
+  description: text("description").notNull(),
+  severity: severityEnum("severity").notNull(),
+  affectedSystem: text("affectedSystem"),
+  createdAt: timestamp("createdAt").notNull().defaultNow(),
+  updatedAt: timestamp("updatedAt")
+    .notNull()
+    .defaultNow()
+    .$onUpdate(() => new Date()),
+}, table => [
+  index("dtcManufacturerOverlays_code_idx").on(table.code),
+]);
+
+export const insertDTCManufacturerOverlaySchema = createInsertSchema(dtcManufacturerOverlaysTable);
+
+export const updateDTCManufacturerOverlaySchema = createUpdateSchema(dtcManufacturerOverlaysTable);
+
+export const selectDTCManufacturerOverlaySchema = createSelectSchema(dtcManufacturerOverlaysTable);
@@ -0,0 +1,39 @@
+import { boolean, doublePrecision, index, integer, pgTable, text, timestamp, uuid } from "drizzle-orm/pg-core";
+import {
+  createInsertSchema,
+  createSelectSchema,
+  createUpdateSchema,
+} from "drizzle-zod";
+
+import { vehiclesTable } from "./vehicles-schema";
+
+export const fuelLogsTable = pgTable("fuelLogs", {
+  uuid: uuid("uuid").primaryKey().defaultRandom(),
+  vehicleUUID: uuid("vehicleUUID")
+    .notNull()
+    .references(() => vehiclesTable.uuid, { onDelete: "cascade" }),
+  filledAt: timestamp("filledAt").notNull(),
+  odometer: integer("odometer").notNull(), // km
+  volume: doublePrecision("volume").notNull(), // litres
+  pricePerLitre: doublePrecision("pricePerLitre").notNull(),
+  totalCost: doublePrecision("totalCost").notNull(),
+  // Partial fills are added to the next full fill when measuring consumption
+  isFullTank: boolean("isFullTank").notNull().default(true),
+  station: text("station"),
+  latitude: doublePrecision("latitude"),
+  longitude: doublePrecision("longitude"),
+  notes: text("notes"),
+  createdAt: timestamp("createdAt").notNull().defaultNow(),
+  updatedAt: timestamp("updatedAt")
+    .notNull()
+    .defaultNow()
+    .$onUpdate(() => new Date()),
+}, table => [
+  index("fuelLogs_vehicleUUID_filledAt_idx").on(table.vehicleUUID, table.filledAt),
+]);
+
+export const insertFuelLogSchema = createInsertSchema(fuelLogsTable);
+
+export const selectFuelLogSchema = createSelectSchema(fuelLogsTable);
+
+export const updateFuelLogSchema = createUpdateSchema(fuelLogsTable);
@@ -0,0 +1,74 @@
+import { boolean, doublePrecision, index, jsonb, pgEnum, pgTable, text, timestamp, uuid } from "drizzle-orm/pg-core";
+import {
+  createInsertSchema,
+  createSelectSchema,
+  createUpdateSchema,
+} from "drizzle-zod";
+
+import { locationsTable } from "./locations-schema";
+import { notificationsTable } from "./notifications";
+import { vehiclesTable } from "./vehicles-schema";
+
+export const geofenceShapeEnum = pgEnum("geofenceShape", ["circle", "polygon"]);
+
+export const geofenceEventTypeEnum = pgEnum("geofenceEventType", ["enter", "exit"]);
+
+// Polygon vertices as [latitude, longitude] pairs, the ring is closed implicitly
+export type GeofencePolygon = [number, number][];
+
+export const geofencesTable = pgTable("geofences", {
+  uuid: uuid("uuid").primaryKey().defaultRandom(),
+  vehicleUUID: uuid("vehicleUUID")
+    .notNull()
+    .references(() => vehiclesTable.uuid, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  shape: geofenceShapeEnum("shape").notNull(),
+  // Circle geofences only
+  centerLatitude: doublePrecision("centerLatitude"),
+  centerLongitude: doublePrecision("centerLongitude"),
+  radius: doublePrecision("radius"), // metres
+  // Polygon geofences only
+  polygon: jsonb("polygon").$type<GeofencePolygon>(),
+  notifyOnEnter: boolean("notifyOnEnter").notNull().default(true),
+  notifyOnExit: boolean("notifyOnExit").notNull().default(true),
+  enabled: boolean("enabled").notNull().default(true),
+  // Whether the last evaluated location was inside, null until the first location after creation
+  isInside: boolean("isInside"),
+  lastLocationAt: timestamp("lastLocationAt"),
+  createdAt: timestamp("createdAt").notNull().defaultNow(),
+  updatedAt: timestamp("updatedAt")
+    .notNull()
+    .defaultNow()
+    .$onUpdate(() => new Date()),
+});
+
+export const geofenceEventsTable = pgTable("geofenceEvents", {
+  uuid: uuid("uuid").primaryKey().defaultRandom(),
+  geofenceUUID: uuid("geofenceUUID")
+    .notNull()
+    .references(() => geofencesTable.uuid, { onDelete: "cascade" }),
+  vehicleUUID: uuid("vehicleUUID")
+    .notNull()
+    .references(() => vehiclesTable.uuid, { onDelete: "cascade" }),
+  locationUUID: uuid("locationUUID")
+    .references(() => locationsTable.uuid, { onDelete: "set null" }),
+  notificationUUID: uuid("notificationUUID")
+    .references(() => notificationsTable.uuid, { onDelete: "set null" }),
+  eventType: geofenceEventTypeEnum("eventType").notNull(),
+  latitude: doublePrecision("latitude").notNull(),
+  longitude: doublePrecision("longitude").notNull(),
+  occurredAt: timestamp("occurredAt").notNull(), // Timestamp of the location that crossed the boundary
+  createdAt: timestamp("createdAt").notNull().defaultNow(),
+}, table => [
+  index("geofenceEvents_vehicleUUID_occurredAt_idx").on(table.vehicleUUID, table.occurredAt),
+]);
+
+export const insertGeofenceSchema = createInsertSchema(geofencesTable);
+
+export const updateGeofenceSchema = createUpdateSchema(geofencesTable);
+
+export const selectGeofenceSchema = createSelectSchema(geofencesTable);
+
+export const insertGeofenceEventSchema = createInsertSchema(geofenceEventsTable);
+
+export const selectGeofenceEventSchema = createSelectSchema(geofenceEventsTable);
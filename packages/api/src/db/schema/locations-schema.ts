@@ -27,6 +27,8 @@ export const locationsTable = pgTable("locations", {
   speed: doublePrecision("speed"),
   accuracy: doublePrecision("accuracy"),
   timestamp: timestamp("timestamp").notNull().defaultNow(),
+  // Server insertion time, unlike timestamp which comes from the device clock
+  createdAt: timestamp("createdAt").notNull().defaultNow(),
 });
 
 export const insertLocationSchema = createInsertSchema(locationsTable);
@@ -0,0 +1,29 @@
+import { index, integer, pgTable, text, timestamp, uuid } from "drizzle-orm/pg-core";
+import {
+  createInsertSchema,
+  createSelectSchema,
+} from "drizzle-zod";
+
+import { user } from "./auth-schema";
+import { maintenanceLogTable } from "./maintenance-log-schema";
+
+export const maintenanceAttachmentsTable = pgTable("maintenanceAttachments", {
+  uuid: uuid("uuid").primaryKey().defaultRandom(),
+  maintenanceLogUUID: uuid("maintenanceLogUUID")
+    .notNull()
+    .references(() => maintenanceLogTable.uuid, { onDelete: "cascade" }),
+  // R2 object key, scoped under the vehicle the entry belongs to
+  storageKey: text("storageKey").notNull().unique(),
+  fileName: text("fileName").notNull(),
+  contentType: text("contentType").notNull(),
+  size: integer("size").notNull(), // bytes
+  uploadedBy: text("uploadedBy")
+    .references(() => user.id, { onDelete: "set null" }),
+  createdAt: timestamp("createdAt").notNull().defaultNow(),
+}, table => [
+  index("maintenanceAttachments_maintenanceLogUUID_idx").on(table.maintenanceLogUUID),
+]);
+
+export const insertMaintenanceAttachmentSchema = createInsertSchema(maintenanceAttachmentsTable);
+
+export const selectMaintenanceAttachmentSchema = createSelectSchema(maintenanceAttachmentsTable);
@@ -0,0 +1,37 @@
+import { doublePrecision, index, integer, pgTable, text, timestamp, uuid } from "drizzle-orm/pg-core";
+import {
+  createInsertSchema,
+  createSelectSchema,
+  createUpdateSchema,
+} from "drizzle-zod";
+
+import { maintenanceLogTable } from "./maintenance-log-schema";
+
+export const maintenanceLineItemsTable = pgTable("maintenanceLineItems", {
+  uuid: uuid("uuid").primaryKey().defaultRandom(),
+  maintenanceLogUUID: uuid("maintenanceLogUUID")
+    .notNull()
+    .references(() => maintenanceLogTable.uuid, { onDelete: "cascade" }),
+  description: text("description").notNull(),
+  partNumber: text("partNumber"),
+  quantity: doublePrecision("quantity").notNull().default(1),
+  // Price per unit for parts, hourly rate for labour
+  unitPrice: doublePrecision("unitPrice").notNull(),
+  // Set for labour, billed as hours times the unit price instead of the quantity
+  labourHours: doublePrecision("labourHours"),
+  taxRate: doublePrecision("taxRate").notNull().default(0), // percent
+  position: integer("position").notNull().default(0),
+  createdAt: timestamp("createdAt").notNull().defaultNow(),
+  updatedAt: timestamp("updatedAt")
+    .notNull()
+    .defaultNow()
+    .$onUpdate(() => new Date()),
+}, table => [
+  index("maintenanceLineItems_maintenanceLogUUID_idx").on(table.maintenanceLogUUID, table.position),
+]);
+
+export const insertMaintenanceLineItemSchema = createInsertSchema(maintenanceLineItemsTable);
+
+export const selectMaintenanceLineItemSchema = createSelectSchema(maintenanceLineItemsTable);
+
+export const updateMaintenanceLineItemSchema = createUpdateSchema(maintenanceLineItemsTable);
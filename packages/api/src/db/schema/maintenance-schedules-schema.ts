@@ -0,0 +1,39 @@
+import { boolean, integer, pgEnum, pgTable, timestamp, uniqueIndex, uuid } from "drizzle-orm/pg-core";
+import {
+  createInsertSchema,
+  createSelectSchema,
+  createUpdateSchema,
+} from "drizzle-zod";
+
+import { serviceTypeEnum } from "./maintenance-log-schema";
+import { vehiclesTable } from "./vehicles-schema";
+
+export const maintenanceDueStatusEnum = pgEnum("maintenanceDueStatus", ["upcoming", "due", "overdue"]);
+
+export const maintenanceSchedulesTable = pgTable("maintenanceSchedules", {
+  uuid: uuid("uuid").primaryKey().defaultRandom(),
+  vehicleUUID: uuid("vehicleUUID")
+    .notNull()
+    .references(() => vehiclesTable.uuid, { onDelete: "cascade" }),
+  serviceType: serviceTypeEnum("serviceType").notNull(),
+  // Whichever interval is reached first makes the service due, at least one is set
+  intervalKm: integer("intervalKm"),
+  intervalMonths: integer("intervalMonths"),
+  enabled: boolean("enabled").notNull().default(true),
+  // Status the owner was last reminded of, cleared once the service is logged again
+  notifiedStatus: maintenanceDueStatusEnum("notifiedStatus"),
+  notifiedAt: timestamp("notifiedAt"),
+  createdAt: timestamp("createdAt").notNull().defaultNow(),
+  updatedAt: timestamp("updatedAt")
+    .notNull()
+    .defaultNow()
+    .$onUpdate(() => new Date()),
+}, table => [
+  uniqueIndex("maintenanceSchedules_vehicleUUID_serviceType_idx").on(table.vehicleUUID, table.serviceType),
+]);
+
+export const insertMaintenanceScheduleSchema = createInsertSchema(maintenanceSchedulesTable);
+
+export const selectMaintenanceScheduleSchema = createSelectSchema(maintenanceSchedulesTable);
+
+export const updateMaintenanceScheduleSchema = createUpdateSchema(maintenanceSchedulesTable);
@@ -0,0 +1,37 @@
+import {
+  doublePrecision,
+  jsonb,
+  pgTable,
+  text,
+  timestamp,
+} from "drizzle-orm/pg-core";
+import {
+  createInsertSchema,
+  createSelectSchema,
+  createUpdateSchema,
+} from "drizzle-zod";
+
+export const pidRegistryTable = pgTable("pidRegistry", {
+  pid: text("pid").primaryKey(), // eg: "0C", "05", "0D" (mode 01 PID in hex)
+  mode: text("mode").notNull().default("01"),
+  name: text("name").notNull(),
+  description: text("description"),
+  category: text("category").notNull(), // eg: "Engine", "Temperature", "Electrical"
+  unit: text("unit").notNull(), // canonical unit readings are stored in
+  minValue: doublePrecision("minValue"),
+  maxValue: doublePrecision("maxValue"),
+  typicalMin: doublePrecision("typicalMin"),
+  typicalMax: doublePrecision("typicalMax"),
+  aliases: jsonb("aliases").$type<string[]>().notNull().default([]), // eg: ["rpm", "engine_rpm"]
+  createdAt: timestamp("createdAt").notNull().defaultNow(),
+  updatedAt: timestamp("updatedAt")
+    .notNull()
+    .defaultNow()
+    .$onUpdate(() => new Date()),
+});
+
+export const insertPidRegistrySchema = createInsertSchema(pidRegistryTable);
+
+export const updatePidRegistrySchema = createUpdateSchema(pidRegistryTable);
+
+export const selectPidRegistrySchema = createSelectSchema(pidRegistryTable);
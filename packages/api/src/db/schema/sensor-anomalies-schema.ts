@@ -0,0 +1,44 @@
+import { doublePrecision, integer, pgEnum, pgTable, text, timestamp, uuid } from "drizzle-orm/pg-core";
+import {
+  createInsertSchema,
+  createSelectSchema,
+} from "drizzle-zod";
+
+import { diagnosticsTable } from "./diagnostics-schema";
+import { sensorReadingsTable } from "./sensor-readings-schema";
+import { sensorSnapshotsTable } from "./sensor-snapshots-schema";
+import { vehiclesTable } from "./vehicles-schema";
+
+export const anomalySeverityEnum = pgEnum("anomalySeverity", ["warning", "critical"]);
+
+export const sensorAnomaliesTable = pgTable("sensorAnomalies", {
+  uuid: uuid("uuid").primaryKey().defaultRandom(),
+  vehicleUUID: uuid("vehicleUUID")
+    .notNull()
+    .references(() => vehiclesTable.uuid, { onDelete: "cascade" }),
+  diagnosticUUID: uuid("diagnosticUUID")
+    .notNull()
+    .references(() => diagnosticsTable.uuid, { onDelete: "cascade" }),
+  sensorSnapshotUUID: uuid("sensorSnapshotUUID")
+    .notNull()
+    .references(() => sensorSnapshotsTable.uuid, { onDelete: "cascade" }),
+  sensorReadingUUID: uuid("sensorReadingUUID")
+    .notNull()
+    .references(() => sensorReadingsTable.uuid, { onDelete: "cascade" }),
+  pid: text("pid").notNull(),
+  value: doublePrecision("value").notNull(), // Stored in the canonical unit of the PID
+  unit: text("unit").notNull(),
+  // Baseline the reading was scored against, learned from the vehicle's own history
+  baselineMean: doublePrecision("baselineMean").notNull(),
+  baselineStddev: doublePrecision("baselineStddev").notNull(),
+  sampleCount: integer("sampleCount").notNull(),
+  // Lower bound of the RPM band the baseline was conditioned on, null when the whole history was used
+  rpmBand: integer("rpmBand"),
+  zScore: doublePrecision("zScore").notNull(),
+  severity: anomalySeverityEnum("severity").notNull(),
+  detectedAt: timestamp("detectedAt").notNull().defaultNow(),
+});
+
+export const insertSensorAnomalySchema = createInsertSchema(sensorAnomaliesTable);
+
+export const selectSensorAnomalySchema = createSelectSchema(sensorAnomaliesTable);
@@ -1,5 +1,6 @@
 import {
   doublePrecision,
+  index,
   jsonb,
   pgTable,
   text,
@@ -12,23 +13,42 @@ import {
   createUpdateSchema,
 } from "drizzle-zod";
 
+import type { serviceTypeEnum } from "./maintenance-log-schema";
+
+import { user } from "./auth-schema";
+
+export const WORKSHOP_DAYS = ["mon", "tue", "wed", "thu", "fri", "sat", "sun"] as const;
+
+export type WorkshopDay = (typeof WORKSHOP_DAYS)[number];
+
+// Opening intervals per day as "HH:mm" local times of the workshop, days left out are closed
+export type WorkshopOperatingHours = Partial<Record<WorkshopDay, { open: string; close: string }[]>>;
+
 export const serviceWorkshopsTable = pgTable("serviceWorkshops", {
   uuid: uuid("uuid").primaryKey().defaultRandom(),
   name: text("name").notNull(),
-  latitude: doublePrecision("latitude").notNull(),
-  longitude: doublePrecision("longitude").notNull(),
-  servicesOffered: jsonb("servicesOffered"),
+  // Null for workshops typed in by name on a maintenance entry, their location is not known
+  latitude: doublePrecision("latitude"),
+  longitude: doublePrecision("longitude"),
+  address: text("address"),
+  servicesOffered: jsonb("servicesOffered").$type<(typeof serviceTypeEnum.enumValues)[number][]>(),
   rating: doublePrecision("rating"),
   phone: text("phone"),
   email: text("email"),
   website: text("website"),
-  operatingHours: jsonb("operatingHours"),
+  operatingHours: jsonb("operatingHours").$type<WorkshopOperatingHours>(),
+  // IANA time zone the operating hours are expressed in
+  timezone: text("timezone").notNull().default("Europe/Bucharest"),
+  createdBy: text("createdBy")
+    .references(() => user.id, { onDelete: "set null" }),
   createdAt: timestamp("createdAt").notNull().defaultNow(),
   updatedAt: timestamp("updatedAt")
     .notNull()
     .defaultNow()
     .$onUpdate(() => new Date()),
-});
+}, table => [
+  index("serviceWorkshops_latitude_longitude_idx").on(table.latitude, table.longitude),
+]);
 
 export const insertServiceWorkshopSchema = createInsertSchema(
   serviceWorkshopsTable,
@@ -0,0 +1,38 @@
+import { doublePrecision, index, integer, pgTable, timestamp, uuid } from "drizzle-orm/pg-core";
+import {
+  createInsertSchema,
+  createSelectSchema,
+} from "drizzle-zod";
+
+import { vehiclesTable } from "./vehicles-schema";
+
+// Trips are derived from the location stream of a vehicle and rebuilt whenever new locations arrive
+export const tripsTable = pgTable("trips", {
+  uuid: uuid("uuid").primaryKey().defaultRandom(),
+  vehicleUUID: uuid("vehicleUUID")
+    .notNull()
+    .references(() => vehiclesTable.uuid, { onDelete: "cascade" }),
+  startedAt: timestamp("startedAt").notNull(),
+  endedAt: timestamp("endedAt").notNull(),
+  startLatitude: doublePrecision("startLatitude").notNull(),
+  startLongitude: doublePrecision("startLongitude").notNull(),
+  endLatitude: doublePrecision("endLatitude").notNull(),
+  endLongitude: doublePrecision("endLongitude").notNull(),
+  distance: doublePrecision("distance").notNull(), // km
+  duration: integer("duration").notNull(), // seconds
+  maxSpeed: doublePrecision("maxSpeed").notNull(), // km/h
+  avgSpeed: doublePrecision("avgSpeed").notNull(), // km/h, over the whole duration
+  idleTime: integer("idleTime").notNull(), // seconds spent stopped during the trip
+  locationCount: integer("locationCount").notNull(),
+  createdAt: timestamp("createdAt").notNull().defaultNow(),
+  updatedAt: timestamp("updatedAt")
+    .notNull()
+    .defaultNow()
+    .$onUpdate(() => new Date()),
+}, table => [
+  index("trips_vehicleUUID_startedAt_idx").on(table.vehicleUUID, table.startedAt),
+]);
+
+export const insertTripSchema = createInsertSchema(tripsTable);
+
+export const selectTripSchema = createSelectSchema(tripsTable);
@@ -0,0 +1,40 @@
+import { pgEnum, pgTable, text, timestamp } from "drizzle-orm/pg-core";
+import {
+  createInsertSchema,
+  createSelectSchema,
+  createUpdateSchema,
+} from "drizzle-zod";
+
+import { user } from "./auth-schema";
+
+export const unitSystemEnum = pgEnum("unitSystem", ["metric", "imperial", "mixed"]);
+
+export const distanceUnitEnum = pgEnum("distanceUnit", ["km", "mi"]);
+export const speedUnitEnum = pgEnum("speedUnit", ["km/h", "mph"]);
+export const temperatureUnitEnum = pgEnum("temperatureUnit", ["°C", "°F"]);
+export const pressureUnitEnum = pgEnum("pressureUnit", ["kPa", "psi", "bar"]);
+export const volumeUnitEnum = pgEnum("volumeUnit", ["L", "gal"]);
+
+export const userPreferencesTable = pgTable("userPreferences", {
+  userId: text("userId")
+    .primaryKey()
+    .references(() => user.id, { onDelete: "cascade" }),
+  unitSystem: unitSystemEnum("unitSystem").notNull().default("metric"),
+  // Per-quantity units, only used when unitSystem is "mixed"
+  distanceUnit: distanceUnitEnum("distanceUnit"),
+  speedUnit: speedUnitEnum("speedUnit"),
+  temperatureUnit: temperatureUnitEnum("temperatureUnit"),
+  pressureUnit: pressureUnitEnum("pressureUnit"),
+  volumeUnit: volumeUnitEnum("volumeUnit"),
+  createdAt: timestamp("createdAt").notNull().defaultNow(),
+  updatedAt: timestamp("updatedAt")
+    .notNull()
+    .defaultNow()
+    .$onUpdate(() => new Date()),
+});
+
+export const insertUserPreferencesSchema = createInsertSchema(userPreferencesTable);
+
+export const updateUserPreferencesSchema = createUpdateSchema(userPreferencesTable);
+
+export const selectUserPreferencesSchema = createSelectSchema(userPreferencesTable);
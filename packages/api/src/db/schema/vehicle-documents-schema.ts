@@ -0,0 +1,53 @@
+import { index, integer, pgEnum, pgTable, text, timestamp, uuid } from "drizzle-orm/pg-core";
+import {
+  createInsertSchema,
+  createSelectSchema,
+  createUpdateSchema,
+} from "drizzle-zod";
+
+import { vehiclesTable } from "./vehicles-schema";
+
+export const vehicleDocumentTypeEnum = pgEnum("vehicleDocumentType", [
+  "rca", // mandatory third-party liability insurance
+  "casco", // optional comprehensive insurance
+  "itp", // periodic technical inspection
+  "rovinieta", // road vignette
+  "registration", // registration certificate (talon)
+  "other",
+]);
+
+export const vehicleDocumentsTable = pgTable("vehicleDocuments", {
+  uuid: uuid("uuid").primaryKey().defaultRandom(),
+  vehicleUUID: uuid("vehicleUUID")
+    .notNull()
+    .references(() => vehiclesTable.uuid, { onDelete: "cascade" }),
+  type: vehicleDocumentTypeEnum("type").notNull(),
+  number: text("number"), // policy, certificate or vignette number
+  issuer: text("issuer"),
+  validFrom: timestamp("validFrom"),
+  // Null for documents that do not expire
+  validTo: timestamp("validTo"),
+  // Days before expiry to remind the owner at, the expiry itself is always notified
+  reminderLeadDays: integer("reminderLeadDays").array().notNull().default([30, 7, 1]),
+  // Smallest lead time the owner was reminded at, 0 once the expiry was notified
+  remindedLeadDays: integer("remindedLeadDays"),
+  notes: text("notes"),
+  // Optional scan or photo, stored privately in R2
+  fileKey: text("fileKey").unique(),
+  fileName: text("fileName"),
+  fileContentType: text("fileContentType"),
+  fileSize: integer("fileSize"), // bytes
+  createdAt: timestamp("createdAt").notNull().defaultNow(),
+  updatedAt: timestamp("updatedAt")
+    .notNull()
+    .defaultNow()
+    .$onUpdate(() => new Date()),
+}, table => [
+  index("vehicleDocuments_vehicleUUID_validTo_idx").on(table.vehicleUUID, table.validTo),
+]);
+
+export const insertVehicleDocumentSchema = createInsertSchema(vehicleDocumentsTable);
+
+export const selectVehicleDocumentSchema = createSelectSchema(vehicleDocumentsTable);
+
+export const updateVehicleDocumentSchema = createUpdateSchema(vehicleDocumentsTable);
@@ -1,7 +1,13 @@
 import env from "../env";
 import app from "./app";
+import { checkAllVehicleDocumentReminders } from "./lib/vehicle-documents";
+import { createLogger } from "./middleware/pino-logger";
 
 export default {
   port: env.PORT,
   fetch: app.fetch,
+  // Cron trigger, so document reminders go out even when nobody opens the app
+  scheduled(_controller: ScheduledController, _env: unknown, ctx: ExecutionContext) {
+    ctx.waitUntil(checkAllVehicleDocumentReminders(createLogger()));
+  },
 };
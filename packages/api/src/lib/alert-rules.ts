@@ -0,0 +1,264 @@
+import { and, desc, eq, gt, isNull, lt, lte, or } from "drizzle-orm";
+
+import type { diagnosticsTable } from "../db/schema/diagnostics-schema";
+import type { SensorAlertNotificationData } from "../zod/z-alert-rules";
+import type { UnitPreferences } from "./units";
+
+import { db } from "../db";
+import { alertEventsTable, alertRulesTable, insertAlertEventSchema } from "../db/schema/alert-rules-schema";
+import { insertNotificationSchema, notificationsTable } from "../db/schema/notifications";
+import { sensorReadingsTable } from "../db/schema/sensor-readings-schema";
+import { sensorSnapshotsTable } from "../db/schema/sensor-snapshots-schema";
+import { vehiclesTable } from "../db/schema/vehicles-schema";
+import { createPidResolver, getPidRegistry } from "./pid-registry";
+import { getUnitPreferences, toCanonicalUnit, toPreferredUnit } from "./units";
+
+type Diagnostic = typeof diagnosticsTable.$inferSelect;
+type SensorReading = typeof sensorReadingsTable.$inferSelect;
+type AlertRule = typeof alertRulesTable.$inferSelect;
+type AlertEvent = typeof alertEventsTable.$inferSelect;
+
+export const ALERT_OPERATOR_SYMBOLS: Record<AlertRule["operator"], string> = {
+  gt: ">",
+  gte: "≥",
+  lt: "<",
+  lte: "≤",
+};
+
+/**
+ * Check a value against the condition of a rule. Values and threshold are
+ * both in the canonical unit of the PID.
+ */
+export function matchesAlertCondition(rule: Pick<AlertRule, "operator" | "threshold">, value: number) {
+  switch (rule.operator) {
+    case "gt":
+      return value > rule.threshold;
+    case "gte":
+      return value >= rule.threshold;
+    case "lt":
+      return value < rule.threshold;
+    case "lte":
+      return value <= rule.threshold;
+  }
+}
+
+/**
+ * Resolve the PID and threshold of a rule as sent by a client. The threshold
+ * is converted to the canonical unit of the PID; when no unit is given it is
+ * assumed to be in the unit the user sees the PID in.
+ */
+export async function resolveAlertThreshold(
+  { pid, threshold, unit }: { pid: string; threshold: number; unit?: string },
+  preferences: UnitPreferences,
+): Promise<{ pid: string; threshold: number; unit: string } | { error: string }> {
+  const entry = createPidResolver(await getPidRegistry())(pid);
+
+  if (!entry) {
+    return { error: `Unknown PID "${pid}"` };
+  }
+
+  const inputUnit = unit ?? toPreferredUnit(0, entry.unit, preferences).unit;
+  const canonical = toCanonicalUnit(threshold, inputUnit);
+
+  if (canonical.unit !== entry.unit) {
+    return { error: `Unit "${inputUnit}" cannot be used for PID ${entry.pid} (${entry.unit})` };
+  }
+
+  return { pid: entry.pid, threshold: canonical.value, unit: canonical.unit };
+}
+
+/**
+ * Express the threshold of a rule in the user's preferred unit
+ */
+export function convertAlertRule(rule: AlertRule, preferences: UnitPreferences): AlertRule {
+  const { value, unit } = toPreferredUnit(rule.threshold, rule.unit, preferences);
+  return { ...rule, threshold: value, unit };
+}
+
+/**
+ * Express the value and threshold of a fired alert in the user's preferred unit
+ */
+export function convertAlertEvent<T extends AlertEvent>(event: T, preferences: UnitPreferences): T {
+  const value = toPreferredUnit(event.value, event.unit, preferences);
+  return {
+    ...event,
+    value: value.value,
+    threshold: toPreferredUnit(event.threshold, event.unit, preferences).value,
+    unit: value.unit,
+  };
+}
+
+/**
+ * Check whether the condition of a rule held for its whole duration, ending
+ * with the given reading. The last reading at or before the start of the
+ * window has to match, and so does every reading inside the window.
+ */
+async function conditionHeldForDuration(rule: AlertRule, diagnosticUUID: string, reading: SensorReading) {
+  if (rule.durationSeconds === 0) {
+    return true;
+  }
+
+  const windowStart = new Date(reading.timestamp.getTime() - rule.durationSeconds * 1000);
+
+  const readingAtStart = await db
+    .select({ value: sensorReadingsTable.value })
+    .from(sensorReadingsTable)
+    .innerJoin(sensorSnapshotsTable, eq(sensorReadingsTable.sensorSnapshotsUUID, sensorSnapshotsTable.uuid))
+    .where(
+      and(
+        eq(sensorSnapshotsTable.diagnosticUUID, diagnosticUUID),
+        eq(sensorReadingsTable.pid, rule.pid),
+        lte(sensorReadingsTable.timestamp, windowStart),
+      ),
+    )
+    .orderBy(desc(sensorReadingsTable.timestamp))
+    .limit(1)
+    .then(res => res[0]);
+
+  if (!readingAtStart || !matchesAlertCondition(rule, readingAtStart.value)) {
+    return false;
+  }
+
+  const windowReadings = await db
+    .select({ value: sensorReadingsTable.value })
+    .from(sensorReadingsTable)
+    .innerJoin(sensorSnapshotsTable, eq(sensorReadingsTable.sensorSnapshotsUUID, sensorSnapshotsTable.uuid))
+    .where(
+      and(
+        eq(sensorSnapshotsTable.diagnosticUUID, diagnosticUUID),
+        eq(sensorReadingsTable.pid, rule.pid),
+        gt(sensorReadingsTable.timestamp, windowStart),
+        lte(sensorReadingsTable.timestamp, reading.timestamp),
+      ),
+    );
+
+  return windowReadings.every(row => matchesAlertCondition(rule, row.value));
+}
+
+/**
+ * Evaluate the enabled alert rules of a vehicle against freshly stored
+ * readings. Every rule that fires gets an alert event and a "sensor_alert"
+ * notification for the vehicle owner. Returns the fired alert events.
+ */
+export async function evaluateAlertRules(diagnostic: Diagnostic, snapshotUUID: string, readings: SensorReading[]) {
+  if (readings.length === 0) {
+    return [];
+  }
+
+  const rules = await db
+    .select()
+    .from(alertRulesTable)
+    .where(
+      and(
+        eq(alertRulesTable.vehicleUUID, diagnostic.vehicleUUID),
+        eq(alertRulesTable.enabled, true),
+      ),
+    );
+
+  if (rules.length === 0) {
+    return [];
+  }
+
+  const vehicle = await db
+    .select()
+    .from(vehiclesTable)
+    .where(eq(vehiclesTable.uuid, diagnostic.vehicleUUID))
+    .then(res => res[0]);
+
+  if (!vehicle) {
+    return [];
+  }
+
+  const now = Date.now();
+  const firedEvents: AlertEvent[] = [];
+  let preferences: UnitPreferences | null = null;
+
+  for (const rule of rules) {
+    // Rules still cooling down are skipped without a round trip, the claim below is what enforces it
+    if (rule.lastFiredAt && now - rule.lastFiredAt.getTime() < rule.cooldownSeconds * 1000) {
+      continue;
+    }
+
+    // The most recent matching reading of the batch is the one that triggers the rule
+    const trigger = readings
+      .filter(reading => reading.pid === rule.pid && reading.unit === rule.unit && matchesAlertCondition(rule, reading.value))
+      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())[0];
+
+    if (!trigger || !(await conditionHeldForDuration(rule, diagnostic.uuid, trigger))) {
+      continue;
+    }
+
+    // Claim the rule before firing it, a concurrent evaluation that claimed it first wins and this one skips
+    const firedAt = new Date();
+    const cooldownCutoff = new Date(firedAt.getTime() - rule.cooldownSeconds * 1000);
+
+    const claimed = await db
+      .update(alertRulesTable)
+      .set({ lastFiredAt: firedAt })
+      .where(
+        and(
+          eq(alertRulesTable.uuid, rule.uuid),
+          or(isNull(alertRulesTable.lastFiredAt), lt(alertRulesTable.lastFiredAt, cooldownCutoff)),
+        ),
+      )
+      .returning({ uuid: alertRulesTable.uuid });
+
+    if (claimed.length === 0) {
+      continue;
+    }
+
+    preferences ??= await getUnitPreferences(vehicle.ownerId);
+
+    const alertEventUUID = crypto.randomUUID();
+    const notificationUUID = crypto.randomUUID();
+    const value = toPreferredUnit(trigger.value, rule.unit, preferences);
+    const threshold = toPreferredUnit(rule.threshold, rule.unit, preferences);
+    const formatValue = (amount: number) => `${Math.round(amount * 10) / 10} ${value.unit}`.trim();
+
+    const [, [event]] = await db.batch([
+      db
+        .insert(notificationsTable)
+        .values(insertNotificationSchema.parse({
+          uuid: notificationUUID,
+          userId: vehicle.ownerId,
+          type: "sensor_alert",
+          title: `Alert: ${rule.name}`,
+          message: `${vehicle.year} ${vehicle.make} ${vehicle.model}: PID ${rule.pid} read ${formatValue(value.value)} (rule ${ALERT_OPERATOR_SYMBOLS[rule.operator]} ${formatValue(threshold.value)}${rule.durationSeconds > 0 ? ` for ${rule.durationSeconds}s` : ""})`,
+          data: JSON.stringify({
+            alertRuleUUID: rule.uuid,
+            alertEventUUID,
+            vehicleUUID: vehicle.uuid,
+            diagnosticUUID: diagnostic.uuid,
+            sensorSnapshotUUID: snapshotUUID,
+            sensorReadingUUID: trigger.uuid,
+            pid: rule.pid,
+            operator: rule.operator,
+            value: value.value,
+            threshold: threshold.value,
+            unit: value.unit,
+          } satisfies SensorAlertNotificationData),
+        })),
+      db
+        .insert(alertEventsTable)
+        .values(insertAlertEventSchema.parse({
+          uuid: alertEventUUID,
+          alertRuleUUID: rule.uuid,
+          vehicleUUID: vehicle.uuid,
+          diagnosticUUID: diagnostic.uuid,
+          sensorSnapshotUUID: snapshotUUID,
+          sensorReadingUUID: trigger.uuid,
+          notificationUUID,
+          pid: rule.pid,
+          value: trigger.value,
+          threshold: rule.threshold,
+          unit: rule.unit,
+          firedAt,
+        }))
+        .returning(),
+    ]);
+
+    firedEvents.push(event);
+  }
+
+  return firedEvents;
+}
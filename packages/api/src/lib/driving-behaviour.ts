@@ -0,0 +1,547 @@
+import { and, asc, desc, eq, gte, inArray } from "drizzle-orm";
+
+import type { UnitPreferences } from "./units";
+
+import { db } from "../db";
+import { diagnosticsTable } from "../db/schema/diagnostics-schema";
+import { locationsTable } from "../db/schema/locations-schema";
+import { sensorReadingsTable } from "../db/schema/sensor-readings-schema";
+import { sensorSnapshotsTable } from "../db/schema/sensor-snapshots-schema";
+import { haversineDistance, initialBearing } from "./geo";
+import { CANONICAL_UNITS, convertDistance, toPreferredUnit } from "./units";
+
+type Diagnostic = typeof diagnosticsTable.$inferSelect;
+type Location = typeof locationsTable.$inferSelect;
+
+type DrivingReading = {
+  pid: string;
+  value: number;
+  timestamp: Date;
+};
+
+type Sample = {
+  timestamp: Date;
+  value: number;
+};
+
+export type DrivingEventType = "harsh_acceleration" | "harsh_braking" | "sharp_cornering" | "over_revving" | "excessive_idling";
+
+export type DrivingEvent = {
+  type: DrivingEventType;
+  occurredAt: Date;
+  latitude: number | null;
+  longitude: number | null;
+  value: number; // peak acceleration (m/s²), peak RPM or idle time (s)
+  unit: "m/s²" | "rpm" | "s";
+  speed: number | null; // km/h
+  duration: number | null; // s, for over-revving and idling
+};
+
+export type DrivingEventCounts = Record<DrivingEventType, number>;
+
+export type DrivingSession = {
+  diagnosticUUID: string;
+  startedAt: Date;
+  endedAt: Date;
+  distance: number; // km
+  duration: number; // s
+  score: number | null;
+  eventCounts: DrivingEventCounts;
+  events: DrivingEvent[];
+};
+
+export type DrivingMonth = {
+  month: string; // YYYY-MM
+  score: number | null;
+  distance: number; // km
+  sessionCount: number;
+  eventCounts: DrivingEventCounts;
+};
+
+const SPEED_PID = "0D";
+const RPM_PID = "0C";
+const THROTTLE_PID = "11";
+
+const DRIVING_PIDS = [SPEED_PID, RPM_PID, THROTTLE_PID];
+
+// Samples further apart than this are not compared, the acceleration between them is meaningless
+const MAX_SAMPLE_GAP_SECONDS = 5;
+
+// Longitudinal acceleration thresholds in m/s², braking is negative
+const HARSH_ACCELERATION = 3.0;
+const HARSH_ACCELERATION_WITH_THROTTLE = 2.5;
+const HARSH_BRAKING = -3.5;
+
+// Throttle position (%) that marks a flat-out launch
+const WIDE_OPEN_THROTTLE = 80;
+
+// Lateral acceleration (m/s²) of a sharp corner, only checked above a walking pace
+const SHARP_CORNERING = 4.0;
+const MIN_CORNERING_SPEED_KMH = 20;
+
+// Heading between locations closer than this is GPS noise
+const MIN_HEADING_SEGMENT_KM = 0.005;
+const MAX_CORNER_SECONDS = 10;
+
+const OVER_REV_RPM = 4500;
+
+// Engine running (above the engine-off RPM) while the vehicle stands still
+const ENGINE_OFF_RPM = 300;
+const STATIONARY_SPEED_KMH = 3;
+const MAX_IDLE_SAMPLE_GAP_SECONDS = 60;
+const EXCESSIVE_IDLE_SECONDS = 5 * 60;
+
+// Exceedances this close together are one event
+const EVENT_MERGE_SECONDS = 3;
+
+// Events are placed at the nearest location recorded within this window
+const MAX_LOCATION_OFFSET_SECONDS = 30;
+
+// Score points lost per penalty point, per 10 km driven. Short sessions are
+// scored as if they were 10 km long so a single event does not sink them.
+const EVENT_PENALTIES: Record<DrivingEventType, number> = {
+  harsh_acceleration: 2,
+  harsh_braking: 3,
+  sharp_cornering: 2,
+  over_revving: 1,
+  excessive_idling: 1,
+};
+const SCORE_POINTS_PER_PENALTY = 5;
+const SCORE_DISTANCE_KM = 10;
+
+function secondsBetween(from: Date, to: Date) {
+  return (to.getTime() - from.getTime()) / 1000;
+}
+
+function groupBy<T>(items: T[], getKey: (item: T) => string) {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const key = getKey(item);
+    const group = groups.get(key);
+    if (group) {
+      group.push(item);
+    }
+    else {
+      groups.set(key, [item]);
+    }
+  }
+  return groups;
+}
+
+function emptyEventCounts(): DrivingEventCounts {
+  return {
+    harsh_acceleration: 0,
+    harsh_braking: 0,
+    sharp_cornering: 0,
+    over_revving: 0,
+    excessive_idling: 0,
+  };
+}
+
+/**
+ * Sample closest in time to `timestamp`, if one was taken within `maxOffsetSeconds`.
+ * Samples must be sorted by timestamp.
+ */
+function findNearest<T extends { timestamp: Date }>(samples: T[], timestamp: Date, maxOffsetSeconds: number) {
+  let low = 0;
+  let high = samples.length - 1;
+
+  while (low < high) {
+    const middle = Math.floor((low + high) / 2);
+    if (samples[middle].timestamp < timestamp) {
+      low = middle + 1;
+    }
+    else {
+      high = middle;
+    }
+  }
+
+  const candidates = [samples[low - 1], samples[low]].filter(Boolean);
+  let nearest: T | null = null;
+
+  for (const candidate of candidates) {
+    const offset = Math.abs(secondsBetween(candidate.timestamp, timestamp));
+    if (offset <= maxOffsetSeconds && (!nearest || offset < Math.abs(secondsBetween(nearest.timestamp, timestamp)))) {
+      nearest = candidate;
+    }
+  }
+
+  return nearest;
+}
+
+/**
+ * Vehicle speed over the session in km/h. The OBD speed PID is preferred, GPS
+ * speeds (reported in m/s) are used for sessions recorded without it.
+ */
+function getSpeedSamples(locations: Location[], readings: DrivingReading[]): Sample[] {
+  const obdSpeeds = readings.filter(reading => reading.pid === SPEED_PID);
+
+  if (obdSpeeds.length >= 2) {
+    return obdSpeeds.map(reading => ({ timestamp: reading.timestamp, value: reading.value }));
+  }
+
+  return locations
+    .filter(location => location.speed != null)
+    .map(location => ({ timestamp: location.timestamp, value: location.speed! * 3.6 }));
+}
+
+/**
+ * Add an exceedance to the event list, folding it into the previous event of
+ * the same type when they are part of the same manoeuvre
+ */
+function pushEvent(events: DrivingEvent[], event: Omit<DrivingEvent, "latitude" | "longitude">) {
+  const previous = [...events].reverse().find(candidate => candidate.type === event.type);
+
+  if (previous && secondsBetween(previous.occurredAt, event.occurredAt) <= EVENT_MERGE_SECONDS) {
+    if (Math.abs(event.value) > Math.abs(previous.value)) {
+      previous.value = event.value;
+      previous.speed = event.speed;
+    }
+    return;
+  }
+
+  events.push({ ...event, latitude: null, longitude: null });
+}
+
+function detectAccelerationEvents(speeds: Sample[], throttle: Sample[], events: DrivingEvent[]) {
+  for (let index = 1; index < speeds.length; index++) {
+    const previous = speeds[index - 1];
+    const sample = speeds[index];
+    const elapsed = secondsBetween(previous.timestamp, sample.timestamp);
+
+    if (elapsed <= 0 || elapsed > MAX_SAMPLE_GAP_SECONDS) {
+      continue;
+    }
+
+    const acceleration = (sample.value - previous.value) / 3.6 / elapsed;
+    const event = { occurredAt: sample.timestamp, value: acceleration, unit: "m/s²" as const, speed: sample.value, duration: null };
+
+    if (acceleration <= HARSH_BRAKING) {
+      pushEvent(events, { ...event, type: "harsh_braking" });
+      continue;
+    }
+
+    if (acceleration >= HARSH_ACCELERATION_WITH_THROTTLE) {
+      const throttlePosition = findNearest(throttle, sample.timestamp, MAX_SAMPLE_GAP_SECONDS)?.value;
+
+      if (acceleration >= HARSH_ACCELERATION || (throttlePosition != null && throttlePosition >= WIDE_OPEN_THROTTLE)) {
+        pushEvent(events, { ...event, type: "harsh_acceleration" });
+      }
+    }
+  }
+}
+
+/**
+ * Lateral acceleration from the change of heading between consecutive
+ * locations: v * dθ/dt
+ */
+function detectCorneringEvents(locations: Location[], speeds: Sample[], events: DrivingEvent[]) {
+  for (let index = 1; index < locations.length - 1; index++) {
+    const before = locations[index - 1];
+    const location = locations[index];
+    const after = locations[index + 1];
+
+    const elapsed = secondsBetween(before.timestamp, after.timestamp);
+    if (elapsed <= 0 || elapsed > MAX_CORNER_SECONDS) {
+      continue;
+    }
+
+    if (haversineDistance(before, location) < MIN_HEADING_SEGMENT_KM || haversineDistance(location, after) < MIN_HEADING_SEGMENT_KM) {
+      continue;
+    }
+
+    const speed = location.speed != null
+      ? location.speed * 3.6
+      : findNearest(speeds, location.timestamp, MAX_SAMPLE_GAP_SECONDS)?.value;
+
+    if (speed == null || speed < MIN_CORNERING_SPEED_KMH) {
+      continue;
+    }
+
+    const headingChange = Math.abs(((initialBearing(location, after) - initialBearing(before, location) + 540) % 360) - 180);
+    const yawRate = (headingChange * Math.PI / 180) / (elapsed / 2);
+    const lateralAcceleration = speed / 3.6 * yawRate;
+
+    if (lateralAcceleration >= SHARP_CORNERING) {
+      pushEvent(events, {
+        type: "sharp_cornering",
+        occurredAt: location.timestamp,
+        value: lateralAcceleration,
+        unit: "m/s²",
+        speed,
+        duration: null,
+      });
+    }
+  }
+}
+
+/**
+ * Runs of consecutive RPM readings matching `predicate`, split where readings
+ * are more than `maxGapSeconds` apart
+ */
+function findRpmRuns(rpm: Sample[], predicate: (sample: Sample) => boolean, maxGapSeconds: number) {
+  const runs: Sample[][] = [];
+  let current: Sample[] = [];
+
+  for (const sample of rpm) {
+    const previous = current[current.length - 1];
+
+    if (!predicate(sample) || (previous && secondsBetween(previous.timestamp, sample.timestamp) > maxGapSeconds)) {
+      if (current.length > 0) {
+        runs.push(current);
+      }
+      current = predicate(sample) ? [sample] : [];
+      continue;
+    }
+
+    current.push(sample);
+  }
+
+  if (current.length > 0) {
+    runs.push(current);
+  }
+
+  return runs;
+}
+
+function detectEngineEvents(rpm: Sample[], speeds: Sample[], events: DrivingEvent[]) {
+  for (const run of findRpmRuns(rpm, sample => sample.value >= OVER_REV_RPM, MAX_SAMPLE_GAP_SECONDS)) {
+    const peak = run.reduce((max, sample) => sample.value > max.value ? sample : max);
+
+    events.push({
+      type: "over_revving",
+      occurredAt: run[0].timestamp,
+      latitude: null,
+      longitude: null,
+      value: peak.value,
+      unit: "rpm",
+      speed: findNearest(speeds, peak.timestamp, MAX_SAMPLE_GAP_SECONDS)?.value ?? null,
+      duration: secondsBetween(run[0].timestamp, run[run.length - 1].timestamp),
+    });
+  }
+
+  const isIdling = (sample: Sample) => {
+    const speed = findNearest(speeds, sample.timestamp, MAX_SAMPLE_GAP_SECONDS)?.value;
+    return sample.value >= ENGINE_OFF_RPM && speed != null && speed < STATIONARY_SPEED_KMH;
+  };
+
+  for (const run of findRpmRuns(rpm, isIdling, MAX_IDLE_SAMPLE_GAP_SECONDS)) {
+    const idleTime = secondsBetween(run[0].timestamp, run[run.length - 1].timestamp);
+
+    if (idleTime >= EXCESSIVE_IDLE_SECONDS) {
+      events.push({
+        type: "excessive_idling",
+        occurredAt: run[0].timestamp,
+        latitude: null,
+        longitude: null,
+        value: idleTime,
+        unit: "s",
+        speed: 0,
+        duration: idleTime,
+      });
+    }
+  }
+}
+
+/**
+ * Distance driven in km, from the locations when there is a track, from the
+ * speed samples otherwise
+ */
+function getSessionDistance(locations: Location[], speeds: Sample[]) {
+  if (locations.length >= 2) {
+    let distance = 0;
+    for (let index = 1; index < locations.length; index++) {
+      distance += haversineDistance(locations[index - 1], locations[index]);
+    }
+    return distance;
+  }
+
+  let distance = 0;
+  for (let index = 1; index < speeds.length; index++) {
+    const elapsed = secondsBetween(speeds[index - 1].timestamp, speeds[index].timestamp);
+    if (elapsed > 0 && elapsed <= MAX_SAMPLE_GAP_SECONDS) {
+      distance += (speeds[index - 1].value + speeds[index].value) / 2 * elapsed / 3600;
+    }
+  }
+  return distance;
+}
+
+/**
+ * 0-100 score of a session, 100 being a session without events
+ */
+function scoreSession(eventCounts: DrivingEventCounts, distance: number) {
+  const penalty = Object.entries(eventCounts)
+    .reduce((sum, [type, count]) => sum + EVENT_PENALTIES[type as DrivingEventType] * count, 0);
+
+  const score = 100 - penalty * SCORE_POINTS_PER_PENALTY * SCORE_DISTANCE_KM / Math.max(distance, SCORE_DISTANCE_KM);
+
+  return Math.max(0, Math.round(score));
+}
+
+/**
+ * Detect the driving events of a diagnostic session and score it. Locations
+ * and readings must be sorted by timestamp.
+ */
+function analyzeDrivingSession(diagnostic: Diagnostic, locations: Location[], readings: DrivingReading[]): DrivingSession {
+  const speeds = getSpeedSamples(locations, readings);
+  const rpm = readings.filter(reading => reading.pid === RPM_PID);
+  const throttle = readings.filter(reading => reading.pid === THROTTLE_PID);
+
+  const events: DrivingEvent[] = [];
+  detectAccelerationEvents(speeds, throttle, events);
+  detectCorneringEvents(locations, speeds, events);
+  detectEngineEvents(rpm, speeds, events);
+
+  events.sort((a, b) => a.occurredAt.getTime() - b.occurredAt.getTime());
+
+  for (const event of events) {
+    const location = findNearest(locations, event.occurredAt, MAX_LOCATION_OFFSET_SECONDS);
+    event.latitude = location?.latitude ?? null;
+    event.longitude = location?.longitude ?? null;
+  }
+
+  const eventCounts = emptyEventCounts();
+  for (const event of events) {
+    eventCounts[event.type]++;
+  }
+
+  // A loop rather than Math.min(...) so that long sessions cannot overflow the call stack
+  let firstTimestamp = Infinity;
+  let lastTimestamp = -Infinity;
+  for (const sample of [...locations, ...readings]) {
+    const timestamp = sample.timestamp.getTime();
+    firstTimestamp = Math.min(firstTimestamp, timestamp);
+    lastTimestamp = Math.max(lastTimestamp, timestamp);
+  }
+
+  const hasData = locations.length > 0 || readings.length > 0;
+  const distance = getSessionDistance(locations, speeds);
+
+  return {
+    diagnosticUUID: diagnostic.uuid,
+    startedAt: hasData ? new Date(firstTimestamp) : diagnostic.createdAt,
+    endedAt: hasData ? new Date(lastTimestamp) : diagnostic.createdAt,
+    distance,
+    duration: hasData ? Math.round((lastTimestamp - firstTimestamp) / 1000) : 0,
+    score: speeds.length >= 2 || rpm.length >= 2 ? scoreSession(eventCounts, distance) : null,
+    eventCounts,
+    events,
+  };
+}
+
+/**
+ * Load the locations and driving PID readings of several diagnostics, grouped
+ * by diagnostic and sorted by timestamp
+ */
+async function loadDrivingData(diagnosticUUIDs: string[]) {
+  const locations = await db
+    .select()
+    .from(locationsTable)
+    .where(inArray(locationsTable.diagnosticUUID, diagnosticUUIDs))
+    .orderBy(asc(locationsTable.timestamp));
+
+  const readings = await db
+    .select({
+      diagnosticUUID: sensorSnapshotsTable.diagnosticUUID,
+      pid: sensorReadingsTable.pid,
+      value: sensorReadingsTable.value,
+      timestamp: sensorReadingsTable.timestamp,
+    })
+    .from(sensorReadingsTable)
+    .innerJoin(sensorSnapshotsTable, eq(sensorReadingsTable.sensorSnapshotsUUID, sensorSnapshotsTable.uuid))
+    .where(
+      and(
+        inArray(sensorSnapshotsTable.diagnosticUUID, diagnosticUUIDs),
+        inArray(sensorReadingsTable.pid, DRIVING_PIDS),
+      ),
+    )
+    .orderBy(asc(sensorReadingsTable.timestamp));
+
+  const locationsByDiagnostic = groupBy(locations, location => location.diagnosticUUID);
+  const readingsByDiagnostic = groupBy(readings, reading => reading.diagnosticUUID);
+
+  return { locationsByDiagnostic, readingsByDiagnostic };
+}
+
+/**
+ * Driving events and score of a single diagnostic session
+ */
+export async function getDrivingSession(diagnostic: Diagnostic) {
+  const { locationsByDiagnostic, readingsByDiagnostic } = await loadDrivingData([diagnostic.uuid]);
+
+  return analyzeDrivingSession(
+    diagnostic,
+    locationsByDiagnostic.get(diagnostic.uuid) ?? [],
+    readingsByDiagnostic.get(diagnostic.uuid) ?? [],
+  );
+}
+
+/**
+ * Score the diagnostic sessions of a vehicle started since `since`, most
+ * recent first, and roll them up per calendar month (UTC). A month's score is
+ * the average of its scored sessions weighted by distance.
+ */
+export async function getVehicleDrivingReport(vehicleUUID: string, since: Date) {
+  const diagnostics = await db
+    .select()
+    .from(diagnosticsTable)
+    .where(and(eq(diagnosticsTable.vehicleUUID, vehicleUUID), gte(diagnosticsTable.createdAt, since)))
+    .orderBy(desc(diagnosticsTable.createdAt));
+
+  if (diagnostics.length === 0) {
+    return { sessions: [], months: [] };
+  }
+
+  const { locationsByDiagnostic, readingsByDiagnostic } = await loadDrivingData(diagnostics.map(diagnostic => diagnostic.uuid));
+
+  const sessions = diagnostics.map(diagnostic => analyzeDrivingSession(
+    diagnostic,
+    locationsByDiagnostic.get(diagnostic.uuid) ?? [],
+    readingsByDiagnostic.get(diagnostic.uuid) ?? [],
+  ));
+
+  const months = [...groupBy(sessions, session => session.startedAt.toISOString().slice(0, 7))]
+    .map(([month, monthSessions]): DrivingMonth => {
+      const eventCounts = emptyEventCounts();
+      for (const session of monthSessions) {
+        for (const type of Object.keys(eventCounts) as DrivingEventType[]) {
+          eventCounts[type] += session.eventCounts[type];
+        }
+      }
+
+      const scored = monthSessions.filter(session => session.score != null);
+      const weight = scored.reduce((sum, session) => sum + Math.max(session.distance, 1), 0);
+
+      return {
+        month,
+        score: scored.length > 0
+          ? Math.round(scored.reduce((sum, session) => sum + session.score! * Math.max(session.distance, 1), 0) / weight)
+          : null,
+        distance: monthSessions.reduce((sum, session) => sum + session.distance, 0),
+        sessionCount: monthSessions.length,
+        eventCounts,
+      };
+    })
+    .sort((a, b) => a.month.localeCompare(b.month));
+
+  return { sessions, months };
+}
+
+/**
+ * Express the distance of a session and the speeds of its events in the
+ * user's preferred units
+ */
+export function convertDrivingSession<T extends Pick<DrivingSession, "distance"> & { events?: DrivingEvent[] }>(session: T, preferences: UnitPreferences) {
+  return {
+    ...session,
+    distance: convertDistance(session.distance, preferences),
+    distanceUnit: preferences.distance,
+    speedUnit: preferences.speed,
+    ...(session.events && {
+      events: session.events.map(event => ({
+        ...event,
+        speed: event.speed != null ? toPreferredUnit(event.speed, CANONICAL_UNITS.speed, preferences).value : null,
+      })),
+    }),
+  };
+}
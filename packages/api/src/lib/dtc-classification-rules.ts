@@ -0,0 +1,123 @@
+import type { DTCLibraryTable } from "../db/schema/dtc-library-schema";
+
+type DTCLibraryEntry = typeof DTCLibraryTable.$inferSelect;
+
+export type DTCClassification = {
+  severity: DTCLibraryEntry["severity"];
+  affectedSystem: string;
+  safeToDrive: NonNullable<DTCLibraryEntry["safeToDrive"]>;
+  urgency: NonNullable<DTCLibraryEntry["urgency"]>;
+};
+
+export type DTCClassificationRule = DTCClassification & {
+  from: string;
+  to: string;
+  label: string;
+};
+
+/**
+ * SAE J2012 code ranges with the classification of the faults they cover.
+ * Ranges overlap on purpose: a code takes the classification of the narrowest
+ * range containing it, so P0457 (loose fuel cap) follows the EVAP leak rule
+ * rather than the whole P04xx emission controls group. Codes outside every
+ * range fall back to FALLBACK_CLASSIFICATIONS.
+ */
+export const DTC_CLASSIFICATION_RULES: DTCClassificationRule[] = [
+  // Powertrain - fuel and air metering
+  { from: "P0010", to: "P0025", label: "Camshaft timing", severity: "medium", affectedSystem: "Variable Valve Timing", safeToDrive: "caution", urgency: "soon" },
+  { from: "P0030", to: "P0064", label: "Oxygen sensor heater", severity: "low", affectedSystem: "Oxygen Sensors", safeToDrive: "safe", urgency: "monitor" },
+  { from: "P0087", to: "P0093", label: "Fuel rail pressure", severity: "high", affectedSystem: "Fuel Delivery", safeToDrive: "caution", urgency: "immediate" },
+  { from: "P0100", to: "P0199", label: "Fuel and air metering", severity: "medium", affectedSystem: "Fuel and Air Metering", safeToDrive: "caution", urgency: "soon" },
+  { from: "P0115", to: "P0119", label: "Coolant temperature sensor", severity: "medium", affectedSystem: "Cooling System", safeToDrive: "caution", urgency: "soon" },
+  { from: "P0130", to: "P0167", label: "Oxygen sensor circuit", severity: "low", affectedSystem: "Oxygen Sensors", safeToDrive: "safe", urgency: "monitor" },
+  { from: "P0171", to: "P0175", label: "Fuel trim lean or rich", severity: "medium", affectedSystem: "Fuel and Air Metering", safeToDrive: "caution", urgency: "soon" },
+  { from: "P0200", to: "P0299", label: "Fuel injection", severity: "medium", affectedSystem: "Fuel Injection", safeToDrive: "caution", urgency: "soon" },
+  { from: "P0217", to: "P0217", label: "Engine overtemperature", severity: "high", affectedSystem: "Cooling System", safeToDrive: "unsafe", urgency: "immediate" },
+  { from: "P0230", to: "P0233", label: "Fuel pump circuit", severity: "high", affectedSystem: "Fuel Delivery", safeToDrive: "caution", urgency: "immediate" },
+  { from: "P0234", to: "P0234", label: "Turbocharger overboost", severity: "high", affectedSystem: "Turbocharger", safeToDrive: "unsafe", urgency: "immediate" },
+  // Powertrain - ignition
+  { from: "P0300", to: "P0312", label: "Misfire", severity: "high", affectedSystem: "Ignition System", safeToDrive: "caution", urgency: "immediate" },
+  { from: "P0313", to: "P0399", label: "Ignition system", severity: "medium", affectedSystem: "Ignition System", safeToDrive: "caution", urgency: "soon" },
+  { from: "P0325", to: "P0334", label: "Knock sensor", severity: "medium", affectedSystem: "Ignition System", safeToDrive: "caution", urgency: "soon" },
+  { from: "P0335", to: "P0349", label: "Crankshaft and camshaft position sensor", severity: "high", affectedSystem: "Engine Timing", safeToDrive: "caution", urgency: "immediate" },
+  // Powertrain - emission controls
+  { from: "P0400", to: "P0499", label: "Auxiliary emission controls", severity: "low", affectedSystem: "Emission Controls", safeToDrive: "safe", urgency: "monitor" },
+  { from: "P0400", to: "P0409", label: "Exhaust gas recirculation", severity: "medium", affectedSystem: "Exhaust Gas Recirculation", safeToDrive: "safe", urgency: "soon" },
+  { from: "P0420", to: "P0439", label: "Catalyst efficiency", severity: "medium", affectedSystem: "Catalytic Converter", safeToDrive: "safe", urgency: "soon" },
+  { from: "P0440", to: "P0459", label: "Evaporative emission leak", severity: "low", affectedSystem: "Evaporative Emissions", safeToDrive: "safe", urgency: "monitor" },
+  // Powertrain - speed, idle and auxiliary inputs
+  { from: "P0500", to: "P0599", label: "Speed, idle control and auxiliary inputs", severity: "medium", affectedSystem: "Speed and Idle Control", safeToDrive: "caution", urgency: "soon" },
+  { from: "P0520", to: "P0524", label: "Engine oil pressure", severity: "high", affectedSystem: "Engine Lubrication", safeToDrive: "unsafe", urgency: "immediate" },
+  { from: "P0560", to: "P0563", label: "System voltage", severity: "medium", affectedSystem: "Charging System", safeToDrive: "caution", urgency: "soon" },
+  // Powertrain - control modules
+  { from: "P0600", to: "P0699", label: "Computer and output circuits", severity: "medium", affectedSystem: "Engine Control Module", safeToDrive: "caution", urgency: "soon" },
+  // Powertrain - transmission
+  { from: "P0700", to: "P0799", label: "Transmission control", severity: "high", affectedSystem: "Transmission", safeToDrive: "caution", urgency: "soon" },
+  { from: "P0800", to: "P0999", label: "Transmission", severity: "medium", affectedSystem: "Transmission", safeToDrive: "caution", urgency: "soon" },
+  // Powertrain - hybrid propulsion
+  { from: "P0A00", to: "P0AFF", label: "Hybrid propulsion", severity: "high", affectedSystem: "Hybrid Propulsion", safeToDrive: "caution", urgency: "soon" },
+  // Chassis
+  { from: "C0000", to: "C0299", label: "Brakes and traction control", severity: "medium", affectedSystem: "Anti-lock Braking", safeToDrive: "caution", urgency: "soon" },
+  { from: "C0035", to: "C0050", label: "Wheel speed sensor", severity: "medium", affectedSystem: "Anti-lock Braking", safeToDrive: "caution", urgency: "soon" },
+  { from: "C0110", to: "C0131", label: "ABS pump and brake pressure", severity: "high", affectedSystem: "Braking System", safeToDrive: "caution", urgency: "immediate" },
+  { from: "C0450", to: "C0499", label: "Steering", severity: "high", affectedSystem: "Steering", safeToDrive: "unsafe", urgency: "immediate" },
+  // Body
+  { from: "B0001", to: "B0099", label: "Supplemental restraints", severity: "high", affectedSystem: "Airbags and Restraints", safeToDrive: "caution", urgency: "soon" },
+  { from: "B0100", to: "B0299", label: "Climate control", severity: "low", affectedSystem: "Climate Control", safeToDrive: "safe", urgency: "monitor" },
+  // Network
+  { from: "U0001", to: "U0099", label: "Network bus", severity: "medium", affectedSystem: "Communication Systems", safeToDrive: "caution", urgency: "soon" },
+  { from: "U0100", to: "U0100", label: "Lost communication with ECM", severity: "high", affectedSystem: "Engine Control Module", safeToDrive: "unsafe", urgency: "immediate" },
+  { from: "U0101", to: "U0299", label: "Lost communication with module", severity: "medium", affectedSystem: "Communication Systems", safeToDrive: "caution", urgency: "soon" },
+];
+
+// Classification of codes no range covers, by system letter
+const FALLBACK_CLASSIFICATIONS: Record<string, DTCClassification> = {
+  P: { severity: "medium", affectedSystem: "Engine and Transmission", safeToDrive: "caution", urgency: "soon" },
+  C: { severity: "medium", affectedSystem: "Suspension and Braking", safeToDrive: "caution", urgency: "soon" },
+  B: { severity: "low", affectedSystem: "Body Electronics", safeToDrive: "safe", urgency: "monitor" },
+  U: { severity: "medium", affectedSystem: "Communication Systems", safeToDrive: "caution", urgency: "soon" },
+};
+
+// Narrowest ranges first, so the first match is the most specific one
+const RULES_BY_SPECIFICITY = [...DTC_CLASSIFICATION_RULES].sort(
+  (a, b) => (Number.parseInt(a.to.slice(1), 16) - Number.parseInt(a.from.slice(1), 16))
+    - (Number.parseInt(b.to.slice(1), 16) - Number.parseInt(b.from.slice(1), 16)),
+);
+
+const DECIMAL_DIGITS = /^\d+$/;
+
+/**
+ * Whether a normalized code falls in a rule range. The digits are compared as
+ * numbers. Ranges written in decimal digits (P0300-P0312) only contain codes
+ * written in decimal digits, so P030A is not a misfire code; ranges written
+ * in hex (P0A00-P0AFF) contain any code between their bounds.
+ */
+function isInRuleRange(code: string, rule: DTCClassificationRule) {
+  if (code[0] !== rule.from[0]) {
+    return false;
+  }
+
+  const digits = code.slice(1);
+  const isDecimalRange = DECIMAL_DIGITS.test(rule.from.slice(1)) && DECIMAL_DIGITS.test(rule.to.slice(1));
+
+  if (isDecimalRange && !DECIMAL_DIGITS.test(digits)) {
+    return false;
+  }
+
+  const value = Number.parseInt(digits, 16);
+  return Number.parseInt(rule.from.slice(1), 16) <= value && value <= Number.parseInt(rule.to.slice(1), 16);
+}
+
+/**
+ * Classify a normalized code by the narrowest rule range containing it
+ */
+export function classifyDTC(code: string): DTCClassification & { rule: string | null } {
+  const rule = RULES_BY_SPECIFICITY.find(candidate => isInRuleRange(code, candidate));
+
+  if (rule) {
+    const { from: _from, to: _to, label, ...classification } = rule;
+    return { ...classification, rule: label };
+  }
+
+  return { ...(FALLBACK_CLASSIFICATIONS[code[0]] ?? FALLBACK_CLASSIFICATIONS.P), rule: null };
+}
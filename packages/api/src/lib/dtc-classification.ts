@@ -0,0 +1,109 @@
+import { and, eq, inArray, ne } from "drizzle-orm";
+
+import type { DTCLibraryChangeSnapshot } from "../db/schema/dtc-library-versions-schema";
+import type { DTCLibraryChange } from "../zod/z-dtc";
+
+import { db } from "../db";
+import { dtcClassificationOverridesTable } from "../db/schema/dtc-classification-overrides-schema";
+import { DTCLibraryTable } from "../db/schema/dtc-library-schema";
+import { dtcLibraryChangesTable, dtcLibraryVersionsTable } from "../db/schema/dtc-library-versions-schema";
+import { classifyDTC } from "./dtc-classification-rules";
+import { applyDTCLibraryChanges, isSameDTCLibraryChangeSnapshot, toDTCLibraryChangeSnapshot } from "./dtc-library";
+
+type DTCClassificationOverride = typeof dtcClassificationOverridesTable.$inferSelect;
+
+/**
+ * Classification of a code: the narrowest matching range rule, with the
+ * non-null fields of an admin override on top
+ */
+export function resolveDTCClassification(code: string, override?: DTCClassificationOverride) {
+  const classification = classifyDTC(code);
+
+  return {
+    severity: override?.severity ?? classification.severity,
+    affectedSystem: override?.affectedSystem ?? classification.affectedSystem,
+    safeToDrive: override?.safeToDrive ?? classification.safeToDrive,
+    urgency: override?.urgency ?? classification.urgency,
+  };
+}
+
+/**
+ * Classification of a library entry. Entries an admin edited or imported keep
+ * their values: only their unset fields are filled in, and the admin
+ * overrides applied. Every other entry takes the full classification.
+ */
+function classifyDTCLibraryEntry(previous: DTCLibraryChangeSnapshot, code: string, override: DTCClassificationOverride | undefined, isCurated: boolean) {
+  const classification = resolveDTCClassification(code, override);
+
+  if (!isCurated) {
+    return { ...previous, ...classification };
+  }
+
+  return {
+    ...previous,
+    severity: override?.severity ?? previous.severity,
+    affectedSystem: override?.affectedSystem ?? previous.affectedSystem ?? classification.affectedSystem,
+    safeToDrive: override?.safeToDrive ?? previous.safeToDrive ?? classification.safeToDrive,
+    urgency: override?.urgency ?? previous.urgency ?? classification.urgency,
+  };
+}
+
+/**
+ * Re-run the classification over the library, or over the given codes only.
+ * Entries whose severity, affected system, drive safety or urgency change are
+ * updated as a new library version. Description and category are untouched,
+ * placeholders stay in the review queue, and entries changed by an edit or an
+ * import keep their values apart from unset fields and overrides.
+ */
+export async function classifyDTCLibrary({ codes, dryRun, createdBy, note }: {
+  codes?: string[];
+  dryRun: boolean;
+  createdBy: string | null;
+  note?: string;
+}) {
+  const library = await db
+    .select()
+    .from(DTCLibraryTable)
+    .where(codes ? inArray(DTCLibraryTable.code, codes) : undefined);
+
+  const overrides = await db
+    .select()
+    .from(dtcClassificationOverridesTable)
+    .where(codes ? inArray(dtcClassificationOverridesTable.code, codes) : undefined);
+
+  const overridesByCode = new Map(overrides.map(override => [override.code, override]));
+
+  // Codes written by an admin edit or an import rather than by the classifier
+  const curatedCodes = await db
+    .selectDistinct({ code: dtcLibraryChangesTable.code })
+    .from(dtcLibraryChangesTable)
+    .innerJoin(dtcLibraryVersionsTable, eq(dtcLibraryChangesTable.versionUUID, dtcLibraryVersionsTable.uuid))
+    .where(
+      and(
+        ne(dtcLibraryVersionsTable.source, "classification"),
+        codes ? inArray(dtcLibraryChangesTable.code, codes) : undefined,
+      ),
+    )
+    .then(rows => new Set(rows.map(row => row.code)));
+
+  const changes: DTCLibraryChange[] = [];
+
+  for (const entry of library) {
+    const previous = toDTCLibraryChangeSnapshot(entry);
+    const current = classifyDTCLibraryEntry(previous, entry.code, overridesByCode.get(entry.code), curatedCodes.has(entry.code));
+
+    if (!isSameDTCLibraryChangeSnapshot(previous, current)) {
+      changes.push({ code: entry.code, changeType: "updated", previous, current });
+    }
+  }
+
+  const version = dryRun
+    ? null
+    : await applyDTCLibraryChanges(changes, {
+      source: "classification",
+      note: note ?? `Reclassified ${changes.length} codes`,
+      createdBy,
+    });
+
+  return { changes, version };
+}
@@ -0,0 +1,91 @@
+import { inArray } from "drizzle-orm";
+
+import { db } from "../db";
+import { DTCLibraryTable, insertDTCLibrarySchema } from "../db/schema/dtc-library-schema";
+import { classifyDTC } from "./dtc-classification-rules";
+
+// SAE J2012: system letter, code type digit (0-3), then three hex digits, eg: P0301, U3F00
+export const DTC_CODE_PATTERN = /^[PCBU][0-3][0-9A-F]{3}$/;
+
+// Same categories as the seeded library (scripts/DTC.json)
+const CATEGORY_BY_SYSTEM: Record<string, string> = {
+  P: "Powertrain",
+  C: "Chassis",
+  B: "Body",
+  U: "NetworkCommunication",
+};
+
+/**
+ * Normalize a DTC code as reported by a scan tool, eg: " p0301 " becomes "P0301"
+ */
+export function normalizeDTCCode(code: string) {
+  return code.trim().toUpperCase();
+}
+
+/**
+ * Library category of a code, derived from its system letter
+ */
+export function getDTCCategory(code: string) {
+  return CATEGORY_BY_SYSTEM[code[0]] ?? "Unknown";
+}
+
+/**
+ * Whether a code is manufacturer specific rather than defined by SAE.
+ * The code type digit is 1 for manufacturer codes, 3 is split between both
+ * and treated as manufacturer specific.
+ */
+export function isManufacturerSpecificDTC(code: string) {
+  return code[1] === "1" || code[1] === "3";
+}
+
+/**
+ * Make sure every code has a library entry, so DTC instances referencing them
+ * can be stored. Missing codes get a placeholder entry flagged for review,
+ * with their category derived from the code and the rest classified by the
+ * code range rules.
+ * Returns the codes a placeholder was created for.
+ */
+export async function ensureDTCLibraryEntries(codes: string[]) {
+  const uniqueCodes = [...new Set(codes)];
+
+  if (uniqueCodes.length === 0) {
+    return [];
+  }
+
+  const existing = await db
+    .select({ code: DTCLibraryTable.code })
+    .from(DTCLibraryTable)
+    .where(inArray(DTCLibraryTable.code, uniqueCodes));
+
+  const existingCodes = new Set(existing.map(row => row.code));
+  const missingCodes = uniqueCodes.filter(code => !existingCodes.has(code));
+
+  if (missingCodes.length === 0) {
+    return [];
+  }
+
+  const placeholders = missingCodes.map((code) => {
+    const category = getDTCCategory(code);
+    const { severity, affectedSystem, safeToDrive, urgency } = classifyDTC(code);
+
+    return insertDTCLibrarySchema.parse({
+      code,
+      description: `Unknown ${isManufacturerSpecificDTC(code) ? "manufacturer-specific" : "generic"} ${category} code ${code}`,
+      category,
+      severity,
+      affectedSystem,
+      safeToDrive,
+      urgency,
+      needsReview: true,
+    });
+  });
+
+  // Another ingestion may have created the same placeholder in the meantime
+  const created = await db
+    .insert(DTCLibraryTable)
+    .values(placeholders)
+    .onConflictDoNothing({ target: DTCLibraryTable.code })
+    .returning({ code: DTCLibraryTable.code });
+
+  return created.map(row => row.code);
+}
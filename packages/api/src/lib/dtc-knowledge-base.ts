@@ -0,0 +1,23 @@
+import { inArray } from "drizzle-orm";
+
+import { db } from "../db";
+import { dtcKnowledgeBaseTable } from "../db/schema/dtc-knowledge-base-schema";
+
+/**
+ * Attach the knowledge-base record of each entry, null for codes without one
+ */
+export async function attachDTCKnowledge<T extends { code: string }>(entries: T[]) {
+  const records = entries.length > 0
+    ? await db
+      .select()
+      .from(dtcKnowledgeBaseTable)
+      .where(inArray(dtcKnowledgeBaseTable.code, entries.map(entry => entry.code)))
+    : [];
+
+  const recordsByCode = new Map(records.map(record => [record.code, record]));
+
+  return entries.map(entry => ({
+    ...entry,
+    knowledge: recordsByCode.get(entry.code) ?? null,
+  }));
+}
@@ -0,0 +1,386 @@
+import type { BatchItem } from "drizzle-orm/batch";
+
+import { inArray, max, sql } from "drizzle-orm";
+
+import type { DTCLibraryChangeSnapshot } from "../db/schema/dtc-library-versions-schema";
+import type { DTCLibraryChange, DTCLibraryEntryInput } from "../zod/z-dtc";
+
+import { db } from "../db";
+import { diagnosticsDTCTable } from "../db/schema/diagnostics-dtc-schema";
+import { DTCLibraryTable } from "../db/schema/dtc-library-schema";
+import { dtcLibraryChangesTable, dtcLibraryVersionsTable } from "../db/schema/dtc-library-versions-schema";
+import { zDTCLibraryEntryInputSchema } from "../zod/z-dtc";
+import { classifyDTC } from "./dtc-classification-rules";
+import { getDTCCategory } from "./dtc-codes";
+
+type DTCLibraryEntry = typeof DTCLibraryTable.$inferSelect;
+
+type DTCLibraryVersion = typeof dtcLibraryVersionsTable.$inferSelect;
+
+type ApplyDTCLibraryChangesOptions = {
+  source: "import" | "manual" | "classification";
+  note?: string;
+  createdBy: string | null;
+};
+
+export type DTCLibraryImportRowError = {
+  row: number;
+  message: string;
+};
+
+// Rows written per statement when applying large imports
+const WRITE_BATCH_SIZE = 500;
+
+const CSV_COLUMNS = ["code", "description", "category", "severity", "affectedSystem"] as const;
+
+/**
+ * Fields of a library entry as recorded in the changelog
+ */
+export function toDTCLibraryChangeSnapshot(entry: DTCLibraryChangeSnapshot): DTCLibraryChangeSnapshot {
+  return {
+    description: entry.description,
+    severity: entry.severity,
+    affectedSystem: entry.affectedSystem,
+    category: entry.category,
+    safeToDrive: entry.safeToDrive ?? null,
+    urgency: entry.urgency ?? null,
+  };
+}
+
+/**
+ * Whether two changelog snapshots describe the same library entry
+ */
+export function isSameDTCLibraryChangeSnapshot(a: DTCLibraryChangeSnapshot, b: DTCLibraryChangeSnapshot) {
+  return a.description === b.description
+    && a.severity === b.severity
+    && a.affectedSystem === b.affectedSystem
+    && a.category === b.category
+    && (a.safeToDrive ?? null) === (b.safeToDrive ?? null)
+    && (a.urgency ?? null) === (b.urgency ?? null);
+}
+
+/**
+ * Split CSV text into rows of fields. Fields may be quoted, quoted fields can
+ * contain commas, line breaks and doubled quotes.
+ */
+function parseCSV(text: string) {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === "\"" && text[i + 1] === "\"") {
+        field += "\"";
+        i++;
+      }
+      else if (char === "\"") {
+        inQuotes = false;
+      }
+      else {
+        field += char;
+      }
+    }
+    else if (char === "\"") {
+      inQuotes = true;
+    }
+    else if (char === ",") {
+      row.push(field);
+      field = "";
+    }
+    else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    }
+    else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(fields => fields.some(value => value.trim() !== ""));
+}
+
+function readRawEntries(format: "json" | "csv", data: string): { rows: unknown[] } | { error: string } {
+  if (format === "json") {
+    try {
+      const parsed = JSON.parse(data);
+      return Array.isArray(parsed) ? { rows: parsed } : { error: "JSON import must be an array of entries" };
+    }
+    catch {
+      return { error: "Invalid JSON" };
+    }
+  }
+
+  const [header, ...rows] = parseCSV(data);
+  const columns = header?.map(column => column.trim()) ?? [];
+
+  if (!columns.includes("code") || !columns.includes("description")) {
+    return { error: `CSV header must contain code and description, optional columns are ${CSV_COLUMNS.slice(2).join(", ")}` };
+  }
+
+  return {
+    rows: rows.map(fields => Object.fromEntries(
+      columns
+        .map((column, index) => [column, fields[index]?.trim() ?? ""] as const)
+        // Empty cells leave the field unset rather than clearing it
+        .filter(([column, value]) => (CSV_COLUMNS as readonly string[]).includes(column) && value !== ""),
+    )),
+  };
+}
+
+/**
+ * Parse a JSON array or CSV file of library entries. Rows are numbered from 1
+ * (the CSV header is not counted); any invalid or duplicated row is reported
+ * and no entries are returned, so an import is applied entirely or not at all.
+ */
+export function parseDTCLibraryImport(format: "json" | "csv", data: string) {
+  const raw = readRawEntries(format, data);
+
+  if ("error" in raw) {
+    return { entries: [], errors: [{ row: 0, message: raw.error }] };
+  }
+
+  const entries: DTCLibraryEntryInput[] = [];
+  const errors: DTCLibraryImportRowError[] = [];
+  const seenCodes = new Set<string>();
+
+  raw.rows.forEach((row, index) => {
+    const result = zDTCLibraryEntryInputSchema.safeParse(row);
+
+    if (!result.success) {
+      errors.push({ row: index + 1, message: result.error.issues.map(issue => `${issue.path.join(".")}: ${issue.message}`).join("; ") });
+      return;
+    }
+
+    if (seenCodes.has(result.data.code)) {
+      errors.push({ row: index + 1, message: `Duplicate code ${result.data.code}` });
+      return;
+    }
+
+    seenCodes.add(result.data.code);
+    entries.push(result.data);
+  });
+
+  if (raw.rows.length === 0) {
+    errors.push({ row: 0, message: "Import contains no entries" });
+  }
+
+  return { entries: errors.length > 0 ? [] : entries, errors };
+}
+
+/**
+ * Library entry an input resolves to. Fields left out keep their current
+ * value; for new codes they are derived from the code like placeholders are.
+ */
+function resolveEntryInput(input: Partial<DTCLibraryEntryInput> & { code: string }, existing?: DTCLibraryEntry): DTCLibraryChangeSnapshot {
+  if (existing) {
+    return {
+      description: input.description ?? existing.description,
+      severity: input.severity ?? existing.severity,
+      affectedSystem: input.affectedSystem !== undefined ? input.affectedSystem : existing.affectedSystem,
+      category: input.category !== undefined ? input.category : existing.category,
+      safeToDrive: existing.safeToDrive,
+      urgency: existing.urgency,
+    };
+  }
+
+  const classification = classifyDTC(input.code);
+
+  return {
+    description: input.description ?? "",
+    severity: input.severity ?? classification.severity,
+    affectedSystem: input.affectedSystem !== undefined ? input.affectedSystem : classification.affectedSystem,
+    category: input.category !== undefined ? input.category : getDTCCategory(input.code),
+    safeToDrive: classification.safeToDrive,
+    urgency: classification.urgency,
+  };
+}
+
+/**
+ * Changes needed to bring a single library entry in line with the input.
+ * Placeholders waiting for review always count as updated, since saving them
+ * takes them out of the review queue.
+ */
+export function diffDTCLibraryEntry(input: Partial<DTCLibraryEntryInput> & { code: string }, existing: DTCLibraryEntry | undefined): DTCLibraryChange | null {
+  const current = resolveEntryInput(input, existing);
+
+  if (!existing) {
+    return { code: input.code, changeType: "added", previous: null, current };
+  }
+
+  const previous = toDTCLibraryChangeSnapshot(existing);
+
+  if (isSameDTCLibraryChangeSnapshot(previous, current) && !existing.needsReview) {
+    return null;
+  }
+
+  return { code: input.code, changeType: "updated", previous, current };
+}
+
+/**
+ * Compare imported entries with the current library. With removeMissing,
+ * reviewed codes absent from the import are removed, except those still
+ * referenced by stored diagnostic DTCs, which are returned in retainedCodes.
+ */
+export async function diffDTCLibrary(entries: DTCLibraryEntryInput[], { removeMissing }: { removeMissing: boolean }) {
+  const library = await db.select().from(DTCLibraryTable);
+  const libraryByCode = new Map(library.map(entry => [entry.code, entry]));
+  const importedCodes = new Set(entries.map(entry => entry.code));
+
+  const changes: DTCLibraryChange[] = [];
+  let unchangedCount = 0;
+
+  for (const entry of entries) {
+    const change = diffDTCLibraryEntry(entry, libraryByCode.get(entry.code));
+
+    if (change) {
+      changes.push(change);
+    }
+    else {
+      unchangedCount++;
+    }
+  }
+
+  const removalCandidates = removeMissing
+    ? library.filter(entry => !importedCodes.has(entry.code) && !entry.needsReview)
+    : [];
+
+  const referencedCodes = new Set<string>();
+
+  for (let i = 0; i < removalCandidates.length; i += WRITE_BATCH_SIZE) {
+    const referenced = await db
+      .selectDistinct({ code: diagnosticsDTCTable.code })
+      .from(diagnosticsDTCTable)
+      .where(inArray(diagnosticsDTCTable.code, removalCandidates.slice(i, i + WRITE_BATCH_SIZE).map(entry => entry.code)));
+
+    referenced.forEach(row => referencedCodes.add(row.code));
+  }
+
+  for (const entry of removalCandidates) {
+    if (!referencedCodes.has(entry.code)) {
+      changes.push({ code: entry.code, changeType: "removed", previous: toDTCLibraryChangeSnapshot(entry), current: null });
+    }
+  }
+
+  return {
+    changes,
+    unchangedCount,
+    retainedCodes: [...referencedCodes].sort(),
+  };
+}
+
+/**
+ * Number of the current library version, null while the library has never
+ * been changed through a versioned import or edit
+ */
+export async function getCurrentDTCLibraryVersion() {
+  const result = await db
+    .select({ version: max(dtcLibraryVersionsTable.version) })
+    .from(dtcLibraryVersionsTable)
+    .then(res => res[0]);
+
+  return result?.version ?? null;
+}
+
+/**
+ * Single statement setting each changed entry to its new snapshot. The
+ * VALUES parameters are untyped, hence the casts to the enum columns.
+ */
+function updateDTCLibraryEntries(changes: DTCLibraryChange[], completeReview: boolean) {
+  const values = sql.join(changes.map(({ code, current }) => sql`(${code}, ${current!.description}, ${current!.severity}, ${current!.affectedSystem}, ${current!.category}, ${current!.safeToDrive ?? null}, ${current!.urgency ?? null})`), sql`, `);
+  const column = (name: keyof typeof DTCLibraryTable.$inferSelect) => sql.identifier(DTCLibraryTable[name].name);
+
+  return db.execute(sql`
+    update ${DTCLibraryTable} set
+      ${column("description")} = v.description,
+      ${column("severity")} = v.severity::severity,
+      ${column("affectedSystem")} = v."affectedSystem",
+      ${column("category")} = v.category,
+      ${column("safeToDrive")} = v."safeToDrive"::"driveSafety",
+      ${column("urgency")} = v.urgency::"dtcUrgency",
+      ${completeReview ? sql`${column("needsReview")} = false,` : sql``}
+      ${column("updatedAt")} = now()
+    from (values ${values}) as v(code, description, severity, "affectedSystem", category, "safeToDrive", urgency)
+    where ${DTCLibraryTable.code} = v.code
+  `);
+}
+
+/**
+ * Apply changes to the library as a new numbered version and record them in
+ * its changelog. All writes go in a single batch, which neon-http runs as one
+ * transaction, so a failure never leaves a half-applied version. Returns null
+ * without creating a version when there is nothing to change.
+ */
+export async function applyDTCLibraryChanges(changes: [DTCLibraryChange, ...DTCLibraryChange[]], options: ApplyDTCLibraryChangesOptions): Promise<DTCLibraryVersion>;
+export async function applyDTCLibraryChanges(changes: DTCLibraryChange[], options: ApplyDTCLibraryChangesOptions): Promise<DTCLibraryVersion | null>;
+export async function applyDTCLibraryChanges(changes: DTCLibraryChange[], { source, note, createdBy }: ApplyDTCLibraryChangesOptions) {
+  if (changes.length === 0) {
+    return null;
+  }
+
+  const added = changes.filter(change => change.changeType === "added");
+  const updated = changes.filter(change => change.changeType === "updated");
+  const removed = changes.filter(change => change.changeType === "removed");
+
+  // Generated here so the changelog rows can reference the version within the same batch
+  const versionUUID = crypto.randomUUID();
+  const currentVersion = await getCurrentDTCLibraryVersion();
+
+  const statements: BatchItem<"pg">[] = [];
+
+  for (let i = 0; i < added.length; i += WRITE_BATCH_SIZE) {
+    statements.push(db
+      .insert(DTCLibraryTable)
+      .values(added.slice(i, i + WRITE_BATCH_SIZE).map(change => ({ code: change.code, ...change.current!, needsReview: false }))));
+  }
+
+  for (let i = 0; i < updated.length; i += WRITE_BATCH_SIZE) {
+    // Reclassifying leaves placeholders in the review queue, edits and imports complete them
+    statements.push(updateDTCLibraryEntries(updated.slice(i, i + WRITE_BATCH_SIZE), source !== "classification"));
+  }
+
+  for (let i = 0; i < removed.length; i += WRITE_BATCH_SIZE) {
+    statements.push(db
+      .delete(DTCLibraryTable)
+      .where(inArray(DTCLibraryTable.code, removed.slice(i, i + WRITE_BATCH_SIZE).map(change => change.code))));
+  }
+
+  for (let i = 0; i < changes.length; i += WRITE_BATCH_SIZE) {
+    statements.push(db
+      .insert(dtcLibraryChangesTable)
+      .values(changes.slice(i, i + WRITE_BATCH_SIZE).map(change => ({ ...change, versionUUID }))));
+  }
+
+  // Claims the next number first, the unique constraint rejects a concurrent import
+  const [[version]] = await db.batch([
+    db
+      .insert(dtcLibraryVersionsTable)
+      .values({
+        uuid: versionUUID,
+        version: (currentVersion ?? 0) + 1,
+        source,
+        note,
+        addedCount: added.length,
+        updatedCount: updated.length,
+        removedCount: removed.length,
+        createdBy,
+      })
+      .returning(),
+    ...statements,
+  ]);
+
+  return version;
+}
@@ -0,0 +1,143 @@
+import { and, asc, eq, isNotNull } from "drizzle-orm";
+
+import type { DTCHistoryEntry } from "../zod/z-dtc";
+
+import { db } from "../db";
+import { diagnosticsDTCTable } from "../db/schema/diagnostics-dtc-schema";
+import { diagnosticsTable } from "../db/schema/diagnostics-schema";
+import { DTCLibraryTable } from "../db/schema/dtc-library-schema";
+
+type DTCStatus = NonNullable<typeof diagnosticsDTCTable.$inferSelect["status"]>;
+
+const STATUS_RANK: Record<DTCStatus, number> = {
+  pending: 0,
+  confirmed: 1,
+  permanent: 2,
+};
+
+/**
+ * Status of a stored DTC row. Rows stored before the status was tracked only
+ * carry the confirmed flag.
+ */
+function getRowStatus(row: { status: DTCStatus | null; confirmed: boolean | null }): DTCStatus {
+  return row.status ?? (row.confirmed ? "confirmed" : "pending");
+}
+
+/**
+ * Derive the lifecycle of every DTC of a vehicle from its diagnostic sessions.
+ * Only sessions that read the stored DTCs count, others (GPX imports, location
+ * only sessions) say nothing about which codes are set. Sessions are walked in
+ * chronological order; a code that shows up starts an episode, which lasts for
+ * as long as every following scan reports it again and ends with the first scan
+ * that does not. A code that comes back later starts a new episode. Entries are
+ * returned most recently seen first.
+ */
+export async function getVehicleDTCHistory(vehicleUUID: string) {
+  const diagnostics = await db
+    .select({ uuid: diagnosticsTable.uuid, createdAt: diagnosticsTable.createdAt })
+    .from(diagnosticsTable)
+    .where(and(eq(diagnosticsTable.vehicleUUID, vehicleUUID), isNotNull(diagnosticsTable.dtcScannedAt)))
+    .orderBy(asc(diagnosticsTable.createdAt));
+
+  const rows = await db
+    .select({
+      diagnosticUUID: diagnosticsDTCTable.diagnosticUUID,
+      code: diagnosticsDTCTable.code,
+      confirmed: diagnosticsDTCTable.confirmed,
+      status: diagnosticsDTCTable.status,
+      description: DTCLibraryTable.description,
+      severity: DTCLibraryTable.severity,
+    })
+    .from(diagnosticsDTCTable)
+    .innerJoin(diagnosticsTable, eq(diagnosticsDTCTable.diagnosticUUID, diagnosticsTable.uuid))
+    .leftJoin(DTCLibraryTable, eq(DTCLibraryTable.code, diagnosticsDTCTable.code))
+    .where(eq(diagnosticsTable.vehicleUUID, vehicleUUID));
+
+  // Codes reported per session, a code reported twice in a session keeps its most advanced status
+  const codesBySession = new Map<string, Map<string, DTCStatus>>();
+  const libraryInfo = new Map<string, Pick<DTCHistoryEntry, "description" | "severity">>();
+
+  for (const row of rows) {
+    const codes = codesBySession.get(row.diagnosticUUID) ?? new Map<string, DTCStatus>();
+    const status = getRowStatus(row);
+    const previous = codes.get(row.code);
+
+    if (!previous || STATUS_RANK[status] > STATUS_RANK[previous]) {
+      codes.set(row.code, status);
+    }
+
+    codesBySession.set(row.diagnosticUUID, codes);
+    libraryInfo.set(row.code, { description: row.description, severity: row.severity });
+  }
+
+  const openEpisodes = new Map<string, DTCHistoryEntry>();
+  const entries: DTCHistoryEntry[] = [];
+
+  for (const diagnostic of diagnostics) {
+    const codes = codesBySession.get(diagnostic.uuid) ?? new Map<string, DTCStatus>();
+    const date = diagnostic.createdAt.toISOString();
+
+    // Episodes of codes this scan no longer reports are over
+    for (const [code, episode] of openEpisodes) {
+      if (codes.has(code)) {
+        continue;
+      }
+
+      episode.state = episode.highestStatus === "pending" ? "self_healed" : "cleared";
+      episode.resolvedAt = date;
+      episode.resolvedDiagnosticUUID = diagnostic.uuid;
+      openEpisodes.delete(code);
+    }
+
+    for (const [code, status] of codes) {
+      const episode = openEpisodes.get(code);
+
+      if (episode) {
+        episode.state = status;
+        episode.lastSeenAt = date;
+        episode.lastSeenDiagnosticUUID = diagnostic.uuid;
+        episode.sessionCount += 1;
+        episode.occurrences.push({ diagnosticUUID: diagnostic.uuid, date, status });
+
+        if (STATUS_RANK[status] > STATUS_RANK[episode.highestStatus]) {
+          episode.highestStatus = status;
+        }
+        continue;
+      }
+
+      const newEpisode: DTCHistoryEntry = {
+        code,
+        description: libraryInfo.get(code)?.description ?? null,
+        severity: libraryInfo.get(code)?.severity ?? null,
+        state: status,
+        highestStatus: status,
+        firstSeenAt: date,
+        firstSeenDiagnosticUUID: diagnostic.uuid,
+        lastSeenAt: date,
+        lastSeenDiagnosticUUID: diagnostic.uuid,
+        resolvedAt: null,
+        resolvedDiagnosticUUID: null,
+        sessionCount: 1,
+        occurrences: [{ diagnosticUUID: diagnostic.uuid, date, status }],
+      };
+
+      openEpisodes.set(code, newEpisode);
+      entries.push(newEpisode);
+    }
+  }
+
+  entries.sort((a, b) => new Date(b.lastSeenAt).getTime() - new Date(a.lastSeenAt).getTime());
+
+  return {
+    totalSessions: diagnostics.length,
+    activeCount: openEpisodes.size,
+    entries,
+  };
+}
+
+/**
+ * Whether a DTC history entry is still being reported by the vehicle
+ */
+export function isActiveDTCHistoryEntry(entry: Pick<DTCHistoryEntry, "resolvedAt">) {
+  return entry.resolvedAt === null;
+}
@@ -0,0 +1,82 @@
+import { and, eq, inArray, sql } from "drizzle-orm";
+
+import type { DTCLibraryTable } from "../db/schema/dtc-library-schema";
+import type { vehiclesTable } from "../db/schema/vehicles-schema";
+
+import { db } from "../db";
+import { dtcManufacturerOverlaysTable } from "../db/schema/dtc-overlays-schema";
+
+type DTCLibraryEntry = typeof DTCLibraryTable.$inferSelect;
+type DTCManufacturerOverlay = typeof dtcManufacturerOverlaysTable.$inferSelect;
+type VehicleIdentity = Pick<typeof vehiclesTable.$inferSelect, "make" | "model" | "year">;
+
+function overlayMatchesVehicle(overlay: DTCManufacturerOverlay, vehicle: VehicleIdentity) {
+  return (overlay.model === null || overlay.model.toLowerCase() === vehicle.model.toLowerCase())
+    && (overlay.yearFrom === null || overlay.yearFrom <= vehicle.year)
+    && (overlay.yearTo === null || overlay.yearTo >= vehicle.year);
+}
+
+/**
+ * Whether overlay a describes the vehicle more precisely than overlay b:
+ * a model beats the whole make, then the narrower year range wins
+ */
+function isMoreSpecific(a: DTCManufacturerOverlay, b: DTCManufacturerOverlay) {
+  if ((a.model !== null) !== (b.model !== null)) {
+    return a.model !== null;
+  }
+
+  const span = (overlay: DTCManufacturerOverlay) =>
+    (overlay.yearTo ?? Number.POSITIVE_INFINITY) - (overlay.yearFrom ?? Number.NEGATIVE_INFINITY);
+
+  return span(a) < span(b);
+}
+
+/**
+ * Resolve library entries for a vehicle. Codes with a manufacturer overlay
+ * matching the vehicle's make, model and year take the overlay's description,
+ * severity and affected system; the others keep the generic entry. Without a
+ * vehicle every entry is generic.
+ */
+export async function resolveDTCEntries(entries: DTCLibraryEntry[], vehicle: VehicleIdentity | null) {
+  const overlays = vehicle && entries.length > 0
+    ? await db
+      .select()
+      .from(dtcManufacturerOverlaysTable)
+      .where(
+        and(
+          inArray(dtcManufacturerOverlaysTable.code, entries.map(entry => entry.code)),
+          eq(sql`lower(${dtcManufacturerOverlaysTable.make})`, vehicle.make.toLowerCase()),
+        ),
+      )
+    : [];
+
+  const bestOverlays = new Map<string, DTCManufacturerOverlay>();
+
+  for (const overlay of overlays) {
+    if (!vehicle || !overlayMatchesVehicle(overlay, vehicle)) {
+      continue;
+    }
+
+    const current = bestOverlays.get(overlay.code);
+    if (!current || isMoreSpecific(overlay, current)) {
+      bestOverlays.set(overlay.code, overlay);
+    }
+  }
+
+  return entries.map((entry) => {
+    const overlay = bestOverlays.get(entry.code);
+
+    if (!overlay) {
+      return { ...entry, source: "generic" as const, overlayUUID: null };
+    }
+
+    return {
+      ...entry,
+      description: overlay.description,
+      severity: overlay.severity,
+      affectedSystem: overlay.affectedSystem ?? entry.affectedSystem,
+      source: "manufacturer" as const,
+      overlayUUID: overlay.uuid,
+    };
+  });
+}
@@ -0,0 +1,96 @@
+import { and, asc, desc, eq, gt, ilike, like, lt, or, sql } from "drizzle-orm";
+
+import type { DTCSearchQuery } from "../zod/z-dtc";
+
+import { db } from "../db";
+import { DTCLibraryTable } from "../db/schema/dtc-library-schema";
+
+type DTCSearchCursor = {
+  score: number;
+  code: string;
+};
+
+// Exact and prefix code matches always rank above description matches
+const EXACT_CODE_SCORE = 10;
+const CODE_PREFIX_SCORE = 5;
+
+function escapeLikePattern(value: string) {
+  return value.replace(/[\\%_]/g, match => `\\${match}`);
+}
+
+/**
+ * Encode the position of the last returned row as an opaque cursor
+ */
+export function encodeDTCSearchCursor(cursor: DTCSearchCursor) {
+  return btoa(JSON.stringify({ s: cursor.score, c: cursor.code }))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+/**
+ * Decode a cursor produced by encodeDTCSearchCursor, returns null when it is malformed
+ */
+export function decodeDTCSearchCursor(value: string): DTCSearchCursor | null {
+  try {
+    const decoded = JSON.parse(atob(value.replace(/-/g, "+").replace(/_/g, "/")));
+
+    if (typeof decoded?.s !== "number" || typeof decoded?.c !== "string") {
+      return null;
+    }
+
+    return { score: decoded.s, code: decoded.c };
+  }
+  catch {
+    return null;
+  }
+}
+
+/**
+ * Search the DTC library. Rows are ranked by how well they match `q`: exact
+ * code first, then code prefix, then full-text relevance of the description,
+ * ties broken by code. Pagination is keyset based on (score, code) so pages
+ * stay stable while the library is being edited.
+ */
+export async function searchDTCLibrary({ q, category, severity, affectedSystem, limit }: DTCSearchQuery, cursor: DTCSearchCursor | null) {
+  const term = q || undefined;
+  const document = sql`to_tsvector('english', ${DTCLibraryTable.description})`;
+  const tsQuery = sql`websearch_to_tsquery('english', ${term ?? ""})`;
+  const codePrefix = `${escapeLikePattern(term?.toUpperCase() ?? "")}%`;
+
+  const score = term
+    ? sql<number>`((case when ${DTCLibraryTable.code} = ${term.toUpperCase()} then ${EXACT_CODE_SCORE} when ${DTCLibraryTable.code} like ${codePrefix} then ${CODE_PREFIX_SCORE} else 0 end) + ts_rank(${document}, ${tsQuery}))::double precision`
+    : sql<number>`0::double precision`;
+
+  const rows = await db
+    .select({
+      dtc: DTCLibraryTable,
+      score: score.mapWith(Number),
+    })
+    .from(DTCLibraryTable)
+    .where(
+      and(
+        term ? or(like(DTCLibraryTable.code, codePrefix), sql`${document} @@ ${tsQuery}`) : undefined,
+        category ? ilike(DTCLibraryTable.category, escapeLikePattern(category)) : undefined,
+        severity ? eq(DTCLibraryTable.severity, severity) : undefined,
+        affectedSystem ? ilike(DTCLibraryTable.affectedSystem, escapeLikePattern(affectedSystem)) : undefined,
+        cursor
+          ? or(
+              lt(score, cursor.score),
+              and(eq(score, cursor.score), gt(DTCLibraryTable.code, cursor.code)),
+            )
+          : undefined,
+      ),
+    )
+    .orderBy(desc(score), asc(DTCLibraryTable.code))
+    .limit(limit + 1);
+
+  // One extra row tells whether there is a next page
+  const page = rows.slice(0, limit);
+  const last = page[page.length - 1];
+
+  return {
+    items: page.map(row => row.dtc),
+    nextCursor: rows.length > limit && last ? encodeDTCSearchCursor({ score: last.score, code: last.dtc.code }) : null,
+  };
+}
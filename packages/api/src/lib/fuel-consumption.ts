@@ -0,0 +1,329 @@
+import { and, asc, eq, inArray } from "drizzle-orm";
+
+import type { DerivedSensorReading } from "../zod/z-sensors";
+import type { PidRegistryEntry } from "./pid-registry";
+import type { AggregatedBucket, AggregatedSeries } from "./sensor-aggregates";
+import type { UnitPreferences } from "./units";
+
+import { db } from "../db";
+import { sensorReadingsTable } from "../db/schema/sensor-readings-schema";
+import { sensorSnapshotsTable } from "../db/schema/sensor-snapshots-schema";
+import { toMilesPerGallon } from "./fuel-economy";
+import { aggregateSensorReadings } from "./sensor-aggregates";
+import { CANONICAL_UNITS, convertDistance, toPreferredUnit } from "./units";
+
+type SensorReading = typeof sensorReadingsTable.$inferSelect;
+
+export type FuelKind = "petrol" | "diesel" | "lpg";
+
+export type FuelRateSource = "fuel_rate" | "maf";
+
+// Pseudo-PIDs of the series derived from the MAF, speed and fuel rate readings
+export const FUEL_RATE_PID = "FUEL_RATE";
+export const FUEL_ECONOMY_PID = "FUEL_ECONOMY";
+export const DERIVED_FUEL_PIDS = [FUEL_RATE_PID, FUEL_ECONOMY_PID];
+
+const FUEL_RATE_UNIT = "L/h";
+const FUEL_ECONOMY_UNIT = "L/100km";
+
+// Registry metadata of the derived series, so clients can label them like stored PIDs
+export const DERIVED_FUEL_PID_ENTRIES: PidRegistryEntry[] = [
+  { pid: FUEL_RATE_PID, name: "Estimated Fuel Rate", category: "Fluid", unit: FUEL_RATE_UNIT, minValue: 0, maxValue: null, typicalMin: 0.5, typicalMax: 20, aliases: [] },
+  { pid: FUEL_ECONOMY_PID, name: "Estimated Fuel Economy", category: "Fluid", unit: FUEL_ECONOMY_UNIT, minValue: 0, maxValue: null, typicalMin: 3, typicalMax: 15, aliases: [] },
+];
+
+const SPEED_PID = "0D";
+const MAF_PID = "10";
+const ENGINE_FUEL_RATE_PID = "5E";
+const SOURCE_PIDS = [SPEED_PID, MAF_PID, ENGINE_FUEL_RATE_PID];
+
+// Below this speed (km/h) the consumption per distance is meaningless
+const MIN_ECONOMY_SPEED = 5;
+
+// Samples further apart than this (seconds) are not integrated over
+const MAX_SAMPLE_GAP_SECONDS = 30;
+
+// Stoichiometric air-fuel mass ratio and density (g/L) per fuel
+const FUEL_PROPERTIES: Record<FuelKind, { airFuelRatio: number; density: number }> = {
+  petrol: { airFuelRatio: 14.7, density: 745 },
+  diesel: { airFuelRatio: 14.5, density: 832 },
+  lpg: { airFuelRatio: 15.5, density: 540 },
+};
+
+type FuelSample = {
+  timestamp: Date;
+  speed: number | null; // km/h
+  fuelRate: number | null; // L/h
+  source: FuelRateSource | null;
+};
+
+/**
+ * Fuel burned by a vehicle, from its free-text fuel type. Hybrids burn
+ * petrol. Electric and CNG vehicles have no liquid fuel to estimate.
+ */
+export function getFuelKind(fuelType: string): FuelKind | null {
+  const normalized = fuelType.trim().toLowerCase();
+
+  if (/electric|\bev\b|\bbev\b|cng|natural gas/.test(normalized)) {
+    return null;
+  }
+  if (normalized.includes("diesel")) {
+    return "diesel";
+  }
+  if (/lpg|autogas|\bgpl\b|propane/.test(normalized)) {
+    return "lpg";
+  }
+
+  return "petrol";
+}
+
+/**
+ * Litres per hour burned for a MAF air flow in g/s, assuming a
+ * stoichiometric mixture. Diesels run lean except at full load, so for them
+ * this is an upper bound.
+ */
+function mafToFuelRate(maf: number, fuelKind: FuelKind) {
+  const { airFuelRatio, density } = FUEL_PROPERTIES[fuelKind];
+  return maf / airFuelRatio / density * 3600;
+}
+
+/**
+ * Consumption in L/100 km for a fuel rate in L/h at a speed in km/h, or null
+ * when the vehicle is (nearly) stopped
+ */
+function toFuelEconomy(fuelRate: number, speed: number | null) {
+  return speed != null && speed >= MIN_ECONOMY_SPEED ? fuelRate / speed * 100 : null;
+}
+
+/**
+ * Instantaneous fuel rate and speed from the readings of one snapshot. The
+ * engine fuel rate (PID 5E) is used when the ECU reports it, otherwise the
+ * rate is estimated from the MAF air flow (PID 10).
+ */
+function toFuelSample(readings: SensorReading[], fuelKind: FuelKind): FuelSample {
+  const speed = readings.find(reading => reading.pid === SPEED_PID);
+  const engineFuelRate = readings.find(reading => reading.pid === ENGINE_FUEL_RATE_PID);
+  const maf = readings.find(reading => reading.pid === MAF_PID);
+
+  const timestamp = new Date(readings.reduce((latest, reading) => Math.max(latest, reading.timestamp.getTime()), -Infinity));
+
+  if (engineFuelRate) {
+    return { timestamp, speed: speed?.value ?? null, fuelRate: engineFuelRate.value, source: "fuel_rate" };
+  }
+  if (maf) {
+    return { timestamp, speed: speed?.value ?? null, fuelRate: mafToFuelRate(maf.value, fuelKind), source: "maf" };
+  }
+
+  return { timestamp, speed: speed?.value ?? null, fuelRate: null, source: null };
+}
+
+/**
+ * Derived fuel rate (L/h) and, while moving, fuel economy (L/100 km) readings
+ * of a snapshot, from its stored readings in canonical units
+ */
+export function deriveFuelReadings(readings: SensorReading[], fuelKind: FuelKind | null): DerivedSensorReading[] {
+  if (!fuelKind || readings.length === 0) {
+    return [];
+  }
+
+  const sample = toFuelSample(readings, fuelKind);
+
+  if (sample.fuelRate == null || !sample.source) {
+    return [];
+  }
+
+  const derived: DerivedSensorReading[] = [{
+    pid: FUEL_RATE_PID,
+    value: sample.fuelRate,
+    unit: FUEL_RATE_UNIT,
+    timestamp: sample.timestamp.toISOString(),
+    source: sample.source,
+  }];
+
+  const economy = toFuelEconomy(sample.fuelRate, sample.speed);
+  if (economy != null) {
+    derived.push({
+      pid: FUEL_ECONOMY_PID,
+      value: economy,
+      unit: FUEL_ECONOMY_UNIT,
+      timestamp: sample.timestamp.toISOString(),
+      source: sample.source,
+    });
+  }
+
+  return derived;
+}
+
+type AggregateFuelConsumptionOptions = {
+  vehicleUUID: string;
+  fuelKind: FuelKind | null;
+  bucketSeconds: number;
+  from?: Date;
+  to?: Date;
+  diagnosticUUID?: string;
+};
+
+/**
+ * Aggregate the derived fuel rate and fuel economy of a vehicle into the same
+ * buckets as the sensor readings. The fuel rate is linear in the engine fuel
+ * rate or MAF readings, so its statistics are exact. A fuel economy bucket is
+ * the ratio of the average fuel rate to the average speed, i.e. the
+ * consumption over the bucket, and its min and max equal that ratio. The
+ * result is truncated when the source readings were.
+ */
+export async function aggregateFuelConsumption({
+  vehicleUUID,
+  fuelKind,
+  bucketSeconds,
+  from,
+  to,
+  diagnosticUUID,
+}: AggregateFuelConsumptionOptions): Promise<{ series: AggregatedSeries[]; truncated: boolean }> {
+  if (!fuelKind) {
+    return { series: [], truncated: false };
+  }
+
+  const { series: sourceSeries, truncated } = await aggregateSensorReadings({
+    vehicleUUID,
+    bucketSeconds,
+    pids: SOURCE_PIDS,
+    from,
+    to,
+    diagnosticUUID,
+  });
+
+  const bucketsOf = (pid: string) => new Map(
+    (sourceSeries.find(series => series.pid === pid)?.buckets ?? []).map(bucket => [bucket.bucketStart, bucket]),
+  );
+  const speedBuckets = bucketsOf(SPEED_PID);
+  const engineFuelRateBuckets = bucketsOf(ENGINE_FUEL_RATE_PID);
+  const mafBuckets = bucketsOf(MAF_PID);
+
+  const bucketStarts = [...new Set([...engineFuelRateBuckets.keys(), ...mafBuckets.keys()])].sort();
+
+  const rateBuckets: AggregatedBucket[] = [];
+  const economyBuckets: AggregatedBucket[] = [];
+
+  for (const bucketStart of bucketStarts) {
+    const engineFuelRate = engineFuelRateBuckets.get(bucketStart);
+    const maf = mafBuckets.get(bucketStart)!;
+
+    const rate = engineFuelRate ?? {
+      ...maf,
+      min: mafToFuelRate(maf.min, fuelKind),
+      max: mafToFuelRate(maf.max, fuelKind),
+      avg: mafToFuelRate(maf.avg, fuelKind),
+      last: mafToFuelRate(maf.last, fuelKind),
+      inverseAvg: null,
+    };
+    rateBuckets.push(rate);
+
+    const speed = speedBuckets.get(bucketStart);
+    const economy = speed ? toFuelEconomy(rate.avg, speed.avg) : null;
+
+    if (speed && economy != null) {
+      economyBuckets.push({
+        bucketStart,
+        min: economy,
+        max: economy,
+        avg: economy,
+        // The bucket's distance over fuel used, so MPG converts exactly as well
+        inverseAvg: economy > 0 ? 1 / economy : null,
+        count: Math.min(rate.count, speed.count),
+        last: toFuelEconomy(rate.last, speed.last) ?? economy,
+        lastTimestamp: rate.lastTimestamp > speed.lastTimestamp ? rate.lastTimestamp : speed.lastTimestamp,
+      });
+    }
+  }
+
+  const series = [
+    { pid: FUEL_ECONOMY_PID, unit: FUEL_ECONOMY_UNIT, buckets: economyBuckets },
+    { pid: FUEL_RATE_PID, unit: FUEL_RATE_UNIT, buckets: rateBuckets },
+  ].filter(entry => entry.buckets.length > 0);
+
+  return { series, truncated };
+}
+
+/**
+ * Fuel used, distance and consumption of a diagnostic session, integrated
+ * over its snapshots. Each sample's rate and speed hold until the next sample,
+ * unless the gap is too long to assume so. Idle fuel is what was burned below
+ * the speed at which economy is measured.
+ */
+export async function getSessionFuelConsumption(diagnosticUUID: string, fuelKind: FuelKind | null) {
+  const readings = fuelKind
+    ? await db
+      .select({ reading: sensorReadingsTable })
+      .from(sensorReadingsTable)
+      .innerJoin(sensorSnapshotsTable, eq(sensorReadingsTable.sensorSnapshotsUUID, sensorSnapshotsTable.uuid))
+      .where(and(eq(sensorSnapshotsTable.diagnosticUUID, diagnosticUUID), inArray(sensorReadingsTable.pid, SOURCE_PIDS)))
+      .orderBy(asc(sensorReadingsTable.timestamp))
+      .then(rows => rows.map(row => row.reading))
+    : [];
+
+  const readingsBySnapshot = new Map<string, SensorReading[]>();
+  for (const reading of readings) {
+    const snapshotReadings = readingsBySnapshot.get(reading.sensorSnapshotsUUID) ?? [];
+    snapshotReadings.push(reading);
+    readingsBySnapshot.set(reading.sensorSnapshotsUUID, snapshotReadings);
+  }
+
+  const samples = [...readingsBySnapshot.values()]
+    .map(snapshotReadings => toFuelSample(snapshotReadings, fuelKind!))
+    .filter(sample => sample.fuelRate != null)
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+  let fuelUsed = 0;
+  let idleFuelUsed = 0;
+  let distance = 0;
+  let duration = 0;
+
+  for (let i = 1; i < samples.length; i++) {
+    const previous = samples[i - 1];
+    const seconds = (samples[i].timestamp.getTime() - previous.timestamp.getTime()) / 1000;
+
+    if (seconds <= 0 || seconds > MAX_SAMPLE_GAP_SECONDS) {
+      continue;
+    }
+
+    const fuel = previous.fuelRate! * seconds / 3600;
+    fuelUsed += fuel;
+    duration += seconds;
+    distance += (previous.speed ?? 0) * seconds / 3600;
+
+    if ((previous.speed ?? 0) < MIN_ECONOMY_SPEED) {
+      idleFuelUsed += fuel;
+    }
+  }
+
+  const sources = new Set(samples.map(sample => sample.source));
+
+  return {
+    fuelKind,
+    source: sources.size > 1 ? "mixed" as const : (samples[0]?.source ?? null),
+    sampleCount: samples.length,
+    duration,
+    distance, // km
+    fuelUsed, // litres
+    idleFuelUsed, // litres
+    averageFuelRate: duration > 0 ? fuelUsed / duration * 3600 : null, // L/h
+    maxFuelRate: samples.length > 0 ? samples.reduce((max, sample) => Math.max(max, sample.fuelRate!), -Infinity) : null,
+    averageConsumption: distance > 0.1 ? fuelUsed / distance * 100 : null, // L/100 km
+  };
+}
+
+/**
+ * Express a session fuel summary in the user's preferred distance and volume
+ * units. Consumption is always given both in L/100 km and in MPG.
+ */
+export function convertSessionFuelConsumption(summary: Awaited<ReturnType<typeof getSessionFuelConsumption>>, preferences: UnitPreferences) {
+  return {
+    ...summary,
+    distance: convertDistance(summary.distance, preferences),
+    fuelUsed: toPreferredUnit(summary.fuelUsed, CANONICAL_UNITS.volume, preferences).value,
+    idleFuelUsed: toPreferredUnit(summary.idleFuelUsed, CANONICAL_UNITS.volume, preferences).value,
+    averageMpg: summary.averageConsumption ? toMilesPerGallon(summary.averageConsumption) : null,
+    distanceUnit: preferences.distance,
+    volumeUnit: preferences.volume,
+  };
+}
@@ -0,0 +1,203 @@
+import type { fuelLogsTable } from "../db/schema/fuel-logs-schema";
+import type { UnitPreferences } from "./units";
+
+import { CANONICAL_UNITS, convertDistance, toCanonicalUnit, toPreferredUnit } from "./units";
+
+type FuelLog = typeof fuelLogsTable.$inferSelect;
+
+// Distance between two full fills and the fuel bought to cover it
+export type FuelEconomyInterval = {
+  fuelLogUUID: string; // the full fill that closes the interval
+  startedAt: Date;
+  endedAt: Date;
+  distance: number; // km
+  volume: number; // litres
+  cost: number;
+  consumption: number; // L/100 km
+};
+
+// Consumption in L/100 km and US miles per gallon are inversely proportional
+const MPG_PER_INVERSE_L_PER_100KM = 235.214583;
+
+/**
+ * Miles per (US) gallon for a consumption in litres per 100 km
+ */
+export function toMilesPerGallon(litresPer100Km: number) {
+  return MPG_PER_INVERSE_L_PER_100KM / litresPer100Km;
+}
+
+/**
+ * Volume in litres and price per litre of a fill entered in any volume unit.
+ * Either the price per unit or the total cost may be given, the other one is
+ * derived from it.
+ */
+export function toCanonicalFill(fill: { volume: number; volumeUnit: string; pricePerUnit?: number; totalCost?: number }) {
+  const volume = toCanonicalUnit(fill.volume, fill.volumeUnit).value;
+  const litresPerUnit = toCanonicalUnit(1, fill.volumeUnit).value;
+
+  const pricePerLitre = fill.pricePerUnit != null
+    ? fill.pricePerUnit / litresPerUnit
+    : fill.totalCost! / volume;
+
+  return {
+    volume,
+    pricePerLitre,
+    totalCost: fill.totalCost ?? pricePerLitre * volume,
+  };
+}
+
+/**
+ * Measure consumption with the full-to-full method: the fuel put in at a full
+ * fill, plus any partial fills since the previous full fill, is what the
+ * vehicle burned over the distance between the two full fills. Fills before
+ * the first full fill cannot be measured. Returns one interval per measured
+ * full fill, in chronological order.
+ */
+export function computeFuelEconomyIntervals(logs: FuelLog[]) {
+  const sortedLogs = [...logs].sort((a, b) => a.filledAt.getTime() - b.filledAt.getTime() || a.odometer - b.odometer);
+  const intervals: FuelEconomyInterval[] = [];
+
+  let lastFullFill: FuelLog | null = null;
+  let volume = 0;
+  let cost = 0;
+
+  for (const log of sortedLogs) {
+    if (!lastFullFill) {
+      lastFullFill = log.isFullTank ? log : null;
+      continue;
+    }
+
+    volume += log.volume;
+    cost += log.totalCost;
+
+    if (!log.isFullTank) {
+      continue;
+    }
+
+    const distance = log.odometer - lastFullFill.odometer;
+
+    // A wrong odometer entry would give a negative or infinite consumption, skip the interval
+    if (distance > 0) {
+      intervals.push({
+        fuelLogUUID: log.uuid,
+        startedAt: lastFullFill.filledAt,
+        endedAt: log.filledAt,
+        distance,
+        volume,
+        cost,
+        consumption: volume / distance * 100,
+      });
+    }
+
+    lastFullFill = log;
+    volume = 0;
+    cost = 0;
+  }
+
+  return intervals;
+}
+
+/**
+ * Spend, consumption, cost per km and the monthly (UTC) price trend of a set
+ * of fuel logs. Consumption and cost per km only cover the distance between
+ * full fills.
+ */
+export function summarizeFuelLogs(logs: FuelLog[]) {
+  const intervals = computeFuelEconomyIntervals(logs);
+
+  const measuredDistance = intervals.reduce((sum, interval) => sum + interval.distance, 0);
+  const measuredVolume = intervals.reduce((sum, interval) => sum + interval.volume, 0);
+  const measuredCost = intervals.reduce((sum, interval) => sum + interval.cost, 0);
+
+  const totalVolume = logs.reduce((sum, log) => sum + log.volume, 0);
+  const totalCost = logs.reduce((sum, log) => sum + log.totalCost, 0);
+
+  const months = new Map<string, { volume: number; cost: number; fillCount: number }>();
+  for (const log of logs) {
+    const month = log.filledAt.toISOString().slice(0, 7);
+    const current = months.get(month) ?? { volume: 0, cost: 0, fillCount: 0 };
+    months.set(month, {
+      volume: current.volume + log.volume,
+      cost: current.cost + log.totalCost,
+      fillCount: current.fillCount + 1,
+    });
+  }
+
+  const averageConsumption = measuredDistance > 0 ? measuredVolume / measuredDistance * 100 : null;
+
+  return {
+    fillCount: logs.length,
+    totalVolume,
+    totalCost,
+    averagePricePerLitre: totalVolume > 0 ? totalCost / totalVolume : null,
+    measuredDistance,
+    averageConsumption,
+    costPerKm: measuredDistance > 0 ? measuredCost / measuredDistance : null,
+    intervals,
+    // Volume-weighted average price per month, oldest first
+    priceTrend: [...months]
+      .map(([month, totals]) => ({
+        month,
+        averagePricePerLitre: totals.cost / totals.volume,
+        volume: totals.volume,
+        cost: totals.cost,
+        fillCount: totals.fillCount,
+      }))
+      .sort((a, b) => a.month.localeCompare(b.month)),
+  };
+}
+
+/**
+ * Price per preferred unit of a price given per canonical unit (per litre,
+ * per km)
+ */
+function toPricePerPreferredUnit(price: number, canonicalUnit: string, preferences: UnitPreferences) {
+  return price / toPreferredUnit(1, canonicalUnit, preferences).value;
+}
+
+/**
+ * Express the odometer, volume and price of a fuel log in the user's
+ * preferred units, with the consumption measured at that fill if any
+ */
+export function convertFuelLog(log: FuelLog, interval: FuelEconomyInterval | undefined, preferences: UnitPreferences) {
+  return {
+    ...log,
+    odometer: Math.round(convertDistance(log.odometer, preferences)),
+    distanceUnit: preferences.distance,
+    volume: toPreferredUnit(log.volume, CANONICAL_UNITS.volume, preferences).value,
+    volumeUnit: preferences.volume,
+    pricePerUnit: toPricePerPreferredUnit(log.pricePerLitre, CANONICAL_UNITS.volume, preferences),
+    consumption: interval?.consumption ?? null,
+    mpg: interval ? toMilesPerGallon(interval.consumption) : null,
+  };
+}
+
+/**
+ * Express a fuel log summary in the user's preferred units. Consumption is
+ * always given both in L/100 km and in MPG.
+ */
+export function convertFuelSummary(summary: ReturnType<typeof summarizeFuelLogs>, preferences: UnitPreferences) {
+  return {
+    fillCount: summary.fillCount,
+    totalVolume: toPreferredUnit(summary.totalVolume, CANONICAL_UNITS.volume, preferences).value,
+    totalCost: summary.totalCost,
+    averagePricePerUnit: summary.averagePricePerLitre != null
+      ? toPricePerPreferredUnit(summary.averagePricePerLitre, CANONICAL_UNITS.volume, preferences)
+      : null,
+    measuredDistance: convertDistance(summary.measuredDistance, preferences),
+    averageConsumption: summary.averageConsumption,
+    averageMpg: summary.averageConsumption != null ? toMilesPerGallon(summary.averageConsumption) : null,
+    costPerDistance: summary.costPerKm != null
+      ? toPricePerPreferredUnit(summary.costPerKm, CANONICAL_UNITS.distance, preferences)
+      : null,
+    priceTrend: summary.priceTrend.map(month => ({
+      month: month.month,
+      averagePricePerUnit: toPricePerPreferredUnit(month.averagePricePerLitre, CANONICAL_UNITS.volume, preferences),
+      volume: toPreferredUnit(month.volume, CANONICAL_UNITS.volume, preferences).value,
+      cost: month.cost,
+      fillCount: month.fillCount,
+    })),
+    distanceUnit: preferences.distance,
+    volumeUnit: preferences.volume,
+  };
+}
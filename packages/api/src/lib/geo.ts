@@ -0,0 +1,59 @@
+const EARTH_RADIUS_KM = 6371;
+
+type Coordinates = {
+  latitude: number;
+  longitude: number;
+};
+
+function toRadians(degrees: number) {
+  return degrees * Math.PI / 180;
+}
+
+/**
+ * Great-circle distance between two points in kilometres (haversine formula)
+ */
+export function haversineDistance(from: Coordinates, to: Coordinates) {
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+
+  const a = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLon / 2) ** 2;
+
+  return EARTH_RADIUS_KM * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+/**
+ * Initial bearing from one point to another in degrees, clockwise from north
+ * (0-360)
+ */
+export function initialBearing(from: Coordinates, to: Coordinates) {
+  const dLon = toRadians(to.longitude - from.longitude);
+  const y = Math.sin(dLon) * Math.cos(toRadians(to.latitude));
+  const x = Math.cos(toRadians(from.latitude)) * Math.sin(toRadians(to.latitude))
+    - Math.sin(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.cos(dLon);
+
+  return (Math.atan2(y, x) * 180 / Math.PI + 360) % 360;
+}
+
+/**
+ * Ray casting test of a point against a polygon of [latitude, longitude]
+ * vertices. Edges are treated as straight lines in degrees, which is accurate
+ * enough for zones the size of a neighbourhood.
+ */
+export function isPointInPolygon(point: Coordinates, polygon: [number, number][]) {
+  let inside = false;
+
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [latI, lonI] = polygon[i];
+    const [latJ, lonJ] = polygon[j];
+
+    const crosses = (latI > point.latitude) !== (latJ > point.latitude)
+      && point.longitude < (lonJ - lonI) * (point.latitude - latI) / (latJ - latI) + lonI;
+
+    if (crosses) {
+      inside = !inside;
+    }
+  }
+
+  return inside;
+}
@@ -0,0 +1,165 @@
+import { and, eq } from "drizzle-orm";
+
+import type { locationsTable } from "../db/schema/locations-schema";
+import type { GeofenceNotificationData } from "../zod/z-geofences";
+
+import { db } from "../db";
+import { geofenceEventsTable, geofencesTable, insertGeofenceEventSchema } from "../db/schema/geofences-schema";
+import { insertNotificationSchema, notificationsTable } from "../db/schema/notifications";
+import { vehiclesTable } from "../db/schema/vehicles-schema";
+import { haversineDistance, isPointInPolygon } from "./geo";
+
+type Geofence = typeof geofencesTable.$inferSelect;
+type GeofenceEvent = typeof geofenceEventsTable.$inferSelect;
+type Location = typeof locationsTable.$inferSelect;
+
+type GeofenceShape = Pick<Geofence, "shape" | "centerLatitude" | "centerLongitude" | "radius" | "polygon">;
+
+/**
+ * Keep only the fields of the geofence's own shape, so switching a circle to
+ * a polygon does not leave a stale center behind
+ */
+export function normalizeGeofenceShape(geofence: GeofenceShape): GeofenceShape {
+  return geofence.shape === "circle"
+    ? { ...geofence, polygon: null }
+    : { ...geofence, centerLatitude: null, centerLongitude: null, radius: null };
+}
+
+/**
+ * Check that a geofence carries the fields of its shape: a center and radius
+ * for circles, at least three vertices for polygons. Returns an error message
+ * for invalid shapes.
+ */
+export function validateGeofenceShape(geofence: GeofenceShape) {
+  if (geofence.shape === "circle") {
+    if (geofence.centerLatitude == null || geofence.centerLongitude == null || geofence.radius == null) {
+      return "Circle geofences need centerLatitude, centerLongitude and radius";
+    }
+    return null;
+  }
+
+  if (!geofence.polygon || geofence.polygon.length < 3) {
+    return "Polygon geofences need at least 3 vertices";
+  }
+
+  return null;
+}
+
+function isInsideGeofence(geofence: GeofenceShape, point: { latitude: number; longitude: number }) {
+  if (geofence.shape === "circle") {
+    const center = { latitude: geofence.centerLatitude!, longitude: geofence.centerLongitude! };
+    return haversineDistance(center, point) * 1000 <= geofence.radius!;
+  }
+
+  return isPointInPolygon(point, geofence.polygon ?? []);
+}
+
+/**
+ * Evaluate freshly stored locations against the enabled geofences of a
+ * vehicle. Every boundary crossing is recorded as an enter or exit event and,
+ * when the geofence asks for it, raises a "geofence_alert" notification for
+ * the vehicle owner. The first location after a geofence is created only sets
+ * its initial state. Locations older than the last evaluated one are ignored,
+ * so late uploads cannot replay crossings. Returns the recorded events.
+ */
+export async function evaluateGeofences(vehicleUUID: string, locations: Location[]) {
+  if (locations.length === 0) {
+    return [];
+  }
+
+  const geofences = await db
+    .select()
+    .from(geofencesTable)
+    .where(and(eq(geofencesTable.vehicleUUID, vehicleUUID), eq(geofencesTable.enabled, true)));
+
+  if (geofences.length === 0) {
+    return [];
+  }
+
+  const vehicle = await db
+    .select()
+    .from(vehiclesTable)
+    .where(eq(vehiclesTable.uuid, vehicleUUID))
+    .then(res => res[0]);
+
+  if (!vehicle) {
+    return [];
+  }
+
+  const sortedLocations = [...locations].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  const events: GeofenceEvent[] = [];
+
+  for (const geofence of geofences) {
+    let isInside = geofence.isInside;
+    let lastLocationAt = geofence.lastLocationAt;
+
+    for (const location of sortedLocations) {
+      if (lastLocationAt && location.timestamp <= lastLocationAt) {
+        continue;
+      }
+
+      const inside = isInsideGeofence(geofence, location);
+      const previouslyInside = isInside;
+
+      isInside = inside;
+      lastLocationAt = location.timestamp;
+
+      if (previouslyInside == null || previouslyInside === inside) {
+        continue;
+      }
+
+      const eventType = inside ? "enter" as const : "exit" as const;
+      const shouldNotify = inside ? geofence.notifyOnEnter : geofence.notifyOnExit;
+      const geofenceEventUUID = crypto.randomUUID();
+
+      const notification = shouldNotify
+        ? await db
+          .insert(notificationsTable)
+          .values(insertNotificationSchema.parse({
+            userId: vehicle.ownerId,
+            type: "geofence_alert",
+            title: inside ? `Entered ${geofence.name}` : `Left ${geofence.name}`,
+            message: `${vehicle.year} ${vehicle.make} ${vehicle.model} ${inside ? "entered" : "left"} ${geofence.name} at ${location.timestamp.toISOString()}`,
+            data: JSON.stringify({
+              geofenceUUID: geofence.uuid,
+              geofenceEventUUID,
+              vehicleUUID: vehicle.uuid,
+              locationUUID: location.uuid,
+              eventType,
+              latitude: location.latitude,
+              longitude: location.longitude,
+            } satisfies GeofenceNotificationData),
+          }))
+          .returning()
+          .then(res => res[0])
+        : null;
+
+      const event = await db
+        .insert(geofenceEventsTable)
+        .values(insertGeofenceEventSchema.parse({
+          uuid: geofenceEventUUID,
+          geofenceUUID: geofence.uuid,
+          vehicleUUID: vehicle.uuid,
+          locationUUID: location.uuid,
+          notificationUUID: notification?.uuid ?? null,
+          eventType,
+          latitude: location.latitude,
+          longitude: location.longitude,
+          occurredAt: location.timestamp,
+        }))
+        .returning()
+        .then(res => res[0]);
+
+      events.push(event);
+    }
+
+    if (isInside !== geofence.isInside || lastLocationAt !== geofence.lastLocationAt) {
+      await db
+        .update(geofencesTable)
+        .set({ isInside, lastLocationAt })
+        .where(eq(geofencesTable.uuid, geofence.uuid));
+    }
+  }
+
+  return events;
+}
@@ -0,0 +1,86 @@
+import { desc, inArray } from "drizzle-orm";
+
+import { db } from "../db";
+import { maintenanceAttachmentsTable } from "../db/schema/maintenance-attachments-schema";
+
+type MaintenanceAttachment = typeof maintenanceAttachmentsTable.$inferSelect;
+
+// Receipts and invoices are PDFs or photos, HEIC being what iPhones take
+export const ATTACHMENT_EXTENSIONS: Record<string, string> = {
+  "application/pdf": "pdf",
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/heic": "heic",
+  "image/heif": "heif",
+};
+
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024; // 10MB
+
+export const MAX_ATTACHMENTS_PER_UPLOAD = 10;
+
+const CONTENT_TYPES_BY_EXTENSION: Record<string, string> = {
+  pdf: "application/pdf",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  png: "image/png",
+  heic: "image/heic",
+  heif: "image/heif",
+};
+
+/**
+ * Content type of an uploaded file, or null when it is not a supported
+ * attachment. Browsers often send HEIC photos without a type, so the file
+ * extension is used when the type is missing or generic.
+ */
+export function getAttachmentContentType(file: { name: string; type: string }) {
+  if (file.type in ATTACHMENT_EXTENSIONS) {
+    return file.type;
+  }
+
+  if (file.type && file.type !== "application/octet-stream") {
+    return null;
+  }
+
+  const extension = file.name.split(".").pop()?.toLowerCase() ?? "";
+  return CONTENT_TYPES_BY_EXTENSION[extension] ?? null;
+}
+
+/**
+ * R2 key of a new attachment. Keys are scoped by vehicle so everything stored
+ * for a vehicle can be found by prefix.
+ */
+export function getAttachmentKey(vehicleUUID: string, maintenanceUUID: string, contentType: string) {
+  const timestamp = Date.now();
+  const randomString = Math.random().toString(36).substring(7);
+  return `vehicles/${vehicleUUID}/maintenance/${maintenanceUUID}/${timestamp}-${randomString}.${ATTACHMENT_EXTENSIONS[contentType]}`;
+}
+
+/**
+ * Attachments of maintenance entries, grouped by entry, newest first
+ */
+export async function getAttachmentsByEntry(maintenanceLogUUIDs: string[]) {
+  const attachmentsByEntry: Record<string, MaintenanceAttachment[]> = {};
+
+  if (maintenanceLogUUIDs.length === 0) {
+    return attachmentsByEntry;
+  }
+
+  const attachments = await db
+    .select()
+    .from(maintenanceAttachmentsTable)
+    .where(inArray(maintenanceAttachmentsTable.maintenanceLogUUID, maintenanceLogUUIDs))
+    .orderBy(desc(maintenanceAttachmentsTable.createdAt));
+
+  for (const attachment of attachments) {
+    (attachmentsByEntry[attachment.maintenanceLogUUID] ??= []).push(attachment);
+  }
+
+  return attachmentsByEntry;
+}
+
+/**
+ * Attachment as returned by the API, without its storage key
+ */
+export function convertAttachment({ storageKey: _storageKey, ...attachment }: MaintenanceAttachment) {
+  return attachment;
+}
@@ -0,0 +1,87 @@
+import type { BatchItem } from "drizzle-orm/batch";
+
+import { asc, eq, inArray } from "drizzle-orm";
+
+import type { MaintenanceLineItemInput } from "../zod/z-maintenance";
+
+import { db } from "../db";
+import { maintenanceLineItemsTable } from "../db/schema/maintenance-line-items-schema";
+
+type MaintenanceLineItem = typeof maintenanceLineItemsTable.$inferSelect;
+
+type LineItemAmounts = {
+  quantity: number;
+  unitPrice: number;
+  labourHours?: number | null;
+  taxRate: number;
+};
+
+function roundToCents(amount: number) {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Price of a line item including tax. Labour is billed by the hour at the
+ * unit price, parts by the quantity.
+ */
+export function getLineItemTotal(item: LineItemAmounts) {
+  const units = item.labourHours ?? item.quantity;
+  return roundToCents(units * item.unitPrice * (1 + item.taxRate / 100));
+}
+
+/**
+ * Total cost of a maintenance entry made of line items
+ */
+export function getLineItemsTotal(items: LineItemAmounts[]) {
+  return roundToCents(items.reduce((sum, item) => sum + getLineItemTotal(item), 0));
+}
+
+/**
+ * Line item with its total, as returned by the API
+ */
+export function convertLineItem(item: MaintenanceLineItem) {
+  return { ...item, total: getLineItemTotal(item) };
+}
+
+/**
+ * Statements replacing the line items of a maintenance entry, keeping the
+ * given order. They are meant to run in the same batch as the entry's write.
+ */
+export function replaceLineItems(maintenanceLogUUID: string, items: MaintenanceLineItemInput[]) {
+  const statements: BatchItem<"pg">[] = [
+    db
+      .delete(maintenanceLineItemsTable)
+      .where(eq(maintenanceLineItemsTable.maintenanceLogUUID, maintenanceLogUUID)),
+  ];
+
+  if (items.length > 0) {
+    statements.push(db
+      .insert(maintenanceLineItemsTable)
+      .values(items.map((item, position) => ({ ...item, maintenanceLogUUID, position }))));
+  }
+
+  return statements;
+}
+
+/**
+ * Line items of maintenance entries, grouped by entry in their saved order
+ */
+export async function getLineItemsByEntry(maintenanceLogUUIDs: string[]) {
+  const lineItemsByEntry: Record<string, MaintenanceLineItem[]> = {};
+
+  if (maintenanceLogUUIDs.length === 0) {
+    return lineItemsByEntry;
+  }
+
+  const lineItems = await db
+    .select()
+    .from(maintenanceLineItemsTable)
+    .where(inArray(maintenanceLineItemsTable.maintenanceLogUUID, maintenanceLogUUIDs))
+    .orderBy(asc(maintenanceLineItemsTable.position));
+
+  for (const item of lineItems) {
+    (lineItemsByEntry[item.maintenanceLogUUID] ??= []).push(item);
+  }
+
+  return lineItemsByEntry;
+}
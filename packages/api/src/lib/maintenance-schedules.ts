@@ -0,0 +1,339 @@
+import { desc, eq, max } from "drizzle-orm";
+
+import type { maintenanceDueStatusEnum } from "../db/schema/maintenance-schedules-schema";
+import type { vehiclesTable } from "../db/schema/vehicles-schema";
+import type { MaintenanceReminderNotificationData } from "../zod/z-maintenance-schedules";
+import type { UnitPreferences } from "./units";
+
+import { db } from "../db";
+import { diagnosticsTable } from "../db/schema/diagnostics-schema";
+import { fuelLogsTable } from "../db/schema/fuel-logs-schema";
+import { maintenanceLogTable } from "../db/schema/maintenance-log-schema";
+import { maintenanceLogServicesTable } from "../db/schema/maintenance-log-services-schema";
+import { maintenanceSchedulesTable } from "../db/schema/maintenance-schedules-schema";
+import { insertNotificationSchema, notificationsTable } from "../db/schema/notifications";
+import { getFuelKind } from "./fuel-consumption";
+import { convertDistance, getUnitPreferences } from "./units";
+
+type Vehicle = Pick<typeof vehiclesTable.$inferSelect, "uuid" | "ownerId" | "make" | "model" | "year" | "fuelType" | "engineType">;
+type MaintenanceSchedule = typeof maintenanceSchedulesTable.$inferSelect;
+type ServiceType = MaintenanceSchedule["serviceType"];
+type DueStatus = typeof maintenanceDueStatusEnum.enumValues[number];
+
+export type MaintenanceStatus = "ok" | "unknown" | DueStatus;
+
+export type MaintenanceScheduleStatus = {
+  schedule: MaintenanceSchedule;
+  status: MaintenanceStatus;
+  lastService: { maintenanceUUID: string; serviceDate: Date; odometer: number | null } | null;
+  dueDate: Date | null;
+  dueOdometer: number | null; // km
+  remainingDays: number | null;
+  remainingKm: number | null;
+};
+
+type ScheduleDefault = { serviceType: ServiceType; intervalKm: number | null; intervalMonths: number | null };
+
+// A service is due once it is this close, and upcoming before that
+const DUE_WITHIN_DAYS = 14;
+const DUE_WITHIN_KM = 500;
+const UPCOMING_WITHIN_DAYS = 45;
+const UPCOMING_WITHIN_KM = 2000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Most urgent first, also the order reminders escalate in
+const STATUS_RANK: Record<MaintenanceStatus, number> = {
+  overdue: 0,
+  due: 1,
+  upcoming: 2,
+  ok: 3,
+  unknown: 4,
+};
+
+// Services every vehicle needs, electric or not
+const COMMON_DEFAULTS: ScheduleDefault[] = [
+  { serviceType: "general_inspection", intervalKm: null, intervalMonths: 12 },
+  { serviceType: "cabin_filter_replacement", intervalKm: 15000, intervalMonths: 12 },
+  { serviceType: "tire_rotation", intervalKm: 10000, intervalMonths: 12 },
+  { serviceType: "brake_fluid_change", intervalKm: null, intervalMonths: 24 },
+  { serviceType: "ac_service", intervalKm: null, intervalMonths: 24 },
+];
+
+const COMBUSTION_DEFAULTS: ScheduleDefault[] = [
+  { serviceType: "oil_change", intervalKm: 15000, intervalMonths: 12 },
+  { serviceType: "oil_filter_replacement", intervalKm: 15000, intervalMonths: 12 },
+  { serviceType: "air_filter_replacement", intervalKm: 30000, intervalMonths: 24 },
+  { serviceType: "coolant_flush", intervalKm: 100000, intervalMonths: 60 },
+];
+
+const SPARK_IGNITION_DEFAULTS: ScheduleDefault[] = [
+  { serviceType: "spark_plug_replacement", intervalKm: 60000, intervalMonths: 48 },
+  { serviceType: "fuel_filter_replacement", intervalKm: 60000, intervalMonths: 48 },
+];
+
+// LPG burns hotter on the plugs and the vapour-phase filter clogs sooner
+const LPG_DEFAULTS: ScheduleDefault[] = [
+  { serviceType: "spark_plug_replacement", intervalKm: 30000, intervalMonths: 24 },
+  { serviceType: "fuel_filter_replacement", intervalKm: 30000, intervalMonths: 24 },
+];
+
+const DIESEL_DEFAULTS: ScheduleDefault[] = [
+  { serviceType: "fuel_filter_replacement", intervalKm: 30000, intervalMonths: 24 },
+];
+
+// Turbocharged engines are harder on their oil
+const TURBO_DEFAULTS: ScheduleDefault[] = [
+  { serviceType: "oil_change", intervalKm: 10000, intervalMonths: 12 },
+  { serviceType: "oil_filter_replacement", intervalKm: 10000, intervalMonths: 12 },
+];
+
+/**
+ * Default schedule rules for a vehicle, from its free-text fuel and engine
+ * types. Electric vehicles only get the services that do not involve an
+ * engine. Later rules override earlier ones for the same service type.
+ */
+export function getDefaultSchedules(vehicle: Pick<Vehicle, "fuelType" | "engineType">): ScheduleDefault[] {
+  const description = `${vehicle.fuelType} ${vehicle.engineType}`.toLowerCase();
+  const isElectric = /electric|\bbev\b|\bev\b/.test(description) && !description.includes("hybrid");
+
+  if (isElectric) {
+    return COMMON_DEFAULTS;
+  }
+
+  const fuelKind = getFuelKind(vehicle.fuelType);
+  const isTurbo = /turbo|\btdi\b|\btsi\b|\btfsi\b|\bdci\b|\bcrdi\b|\becoboost\b/.test(description);
+
+  const rules = [
+    ...COMMON_DEFAULTS,
+    ...COMBUSTION_DEFAULTS,
+    ...(fuelKind === "diesel" ? DIESEL_DEFAULTS : fuelKind === "lpg" ? LPG_DEFAULTS : SPARK_IGNITION_DEFAULTS),
+    ...(isTurbo ? TURBO_DEFAULTS : []),
+  ];
+
+  return [...new Map(rules.map(rule => [rule.serviceType, rule])).values()];
+}
+
+/**
+ * Give a vehicle without any schedule rule the defaults for its fuel and
+ * engine type. Vehicles whose owner removed some rules keep their choice.
+ */
+export async function ensureMaintenanceSchedules(vehicle: Vehicle) {
+  const existing = await db
+    .select({ uuid: maintenanceSchedulesTable.uuid })
+    .from(maintenanceSchedulesTable)
+    .where(eq(maintenanceSchedulesTable.vehicleUUID, vehicle.uuid))
+    .limit(1);
+
+  if (existing.length > 0) {
+    return;
+  }
+
+  await db
+    .insert(maintenanceSchedulesTable)
+    .values(getDefaultSchedules(vehicle).map(rule => ({ ...rule, vehicleUUID: vehicle.uuid })))
+    .onConflictDoNothing({ target: [maintenanceSchedulesTable.vehicleUUID, maintenanceSchedulesTable.serviceType] });
+}
+
+/**
+ * Highest odometer (km) recorded for a vehicle by a diagnostic, a maintenance
+ * entry or a fuel-up
+ */
+export async function getLatestOdometer(vehicleUUID: string) {
+  const [diagnostics, maintenance, fuelLogs] = await Promise.all([
+    db.select({ odometer: max(diagnosticsTable.odometer) }).from(diagnosticsTable).where(eq(diagnosticsTable.vehicleUUID, vehicleUUID)),
+    db.select({ odometer: max(maintenanceLogTable.odometer) }).from(maintenanceLogTable).where(eq(maintenanceLogTable.vehicleUUID, vehicleUUID)),
+    db.select({ odometer: max(fuelLogsTable.odometer) }).from(fuelLogsTable).where(eq(fuelLogsTable.vehicleUUID, vehicleUUID)),
+  ]);
+
+  const odometers = [diagnostics[0]?.odometer, maintenance[0]?.odometer, fuelLogs[0]?.odometer]
+    .filter((odometer): odometer is number => odometer != null);
+
+  return odometers.length > 0 ? odometers.reduce((latest, odometer) => Math.max(latest, odometer)) : null;
+}
+
+function addMonths(date: Date, months: number) {
+  const result = new Date(date);
+  result.setUTCMonth(result.getUTCMonth() + months);
+  return result;
+}
+
+function getStatus(remainingDays: number | null, remainingKm: number | null): MaintenanceStatus {
+  const isWithin = (days: number, km: number) =>
+    (remainingDays != null && remainingDays <= days) || (remainingKm != null && remainingKm <= km);
+
+  if (isWithin(-1, -1)) {
+    return "overdue";
+  }
+  if (isWithin(DUE_WITHIN_DAYS, DUE_WITHIN_KM)) {
+    return "due";
+  }
+  if (isWithin(UPCOMING_WITHIN_DAYS, UPCOMING_WITHIN_KM)) {
+    return "upcoming";
+  }
+  return "ok";
+}
+
+/**
+ * Due date, due odometer and status of every schedule rule of a vehicle,
+ * counted from the last logged entry of the service type and the latest
+ * known odometer. Most urgent first.
+ */
+export async function getMaintenanceStatuses(vehicleUUID: string, now = new Date()) {
+  const [schedules, services, currentOdometer] = await Promise.all([
+    db.select().from(maintenanceSchedulesTable).where(eq(maintenanceSchedulesTable.vehicleUUID, vehicleUUID)),
+    db
+      .select({
+        maintenanceUUID: maintenanceLogTable.uuid,
+        serviceType: maintenanceLogServicesTable.serviceType,
+        serviceDate: maintenanceLogTable.serviceDate,
+        odometer: maintenanceLogTable.odometer,
+      })
+      .from(maintenanceLogServicesTable)
+      .innerJoin(maintenanceLogTable, eq(maintenanceLogServicesTable.maintenanceLogUUID, maintenanceLogTable.uuid))
+      .where(eq(maintenanceLogTable.vehicleUUID, vehicleUUID))
+      .orderBy(desc(maintenanceLogTable.serviceDate)),
+    getLatestOdometer(vehicleUUID),
+  ]);
+
+  const statuses = schedules.map((schedule): MaintenanceScheduleStatus => {
+    const lastService = services.find(service => service.serviceType === schedule.serviceType);
+
+    if (!lastService) {
+      return { schedule, status: "unknown", lastService: null, dueDate: null, dueOdometer: null, remainingDays: null, remainingKm: null };
+    }
+
+    const dueDate = schedule.intervalMonths != null ? addMonths(lastService.serviceDate, schedule.intervalMonths) : null;
+    const dueOdometer = schedule.intervalKm != null && lastService.odometer != null
+      ? lastService.odometer + schedule.intervalKm
+      : null;
+
+    const remainingDays = dueDate ? Math.floor((dueDate.getTime() - now.getTime()) / DAY_MS) : null;
+    const remainingKm = dueOdometer != null && currentOdometer != null ? dueOdometer - currentOdometer : null;
+
+    return {
+      schedule,
+      status: dueDate || dueOdometer != null ? getStatus(remainingDays, remainingKm) : "unknown",
+      lastService: { maintenanceUUID: lastService.maintenanceUUID, serviceDate: lastService.serviceDate, odometer: lastService.odometer },
+      dueDate,
+      dueOdometer,
+      remainingDays,
+      remainingKm,
+    };
+  });
+
+  statuses.sort((a, b) =>
+    STATUS_RANK[a.status] - STATUS_RANK[b.status]
+    || (a.dueDate?.getTime() ?? Infinity) - (b.dueDate?.getTime() ?? Infinity)
+    || (a.remainingKm ?? Infinity) - (b.remainingKm ?? Infinity));
+
+  return { currentOdometer, statuses };
+}
+
+function formatServiceType(serviceType: ServiceType) {
+  const label = serviceType.replace(/_/g, " ");
+  return label.charAt(0).toUpperCase() + label.slice(1);
+}
+
+/**
+ * Notify the owner of a vehicle when a scheduled service becomes upcoming,
+ * due or overdue. Each rule only notifies when its status gets more urgent
+ * than the one last notified, and is reset once the service is logged again.
+ * Returns the created notifications.
+ */
+export async function checkMaintenanceReminders(vehicle: Vehicle, now = new Date()) {
+  await ensureMaintenanceSchedules(vehicle);
+
+  const { statuses } = await getMaintenanceStatuses(vehicle.uuid, now);
+  const notifications: (typeof notificationsTable.$inferSelect)[] = [];
+  let preferences: UnitPreferences | null = null;
+
+  for (const { schedule, status, dueDate, dueOdometer } of statuses) {
+    if (status === "ok" || status === "unknown") {
+      if (schedule.notifiedStatus) {
+        await db
+          .update(maintenanceSchedulesTable)
+          .set({ notifiedStatus: null, notifiedAt: null })
+          .where(eq(maintenanceSchedulesTable.uuid, schedule.uuid));
+      }
+      continue;
+    }
+
+    const isMoreUrgent = !schedule.notifiedStatus || STATUS_RANK[status] < STATUS_RANK[schedule.notifiedStatus];
+
+    if (!schedule.enabled || !isMoreUrgent) {
+      continue;
+    }
+
+    preferences ??= await getUnitPreferences(vehicle.ownerId);
+
+    const serviceLabel = formatServiceType(schedule.serviceType);
+    const dueParts = [
+      dueDate ? `on ${dueDate.toISOString().slice(0, 10)}` : null,
+      dueOdometer != null ? `at ${Math.round(convertDistance(dueOdometer, preferences))} ${preferences.distance}` : null,
+    ].filter(Boolean);
+
+    const notification = await db
+      .insert(notificationsTable)
+      .values(insertNotificationSchema.parse({
+        userId: vehicle.ownerId,
+        type: "maintenance_reminder",
+        title: status === "overdue" ? `${serviceLabel} overdue` : `${serviceLabel} ${status === "due" ? "due soon" : "coming up"}`,
+        message: `${serviceLabel} for ${vehicle.year} ${vehicle.make} ${vehicle.model} ${status === "overdue" ? "was" : "is"} due ${dueParts.join(" or ")}`,
+        data: JSON.stringify({
+          vehicleUUID: vehicle.uuid,
+          scheduleUUID: schedule.uuid,
+          serviceType: schedule.serviceType,
+          status,
+          dueDate: dueDate?.toISOString() ?? null,
+          dueOdometer,
+        } satisfies MaintenanceReminderNotificationData),
+      }))
+      .returning()
+      .then(res => res[0]);
+
+    await db
+      .update(maintenanceSchedulesTable)
+      .set({ notifiedStatus: status, notifiedAt: now })
+      .where(eq(maintenanceSchedulesTable.uuid, schedule.uuid));
+
+    notifications.push(notification);
+  }
+
+  return notifications;
+}
+
+/**
+ * Express a schedule rule in the user's preferred distance unit
+ */
+export function convertMaintenanceSchedule(schedule: MaintenanceSchedule, preferences: UnitPreferences) {
+  const { intervalKm, ...rest } = schedule;
+
+  return {
+    ...rest,
+    intervalDistance: intervalKm != null ? Math.round(convertDistance(intervalKm, preferences)) : null,
+    distanceUnit: preferences.distance,
+  };
+}
+
+/**
+ * Express the status of a schedule rule in the user's preferred distance unit
+ */
+export function convertMaintenanceStatus(item: MaintenanceScheduleStatus, preferences: UnitPreferences) {
+  const toDistance = (km: number | null) => km != null ? Math.round(convertDistance(km, preferences)) : null;
+
+  return {
+    scheduleUUID: item.schedule.uuid,
+    serviceType: item.schedule.serviceType,
+    status: item.status,
+    intervalDistance: toDistance(item.schedule.intervalKm),
+    intervalMonths: item.schedule.intervalMonths,
+    lastService: item.lastService
+      ? { ...item.lastService, serviceDate: item.lastService.serviceDate.toISOString(), odometer: toDistance(item.lastService.odometer) }
+      : null,
+    dueDate: item.dueDate?.toISOString() ?? null,
+    dueOdometer: toDistance(item.dueOdometer),
+    remainingDays: item.remainingDays,
+    remainingDistance: toDistance(item.remainingKm),
+  };
+}
@@ -0,0 +1,106 @@
+import { db } from "../db";
+import { pidRegistryTable } from "../db/schema/pid-registry-schema";
+import { STANDARD_PIDS } from "./standard-pids";
+import { toRegistryUnit } from "./units";
+
+export type PidRegistryEntry = Pick<
+  typeof pidRegistryTable.$inferSelect,
+  "pid" | "name" | "category" | "unit" | "minValue" | "maxValue" | "typicalMin" | "typicalMax" | "aliases"
+>;
+
+// The registry rarely changes, so each isolate keeps a copy for a few minutes
+const REGISTRY_CACHE_TTL_MS = 5 * 60 * 1000;
+
+let cachedRegistry: { entries: PidRegistryEntry[]; loadedAt: number } | null = null;
+
+/**
+ * Load the PID registry. Falls back to the built-in standard PIDs while the
+ * table has not been seeded yet.
+ */
+export async function getPidRegistry(): Promise<PidRegistryEntry[]> {
+  if (cachedRegistry && Date.now() - cachedRegistry.loadedAt < REGISTRY_CACHE_TTL_MS) {
+    return cachedRegistry.entries;
+  }
+
+  const rows = await db.select().from(pidRegistryTable);
+
+  const entries: PidRegistryEntry[] = rows.length > 0
+    ? rows
+    : STANDARD_PIDS.map(entry => ({
+        pid: entry.pid,
+        name: entry.name,
+        category: entry.category,
+        unit: entry.unit,
+        minValue: entry.minValue ?? null,
+        maxValue: entry.maxValue ?? null,
+        typicalMin: entry.typicalMin ?? null,
+        typicalMax: entry.typicalMax ?? null,
+        aliases: entry.aliases ?? [],
+      }));
+
+  cachedRegistry = { entries, loadedAt: Date.now() };
+
+  return entries;
+}
+
+function normalizeAlias(value: string) {
+  return value.trim().toLowerCase().replace(/[\s-]+/g, "_");
+}
+
+/**
+ * Build a lookup that resolves a PID as sent by a client to a registry entry.
+ * Accepts hex codes in any case ("0c", "0C", "0x0C", "010C") as well as
+ * registered aliases ("rpm", "Engine RPM").
+ */
+export function createPidResolver(entries: PidRegistryEntry[]) {
+  const byPid = new Map<string, PidRegistryEntry>();
+  const byAlias = new Map<string, PidRegistryEntry>();
+
+  for (const entry of entries) {
+    byPid.set(entry.pid.toUpperCase(), entry);
+    byAlias.set(normalizeAlias(entry.name), entry);
+    for (const alias of entry.aliases) {
+      byAlias.set(normalizeAlias(alias), entry);
+    }
+  }
+
+  return (pid: string): PidRegistryEntry | null => {
+    const hexMatch = pid.trim().match(/^(?:0x)?(?:01)?([0-9a-f]{2})$/i);
+    if (hexMatch) {
+      const entry = byPid.get(hexMatch[1].toUpperCase());
+      if (entry) {
+        return entry;
+      }
+    }
+
+    return byAlias.get(normalizeAlias(pid)) ?? null;
+  };
+}
+
+/**
+ * Normalize incoming readings against the PID registry. Readings whose PID can
+ * be resolved get the canonical registry PID and their value in the PID's unit,
+ * the rest are returned separately so the caller can report them instead of
+ * storing free-text PIDs. A unit that does not fit the PID makes the reading
+ * unresolved as well.
+ */
+export async function normalizeReadingPids<T extends { pid: string; value: number; unit: string }>(readings: T[]) {
+  const resolve = createPidResolver(await getPidRegistry());
+
+  const resolved: T[] = [];
+  const unresolved: T[] = [];
+
+  for (const reading of readings) {
+    const entry = resolve(reading.pid);
+    const converted = entry && toRegistryUnit(reading.value, reading.unit, entry.unit);
+
+    if (entry && converted) {
+      resolved.push({ ...reading, pid: entry.pid, ...converted });
+    }
+    else {
+      unresolved.push(reading);
+    }
+  }
+
+  return { resolved, unresolved };
+}
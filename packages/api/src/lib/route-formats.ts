@@ -0,0 +1,191 @@
+import type { locationsTable } from "../db/schema/locations-schema";
+
+type Location = typeof locationsTable.$inferSelect;
+
+export type RouteFormat = "gpx" | "kml" | "geojson";
+
+export type ParsedRoutePoint = {
+  latitude: number;
+  longitude: number;
+  altitude: number | null;
+  speed: number | null; // m/s
+  timestamp: Date;
+};
+
+export const ROUTE_FORMAT_CONTENT_TYPES: Record<RouteFormat, string> = {
+  gpx: "application/gpx+xml",
+  kml: "application/vnd.google-earth.kml+xml",
+  geojson: "application/geo+json",
+};
+
+function escapeXml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function unescapeXml(value: string) {
+  return value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, "\"")
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+/**
+ * GPX 1.1 track. Speed goes into the Garmin TrackPointExtension (v2), which
+ * expects metres per second like the stored locations.
+ */
+function* serializeGPX(name: string, locations: Location[]) {
+  yield "<?xml version=\"1.0\" encoding=\"UTF-8\"?>\n";
+  yield "<gpx version=\"1.1\" creator=\"CarSense\" xmlns=\"http://www.topografix.com/GPX/1/1\" xmlns:gpxtpx=\"http://www.garmin.com/xmlschemas/TrackPointExtension/v2\">\n";
+  yield `  <metadata><name>${escapeXml(name)}</name></metadata>\n`;
+  yield `  <trk>\n    <name>${escapeXml(name)}</name>\n    <trkseg>\n`;
+
+  for (const location of locations) {
+    let point = `      <trkpt lat="${location.latitude}" lon="${location.longitude}">`;
+    if (location.altitude != null) {
+      point += `<ele>${location.altitude}</ele>`;
+    }
+    point += `<time>${location.timestamp.toISOString()}</time>`;
+    if (location.speed != null) {
+      point += `<extensions><gpxtpx:TrackPointExtension><gpxtpx:speed>${location.speed}</gpxtpx:speed></gpxtpx:TrackPointExtension></extensions>`;
+    }
+    yield `${point}</trkpt>\n`;
+  }
+
+  yield "    </trkseg>\n  </trk>\n</gpx>\n";
+}
+
+/**
+ * KML 2.2 gx:Track, with the speed of every point in an ExtendedData array
+ */
+function* serializeKML(name: string, locations: Location[]) {
+  yield "<?xml version=\"1.0\" encoding=\"UTF-8\"?>\n";
+  yield "<kml xmlns=\"http://www.opengis.net/kml/2.2\" xmlns:gx=\"http://www.google.com/kml/ext/2.2\">\n";
+  yield `  <Document>\n    <name>${escapeXml(name)}</name>\n`;
+  yield "    <Schema id=\"route\"><gx:SimpleArrayField name=\"speed\" type=\"float\"><displayName>Speed (m/s)</displayName></gx:SimpleArrayField></Schema>\n";
+  yield `    <Placemark>\n      <name>${escapeXml(name)}</name>\n      <gx:Track>\n        <altitudeMode>absolute</altitudeMode>\n`;
+
+  for (const location of locations) {
+    yield `        <when>${location.timestamp.toISOString()}</when>\n`;
+  }
+  for (const location of locations) {
+    yield `        <gx:coord>${location.longitude} ${location.latitude} ${location.altitude ?? 0}</gx:coord>\n`;
+  }
+
+  yield "        <ExtendedData>\n          <SchemaData schemaUrl=\"#route\">\n            <gx:SimpleArrayData name=\"speed\">\n";
+  for (const location of locations) {
+    yield `              <gx:value>${location.speed ?? ""}</gx:value>\n`;
+  }
+  yield "            </gx:SimpleArrayData>\n          </SchemaData>\n        </ExtendedData>\n";
+
+  yield "      </gx:Track>\n    </Placemark>\n  </Document>\n</kml>\n";
+}
+
+/**
+ * GeoJSON LineString feature. Timestamps and speeds follow the
+ * coordinateProperties convention, one entry per coordinate.
+ */
+function* serializeGeoJSON(name: string, locations: Location[]) {
+  const coordinates = locations.map(location => location.altitude != null
+    ? [location.longitude, location.latitude, location.altitude]
+    : [location.longitude, location.latitude]);
+
+  yield JSON.stringify({
+    type: "FeatureCollection",
+    features: [{
+      type: "Feature",
+      geometry: { type: "LineString", coordinates },
+      properties: {
+        name,
+        coordinateProperties: {
+          times: locations.map(location => location.timestamp.toISOString()),
+          speeds: locations.map(location => location.speed),
+        },
+      },
+    }],
+  });
+}
+
+/**
+ * Serialize a chronological list of locations as a route document, in
+ * chunks so large routes can be streamed. Speeds are in m/s and altitudes in
+ * metres, as the formats expect.
+ */
+export function serializeRoute(format: RouteFormat, name: string, locations: Location[]) {
+  switch (format) {
+    case "gpx":
+      return serializeGPX(name, locations);
+    case "kml":
+      return serializeKML(name, locations);
+    case "geojson":
+      return serializeGeoJSON(name, locations);
+  }
+}
+
+function readTag(xml: string, tag: string) {
+  const match = xml.match(new RegExp(`<(?:\\w+:)?${tag}>([^<]*)</(?:\\w+:)?${tag}>`));
+  return match ? unescapeXml(match[1].trim()) : null;
+}
+
+function readNumber(xml: string, tag: string) {
+  const value = readTag(xml, tag);
+  const number = value != null ? Number.parseFloat(value) : Number.NaN;
+  return Number.isFinite(number) ? number : null;
+}
+
+/**
+ * Read the track (or route) points of a GPX 1.0/1.1 document. Speed is
+ * taken from the GPX 1.0 <speed> element or a TrackPointExtension, both in
+ * m/s. Points without a timestamp or with invalid coordinates are reported
+ * as errors by their position in the file.
+ */
+export function parseGPX(xml: string) {
+  const points: ParsedRoutePoint[] = [];
+  const errors: string[] = [];
+
+  const name = readTag(xml.match(/<metadata>[\s\S]*?<\/metadata>/)?.[0] ?? "", "name")
+    ?? readTag(xml.match(/<trk>[\s\S]*?<\/trk>/)?.[0] ?? "", "name");
+
+  const pointPattern = /<(trkpt|rtept)\b([^>]*?)(?:\/>|>([\s\S]*?)<\/\1>)/g;
+  let index = 0;
+
+  for (const match of xml.matchAll(pointPattern)) {
+    index++;
+    const attributes = match[2];
+    const body = match[3] ?? "";
+
+    const latitude = Number.parseFloat(attributes.match(/\blat="([^"]*)"/)?.[1] ?? "");
+    const longitude = Number.parseFloat(attributes.match(/\blon="([^"]*)"/)?.[1] ?? "");
+
+    if (!Number.isFinite(latitude) || !Number.isFinite(longitude) || Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+      errors.push(`Point ${index}: invalid coordinates`);
+      continue;
+    }
+
+    const time = readTag(body, "time");
+    const timestamp = time ? new Date(time) : null;
+
+    if (!timestamp || Number.isNaN(timestamp.getTime())) {
+      errors.push(`Point ${index}: missing or invalid time`);
+      continue;
+    }
+
+    points.push({
+      latitude,
+      longitude,
+      altitude: readNumber(body, "ele"),
+      speed: readNumber(body, "speed"),
+      timestamp,
+    });
+  }
+
+  points.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+  return { name, points, errors };
+}
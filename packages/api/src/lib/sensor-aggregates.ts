@@ -0,0 +1,186 @@
+import { and, asc, eq, gte, inArray, lte, max, min, sql } from "drizzle-orm";
+
+import type { SensorAggregateBucket, SensorAggregateSeries } from "../zod/z-sensors";
+import type { UnitPreferences } from "./units";
+
+import { db } from "../db";
+import { diagnosticsTable } from "../db/schema/diagnostics-schema";
+import { sensorReadingsTable } from "../db/schema/sensor-readings-schema";
+import { sensorSnapshotsTable } from "../db/schema/sensor-snapshots-schema";
+import { zSensorAggregateBucketSecondsSchema } from "../zod/z-sensors";
+import { toPreferredAverage, toPreferredUnit } from "./units";
+
+const BUCKET_UNIT_SECONDS: Record<string, number> = {
+  s: 1,
+  m: 60,
+  h: 3600,
+  d: 86400,
+};
+
+// Upper bound of buckets a single PID may be split into
+export const MAX_AGGREGATE_BUCKETS = 5000;
+
+// Upper bound of rows (PID x bucket) returned by a single aggregation
+const MAX_AGGREGATE_ROWS = 20000;
+
+// An "auto" bucket is the smallest of these that splits the range into at most AUTO_AGGREGATE_BUCKETS
+const AUTO_BUCKETS = ["1s", "5s", "15s", "30s", "1m", "5m", "15m", "30m", "1h", "6h", "1d", "7d", "30d"];
+const AUTO_AGGREGATE_BUCKETS = 500;
+
+/**
+ * Convert a bucket size such as "30s", "1m" or "1h" to its length in seconds
+ */
+export function getBucketSeconds(bucket: string) {
+  const unit = bucket.slice(-1);
+  const amount = Number.parseInt(bucket.slice(0, -1), 10);
+
+  return amount * BUCKET_UNIT_SECONDS[unit];
+}
+
+/**
+ * Bucket as aggregated, in the canonical unit. The average of the inverse
+ * values is what a reciprocal conversion (L/100 km to MPG) needs to convert
+ * the average, it is null when not known or when every value is 0.
+ */
+export type AggregatedBucket = SensorAggregateBucket & { inverseAvg: number | null };
+
+export type AggregatedSeries = Omit<SensorAggregateSeries, "buckets"> & { buckets: AggregatedBucket[] };
+
+/**
+ * Bucket size giving a chart resolution of at most AUTO_AGGREGATE_BUCKETS
+ * points over a range of the given length
+ */
+export function getAutoBucket(rangeSeconds: number) {
+  return AUTO_BUCKETS.find(bucket => rangeSeconds / getBucketSeconds(bucket) <= AUTO_AGGREGATE_BUCKETS)
+    ?? AUTO_BUCKETS[AUTO_BUCKETS.length - 1];
+}
+
+type AggregateSensorReadingsOptions = {
+  vehicleUUID: string;
+  bucketSeconds: number;
+  pids?: string[];
+  from?: Date;
+  to?: Date;
+  diagnosticUUID?: string;
+};
+
+/**
+ * Timestamps of the oldest and newest sensor readings of a vehicle, or of one
+ * of its diagnostics, both null when it has no readings
+ */
+export async function getReadingTimeRange({ vehicleUUID, diagnosticUUID }: { vehicleUUID: string; diagnosticUUID?: string }) {
+  const [row] = await db
+    .select({ from: min(sensorReadingsTable.timestamp), to: max(sensorReadingsTable.timestamp) })
+    .from(sensorReadingsTable)
+    .innerJoin(sensorSnapshotsTable, eq(sensorReadingsTable.sensorSnapshotsUUID, sensorSnapshotsTable.uuid))
+    .innerJoin(diagnosticsTable, eq(sensorSnapshotsTable.diagnosticUUID, diagnosticsTable.uuid))
+    .where(
+      and(
+        eq(diagnosticsTable.vehicleUUID, vehicleUUID),
+        diagnosticUUID ? eq(diagnosticsTable.uuid, diagnosticUUID) : undefined,
+      ),
+    );
+
+  return { from: row?.from ?? null, to: row?.to ?? null };
+}
+
+/**
+ * Aggregate the sensor readings of a vehicle into fixed-size time buckets.
+ * Buckets are aligned to the unix epoch so that the same bucket size always
+ * produces the same boundaries, no matter which range is requested. When the
+ * result would exceed MAX_AGGREGATE_ROWS it is flagged as truncated, and the
+ * caller should ask for fewer PIDs or larger buckets.
+ */
+export async function aggregateSensorReadings({
+  vehicleUUID,
+  bucketSeconds,
+  pids,
+  from,
+  to,
+  diagnosticUUID,
+}: AggregateSensorReadingsOptions): Promise<{ series: AggregatedSeries[]; truncated: boolean }> {
+  // Inlined rather than bound so the SELECT and GROUP BY expressions are identical,
+  // hence validated so that only a plain integer reaches the query
+  const bucketSize = sql.raw(String(zSensorAggregateBucketSecondsSchema.parse(bucketSeconds)));
+  const bucketEpoch = sql<number>`floor(extract(epoch from ${sensorReadingsTable.timestamp}) / ${bucketSize}) * ${bucketSize}`;
+
+  const rows = await db
+    .select({
+      pid: sensorReadingsTable.pid,
+      bucketEpoch: bucketEpoch.mapWith(Number),
+      unit: sql<string>`(array_agg(${sensorReadingsTable.unit} order by ${sensorReadingsTable.timestamp} desc))[1]`,
+      min: sql<number>`min(${sensorReadingsTable.value})`.mapWith(Number),
+      max: sql<number>`max(${sensorReadingsTable.value})`.mapWith(Number),
+      avg: sql<number>`avg(${sensorReadingsTable.value})`.mapWith(Number),
+      inverseAvg: sql<number | null>`avg(1 / nullif(${sensorReadingsTable.value}, 0))`.mapWith(Number),
+      count: sql<number>`count(*)`.mapWith(Number),
+      last: sql<number>`(array_agg(${sensorReadingsTable.value} order by ${sensorReadingsTable.timestamp} desc))[1]`.mapWith(Number),
+      lastEpoch: sql<number>`extract(epoch from max(${sensorReadingsTable.timestamp}))`.mapWith(Number),
+    })
+    .from(sensorReadingsTable)
+    .innerJoin(sensorSnapshotsTable, eq(sensorReadingsTable.sensorSnapshotsUUID, sensorSnapshotsTable.uuid))
+    .innerJoin(diagnosticsTable, eq(sensorSnapshotsTable.diagnosticUUID, diagnosticsTable.uuid))
+    .where(
+      and(
+        eq(diagnosticsTable.vehicleUUID, vehicleUUID),
+        diagnosticUUID ? eq(diagnosticsTable.uuid, diagnosticUUID) : undefined,
+        pids && pids.length > 0 ? inArray(sensorReadingsTable.pid, pids) : undefined,
+        from ? gte(sensorReadingsTable.timestamp, from) : undefined,
+        to ? lte(sensorReadingsTable.timestamp, to) : undefined,
+      ),
+    )
+    .groupBy(sensorReadingsTable.pid, bucketEpoch)
+    .orderBy(asc(sensorReadingsTable.pid), asc(bucketEpoch))
+    .limit(MAX_AGGREGATE_ROWS + 1);
+
+  const truncated = rows.length > MAX_AGGREGATE_ROWS;
+
+  // Group the flat rows into one series per PID
+  const seriesByPid = new Map<string, AggregatedSeries>();
+
+  for (const row of rows.slice(0, MAX_AGGREGATE_ROWS)) {
+    let series = seriesByPid.get(row.pid);
+    if (!series) {
+      series = { pid: row.pid, unit: row.unit, buckets: [] };
+      seriesByPid.set(row.pid, series);
+    }
+
+    series.buckets.push({
+      bucketStart: new Date(row.bucketEpoch * 1000).toISOString(),
+      min: row.min,
+      max: row.max,
+      avg: row.avg,
+      inverseAvg: row.inverseAvg,
+      count: row.count,
+      last: row.last,
+      lastTimestamp: new Date(row.lastEpoch * 1000).toISOString(),
+    });
+  }
+
+  return { series: [...seriesByPid.values()], truncated };
+}
+
+/**
+ * Convert aggregated series to the user's preferred units. Min, max and last
+ * are single values, so converting them after aggregating is exact. So is the
+ * average for linear conversions; a reciprocal one converts it from the
+ * average of the inverse values instead.
+ */
+export function convertAggregateSeries(series: AggregatedSeries[], preferences: UnitPreferences): SensorAggregateSeries[] {
+  return series.map((entry) => {
+    const convert = (value: number) => toPreferredUnit(value, entry.unit, preferences).value;
+
+    return {
+      ...entry,
+      unit: toPreferredUnit(0, entry.unit, preferences).unit,
+      buckets: entry.buckets.map(({ inverseAvg, ...bucket }) => ({
+        ...bucket,
+        // MPG decreases as L/100 km increases, so the extremes swap
+        min: Math.min(convert(bucket.min), convert(bucket.max)),
+        max: Math.max(convert(bucket.min), convert(bucket.max)),
+        avg: toPreferredAverage(bucket.avg, inverseAvg, entry.unit, preferences),
+        last: convert(bucket.last),
+      })),
+    };
+  });
+}
@@ -0,0 +1,248 @@
+import { and, eq, gte, inArray, ne, sql } from "drizzle-orm";
+
+import type { PidRegistryEntry } from "./pid-registry";
+import type { UnitPreferences } from "./units";
+
+import { db } from "../db";
+import { diagnosticsTable } from "../db/schema/diagnostics-schema";
+import { insertSensorAnomalySchema, sensorAnomaliesTable } from "../db/schema/sensor-anomalies-schema";
+import { sensorReadingsTable } from "../db/schema/sensor-readings-schema";
+import { sensorSnapshotsTable } from "../db/schema/sensor-snapshots-schema";
+import { createPidResolver, getPidRegistry } from "./pid-registry";
+import { toPreferredUnit } from "./units";
+
+type Diagnostic = typeof diagnosticsTable.$inferSelect;
+type SensorReading = typeof sensorReadingsTable.$inferSelect;
+type SensorAnomaly = typeof sensorAnomaliesTable.$inferSelect;
+
+type BaselineStats = {
+  count: number;
+  mean: number;
+  stddev: number;
+};
+
+// PID the baselines are conditioned on
+const RPM_PID = "0C";
+
+// Width of an RPM band, readings above the last band share it
+const RPM_BAND_SIZE = 1000;
+const MAX_RPM_BAND = 6;
+
+// Only this much history is used, so the baseline follows the vehicle as it ages
+const BASELINE_WINDOW_DAYS = 30;
+
+// Fewer samples than this and a baseline is not trusted
+const MIN_BASELINE_SAMPLES = 30;
+
+// Distance from the mean, in standard deviations, at which a reading is anomalous
+const WARNING_Z_SCORE = 4;
+const CRITICAL_Z_SCORE = 6;
+
+// Sensors that barely move would flag any change, the deviation never drops below
+// this fraction of the typical range of the PID
+const MIN_STDDEV_RATIO = 0.02;
+
+/**
+ * Merge the baselines of several RPM bands into a single baseline over the
+ * whole history of the PID
+ */
+function poolBaselines(baselines: BaselineStats[]): BaselineStats | null {
+  const count = baselines.reduce((sum, baseline) => sum + baseline.count, 0);
+
+  if (count < 2) {
+    return null;
+  }
+
+  const mean = baselines.reduce((sum, baseline) => sum + baseline.mean * baseline.count, 0) / count;
+  const squaredDeviations = baselines.reduce(
+    (sum, baseline) => sum + (baseline.count - 1) * baseline.stddev ** 2 + baseline.count * (baseline.mean - mean) ** 2,
+    0,
+  );
+
+  return { count, mean, stddev: Math.sqrt(squaredDeviations / (count - 1)) };
+}
+
+function getMinStddev(entry: PidRegistryEntry | null, mean: number) {
+  const low = entry?.typicalMin ?? entry?.minValue;
+  const high = entry?.typicalMax ?? entry?.maxValue;
+
+  if (low != null && high != null && high > low) {
+    return (high - low) * MIN_STDDEV_RATIO;
+  }
+
+  return Math.max(Math.abs(mean) * MIN_STDDEV_RATIO, Number.EPSILON);
+}
+
+/**
+ * Learn the normal behaviour of the given PIDs from the recent history of a
+ * vehicle, per RPM band. The snapshot being scored is left out. Returns the
+ * baselines keyed by PID and unit, then by RPM band (null for snapshots
+ * without an RPM reading).
+ */
+async function getBaselines(vehicleUUID: string, excludedSnapshotUUID: string, pids: string[]) {
+  const windowStart = new Date(Date.now() - BASELINE_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+
+  const snapshotRpm = db
+    .select({
+      snapshotUUID: sensorReadingsTable.sensorSnapshotsUUID,
+      rpm: sql<number>`avg(${sensorReadingsTable.value})`.as("rpm"),
+    })
+    .from(sensorReadingsTable)
+    .innerJoin(sensorSnapshotsTable, eq(sensorReadingsTable.sensorSnapshotsUUID, sensorSnapshotsTable.uuid))
+    .innerJoin(diagnosticsTable, eq(sensorSnapshotsTable.diagnosticUUID, diagnosticsTable.uuid))
+    .where(
+      and(
+        eq(diagnosticsTable.vehicleUUID, vehicleUUID),
+        eq(sensorReadingsTable.pid, RPM_PID),
+        gte(sensorReadingsTable.timestamp, windowStart),
+      ),
+    )
+    .groupBy(sensorReadingsTable.sensorSnapshotsUUID)
+    .as("snapshotRpm");
+
+  // Inlined rather than bound so the SELECT and GROUP BY expressions are identical
+  const rpmBand = sql<number | null>`least(floor(${snapshotRpm.rpm} / ${sql.raw(String(RPM_BAND_SIZE))}), ${sql.raw(String(MAX_RPM_BAND))}) * ${sql.raw(String(RPM_BAND_SIZE))}`;
+
+  const rows = await db
+    .select({
+      pid: sensorReadingsTable.pid,
+      unit: sensorReadingsTable.unit,
+      rpmBand: rpmBand.mapWith(Number),
+      count: sql<number>`count(*)`.mapWith(Number),
+      mean: sql<number>`avg(${sensorReadingsTable.value})`.mapWith(Number),
+      stddev: sql<number>`coalesce(stddev_samp(${sensorReadingsTable.value}), 0)`.mapWith(Number),
+    })
+    .from(sensorReadingsTable)
+    .innerJoin(sensorSnapshotsTable, eq(sensorReadingsTable.sensorSnapshotsUUID, sensorSnapshotsTable.uuid))
+    .innerJoin(diagnosticsTable, eq(sensorSnapshotsTable.diagnosticUUID, diagnosticsTable.uuid))
+    .leftJoin(snapshotRpm, eq(snapshotRpm.snapshotUUID, sensorSnapshotsTable.uuid))
+    .where(
+      and(
+        eq(diagnosticsTable.vehicleUUID, vehicleUUID),
+        inArray(sensorReadingsTable.pid, pids),
+        gte(sensorReadingsTable.timestamp, windowStart),
+        ne(sensorSnapshotsTable.uuid, excludedSnapshotUUID),
+      ),
+    )
+    .groupBy(sensorReadingsTable.pid, sensorReadingsTable.unit, rpmBand);
+
+  const baselines = new Map<string, Map<number | null, BaselineStats>>();
+
+  for (const row of rows) {
+    const key = `${row.pid}|${row.unit}`;
+    const bands = baselines.get(key) ?? new Map<number | null, BaselineStats>();
+    bands.set(row.rpmBand, { count: row.count, mean: row.mean, stddev: row.stddev });
+    baselines.set(key, bands);
+  }
+
+  return baselines;
+}
+
+/**
+ * Score freshly stored readings against the vehicle's own history. Each PID is
+ * compared with the readings taken in the same RPM band, or with its whole
+ * recent history when that band has too few samples. The most deviating
+ * reading of every anomalous PID is stored as a sensor anomaly. Returns the
+ * stored anomalies.
+ */
+export async function detectSensorAnomalies(diagnostic: Diagnostic, snapshotUUID: string, readings: SensorReading[]) {
+  if (readings.length === 0) {
+    return [];
+  }
+
+  const pids = [...new Set(readings.map(reading => reading.pid))];
+  const baselines = await getBaselines(diagnostic.vehicleUUID, snapshotUUID, pids);
+
+  if (baselines.size === 0) {
+    return [];
+  }
+
+  const resolvePid = createPidResolver(await getPidRegistry());
+
+  const rpmReadings = readings.filter(reading => reading.pid === RPM_PID);
+  const snapshotRpmBand = rpmReadings.length > 0
+    ? Math.min(Math.floor(rpmReadings.reduce((sum, reading) => sum + reading.value, 0) / rpmReadings.length / RPM_BAND_SIZE), MAX_RPM_BAND) * RPM_BAND_SIZE
+    : null;
+
+  const anomaliesToInsert = [];
+
+  for (const pid of pids) {
+    const pidReadings = readings.filter(reading => reading.pid === pid);
+    const unit = pidReadings[0].unit;
+    const bands = baselines.get(`${pid}|${unit}`);
+
+    if (!bands) {
+      continue;
+    }
+
+    // RPM itself is not conditioned on RPM
+    const bandBaseline = pid !== RPM_PID && snapshotRpmBand !== null ? bands.get(snapshotRpmBand) : undefined;
+    const useBand = bandBaseline !== undefined && bandBaseline.count >= MIN_BASELINE_SAMPLES;
+    const baseline = useBand ? bandBaseline : poolBaselines([...bands.values()]);
+
+    if (!baseline || baseline.count < MIN_BASELINE_SAMPLES) {
+      continue;
+    }
+
+    const stddev = Math.max(baseline.stddev, getMinStddev(resolvePid(pid), baseline.mean));
+
+    const scored = pidReadings
+      .filter(reading => reading.unit === unit)
+      .map(reading => ({ reading, zScore: (reading.value - baseline.mean) / stddev }))
+      .sort((a, b) => Math.abs(b.zScore) - Math.abs(a.zScore))[0];
+
+    if (Math.abs(scored.zScore) < WARNING_Z_SCORE) {
+      continue;
+    }
+
+    anomaliesToInsert.push(insertSensorAnomalySchema.parse({
+      vehicleUUID: diagnostic.vehicleUUID,
+      diagnosticUUID: diagnostic.uuid,
+      sensorSnapshotUUID: snapshotUUID,
+      sensorReadingUUID: scored.reading.uuid,
+      pid,
+      value: scored.reading.value,
+      unit,
+      baselineMean: baseline.mean,
+      baselineStddev: stddev,
+      sampleCount: baseline.count,
+      rpmBand: useBand ? snapshotRpmBand : null,
+      zScore: scored.zScore,
+      severity: Math.abs(scored.zScore) >= CRITICAL_Z_SCORE ? "critical" : "warning",
+    }));
+  }
+
+  if (anomaliesToInsert.length === 0) {
+    return [];
+  }
+
+  return db.insert(sensorAnomaliesTable).values(anomaliesToInsert).returning();
+}
+
+/**
+ * Express the value and baseline of an anomaly in the user's preferred unit
+ */
+export function convertSensorAnomaly(anomaly: SensorAnomaly, preferences: UnitPreferences): SensorAnomaly {
+  const value = toPreferredUnit(anomaly.value, anomaly.unit, preferences);
+  const mean = toPreferredUnit(anomaly.baselineMean, anomaly.unit, preferences).value;
+  // Conversions can carry an offset (°C to °F), the deviation only takes the scale
+  const stddev = toPreferredUnit(anomaly.baselineMean + anomaly.baselineStddev, anomaly.unit, preferences).value - mean;
+
+  return {
+    ...anomaly,
+    value: value.value,
+    unit: value.unit,
+    baselineMean: mean,
+    baselineStddev: stddev,
+  };
+}
+
+/**
+ * Short human readable summary of an anomaly already converted to the user's
+ * units, eg: "Coolant Temperature read 118 °C, usually 91 ± 3 °C"
+ */
+export function describeSensorAnomaly(anomaly: SensorAnomaly, name: string) {
+  const format = (amount: number) => `${Math.round(amount * 10) / 10}${anomaly.unit ? ` ${anomaly.unit}` : ""}`;
+
+  return `${name} read ${format(anomaly.value)}, usually ${Math.round(anomaly.baselineMean * 10) / 10} ± ${format(anomaly.baselineStddev)}`;
+}
@@ -0,0 +1,122 @@
+import type { z } from "zod";
+
+import type { insertPidRegistrySchema } from "../db/schema/pid-registry-schema";
+
+type StandardPid = z.infer<typeof insertPidRegistrySchema>;
+
+/**
+ * SAE J1979 mode 01 PIDs with their decoded ranges. min/max are the limits of
+ * the encoding, typicalMin/typicalMax what a healthy passenger car reports.
+ * PIDs that pack several values keep the first one, as OBD libraries report it.
+ * Seeded into the pidRegistry table by src/scripts/seed-pid-registry.ts.
+ */
+export const STANDARD_PIDS: StandardPid[] = [
+  { pid: "00", name: "PIDs Supported [01-20]", category: "Other", unit: "", description: "Support of PIDs 01 to 20 (bit encoded)", aliases: ["pids_a", "supported_pids_01_20"] },
+  { pid: "01", name: "Monitor Status", category: "Emissions", unit: "", description: "Monitor status since DTCs cleared (bit encoded)", aliases: ["monitor_status"] },
+  { pid: "02", name: "Freeze Frame DTC", category: "Emissions", unit: "", description: "DTC that caused the freeze frame to be stored (encoded)", aliases: ["freeze_dtc"] },
+  { pid: "03", name: "Fuel System Status", category: "Emissions", unit: "", description: "Fuel system status (bit encoded)", aliases: ["fuel_system_status", "fuel_status"] },
+  { pid: "04", name: "Engine Load", category: "Engine", unit: "%", minValue: 0, maxValue: 100, typicalMin: 10, typicalMax: 80, aliases: ["load", "engine_load", "calculated_engine_load"] },
+  { pid: "05", name: "Coolant Temperature", category: "Temperature", unit: "°C", minValue: -40, maxValue: 215, typicalMin: 80, typicalMax: 105, aliases: ["coolant", "coolant_temp", "coolant_temperature", "ect"] },
+  { pid: "06", name: "Short Term Fuel Trim (Bank 1)", category: "Emissions", unit: "%", minValue: -100, maxValue: 99.2, typicalMin: -10, typicalMax: 10, aliases: ["stft1", "short_term_fuel_trim_1"] },
+  { pid: "07", name: "Long Term Fuel Trim (Bank 1)", category: "Emissions", unit: "%", minValue: -100, maxValue: 99.2, typicalMin: -10, typicalMax: 10, aliases: ["ltft1", "long_term_fuel_trim_1"] },
+  { pid: "08", name: "Short Term Fuel Trim (Bank 2)", category: "Emissions", unit: "%", minValue: -100, maxValue: 99.2, typicalMin: -10, typicalMax: 10, aliases: ["stft2", "short_term_fuel_trim_2"] },
+  { pid: "09", name: "Long Term Fuel Trim (Bank 2)", category: "Emissions", unit: "%", minValue: -100, maxValue: 99.2, typicalMin: -10, typicalMax: 10, aliases: ["ltft2", "long_term_fuel_trim_2"] },
+  { pid: "0A", name: "Fuel Pressure", category: "Fluid", unit: "kPa", minValue: 0, maxValue: 765, typicalMin: 250, typicalMax: 450, aliases: ["fuel_pressure"] },
+  { pid: "0B", name: "Intake Manifold Pressure", category: "Engine", unit: "kPa", minValue: 0, maxValue: 255, typicalMin: 20, typicalMax: 105, aliases: ["map", "intake_pressure", "intake_manifold_pressure"] },
+  { pid: "0C", name: "Engine RPM", category: "Engine", unit: "rpm", minValue: 0, maxValue: 16383.75, typicalMin: 600, typicalMax: 4000, aliases: ["rpm", "engine_rpm", "engine_speed"] },
+  { pid: "0D", name: "Vehicle Speed", category: "Engine", unit: "km/h", minValue: 0, maxValue: 255, typicalMin: 0, typicalMax: 130, aliases: ["speed", "vehicle_speed", "vss"] },
+  { pid: "0E", name: "Timing Advance", category: "Engine", unit: "°", minValue: -64, maxValue: 63.5, typicalMin: 0, typicalMax: 40, aliases: ["timing_advance", "timing"] },
+  { pid: "0F", name: "Intake Air Temperature", category: "Temperature", unit: "°C", minValue: -40, maxValue: 215, typicalMin: -10, typicalMax: 60, aliases: ["iat", "intake_temp", "intake_air_temperature"] },
+  { pid: "10", name: "MAF Air Flow Rate", category: "Engine", unit: "g/s", minValue: 0, maxValue: 655.35, typicalMin: 2, typicalMax: 150, aliases: ["maf", "mass_air_flow"] },
+  { pid: "11", name: "Throttle Position", category: "Engine", unit: "%", minValue: 0, maxValue: 100, typicalMin: 0, typicalMax: 100, aliases: ["throttle", "throttle_position", "tps"] },
+  { pid: "12", name: "Commanded Secondary Air Status", category: "Emissions", unit: "", description: "Commanded secondary air status (enumerated)", aliases: ["air_status", "secondary_air_status"] },
+  { pid: "13", name: "Oxygen Sensors Present (2 Banks)", category: "Emissions", unit: "", description: "Oxygen sensors present in banks 1 and 2 (bit encoded)", aliases: ["o2_sensors"] },
+  { pid: "14", name: "Oxygen Sensor Voltage (Bank 1, Sensor 1)", category: "Emissions", unit: "V", minValue: 0, maxValue: 1.275, typicalMin: 0.1, typicalMax: 0.9, description: "Narrowband sensor voltage, the short term fuel trim sent with it is not stored", aliases: ["o2_b1s1", "o2_voltage_b1s1"] },
+  { pid: "15", name: "Oxygen Sensor Voltage (Bank 1, Sensor 2)", category: "Emissions", unit: "V", minValue: 0, maxValue: 1.275, typicalMin: 0.1, typicalMax: 0.9, description: "Narrowband sensor voltage, the short term fuel trim sent with it is not stored", aliases: ["o2_b1s2", "o2_voltage_b1s2"] },
+  { pid: "16", name: "Oxygen Sensor Voltage (Bank 1, Sensor 3)", category: "Emissions", unit: "V", minValue: 0, maxValue: 1.275, typicalMin: 0.1, typicalMax: 0.9, description: "Narrowband sensor voltage, the short term fuel trim sent with it is not stored", aliases: ["o2_b1s3", "o2_voltage_b1s3"] },
+  { pid: "17", name: "Oxygen Sensor Voltage (Bank 1, Sensor 4)", category: "Emissions", unit: "V", minValue: 0, maxValue: 1.275, typicalMin: 0.1, typicalMax: 0.9, description: "Narrowband sensor voltage, the short term fuel trim sent with it is not stored", aliases: ["o2_b1s4", "o2_voltage_b1s4"] },
+  { pid: "18", name: "Oxygen Sensor Voltage (Bank 2, Sensor 1)", category: "Emissions", unit: "V", minValue: 0, maxValue: 1.275, typicalMin: 0.1, typicalMax: 0.9, description: "Narrowband sensor voltage, the short term fuel trim sent with it is not stored", aliases: ["o2_b2s1", "o2_voltage_b2s1"] },
+  { pid: "19", name: "Oxygen Sensor Voltage (Bank 2, Sensor 2)", category: "Emissions", unit: "V", minValue: 0, maxValue: 1.275, typicalMin: 0.1, typicalMax: 0.9, description: "Narrowband sensor voltage, the short term fuel trim sent with it is not stored", aliases: ["o2_b2s2", "o2_voltage_b2s2"] },
+  { pid: "1A", name: "Oxygen Sensor Voltage (Bank 2, Sensor 3)", category: "Emissions", unit: "V", minValue: 0, maxValue: 1.275, typicalMin: 0.1, typicalMax: 0.9, description: "Narrowband sensor voltage, the short term fuel trim sent with it is not stored", aliases: ["o2_b2s3", "o2_voltage_b2s3"] },
+  { pid: "1B", name: "Oxygen Sensor Voltage (Bank 2, Sensor 4)", category: "Emissions", unit: "V", minValue: 0, maxValue: 1.275, typicalMin: 0.1, typicalMax: 0.9, description: "Narrowband sensor voltage, the short term fuel trim sent with it is not stored", aliases: ["o2_b2s4", "o2_voltage_b2s4"] },
+  { pid: "1C", name: "OBD Standard", category: "Other", unit: "", description: "OBD standards the vehicle conforms to (enumerated)", aliases: ["obd_compliance", "obd_standard"] },
+  { pid: "1D", name: "Oxygen Sensors Present (4 Banks)", category: "Emissions", unit: "", description: "Oxygen sensors present in banks 1 to 4 (bit encoded)", aliases: ["o2_sensors_alt"] },
+  { pid: "1E", name: "Auxiliary Input Status", category: "Other", unit: "", description: "Power take-off status (bit encoded)", aliases: ["aux_input_status"] },
+  { pid: "1F", name: "Run Time Since Engine Start", category: "Engine", unit: "s", minValue: 0, maxValue: 65535, aliases: ["run_time", "engine_run_time"] },
+  { pid: "20", name: "PIDs Supported [21-40]", category: "Other", unit: "", description: "Support of PIDs 21 to 40 (bit encoded)", aliases: ["pids_b", "supported_pids_21_40"] },
+  { pid: "21", name: "Distance Traveled with MIL On", category: "Other", unit: "km", minValue: 0, maxValue: 65535, aliases: ["distance_w_mil", "distance_with_mil"] },
+  { pid: "22", name: "Fuel Rail Pressure", category: "Fluid", unit: "kPa", minValue: 0, maxValue: 5177.265, aliases: ["fuel_rail_pressure_vac"] },
+  { pid: "23", name: "Fuel Rail Gauge Pressure", category: "Fluid", unit: "kPa", minValue: 0, maxValue: 655350, aliases: ["fuel_rail_pressure", "fuel_rail_pressure_direct"] },
+  { pid: "24", name: "Oxygen Sensor 1 Wide Range Voltage", category: "Emissions", unit: "V", minValue: 0, maxValue: 8, description: "Wideband sensor voltage, the equivalence ratio sent with it is not stored", aliases: ["o2_s1_wr_voltage"] },
+  { pid: "25", name: "Oxygen Sensor 2 Wide Range Voltage", category: "Emissions", unit: "V", minValue: 0, maxValue: 8, description: "Wideband sensor voltage, the equivalence ratio sent with it is not stored", aliases: ["o2_s2_wr_voltage"] },
+  { pid: "26", name: "Oxygen Sensor 3 Wide Range Voltage", category: "Emissions", unit: "V", minValue: 0, maxValue: 8, description: "Wideband sensor voltage, the equivalence ratio sent with it is not stored", aliases: ["o2_s3_wr_voltage"] },
+  { pid: "27", name: "Oxygen Sensor 4 Wide Range Voltage", category: "Emissions", unit: "V", minValue: 0, maxValue: 8, description: "Wideband sensor voltage, the equivalence ratio sent with it is not stored", aliases: ["o2_s4_wr_voltage"] },
+  { pid: "28", name: "Oxygen Sensor 5 Wide Range Voltage", category: "Emissions", unit: "V", minValue: 0, maxValue: 8, description: "Wideband sensor voltage, the equivalence ratio sent with it is not stored", aliases: ["o2_s5_wr_voltage"] },
+  { pid: "29", name: "Oxygen Sensor 6 Wide Range Voltage", category: "Emissions", unit: "V", minValue: 0, maxValue: 8, description: "Wideband sensor voltage, the equivalence ratio sent with it is not stored", aliases: ["o2_s6_wr_voltage"] },
+  { pid: "2A", name: "Oxygen Sensor 7 Wide Range Voltage", category: "Emissions", unit: "V", minValue: 0, maxValue: 8, description: "Wideband sensor voltage, the equivalence ratio sent with it is not stored", aliases: ["o2_s7_wr_voltage"] },
+  { pid: "2B", name: "Oxygen Sensor 8 Wide Range Voltage", category: "Emissions", unit: "V", minValue: 0, maxValue: 8, description: "Wideband sensor voltage, the equivalence ratio sent with it is not stored", aliases: ["o2_s8_wr_voltage"] },
+  { pid: "2C", name: "Commanded EGR", category: "Emissions", unit: "%", minValue: 0, maxValue: 100, aliases: ["commanded_egr"] },
+  { pid: "2D", name: "EGR Error", category: "Emissions", unit: "%", minValue: -100, maxValue: 99.2, typicalMin: -10, typicalMax: 10, aliases: ["egr_error"] },
+  { pid: "2E", name: "Commanded Evaporative Purge", category: "Emissions", unit: "%", minValue: 0, maxValue: 100, aliases: ["evaporative_purge", "evap_purge"] },
+  { pid: "2F", name: "Fuel Level", category: "Fluid", unit: "%", minValue: 0, maxValue: 100, typicalMin: 0, typicalMax: 100, aliases: ["fuel", "fuel_level"] },
+  { pid: "30", name: "Warm-ups Since Codes Cleared", category: "Other", unit: "count", minValue: 0, maxValue: 255, aliases: ["warmups_since_dtc_clear", "warm_ups"] },
+  { pid: "31", name: "Distance Since Codes Cleared", category: "Other", unit: "km", minValue: 0, maxValue: 65535, aliases: ["distance_since_dtc_clear", "distance_since_codes_cleared"] },
+  { pid: "32", name: "Evaporative System Vapor Pressure", category: "Emissions", unit: "kPa", minValue: -8.192, maxValue: 8.192, aliases: ["evap_vapor_pressure", "evap_pressure"] },
+  { pid: "33", name: "Barometric Pressure", category: "Other", unit: "kPa", minValue: 0, maxValue: 255, typicalMin: 90, typicalMax: 105, aliases: ["baro", "barometric_pressure"] },
+  { pid: "34", name: "Oxygen Sensor 1 Wide Range Current", category: "Emissions", unit: "mA", minValue: -128, maxValue: 128, description: "Wideband sensor current, the equivalence ratio sent with it is not stored", aliases: ["o2_s1_wr_current"] },
+  { pid: "35", name: "Oxygen Sensor 2 Wide Range Current", category: "Emissions", unit: "mA", minValue: -128, maxValue: 128, description: "Wideband sensor current, the equivalence ratio sent with it is not stored", aliases: ["o2_s2_wr_current"] },
+  { pid: "36", name: "Oxygen Sensor 3 Wide Range Current", category: "Emissions", unit: "mA", minValue: -128, maxValue: 128, description: "Wideband sensor current, the equivalence ratio sent with it is not stored", aliases: ["o2_s3_wr_current"] },
+  { pid: "37", name: "Oxygen Sensor 4 Wide Range Current", category: "Emissions", unit: "mA", minValue: -128, maxValue: 128, description: "Wideband sensor current, the equivalence ratio sent with it is not stored", aliases: ["o2_s4_wr_current"] },
+  { pid: "38", name: "Oxygen Sensor 5 Wide Range Current", category: "Emissions", unit: "mA", minValue: -128, maxValue: 128, description: "Wideband sensor current, the equivalence ratio sent with it is not stored", aliases: ["o2_s5_wr_current"] },
+  { pid: "39", name: "Oxygen Sensor 6 Wide Range Current", category: "Emissions", unit: "mA", minValue: -128, maxValue: 128, description: "Wideband sensor current, the equivalence ratio sent with it is not stored", aliases: ["o2_s6_wr_current"] },
+  { pid: "3A", name: "Oxygen Sensor 7 Wide Range Current", category: "Emissions", unit: "mA", minValue: -128, maxValue: 128, description: "Wideband sensor current, the equivalence ratio sent with it is not stored", aliases: ["o2_s7_wr_current"] },
+  { pid: "3B", name: "Oxygen Sensor 8 Wide Range Current", category: "Emissions", unit: "mA", minValue: -128, maxValue: 128, description: "Wideband sensor current, the equivalence ratio sent with it is not stored", aliases: ["o2_s8_wr_current"] },
+  { pid: "3C", name: "Catalyst Temperature (Bank 1, Sensor 1)", category: "Temperature", unit: "°C", minValue: -40, maxValue: 6513.5, typicalMin: 300, typicalMax: 900, aliases: ["catalyst_temp_b1s1", "cat_temp"] },
+  { pid: "3D", name: "Catalyst Temperature (Bank 2, Sensor 1)", category: "Temperature", unit: "°C", minValue: -40, maxValue: 6513.5, typicalMin: 300, typicalMax: 900, aliases: ["catalyst_temp_b2s1"] },
+  { pid: "3E", name: "Catalyst Temperature (Bank 1, Sensor 2)", category: "Temperature", unit: "°C", minValue: -40, maxValue: 6513.5, typicalMin: 300, typicalMax: 900, aliases: ["catalyst_temp_b1s2"] },
+  { pid: "3F", name: "Catalyst Temperature (Bank 2, Sensor 2)", category: "Temperature", unit: "°C", minValue: -40, maxValue: 6513.5, typicalMin: 300, typicalMax: 900, aliases: ["catalyst_temp_b2s2"] },
+  { pid: "40", name: "PIDs Supported [41-60]", category: "Other", unit: "", description: "Support of PIDs 41 to 60 (bit encoded)", aliases: ["pids_c", "supported_pids_41_60"] },
+  { pid: "41", name: "Monitor Status This Drive Cycle", category: "Emissions", unit: "", description: "Monitor status this drive cycle (bit encoded)", aliases: ["status_drive_cycle"] },
+  { pid: "42", name: "Control Module Voltage", category: "Electrical", unit: "V", minValue: 0, maxValue: 65.535, typicalMin: 12, typicalMax: 14.8, aliases: ["voltage", "battery_voltage", "control_module_voltage"] },
+  { pid: "43", name: "Absolute Load Value", category: "Engine", unit: "%", minValue: 0, maxValue: 25700, typicalMin: 10, typicalMax: 90, aliases: ["absolute_load"] },
+  { pid: "44", name: "Commanded Air-Fuel Equivalence Ratio", category: "Emissions", unit: "ratio", minValue: 0, maxValue: 2, typicalMin: 0.9, typicalMax: 1.1, aliases: ["commanded_equiv_ratio", "lambda"] },
+  { pid: "45", name: "Relative Throttle Position", category: "Engine", unit: "%", minValue: 0, maxValue: 100, aliases: ["relative_throttle_pos", "relative_throttle_position"] },
+  { pid: "46", name: "Ambient Air Temperature", category: "Temperature", unit: "°C", minValue: -40, maxValue: 215, typicalMin: -20, typicalMax: 45, aliases: ["ambient_temp", "ambient_air_temp", "ambient_air_temperature"] },
+  { pid: "47", name: "Absolute Throttle Position B", category: "Engine", unit: "%", minValue: 0, maxValue: 100, aliases: ["throttle_pos_b"] },
+  { pid: "48", name: "Absolute Throttle Position C", category: "Engine", unit: "%", minValue: 0, maxValue: 100, aliases: ["throttle_pos_c"] },
+  { pid: "49", name: "Accelerator Pedal Position D", category: "Engine", unit: "%", minValue: 0, maxValue: 100, aliases: ["accelerator_pos_d"] },
+  { pid: "4A", name: "Accelerator Pedal Position E", category: "Engine", unit: "%", minValue: 0, maxValue: 100, aliases: ["accelerator_pos_e"] },
+  { pid: "4B", name: "Accelerator Pedal Position F", category: "Engine", unit: "%", minValue: 0, maxValue: 100, aliases: ["accelerator_pos_f"] },
+  { pid: "4C", name: "Commanded Throttle Actuator", category: "Engine", unit: "%", minValue: 0, maxValue: 100, aliases: ["throttle_actuator"] },
+  { pid: "4D", name: "Time Run with MIL On", category: "Other", unit: "min", minValue: 0, maxValue: 65535, aliases: ["run_time_mil"] },
+  { pid: "4E", name: "Time Since Codes Cleared", category: "Other", unit: "min", minValue: 0, maxValue: 65535, aliases: ["time_since_dtc_cleared"] },
+  { pid: "4F", name: "Maximum Sensor Values", category: "Other", unit: "", description: "Maximum equivalence ratio, oxygen sensor voltage and current, and intake manifold pressure (encoded)", aliases: ["max_values"] },
+  { pid: "50", name: "Maximum MAF Air Flow Rate", category: "Engine", unit: "g/s", minValue: 0, maxValue: 2550, aliases: ["max_maf"] },
+  { pid: "51", name: "Fuel Type", category: "Fluid", unit: "", description: "Fuel type (enumerated)", aliases: ["fuel_type"] },
+  { pid: "52", name: "Ethanol Fuel Percentage", category: "Fluid", unit: "%", minValue: 0, maxValue: 100, aliases: ["ethanol_percent", "ethanol"] },
+  { pid: "53", name: "Absolute Evaporative System Vapor Pressure", category: "Emissions", unit: "kPa", minValue: 0, maxValue: 327.675, aliases: ["evap_vapor_pressure_abs"] },
+  { pid: "54", name: "Evaporative System Vapor Pressure (Wide Range)", category: "Emissions", unit: "kPa", minValue: -32.767, maxValue: 32.768, aliases: ["evap_vapor_pressure_alt"] },
+  { pid: "55", name: "Short Term Secondary Oxygen Sensor Trim (Banks 1 and 3)", category: "Emissions", unit: "%", minValue: -100, maxValue: 99.2, typicalMin: -10, typicalMax: 10, aliases: ["short_o2_trim_b1"] },
+  { pid: "56", name: "Long Term Secondary Oxygen Sensor Trim (Banks 1 and 3)", category: "Emissions", unit: "%", minValue: -100, maxValue: 99.2, typicalMin: -10, typicalMax: 10, aliases: ["long_o2_trim_b1"] },
+  { pid: "57", name: "Short Term Secondary Oxygen Sensor Trim (Banks 2 and 4)", category: "Emissions", unit: "%", minValue: -100, maxValue: 99.2, typicalMin: -10, typicalMax: 10, aliases: ["short_o2_trim_b2"] },
+  { pid: "58", name: "Long Term Secondary Oxygen Sensor Trim (Banks 2 and 4)", category: "Emissions", unit: "%", minValue: -100, maxValue: 99.2, typicalMin: -10, typicalMax: 10, aliases: ["long_o2_trim_b2"] },
+  { pid: "59", name: "Fuel Rail Absolute Pressure", category: "Fluid", unit: "kPa", minValue: 0, maxValue: 655350, aliases: ["fuel_rail_pressure_abs"] },
+  { pid: "5A", name: "Relative Accelerator Pedal Position", category: "Engine", unit: "%", minValue: 0, maxValue: 100, aliases: ["relative_accel_pos"] },
+  { pid: "5B", name: "Hybrid Battery Pack Remaining Life", category: "Electrical", unit: "%", minValue: 0, maxValue: 100, aliases: ["hybrid_battery_remaining"] },
+  { pid: "5C", name: "Engine Oil Temperature", category: "Temperature", unit: "°C", minValue: -40, maxValue: 210, typicalMin: 80, typicalMax: 120, aliases: ["oil_temp", "engine_oil_temp", "oil_temperature"] },
+  { pid: "5D", name: "Fuel Injection Timing", category: "Engine", unit: "°", minValue: -210, maxValue: 301.992, aliases: ["fuel_inject_timing", "injection_timing"] },
+  { pid: "5E", name: "Engine Fuel Rate", category: "Fluid", unit: "L/h", minValue: 0, maxValue: 3212.75, typicalMin: 0.5, typicalMax: 20, aliases: ["fuel_rate", "engine_fuel_rate"] },
+  { pid: "5F", name: "Emission Requirements", category: "Emissions", unit: "", description: "Emission requirements the vehicle is designed to (enumerated)", aliases: ["emission_req", "emission_requirements"] },
+  { pid: "60", name: "PIDs Supported [61-80]", category: "Other", unit: "", description: "Support of PIDs 61 to 80 (bit encoded)", aliases: ["pids_d", "supported_pids_61_80"] },
+  { pid: "61", name: "Driver's Demand Engine Torque", category: "Engine", unit: "%", minValue: -125, maxValue: 130, aliases: ["demand_torque", "driver_demand_torque"] },
+  { pid: "62", name: "Actual Engine Torque", category: "Engine", unit: "%", minValue: -125, maxValue: 130, aliases: ["actual_torque"] },
+  { pid: "63", name: "Engine Reference Torque", category: "Engine", unit: "Nm", minValue: 0, maxValue: 65535, aliases: ["reference_torque"] },
+  { pid: "64", name: "Engine Percent Torque Data", category: "Engine", unit: "%", minValue: -125, maxValue: 130, description: "Torque at idle, the torque at the other reference points sent with it is not stored", aliases: ["engine_percent_torque"] },
+  { pid: "65", name: "Auxiliary Input/Output Supported", category: "Other", unit: "", description: "Auxiliary inputs and outputs supported (bit encoded)", aliases: ["aux_io_supported"] },
+  { pid: "66", name: "MAF Sensor", category: "Engine", unit: "g/s", minValue: 0, maxValue: 2047.96875, typicalMin: 2, typicalMax: 150, description: "Mass air flow of sensor A", aliases: ["maf_sensor"] },
+  { pid: "67", name: "Engine Coolant Temperature Sensor", category: "Temperature", unit: "°C", minValue: -40, maxValue: 215, typicalMin: 80, typicalMax: 105, description: "Temperature of coolant sensor 1", aliases: ["engine_coolant_temp_sensor"] },
+  { pid: "68", name: "Intake Air Temperature Sensor", category: "Temperature", unit: "°C", minValue: -40, maxValue: 215, typicalMin: -10, typicalMax: 60, description: "Temperature of intake air sensor 1", aliases: ["intake_air_temp_sensor"] },
+  { pid: "7C", name: "Diesel Particulate Filter Temperature", category: "Temperature", unit: "°C", minValue: -40, maxValue: 6513.5, aliases: ["dpf_temp", "dpf_temperature"] },
+  { pid: "8E", name: "Engine Friction Percent Torque", category: "Engine", unit: "%", minValue: -125, maxValue: 130, aliases: ["engine_friction_torque"] },
+  { pid: "A6", name: "Odometer", category: "Other", unit: "km", minValue: 0, maxValue: 429496729.5, aliases: ["odometer"] },
+];
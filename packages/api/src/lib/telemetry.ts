@@ -0,0 +1,238 @@
+import type { PgColumn } from "drizzle-orm/pg-core";
+import type { PinoLogger } from "hono-pino";
+
+import { and, asc, eq, inArray, sql } from "drizzle-orm";
+
+import type { diagnosticsTable } from "../db/schema/diagnostics-schema";
+import type { TelemetryCursor, TelemetryIngestMessage, TelemetryUpdate } from "../zod/z-telemetry";
+import type { UnitPreferences } from "./units";
+
+import { db } from "../db";
+import { insertLocationSchema, locationsTable } from "../db/schema/locations-schema";
+import { insertSensorReadingSchema, sensorReadingsTable } from "../db/schema/sensor-readings-schema";
+import { insertSensorSnapshotSchema, sensorSnapshotsTable } from "../db/schema/sensor-snapshots-schema";
+import { evaluateAlertRules } from "./alert-rules";
+import { evaluateGeofences } from "./geofences";
+import { normalizeReadingPids } from "./pid-registry";
+import { detectSensorAnomalies } from "./sensor-anomalies";
+import { detectVehicleTrips, isEngineOffReading } from "./trips";
+import { convertLocation, convertReading } from "./units";
+
+type Diagnostic = typeof diagnosticsTable.$inferSelect;
+
+// Upper bound of locations pushed to a subscriber in a single update
+const MAX_ROWS_PER_UPDATE = 500;
+
+// Upper bound of snapshots pushed in a single update, each is sent with all of its readings
+const MAX_SNAPSHOTS_PER_UPDATE = 50;
+
+const CURSOR_SEPARATOR = "_";
+
+const NIL_UUID = "00000000-0000-0000-0000-000000000000";
+
+/**
+ * Persist a live telemetry message for a diagnostic.
+ * Readings are stored as a new sensor snapshot, locations as individual rows,
+ * exactly as the batch endpoints would store them, and readings are evaluated
+ * against the vehicle's alert rules and scored for anomalies. Like the batch
+ * endpoints, locations are checked against the vehicle's geofences and both
+ * locations and engine-off readings re-detect its trips; failures of these are
+ * logged without failing the message. Readings whose PID is not in the
+ * registry, or whose unit does not fit it, are skipped and reported back in
+ * unresolvedPids.
+ */
+export async function persistTelemetryMessage(diagnostic: Diagnostic, message: TelemetryIngestMessage, logger: PinoLogger) {
+  if (message.type === "readings") {
+    // Same PID normalization as the snapshots route, unknown PIDs and mismatched units are not stored
+    const { resolved, unresolved } = await normalizeReadingPids(message.readings);
+    const unresolvedPids = [...new Set(unresolved.map(reading => reading.pid))];
+
+    if (resolved.length === 0) {
+      return { snapshotUUID: null, readingsCount: 0, locationsCount: 0, unresolvedPids };
+    }
+
+    const validatedSnapshot = insertSensorSnapshotSchema.parse({
+      diagnosticUUID: diagnostic.uuid,
+      ...(message.source ? { source: message.source } : {}),
+    });
+
+    const snapshot = await db
+      .insert(sensorSnapshotsTable)
+      .values(validatedSnapshot)
+      .returning()
+      .then(res => res[0]);
+
+    const readingsToInsert = resolved.map(reading =>
+      insertSensorReadingSchema.parse({
+        sensorSnapshotsUUID: snapshot.uuid,
+        pid: reading.pid,
+        value: reading.value,
+        unit: reading.unit,
+        timestamp: new Date(reading.timestamp),
+      }),
+    );
+
+    const insertedReadings = await db.insert(sensorReadingsTable).values(readingsToInsert).returning();
+
+    await evaluateAlertRules(diagnostic, snapshot.uuid, insertedReadings);
+    await detectSensorAnomalies(diagnostic, snapshot.uuid, insertedReadings);
+
+    // An engine-off reading can end a trip that was already detected from the locations
+    const engineOffReadings = insertedReadings.filter(isEngineOffReading);
+    if (engineOffReadings.length > 0) {
+      try {
+        const since = engineOffReadings.reduce((earliest, reading) => Math.min(earliest, reading.timestamp.getTime()), Infinity);
+        await detectVehicleTrips(diagnostic.vehicleUUID, new Date(since));
+      }
+      catch (error) {
+        logger.error({ error, diagnosticUUID: diagnostic.uuid }, "Failed to detect trips");
+      }
+    }
+
+    return { snapshotUUID: snapshot.uuid, readingsCount: readingsToInsert.length, locationsCount: 0, unresolvedPids };
+  }
+
+  const locationsToInsert = message.locations.map(location =>
+    insertLocationSchema.parse({
+      diagnosticUUID: diagnostic.uuid,
+      vehicleUUID: diagnostic.vehicleUUID,
+      latitude: location.latitude,
+      longitude: location.longitude,
+      altitude: location.altitude,
+      speed: location.speed,
+      accuracy: location.accuracy,
+      timestamp: new Date(location.timestamp),
+    }),
+  );
+
+  const newLocations = await db.insert(locationsTable).values(locationsToInsert).returning();
+
+  if (newLocations.length > 0) {
+    const since = newLocations.reduce((earliest, location) => Math.min(earliest, location.timestamp.getTime()), Infinity);
+
+    try {
+      await detectVehicleTrips(diagnostic.vehicleUUID, new Date(since));
+    }
+    catch (error) {
+      logger.error({ error, vehicleUUID: diagnostic.vehicleUUID }, "Failed to detect trips");
+    }
+
+    try {
+      const geofenceEvents = await evaluateGeofences(diagnostic.vehicleUUID, newLocations);
+      if (geofenceEvents.length > 0) {
+        logger.info({ vehicleUUID: diagnostic.vehicleUUID, geofenceUUIDs: geofenceEvents.map(event => event.geofenceUUID) }, "Geofence boundaries crossed");
+      }
+    }
+    catch (error) {
+      logger.error({ error, vehicleUUID: diagnostic.vehicleUUID }, "Failed to evaluate geofences");
+    }
+  }
+
+  return { snapshotUUID: null, readingsCount: 0, locationsCount: locationsToInsert.length, unresolvedPids: [] };
+}
+
+/**
+ * Cursor position just after an item, from its server insertion time and uuid
+ */
+function encodeCursorPosition(createdAt: Date, uuid: string) {
+  return `${createdAt.toISOString()}${CURSOR_SEPARATOR}${uuid}`;
+}
+
+/**
+ * Split a cursor position into its insertion time and uuid. A bare timestamp
+ * covers every item inserted after it.
+ */
+function decodeCursorPosition(position: string) {
+  const [createdAt, uuid = NIL_UUID] = position.split(CURSOR_SEPARATOR);
+  return { createdAt: new Date(createdAt).toISOString(), uuid };
+}
+
+/**
+ * Rows inserted after a cursor position. Insertion times are compared at the
+ * millisecond precision of the cursor, ties are broken by uuid so rows stored
+ * in the same statement are neither skipped nor sent twice.
+ */
+function isAfterCursorPosition(createdAtColumn: PgColumn, uuidColumn: PgColumn, position: string) {
+  const { createdAt, uuid } = decodeCursorPosition(position);
+  return sql`(date_trunc('milliseconds', ${createdAtColumn}), ${uuidColumn}) > (${createdAt}::timestamp, ${uuid}::uuid)`;
+}
+
+function orderByCursorPosition(createdAtColumn: PgColumn, uuidColumn: PgColumn) {
+  return [sql`date_trunc('milliseconds', ${createdAtColumn})`, asc(uuidColumn)];
+}
+
+/**
+ * Build the initial cursor for a new subscriber. Without an explicit cursor the
+ * subscriber only receives data stored after it connected.
+ */
+export function createTelemetryCursor(cursor?: Partial<TelemetryCursor>): TelemetryCursor {
+  const now = new Date().toISOString();
+
+  return {
+    readings: cursor?.readings ?? now,
+    locations: cursor?.locations ?? now,
+  };
+}
+
+/**
+ * Fetch telemetry stored for a diagnostic after the given cursor, converted to
+ * the subscriber's units. Both streams follow server insertion order, so data
+ * from a device with a skewed clock or uploaded late is still delivered.
+ * Readings are sent by whole snapshots. Returns null when nothing new has
+ * arrived.
+ */
+export async function getTelemetrySince(diagnosticUUID: string, cursor: TelemetryCursor, preferences: UnitPreferences): Promise<TelemetryUpdate | null> {
+  const snapshots = await db
+    .select({ uuid: sensorSnapshotsTable.uuid, createdAt: sensorSnapshotsTable.createdAt })
+    .from(sensorSnapshotsTable)
+    .where(
+      and(
+        eq(sensorSnapshotsTable.diagnosticUUID, diagnosticUUID),
+        isAfterCursorPosition(sensorSnapshotsTable.createdAt, sensorSnapshotsTable.uuid, cursor.readings),
+      ),
+    )
+    .orderBy(...orderByCursorPosition(sensorSnapshotsTable.createdAt, sensorSnapshotsTable.uuid))
+    .limit(MAX_SNAPSHOTS_PER_UPDATE);
+
+  const readings = snapshots.length > 0
+    ? await db
+      .select()
+      .from(sensorReadingsTable)
+      .where(inArray(sensorReadingsTable.sensorSnapshotsUUID, snapshots.map(snapshot => snapshot.uuid)))
+      .orderBy(asc(sensorReadingsTable.timestamp))
+    : [];
+
+  // Readings follow the order their snapshots were stored in
+  const snapshotOrder = new Map(snapshots.map((snapshot, index) => [snapshot.uuid, index]));
+  readings.sort((a, b) => snapshotOrder.get(a.sensorSnapshotsUUID)! - snapshotOrder.get(b.sensorSnapshotsUUID)!);
+
+  const locations = await db
+    .select()
+    .from(locationsTable)
+    .where(
+      and(
+        eq(locationsTable.diagnosticUUID, diagnosticUUID),
+        isAfterCursorPosition(locationsTable.createdAt, locationsTable.uuid, cursor.locations),
+      ),
+    )
+    .orderBy(...orderByCursorPosition(locationsTable.createdAt, locationsTable.uuid), asc(locationsTable.timestamp))
+    .limit(MAX_ROWS_PER_UPDATE);
+
+  if (snapshots.length === 0 && locations.length === 0) {
+    return null;
+  }
+
+  const lastSnapshot = snapshots[snapshots.length - 1];
+  const lastLocation = locations[locations.length - 1];
+
+  return {
+    type: "telemetry",
+    diagnosticUUID,
+    cursor: {
+      readings: lastSnapshot ? encodeCursorPosition(lastSnapshot.createdAt, lastSnapshot.uuid) : cursor.readings,
+      locations: lastLocation ? encodeCursorPosition(lastLocation.createdAt, lastLocation.uuid) : cursor.locations,
+    },
+    readings: readings.map(reading => convertReading(reading, preferences)),
+    locations: locations.map(location => convertLocation(location, preferences)),
+  };
+}
@@ -0,0 +1,97 @@
+/// <reference types="bun" />
+import { describe, expect, it } from "bun:test";
+
+import type { locationsTable } from "../db/schema/locations-schema";
+
+import { buildTrips, getLocationRunStart } from "./trip-segments";
+
+type Location = typeof locationsTable.$inferSelect;
+
+const START = new Date("2025-06-12T08:00:00.000Z");
+
+// A location every 10 s driving north at 10 m/s, about 100 m apart
+function drivingLocation(index: number): Location {
+  const timestamp = new Date(START.getTime() + index * 10_000);
+
+  return {
+    uuid: crypto.randomUUID(),
+    diagnosticUUID: "00000000-0000-0000-0000-000000000001",
+    vehicleUUID: "00000000-0000-0000-0000-000000000002",
+    latitude: 44.4268 + index * 0.0009,
+    longitude: 26.1025,
+    altitude: null,
+    speed: 10,
+    accuracy: 5,
+    timestamp,
+    createdAt: timestamp,
+  };
+}
+
+// What detectVehicleTrips segments after each upload, when no trip has been stored yet
+function detectAfterUpload(stored: Location[], since: Date) {
+  const earlier = stored
+    .filter(location => location.timestamp < since)
+    .map(location => location.timestamp)
+    .sort((a, b) => b.getTime() - a.getTime());
+
+  const runStart = getLocationRunStart(earlier, since);
+
+  return buildTrips(stored.filter(location => location.timestamp >= runStart), []);
+}
+
+describe("getLocationRunStart", () => {
+  it("walks back through locations that are close together", () => {
+    const earlier = [2, 1, 0].map(index => drivingLocation(index).timestamp);
+
+    expect(getLocationRunStart(earlier, drivingLocation(3).timestamp)).toEqual(START);
+  });
+
+  it("stops at a gap between locations", () => {
+    const since = new Date(START.getTime() + 60 * 60 * 1000);
+    const earlier = [new Date(since.getTime() - 30_000), START];
+
+    expect(getLocationRunStart(earlier, since)).toEqual(earlier[0]);
+  });
+
+  it("starts at the new locations when there are no earlier ones", () => {
+    expect(getLocationRunStart([], START)).toEqual(START);
+  });
+});
+
+describe("buildTrips", () => {
+  it("builds a trip from locations posted one at a time", () => {
+    const stored: Location[] = [];
+    let trips: ReturnType<typeof buildTrips> = [];
+
+    for (let index = 0; index < 12; index++) {
+      const location = drivingLocation(index);
+      stored.push(location);
+      trips = detectAfterUpload(stored, location.timestamp);
+    }
+
+    expect(trips).toHaveLength(1);
+    expect(trips[0].startedAt).toEqual(START);
+    expect(trips[0].locationCount).toBe(12);
+    expect(trips[0].distance).toBeGreaterThan(1);
+  });
+
+  it("leaves out segments too short to be a trip", () => {
+    const locations = [0, 1, 2].map(drivingLocation);
+
+    expect(buildTrips(locations, [])).toHaveLength(0);
+  });
+
+  it("handles tracks too long to spread into Math.max", () => {
+    const locations = Array.from({ length: 200_000 }, (_, index) => ({
+      ...drivingLocation(0),
+      latitude: 44.4268 + index * 0.000009,
+      timestamp: new Date(START.getTime() + index * 100),
+      speed: 36 / 3.6,
+    }));
+
+    const trips = buildTrips(locations, []);
+
+    expect(trips).toHaveLength(1);
+    expect(trips[0].maxSpeed).toBeCloseTo(36);
+  });
+});
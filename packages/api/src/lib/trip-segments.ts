@@ -0,0 +1,204 @@
+import type { locationsTable } from "../db/schema/locations-schema";
+
+import { haversineDistance } from "./geo";
+
+type Location = typeof locationsTable.$inferSelect;
+
+type TripPoint = {
+  latitude: number;
+  longitude: number;
+  timestamp: Date;
+  speed: number; // km/h
+};
+
+// No location for this long and the trip is over
+export const MAX_LOCATION_GAP_SECONDS = 5 * 60;
+
+// Stopped for longer than this counts as parked rather than waiting in traffic
+const MAX_STATIONARY_SECONDS = 3 * 60;
+
+// Below this speed the vehicle counts as stopped, GPS speed is never exactly 0
+const STATIONARY_SPEED_KMH = 3;
+
+// Locations that have not become a trip within this long are not looked at again
+export const MAX_RUN_LOOKBACK_SECONDS = 60 * 60;
+
+// Shorter segments are GPS drift or moving the car around the driveway
+const MIN_TRIP_DISTANCE_KM = 0.2;
+const MIN_TRIP_DURATION_SECONDS = 60;
+
+export function secondsBetween(from: Date, to: Date) {
+  return (to.getTime() - from.getTime()) / 1000;
+}
+
+function isStationary(point: TripPoint) {
+  return point.speed < STATIONARY_SPEED_KMH;
+}
+
+/**
+ * Turn stored locations into trip points. Speeds are reported in m/s by the
+ * app, locations without one get the speed implied by the previous location.
+ */
+function toTripPoints(locations: Location[]) {
+  return locations.map((location, index): TripPoint => {
+    const point = {
+      latitude: location.latitude,
+      longitude: location.longitude,
+      timestamp: location.timestamp,
+    };
+
+    if (location.speed != null) {
+      return { ...point, speed: location.speed * 3.6 };
+    }
+
+    const previous = locations[index - 1];
+    const elapsed = previous ? secondsBetween(previous.timestamp, location.timestamp) : 0;
+
+    return {
+      ...point,
+      speed: elapsed > 0 ? haversineDistance(previous, location) / (elapsed / 3600) : 0,
+    };
+  });
+}
+
+// A trip starts with the last stationary point before moving off and ends with the first one after stopping
+function trimStationaryEnds(points: TripPoint[]) {
+  let start = 0;
+  while (start < points.length - 1 && isStationary(points[start]) && isStationary(points[start + 1])) {
+    start++;
+  }
+
+  let end = points.length - 1;
+  while (end > start && isStationary(points[end]) && isStationary(points[end - 1])) {
+    end--;
+  }
+
+  return points.slice(start, end + 1);
+}
+
+/**
+ * Split a chronological location stream into trips. A trip ends when the
+ * locations stop for longer than MAX_LOCATION_GAP_SECONDS, when the vehicle
+ * stands still for longer than MAX_STATIONARY_SECONDS, or when an RPM reading
+ * shows the engine was switched off between two locations.
+ */
+function segmentTrips(points: TripPoint[], engineOffAt: Date[]) {
+  const segments: TripPoint[][] = [];
+  let current: TripPoint[] = [];
+  let stationarySince: number | null = null;
+  let engineOffIndex = 0;
+
+  const close = (segment: TripPoint[]) => {
+    const trimmed = trimStationaryEnds(segment);
+    if (trimmed.length >= 2) {
+      segments.push(trimmed);
+    }
+  };
+
+  for (const point of points) {
+    const previous = current[current.length - 1];
+
+    // Skip the engine-off readings that happened before the previous location
+    const since = previous?.timestamp ?? point.timestamp;
+    while (engineOffIndex < engineOffAt.length && engineOffAt[engineOffIndex] <= since) {
+      engineOffIndex++;
+    }
+
+    const engineSwitchedOff = engineOffIndex < engineOffAt.length && engineOffAt[engineOffIndex] <= point.timestamp;
+
+    if (previous && (engineSwitchedOff || secondsBetween(previous.timestamp, point.timestamp) > MAX_LOCATION_GAP_SECONDS)) {
+      close(current);
+      current = [];
+      stationarySince = null;
+    }
+
+    current.push(point);
+
+    if (!isStationary(point)) {
+      stationarySince = null;
+      continue;
+    }
+
+    stationarySince ??= current.length - 1;
+
+    if (secondsBetween(current[stationarySince].timestamp, point.timestamp) > MAX_STATIONARY_SECONDS) {
+      // Parked: the trip ended when the vehicle stopped, keep waiting for it to move off
+      close(current.slice(0, stationarySince + 1));
+      current = [point];
+      stationarySince = 0;
+    }
+  }
+
+  close(current);
+
+  return segments;
+}
+
+/**
+ * Distance, duration, speeds and idle time of a segment of trip points
+ */
+function summarizeTrip(points: TripPoint[]) {
+  const first = points[0];
+  const last = points[points.length - 1];
+
+  let distance = 0;
+  let idleTime = 0;
+
+  for (let index = 1; index < points.length; index++) {
+    const previous = points[index - 1];
+    const point = points[index];
+
+    distance += haversineDistance(previous, point);
+
+    if (isStationary(previous) && isStationary(point)) {
+      idleTime += secondsBetween(previous.timestamp, point.timestamp);
+    }
+  }
+
+  const duration = secondsBetween(first.timestamp, last.timestamp);
+
+  return {
+    startedAt: first.timestamp,
+    endedAt: last.timestamp,
+    startLatitude: first.latitude,
+    startLongitude: first.longitude,
+    endLatitude: last.latitude,
+    endLongitude: last.longitude,
+    distance,
+    duration: Math.round(duration),
+    maxSpeed: points.reduce((max, point) => Math.max(max, point.speed), 0),
+    avgSpeed: duration > 0 ? distance / (duration / 3600) : 0,
+    idleTime: Math.round(idleTime),
+    locationCount: points.length,
+  };
+}
+
+/**
+ * Start of the run of locations that the ones recorded at `since` continue:
+ * the earliest of the earlier locations (given newest first) that are each at
+ * most MAX_LOCATION_GAP_SECONDS apart. Locations uploaded one at a time or in
+ * short chunks only make a trip once they are segmented together.
+ */
+export function getLocationRunStart(earlierTimestamps: Date[], since: Date) {
+  let runStart = since;
+
+  for (const timestamp of earlierTimestamps) {
+    if (secondsBetween(timestamp, runStart) > MAX_LOCATION_GAP_SECONDS || secondsBetween(timestamp, since) > MAX_RUN_LOOKBACK_SECONDS) {
+      break;
+    }
+
+    runStart = timestamp;
+  }
+
+  return runStart;
+}
+
+/**
+ * Trips made by a chronological list of locations, leaving out the segments
+ * too short to be a real trip
+ */
+export function buildTrips(locations: Location[], engineOffAt: Date[]) {
+  return segmentTrips(toTripPoints(locations), engineOffAt)
+    .map(summarizeTrip)
+    .filter(trip => trip.distance >= MIN_TRIP_DISTANCE_KM && trip.duration >= MIN_TRIP_DURATION_SECONDS);
+}
@@ -0,0 +1,120 @@
+import { and, asc, desc, eq, gte, lt, lte } from "drizzle-orm";
+
+import type { UnitPreferences } from "./units";
+
+import { db } from "../db";
+import { diagnosticsTable } from "../db/schema/diagnostics-schema";
+import { locationsTable } from "../db/schema/locations-schema";
+import { sensorReadingsTable } from "../db/schema/sensor-readings-schema";
+import { sensorSnapshotsTable } from "../db/schema/sensor-snapshots-schema";
+import { insertTripSchema, tripsTable } from "../db/schema/trips-schema";
+import { buildTrips, getLocationRunStart, MAX_LOCATION_GAP_SECONDS, MAX_RUN_LOOKBACK_SECONDS, secondsBetween } from "./trip-segments";
+import { CANONICAL_UNITS, convertDistance, toPreferredUnit } from "./units";
+
+type Trip = typeof tripsTable.$inferSelect;
+
+const RPM_PID = "0C";
+
+// An RPM reading below this means the ignition is off
+const ENGINE_OFF_RPM = 300;
+
+/**
+ * Whether a stored sensor reading shows the ignition switched off, which ends
+ * the trip in progress
+ */
+export function isEngineOffReading(reading: { pid: string; value: number }) {
+  return reading.pid === RPM_PID && reading.value < ENGINE_OFF_RPM;
+}
+
+/**
+ * Rebuild the trips of a vehicle affected by locations recorded at or after
+ * `since`. Detection restarts at the trip the new locations may extend, or at
+ * the start of the run of locations they continue, so a trip still in
+ * progress grows as the app uploads its locations. Returns the trips that
+ * were (re)created.
+ */
+export async function detectVehicleTrips(vehicleUUID: string, since: Date) {
+  const previousTrip = await db
+    .select()
+    .from(tripsTable)
+    .where(and(eq(tripsTable.vehicleUUID, vehicleUUID), lte(tripsTable.startedAt, since)))
+    .orderBy(desc(tripsTable.startedAt))
+    .limit(1)
+    .then(res => res[0]);
+
+  const earlierLocations = await db
+    .select({ timestamp: locationsTable.timestamp })
+    .from(locationsTable)
+    .where(
+      and(
+        eq(locationsTable.vehicleUUID, vehicleUUID),
+        lt(locationsTable.timestamp, since),
+        gte(locationsTable.timestamp, new Date(since.getTime() - MAX_RUN_LOOKBACK_SECONDS * 1000)),
+      ),
+    )
+    .orderBy(desc(locationsTable.timestamp));
+
+  const runStart = getLocationRunStart(earlierLocations.map(location => location.timestamp), since);
+
+  // A trip the run overlaps is rebuilt as a whole
+  const windowStart = previousTrip && (secondsBetween(previousTrip.endedAt, since) <= MAX_LOCATION_GAP_SECONDS || previousTrip.endedAt >= runStart)
+    ? new Date(Math.min(previousTrip.startedAt.getTime(), runStart.getTime()))
+    : runStart;
+
+  const locations = await db
+    .select()
+    .from(locationsTable)
+    .where(and(eq(locationsTable.vehicleUUID, vehicleUUID), gte(locationsTable.timestamp, windowStart)))
+    .orderBy(asc(locationsTable.timestamp));
+
+  const engineOffReadings = await db
+    .select({ timestamp: sensorReadingsTable.timestamp })
+    .from(sensorReadingsTable)
+    .innerJoin(sensorSnapshotsTable, eq(sensorReadingsTable.sensorSnapshotsUUID, sensorSnapshotsTable.uuid))
+    .innerJoin(diagnosticsTable, eq(sensorSnapshotsTable.diagnosticUUID, diagnosticsTable.uuid))
+    .where(
+      and(
+        eq(diagnosticsTable.vehicleUUID, vehicleUUID),
+        eq(sensorReadingsTable.pid, RPM_PID),
+        lt(sensorReadingsTable.value, ENGINE_OFF_RPM),
+        gte(sensorReadingsTable.timestamp, windowStart),
+      ),
+    )
+    .orderBy(asc(sensorReadingsTable.timestamp));
+
+  const trips = buildTrips(locations, engineOffReadings.map(reading => reading.timestamp));
+
+  const deleteTrips = db
+    .delete(tripsTable)
+    .where(and(eq(tripsTable.vehicleUUID, vehicleUUID), gte(tripsTable.startedAt, windowStart)));
+
+  if (trips.length === 0) {
+    await deleteTrips;
+    return [];
+  }
+
+  // Replaced in one transaction, so a concurrent upload never sees the vehicle without its trips
+  const [, createdTrips] = await db.batch([
+    deleteTrips,
+    db
+      .insert(tripsTable)
+      .values(trips.map(trip => insertTripSchema.parse({ ...trip, vehicleUUID })))
+      .returning(),
+  ]);
+
+  return createdTrips;
+}
+
+/**
+ * Express the distance and speeds of a trip in the user's preferred units
+ */
+export function convertTrip(trip: Trip, preferences: UnitPreferences) {
+  return {
+    ...trip,
+    distance: convertDistance(trip.distance, preferences),
+    distanceUnit: preferences.distance,
+    maxSpeed: toPreferredUnit(trip.maxSpeed, CANONICAL_UNITS.speed, preferences).value,
+    avgSpeed: toPreferredUnit(trip.avgSpeed, CANONICAL_UNITS.speed, preferences).value,
+    speedUnit: preferences.speed,
+  };
+}
@@ -0,0 +1,276 @@
+import { eq } from "drizzle-orm";
+
+import { db } from "../db";
+import { userPreferencesTable } from "../db/schema/user-preferences-schema";
+import { toMilesPerGallon } from "./fuel-economy";
+
+type Quantity = "distance" | "speed" | "temperature" | "pressure" | "volume" | "volumeRate" | "consumption";
+
+type UnitDefinition = {
+  quantity: Quantity;
+  toCanonical: (value: number) => number;
+  fromCanonical: (value: number) => number;
+  // The unit is inversely proportional to the canonical one
+  reciprocal?: boolean;
+};
+
+/**
+ * Canonical storage unit per quantity. Readings, odometers and costs per
+ * distance are stored in these units and converted on the way out.
+ */
+export const CANONICAL_UNITS: Record<Quantity, string> = {
+  distance: "km",
+  speed: "km/h",
+  temperature: "°C",
+  pressure: "kPa",
+  volume: "L",
+  volumeRate: "L/h",
+  consumption: "L/100km",
+};
+
+const KM_PER_MILE = 1.609344;
+const KPA_PER_PSI = 6.894757;
+const LITRES_PER_GALLON = 3.785411784;
+
+const UNIT_DEFINITIONS: Record<string, UnitDefinition> = {
+  "km": { quantity: "distance", toCanonical: v => v, fromCanonical: v => v },
+  "mi": { quantity: "distance", toCanonical: v => v * KM_PER_MILE, fromCanonical: v => v / KM_PER_MILE },
+  "m": { quantity: "distance", toCanonical: v => v / 1000, fromCanonical: v => v * 1000 },
+  "km/h": { quantity: "speed", toCanonical: v => v, fromCanonical: v => v },
+  "mph": { quantity: "speed", toCanonical: v => v * KM_PER_MILE, fromCanonical: v => v / KM_PER_MILE },
+  "m/s": { quantity: "speed", toCanonical: v => v * 3.6, fromCanonical: v => v / 3.6 },
+  "°C": { quantity: "temperature", toCanonical: v => v, fromCanonical: v => v },
+  "°F": { quantity: "temperature", toCanonical: v => (v - 32) * 5 / 9, fromCanonical: v => v * 9 / 5 + 32 },
+  "K": { quantity: "temperature", toCanonical: v => v - 273.15, fromCanonical: v => v + 273.15 },
+  "kPa": { quantity: "pressure", toCanonical: v => v, fromCanonical: v => v },
+  "psi": { quantity: "pressure", toCanonical: v => v * KPA_PER_PSI, fromCanonical: v => v / KPA_PER_PSI },
+  "bar": { quantity: "pressure", toCanonical: v => v * 100, fromCanonical: v => v / 100 },
+  "L": { quantity: "volume", toCanonical: v => v, fromCanonical: v => v },
+  "gal": { quantity: "volume", toCanonical: v => v * LITRES_PER_GALLON, fromCanonical: v => v / LITRES_PER_GALLON },
+  "L/h": { quantity: "volumeRate", toCanonical: v => v, fromCanonical: v => v },
+  "gal/h": { quantity: "volumeRate", toCanonical: v => v * LITRES_PER_GALLON, fromCanonical: v => v / LITRES_PER_GALLON },
+  "L/100km": { quantity: "consumption", toCanonical: v => v, fromCanonical: v => v },
+  // The conversion is its own inverse. Coasting with the fuel cut off has no finite MPG and is given as 0
+  "mpg": { quantity: "consumption", toCanonical: v => v > 0 ? toMilesPerGallon(v) : 0, fromCanonical: v => v > 0 ? toMilesPerGallon(v) : 0, reciprocal: true },
+};
+
+// Spellings clients are known to send, keyed by their lowercase form. Single
+// letters are left out, "m" alone could be metres, miles or minutes
+const UNIT_ALIASES: Record<string, string> = {
+  "km": "km",
+  "kilometers": "km",
+  "kilometres": "km",
+  "mi": "mi",
+  "mile": "mi",
+  "miles": "mi",
+  "km/h": "km/h",
+  "kmh": "km/h",
+  "kph": "km/h",
+  "km/hr": "km/h",
+  "mph": "mph",
+  "mi/h": "mph",
+  "m/s": "m/s",
+  "mps": "m/s",
+  "°c": "°C",
+  "degc": "°C",
+  "celsius": "°C",
+  "°f": "°F",
+  "degf": "°F",
+  "fahrenheit": "°F",
+  "kelvin": "K",
+  "kpa": "kPa",
+  "psi": "psi",
+  "bar": "bar",
+  "l": "L",
+  "liters": "L",
+  "litres": "L",
+  "gal": "gal",
+  "gallons": "gal",
+  "l/h": "L/h",
+  "lph": "L/h",
+  "gal/h": "gal/h",
+  "gph": "gal/h",
+  "l/100km": "L/100km",
+  "l/100 km": "L/100km",
+  "mpg": "mpg",
+  "volt": "V",
+  "volts": "V",
+  "percent": "%",
+};
+
+export type UnitPreferences = {
+  unitSystem: "metric" | "imperial" | "mixed";
+  distance: "km" | "mi";
+  speed: "km/h" | "mph";
+  temperature: "°C" | "°F";
+  pressure: "kPa" | "psi" | "bar";
+  volume: "L" | "gal";
+};
+
+export const METRIC_UNIT_PREFERENCES: UnitPreferences = {
+  unitSystem: "metric",
+  distance: "km",
+  speed: "km/h",
+  temperature: "°C",
+  pressure: "kPa",
+  volume: "L",
+};
+
+export const IMPERIAL_UNIT_PREFERENCES: UnitPreferences = {
+  unitSystem: "imperial",
+  distance: "mi",
+  speed: "mph",
+  temperature: "°F",
+  pressure: "psi",
+  volume: "gal",
+};
+
+/**
+ * Unit a quantity is shown in. Fuel rates and consumption follow the volume
+ * preference: gallon users get gal/h and MPG.
+ */
+function getPreferredUnit(quantity: Quantity, preferences: UnitPreferences) {
+  switch (quantity) {
+    case "volumeRate":
+      return preferences.volume === "gal" ? "gal/h" : "L/h";
+    case "consumption":
+      return preferences.volume === "gal" ? "mpg" : "L/100km";
+    default:
+      return preferences[quantity];
+  }
+}
+
+/**
+ * Map a unit string as sent by a client ("kmh", "C", "°c") to its canonical
+ * spelling. Unknown units (rpm, %, g/s, ...) are returned trimmed but unchanged.
+ */
+export function normalizeUnit(unit: string) {
+  const trimmed = unit.trim();
+  return UNIT_ALIASES[trimmed.toLowerCase()] ?? trimmed;
+}
+
+/**
+ * Convert a value to the canonical storage unit of its quantity
+ */
+export function toCanonicalUnit(value: number, unit: string) {
+  const normalized = normalizeUnit(unit);
+  const definition = UNIT_DEFINITIONS[normalized];
+
+  if (!definition) {
+    return { value, unit: normalized };
+  }
+
+  return { value: definition.toCanonical(value), unit: CANONICAL_UNITS[definition.quantity] };
+}
+
+/**
+ * Convert an incoming reading value to the unit of its registry PID, or null
+ * when the unit does not measure what the PID does ("volts" for a
+ * temperature). Readings sent without a unit are taken to be in the PID's unit.
+ */
+export function toRegistryUnit(value: number, unit: string, registryUnit: string) {
+  if (unit.trim() === "") {
+    return { value, unit: registryUnit };
+  }
+
+  const canonical = toCanonicalUnit(value, unit);
+
+  if (canonical.unit.toLowerCase() !== registryUnit.toLowerCase()) {
+    return null;
+  }
+
+  return { value: canonical.value, unit: registryUnit };
+}
+
+/**
+ * Convert a value stored in a canonical unit to the unit the user prefers
+ */
+export function toPreferredUnit(value: number, unit: string, preferences: UnitPreferences) {
+  const definition = UNIT_DEFINITIONS[unit];
+
+  if (!definition || CANONICAL_UNITS[definition.quantity] !== unit) {
+    return { value, unit };
+  }
+
+  const targetUnit = getPreferredUnit(definition.quantity, preferences);
+
+  return { value: UNIT_DEFINITIONS[targetUnit].fromCanonical(value), unit: targetUnit };
+}
+
+/**
+ * Convert the average of values stored in a canonical unit. A reciprocal
+ * conversion does not preserve averages: the average in the preferred unit is
+ * the converted inverse of the average of the inverse values.
+ */
+export function toPreferredAverage(average: number, inverseAverage: number | null, unit: string, preferences: UnitPreferences) {
+  const converted = toPreferredUnit(average, unit, preferences);
+  const definition = UNIT_DEFINITIONS[converted.unit];
+
+  if (!definition?.reciprocal || converted.unit === unit) {
+    return converted.value;
+  }
+
+  return inverseAverage ? definition.fromCanonical(1 / inverseAverage) : 0;
+}
+
+/**
+ * Resolve the per-quantity units for a user. Users without stored preferences
+ * get metric units.
+ */
+export async function getUnitPreferences(userId: string): Promise<UnitPreferences> {
+  const preferences = await db
+    .select()
+    .from(userPreferencesTable)
+    .where(eq(userPreferencesTable.userId, userId))
+    .then(res => res[0]);
+
+  if (!preferences || preferences.unitSystem === "metric") {
+    return METRIC_UNIT_PREFERENCES;
+  }
+
+  if (preferences.unitSystem === "imperial") {
+    return IMPERIAL_UNIT_PREFERENCES;
+  }
+
+  return {
+    unitSystem: "mixed",
+    distance: preferences.distanceUnit ?? METRIC_UNIT_PREFERENCES.distance,
+    speed: preferences.speedUnit ?? METRIC_UNIT_PREFERENCES.speed,
+    temperature: preferences.temperatureUnit ?? METRIC_UNIT_PREFERENCES.temperature,
+    pressure: preferences.pressureUnit ?? METRIC_UNIT_PREFERENCES.pressure,
+    volume: preferences.volumeUnit ?? METRIC_UNIT_PREFERENCES.volume,
+  };
+}
+
+/**
+ * Convert a distance stored in kilometres (odometers, trip lengths)
+ */
+export function convertDistance(kilometers: number, preferences: UnitPreferences) {
+  return toPreferredUnit(kilometers, CANONICAL_UNITS.distance, preferences).value;
+}
+
+/**
+ * Convert a sensor reading (value + unit) to the user's preferred unit
+ */
+export function convertReading<T extends { value: number; unit: string }>(reading: T, preferences: UnitPreferences): T {
+  const { value, unit } = toPreferredUnit(reading.value, reading.unit, preferences);
+  return { ...reading, value, unit };
+}
+
+/**
+ * Convert a stored location for display. GPS speed is stored in m/s as reported
+ * by the device and altitude in metres; both follow the user's speed and
+ * distance preference.
+ */
+export function convertLocation<T extends { speed: number | null; altitude: number | null }>(location: T, preferences: UnitPreferences) {
+  const speedKmh = location.speed != null ? UNIT_DEFINITIONS["m/s"].toCanonical(location.speed) : null;
+  const useFeet = preferences.distance === "mi";
+
+  return {
+    ...location,
+    speed: speedKmh != null ? toPreferredUnit(speedKmh, CANONICAL_UNITS.speed, preferences).value : null,
+    speedUnit: preferences.speed,
+    altitude: location.altitude != null && useFeet ? location.altitude * 3.28084 : location.altitude,
+    altitudeUnit: useFeet ? "ft" as const : "m" as const,
+  };
+}
@@ -0,0 +1,208 @@
+import type { Logger } from "pino";
+
+import { and, asc, eq, isNotNull, isNull } from "drizzle-orm";
+
+import type { DocumentExpiryNotificationData, VehicleDocumentAlert, VehicleDocumentStatus } from "../zod/z-vehicle-documents";
+
+import { db } from "../db";
+import { insertNotificationSchema, notificationsTable } from "../db/schema/notifications";
+import { vehicleDocumentsTable } from "../db/schema/vehicle-documents-schema";
+import { vehiclesTable } from "../db/schema/vehicles-schema";
+import { ATTACHMENT_EXTENSIONS } from "./maintenance-attachments";
+
+type Vehicle = Pick<typeof vehiclesTable.$inferSelect, "uuid" | "ownerId" | "make" | "model" | "year">;
+type VehicleDocument = typeof vehicleDocumentsTable.$inferSelect;
+type VehicleDocumentType = VehicleDocument["type"];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Documents without lead times are still shown as expiring this close to expiry
+const DEFAULT_EXPIRING_WITHIN_DAYS = 30;
+
+export const VEHICLE_DOCUMENT_TYPE_LABELS: Record<VehicleDocumentType, string> = {
+  rca: "RCA insurance",
+  casco: "CASCO insurance",
+  itp: "ITP inspection",
+  rovinieta: "Road vignette (rovinietă)",
+  registration: "Registration certificate",
+  other: "Document",
+};
+
+/**
+ * Expiry status of a document and the whole days left until it expires,
+ * negative once it has expired
+ */
+export function getVehicleDocumentStatus(document: Pick<VehicleDocument, "validTo" | "reminderLeadDays">, now = new Date()) {
+  if (!document.validTo) {
+    return { status: "no_expiry" as VehicleDocumentStatus, daysUntilExpiry: null };
+  }
+
+  const daysUntilExpiry = Math.ceil((document.validTo.getTime() - now.getTime()) / DAY_MS);
+  const expiringWithinDays = document.reminderLeadDays.length > 0
+    ? Math.max(...document.reminderLeadDays)
+    : DEFAULT_EXPIRING_WITHIN_DAYS;
+
+  const status: VehicleDocumentStatus = document.validTo <= now
+    ? "expired"
+    : daysUntilExpiry <= expiringWithinDays ? "expiring" : "valid";
+
+  return { status, daysUntilExpiry };
+}
+
+/**
+ * Document as returned by the API, with its status and without storage details
+ */
+export function convertVehicleDocument(document: VehicleDocument, now = new Date()) {
+  const { fileKey, fileName, fileContentType, fileSize, remindedLeadDays: _remindedLeadDays, ...rest } = document;
+
+  return {
+    ...rest,
+    ...getVehicleDocumentStatus(document, now),
+    file: fileKey && fileName && fileContentType && fileSize != null
+      ? { fileName, contentType: fileContentType, size: fileSize }
+      : null,
+  };
+}
+
+/**
+ * R2 key of the file of a document, scoped under its vehicle like maintenance attachments
+ */
+export function getVehicleDocumentFileKey(vehicleUUID: string, documentUUID: string, contentType: string) {
+  const timestamp = Date.now();
+  const randomString = Math.random().toString(36).substring(7);
+  return `vehicles/${vehicleUUID}/documents/${documentUUID}/${timestamp}-${randomString}.${ATTACHMENT_EXTENSIONS[contentType]}`;
+}
+
+export async function getVehicleDocuments(vehicleUUID: string) {
+  return db
+    .select()
+    .from(vehicleDocumentsTable)
+    .where(eq(vehicleDocumentsTable.vehicleUUID, vehicleUUID))
+    .orderBy(asc(vehicleDocumentsTable.validTo));
+}
+
+/**
+ * Remind the owner of documents that reached one of their lead times or
+ * expired. Each lead time is notified once, the most urgent one reached wins,
+ * and the expiry itself counts as lead time 0. Returns the created
+ * notifications.
+ */
+export async function checkVehicleDocumentReminders(vehicle: Vehicle, now = new Date()) {
+  const documents = await getVehicleDocuments(vehicle.uuid);
+  const notifications: (typeof notificationsTable.$inferSelect)[] = [];
+
+  for (const document of documents) {
+    if (!document.validTo) {
+      continue;
+    }
+
+    const { status, daysUntilExpiry } = getVehicleDocumentStatus(document, now);
+    const reachedLeadDays = status === "expired"
+      ? 0
+      : Math.min(...document.reminderLeadDays.filter(leadDays => daysUntilExpiry! <= leadDays));
+
+    // Nothing reached yet, or the owner was already told about something at least as urgent
+    if (!Number.isFinite(reachedLeadDays) || (document.remindedLeadDays != null && document.remindedLeadDays <= reachedLeadDays)) {
+      continue;
+    }
+
+    const label = VEHICLE_DOCUMENT_TYPE_LABELS[document.type];
+    const vehicleName = `${vehicle.year} ${vehicle.make} ${vehicle.model}`;
+    const expiryDate = document.validTo.toISOString().slice(0, 10);
+
+    const notification = await db
+      .insert(notificationsTable)
+      .values(insertNotificationSchema.parse({
+        userId: vehicle.ownerId,
+        type: "document_expiry",
+        title: status === "expired" ? `${label} expired` : `${label} expires in ${daysUntilExpiry} ${daysUntilExpiry === 1 ? "day" : "days"}`,
+        message: status === "expired"
+          ? `The ${label} of your ${vehicleName} expired on ${expiryDate}`
+          : `The ${label} of your ${vehicleName} expires on ${expiryDate}`,
+        data: JSON.stringify({
+          vehicleUUID: vehicle.uuid,
+          documentUUID: document.uuid,
+          type: document.type,
+          validTo: document.validTo.toISOString(),
+          leadDays: reachedLeadDays,
+        } satisfies DocumentExpiryNotificationData),
+      }))
+      .returning()
+      .then(res => res[0]);
+
+    await db
+      .update(vehicleDocumentsTable)
+      .set({ remindedLeadDays: reachedLeadDays })
+      .where(eq(vehicleDocumentsTable.uuid, document.uuid));
+
+    notifications.push(notification);
+  }
+
+  return notifications;
+}
+
+/**
+ * Expired and expiring documents of a vehicle, soonest expiry first, for the
+ * vehicle status on the dashboard
+ */
+export async function getVehicleDocumentAlerts(vehicleUUID: string, now = new Date()) {
+  const documents = await getVehicleDocuments(vehicleUUID);
+
+  const alerts = documents.flatMap((document) => {
+    const { status, daysUntilExpiry } = getVehicleDocumentStatus(document, now);
+
+    if (!document.validTo || daysUntilExpiry == null || (status !== "expired" && status !== "expiring")) {
+      return [];
+    }
+
+    return [{
+      status,
+      alert: {
+        uuid: document.uuid,
+        type: document.type,
+        validTo: document.validTo.toISOString(),
+        daysUntilExpiry,
+      } satisfies VehicleDocumentAlert,
+    }];
+  });
+
+  return {
+    expiredDocuments: alerts.filter(item => item.status === "expired").map(item => item.alert),
+    expiringDocuments: alerts.filter(item => item.status === "expiring").map(item => item.alert),
+  };
+}
+
+/**
+ * Check the reminders of every vehicle with an expiring document, as run by
+ * the cron trigger. A failing vehicle is logged and does not stop the others.
+ * Returns the number of created notifications.
+ */
+export async function checkAllVehicleDocumentReminders(logger: Logger, now = new Date()) {
+  const vehicles = await db
+    .selectDistinct({
+      uuid: vehiclesTable.uuid,
+      ownerId: vehiclesTable.ownerId,
+      make: vehiclesTable.make,
+      model: vehiclesTable.model,
+      year: vehiclesTable.year,
+    })
+    .from(vehiclesTable)
+    .innerJoin(vehicleDocumentsTable, eq(vehicleDocumentsTable.vehicleUUID, vehiclesTable.uuid))
+    .where(and(isNull(vehiclesTable.deletedAt), isNotNull(vehicleDocumentsTable.validTo)));
+
+  let notificationCount = 0;
+
+  for (const vehicle of vehicles) {
+    try {
+      const notifications = await checkVehicleDocumentReminders(vehicle, now);
+      notificationCount += notifications.length;
+    }
+    catch (error) {
+      logger.error({ error, vehicleUUID: vehicle.uuid }, "Failed to check document expiry reminders");
+    }
+  }
+
+  logger.info({ vehicleCount: vehicles.length, notificationCount }, "Checked document expiry reminders");
+
+  return notificationCount;
+}
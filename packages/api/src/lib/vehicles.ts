@@ -0,0 +1,23 @@
+import { and, eq, isNull } from "drizzle-orm";
+
+import { db } from "../db";
+import { vehiclesTable } from "../db/schema/vehicles-schema";
+
+/**
+ * Get a vehicle the user is allowed to access. Regular users can only access
+ * their own vehicles, admins can access every vehicle. Deleted vehicles are
+ * never returned.
+ */
+export async function getAccessibleVehicle(vehicleUUID: string, user: { id: string; role?: string | null }) {
+  return db
+    .select()
+    .from(vehiclesTable)
+    .where(
+      and(
+        eq(vehiclesTable.uuid, vehicleUUID),
+        user.role === "user" ? eq(vehiclesTable.ownerId, user.id) : undefined,
+        isNull(vehiclesTable.deletedAt),
+      ),
+    )
+    .then(res => res[0]);
+}
@@ -0,0 +1,206 @@
+import { and, asc, between, desc, eq, ilike, isNotNull, isNull, ne, or, sql } from "drizzle-orm";
+
+import type { serviceTypeEnum } from "../db/schema/maintenance-log-schema";
+import type { UnitPreferences } from "./units";
+
+import { db } from "../db";
+import { locationsTable } from "../db/schema/locations-schema";
+import { serviceWorkshopsTable, WORKSHOP_DAYS } from "../db/schema/service-workshops-schema";
+import { haversineDistance } from "./geo";
+import { convertDistance } from "./units";
+
+type Workshop = typeof serviceWorkshopsTable.$inferSelect;
+type ServiceType = (typeof serviceTypeEnum.enumValues)[number];
+
+type Coordinates = {
+  latitude: number;
+  longitude: number;
+};
+
+// Workshops with the same name this close together are the same workshop
+const DUPLICATE_RADIUS_KM = 0.2;
+
+const KM_PER_DEGREE_LATITUDE = 111.32;
+
+// Rows checked for opening hours when listing open workshops without a center
+const MAX_OPEN_NOW_CANDIDATES = 1000;
+
+/**
+ * Workshop name as compared for duplicates: case and spacing are ignored
+ */
+export function normalizeWorkshopName(name: string) {
+  return name.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+/**
+ * Workshops a user may see and pick: the shared directory and their own custom
+ * workshops. Custom workshops are typed in by name on a maintenance entry, have
+ * no location and stay private to whoever typed them.
+ */
+export function isWorkshopVisibleTo(userId: string) {
+  return or(
+    isNotNull(serviceWorkshopsTable.latitude),
+    isNull(serviceWorkshopsTable.createdBy),
+    eq(serviceWorkshopsTable.createdBy, userId),
+  );
+}
+
+/**
+ * Latitude/longitude box holding the circle around a point, used to narrow
+ * the rows before measuring exact distances
+ */
+function getBoundingBox(center: Coordinates, radiusKm: number) {
+  const latitudeDelta = radiusKm / KM_PER_DEGREE_LATITUDE;
+  const longitudeDelta = radiusKm / (KM_PER_DEGREE_LATITUDE * Math.max(Math.cos(center.latitude * Math.PI / 180), 0.01));
+
+  return and(
+    isNotNull(serviceWorkshopsTable.latitude),
+    isNotNull(serviceWorkshopsTable.longitude),
+    between(serviceWorkshopsTable.latitude, center.latitude - latitudeDelta, center.latitude + latitudeDelta),
+    between(serviceWorkshopsTable.longitude, center.longitude - longitudeDelta, center.longitude + longitudeDelta),
+  );
+}
+
+function getWorkshopDistance(workshop: Workshop, center: Coordinates) {
+  if (workshop.latitude == null || workshop.longitude == null) {
+    return null;
+  }
+
+  return haversineDistance(center, { latitude: workshop.latitude, longitude: workshop.longitude });
+}
+
+/**
+ * Whether a workshop is open at the given moment in its own time zone, null
+ * when its opening hours are not known
+ */
+export function isWorkshopOpen(workshop: Pick<Workshop, "operatingHours" | "timezone">, now = new Date()) {
+  if (!workshop.operatingHours) {
+    return null;
+  }
+
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: workshop.timezone,
+    weekday: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(now);
+
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find(item => item.type === type)?.value ?? "";
+  const day = WORKSHOP_DAYS.find(item => item === part("weekday").toLowerCase());
+  const time = `${part("hour")}:${part("minute")}`;
+
+  if (!day) {
+    return null;
+  }
+
+  return (workshop.operatingHours[day] ?? []).some(interval => interval.open <= time && time < interval.close);
+}
+
+/**
+ * Workshop as returned by the API, with its opening state and, for searches
+ * around a point, its distance in the user's preferred unit
+ */
+export function convertWorkshop(
+  workshop: Workshop,
+  preferences: UnitPreferences,
+  { distanceKm = null, now = new Date() }: { distanceKm?: number | null; now?: Date } = {},
+) {
+  const { createdBy: _createdBy, ...rest } = workshop;
+
+  return {
+    ...rest,
+    servicesOffered: workshop.servicesOffered ?? [],
+    operatingHours: workshop.operatingHours ?? null,
+    isOpenNow: isWorkshopOpen(workshop, now),
+    distance: distanceKm != null ? Math.round(convertDistance(distanceKm, preferences) * 100) / 100 : null,
+  };
+}
+
+/**
+ * Find a workshop with the same name as the given one within a short walk of
+ * its location, ignoring case and spacing
+ */
+export async function findDuplicateWorkshop(name: string, location: Coordinates, excludeUUID?: string) {
+  const candidates = await db
+    .select()
+    .from(serviceWorkshopsTable)
+    .where(
+      and(
+        getBoundingBox(location, DUPLICATE_RADIUS_KM),
+        excludeUUID ? ne(serviceWorkshopsTable.uuid, excludeUUID) : undefined,
+      ),
+    );
+
+  const normalizedName = normalizeWorkshopName(name);
+
+  return candidates.find(workshop =>
+    normalizeWorkshopName(workshop.name) === normalizedName
+    && getWorkshopDistance(workshop, location)! <= DUPLICATE_RADIUS_KM,
+  );
+}
+
+/**
+ * Last known location of a vehicle, from its most recent GPS reading
+ */
+export async function getVehicleLastLocation(vehicleUUID: string) {
+  return db
+    .select({
+      latitude: locationsTable.latitude,
+      longitude: locationsTable.longitude,
+      timestamp: locationsTable.timestamp,
+    })
+    .from(locationsTable)
+    .where(eq(locationsTable.vehicleUUID, vehicleUUID))
+    .orderBy(desc(locationsTable.timestamp))
+    .limit(1)
+    .then(res => res[0]);
+}
+
+/**
+ * Search the workshop directory. With a center, workshops within the radius
+ * are returned nearest first, otherwise every workshop is listed by name.
+ * Opening hours are evaluated in each workshop's own time zone. Custom
+ * workshops of other users are left out.
+ */
+export async function searchWorkshops({ userId, center, radiusKm, serviceType, openNow, q, limit }: {
+  userId: string;
+  center: Coordinates | null;
+  radiusKm: number;
+  serviceType?: ServiceType;
+  openNow: boolean;
+  q?: string;
+  limit: number;
+}, now = new Date()) {
+  const query = db
+    .select()
+    .from(serviceWorkshopsTable)
+    .where(
+      and(
+        isWorkshopVisibleTo(userId),
+        center ? getBoundingBox(center, radiusKm) : undefined,
+        serviceType ? sql`${serviceWorkshopsTable.servicesOffered} @> ${JSON.stringify([serviceType])}::jsonb` : undefined,
+        q ? ilike(serviceWorkshopsTable.name, `%${q}%`) : undefined,
+        // Workshops without opening hours are never known to be open
+        openNow ? isNotNull(serviceWorkshopsTable.operatingHours) : undefined,
+      ),
+    )
+    .orderBy(asc(serviceWorkshopsTable.name))
+    .$dynamic();
+
+  // Distance and opening hours are checked here, so the limit can only go to the database without them.
+  // Open workshops without a center are over-fetched up to a hard cap instead of loading the whole directory
+  const workshops = center
+    ? await query
+    : await query.limit(openNow ? MAX_OPEN_NOW_CANDIDATES : limit);
+
+  return workshops
+    .map(workshop => ({
+      workshop,
+      distanceKm: center ? getWorkshopDistance(workshop, center) : null,
+    }))
+    .filter(item => !center || (item.distanceKm != null && item.distanceKm <= radiusKm))
+    .filter(item => !openNow || isWorkshopOpen(item.workshop, now) === true)
+    .sort((a, b) => (a.distanceKm ?? 0) - (b.distanceKm ?? 0))
+    .slice(0, limit);
+}
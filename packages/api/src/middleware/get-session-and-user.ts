@@ -10,6 +10,11 @@ type Env = {
 };
 
 export const getSessionAndUser = createMiddleware<Env>(async (c, next) => {
+  // Already resolved by the parent router of a nested route
+  if (c.get("session") !== undefined) {
+    return next();
+  }
+
   const session = await auth.api.getSession({ headers: c.req.raw.headers });
   if (!session) {
     c.set("user", null);
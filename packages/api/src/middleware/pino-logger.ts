@@ -4,12 +4,14 @@ import pretty from "pino-pretty";
 
 import env from "../../env";
 
-export function pinoLogger() {
-  const logger = pino({
+export function createLogger() {
+  return pino({
     level: env.LOG_LEVEL || "info",
   }, env.NODE_ENV === "production" ? undefined : pretty());
+}
 
+export function pinoLogger() {
   return honoLogger({
-    pino: logger,
+    pino: createLogger(),
   });
 }
@@ -0,0 +1,392 @@
+import { and, desc, eq } from "drizzle-orm";
+import { Hono } from "hono";
+import { describeRoute } from "hono-openapi";
+import { resolver, validator as zValidator } from "hono-openapi/zod";
+import { z } from "zod";
+
+import type { AppBindings } from "../lib/types";
+
+import { db } from "../db";
+import { alertEventsTable, alertRulesTable, insertAlertRuleSchema } from "../db/schema/alert-rules-schema";
+import { convertAlertEvent, convertAlertRule, resolveAlertThreshold } from "../lib/alert-rules";
+import { getUnitPreferences } from "../lib/units";
+import { getAccessibleVehicle } from "../lib/vehicles";
+import { getSessionAndUser } from "../middleware/get-session-and-user";
+import {
+  zAlertEventsListResponseSchema,
+  zAlertEventsQuerySchema,
+  zAlertRuleCreateSchema,
+  zAlertRuleSchema,
+  zAlertRulesListResponseSchema,
+  zAlertRuleUpdateSchema,
+} from "../zod/z-alert-rules";
+import { badRequestResponseObject, notFoundResponseObject, unauthorizedResponseObject } from "../zod/z-api-responses";
+
+// Mounted under /vehicles/:vehicleUUID/alert-rules
+export const alertRulesRoute = new Hono<AppBindings>()
+  .use(getSessionAndUser)
+  .get("/", describeRoute({
+    tags: ["Alert Rules"],
+    summary: "List alert rules of a vehicle",
+    description: "List the sensor alert rules of a vehicle. Thresholds are expressed in the user's preferred units.",
+    responses: {
+      200: {
+        description: "OK",
+        content: {
+          "application/json": {
+            schema: resolver(zAlertRulesListResponseSchema),
+          },
+        },
+      },
+      401: unauthorizedResponseObject,
+      404: notFoundResponseObject,
+    },
+  }), zValidator("param", z.object({
+    vehicleUUID: z.string().uuid(),
+  })), async (c) => {
+    const user = c.get("user");
+    const logger = c.get("logger");
+
+    if (!user) {
+      logger.warn("Unauthorized access attempt - alert rules");
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+
+    const { vehicleUUID } = c.req.valid("param");
+
+    const vehicle = await getAccessibleVehicle(vehicleUUID, user);
+
+    if (!vehicle) {
+      logger.warn({ userId: user.id, vehicleUUID }, "Vehicle not found or not owned");
+      return c.json({ error: "Vehicle not found" }, 404);
+    }
+
+    const rules = await db
+      .select()
+      .from(alertRulesTable)
+      .where(eq(alertRulesTable.vehicleUUID, vehicle.uuid))
+      .orderBy(desc(alertRulesTable.createdAt));
+
+    const preferences = await getUnitPreferences(user.id);
+
+    return c.json(rules.map(rule => convertAlertRule(rule, preferences)));
+  })
+  .post("/", describeRoute({
+    tags: ["Alert Rules"],
+    summary: "Create an alert rule",
+    description: "Create a sensor alert rule for a vehicle, e.g. coolant temperature (PID 05) above 105 °C for 30 seconds. The rule is evaluated whenever readings are stored for one of the vehicle's diagnostics.",
+    responses: {
+      201: {
+        description: "Created",
+        content: {
+          "application/json": {
+            schema: resolver(zAlertRuleSchema),
+          },
+        },
+      },
+      400: badRequestResponseObject,
+      401: unauthorizedResponseObject,
+      404: notFoundResponseObject,
+    },
+  }), zValidator("param", z.object({
+    vehicleUUID: z.string().uuid(),
+  })), zValidator("json", zAlertRuleCreateSchema), async (c) => {
+    const user = c.get("user");
+    const logger = c.get("logger");
+
+    if (!user) {
+      logger.warn("Unauthorized alert rule creation attempt");
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+
+    const { vehicleUUID } = c.req.valid("param");
+    const data = c.req.valid("json");
+
+    const vehicle = await getAccessibleVehicle(vehicleUUID, user);
+
+    if (!vehicle) {
+      logger.warn({ userId: user.id, vehicleUUID }, "Vehicle not found or not owned");
+      return c.json({ error: "Vehicle not found" }, 404);
+    }
+
+    const preferences = await getUnitPreferences(user.id);
+    const resolved = await resolveAlertThreshold(data, preferences);
+
+    if ("error" in resolved) {
+      return c.json({ error: resolved.error }, 400);
+    }
+
+    const rule = await db
+      .insert(alertRulesTable)
+      .values(insertAlertRuleSchema.parse({
+        ...data,
+        ...resolved,
+        vehicleUUID: vehicle.uuid,
+      }))
+      .returning()
+      .then(res => res[0]);
+
+    logger.info({ alertRuleUUID: rule.uuid, vehicleUUID, pid: rule.pid }, "Alert rule created");
+
+    c.status(201);
+    return c.json(convertAlertRule(rule, preferences));
+  })
+  .get("/events", describeRoute({
+    tags: ["Alert Rules"],
+    summary: "Get fired alerts of a vehicle",
+    description: "Get the history of fired alerts for a vehicle, most recent first. Values and thresholds are expressed in the user's preferred units.",
+    responses: {
+      200: {
+        description: "OK",
+        content: {
+          "application/json": {
+            schema: resolver(zAlertEventsListResponseSchema),
+          },
+        },
+      },
+      401: unauthorizedResponseObject,
+      404: notFoundResponseObject,
+    },
+  }), zValidator("param", z.object({
+    vehicleUUID: z.string().uuid(),
+  })), zValidator("query", zAlertEventsQuerySchema), async (c) => {
+    const user = c.get("user");
+    const logger = c.get("logger");
+
+    if (!user) {
+      logger.warn("Unauthorized access attempt - alert history");
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+
+    const { vehicleUUID } = c.req.valid("param");
+    const { alertRuleUUID, limit } = c.req.valid("query");
+
+    const vehicle = await getAccessibleVehicle(vehicleUUID, user);
+
+    if (!vehicle) {
+      logger.warn({ userId: user.id, vehicleUUID }, "Vehicle not found or not owned");
+      return c.json({ error: "Vehicle not found" }, 404);
+    }
+
+    const events = await db
+      .select({
+        event: alertEventsTable,
+        ruleName: alertRulesTable.name,
+        operator: alertRulesTable.operator,
+      })
+      .from(alertEventsTable)
+      .innerJoin(alertRulesTable, eq(alertEventsTable.alertRuleUUID, alertRulesTable.uuid))
+      .where(
+        and(
+          eq(alertEventsTable.vehicleUUID, vehicle.uuid),
+          alertRuleUUID ? eq(alertEventsTable.alertRuleUUID, alertRuleUUID) : undefined,
+        ),
+      )
+      .orderBy(desc(alertEventsTable.firedAt))
+      .limit(limit);
+
+    const preferences = await getUnitPreferences(user.id);
+
+    return c.json(events.map(({ event, ruleName, operator }) => ({
+      ...convertAlertEvent(event, preferences),
+      ruleName,
+      operator,
+    })));
+  })
+  .get("/:alertRuleUUID", describeRoute({
+    tags: ["Alert Rules"],
+    summary: "Get an alert rule",
+    description: "Get a single alert rule of a vehicle. The threshold is expressed in the user's preferred unit.",
+    responses: {
+      200: {
+        description: "OK",
+        content: {
+          "application/json": {
+            schema: resolver(zAlertRuleSchema),
+          },
+        },
+      },
+      401: unauthorizedResponseObject,
+      404: notFoundResponseObject,
+    },
+  }), zValidator("param", z.object({
+    vehicleUUID: z.string().uuid(),
+    alertRuleUUID: z.string().uuid(),
+  })), async (c) => {
+    const user = c.get("user");
+    const logger = c.get("logger");
+
+    if (!user) {
+      logger.warn("Unauthorized access attempt - alert rule");
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+
+    const { vehicleUUID, alertRuleUUID } = c.req.valid("param");
+
+    const vehicle = await getAccessibleVehicle(vehicleUUID, user);
+
+    if (!vehicle) {
+      logger.warn({ userId: user.id, vehicleUUID }, "Vehicle not found or not owned");
+      return c.json({ error: "Vehicle not found" }, 404);
+    }
+
+    const rule = await db
+      .select()
+      .from(alertRulesTable)
+      .where(
+        and(
+          eq(alertRulesTable.uuid, alertRuleUUID),
+          eq(alertRulesTable.vehicleUUID, vehicle.uuid),
+        ),
+      )
+      .then(res => res[0]);
+
+    if (!rule) {
+      return c.json({ error: "Alert rule not found" }, 404);
+    }
+
+    const preferences = await getUnitPreferences(user.id);
+
+    return c.json(convertAlertRule(rule, preferences));
+  })
+  .patch("/:alertRuleUUID", describeRoute({
+    tags: ["Alert Rules"],
+    summary: "Update an alert rule",
+    description: "Update an alert rule of a vehicle. A new threshold without a unit is read in the user's preferred unit.",
+    responses: {
+      200: {
+        description: "OK",
+        content: {
+          "application/json": {
+            schema: resolver(zAlertRuleSchema),
+          },
+        },
+      },
+      400: badRequestResponseObject,
+      401: unauthorizedResponseObject,
+      404: notFoundResponseObject,
+    },
+  }), zValidator("param", z.object({
+    vehicleUUID: z.string().uuid(),
+    alertRuleUUID: z.string().uuid(),
+  })), zValidator("json", zAlertRuleUpdateSchema), async (c) => {
+    const user = c.get("user");
+    const logger = c.get("logger");
+
+    if (!user) {
+      logger.warn("Unauthorized alert rule update attempt");
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+
+    const { vehicleUUID, alertRuleUUID } = c.req.valid("param");
+    const data = c.req.valid("json");
+
+    const vehicle = await getAccessibleVehicle(vehicleUUID, user);
+
+    if (!vehicle) {
+      logger.warn({ userId: user.id, vehicleUUID }, "Vehicle not found or not owned");
+      return c.json({ error: "Vehicle not found" }, 404);
+    }
+
+    const rule = await db
+      .select()
+      .from(alertRulesTable)
+      .where(
+        and(
+          eq(alertRulesTable.uuid, alertRuleUUID),
+          eq(alertRulesTable.vehicleUUID, vehicle.uuid),
+        ),
+      )
+      .then(res => res[0]);
+
+    if (!rule) {
+      return c.json({ error: "Alert rule not found" }, 404);
+    }
+
+    const preferences = await getUnitPreferences(user.id);
+    const { pid, threshold, unit, ...rest } = data;
+
+    // Re-resolve the condition when the PID or threshold changes
+    let condition = {};
+    if (pid !== undefined || threshold !== undefined || unit !== undefined) {
+      const current = convertAlertRule(rule, preferences);
+      const resolved = await resolveAlertThreshold({
+        pid: pid ?? rule.pid,
+        threshold: threshold ?? current.threshold,
+        unit: threshold !== undefined ? unit : current.unit,
+      }, preferences);
+
+      if ("error" in resolved) {
+        return c.json({ error: resolved.error }, 400);
+      }
+
+      condition = resolved;
+    }
+
+    const updatedRule = await db
+      .update(alertRulesTable)
+      .set({ ...rest, ...condition })
+      .where(eq(alertRulesTable.uuid, rule.uuid))
+      .returning()
+      .then(res => res[0]);
+
+    logger.info({ alertRuleUUID, vehicleUUID }, "Alert rule updated");
+
+    return c.json(convertAlertRule(updatedRule, preferences));
+  })
+  .delete("/:alertRuleUUID", describeRoute({
+    tags: ["Alert Rules"],
+    summary: "Delete an alert rule",
+    description: "Delete an alert rule of a vehicle together with its fired alert history",
+    responses: {
+      200: {
+        description: "OK",
+        content: {
+          "application/json": {
+            schema: resolver(z.object({ message: z.string() })),
+          },
+        },
+      },
+      401: unauthorizedResponseObject,
+      404: notFoundResponseObject,
+    },
+  }), zValidator("param", z.object({
+    vehicleUUID: z.string().uuid(),
+    alertRuleUUID: z.string().uuid(),
+  })), async (c) => {
+    const user = c.get("user");
+    const logger = c.get("logger");
+
+    if (!user) {
+      logger.warn("Unauthorized alert rule deletion attempt");
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+
+    const { vehicleUUID, alertRuleUUID } = c.req.valid("param");
+
+    const vehicle = await getAccessibleVehicle(vehicleUUID, user);
+
+    if (!vehicle) {
+      logger.warn({ userId: user.id, vehicleUUID }, "Vehicle not found or not owned");
+      return c.json({ error: "Vehicle not found" }, 404);
+    }
+
+    const deletedRule = await db
+      .delete(alertRulesTable)
+      .where(
+        and(
+          eq(alertRulesTable.uuid, alertRuleUUID),
+          eq(alertRulesTable.vehicleUUID, vehicle.uuid),
+        ),
+      )
+      .returning()
+      .then(res => res[0]);
+
+    if (!deletedRule) {
+      return c.json({ error: "Alert rule not found" }, 404);
+    }
+
+    logger.info({ alertRuleUUID, vehicleUUID }, "Alert rule deleted");
+
+    return c.json({ message: "Alert rule deleted successfully" });
+  });
@@ -12,9 +12,15 @@ import { db } from "../db";
 import { diagnosticsDTCTable } from "../db/schema/diagnostics-dtc-schema";
 import { diagnosticsTable } from "../db/schema/diagnostics-schema";
 import { DTCLibraryTable } from "../db/schema/dtc-library-schema";
+import { fuelLogsTable } from "../db/schema/fuel-logs-schema";
 import { maintenanceLogTable } from "../db/schema/maintenance-log-schema";
 import { notificationsTable } from "../db/schema/notifications";
+import { sensorAnomaliesTable } from "../db/schema/sensor-anomalies-schema";
 import { vehiclesTable } from "../db/schema/vehicles-schema";
+import { createPidResolver, getPidRegistry } from "../lib/pid-registry";
+import { convertSensorAnomaly, describeSensorAnomaly } from "../lib/sensor-anomalies";
+import { convertDistance, getUnitPreferences } from "../lib/units";
+import { checkVehicleDocumentReminders, getVehicleDocumentAlerts } from "../lib/vehicle-documents";
 import { getSessionAndUser } from "../middleware/get-session-and-user";
 import { zDashboardOverviewSchema } from "../zod/z-dashboard";
 
@@ -25,7 +31,7 @@ export const dashboardRoute = new Hono<AppBindings>()
     describeRoute({
       tags: ["Dashboard"],
       summary: "Get dashboard overview for a vehicle",
-      description: "Get comprehensive dashboard data including vehicle status, stats, recent activity, and health trends",
+      description: "Get comprehensive dashboard data including vehicle status (with expired and expiring documents), stats (with maintenance and fuel spend year to date), recent activity (diagnostics, maintenance and sensor anomalies), and health trends. Distances are expressed in the user's preferred unit.",
       responses: {
         200: {
           description: "OK",
@@ -71,6 +77,8 @@ export const dashboardRoute = new Hono<AppBindings>()
         return c.json({ error: "Vehicle not found" }, 404);
       }
 
+      const preferences = await getUnitPreferences(user.id);
+
       // Get date ranges
       const now = new Date();
       const thirtyDaysAgo = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
@@ -106,6 +114,16 @@ export const dashboardRoute = new Hono<AppBindings>()
           .then(res => res[0]?.count || 0)
         : 0;
 
+      // Document expiry reminders are raised whenever the dashboard is opened
+      try {
+        await checkVehicleDocumentReminders(vehicle, now);
+      }
+      catch (error) {
+        logger.error({ error, vehicleUUID }, "Failed to check document expiry reminders");
+      }
+
+      const { expiredDocuments, expiringDocuments } = await getVehicleDocumentAlerts(vehicleUUID, now);
+
       // Vehicle Status
       const vehicleStatus = {
         vehicleUUID: vehicle.uuid,
@@ -113,11 +131,13 @@ export const dashboardRoute = new Hono<AppBindings>()
         model: vehicle.model,
         year: vehicle.year,
         vin: vehicle.vin,
-        latestOdometer: latestDiagnostic?.odometer || null,
+        latestOdometer: latestDiagnostic?.odometer ? Math.round(convertDistance(latestDiagnostic.odometer, preferences)) : null,
         lastDiagnosticDate: latestDiagnostic?.createdAt.toISOString() || null,
         daysSinceLastDiagnostic,
         activeDTCsCount,
         totalDiagnosticsCount,
+        expiredDocuments,
+        expiringDocuments,
       };
 
       // Quick Stats
@@ -146,12 +166,26 @@ export const dashboardRoute = new Hono<AppBindings>()
         )
         .then(res => res[0]?.totalCost || 0);
 
+      const fuelCostYTD = await db
+        .select({
+          totalCost: sql<number>`COALESCE(SUM(${fuelLogsTable.totalCost}), 0)`,
+        })
+        .from(fuelLogsTable)
+        .where(
+          and(
+            eq(fuelLogsTable.vehicleUUID, vehicleUUID),
+            gte(fuelLogsTable.filledAt, yearStart),
+          ),
+        )
+        .then(res => res[0]?.totalCost || 0);
+
       const quickStats = {
         totalDiagnostics: totalDiagnosticsCount,
         totalMaintenance: maintenanceCount,
         totalNotifications: notificationsCount,
         activeDTCs: activeDTCsCount,
         maintenanceCostYTD,
+        fuelCostYTD,
         averageDiagnosticInterval: null, // Will calculate later if needed
       };
 
@@ -180,12 +214,21 @@ export const dashboardRoute = new Hono<AppBindings>()
         .orderBy(desc(maintenanceLogTable.serviceDate))
         .limit(5);
 
+      const recentAnomalies = await db
+        .select()
+        .from(sensorAnomaliesTable)
+        .where(eq(sensorAnomaliesTable.vehicleUUID, vehicleUUID))
+        .orderBy(desc(sensorAnomaliesTable.detectedAt))
+        .limit(5);
+
+      const resolvePid = createPidResolver(await getPidRegistry());
+
       const recentActivity = [
         ...recentDiagnostics.map(d => ({
           type: "diagnostic" as const,
           id: d.id,
           title: "Diagnostic Session",
-          description: d.notes || `Odometer: ${d.odometer}`,
+          description: d.notes || `Odometer: ${Math.round(convertDistance(d.odometer, preferences))} ${preferences.distance}`,
           date: d.date.toISOString(),
           severity: "medium" as const,
         })),
@@ -197,6 +240,14 @@ export const dashboardRoute = new Hono<AppBindings>()
           date: m.date.toISOString(),
           severity: "low" as const,
         })),
+        ...recentAnomalies.map(a => ({
+          type: "anomaly" as const,
+          id: a.uuid,
+          title: "Sensor Anomaly",
+          description: describeSensorAnomaly(convertSensorAnomaly(a, preferences), resolvePid(a.pid)?.name ?? `PID ${a.pid}`),
+          date: a.detectedAt.toISOString(),
+          severity: a.severity === "critical" ? "high" as const : "medium" as const,
+        })),
       ]
         .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
         .slice(0, 10);
@@ -354,7 +405,7 @@ export const dashboardRoute = new Hono<AppBindings>()
           // Maintenance cost for the day
           maintenanceCost: maintenanceData?.totalCost || 0,
           // Cumulative odometer reading
-          odometerReading: odometerData?.odometer || 0,
+          odometerReading: Math.round(convertDistance(odometerData?.odometer || 0, preferences)),
           // Daily mileage (difference from previous day)
           dailyMileage: 0, // Will be calculated below
         };
@@ -374,6 +425,7 @@ export const dashboardRoute = new Hono<AppBindings>()
         quickStats,
         recentActivity,
         healthTrends: healthTrendsFormatted,
+        units: preferences,
       });
     },
   );
@@ -1,4 +1,4 @@
-import { and, eq, inArray } from "drizzle-orm";
+import { and, asc, eq, inArray } from "drizzle-orm";
 import { Hono } from "hono";
 import { describeRoute } from "hono-openapi";
 import { resolver, validator as zValidator } from "hono-openapi/zod";
@@ -7,21 +7,32 @@ import { z } from "zod";
 import type { AppBindings } from "../lib/types";
 
 import { db } from "../db";
-import { diagnosticsDTCTable, insertDiagnosticDTCInstanceSchema, selectDiagnosticDTCInstanceSchema } from "../db/schema/diagnostics-dtc-schema";
+import { diagnosticsDTCTable, insertDiagnosticDTCInstanceSchema } from "../db/schema/diagnostics-dtc-schema";
 import { diagnosticsTable, insertDiagnosticSchema, selectDiagnosticSchema } from "../db/schema/diagnostics-schema";
+import { dtcFreezeFrameReadingsTable, insertDTCFreezeFrameReadingSchema } from "../db/schema/dtc-freeze-frames-schema";
 import { insertSensorReadingSchema, selectSensorReadingSchema, sensorReadingsTable } from "../db/schema/sensor-readings-schema";
 import { insertSensorSnapshotSchema, selectSensorSnapshotSchema, sensorSnapshotsTable, sensorSourceEnum } from "../db/schema/sensor-snapshots-schema";
 import { vehiclesTable } from "../db/schema/vehicles-schema";
+import { evaluateAlertRules } from "../lib/alert-rules";
+import { ensureDTCLibraryEntries } from "../lib/dtc-codes";
+import { getCurrentDTCLibraryVersion } from "../lib/dtc-library";
+import { convertSessionFuelConsumption, deriveFuelReadings, getFuelKind, getSessionFuelConsumption } from "../lib/fuel-consumption";
+import { checkMaintenanceReminders } from "../lib/maintenance-schedules";
+import { normalizeReadingPids } from "../lib/pid-registry";
+import { detectSensorAnomalies } from "../lib/sensor-anomalies";
+import { detectVehicleTrips, isEngineOffReading } from "../lib/trips";
+import { convertDistance, convertReading, getUnitPreferences, toCanonicalUnit } from "../lib/units";
 import { getSessionAndUser } from "../middleware/get-session-and-user";
-import { notFoundResponseObject, unauthorizedResponseObject } from "../zod/z-api-responses";
-import { zBulkDTCsResponseSchema, zDiagnosticInsertSchema, zDiagnosticsListResponseSchema } from "../zod/z-diagnostics";
+import { badRequestResponseObject, notFoundResponseObject, unauthorizedResponseObject } from "../zod/z-api-responses";
+import { zBulkDTCsInsertSchema, zBulkDTCsResponseSchema, zDiagnosticDTCsListResponseSchema, zDiagnosticInsertSchema, zDiagnosticsListResponseSchema } from "../zod/z-diagnostics";
+import { zDerivedSensorReadingSchema, zFuelConsumptionSummarySchema } from "../zod/z-sensors";
 
 export const diagnosticsRoute = new Hono<AppBindings>()
   .use(getSessionAndUser)
   .get("/", describeRoute({
     tags: ["Diagnostics"],
     summary: "Get all diagnostics",
-    description: "Get all diagnostics for the user",
+    description: "Get all diagnostics for the user, odometers in the user's preferred distance unit",
     responses: {
       200: {
         description: "OK",
@@ -68,12 +79,17 @@ export const diagnosticsRoute = new Hono<AppBindings>()
       logger.debug({ count: diagnostics.length }, "Diagnostics found");
     }
 
-    return c.json(diagnostics);
+    const preferences = await getUnitPreferences(user.id);
+
+    return c.json(diagnostics.map(diagnostic => ({
+      ...diagnostic,
+      odometer: Math.round(convertDistance(diagnostic.odometer, preferences)),
+    })));
   })
   .post("/", describeRoute({
     tags: ["Diagnostics"],
     summary: "Create a diagnostic",
-    description: "Create a diagnostic for a vehicle",
+    description: "Create a diagnostic for a vehicle. The odometer may be given in kilometres or miles (odometerUnit) and is stored in kilometres.",
     responses: {
       201: {
         description: "Created",
@@ -94,26 +110,49 @@ export const diagnosticsRoute = new Hono<AppBindings>()
       return c.json({ error: "Unauthorized" }, 401);
     }
 
-    const diagnostic = c.req.valid("json");
+    const { odometerUnit, ...diagnostic } = c.req.valid("json");
 
-    logger.debug({ diagnostic }, "Creating diagnostic");
+    logger.debug({ diagnostic, odometerUnit }, "Creating diagnostic");
 
     const validatedDiagnostic = insertDiagnosticSchema.parse({
       ...diagnostic,
+      // Odometers are stored in kilometres
+      odometer: Math.round(toCanonicalUnit(diagnostic.odometer, odometerUnit).value),
     });
 
     const newDiagnostic = await db.insert(diagnosticsTable).values(validatedDiagnostic).returning().then(res => res[0]);
 
-    c.status(201);
-
     logger.debug({ uuid: newDiagnostic.uuid, vehicleUUID: newDiagnostic.vehicleUUID }, "Diagnostic created");
 
-    return c.json(newDiagnostic);
+    // The diagnostic's odometer can bring scheduled maintenance due
+    try {
+      const vehicle = await db
+        .select()
+        .from(vehiclesTable)
+        .where(eq(vehiclesTable.uuid, newDiagnostic.vehicleUUID))
+        .then(res => res[0]);
+
+      if (vehicle) {
+        await checkMaintenanceReminders(vehicle);
+      }
+    }
+    catch (error) {
+      logger.error({ error, diagnosticUUID: newDiagnostic.uuid }, "Failed to check maintenance reminders");
+    }
+
+    const preferences = await getUnitPreferences(user.id);
+
+    c.status(201);
+
+    return c.json({
+      ...newDiagnostic,
+      odometer: Math.round(convertDistance(newDiagnostic.odometer, preferences)),
+    });
   })
   .get("/:diagnosticUUID", describeRoute({
     tags: ["Diagnostics"],
     summary: "Get a diagnostic by UUID",
-    description: "Get a diagnostic by UUID",
+    description: "Get a diagnostic by UUID, its odometer in the user's preferred distance unit",
     responses: {
       200: {
         description: "OK",
@@ -165,12 +204,17 @@ export const diagnosticsRoute = new Hono<AppBindings>()
       return c.json({ error: "Diagnostic not found" }, 404);
     }
 
-    return c.json(diagnostic);
+    const preferences = await getUnitPreferences(user.id);
+
+    return c.json({
+      ...diagnostic,
+      odometer: Math.round(convertDistance(diagnostic.odometer, preferences)),
+    });
   })
   .post("/:diagnosticUUID/dtcs", describeRoute({
     tags: ["Diagnostics"],
     summary: "Create multiple DTCs in bulk",
-    description: "Create multiple DTCs for a diagnostic in a single request",
+    description: "Create multiple DTCs for a diagnostic in a single request. Each DTC may include the freeze-frame PID values captured when it was stored; PIDs are normalized against the PID registry and values stored in canonical units. Freeze-frame readings for unknown PIDs, or in a unit that does not fit their PID, are skipped and listed in unresolvedPids. Any valid SAE J2012 code is accepted: codes missing from the DTC library get a placeholder entry flagged for admin review, listed in placeholderCodes. Each DTC records the library version it was interpreted under. The session is marked as having read the stored DTCs, so an empty list records a scan that found no codes.",
     responses: {
       201: {
         description: "Created",
@@ -180,15 +224,13 @@ export const diagnosticsRoute = new Hono<AppBindings>()
           },
         },
       },
+      400: badRequestResponseObject,
       401: unauthorizedResponseObject,
       404: notFoundResponseObject,
     },
   }), zValidator("param", z.object({
     diagnosticUUID: z.string().uuid(),
-  })), zValidator("json", z.array(z.object({
-    code: z.string(),
-    confirmed: z.boolean().optional(),
-  }))), async (c) => {
+  })), zValidator("json", zBulkDTCsInsertSchema), async (c) => {
     const user = c.get("user");
     const logger = c.get("logger");
 
@@ -233,42 +275,86 @@ export const diagnosticsRoute = new Hono<AppBindings>()
       }
     }
 
+    // Codes missing from the library would violate the foreign key, give them a placeholder entry
+    const placeholderCodes = await ensureDTCLibraryEntries(dtcs.map(dtc => dtc.code));
+
+    if (placeholderCodes.length > 0) {
+      logger.info({ diagnosticUUID, placeholderCodes }, "Placeholder library entries created for unknown DTCs");
+    }
+
+    const libraryVersion = await getCurrentDTCLibraryVersion();
+
     // Prepare the DTCs for insertion
     const dtcsToInsert = dtcs.map(dtc => ({
       diagnosticUUID: diagnostic.uuid,
       code: dtc.code,
-      confirmed: dtc.confirmed ?? false,
+      libraryVersion,
+      // Older clients only send the confirmed flag
+      confirmed: dtc.confirmed ?? (dtc.status !== undefined && dtc.status !== "pending"),
+      status: dtc.status ?? (dtc.confirmed ? "confirmed" : "pending"),
     }));
 
     // Validate all DTCs
     const validatedDTCs = dtcsToInsert.map(dtc => insertDiagnosticDTCInstanceSchema.parse(dtc));
 
-    // Insert all DTCs
-    const newDTCs = await db.insert(diagnosticsDTCTable).values(validatedDTCs).returning();
+    // The session now counts as a DTC read, an empty list being a scan that found no codes
+    const markScanned = db
+      .update(diagnosticsTable)
+      .set({ dtcScannedAt: new Date() })
+      .where(eq(diagnosticsTable.uuid, diagnostic.uuid));
+
+    const newDTCs = validatedDTCs.length > 0
+      ? await db.batch([markScanned, db.insert(diagnosticsDTCTable).values(validatedDTCs).returning()]).then(([, dtcs]) => dtcs)
+      : await markScanned.then(() => []);
+
+    // Link each freeze-frame to the DTC instance it was sent with
+    const freezeFrameReadings = dtcs.flatMap((dtc, index) =>
+      (dtc.freezeFrame ?? []).map(reading => ({ ...reading, diagnosticDTCUUID: newDTCs[index].uuid })),
+    );
+
+    const { resolved, unresolved } = await normalizeReadingPids(freezeFrameReadings);
+    const unresolvedPids = [...new Set(unresolved.map(reading => reading.pid))];
+
+    if (unresolvedPids.length > 0) {
+      logger.warn({ diagnosticUUID, unresolvedPids }, "Freeze-frame readings with unknown PIDs or units skipped");
+    }
+
+    const insertedFreezeFrameReadings = resolved.length > 0
+      ? await db
+        .insert(dtcFreezeFrameReadingsTable)
+        .values(resolved.map(reading => insertDTCFreezeFrameReadingSchema.parse(reading)))
+        .returning()
+      : [];
 
     c.status(201);
 
     logger.debug({
       diagnosticUUID: diagnostic.uuid,
       dtcCount: newDTCs.length,
+      freezeFrameReadingCount: insertedFreezeFrameReadings.length,
     }, "DTCs bulk created");
 
     return c.json({
       message: "DTCs created successfully",
       count: newDTCs.length,
-      dtcs: newDTCs,
+      dtcs: newDTCs.map(dtc => ({
+        ...dtc,
+        freezeFrame: insertedFreezeFrameReadings.filter(reading => reading.diagnosticDTCUUID === dtc.uuid),
+      })),
+      unresolvedPids,
+      placeholderCodes,
     });
   })
   .get("/:diagnosticUUID/dtcs", describeRoute({
     tags: ["Diagnostics"],
     summary: "Get all DTCs for a diagnostic",
-    description: "Get all DTCs for a diagnostic",
+    description: "Get all DTCs for a diagnostic with their freeze-frame readings. Freeze-frame values and units follow the user's unit preferences. If user role is 'user', they can only access diagnostics of their own vehicles.",
     responses: {
       200: {
         description: "OK",
         content: {
           "application/json": {
-            schema: resolver(z.array(selectDiagnosticDTCInstanceSchema)),
+            schema: resolver(zDiagnosticDTCsListResponseSchema),
           },
         },
       },
@@ -290,18 +376,63 @@ export const diagnosticsRoute = new Hono<AppBindings>()
 
     logger.debug({ diagnosticUUID }, "Fetching diagnostic DTCs");
 
+    const diagnostic = await db
+      .select()
+      .from(diagnosticsTable)
+      .where(eq(diagnosticsTable.uuid, diagnosticUUID))
+      .then(res => res[0]);
+
+    if (!diagnostic) {
+      logger.warn("Diagnostic not found for DTC listing");
+      return c.json({ error: "Diagnostic not found" }, 404);
+    }
+
+    // If user role is 'user', verify they own the vehicle
+    if (user.role === "user") {
+      const vehicle = await db
+        .select()
+        .from(vehiclesTable)
+        .where(
+          and(
+            eq(vehiclesTable.uuid, diagnostic.vehicleUUID),
+            eq(vehiclesTable.ownerId, user.id),
+          ),
+        )
+        .then(res => res[0]);
+
+      if (!vehicle) {
+        logger.warn("User not authorized to view the DTCs of this diagnostic");
+        return c.json({ error: "Unauthorized to access this diagnostic" }, 401);
+      }
+    }
+
     const dtcs = await db
       .select()
       .from(diagnosticsDTCTable)
       .where(eq(diagnosticsDTCTable.diagnosticUUID, diagnosticUUID))
       .orderBy(diagnosticsDTCTable.createdAt);
 
-    return c.json(dtcs);
+    const freezeFrameReadings = dtcs.length > 0
+      ? await db
+        .select()
+        .from(dtcFreezeFrameReadingsTable)
+        .where(inArray(dtcFreezeFrameReadingsTable.diagnosticDTCUUID, dtcs.map(dtc => dtc.uuid)))
+        .orderBy(asc(dtcFreezeFrameReadingsTable.pid))
+      : [];
+
+    const preferences = await getUnitPreferences(user.id);
+
+    return c.json(dtcs.map(dtc => ({
+      ...dtc,
+      freezeFrame: freezeFrameReadings
+        .filter(reading => reading.diagnosticDTCUUID === dtc.uuid)
+        .map(reading => convertReading(reading, preferences)),
+    })));
   })
   .post("/:diagnosticUUID/snapshots", describeRoute({
     tags: ["Diagnostics"],
     summary: "Create a sensor snapshot with readings",
-    description: "Create a sensor snapshot and its readings for a specific diagnostic",
+    description: "Create a sensor snapshot and its readings for a specific diagnostic. PIDs are normalized against the PID registry (e.g. \"rpm\" becomes \"0C\"); readings for PIDs that cannot be resolved, or in a unit that does not fit their PID (\"V\" for a temperature), are skipped and listed in unresolvedPids. The stored readings are evaluated against the vehicle's alert rules and scored against the vehicle's own history; anomalous readings are recorded as sensor anomalies.",
     responses: {
       201: {
         description: "Created",
@@ -310,10 +441,12 @@ export const diagnosticsRoute = new Hono<AppBindings>()
             schema: resolver(z.object({
               snapshot: selectSensorSnapshotSchema,
               readings: z.array(selectSensorReadingSchema),
+              unresolvedPids: z.array(z.string()),
             })),
           },
         },
       },
+      400: badRequestResponseObject,
       401: unauthorizedResponseObject,
       404: notFoundResponseObject,
     },
@@ -372,6 +505,19 @@ export const diagnosticsRoute = new Hono<AppBindings>()
       }
     }
 
+    // Map incoming PIDs onto the registry, readings for unknown PIDs or in a unit that does not fit are not stored.
+    // Values sent in non-canonical units (mph, °F, psi, ...) are stored converted
+    const { resolved: resolvedReadings, unresolved: unresolvedReadings } = await normalizeReadingPids(readings);
+    const unresolvedPids = [...new Set(unresolvedReadings.map(reading => reading.pid))];
+
+    if (unresolvedPids.length > 0) {
+      logger.warn({ diagnosticUUID, unresolvedPids }, "Readings with unknown PIDs or units skipped");
+    }
+
+    if (readings.length > 0 && resolvedReadings.length === 0) {
+      return c.json({ error: "None of the readings match a known PID", unresolvedPids }, 400);
+    }
+
     // Create the sensor snapshot
     const snapshotData: {
       diagnosticUUID: string;
@@ -394,8 +540,8 @@ export const diagnosticsRoute = new Hono<AppBindings>()
       .then(res => res[0]);
 
     // Create sensor readings
-    if (readings.length > 0) {
-      const readingsToInsert = readings.map(reading =>
+    if (resolvedReadings.length > 0) {
+      const readingsToInsert = resolvedReadings.map(reading =>
         insertSensorReadingSchema.parse({
           sensorSnapshotsUUID: snapshot.uuid,
           pid: reading.pid,
@@ -411,22 +557,57 @@ export const diagnosticsRoute = new Hono<AppBindings>()
     }
 
     c.status(201);
-    logger.debug({ snapshotUUID: snapshot.uuid, readingCount: readings.length }, "Sensor snapshot created");
+    logger.debug({ snapshotUUID: snapshot.uuid, readingCount: resolvedReadings.length }, "Sensor snapshot created");
 
     // Query the inserted readings to return with the response
-    const insertedReadings = readings.length > 0
+    const insertedReadings = resolvedReadings.length > 0
       ? await db.select().from(sensorReadingsTable).where(eq(sensorReadingsTable.sensorSnapshotsUUID, snapshot.uuid))
       : [];
 
+    // A failing rule evaluation must not fail the ingestion of the readings
+    try {
+      const firedAlerts = await evaluateAlertRules(diagnostic, snapshot.uuid, insertedReadings);
+      if (firedAlerts.length > 0) {
+        logger.info({ diagnosticUUID, alertRuleUUIDs: firedAlerts.map(event => event.alertRuleUUID) }, "Alert rules fired");
+      }
+    }
+    catch (error) {
+      logger.error({ error, diagnosticUUID }, "Failed to evaluate alert rules");
+    }
+
+    // Same for scoring the readings against the vehicle's history
+    try {
+      const anomalies = await detectSensorAnomalies(diagnostic, snapshot.uuid, insertedReadings);
+      if (anomalies.length > 0) {
+        logger.info({ diagnosticUUID, pids: anomalies.map(anomaly => anomaly.pid) }, "Sensor anomalies detected");
+      }
+    }
+    catch (error) {
+      logger.error({ error, diagnosticUUID }, "Failed to detect sensor anomalies");
+    }
+
+    // An engine-off reading can end a trip that was already detected from the locations
+    const engineOffReadings = insertedReadings.filter(isEngineOffReading);
+    if (engineOffReadings.length > 0) {
+      try {
+        const since = engineOffReadings.reduce((earliest, reading) => Math.min(earliest, reading.timestamp.getTime()), Infinity);
+        await detectVehicleTrips(diagnostic.vehicleUUID, new Date(since));
+      }
+      catch (error) {
+        logger.error({ error, diagnosticUUID }, "Failed to detect trips");
+      }
+    }
+
     return c.json({
       snapshot,
       readings: insertedReadings,
+      unresolvedPids,
     });
   })
   .get("/:diagnosticUUID/snapshots", describeRoute({
     tags: ["Diagnostics"],
     summary: "Get all snapshots for a diagnostic",
-    description: "Retrieve all sensor snapshots for a specific diagnostic with optional readings",
+    description: "Retrieve all sensor snapshots for a specific diagnostic with optional readings. Reading values and units follow the user's unit preferences. With includeDerived, snapshots also carry the fuel rate (L/h) and fuel economy (L/100km) estimated from their MAF, speed and engine fuel rate readings.",
     responses: {
       200: {
         description: "OK",
@@ -437,6 +618,7 @@ export const diagnosticsRoute = new Hono<AppBindings>()
                 z.object({
                   ...selectSensorSnapshotSchema.shape,
                   readings: z.array(selectSensorReadingSchema).optional(),
+                  derivedReadings: z.array(zDerivedSensorReadingSchema).optional(),
                 }),
               ),
             })),
@@ -454,6 +636,11 @@ export const diagnosticsRoute = new Hono<AppBindings>()
       .default("false")
       .transform(val => val === "true")
       .pipe(z.boolean()),
+    includeDerived: z.enum(["true", "false"])
+      .optional()
+      .default("false")
+      .transform(val => val === "true")
+      .pipe(z.boolean()),
   })), async (c) => {
     const user = c.get("user");
     const logger = c.get("logger");
@@ -464,9 +651,9 @@ export const diagnosticsRoute = new Hono<AppBindings>()
     }
 
     const diagnosticUUID = c.req.param("diagnosticUUID");
-    const { includeReadings } = c.req.valid("query");
+    const { includeReadings, includeDerived } = c.req.valid("query");
 
-    logger.debug({ diagnosticUUID, includeReadings }, "Fetching diagnostic snapshots");
+    logger.debug({ diagnosticUUID, includeReadings, includeDerived }, "Fetching diagnostic snapshots");
 
     // Find the diagnostic first
     const diagnostic = await db
@@ -480,23 +667,21 @@ export const diagnosticsRoute = new Hono<AppBindings>()
       return c.json({ error: "Diagnostic not found" }, 404);
     }
 
-    // If user role is 'user', verify they own the vehicle
-    if (user.role === "user") {
-      const vehicle = await db
-        .select()
-        .from(vehiclesTable)
-        .where(
-          and(
-            eq(vehiclesTable.uuid, diagnostic.vehicleUUID),
-            eq(vehiclesTable.ownerId, user.id),
-          ),
-        )
-        .then(res => res[0]);
+    const vehicle = await db
+      .select()
+      .from(vehiclesTable)
+      .where(
+        and(
+          eq(vehiclesTable.uuid, diagnostic.vehicleUUID),
+          user.role === "user" ? eq(vehiclesTable.ownerId, user.id) : undefined,
+        ),
+      )
+      .then(res => res[0]);
 
-      if (!vehicle) {
-        logger.warn("User not authorized to view this diagnostic's snapshots");
-        return c.json({ error: "Unauthorized to access this diagnostic" }, 401);
-      }
+    // If user role is 'user', verify they own the vehicle
+    if (!vehicle) {
+      logger.warn("User not authorized to view this diagnostic's snapshots");
+      return c.json({ error: "Unauthorized to access this diagnostic" }, 401);
     }
 
     // Get snapshots for the diagnostic
@@ -512,7 +697,9 @@ export const diagnosticsRoute = new Hono<AppBindings>()
 
     // If includeReadings is true, fetch readings for all snapshots
     if (includeReadings) {
-      const allReadings = await db
+      const preferences = await getUnitPreferences(user.id);
+
+      const storedReadings = await db
         .select()
         .from(sensorReadingsTable)
         .where(inArray(
@@ -520,15 +707,26 @@ export const diagnosticsRoute = new Hono<AppBindings>()
           snapshots.map(snapshot => snapshot.uuid),
         ));
 
+      // Readings are returned in the units the user prefers
+      const allReadings = storedReadings.map(reading => convertReading(reading, preferences));
+      const fuelKind = getFuelKind(vehicle.fuelType);
+
       // Add readings to each snapshot
       const snapshotsWithReadings = snapshots.map((snapshot) => {
         const snapshotReadings = allReadings.filter(
           reading => reading.sensorSnapshotsUUID === snapshot.uuid,
         );
 
+        // Derived from the stored readings, which are still in canonical units
+        const derivedReadings = includeDerived
+          ? deriveFuelReadings(storedReadings.filter(reading => reading.sensorSnapshotsUUID === snapshot.uuid), fuelKind)
+              .map(reading => convertReading(reading, preferences))
+          : [];
+
         return {
           ...snapshot,
           readings: snapshotReadings.length > 0 ? snapshotReadings : undefined,
+          derivedReadings: derivedReadings.length > 0 ? derivedReadings : undefined,
         };
       });
 
@@ -540,7 +738,7 @@ export const diagnosticsRoute = new Hono<AppBindings>()
   .get("/:diagnosticUUID/snapshots/:snapshotUUID", describeRoute({
     tags: ["Diagnostics"],
     summary: "Get a specific snapshot with readings",
-    description: "Retrieve a specific sensor snapshot and its readings",
+    description: "Retrieve a specific sensor snapshot and its readings. Reading values and units follow the user's unit preferences.",
     responses: {
       200: {
         description: "OK",
@@ -628,8 +826,74 @@ export const diagnosticsRoute = new Hono<AppBindings>()
       .where(eq(sensorReadingsTable.sensorSnapshotsUUID, snapshot.uuid))
       .orderBy(sensorReadingsTable.pid);
 
+    const preferences = await getUnitPreferences(user.id);
+
     return c.json({
       snapshot,
-      readings,
+      readings: readings.map(reading => convertReading(reading, preferences)),
+    });
+  })
+  .get("/:diagnosticUUID/fuel-consumption", describeRoute({
+    tags: ["Diagnostics"],
+    summary: "Get the fuel consumption of a diagnostic session",
+    description: "Estimate the fuel used, distance and consumption of a diagnostic session from its engine fuel rate (PID 5E) readings or, when the ECU does not report them, from its MAF air flow (PID 10) readings and the stoichiometric ratio of the vehicle's fuel type. Distance comes from the vehicle speed (PID 0D) readings. Distance and volumes follow the user's unit preferences.",
+    responses: {
+      200: {
+        description: "OK",
+        content: {
+          "application/json": {
+            schema: resolver(zFuelConsumptionSummarySchema),
+          },
+        },
+      },
+      401: unauthorizedResponseObject,
+      404: notFoundResponseObject,
+    },
+  }), zValidator("param", z.object({
+    diagnosticUUID: z.string().uuid(),
+  })), async (c) => {
+    const user = c.get("user");
+    const logger = c.get("logger");
+
+    if (!user) {
+      logger.warn("Unauthorized access attempt - diagnostic fuel consumption");
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+
+    const { diagnosticUUID } = c.req.valid("param");
+
+    const diagnostic = await db
+      .select()
+      .from(diagnosticsTable)
+      .where(eq(diagnosticsTable.uuid, diagnosticUUID))
+      .then(res => res[0]);
+
+    if (!diagnostic) {
+      logger.warn("Diagnostic not found");
+      return c.json({ error: "Diagnostic not found" }, 404);
+    }
+
+    const vehicle = await db
+      .select()
+      .from(vehiclesTable)
+      .where(
+        and(
+          eq(vehiclesTable.uuid, diagnostic.vehicleUUID),
+          user.role === "user" ? eq(vehiclesTable.ownerId, user.id) : undefined,
+        ),
+      )
+      .then(res => res[0]);
+
+    if (!vehicle) {
+      logger.warn("User not authorized to view this diagnostic's fuel consumption");
+      return c.json({ error: "Unauthorized to access this diagnostic" }, 401);
+    }
+
+    const summary = await getSessionFuelConsumption(diagnostic.uuid, getFuelKind(vehicle.fuelType));
+    const preferences = await getUnitPreferences(user.id);
+
+    return c.json({
+      diagnosticUUID: diagnostic.uuid,
+      ...convertSessionFuelConsumption(summary, preferences),
     });
   });
@@ -0,0 +1,122 @@
+import { and, eq } from "drizzle-orm";
+import { Hono } from "hono";
+import { describeRoute } from "hono-openapi";
+import { resolver, validator as zValidator } from "hono-openapi/zod";
+import { z } from "zod";
+
+import type { AppBindings } from "../lib/types";
+
+import { db } from "../db";
+import { diagnosticsTable } from "../db/schema/diagnostics-schema";
+import { convertDrivingSession, getDrivingSession, getVehicleDrivingReport } from "../lib/driving-behaviour";
+import { convertDistance, getUnitPreferences } from "../lib/units";
+import { getAccessibleVehicle } from "../lib/vehicles";
+import { getSessionAndUser } from "../middleware/get-session-and-user";
+import { notFoundResponseObject, unauthorizedResponseObject } from "../zod/z-api-responses";
+import { zDrivingReportQuerySchema, zDrivingReportResponseSchema, zDrivingSessionDetailResponseSchema } from "../zod/z-driving";
+
+// Mounted under /vehicles/:vehicleUUID/driving
+export const drivingRoute = new Hono<AppBindings>()
+  .use(getSessionAndUser)
+  .get("/", describeRoute({
+    tags: ["Driving"],
+    summary: "Get the driving behaviour report of a vehicle",
+    description: "Score the diagnostic sessions of a vehicle from harsh acceleration, harsh braking, sharp cornering, over-revving and excessive idling, detected in its locations and speed, RPM and throttle readings (PIDs 0D, 0C, 11). Returns the monthly scores and the scored sessions. Distances follow the user's unit preferences.",
+    responses: {
+      200: {
+        description: "OK",
+        content: {
+          "application/json": {
+            schema: resolver(zDrivingReportResponseSchema),
+          },
+        },
+      },
+      401: unauthorizedResponseObject,
+      404: notFoundResponseObject,
+    },
+  }), zValidator("param", z.object({
+    vehicleUUID: z.string().uuid(),
+  })), zValidator("query", zDrivingReportQuerySchema), async (c) => {
+    const user = c.get("user");
+    const logger = c.get("logger");
+
+    if (!user) {
+      logger.warn("Unauthorized access attempt - driving report");
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+
+    const { vehicleUUID } = c.req.valid("param");
+    const { months } = c.req.valid("query");
+
+    const vehicle = await getAccessibleVehicle(vehicleUUID, user);
+
+    if (!vehicle) {
+      logger.warn({ userId: user.id, vehicleUUID }, "Vehicle not found or not owned");
+      return c.json({ error: "Vehicle not found" }, 404);
+    }
+
+    const now = new Date();
+    const since = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - (months - 1), 1));
+
+    const report = await getVehicleDrivingReport(vehicle.uuid, since);
+    const preferences = await getUnitPreferences(user.id);
+
+    return c.json({
+      months: report.months.map(month => ({ ...month, distance: convertDistance(month.distance, preferences) })),
+      sessions: report.sessions.map(({ events: _events, ...session }) => convertDrivingSession(session, preferences)),
+      distanceUnit: preferences.distance,
+    });
+  })
+  .get("/sessions/:diagnosticUUID", describeRoute({
+    tags: ["Driving"],
+    summary: "Get the driving behaviour of a diagnostic session",
+    description: "Score a diagnostic session of a vehicle and list its driving events with the location they happened at. Distance and speeds follow the user's unit preferences.",
+    responses: {
+      200: {
+        description: "OK",
+        content: {
+          "application/json": {
+            schema: resolver(zDrivingSessionDetailResponseSchema),
+          },
+        },
+      },
+      401: unauthorizedResponseObject,
+      404: notFoundResponseObject,
+    },
+  }), zValidator("param", z.object({
+    vehicleUUID: z.string().uuid(),
+    diagnosticUUID: z.string().uuid(),
+  })), async (c) => {
+    const user = c.get("user");
+    const logger = c.get("logger");
+
+    if (!user) {
+      logger.warn("Unauthorized access attempt - driving session");
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+
+    const { vehicleUUID, diagnosticUUID } = c.req.valid("param");
+
+    const vehicle = await getAccessibleVehicle(vehicleUUID, user);
+
+    if (!vehicle) {
+      logger.warn({ userId: user.id, vehicleUUID }, "Vehicle not found or not owned");
+      return c.json({ error: "Vehicle not found" }, 404);
+    }
+
+    const diagnostic = await db
+      .select()
+      .from(diagnosticsTable)
+      .where(and(eq(diagnosticsTable.uuid, diagnosticUUID), eq(diagnosticsTable.vehicleUUID, vehicle.uuid)))
+      .then(res => res[0]);
+
+    if (!diagnostic) {
+      logger.warn({ vehicleUUID, diagnosticUUID }, "Diagnostic not found");
+      return c.json({ error: "Diagnostic not found" }, 404);
+    }
+
+    const session = await getDrivingSession(diagnostic);
+    const preferences = await getUnitPreferences(user.id);
+
+    return c.json(convertDrivingSession(session, preferences));
+  });
@@ -1,35 +1,83 @@
-import { eq } from "drizzle-orm";
+import { and, asc, count, desc, eq, ilike, inArray, max, sql } from "drizzle-orm";
 import { Hono } from "hono";
 import { describeRoute } from "hono-openapi";
 import { resolver, validator as zValidator } from "hono-openapi/zod";
+import { z } from "zod";
 
 import type { AppBindings } from "../lib/types";
 
 import { db } from "../db";
+import { diagnosticsDTCTable } from "../db/schema/diagnostics-dtc-schema";
+import { dtcClassificationOverridesTable } from "../db/schema/dtc-classification-overrides-schema";
+import { dtcKnowledgeBaseTable } from "../db/schema/dtc-knowledge-base-schema";
 import { DTCLibraryTable } from "../db/schema/dtc-library-schema";
+import { dtcLibraryChangesTable, dtcLibraryVersionsTable } from "../db/schema/dtc-library-versions-schema";
+import { dtcManufacturerOverlaysTable } from "../db/schema/dtc-overlays-schema";
+import { classifyDTCLibrary } from "../lib/dtc-classification";
+import { DTC_CLASSIFICATION_RULES } from "../lib/dtc-classification-rules";
+import { attachDTCKnowledge } from "../lib/dtc-knowledge-base";
+import { applyDTCLibraryChanges, diffDTCLibrary, diffDTCLibraryEntry, parseDTCLibraryImport, toDTCLibraryChangeSnapshot } from "../lib/dtc-library";
+import { resolveDTCEntries } from "../lib/dtc-overlays";
+import { decodeDTCSearchCursor, searchDTCLibrary } from "../lib/dtc-search";
+import { getAccessibleVehicle } from "../lib/vehicles";
 import { getSessionAndUser } from "../middleware/get-session-and-user";
-import { notFoundResponseObject, unauthorizedResponseObject } from "../zod/z-api-responses";
-import { zDTCLibraryResponseSchema, zDTCQuerySchema } from "../zod/z-dtc";
+import { badRequestResponseObject, conflictResponseObject, forbiddenResponseObject, notFoundResponseObject, unauthorizedResponseObject } from "../zod/z-api-responses";
+import {
+  zDTCClassificationOverrideResponseSchema,
+  zDTCClassificationOverrideSchema,
+  zDTCClassificationOverridesListResponseSchema,
+  zDTCClassificationRulesResponseSchema,
+  zDTCClassificationRunResponseSchema,
+  zDTCClassificationRunSchema,
+  zDTCKnowledgeInputSchema,
+  zDTCKnowledgeSchema,
+  zDTCLibraryEntryInputSchema,
+  zDTCLibraryEntryMutationResponseSchema,
+  zDTCLibraryEntryUpdateSchema,
+  zDTCLibraryImportErrorResponseSchema,
+  zDTCLibraryImportResponseSchema,
+  zDTCLibraryImportSchema,
+  zDTCLibraryResponseSchema,
+  zDTCLibraryVersionDetailResponseSchema,
+  zDTCLibraryVersionParamSchema,
+  zDTCLibraryVersionSchema,
+  zDTCLibraryVersionsListResponseSchema,
+  zDTCLookupResponseSchema,
+  zDTCLookupSchema,
+  zDTCOverlayInsertSchema,
+  zDTCOverlayResponseSchema,
+  zDTCOverlaysListResponseSchema,
+  zDTCOverlaysQuerySchema,
+  zDTCOverlayUpdateSchema,
+  zDTCQuerySchema,
+  zDTCResolveQuerySchema,
+  zDTCReviewQueueQuerySchema,
+  zDTCReviewQueueResponseSchema,
+  zDTCReviewSchema,
+  zDTCSearchQuerySchema,
+  zDTCSearchResponseSchema,
+  zResolvedDTCSchema,
+} from "../zod/z-dtc";
 
 export const dtcRoute = new Hono<AppBindings>()
   .use(getSessionAndUser)
   .get("/", describeRoute({
     tags: ["DTC"],
     summary: "Get DTC by code",
-    description: "Get a diagnostic trouble code by its code identifier",
+    description: "Get a diagnostic trouble code by its code identifier, with its knowledge-base record (causes, symptoms, diagnostic steps, related codes, typical fixes). When vehicleUUID is given, a manufacturer overlay matching the vehicle's make, model and year takes precedence over the generic entry.",
     responses: {
       200: {
         description: "OK",
         content: {
           "application/json": {
-            schema: resolver(zDTCLibraryResponseSchema),
+            schema: resolver(zResolvedDTCSchema),
           },
         },
       },
       404: notFoundResponseObject,
       401: unauthorizedResponseObject,
     },
-  }), zValidator("query", zDTCQuerySchema), async (c) => {
+  }), zValidator("query", zDTCResolveQuerySchema), async (c) => {
     const user = c.get("user");
     const logger = c.get("logger");
 
@@ -38,9 +86,15 @@ export const dtcRoute = new Hono<AppBindings>()
       return c.json({ error: "Unauthorized" }, 401);
     }
 
-    const { code } = c.req.valid("query");
+    const { code, vehicleUUID } = c.req.valid("query");
+
+    logger.debug({ code, vehicleUUID }, "Looking up DTC code");
 
-    logger.debug({ code }, "Looking up DTC code");
+    const vehicle = vehicleUUID ? await getAccessibleVehicle(vehicleUUID, user) : null;
+
+    if (vehicleUUID && !vehicle) {
+      return c.json({ error: "Vehicle not found" }, 404);
+    }
 
     const dtc = await db
       .select()
@@ -53,13 +107,16 @@ export const dtcRoute = new Hono<AppBindings>()
       return c.json({ error: "DTC code not found" }, 404);
     }
 
-    logger.debug({ code, dtcUUID: dtc.uuid }, "DTC code found");
-    return c.json(dtc);
+    const [resolved] = await attachDTCKnowledge(await resolveDTCEntries([dtc], vehicle));
+
+    logger.debug({ code, dtcUUID: dtc.uuid, source: resolved.source }, "DTC code found");
+    return c.json(resolved);
   })
   .get("/library", describeRoute({
     tags: ["DTC"],
     summary: "Get DTC library",
-    description: "Get the entire DTC library",
+    description: "Get the entire DTC library. Prefer /search and /lookup, which do not download every row.",
+    deprecated: true,
     responses: {
       200: {
         description: "OK",
@@ -84,4 +141,1178 @@ export const dtcRoute = new Hono<AppBindings>()
       .from(DTCLibraryTable);
 
     return c.json(dtcs);
+  })
+  .get("/search", describeRoute({
+    tags: ["DTC"],
+    summary: "Search the DTC library",
+    description: "Search the DTC library by code prefix and full-text over descriptions, filtered by category, severity and affected system. Results are ranked (exact code, then code prefix, then description relevance) and paginated with an opaque cursor.",
+    responses: {
+      200: {
+        description: "OK",
+        content: {
+          "application/json": {
+            schema: resolver(zDTCSearchResponseSchema),
+          },
+        },
+      },
+      400: badRequestResponseObject,
+      401: unauthorizedResponseObject,
+    },
+  }), zValidator("query", zDTCSearchQuerySchema), async (c) => {
+    const user = c.get("user");
+    const logger = c.get("logger");
+
+    if (!user) {
+      logger.warn("Unauthorized access attempt - DTC search");
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+
+    const query = c.req.valid("query");
+    const cursor = query.cursor ? decodeDTCSearchCursor(query.cursor) : null;
+
+    if (query.cursor && !cursor) {
+      return c.json({ error: "Invalid cursor" }, 400);
+    }
+
+    logger.debug({ ...query }, "Searching DTC library");
+
+    const result = await searchDTCLibrary(query, cursor);
+
+    return c.json(result);
+  })
+  .post("/lookup", describeRoute({
+    tags: ["DTC"],
+    summary: "Look up several DTC codes",
+    description: "Get the library entries of a list of DTC codes in a single request. Codes are matched case-insensitively; codes that are not in the library are returned in missing. Found entries include their knowledge-base record. When vehicleUUID is given, manufacturer overlays matching the vehicle take precedence over the generic entries.",
+    responses: {
+      200: {
+        description: "OK",
+        content: {
+          "application/json": {
+            schema: resolver(zDTCLookupResponseSchema),
+          },
+        },
+      },
+      401: unauthorizedResponseObject,
+      404: notFoundResponseObject,
+    },
+  }), zValidator("json", zDTCLookupSchema), async (c) => {
+    const user = c.get("user");
+    const logger = c.get("logger");
+
+    if (!user) {
+      logger.warn("Unauthorized access attempt - DTC bulk lookup");
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+
+    const { vehicleUUID } = c.req.valid("json");
+    const codes = [...new Set(c.req.valid("json").codes.map(code => code.toUpperCase()))];
+
+    logger.debug({ codeCount: codes.length, vehicleUUID }, "Looking up DTC codes");
+
+    const vehicle = vehicleUUID ? await getAccessibleVehicle(vehicleUUID, user) : null;
+
+    if (vehicleUUID && !vehicle) {
+      return c.json({ error: "Vehicle not found" }, 404);
+    }
+
+    const found = await db
+      .select()
+      .from(DTCLibraryTable)
+      .where(inArray(DTCLibraryTable.code, codes))
+      .orderBy(asc(DTCLibraryTable.code));
+
+    const foundCodes = new Set(found.map(dtc => dtc.code));
+
+    return c.json({
+      found: await attachDTCKnowledge(await resolveDTCEntries(found, vehicle)),
+      missing: codes.filter(code => !foundCodes.has(code)),
+    });
+  })
+  .get("/review-queue", describeRoute({
+    tags: ["DTC"],
+    summary: "Get the DTC review queue",
+    description: "List the placeholder library entries created for codes reported by vehicles but missing from the library, most reported first. Admin only.",
+    responses: {
+      200: {
+        description: "OK",
+        content: {
+          "application/json": {
+            schema: resolver(zDTCReviewQueueResponseSchema),
+          },
+        },
+      },
+      401: unauthorizedResponseObject,
+      403: forbiddenResponseObject,
+    },
+  }), zValidator("query", zDTCReviewQueueQuerySchema), async (c) => {
+    const user = c.get("user");
+    const logger = c.get("logger");
+
+    if (!user) {
+      logger.warn("Unauthorized access attempt - DTC review queue");
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+
+    if (user.role !== "admin") {
+      logger.warn({ userId: user.id }, "Non-admin access attempt - DTC review queue");
+      return c.json({ error: "Forbidden" }, 403);
+    }
+
+    const { category, limit } = c.req.valid("query");
+
+    const queue = await db
+      .select({
+        dtc: DTCLibraryTable,
+        occurrenceCount: count(diagnosticsDTCTable.uuid),
+        lastReportedAt: max(diagnosticsDTCTable.createdAt),
+      })
+      .from(DTCLibraryTable)
+      .leftJoin(diagnosticsDTCTable, eq(diagnosticsDTCTable.code, DTCLibraryTable.code))
+      .where(
+        and(
+          eq(DTCLibraryTable.needsReview, true),
+          category ? ilike(DTCLibraryTable.category, category) : undefined,
+        ),
+      )
+      .groupBy(DTCLibraryTable.uuid)
+      .orderBy(desc(count(diagnosticsDTCTable.uuid)), asc(DTCLibraryTable.createdAt))
+      .limit(limit);
+
+    return c.json(queue.map(row => ({
+      ...row.dtc,
+      occurrenceCount: row.occurrenceCount,
+      lastReportedAt: row.lastReportedAt?.toISOString() ?? null,
+    })));
+  })
+  .patch("/review-queue/:code", describeRoute({
+    tags: ["DTC"],
+    summary: "Review a DTC library entry",
+    description: "Fill in the description and classification of a placeholder library entry and take it out of the review queue. The change is recorded as a new library version. Admin only.",
+    responses: {
+      200: {
+        description: "OK",
+        content: {
+          "application/json": {
+            schema: resolver(zDTCLibraryResponseSchema),
+          },
+        },
+      },
+      401: unauthorizedResponseObject,
+      403: forbiddenResponseObject,
+      404: notFoundResponseObject,
+    },
+  }), zValidator("param", zDTCQuerySchema), zValidator("json", zDTCReviewSchema), async (c) => {
+    const user = c.get("user");
+    const logger = c.get("logger");
+
+    if (!user) {
+      logger.warn("Unauthorized access attempt - DTC review");
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+
+    if (user.role !== "admin") {
+      logger.warn({ userId: user.id }, "Non-admin access attempt - DTC review");
+      return c.json({ error: "Forbidden" }, 403);
+    }
+
+    const code = c.req.valid("param").code.toUpperCase();
+    const review = c.req.valid("json");
+
+    const existingEntry = await db
+      .select()
+      .from(DTCLibraryTable)
+      .where(eq(DTCLibraryTable.code, code))
+      .then(res => res[0]);
+
+    if (!existingEntry) {
+      logger.warn({ code }, "DTC code not found for review");
+      return c.json({ error: "DTC code not found" }, 404);
+    }
+
+    const change = diffDTCLibraryEntry({ code, ...review }, existingEntry);
+    const version = await applyDTCLibraryChanges(change ? [change] : [], {
+      source: "manual",
+      note: `Reviewed ${code}`,
+      createdBy: user.id,
+    });
+
+    const dtc = await db
+      .select()
+      .from(DTCLibraryTable)
+      .where(eq(DTCLibraryTable.code, code))
+      .then(res => res[0]);
+
+    logger.info({ code, reviewedBy: user.id, libraryVersion: version?.version }, "DTC library entry reviewed");
+    return c.json(dtc);
+  })
+  .post("/library", describeRoute({
+    tags: ["DTC"],
+    summary: "Create a DTC library entry",
+    description: "Add a code to the DTC library. Severity, category and affected system default to values derived from the code when left out. The change is recorded as a new library version. Admin only.",
+    responses: {
+      201: {
+        description: "Created",
+        content: {
+          "application/json": {
+            schema: resolver(zDTCLibraryEntryMutationResponseSchema),
+          },
+        },
+      },
+      400: badRequestResponseObject,
+      401: unauthorizedResponseObject,
+      403: forbiddenResponseObject,
+      409: conflictResponseObject,
+    },
+  }), zValidator("json", zDTCLibraryEntryInputSchema), async (c) => {
+    const user = c.get("user");
+    const logger = c.get("logger");
+
+    if (!user) {
+      logger.warn("Unauthorized DTC library entry creation attempt");
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+
+    if (user.role !== "admin") {
+      logger.warn({ userId: user.id }, "Non-admin access attempt - DTC library entry creation");
+      return c.json({ error: "Forbidden" }, 403);
+    }
+
+    const entryData = c.req.valid("json");
+
+    const existingEntry = await db
+      .select()
+      .from(DTCLibraryTable)
+      .where(eq(DTCLibraryTable.code, entryData.code))
+      .then(res => res[0]);
+
+    if (existingEntry) {
+      return c.json({ error: "DTC code already exists" }, 409);
+    }
+
+    const change = diffDTCLibraryEntry(entryData, undefined);
+    const version = await applyDTCLibraryChanges(change ? [change] : [], {
+      source: "manual",
+      note: `Added ${entryData.code}`,
+      createdBy: user.id,
+    });
+
+    const entry = await db
+      .select()
+      .from(DTCLibraryTable)
+      .where(eq(DTCLibraryTable.code, entryData.code))
+      .then(res => res[0]);
+
+    logger.info({ code: entry.code, libraryVersion: version?.version, createdBy: user.id }, "DTC library entry created");
+
+    c.status(201);
+    return c.json({ entry, version });
+  })
+  .patch("/library/:code", describeRoute({
+    tags: ["DTC"],
+    summary: "Update a DTC library entry",
+    description: "Update the description and classification of a library entry. A change is recorded as a new library version; an update that changes nothing returns a null version. Admin only.",
+    responses: {
+      200: {
+        description: "OK",
+        content: {
+          "application/json": {
+            schema: resolver(zDTCLibraryEntryMutationResponseSchema),
+          },
+        },
+      },
+      400: badRequestResponseObject,
+      401: unauthorizedResponseObject,
+      403: forbiddenResponseObject,
+      404: notFoundResponseObject,
+    },
+  }), zValidator("param", zDTCQuerySchema), zValidator("json", zDTCLibraryEntryUpdateSchema), async (c) => {
+    const user = c.get("user");
+    const logger = c.get("logger");
+
+    if (!user) {
+      logger.warn("Unauthorized DTC library entry update attempt");
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+
+    if (user.role !== "admin") {
+      logger.warn({ userId: user.id }, "Non-admin access attempt - DTC library entry update");
+      return c.json({ error: "Forbidden" }, 403);
+    }
+
+    const code = c.req.valid("param").code.toUpperCase();
+    const updates = c.req.valid("json");
+
+    const existingEntry = await db
+      .select()
+      .from(DTCLibraryTable)
+      .where(eq(DTCLibraryTable.code, code))
+      .then(res => res[0]);
+
+    if (!existingEntry) {
+      return c.json({ error: "DTC code not found" }, 404);
+    }
+
+    const change = diffDTCLibraryEntry({ code, ...updates }, existingEntry);
+    const version = await applyDTCLibraryChanges(change ? [change] : [], {
+      source: "manual",
+      note: `Updated ${code}`,
+      createdBy: user.id,
+    });
+
+    const entry = await db
+      .select()
+      .from(DTCLibraryTable)
+      .where(eq(DTCLibraryTable.code, code))
+      .then(res => res[0]);
+
+    logger.info({ code, libraryVersion: version?.version, updatedBy: user.id }, "DTC library entry updated");
+
+    return c.json({ entry, version });
+  })
+  .delete("/library/:code", describeRoute({
+    tags: ["DTC"],
+    summary: "Delete a DTC library entry",
+    description: "Remove a code from the DTC library. Codes still referenced by stored diagnostic DTCs cannot be removed. The change is recorded as a new library version. Admin only.",
+    responses: {
+      200: {
+        description: "OK",
+        content: {
+          "application/json": {
+            schema: resolver(z.object({ message: z.string(), version: zDTCLibraryVersionSchema })),
+          },
+        },
+      },
+      401: unauthorizedResponseObject,
+      403: forbiddenResponseObject,
+      404: notFoundResponseObject,
+      409: conflictResponseObject,
+    },
+  }), zValidator("param", zDTCQuerySchema), async (c) => {
+    const user = c.get("user");
+    const logger = c.get("logger");
+
+    if (!user) {
+      logger.warn("Unauthorized DTC library entry deletion attempt");
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+
+    if (user.role !== "admin") {
+      logger.warn({ userId: user.id }, "Non-admin access attempt - DTC library entry deletion");
+      return c.json({ error: "Forbidden" }, 403);
+    }
+
+    const code = c.req.valid("param").code.toUpperCase();
+
+    const existingEntry = await db
+      .select()
+      .from(DTCLibraryTable)
+      .where(eq(DTCLibraryTable.code, code))
+      .then(res => res[0]);
+
+    if (!existingEntry) {
+      return c.json({ error: "DTC code not found" }, 404);
+    }
+
+    const reference = await db
+      .select({ uuid: diagnosticsDTCTable.uuid })
+      .from(diagnosticsDTCTable)
+      .where(eq(diagnosticsDTCTable.code, code))
+      .limit(1)
+      .then(res => res[0]);
+
+    if (reference) {
+      return c.json({ error: "DTC code is referenced by stored diagnostic DTCs" }, 409);
+    }
+
+    const version = await applyDTCLibraryChanges([{
+      code,
+      changeType: "removed",
+      previous: toDTCLibraryChangeSnapshot(existingEntry),
+      current: null,
+    }], {
+      source: "manual",
+      note: `Removed ${code}`,
+      createdBy: user.id,
+    });
+
+    logger.info({ code, libraryVersion: version.version, deletedBy: user.id }, "DTC library entry deleted");
+
+    return c.json({ message: "DTC library entry deleted successfully", version });
+  })
+  .post("/library/import", describeRoute({
+    tags: ["DTC"],
+    summary: "Import DTC library entries",
+    description: "Import library entries from JSON or CSV. The import is compared with the current library; the resulting additions, corrections and (with removeMissing) removals are applied as a new numbered library version with a changelog. Use dryRun to preview the diff. Admin only.",
+    responses: {
+      200: {
+        description: "OK",
+        content: {
+          "application/json": {
+            schema: resolver(zDTCLibraryImportResponseSchema),
+          },
+        },
+      },
+      400: {
+        description: "Invalid import",
+        content: {
+          "application/json": {
+            schema: resolver(zDTCLibraryImportErrorResponseSchema),
+          },
+        },
+      },
+      401: unauthorizedResponseObject,
+      403: forbiddenResponseObject,
+    },
+  }), zValidator("json", zDTCLibraryImportSchema), async (c) => {
+    const user = c.get("user");
+    const logger = c.get("logger");
+
+    if (!user) {
+      logger.warn("Unauthorized DTC library import attempt");
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+
+    if (user.role !== "admin") {
+      logger.warn({ userId: user.id }, "Non-admin access attempt - DTC library import");
+      return c.json({ error: "Forbidden" }, 403);
+    }
+
+    const { format, data, dryRun, removeMissing, note } = c.req.valid("json");
+
+    const { entries, errors } = parseDTCLibraryImport(format, data);
+
+    if (errors.length > 0) {
+      logger.warn({ format, errorCount: errors.length }, "DTC library import rejected");
+      return c.json({ error: "Invalid import", rows: errors }, 400);
+    }
+
+    const { changes, unchangedCount, retainedCodes } = await diffDTCLibrary(entries, { removeMissing });
+
+    const version = dryRun
+      ? null
+      : await applyDTCLibraryChanges(changes, { source: "import", note, createdBy: user.id });
+
+    logger.info({
+      format,
+      dryRun,
+      entryCount: entries.length,
+      changeCount: changes.length,
+      libraryVersion: version?.version,
+      importedBy: user.id,
+    }, "DTC library import processed");
+
+    return c.json({
+      dryRun,
+      version,
+      addedCount: changes.filter(change => change.changeType === "added").length,
+      updatedCount: changes.filter(change => change.changeType === "updated").length,
+      removedCount: changes.filter(change => change.changeType === "removed").length,
+      unchangedCount,
+      retainedCodes,
+      changes,
+    });
+  })
+  .get("/versions", describeRoute({
+    tags: ["DTC"],
+    summary: "List DTC library versions",
+    description: "List the numbered versions of the DTC library, newest first",
+    responses: {
+      200: {
+        description: "OK",
+        content: {
+          "application/json": {
+            schema: resolver(zDTCLibraryVersionsListResponseSchema),
+          },
+        },
+      },
+      401: unauthorizedResponseObject,
+    },
+  }), async (c) => {
+    const user = c.get("user");
+    const logger = c.get("logger");
+
+    if (!user) {
+      logger.warn("Unauthorized access attempt - DTC library versions");
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+
+    const versions = await db
+      .select()
+      .from(dtcLibraryVersionsTable)
+      .orderBy(desc(dtcLibraryVersionsTable.version));
+
+    return c.json(versions);
+  })
+  .get("/versions/:version", describeRoute({
+    tags: ["DTC"],
+    summary: "Get a DTC library version",
+    description: "Get a version of the DTC library with its changelog",
+    responses: {
+      200: {
+        description: "OK",
+        content: {
+          "application/json": {
+            schema: resolver(zDTCLibraryVersionDetailResponseSchema),
+          },
+        },
+      },
+      401: unauthorizedResponseObject,
+      404: notFoundResponseObject,
+    },
+  }), zValidator("param", zDTCLibraryVersionParamSchema), async (c) => {
+    const user = c.get("user");
+    const logger = c.get("logger");
+
+    if (!user) {
+      logger.warn("Unauthorized access attempt - DTC library version");
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+
+    const { version: versionNumber } = c.req.valid("param");
+
+    const version = await db
+      .select()
+      .from(dtcLibraryVersionsTable)
+      .where(eq(dtcLibraryVersionsTable.version, versionNumber))
+      .then(res => res[0]);
+
+    if (!version) {
+      return c.json({ error: "Library version not found" }, 404);
+    }
+
+    const changes = await db
+      .select({
+        code: dtcLibraryChangesTable.code,
+        changeType: dtcLibraryChangesTable.changeType,
+        previous: dtcLibraryChangesTable.previous,
+        current: dtcLibraryChangesTable.current,
+      })
+      .from(dtcLibraryChangesTable)
+      .where(eq(dtcLibraryChangesTable.versionUUID, version.uuid))
+      .orderBy(asc(dtcLibraryChangesTable.code));
+
+    return c.json({ ...version, changes });
+  })
+  .get("/classification/rules", describeRoute({
+    tags: ["DTC"],
+    summary: "Get the DTC classification rules",
+    description: "Get the SAE code ranges the classification engine assigns severity, affected system, drive safety and urgency from. A code takes the classification of the narrowest range containing it.",
+    responses: {
+      200: {
+        description: "OK",
+        content: {
+          "application/json": {
+            schema: resolver(zDTCClassificationRulesResponseSchema),
+          },
+        },
+      },
+      401: unauthorizedResponseObject,
+    },
+  }), async (c) => {
+    const user = c.get("user");
+    const logger = c.get("logger");
+
+    if (!user) {
+      logger.warn("Unauthorized access attempt - DTC classification rules");
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+
+    return c.json(DTC_CLASSIFICATION_RULES);
+  })
+  .post("/classification/run", describeRoute({
+    tags: ["DTC"],
+    summary: "Reclassify the DTC library",
+    description: "Re-run the classification rules and admin overrides over every library entry. Entries changed by an admin edit or an import keep their values: only their unset fields are filled in and the overrides applied. Changed entries are recorded as a new library version. Use dryRun to preview the changes. Admin only.",
+    responses: {
+      200: {
+        description: "OK",
+        content: {
+          "application/json": {
+            schema: resolver(zDTCClassificationRunResponseSchema),
+          },
+        },
+      },
+      401: unauthorizedResponseObject,
+      403: forbiddenResponseObject,
+    },
+  }), zValidator("json", zDTCClassificationRunSchema), async (c) => {
+    const user = c.get("user");
+    const logger = c.get("logger");
+
+    if (!user) {
+      logger.warn("Unauthorized DTC classification run attempt");
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+
+    if (user.role !== "admin") {
+      logger.warn({ userId: user.id }, "Non-admin access attempt - DTC classification run");
+      return c.json({ error: "Forbidden" }, 403);
+    }
+
+    const { dryRun } = c.req.valid("json");
+
+    const { changes, version } = await classifyDTCLibrary({ dryRun, createdBy: user.id });
+
+    logger.info({ dryRun, updatedCount: changes.length, libraryVersion: version?.version, runBy: user.id }, "DTC library classification run");
+
+    return c.json({
+      dryRun,
+      version,
+      updatedCount: changes.length,
+      changes,
+    });
+  })
+  .get("/classification/overrides", describeRoute({
+    tags: ["DTC"],
+    summary: "List DTC classification overrides",
+    description: "List the codes whose classification an admin has overridden. Admin only.",
+    responses: {
+      200: {
+        description: "OK",
+        content: {
+          "application/json": {
+            schema: resolver(zDTCClassificationOverridesListResponseSchema),
+          },
+        },
+      },
+      401: unauthorizedResponseObject,
+      403: forbiddenResponseObject,
+    },
+  }), async (c) => {
+    const user = c.get("user");
+    const logger = c.get("logger");
+
+    if (!user) {
+      logger.warn("Unauthorized access attempt - DTC classification overrides");
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+
+    if (user.role !== "admin") {
+      logger.warn({ userId: user.id }, "Non-admin access attempt - DTC classification overrides");
+      return c.json({ error: "Forbidden" }, 403);
+    }
+
+    const overrides = await db
+      .select()
+      .from(dtcClassificationOverridesTable)
+      .orderBy(asc(dtcClassificationOverridesTable.code));
+
+    return c.json(overrides);
+  })
+  .put("/classification/overrides/:code", describeRoute({
+    tags: ["DTC"],
+    summary: "Override the classification of a DTC code",
+    description: "Set the severity, affected system, drive safety or urgency of a single code, taking precedence over the range rules on every classification run. The library entry is reclassified right away and the change recorded as a new library version. Admin only.",
+    responses: {
+      200: {
+        description: "OK",
+        content: {
+          "application/json": {
+            schema: resolver(zDTCClassificationOverrideResponseSchema),
+          },
+        },
+      },
+      400: badRequestResponseObject,
+      401: unauthorizedResponseObject,
+      403: forbiddenResponseObject,
+      404: notFoundResponseObject,
+    },
+  }), zValidator("param", zDTCQuerySchema), zValidator("json", zDTCClassificationOverrideSchema), async (c) => {
+    const user = c.get("user");
+    const logger = c.get("logger");
+
+    if (!user) {
+      logger.warn("Unauthorized DTC classification override attempt");
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+
+    if (user.role !== "admin") {
+      logger.warn({ userId: user.id }, "Non-admin access attempt - DTC classification override");
+      return c.json({ error: "Forbidden" }, 403);
+    }
+
+    const code = c.req.valid("param").code.toUpperCase();
+    const overrideValues = {
+      severity: null,
+      affectedSystem: null,
+      safeToDrive: null,
+      urgency: null,
+      note: null,
+      ...c.req.valid("json"),
+      createdBy: user.id,
+    };
+
+    const existingEntry = await db
+      .select({ code: DTCLibraryTable.code })
+      .from(DTCLibraryTable)
+      .where(eq(DTCLibraryTable.code, code))
+      .then(res => res[0]);
+
+    if (!existingEntry) {
+      return c.json({ error: "DTC code not found" }, 404);
+    }
+
+    const override = await db
+      .insert(dtcClassificationOverridesTable)
+      .values({ code, ...overrideValues })
+      .onConflictDoUpdate({
+        target: dtcClassificationOverridesTable.code,
+        set: overrideValues,
+      })
+      .returning()
+      .then(res => res[0]);
+
+    const { version } = await classifyDTCLibrary({
+      codes: [code],
+      dryRun: false,
+      createdBy: user.id,
+      note: `Classification override for ${code}`,
+    });
+
+    const entry = await db
+      .select()
+      .from(DTCLibraryTable)
+      .where(eq(DTCLibraryTable.code, code))
+      .then(res => res[0]);
+
+    logger.info({ code, libraryVersion: version?.version, updatedBy: user.id }, "DTC classification override saved");
+
+    return c.json({ override, entry, version });
+  })
+  .delete("/classification/overrides/:code", describeRoute({
+    tags: ["DTC"],
+    summary: "Remove a DTC classification override",
+    description: "Remove the classification override of a code, which goes back to the classification of its range rule. The change is recorded as a new library version. Admin only.",
+    responses: {
+      200: {
+        description: "OK",
+        content: {
+          "application/json": {
+            schema: resolver(zDTCClassificationOverrideResponseSchema),
+          },
+        },
+      },
+      401: unauthorizedResponseObject,
+      403: forbiddenResponseObject,
+      404: notFoundResponseObject,
+    },
+  }), zValidator("param", zDTCQuerySchema), async (c) => {
+    const user = c.get("user");
+    const logger = c.get("logger");
+
+    if (!user) {
+      logger.warn("Unauthorized DTC classification override deletion attempt");
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+
+    if (user.role !== "admin") {
+      logger.warn({ userId: user.id }, "Non-admin access attempt - DTC classification override deletion");
+      return c.json({ error: "Forbidden" }, 403);
+    }
+
+    const code = c.req.valid("param").code.toUpperCase();
+
+    const deletedOverride = await db
+      .delete(dtcClassificationOverridesTable)
+      .where(eq(dtcClassificationOverridesTable.code, code))
+      .returning()
+      .then(res => res[0]);
+
+    if (!deletedOverride) {
+      return c.json({ error: "Classification override not found" }, 404);
+    }
+
+    const { version } = await classifyDTCLibrary({
+      codes: [code],
+      dryRun: false,
+      createdBy: user.id,
+      note: `Removed classification override for ${code}`,
+    });
+
+    const entry = await db
+      .select()
+      .from(DTCLibraryTable)
+      .where(eq(DTCLibraryTable.code, code))
+      .then(res => res[0]);
+
+    logger.info({ code, libraryVersion: version?.version, deletedBy: user.id }, "DTC classification override removed");
+
+    return c.json({ override: null, entry, version });
+  })
+  .get("/knowledge/:code", describeRoute({
+    tags: ["DTC"],
+    summary: "Get the knowledge-base record of a DTC code",
+    description: "Get the causes, symptoms, diagnostic steps, related codes, typical fixes and markdown body written for a code",
+    responses: {
+      200: {
+        description: "OK",
+        content: {
+          "application/json": {
+            schema: resolver(zDTCKnowledgeSchema),
+          },
+        },
+      },
+      401: unauthorizedResponseObject,
+      404: notFoundResponseObject,
+    },
+  }), zValidator("param", zDTCQuerySchema), async (c) => {
+    const user = c.get("user");
+    const logger = c.get("logger");
+
+    if (!user) {
+      logger.warn("Unauthorized access attempt - DTC knowledge base");
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+
+    const code = c.req.valid("param").code.toUpperCase();
+
+    const knowledge = await db
+      .select()
+      .from(dtcKnowledgeBaseTable)
+      .where(eq(dtcKnowledgeBaseTable.code, code))
+      .then(res => res[0]);
+
+    if (!knowledge) {
+      return c.json({ error: "Knowledge-base record not found" }, 404);
+    }
+
+    return c.json(knowledge);
+  })
+  .put("/knowledge/:code", describeRoute({
+    tags: ["DTC"],
+    summary: "Save the knowledge-base record of a DTC code",
+    description: "Create or replace the knowledge-base record of a library code. Admin only.",
+    responses: {
+      200: {
+        description: "OK",
+        content: {
+          "application/json": {
+            schema: resolver(zDTCKnowledgeSchema),
+          },
+        },
+      },
+      400: badRequestResponseObject,
+      401: unauthorizedResponseObject,
+      403: forbiddenResponseObject,
+      404: notFoundResponseObject,
+    },
+  }), zValidator("param", zDTCQuerySchema), zValidator("json", zDTCKnowledgeInputSchema), async (c) => {
+    const user = c.get("user");
+    const logger = c.get("logger");
+
+    if (!user) {
+      logger.warn("Unauthorized DTC knowledge-base update attempt");
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+
+    if (user.role !== "admin") {
+      logger.warn({ userId: user.id }, "Non-admin access attempt - DTC knowledge-base update");
+      return c.json({ error: "Forbidden" }, 403);
+    }
+
+    const code = c.req.valid("param").code.toUpperCase();
+    const knowledgeValues = {
+      body: null,
+      ...c.req.valid("json"),
+      updatedBy: user.id,
+    };
+
+    const libraryEntry = await db
+      .select({ code: DTCLibraryTable.code })
+      .from(DTCLibraryTable)
+      .where(eq(DTCLibraryTable.code, code))
+      .then(res => res[0]);
+
+    if (!libraryEntry) {
+      return c.json({ error: "DTC code not found" }, 404);
+    }
+
+    const knowledge = await db
+      .insert(dtcKnowledgeBaseTable)
+      .values({ code, ...knowledgeValues })
+      .onConflictDoUpdate({
+        target: dtcKnowledgeBaseTable.code,
+        set: knowledgeValues,
+      })
+      .returning()
+      .then(res => res[0]);
+
+    logger.info({ code, updatedBy: user.id }, "DTC knowledge-base record saved");
+
+    return c.json(knowledge);
+  })
+  .delete("/knowledge/:code", describeRoute({
+    tags: ["DTC"],
+    summary: "Delete the knowledge-base record of a DTC code",
+    description: "Delete the knowledge-base record of a library code. Admin only.",
+    responses: {
+      200: {
+        description: "OK",
+        content: {
+          "application/json": {
+            schema: resolver(z.object({ message: z.string() })),
+          },
+        },
+      },
+      401: unauthorizedResponseObject,
+      403: forbiddenResponseObject,
+      404: notFoundResponseObject,
+    },
+  }), zValidator("param", zDTCQuerySchema), async (c) => {
+    const user = c.get("user");
+    const logger = c.get("logger");
+
+    if (!user) {
+      logger.warn("Unauthorized DTC knowledge-base deletion attempt");
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+
+    if (user.role !== "admin") {
+      logger.warn({ userId: user.id }, "Non-admin access attempt - DTC knowledge-base deletion");
+      return c.json({ error: "Forbidden" }, 403);
+    }
+
+    const code = c.req.valid("param").code.toUpperCase();
+
+    const deletedKnowledge = await db
+      .delete(dtcKnowledgeBaseTable)
+      .where(eq(dtcKnowledgeBaseTable.code, code))
+      .returning()
+      .then(res => res[0]);
+
+    if (!deletedKnowledge) {
+      return c.json({ error: "Knowledge-base record not found" }, 404);
+    }
+
+    logger.info({ code, deletedBy: user.id }, "DTC knowledge-base record deleted");
+
+    return c.json({ message: "Knowledge-base record deleted successfully" });
+  })
+  .get("/overlays", describeRoute({
+    tags: ["DTC"],
+    summary: "List manufacturer DTC overlays",
+    description: "List the manufacturer-specific overlays of DTC codes, filtered by code and make. Admin only.",
+    responses: {
+      200: {
+        description: "OK",
+        content: {
+          "application/json": {
+            schema: resolver(zDTCOverlaysListResponseSchema),
+          },
+        },
+      },
+      401: unauthorizedResponseObject,
+      403: forbiddenResponseObject,
+    },
+  }), zValidator("query", zDTCOverlaysQuerySchema), async (c) => {
+    const user = c.get("user");
+    const logger = c.get("logger");
+
+    if (!user) {
+      logger.warn("Unauthorized access attempt - DTC overlays");
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+
+    if (user.role !== "admin") {
+      logger.warn({ userId: user.id }, "Non-admin access attempt - DTC overlays");
+      return c.json({ error: "Forbidden" }, 403);
+    }
+
+    const { code, make } = c.req.valid("query");
+
+    const overlays = await db
+      .select()
+      .from(dtcManufacturerOverlaysTable)
+      .where(
+        and(
+          code ? eq(dtcManufacturerOverlaysTable.code, code) : undefined,
+          make ? eq(sql`lower(${dtcManufacturerOverlaysTable.make})`, make.toLowerCase()) : undefined,
+        ),
+      )
+      .orderBy(asc(dtcManufacturerOverlaysTable.code), asc(dtcManufacturerOverlaysTable.make), asc(dtcManufacturerOverlaysTable.model));
+
+    return c.json(overlays);
+  })
+  .post("/overlays", describeRoute({
+    tags: ["DTC"],
+    summary: "Create a manufacturer DTC overlay",
+    description: "Give a DTC code a manufacturer-specific description, severity and affected system for a make, optionally narrowed to a model and a range of model years. Admin only.",
+    responses: {
+      201: {
+        description: "Created",
+        content: {
+          "application/json": {
+            schema: resolver(zDTCOverlayResponseSchema),
+          },
+        },
+      },
+      400: badRequestResponseObject,
+      401: unauthorizedResponseObject,
+      403: forbiddenResponseObject,
+      404: notFoundResponseObject,
+    },
+  }), zValidator("json", zDTCOverlayInsertSchema), async (c) => {
+    const user = c.get("user");
+    const logger = c.get("logger");
+
+    if (!user) {
+      logger.warn("Unauthorized DTC overlay creation attempt");
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+
+    if (user.role !== "admin") {
+      logger.warn({ userId: user.id }, "Non-admin access attempt - DTC overlay creation");
+      return c.json({ error: "Forbidden" }, 403);
+    }
+
+    const overlayData = c.req.valid("json");
+
+    const libraryEntry = await db
+      .select({ code: DTCLibraryTable.code })
+      .from(DTCLibraryTable)
+      .where(eq(DTCLibraryTable.code, overlayData.code))
+      .then(res => res[0]);
+
+    if (!libraryEntry) {
+      return c.json({ error: "DTC code not found" }, 404);
+    }
+
+    const overlay = await db
+      .insert(dtcManufacturerOverlaysTable)
+      .values(overlayData)
+      .returning()
+      .then(res => res[0]);
+
+    logger.info({ overlayUUID: overlay.uuid, code: overlay.code, make: overlay.make, createdBy: user.id }, "DTC overlay created");
+
+    c.status(201);
+    return c.json(overlay);
+  })
+  .patch("/overlays/:overlayUUID", describeRoute({
+    tags: ["DTC"],
+    summary: "Update a manufacturer DTC overlay",
+    description: "Update a manufacturer-specific overlay of a DTC code. Admin only.",
+    responses: {
+      200: {
+        description: "OK",
+        content: {
+          "application/json": {
+            schema: resolver(zDTCOverlayResponseSchema),
+          },
+        },
+      },
+      400: badRequestResponseObject,
+      401: unauthorizedResponseObject,
+      403: forbiddenResponseObject,
+      404: notFoundResponseObject,
+    },
+  }), zValidator("param", z.object({
+    overlayUUID: z.string().uuid(),
+  })), zValidator("json", zDTCOverlayUpdateSchema), async (c) => {
+    const user = c.get("user");
+    const logger = c.get("logger");
+
+    if (!user) {
+      logger.warn("Unauthorized DTC overlay update attempt");
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+
+    if (user.role !== "admin") {
+      logger.warn({ userId: user.id }, "Non-admin access attempt - DTC overlay update");
+      return c.json({ error: "Forbidden" }, 403);
+    }
+
+    const { overlayUUID } = c.req.valid("param");
+    const updates = c.req.valid("json");
+
+    const existingOverlay = await db
+      .select()
+      .from(dtcManufacturerOverlaysTable)
+      .where(eq(dtcManufacturerOverlaysTable.uuid, overlayUUID))
+      .then(res => res[0]);
+
+    if (!existingOverlay) {
+      return c.json({ error: "DTC overlay not found" }, 404);
+    }
+
+    // The year range is checked against the stored bounds that are not being changed
+    const yearFrom = updates.yearFrom !== undefined ? updates.yearFrom : existingOverlay.yearFrom;
+    const yearTo = updates.yearTo !== undefined ? updates.yearTo : existingOverlay.yearTo;
+
+    if (yearFrom != null && yearTo != null && yearFrom > yearTo) {
+      return c.json({ error: "yearFrom must not be after yearTo" }, 400);
+    }
+
+    if (updates.code && updates.code !== existingOverlay.code) {
+      const libraryEntry = await db
+        .select({ code: DTCLibraryTable.code })
+        .from(DTCLibraryTable)
+        .where(eq(DTCLibraryTable.code, updates.code))
+        .then(res => res[0]);
+
+      if (!libraryEntry) {
+        return c.json({ error: "DTC code not found" }, 404);
+      }
+    }
+
+    const overlay = await db
+      .update(dtcManufacturerOverlaysTable)
+      .set(updates)
+      .where(eq(dtcManufacturerOverlaysTable.uuid, overlayUUID))
+      .returning()
+      .then(res => res[0]);
+
+    logger.info({ overlayUUID, updatedBy: user.id }, "DTC overlay updated");
+
+    return c.json(overlay);
+  })
+  .delete("/overlays/:overlayUUID", describeRoute({
+    tags: ["DTC"],
+    summary: "Delete a manufacturer DTC overlay",
+    description: "Delete a manufacturer-specific overlay, the code falls back to its generic library entry. Admin only.",
+    responses: {
+      200: {
+        description: "OK",
+        content: {
+          "application/json": {
+            schema: resolver(z.object({ message: z.string() })),
+          },
+        },
+      },
+      401: unauthorizedResponseObject,
+      403: forbiddenResponseObject,
+      404: notFoundResponseObject,
+    },
+  }), zValidator("param", z.object({
+    overlayUUID: z.string().uuid(),
+  })), async (c) => {
+    const user = c.get("user");
+    const logger = c.get("logger");
+
+    if (!user) {
+      logger.warn("Unauthorized DTC overlay deletion attempt");
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+
+    if (user.role !== "admin") {
+      logger.warn({ userId: user.id }, "Non-admin access attempt - DTC overlay deletion");
+      return c.json({ error: "Forbidden" }, 403);
+    }
+
+    const { overlayUUID } = c.req.valid("param");
+
+    const deletedOverlay = await db
+      .delete(dtcManufacturerOverlaysTable)
+      .where(eq(dtcManufacturerOverlaysTable.uuid, overlayUUID))
+      .returning()
+      .then(res => res[0]);
+
+    if (!deletedOverlay) {
+      return c.json({ error: "DTC overlay not found" }, 404);
+    }
+
+    logger.info({ overlayUUID, deletedBy: user.id }, "DTC overlay deleted");
+
+    return c.json({ message: "DTC overlay deleted successfully" });
   });
@@ -0,0 +1,330 @@
+import { and, asc, eq, gte, lte } from "drizzle-orm";
+import { Hono } from "hono";
+import { describeRoute } from "hono-openapi";
+import { resolver, validator as zValidator } from "hono-openapi/zod";
+import { z } from "zod";
+
+import type { AppBindings } from "../lib/types";
+
+import { db } from "../db";
+import { fuelLogsTable, insertFuelLogSchema } from "../db/schema/fuel-logs-schema";
+import { computeFuelEconomyIntervals, convertFuelLog, convertFuelSummary, summarizeFuelLogs, toCanonicalFill } from "../lib/fuel-economy";
+import { checkMaintenanceReminders } from "../lib/maintenance-schedules";
+import { getUnitPreferences, toCanonicalUnit } from "../lib/units";
+import { getAccessibleVehicle } from "../lib/vehicles";
+import { getSessionAndUser } from "../middleware/get-session-and-user";
+import { badRequestResponseObject, notFoundResponseObject, unauthorizedResponseObject } from "../zod/z-api-responses";
+import { zFuelLogCreateSchema, zFuelLogSchema, zFuelLogsListResponseSchema, zFuelLogsQuerySchema, zFuelLogUpdateSchema, zFuelStatsResponseSchema } from "../zod/z-fuel-logs";
+
+// Consumption is measured between full fills, so it is always computed over the whole log of the vehicle
+async function getVehicleFuelLogs(vehicleUUID: string) {
+  return db
+    .select()
+    .from(fuelLogsTable)
+    .where(eq(fuelLogsTable.vehicleUUID, vehicleUUID))
+    .orderBy(asc(fuelLogsTable.filledAt));
+}
+
+// Mounted under /vehicles/:vehicleUUID/fuel-logs
+export const fuelLogsRoute = new Hono<AppBindings>()
+  .use(getSessionAndUser)
+  .get("/", describeRoute({
+    tags: ["Fuel Logs"],
+    summary: "List the fuel-ups of a vehicle",
+    description: "List the fuel-ups of a vehicle, most recent first, with the consumption measured at each full fill (full-to-full method). Odometer, volume and price follow the user's unit preferences.",
+    responses: {
+      200: {
+        description: "OK",
+        content: {
+          "application/json": {
+            schema: resolver(zFuelLogsListResponseSchema),
+          },
+        },
+      },
+      401: unauthorizedResponseObject,
+      404: notFoundResponseObject,
+    },
+  }), zValidator("param", z.object({
+    vehicleUUID: z.string().uuid(),
+  })), zValidator("query", zFuelLogsQuerySchema), async (c) => {
+    const user = c.get("user");
+    const logger = c.get("logger");
+
+    if (!user) {
+      logger.warn("Unauthorized access attempt - fuel logs");
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+
+    const { vehicleUUID } = c.req.valid("param");
+    const { from, to } = c.req.valid("query");
+
+    const vehicle = await getAccessibleVehicle(vehicleUUID, user);
+
+    if (!vehicle) {
+      logger.warn({ userId: user.id, vehicleUUID }, "Vehicle not found or not owned");
+      return c.json({ error: "Vehicle not found" }, 404);
+    }
+
+    const logs = await getVehicleFuelLogs(vehicle.uuid);
+    const intervals = new Map(computeFuelEconomyIntervals(logs).map(interval => [interval.fuelLogUUID, interval]));
+    const preferences = await getUnitPreferences(user.id);
+
+    return c.json(
+      logs
+        .filter(log => (!from || log.filledAt >= new Date(from)) && (!to || log.filledAt <= new Date(to)))
+        .reverse()
+        .map(log => convertFuelLog(log, intervals.get(log.uuid), preferences)),
+    );
+  })
+  .get("/stats", describeRoute({
+    tags: ["Fuel Logs"],
+    summary: "Get the fuel statistics of a vehicle",
+    description: "Fuel spend, average consumption (L/100 km and US MPG), cost per distance and the monthly price trend of a vehicle. Consumption and cost per distance use the full-to-full method and only cover the distance between full fills.",
+    responses: {
+      200: {
+        description: "OK",
+        content: {
+          "application/json": {
+            schema: resolver(zFuelStatsResponseSchema),
+          },
+        },
+      },
+      401: unauthorizedResponseObject,
+      404: notFoundResponseObject,
+    },
+  }), zValidator("param", z.object({
+    vehicleUUID: z.string().uuid(),
+  })), zValidator("query", zFuelLogsQuerySchema), async (c) => {
+    const user = c.get("user");
+    const logger = c.get("logger");
+
+    if (!user) {
+      logger.warn("Unauthorized access attempt - fuel stats");
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+
+    const { vehicleUUID } = c.req.valid("param");
+    const { from, to } = c.req.valid("query");
+
+    const vehicle = await getAccessibleVehicle(vehicleUUID, user);
+
+    if (!vehicle) {
+      logger.warn({ userId: user.id, vehicleUUID }, "Vehicle not found or not owned");
+      return c.json({ error: "Vehicle not found" }, 404);
+    }
+
+    const logs = await db
+      .select()
+      .from(fuelLogsTable)
+      .where(
+        and(
+          eq(fuelLogsTable.vehicleUUID, vehicle.uuid),
+          from ? gte(fuelLogsTable.filledAt, new Date(from)) : undefined,
+          to ? lte(fuelLogsTable.filledAt, new Date(to)) : undefined,
+        ),
+      )
+      .orderBy(asc(fuelLogsTable.filledAt));
+
+    const preferences = await getUnitPreferences(user.id);
+
+    return c.json(convertFuelSummary(summarizeFuelLogs(logs), preferences));
+  })
+  .post("/", describeRoute({
+    tags: ["Fuel Logs"],
+    summary: "Record a fuel-up",
+    description: "Record a fuel-up of a vehicle. The odometer and volume may be entered in any supported unit and are stored in kilometres and litres; either the price per unit or the total cost is required.",
+    responses: {
+      201: {
+        description: "Fuel-up recorded",
+        content: {
+          "application/json": {
+            schema: resolver(zFuelLogSchema),
+          },
+        },
+      },
+      400: badRequestResponseObject,
+      401: unauthorizedResponseObject,
+      404: notFoundResponseObject,
+    },
+  }), zValidator("param", z.object({
+    vehicleUUID: z.string().uuid(),
+  })), zValidator("json", zFuelLogCreateSchema), async (c) => {
+    const user = c.get("user");
+    const logger = c.get("logger");
+
+    if (!user) {
+      logger.warn("Unauthorized fuel log creation attempt");
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+
+    const { vehicleUUID } = c.req.valid("param");
+    const { filledAt, odometer, odometerUnit, volume, volumeUnit, pricePerUnit, totalCost, ...rest } = c.req.valid("json");
+
+    const vehicle = await getAccessibleVehicle(vehicleUUID, user);
+
+    if (!vehicle) {
+      logger.warn({ userId: user.id, vehicleUUID }, "Vehicle not found or not owned");
+      return c.json({ error: "Vehicle not found" }, 404);
+    }
+
+    const fuelLog = await db
+      .insert(fuelLogsTable)
+      .values(insertFuelLogSchema.parse({
+        ...rest,
+        ...toCanonicalFill({ volume, volumeUnit, pricePerUnit, totalCost }),
+        vehicleUUID: vehicle.uuid,
+        filledAt: new Date(filledAt),
+        odometer: Math.round(toCanonicalUnit(odometer, odometerUnit).value),
+      }))
+      .returning()
+      .then(res => res[0]);
+
+    logger.info({ fuelLogUUID: fuelLog.uuid, vehicleUUID }, "Fuel log created");
+
+    // A new odometer reading can bring scheduled maintenance due
+    try {
+      await checkMaintenanceReminders(vehicle);
+    }
+    catch (error) {
+      logger.error({ error, vehicleUUID }, "Failed to check maintenance reminders");
+    }
+
+    const intervals = computeFuelEconomyIntervals(await getVehicleFuelLogs(vehicle.uuid));
+    const preferences = await getUnitPreferences(user.id);
+
+    c.status(201);
+    return c.json(convertFuelLog(fuelLog, intervals.find(interval => interval.fuelLogUUID === fuelLog.uuid), preferences));
+  })
+  .patch("/:fuelLogUUID", describeRoute({
+    tags: ["Fuel Logs"],
+    summary: "Update a fuel-up",
+    description: "Update a fuel-up of a vehicle. The volume and prices are re-derived from the fields sent, in the units given.",
+    responses: {
+      200: {
+        description: "OK",
+        content: {
+          "application/json": {
+            schema: resolver(zFuelLogSchema),
+          },
+        },
+      },
+      400: badRequestResponseObject,
+      401: unauthorizedResponseObject,
+      404: notFoundResponseObject,
+    },
+  }), zValidator("param", z.object({
+    vehicleUUID: z.string().uuid(),
+    fuelLogUUID: z.string().uuid(),
+  })), zValidator("json", zFuelLogUpdateSchema), async (c) => {
+    const user = c.get("user");
+    const logger = c.get("logger");
+
+    if (!user) {
+      logger.warn("Unauthorized fuel log update attempt");
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+
+    const { vehicleUUID, fuelLogUUID } = c.req.valid("param");
+    const { filledAt, odometer, odometerUnit, volume, volumeUnit, pricePerUnit, totalCost, ...rest } = c.req.valid("json");
+
+    const vehicle = await getAccessibleVehicle(vehicleUUID, user);
+
+    if (!vehicle) {
+      logger.warn({ userId: user.id, vehicleUUID }, "Vehicle not found or not owned");
+      return c.json({ error: "Vehicle not found" }, 404);
+    }
+
+    const fuelLog = await db
+      .select()
+      .from(fuelLogsTable)
+      .where(and(eq(fuelLogsTable.uuid, fuelLogUUID), eq(fuelLogsTable.vehicleUUID, vehicle.uuid)))
+      .then(res => res[0]);
+
+    if (!fuelLog) {
+      return c.json({ error: "Fuel log not found" }, 404);
+    }
+
+    // Everything is brought to litres first: a sent price is per unit of the request's volume unit,
+    // the stored one is already per litre. Without a new price, a new volume keeps the price per
+    // litre and changes the total
+    const fill = volume !== undefined || pricePerUnit !== undefined || totalCost !== undefined
+      ? toCanonicalFill({
+          volume: volume !== undefined ? toCanonicalUnit(volume, volumeUnit).value : fuelLog.volume,
+          volumeUnit: "L",
+          pricePerUnit: pricePerUnit !== undefined
+            ? pricePerUnit / toCanonicalUnit(1, volumeUnit).value
+            : totalCost === undefined ? fuelLog.pricePerLitre : undefined,
+          totalCost,
+        })
+      : {};
+
+    const updatedFuelLog = await db
+      .update(fuelLogsTable)
+      .set({
+        ...rest,
+        ...fill,
+        ...(filledAt !== undefined && { filledAt: new Date(filledAt) }),
+        ...(odometer !== undefined && { odometer: Math.round(toCanonicalUnit(odometer, odometerUnit).value) }),
+      })
+      .where(eq(fuelLogsTable.uuid, fuelLog.uuid))
+      .returning()
+      .then(res => res[0]);
+
+    logger.info({ fuelLogUUID, vehicleUUID }, "Fuel log updated");
+
+    const intervals = computeFuelEconomyIntervals(await getVehicleFuelLogs(vehicle.uuid));
+    const preferences = await getUnitPreferences(user.id);
+
+    return c.json(convertFuelLog(updatedFuelLog, intervals.find(interval => interval.fuelLogUUID === updatedFuelLog.uuid), preferences));
+  })
+  .delete("/:fuelLogUUID", describeRoute({
+    tags: ["Fuel Logs"],
+    summary: "Delete a fuel-up",
+    description: "Delete a fuel-up of a vehicle",
+    responses: {
+      200: {
+        description: "OK",
+        content: {
+          "application/json": {
+            schema: resolver(z.object({ message: z.string() })),
+          },
+        },
+      },
+      401: unauthorizedResponseObject,
+      404: notFoundResponseObject,
+    },
+  }), zValidator("param", z.object({
+    vehicleUUID: z.string().uuid(),
+    fuelLogUUID: z.string().uuid(),
+  })), async (c) => {
+    const user = c.get("user");
+    const logger = c.get("logger");
+
+    if (!user) {
+      logger.warn("Unauthorized fuel log deletion attempt");
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+
+    const { vehicleUUID, fuelLogUUID } = c.req.valid("param");
+
+    const vehicle = await getAccessibleVehicle(vehicleUUID, user);
+
+    if (!vehicle) {
+      logger.warn({ userId: user.id, vehicleUUID }, "Vehicle not found or not owned");
+      return c.json({ error: "Vehicle not found" }, 404);
+    }
+
+    const deletedFuelLog = await db
+      .delete(fuelLogsTable)
+      .where(and(eq(fuelLogsTable.uuid, fuelLogUUID), eq(fuelLogsTable.vehicleUUID, vehicle.uuid)))
+      .returning()
+      .then(res => res[0]);
+
+    if (!deletedFuelLog) {
+      return c.json({ error: "Fuel log not found" }, 404);
+    }
+
+    logger.info({ fuelLogUUID, vehicleUUID }, "Fuel log deleted");
+
+    return c.json({ message: "Fuel log deleted successfully" });
+  });
@@ -0,0 +1,389 @@
+import { and, desc, eq } from "drizzle-orm";
+import { Hono } from "hono";
+import { describeRoute } from "hono-openapi";
+import { resolver, validator as zValidator } from "hono-openapi/zod";
+import { z } from "zod";
+
+import type { AppBindings } from "../lib/types";
+
+import { db } from "../db";
+import { geofenceEventsTable, geofencesTable, insertGeofenceSchema } from "../db/schema/geofences-schema";
+import { normalizeGeofenceShape, validateGeofenceShape } from "../lib/geofences";
+import { getAccessibleVehicle } from "../lib/vehicles";
+import { getSessionAndUser } from "../middleware/get-session-and-user";
+import { badRequestResponseObject, notFoundResponseObject, unauthorizedResponseObject } from "../zod/z-api-responses";
+import {
+  zGeofenceCreateSchema,
+  zGeofenceEventsListResponseSchema,
+  zGeofenceEventsQuerySchema,
+  zGeofenceSchema,
+  zGeofencesListResponseSchema,
+  zGeofenceUpdateSchema,
+} from "../zod/z-geofences";
+
+// Mounted under /vehicles/:vehicleUUID/geofences
+export const geofencesRoute = new Hono<AppBindings>()
+  .use(getSessionAndUser)
+  .get("/", describeRoute({
+    tags: ["Geofences"],
+    summary: "List geofences of a vehicle",
+    description: "List the circular and polygon geofences drawn for a vehicle",
+    responses: {
+      200: {
+        description: "OK",
+        content: {
+          "application/json": {
+            schema: resolver(zGeofencesListResponseSchema),
+          },
+        },
+      },
+      401: unauthorizedResponseObject,
+      404: notFoundResponseObject,
+    },
+  }), zValidator("param", z.object({
+    vehicleUUID: z.string().uuid(),
+  })), async (c) => {
+    const user = c.get("user");
+    const logger = c.get("logger");
+
+    if (!user) {
+      logger.warn("Unauthorized access attempt - geofences");
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+
+    const { vehicleUUID } = c.req.valid("param");
+
+    const vehicle = await getAccessibleVehicle(vehicleUUID, user);
+
+    if (!vehicle) {
+      logger.warn({ userId: user.id, vehicleUUID }, "Vehicle not found or not owned");
+      return c.json({ error: "Vehicle not found" }, 404);
+    }
+
+    const geofences = await db
+      .select()
+      .from(geofencesTable)
+      .where(eq(geofencesTable.vehicleUUID, vehicle.uuid))
+      .orderBy(desc(geofencesTable.createdAt));
+
+    return c.json(geofences);
+  })
+  .post("/", describeRoute({
+    tags: ["Geofences"],
+    summary: "Create a geofence",
+    description: "Create a circular (center + radius in metres) or polygon geofence for a vehicle. Locations stored for the vehicle are evaluated against it and crossing its boundary records an enter or exit event.",
+    responses: {
+      201: {
+        description: "Created",
+        content: {
+          "application/json": {
+            schema: resolver(zGeofenceSchema),
+          },
+        },
+      },
+      400: badRequestResponseObject,
+      401: unauthorizedResponseObject,
+      404: notFoundResponseObject,
+    },
+  }), zValidator("param", z.object({
+    vehicleUUID: z.string().uuid(),
+  })), zValidator("json", zGeofenceCreateSchema), async (c) => {
+    const user = c.get("user");
+    const logger = c.get("logger");
+
+    if (!user) {
+      logger.warn("Unauthorized geofence creation attempt");
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+
+    const { vehicleUUID } = c.req.valid("param");
+    const data = c.req.valid("json");
+
+    const vehicle = await getAccessibleVehicle(vehicleUUID, user);
+
+    if (!vehicle) {
+      logger.warn({ userId: user.id, vehicleUUID }, "Vehicle not found or not owned");
+      return c.json({ error: "Vehicle not found" }, 404);
+    }
+
+    const shape = normalizeGeofenceShape({
+      shape: data.shape,
+      centerLatitude: data.centerLatitude ?? null,
+      centerLongitude: data.centerLongitude ?? null,
+      radius: data.radius ?? null,
+      polygon: data.polygon ?? null,
+    });
+
+    const shapeError = validateGeofenceShape(shape);
+
+    if (shapeError) {
+      return c.json({ error: shapeError }, 400);
+    }
+
+    const geofence = await db
+      .insert(geofencesTable)
+      .values(insertGeofenceSchema.parse({
+        ...data,
+        ...shape,
+        vehicleUUID: vehicle.uuid,
+      }))
+      .returning()
+      .then(res => res[0]);
+
+    logger.info({ geofenceUUID: geofence.uuid, vehicleUUID, shape: geofence.shape }, "Geofence created");
+
+    c.status(201);
+    return c.json(geofence);
+  })
+  .get("/events", describeRoute({
+    tags: ["Geofences"],
+    summary: "Get geofence events of a vehicle",
+    description: "Get the history of geofence enter and exit events for a vehicle, most recent first",
+    responses: {
+      200: {
+        description: "OK",
+        content: {
+          "application/json": {
+            schema: resolver(zGeofenceEventsListResponseSchema),
+          },
+        },
+      },
+      401: unauthorizedResponseObject,
+      404: notFoundResponseObject,
+    },
+  }), zValidator("param", z.object({
+    vehicleUUID: z.string().uuid(),
+  })), zValidator("query", zGeofenceEventsQuerySchema), async (c) => {
+    const user = c.get("user");
+    const logger = c.get("logger");
+
+    if (!user) {
+      logger.warn("Unauthorized access attempt - geofence events");
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+
+    const { vehicleUUID } = c.req.valid("param");
+    const { geofenceUUID, limit } = c.req.valid("query");
+
+    const vehicle = await getAccessibleVehicle(vehicleUUID, user);
+
+    if (!vehicle) {
+      logger.warn({ userId: user.id, vehicleUUID }, "Vehicle not found or not owned");
+      return c.json({ error: "Vehicle not found" }, 404);
+    }
+
+    const events = await db
+      .select({
+        event: geofenceEventsTable,
+        geofenceName: geofencesTable.name,
+      })
+      .from(geofenceEventsTable)
+      .innerJoin(geofencesTable, eq(geofenceEventsTable.geofenceUUID, geofencesTable.uuid))
+      .where(
+        and(
+          eq(geofenceEventsTable.vehicleUUID, vehicle.uuid),
+          geofenceUUID ? eq(geofenceEventsTable.geofenceUUID, geofenceUUID) : undefined,
+        ),
+      )
+      .orderBy(desc(geofenceEventsTable.occurredAt))
+      .limit(limit);
+
+    return c.json(events.map(({ event, geofenceName }) => ({ ...event, geofenceName })));
+  })
+  .get("/:geofenceUUID", describeRoute({
+    tags: ["Geofences"],
+    summary: "Get a geofence",
+    description: "Get a single geofence of a vehicle",
+    responses: {
+      200: {
+        description: "OK",
+        content: {
+          "application/json": {
+            schema: resolver(zGeofenceSchema),
+          },
+        },
+      },
+      401: unauthorizedResponseObject,
+      404: notFoundResponseObject,
+    },
+  }), zValidator("param", z.object({
+    vehicleUUID: z.string().uuid(),
+    geofenceUUID: z.string().uuid(),
+  })), async (c) => {
+    const user = c.get("user");
+    const logger = c.get("logger");
+
+    if (!user) {
+      logger.warn("Unauthorized access attempt - geofence");
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+
+    const { vehicleUUID, geofenceUUID } = c.req.valid("param");
+
+    const vehicle = await getAccessibleVehicle(vehicleUUID, user);
+
+    if (!vehicle) {
+      logger.warn({ userId: user.id, vehicleUUID }, "Vehicle not found or not owned");
+      return c.json({ error: "Vehicle not found" }, 404);
+    }
+
+    const geofence = await db
+      .select()
+      .from(geofencesTable)
+      .where(
+        and(
+          eq(geofencesTable.uuid, geofenceUUID),
+          eq(geofencesTable.vehicleUUID, vehicle.uuid),
+        ),
+      )
+      .then(res => res[0]);
+
+    if (!geofence) {
+      return c.json({ error: "Geofence not found" }, 404);
+    }
+
+    return c.json(geofence);
+  })
+  .patch("/:geofenceUUID", describeRoute({
+    tags: ["Geofences"],
+    summary: "Update a geofence",
+    description: "Update a geofence of a vehicle. Changing its shape or coordinates resets its inside/outside state, the next location sets it again without recording an event.",
+    responses: {
+      200: {
+        description: "OK",
+        content: {
+          "application/json": {
+            schema: resolver(zGeofenceSchema),
+          },
+        },
+      },
+      400: badRequestResponseObject,
+      401: unauthorizedResponseObject,
+      404: notFoundResponseObject,
+    },
+  }), zValidator("param", z.object({
+    vehicleUUID: z.string().uuid(),
+    geofenceUUID: z.string().uuid(),
+  })), zValidator("json", zGeofenceUpdateSchema), async (c) => {
+    const user = c.get("user");
+    const logger = c.get("logger");
+
+    if (!user) {
+      logger.warn("Unauthorized geofence update attempt");
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+
+    const { vehicleUUID, geofenceUUID } = c.req.valid("param");
+    const data = c.req.valid("json");
+
+    const vehicle = await getAccessibleVehicle(vehicleUUID, user);
+
+    if (!vehicle) {
+      logger.warn({ userId: user.id, vehicleUUID }, "Vehicle not found or not owned");
+      return c.json({ error: "Vehicle not found" }, 404);
+    }
+
+    const geofence = await db
+      .select()
+      .from(geofencesTable)
+      .where(
+        and(
+          eq(geofencesTable.uuid, geofenceUUID),
+          eq(geofencesTable.vehicleUUID, vehicle.uuid),
+        ),
+      )
+      .then(res => res[0]);
+
+    if (!geofence) {
+      return c.json({ error: "Geofence not found" }, 404);
+    }
+
+    const { shape, centerLatitude, centerLongitude, radius, polygon, ...rest } = data;
+
+    // Re-validate the boundary when any part of it changes
+    let boundary = {};
+    if (shape !== undefined || centerLatitude !== undefined || centerLongitude !== undefined || radius !== undefined || polygon !== undefined) {
+      const updatedShape = normalizeGeofenceShape({
+        shape: shape ?? geofence.shape,
+        centerLatitude: centerLatitude ?? geofence.centerLatitude,
+        centerLongitude: centerLongitude ?? geofence.centerLongitude,
+        radius: radius ?? geofence.radius,
+        polygon: polygon ?? geofence.polygon,
+      });
+
+      const shapeError = validateGeofenceShape(updatedShape);
+
+      if (shapeError) {
+        return c.json({ error: shapeError }, 400);
+      }
+
+      boundary = { ...updatedShape, isInside: null, lastLocationAt: null };
+    }
+
+    const updatedGeofence = await db
+      .update(geofencesTable)
+      .set({ ...rest, ...boundary })
+      .where(eq(geofencesTable.uuid, geofence.uuid))
+      .returning()
+      .then(res => res[0]);
+
+    logger.info({ geofenceUUID, vehicleUUID }, "Geofence updated");
+
+    return c.json(updatedGeofence);
+  })
+  .delete("/:geofenceUUID", describeRoute({
+    tags: ["Geofences"],
+    summary: "Delete a geofence",
+    description: "Delete a geofence of a vehicle together with its event history",
+    responses: {
+      200: {
+        description: "OK",
+        content: {
+          "application/json": {
+            schema: resolver(z.object({ message: z.string() })),
+          },
+        },
+      },
+      401: unauthorizedResponseObject,
+      404: notFoundResponseObject,
+    },
+  }), zValidator("param", z.object({
+    vehicleUUID: z.string().uuid(),
+    geofenceUUID: z.string().uuid(),
+  })), async (c) => {
+    const user = c.get("user");
+    const logger = c.get("logger");
+
+    if (!user) {
+      logger.warn("Unauthorized geofence deletion attempt");
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+
+    const { vehicleUUID, geofenceUUID } = c.req.valid("param");
+
+    const vehicle = await getAccessibleVehicle(vehicleUUID, user);
+
+    if (!vehicle) {
+      logger.warn({ userId: user.id, vehicleUUID }, "Vehicle not found or not owned");
+      return c.json({ error: "Vehicle not found" }, 404);
+    }
+
+    const deletedGeofence = await db
+      .delete(geofencesTable)
+      .where(
+        and(
+          eq(geofencesTable.uuid, geofenceUUID),
+          eq(geofencesTable.vehicleUUID, vehicle.uuid),
+        ),
+      )
+      .returning()
+      .then(res => res[0]);
+
+    if (!deletedGeofence) {
+      return c.json({ error: "Geofence not found" }, 404);
+    }
+
+    logger.info({ geofenceUUID, vehicleUUID }, "Geofence deleted");
+
+    return c.json({ message: "Geofence deleted successfully" });
+  });
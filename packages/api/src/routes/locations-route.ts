@@ -1,21 +1,45 @@
-import { and, desc, eq, inArray, sql } from "drizzle-orm";
+import type { BatchItem } from "drizzle-orm/batch";
+
+import { and, desc, eq, inArray, isNull, sql } from "drizzle-orm";
 import { Hono } from "hono";
 import { describeRoute } from "hono-openapi";
 import { resolver, validator as zValidator } from "hono-openapi/zod";
+import { stream } from "hono/streaming";
 import { z } from "zod";
 
 import type { AppBindings } from "../lib/types";
 
 import { db } from "../db";
-import { diagnosticsTable } from "../db/schema/diagnostics-schema";
+import { diagnosticsTable, insertDiagnosticSchema } from "../db/schema/diagnostics-schema";
 import { insertLocationSchema, locationsTable } from "../db/schema/locations-schema";
 import { vehiclesTable } from "../db/schema/vehicles-schema";
+import { evaluateGeofences } from "../lib/geofences";
+import { parseGPX, ROUTE_FORMAT_CONTENT_TYPES, serializeRoute } from "../lib/route-formats";
+import { detectVehicleTrips } from "../lib/trips";
+import { convertLocation, getUnitPreferences } from "../lib/units";
 import { getSessionAndUser } from "../middleware/get-session-and-user";
 import { badRequestResponseObject, notFoundResponseObject, unauthorizedResponseObject } from "../zod/z-api-responses";
-import { zBulkLocationInsertSchema, zBulkLocationsResponseSchema, zLocationGetResponseSchema, zLocationInsertSchema, zLocationsListResponseSchema } from "../zod/z-locations";
+import {
+  zBulkLocationInsertSchema,
+  zBulkLocationsResponseSchema,
+  zGPXImportErrorResponseSchema,
+  zGPXImportResponseSchema,
+  zGPXImportSchema,
+  zLocationGetResponseSchema,
+  zLocationInsertSchema,
+  zLocationsListResponseSchema,
+  zLocationWithUnitsSchema,
+  zRouteExportQuerySchema,
+} from "../zod/z-locations";
 
 const MAX_LOCATIONS_LIMIT = 100;
 
+// Rows per insert when importing, keeps the statement under the driver's parameter limit
+const IMPORT_BATCH_SIZE = 500;
+
+// Invalid points listed in the error response of an import
+const MAX_REPORTED_IMPORT_ERRORS = 20;
+
 export const locationsRoute = new Hono<AppBindings>()
   .use(getSessionAndUser)
   .get("/", describeRoute({
@@ -64,7 +88,9 @@ export const locationsRoute = new Hono<AppBindings>()
         logger.debug({ count: locations.length }, "Locations found");
       }
 
-      return c.json(locations);
+      const preferences = await getUnitPreferences(user.id);
+
+      return c.json(locations.map(location => convertLocation(location, preferences)));
     }
 
     // For admin users
@@ -76,7 +102,9 @@ export const locationsRoute = new Hono<AppBindings>()
       logger.debug({ count: locations.length }, "Locations found");
     }
 
-    return c.json(locations);
+    const preferences = await getUnitPreferences(user.id);
+
+    return c.json(locations.map(location => convertLocation(location, preferences)));
   })
   .get("/recent", describeRoute({
     tags: ["Locations"],
@@ -144,7 +172,9 @@ export const locationsRoute = new Hono<AppBindings>()
         logger.debug({ count: locations.length }, "Recent locations found");
       }
 
-      return c.json(locations);
+      const preferences = await getUnitPreferences(user.id);
+
+      return c.json(locations.map(location => convertLocation(location, preferences)));
     }
 
     // For admin users
@@ -168,7 +198,9 @@ export const locationsRoute = new Hono<AppBindings>()
       logger.debug({ count: locations.length }, "Recent locations found");
     }
 
-    return c.json(locations);
+    const preferences = await getUnitPreferences(user.id);
+
+    return c.json(locations.map(location => convertLocation(location, preferences)));
   })
   .get("/:locationUUID", describeRoute({
     tags: ["Locations"],
@@ -179,7 +211,7 @@ export const locationsRoute = new Hono<AppBindings>()
         description: "OK",
         content: {
           "application/json": {
-            schema: resolver(zLocationGetResponseSchema),
+            schema: resolver(zLocationWithUnitsSchema),
           },
         },
       },
@@ -236,7 +268,9 @@ export const locationsRoute = new Hono<AppBindings>()
         }
       }
 
-      return c.json(location);
+      const preferences = await getUnitPreferences(user.id);
+
+      return c.json(convertLocation(location, preferences));
     }
 
     // For admin users
@@ -251,11 +285,13 @@ export const locationsRoute = new Hono<AppBindings>()
       return c.json({ error: "Location not found" }, 404);
     }
 
-    return c.json(location);
+    const preferences = await getUnitPreferences(user.id);
+
+    return c.json(convertLocation(location, preferences));
   })
   .post("/", describeRoute({
     tags: ["Locations"],
-    description: "Create a new location for a vehicle. If user role is 'user', they can only create locations for their own vehicles.",
+    description: "Create a new location for a vehicle. If user role is 'user', they can only create locations for their own vehicles. The vehicle's trips are re-detected from the new location and the location is evaluated against the vehicle's geofences.",
     summary: "Create a new location",
     responses: {
       201: {
@@ -309,6 +345,23 @@ export const locationsRoute = new Hono<AppBindings>()
       .returning()
       .then(res => res[0]);
 
+    try {
+      await detectVehicleTrips(newLocation.vehicleUUID, newLocation.timestamp);
+    }
+    catch (error) {
+      logger.error({ error, vehicleUUID: newLocation.vehicleUUID }, "Failed to detect trips");
+    }
+
+    try {
+      const geofenceEvents = await evaluateGeofences(newLocation.vehicleUUID, [newLocation]);
+      if (geofenceEvents.length > 0) {
+        logger.info({ vehicleUUID: newLocation.vehicleUUID, geofenceUUIDs: geofenceEvents.map(event => event.geofenceUUID) }, "Geofence boundaries crossed");
+      }
+    }
+    catch (error) {
+      logger.error({ error, vehicleUUID: newLocation.vehicleUUID }, "Failed to evaluate geofences");
+    }
+
     c.status(201);
 
     logger.info({ uuid: newLocation.uuid, vehicleUUID: newLocation.vehicleUUID }, "Location created");
@@ -318,7 +371,7 @@ export const locationsRoute = new Hono<AppBindings>()
   .post("/:diagnosticUUID/bulk", describeRoute({
     tags: ["Locations"],
     summary: "Create multiple locations in bulk for a diagnostic session",
-    description: "Create multiple locations for a diagnostic session in a single request. This is optimized for mobile apps that collect location data frequently during a diagnostic session.",
+    description: "Create multiple locations for a diagnostic session in a single request. This is optimized for mobile apps that collect location data frequently during a diagnostic session. The vehicle's trips are re-detected from the earliest uploaded location and the locations are evaluated against the vehicle's geofences.",
     responses: {
       201: {
         description: "Created",
@@ -396,6 +449,29 @@ export const locationsRoute = new Hono<AppBindings>()
     // Insert all locations
     const newLocations = await db.insert(locationsTable).values(validatedLocations).returning();
 
+    // Trips are rebuilt from the earliest uploaded location, uploads may arrive out of order
+    if (newLocations.length > 0) {
+      const since = new Date(newLocations.reduce((earliest, location) => Math.min(earliest, location.timestamp.getTime()), Infinity));
+
+      try {
+        const trips = await detectVehicleTrips(diagnostic.vehicleUUID, since);
+        logger.debug({ vehicleUUID: diagnostic.vehicleUUID, tripCount: trips.length }, "Trips detected");
+      }
+      catch (error) {
+        logger.error({ error, vehicleUUID: diagnostic.vehicleUUID }, "Failed to detect trips");
+      }
+
+      try {
+        const geofenceEvents = await evaluateGeofences(diagnostic.vehicleUUID, newLocations);
+        if (geofenceEvents.length > 0) {
+          logger.info({ vehicleUUID: diagnostic.vehicleUUID, geofenceUUIDs: geofenceEvents.map(event => event.geofenceUUID) }, "Geofence boundaries crossed");
+        }
+      }
+      catch (error) {
+        logger.error({ error, vehicleUUID: diagnostic.vehicleUUID }, "Failed to evaluate geofences");
+      }
+    }
+
     c.status(201);
 
     logger.debug({
@@ -412,7 +488,7 @@ export const locationsRoute = new Hono<AppBindings>()
   .get("/:diagnosticUUID/locations", describeRoute({
     tags: ["Locations"],
     summary: "Get all locations for a diagnostic session",
-    description: "Get all locations recorded during a specific diagnostic session",
+    description: "Get all locations recorded during a specific diagnostic session. Speed and altitude follow the user's unit preferences.",
     responses: {
       200: {
         description: "OK",
@@ -476,5 +552,185 @@ export const locationsRoute = new Hono<AppBindings>()
       .where(eq(locationsTable.diagnosticUUID, diagnosticUUID))
       .orderBy(locationsTable.timestamp);
 
-    return c.json(locations);
+    const preferences = await getUnitPreferences(user.id);
+
+    return c.json(locations.map(location => convertLocation(location, preferences)));
+  })
+  .get("/:diagnosticUUID/export", describeRoute({
+    tags: ["Locations"],
+    summary: "Export the route of a diagnostic session",
+    description: "Stream the locations of a diagnostic session as a GPX 1.1 track, a KML gx:Track or a GeoJSON LineString. Altitude is included in the coordinates and speed in each format's extension (TrackPointExtension, ExtendedData, coordinateProperties), in metres and m/s.",
+    responses: {
+      200: {
+        description: "Route document",
+        content: {
+          "application/gpx+xml": { schema: { type: "string" } },
+          "application/vnd.google-earth.kml+xml": { schema: { type: "string" } },
+          "application/geo+json": { schema: { type: "object" } },
+        },
+      },
+      401: unauthorizedResponseObject,
+      404: notFoundResponseObject,
+    },
+  }), zValidator("param", z.object({
+    diagnosticUUID: z.string().uuid(),
+  })), zValidator("query", zRouteExportQuerySchema), async (c) => {
+    const user = c.get("user");
+    const logger = c.get("logger");
+
+    if (!user) {
+      logger.warn("Unauthorized access attempt - route export");
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+
+    const { diagnosticUUID } = c.req.valid("param");
+    const { format } = c.req.valid("query");
+
+    const diagnostic = await db
+      .select({ diagnostic: diagnosticsTable, ownerId: vehiclesTable.ownerId })
+      .from(diagnosticsTable)
+      .innerJoin(vehiclesTable, eq(diagnosticsTable.vehicleUUID, vehiclesTable.uuid))
+      .where(eq(diagnosticsTable.uuid, diagnosticUUID))
+      .then(res => res[0]);
+
+    if (!diagnostic || (user.role === "user" && diagnostic.ownerId !== user.id)) {
+      logger.warn({ userId: user.id, diagnosticUUID }, "Diagnostic not found or not owned");
+      return c.json({ error: "Diagnostic not found" }, 404);
+    }
+
+    const locations = await db
+      .select()
+      .from(locationsTable)
+      .where(eq(locationsTable.diagnosticUUID, diagnosticUUID))
+      .orderBy(locationsTable.timestamp);
+
+    logger.debug({ diagnosticUUID, format, locationCount: locations.length }, "Exporting diagnostic route");
+
+    const name = `Diagnostic ${diagnostic.diagnostic.createdAt.toISOString().slice(0, 10)}`;
+
+    c.header("Content-Type", ROUTE_FORMAT_CONTENT_TYPES[format]);
+    c.header("Content-Disposition", `attachment; filename="diagnostic-${diagnosticUUID}.${format}"`);
+
+    return stream(c, async (output) => {
+      for (const chunk of serializeRoute(format, name, locations)) {
+        await output.write(chunk);
+      }
+    });
+  })
+  .post("/import", describeRoute({
+    tags: ["Locations"],
+    summary: "Import a GPX file",
+    description: "Import the track points of a GPX 1.0/1.1 file recorded by another app as the locations of a new diagnostic session. Every point needs coordinates and a time; speed is read from <speed> or a TrackPointExtension. The vehicle's trips are re-detected afterwards, geofences are not evaluated for imported history.",
+    responses: {
+      201: {
+        description: "Created",
+        content: {
+          "application/json": {
+            schema: resolver(zGPXImportResponseSchema),
+          },
+        },
+      },
+      400: {
+        description: "Invalid GPX file",
+        content: {
+          "application/json": {
+            schema: resolver(zGPXImportErrorResponseSchema),
+          },
+        },
+      },
+      401: unauthorizedResponseObject,
+      404: notFoundResponseObject,
+    },
+  }), zValidator("json", zGPXImportSchema), async (c) => {
+    const user = c.get("user");
+    const logger = c.get("logger");
+
+    if (!user) {
+      logger.warn("Unauthorized GPX import attempt");
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+
+    const { vehicleUUID, gpx, odometer, notes } = c.req.valid("json");
+
+    const vehicle = await db
+      .select()
+      .from(vehiclesTable)
+      .where(
+        and(
+          eq(vehiclesTable.uuid, vehicleUUID),
+          user.role === "user" ? eq(vehiclesTable.ownerId, user.id) : undefined,
+          isNull(vehiclesTable.deletedAt),
+        ),
+      )
+      .then(res => res[0]);
+
+    if (!vehicle) {
+      logger.warn({ userId: user.id, vehicleUUID }, "Vehicle not found or not owned");
+      return c.json({ error: "Vehicle not found" }, 404);
+    }
+
+    const { name, points, errors } = parseGPX(gpx);
+
+    if (errors.length > 0 || points.length === 0) {
+      logger.warn({ vehicleUUID, errorCount: errors.length }, "Invalid GPX import");
+      return c.json({
+        error: points.length === 0 && errors.length === 0 ? "The GPX file contains no track points" : "Invalid GPX file",
+        errors: errors.slice(0, MAX_REPORTED_IMPORT_ERRORS),
+      }, 400);
+    }
+
+    // Imported sessions reuse the last known odometer unless one is given
+    const latestOdometer = odometer ?? await db
+      .select({ odometer: diagnosticsTable.odometer })
+      .from(diagnosticsTable)
+      .where(eq(diagnosticsTable.vehicleUUID, vehicle.uuid))
+      .orderBy(desc(diagnosticsTable.createdAt))
+      .limit(1)
+      .then(res => res[0]?.odometer ?? 0);
+
+    // The session and its locations are written in one batch, a failed import leaves no empty session behind
+    const diagnosticUUID = crypto.randomUUID();
+    const locationInserts: BatchItem<"pg">[] = [];
+
+    for (let start = 0; start < points.length; start += IMPORT_BATCH_SIZE) {
+      locationInserts.push(db.insert(locationsTable).values(
+        points.slice(start, start + IMPORT_BATCH_SIZE).map(point => insertLocationSchema.parse({
+          ...point,
+          diagnosticUUID,
+          vehicleUUID: vehicle.uuid,
+        })),
+      ));
+    }
+
+    const [[diagnostic]] = await db.batch([
+      db
+        .insert(diagnosticsTable)
+        .values(insertDiagnosticSchema.parse({
+          uuid: diagnosticUUID,
+          vehicleUUID: vehicle.uuid,
+          odometer: latestOdometer,
+          locationLat: points[0].latitude,
+          locationLong: points[0].longitude,
+          notes: notes ?? (name ? `Imported from GPX: ${name}` : "Imported from GPX"),
+          createdAt: points[0].timestamp,
+        }))
+        .returning(),
+      ...locationInserts,
+    ]);
+
+    try {
+      await detectVehicleTrips(vehicle.uuid, points[0].timestamp);
+    }
+    catch (error) {
+      logger.error({ error, vehicleUUID }, "Failed to detect trips");
+    }
+
+    logger.info({ diagnosticUUID: diagnostic.uuid, vehicleUUID, locationCount: points.length }, "GPX imported");
+
+    c.status(201);
+    return c.json({
+      message: "GPX imported successfully",
+      diagnostic,
+      count: points.length,
+    });
   });
@@ -1,13 +1,14 @@
+import type { BatchItem } from "drizzle-orm/batch";
+
 import { and, desc, eq, inArray, isNull } from "drizzle-orm";
 import { Hono } from "hono";
 import { describeRoute } from "hono-openapi";
-import { resolver } from "hono-openapi/zod";
-
-import { zCreateMaintenanceEntrySchema, zDeleteMaintenanceEntryResponseSchema, zMaintenanceEntryResponseSchema, zMaintenanceHistoryResponseSchema } from "@/zod/z-maintenance";
+import { resolver, validator as zValidator } from "hono-openapi/zod";
 
 import type { AppBindings } from "../lib/types";
 
 import { db } from "../db";
+import { maintenanceAttachmentsTable } from "../db/schema/maintenance-attachments-schema";
 import {
   maintenanceLogTable,
 } from "../db/schema/maintenance-log-schema";
@@ -16,12 +17,95 @@ import {
 } from "../db/schema/maintenance-log-services-schema";
 import { serviceWorkshopsTable } from "../db/schema/service-workshops-schema";
 import { vehiclesTable } from "../db/schema/vehicles-schema";
+import {
+  ATTACHMENT_EXTENSIONS,
+  convertAttachment,
+  getAttachmentContentType,
+  getAttachmentKey,
+  getAttachmentsByEntry,
+  MAX_ATTACHMENT_SIZE,
+  MAX_ATTACHMENTS_PER_UPLOAD,
+} from "../lib/maintenance-attachments";
+import { convertLineItem, getLineItemsByEntry, getLineItemsTotal, replaceLineItems } from "../lib/maintenance-costs";
+import { checkMaintenanceReminders } from "../lib/maintenance-schedules";
+import { convertDistance, getUnitPreferences, toCanonicalUnit } from "../lib/units";
+import { isWorkshopVisibleTo, normalizeWorkshopName } from "../lib/workshops";
 import { getSessionAndUser } from "../middleware/get-session-and-user";
 import {
   badRequestResponseObject,
   notFoundResponseObject,
   unauthorizedResponseObject,
 } from "../zod/z-api-responses";
+import {
+  zCreateMaintenanceEntrySchema,
+  zDeleteMaintenanceEntryResponseSchema,
+  zMaintenanceAttachmentDownloadQuerySchema,
+  zMaintenanceAttachmentsUploadResponseSchema,
+  zMaintenanceAttachmentUploadSchema,
+  zMaintenanceEntryResponseSchema,
+  zMaintenanceHistoryResponseSchema,
+  zUpdateMaintenanceEntrySchema,
+} from "../zod/z-maintenance";
+
+// Workshops typed in by name have no known location. The same name reuses the same workshop, but
+// only among the user's own: the creator of a workshop can edit it, so it is never shared
+async function createCustomWorkshop(name: string, userId: string) {
+  const normalizedName = normalizeWorkshopName(name);
+
+  const existingWorkshop = await db
+    .select()
+    .from(serviceWorkshopsTable)
+    .where(
+      and(
+        eq(serviceWorkshopsTable.createdBy, userId),
+        isNull(serviceWorkshopsTable.latitude),
+      ),
+    )
+    .then(res => res.find(workshop => normalizeWorkshopName(workshop.name) === normalizedName));
+
+  if (existingWorkshop) {
+    return existingWorkshop;
+  }
+
+  return db
+    .insert(serviceWorkshopsTable)
+    .values({
+      name: name.trim(),
+      createdBy: userId,
+    })
+    .returning()
+    .then(res => res[0]);
+}
+
+// Custom workshops of other users count as missing, like in the workshop directory
+async function workshopExists(workshopUUID: string, userId: string) {
+  const workshop = await db
+    .select({ uuid: serviceWorkshopsTable.uuid })
+    .from(serviceWorkshopsTable)
+    .where(and(eq(serviceWorkshopsTable.uuid, workshopUUID), isWorkshopVisibleTo(userId)))
+    .then(res => res[0]);
+
+  return workshop !== undefined;
+}
+
+// Maintenance entry together with its vehicle, if the vehicle belongs to the user
+async function getOwnedMaintenanceEntry(maintenanceUUID: string, userId: string) {
+  return db
+    .select({
+      maintenanceEntry: maintenanceLogTable,
+      vehicle: vehiclesTable,
+    })
+    .from(maintenanceLogTable)
+    .innerJoin(vehiclesTable, eq(maintenanceLogTable.vehicleUUID, vehiclesTable.uuid))
+    .where(
+      and(
+        eq(maintenanceLogTable.uuid, maintenanceUUID),
+        eq(vehiclesTable.ownerId, userId),
+        isNull(vehiclesTable.deletedAt),
+      ),
+    )
+    .then(res => res[0]);
+}
 
 export const maintenanceRoute = new Hono<AppBindings>()
   .use(getSessionAndUser)
@@ -95,17 +179,13 @@ export const maintenanceRoute = new Hono<AppBindings>()
       // Handle workshop UUID - either existing workshop or create a new one
       let serviceWorkshopUUID = requestData.serviceWorkshopUUID;
 
+      if (serviceWorkshopUUID && !(await workshopExists(serviceWorkshopUUID, currentUser.id))) {
+        return c.json({ error: "Workshop not found" }, 404);
+      }
+
       if (!serviceWorkshopUUID && requestData.customServiceWorkshopName) {
         // Create a new workshop
-        const defaultWorkshop = await db
-          .insert(serviceWorkshopsTable)
-          .values({
-            name: requestData.customServiceWorkshopName,
-            latitude: 0, // Default values - these could be updated with location if provided
-            longitude: 0,
-          })
-          .returning()
-          .then(res => res[0]);
+        const defaultWorkshop = await createCustomWorkshop(requestData.customServiceWorkshopName, currentUser.id);
         serviceWorkshopUUID = defaultWorkshop.uuid;
       }
       else if (!serviceWorkshopUUID && !requestData.customServiceWorkshopName) {
@@ -119,31 +199,39 @@ export const maintenanceRoute = new Hono<AppBindings>()
 
       // Create the maintenance entry without serviceType field
       const maintenanceEntry = {
+        uuid: crypto.randomUUID(),
         vehicleUUID: requestData.vehicleUUID,
         serviceWorkshopUUID,
         customServiceWorkshopName: requestData.customServiceWorkshopName,
         serviceDate: new Date(requestData.serviceDate),
-        odometer: requestData.odometer,
-        cost: requestData.cost,
+        // Odometers are stored in kilometres
+        odometer: requestData.odometer !== undefined
+          ? Math.round(toCanonicalUnit(requestData.odometer, requestData.odometerUnit).value)
+          : undefined,
+        // An itemized entry costs the sum of its line items
+        cost: requestData.lineItems?.length ? getLineItemsTotal(requestData.lineItems) : requestData.cost,
         notes: requestData.notes,
       };
 
-      // Create the maintenance entry
-      const createdEntry = await db
-        .insert(maintenanceLogTable)
-        .values(maintenanceEntry)
-        .returning()
-        .then(res => res[0]);
-
       // Create the service type associations
       const serviceTypeEntries = requestData.serviceTypes.map((serviceType: any) => ({
-        maintenanceLogUUID: createdEntry.uuid,
+        maintenanceLogUUID: maintenanceEntry.uuid,
         serviceType,
       }));
 
-      await db
-        .insert(maintenanceLogServicesTable)
-        .values(serviceTypeEntries);
+      // The entry, its service types and line items are written together
+      const [[createdEntry]] = await db.batch([
+        db
+          .insert(maintenanceLogTable)
+          .values(maintenanceEntry)
+          .returning(),
+        db
+          .insert(maintenanceLogServicesTable)
+          .values(serviceTypeEntries),
+        ...(requestData.lineItems?.length ? replaceLineItems(maintenanceEntry.uuid, requestData.lineItems) : []),
+      ]);
+
+      const lineItems = (await getLineItemsByEntry([createdEntry.uuid]))[createdEntry.uuid] || [];
 
       logger.info({
         maintenanceUUID: createdEntry.uuid,
@@ -152,9 +240,24 @@ export const maintenanceRoute = new Hono<AppBindings>()
         userId: currentUser.id,
       }, "Maintenance entry created");
 
+      // Logging a service restarts its schedule, and its odometer can bring other services due
+      try {
+        await checkMaintenanceReminders(vehicle);
+      }
+      catch (error) {
+        logger.error({ error, vehicleUUID: vehicle.uuid }, "Failed to check maintenance reminders");
+      }
+
+      // The odometer is returned in the user's distance unit, like the history
+      const preferences = await getUnitPreferences(currentUser.id);
+
       c.status(201);
       return c.json({
-        maintenanceEntry: createdEntry,
+        maintenanceEntry: {
+          ...createdEntry,
+          odometer: createdEntry.odometer !== null ? Math.round(convertDistance(createdEntry.odometer, preferences)) : null,
+        },
+        lineItems: lineItems.map(convertLineItem),
         message: "Maintenance entry created successfully",
       });
     },
@@ -165,7 +268,7 @@ export const maintenanceRoute = new Hono<AppBindings>()
     "/:vehicleUUID",
     describeRoute({
       tags: ["Maintenance"],
-      description: "Get maintenance history for a specific vehicle",
+      description: "Get maintenance history for a specific vehicle. Odometer readings are expressed in the user's preferred distance unit.",
       summary: "Get maintenance history",
       responses: {
         200: {
@@ -209,6 +312,8 @@ export const maintenanceRoute = new Hono<AppBindings>()
         return c.json({ error: "Vehicle not found or you don't own this vehicle" }, 404);
       }
 
+      const preferences = await getUnitPreferences(currentUser.id);
+
       // Get maintenance history with workshop information and service types
       const maintenanceEntries = await db
         .select({
@@ -250,6 +355,9 @@ export const maintenanceRoute = new Hono<AppBindings>()
           .where(inArray(maintenanceLogServicesTable.maintenanceLogUUID, maintenanceUUIDs))
         : [];
 
+      const lineItemsByEntry = await getLineItemsByEntry(maintenanceUUIDs);
+      const attachmentsByEntry = await getAttachmentsByEntry(maintenanceUUIDs);
+
       // Group service types by maintenance entry UUID
       const serviceTypesByEntry: Record<string, string[]> = {};
       serviceTypes.forEach((st) => {
@@ -267,7 +375,9 @@ export const maintenanceRoute = new Hono<AppBindings>()
         customServiceWorkshopName: entry.customServiceWorkshopName,
         serviceDate: entry.serviceDate,
         serviceTypes: serviceTypesByEntry[entry.uuid] || [],
-        odometer: entry.odometer,
+        lineItems: (lineItemsByEntry[entry.uuid] || []).map(convertLineItem),
+        attachments: (attachmentsByEntry[entry.uuid] || []).map(convertAttachment),
+        odometer: entry.odometer !== null ? Math.round(convertDistance(entry.odometer, preferences)) : null,
         cost: entry.cost,
         notes: entry.notes,
         createdAt: entry.createdAt,
@@ -338,6 +448,450 @@ export const maintenanceRoute = new Hono<AppBindings>()
           year: vehicle.year,
           licensePlate: vehicle.licensePlate,
         },
+        units: preferences,
+      });
+    },
+  )
+
+  // Update a maintenance entry
+  .patch(
+    "/:maintenanceUUID",
+    describeRoute({
+      tags: ["Maintenance"],
+      description: "Update the fields, service types and line items of a maintenance entry. Only the given fields are changed, service types and line items are replaced as a whole. The cost of an itemized entry is the sum of its line items.",
+      summary: "Update maintenance entry",
+      responses: {
+        200: {
+          description: "Maintenance entry updated",
+          content: {
+            "application/json": {
+              schema: resolver(zMaintenanceEntryResponseSchema),
+            },
+          },
+        },
+        400: badRequestResponseObject,
+        401: unauthorizedResponseObject,
+        404: notFoundResponseObject,
+      },
+    }),
+    zValidator("json", zUpdateMaintenanceEntrySchema),
+    async (c) => {
+      const currentUser = c.get("user");
+      const logger = c.get("logger");
+
+      if (!currentUser) {
+        logger.warn("Unauthorized maintenance entry update");
+        return c.json({ error: "Unauthorized" }, 401);
+      }
+
+      const maintenanceUUID = c.req.param("maintenanceUUID");
+      const requestData = c.req.valid("json");
+
+      // Get the maintenance entry and verify ownership through vehicle
+      const existing = await getOwnedMaintenanceEntry(maintenanceUUID, currentUser.id);
+
+      if (!existing) {
+        logger.warn({
+          maintenanceUUID,
+          userId: currentUser.id,
+        }, "Maintenance entry not found or not owned by user");
+
+        return c.json(
+          { error: "Maintenance entry not found or you don't have permission to update it" },
+          404,
+        );
+      }
+
+      const { vehicle } = existing;
+
+      const currentLineItems = (await getLineItemsByEntry([maintenanceUUID]))[maintenanceUUID] || [];
+
+      // The cost of an itemized entry follows its line items
+      if (requestData.cost !== undefined && requestData.lineItems === undefined && currentLineItems.length > 0) {
+        return c.json({ error: "The cost of an itemized entry is the sum of its line items, update lineItems instead" }, 400);
+      }
+
+      // A new workshop name creates a workshop, like when creating an entry
+      let workshop: { serviceWorkshopUUID: string; customServiceWorkshopName: string | null } | undefined;
+
+      if (requestData.serviceWorkshopUUID) {
+        if (!(await workshopExists(requestData.serviceWorkshopUUID, currentUser.id))) {
+          return c.json({ error: "Workshop not found" }, 404);
+        }
+
+        workshop = {
+          serviceWorkshopUUID: requestData.serviceWorkshopUUID,
+          customServiceWorkshopName: requestData.customServiceWorkshopName ?? null,
+        };
+      }
+      else if (requestData.customServiceWorkshopName) {
+        const customWorkshop = await createCustomWorkshop(requestData.customServiceWorkshopName, currentUser.id);
+        workshop = {
+          serviceWorkshopUUID: customWorkshop.uuid,
+          customServiceWorkshopName: requestData.customServiceWorkshopName,
+        };
+      }
+
+      const cost = requestData.lineItems?.length
+        ? getLineItemsTotal(requestData.lineItems)
+        : requestData.cost;
+
+      const statements: BatchItem<"pg">[] = [];
+
+      if (requestData.lineItems !== undefined) {
+        statements.push(...replaceLineItems(maintenanceUUID, requestData.lineItems));
+      }
+
+      if (requestData.serviceTypes) {
+        statements.push(
+          db
+            .delete(maintenanceLogServicesTable)
+            .where(eq(maintenanceLogServicesTable.maintenanceLogUUID, maintenanceUUID)),
+          db
+            .insert(maintenanceLogServicesTable)
+            .values(requestData.serviceTypes.map(serviceType => ({
+              maintenanceLogUUID: maintenanceUUID,
+              serviceType,
+            }))),
+        );
+      }
+
+      // The entry, its line items and service types change together or not at all
+      const [[maintenanceEntry]] = await db.batch([
+        db
+          .update(maintenanceLogTable)
+          .set({
+            ...workshop,
+            ...(requestData.serviceDate !== undefined && { serviceDate: new Date(requestData.serviceDate) }),
+            // Odometers are stored in kilometres
+            ...(requestData.odometer !== undefined && {
+              odometer: requestData.odometer !== null
+                ? Math.round(toCanonicalUnit(requestData.odometer, requestData.odometerUnit).value)
+                : null,
+            }),
+            ...(cost !== undefined && { cost }),
+            ...(requestData.notes !== undefined && { notes: requestData.notes }),
+            // Always bump updatedAt, even when only service types or line items changed
+            updatedAt: new Date(),
+          })
+          .where(eq(maintenanceLogTable.uuid, maintenanceUUID))
+          .returning(),
+        ...statements,
+      ]);
+
+      const lineItems = requestData.lineItems !== undefined
+        ? (await getLineItemsByEntry([maintenanceUUID]))[maintenanceUUID] || []
+        : currentLineItems;
+
+      logger.info({
+        maintenanceUUID,
+        vehicleUUID: vehicle.uuid,
+        userId: currentUser.id,
+        fields: Object.keys(requestData),
+      }, "Maintenance entry updated");
+
+      // A changed date, odometer or service type set moves the schedule
+      try {
+        await checkMaintenanceReminders(vehicle);
+      }
+      catch (error) {
+        logger.error({ error, vehicleUUID: vehicle.uuid }, "Failed to check maintenance reminders");
+      }
+
+      const preferences = await getUnitPreferences(currentUser.id);
+
+      return c.json({
+        maintenanceEntry: {
+          ...maintenanceEntry,
+          odometer: maintenanceEntry.odometer !== null ? Math.round(convertDistance(maintenanceEntry.odometer, preferences)) : null,
+        },
+        lineItems: lineItems.map(convertLineItem),
+        message: "Maintenance entry updated successfully",
+      });
+    },
+  )
+
+  // Attach receipts, invoices or photos to a maintenance entry
+  .post(
+    "/:maintenanceUUID/attachments",
+    describeRoute({
+      tags: ["Maintenance"],
+      description: `Upload files to a maintenance entry as multipart form data, one "file" field per file. Supports PDF, JPEG, PNG and HEIC files of up to ${MAX_ATTACHMENT_SIZE / 1024 / 1024}MB each, ${MAX_ATTACHMENTS_PER_UPLOAD} per request. Files are stored privately and can only be downloaded by the owner of the vehicle.`,
+      summary: "Upload maintenance attachments",
+      responses: {
+        201: {
+          description: "Attachments uploaded",
+          content: {
+            "application/json": {
+              schema: resolver(zMaintenanceAttachmentsUploadResponseSchema),
+            },
+          },
+        },
+        400: badRequestResponseObject,
+        401: unauthorizedResponseObject,
+        404: notFoundResponseObject,
+      },
+    }),
+    zValidator("form", zMaintenanceAttachmentUploadSchema),
+    async (c) => {
+      const currentUser = c.get("user");
+      const logger = c.get("logger");
+
+      if (!currentUser) {
+        logger.warn("Unauthorized maintenance attachment upload");
+        return c.json({ error: "Unauthorized" }, 401);
+      }
+
+      if (!c.env.R2_BUCKET) {
+        logger.error("R2_BUCKET binding not found");
+        return c.json({ error: "Storage not configured" }, 500);
+      }
+
+      const maintenanceUUID = c.req.param("maintenanceUUID");
+      const { file } = c.req.valid("form");
+      const files = Array.isArray(file) ? file : [file];
+
+      const existing = await getOwnedMaintenanceEntry(maintenanceUUID, currentUser.id);
+
+      if (!existing) {
+        logger.warn({
+          maintenanceUUID,
+          userId: currentUser.id,
+        }, "Maintenance entry not found or not owned by user");
+
+        return c.json(
+          { error: "Maintenance entry not found or you don't have permission to add attachments" },
+          404,
+        );
+      }
+
+      if (files.length > MAX_ATTACHMENTS_PER_UPLOAD) {
+        return c.json({ error: `Too many files. Max ${MAX_ATTACHMENTS_PER_UPLOAD} per upload.` }, 400);
+      }
+
+      // Check every file before storing any of them
+      const uploads = [];
+      for (const upload of files) {
+        const contentType = getAttachmentContentType(upload);
+
+        if (!contentType) {
+          return c.json({ error: `Unsupported file type for ${upload.name}. Allowed types are PDF, JPEG, PNG and HEIC.` }, 400);
+        }
+
+        if (upload.size > MAX_ATTACHMENT_SIZE) {
+          return c.json({ error: `${upload.name} is too large. Max size is ${MAX_ATTACHMENT_SIZE / 1024 / 1024}MB.` }, 400);
+        }
+
+        uploads.push({ file: upload, contentType });
+      }
+
+      // Rows are only written once every file is stored, in a single insert
+      const storedKeys: string[] = [];
+      let attachments;
+
+      try {
+        const rows = [];
+        for (const { file: upload, contentType } of uploads) {
+          const key = getAttachmentKey(existing.vehicle.uuid, maintenanceUUID, contentType);
+
+          await c.env.R2_BUCKET.put(key, await upload.arrayBuffer(), {
+            httpMetadata: {
+              contentType,
+              cacheControl: "private, max-age=3600",
+            },
+            customMetadata: {
+              userId: currentUser.id,
+              maintenanceUUID,
+              uploadedAt: new Date().toISOString(),
+            },
+          });
+          storedKeys.push(key);
+
+          rows.push({
+            maintenanceLogUUID: maintenanceUUID,
+            storageKey: key,
+            fileName: upload.name || `attachment.${ATTACHMENT_EXTENSIONS[contentType]}`,
+            contentType,
+            size: upload.size,
+            uploadedBy: currentUser.id,
+          });
+        }
+
+        attachments = await db
+          .insert(maintenanceAttachmentsTable)
+          .values(rows)
+          .returning();
+      }
+      catch (error) {
+        // Nothing references the files stored so far, don't leave them behind
+        if (storedKeys.length > 0) {
+          try {
+            await c.env.R2_BUCKET.delete(storedKeys);
+          }
+          catch (deleteError) {
+            logger.error({ error: deleteError, maintenanceUUID, keys: storedKeys }, "Failed to delete orphaned maintenance attachments");
+          }
+        }
+
+        throw error;
+      }
+
+      logger.info({
+        maintenanceUUID,
+        vehicleUUID: existing.vehicle.uuid,
+        userId: currentUser.id,
+        count: attachments.length,
+      }, "Maintenance attachments uploaded");
+
+      c.status(201);
+      return c.json({
+        attachments: attachments.map(convertAttachment),
+        message: "Attachments uploaded successfully",
+      });
+    },
+  )
+
+  // Download an attachment of a maintenance entry
+  .get(
+    "/:maintenanceUUID/attachments/:attachmentUUID",
+    describeRoute({
+      tags: ["Maintenance"],
+      description: "Download an attachment of a maintenance entry. Images are shown inline unless download is set, other files are always downloaded.",
+      summary: "Download maintenance attachment",
+      responses: {
+        200: {
+          description: "Attachment file",
+        },
+        401: unauthorizedResponseObject,
+        404: notFoundResponseObject,
+      },
+    }),
+    zValidator("query", zMaintenanceAttachmentDownloadQuerySchema),
+    async (c) => {
+      const currentUser = c.get("user");
+      const logger = c.get("logger");
+
+      if (!currentUser) {
+        logger.warn("Unauthorized maintenance attachment download");
+        return c.json({ error: "Unauthorized" }, 401);
+      }
+
+      const maintenanceUUID = c.req.param("maintenanceUUID");
+      const attachmentUUID = c.req.param("attachmentUUID");
+      const { download } = c.req.valid("query");
+
+      const existing = await getOwnedMaintenanceEntry(maintenanceUUID, currentUser.id);
+
+      const attachment = existing
+        ? await db
+          .select()
+          .from(maintenanceAttachmentsTable)
+          .where(
+            and(
+              eq(maintenanceAttachmentsTable.uuid, attachmentUUID),
+              eq(maintenanceAttachmentsTable.maintenanceLogUUID, maintenanceUUID),
+            ),
+          )
+          .then(res => res[0])
+        : undefined;
+
+      if (!attachment) {
+        logger.warn({
+          maintenanceUUID,
+          attachmentUUID,
+          userId: currentUser.id,
+        }, "Maintenance attachment not found or not owned by user");
+
+        return c.json({ error: "Attachment not found" }, 404);
+      }
+
+      const object = await c.env.R2_BUCKET.get(attachment.storageKey);
+
+      if (!object) {
+        logger.error({ attachmentUUID, key: attachment.storageKey }, "Maintenance attachment missing from storage");
+        return c.json({ error: "Attachment not found" }, 404);
+      }
+
+      // Only images are rendered in the browser, and never as another type than the stored one
+      const inline = !download && attachment.contentType.startsWith("image/");
+
+      c.header("Content-Type", attachment.contentType);
+      c.header("Content-Length", String(attachment.size));
+      c.header("Content-Disposition", `${inline ? "inline" : "attachment"}; filename*=UTF-8''${encodeURIComponent(attachment.fileName)}`);
+      c.header("X-Content-Type-Options", "nosniff");
+      c.header("Cache-Control", "private, max-age=3600");
+
+      return c.body(object.body);
+    },
+  )
+
+  // Delete an attachment of a maintenance entry
+  .delete(
+    "/:maintenanceUUID/attachments/:attachmentUUID",
+    describeRoute({
+      tags: ["Maintenance"],
+      description: "Delete an attachment of a maintenance entry and its stored file",
+      summary: "Delete maintenance attachment",
+      responses: {
+        200: {
+          description: "Attachment deleted successfully",
+          content: {
+            "application/json": {
+              schema: resolver(zDeleteMaintenanceEntryResponseSchema),
+            },
+          },
+        },
+        401: unauthorizedResponseObject,
+        404: notFoundResponseObject,
+      },
+    }),
+    async (c) => {
+      const currentUser = c.get("user");
+      const logger = c.get("logger");
+
+      if (!currentUser) {
+        logger.warn("Unauthorized maintenance attachment deletion");
+        return c.json({ error: "Unauthorized" }, 401);
+      }
+
+      const maintenanceUUID = c.req.param("maintenanceUUID");
+      const attachmentUUID = c.req.param("attachmentUUID");
+
+      const existing = await getOwnedMaintenanceEntry(maintenanceUUID, currentUser.id);
+
+      const attachment = existing
+        ? await db
+          .delete(maintenanceAttachmentsTable)
+          .where(
+            and(
+              eq(maintenanceAttachmentsTable.uuid, attachmentUUID),
+              eq(maintenanceAttachmentsTable.maintenanceLogUUID, maintenanceUUID),
+            ),
+          )
+          .returning()
+          .then(res => res[0])
+        : undefined;
+
+      if (!attachment) {
+        logger.warn({
+          maintenanceUUID,
+          attachmentUUID,
+          userId: currentUser.id,
+        }, "Maintenance attachment not found or not owned by user");
+
+        return c.json({ error: "Attachment not found" }, 404);
+      }
+
+      await c.env.R2_BUCKET.delete(attachment.storageKey);
+
+      logger.info({
+        maintenanceUUID,
+        attachmentUUID,
+        userId: currentUser.id,
+      }, "Maintenance attachment deleted");
+
+      return c.json({
+        message: "Attachment deleted successfully",
       });
     },
   )
@@ -347,7 +901,7 @@ export const maintenanceRoute = new Hono<AppBindings>()
     "/:maintenanceUUID",
     describeRoute({
       tags: ["Maintenance"],
-      description: "Delete a maintenance entry and its associated service types",
+      description: "Delete a maintenance entry with its associated service types, line items and attachments",
       summary: "Delete maintenance entry",
       responses: {
         200: {
@@ -403,6 +957,21 @@ export const maintenanceRoute = new Hono<AppBindings>()
         );
       }
 
+      // Stored files are not covered by the cascade, remove them from R2 first
+      const attachments = await db
+        .select({ storageKey: maintenanceAttachmentsTable.storageKey })
+        .from(maintenanceAttachmentsTable)
+        .where(eq(maintenanceAttachmentsTable.maintenanceLogUUID, maintenanceUUID));
+
+      if (attachments.length > 0) {
+        try {
+          await c.env.R2_BUCKET.delete(attachments.map(attachment => attachment.storageKey));
+        }
+        catch (error) {
+          logger.error({ error, maintenanceUUID, count: attachments.length }, "Failed to delete maintenance attachments from storage");
+        }
+      }
+
       // Delete associated service types first (foreign key constraint)
       await db
         .delete(maintenanceLogServicesTable)
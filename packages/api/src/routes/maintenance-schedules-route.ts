@@ -0,0 +1,315 @@
+import { and, asc, eq } from "drizzle-orm";
+import { Hono } from "hono";
+import { describeRoute } from "hono-openapi";
+import { resolver, validator as zValidator } from "hono-openapi/zod";
+import { z } from "zod";
+
+import type { AppBindings } from "../lib/types";
+
+import { db } from "../db";
+import { maintenanceSchedulesTable } from "../db/schema/maintenance-schedules-schema";
+import {
+  checkMaintenanceReminders,
+  convertMaintenanceSchedule,
+  convertMaintenanceStatus,
+  ensureMaintenanceSchedules,
+  getDefaultSchedules,
+  getMaintenanceStatuses,
+} from "../lib/maintenance-schedules";
+import { convertDistance, getUnitPreferences, toCanonicalUnit } from "../lib/units";
+import { getAccessibleVehicle } from "../lib/vehicles";
+import { getSessionAndUser } from "../middleware/get-session-and-user";
+import { badRequestResponseObject, notFoundResponseObject, unauthorizedResponseObject } from "../zod/z-api-responses";
+import {
+  zMaintenanceScheduleParamSchema,
+  zMaintenanceScheduleSchema,
+  zMaintenanceSchedulesListResponseSchema,
+  zMaintenanceScheduleUpsertSchema,
+  zUpcomingMaintenanceQuerySchema,
+  zUpcomingMaintenanceResponseSchema,
+} from "../zod/z-maintenance-schedules";
+
+async function getVehicleSchedules(vehicleUUID: string) {
+  return db
+    .select()
+    .from(maintenanceSchedulesTable)
+    .where(eq(maintenanceSchedulesTable.vehicleUUID, vehicleUUID))
+    .orderBy(asc(maintenanceSchedulesTable.serviceType));
+}
+
+// Mounted under /vehicles/:vehicleUUID/maintenance-schedules
+export const maintenanceSchedulesRoute = new Hono<AppBindings>()
+  .use(getSessionAndUser)
+  .get("/", describeRoute({
+    tags: ["Maintenance"],
+    summary: "List the maintenance schedule of a vehicle",
+    description: "List the schedule rules of a vehicle, one per service type. Vehicles without any rule get defaults for their fuel and engine type. Interval distances follow the user's unit preferences.",
+    responses: {
+      200: {
+        description: "OK",
+        content: {
+          "application/json": {
+            schema: resolver(zMaintenanceSchedulesListResponseSchema),
+          },
+        },
+      },
+      401: unauthorizedResponseObject,
+      404: notFoundResponseObject,
+    },
+  }), zValidator("param", z.object({
+    vehicleUUID: z.string().uuid(),
+  })), async (c) => {
+    const user = c.get("user");
+    const logger = c.get("logger");
+
+    if (!user) {
+      logger.warn("Unauthorized access attempt - maintenance schedules");
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+
+    const { vehicleUUID } = c.req.valid("param");
+
+    const vehicle = await getAccessibleVehicle(vehicleUUID, user);
+
+    if (!vehicle) {
+      logger.warn({ userId: user.id, vehicleUUID }, "Vehicle not found or not owned");
+      return c.json({ error: "Vehicle not found" }, 404);
+    }
+
+    await ensureMaintenanceSchedules(vehicle);
+
+    const schedules = await getVehicleSchedules(vehicle.uuid);
+    const preferences = await getUnitPreferences(user.id);
+
+    return c.json(schedules.map(schedule => convertMaintenanceSchedule(schedule, preferences)));
+  })
+  .get("/upcoming", describeRoute({
+    tags: ["Maintenance"],
+    summary: "Get the upcoming maintenance of a vehicle",
+    description: "Get the due date, due odometer and status of the enabled schedule rules of a vehicle, counted from the last logged entry of each service type and the latest known odometer, most urgent first. A service is upcoming within 45 days or 2000 km, due within 14 days or 500 km and overdue past either. Reminder notifications are raised for services that became more urgent. Distances follow the user's unit preferences.",
+    responses: {
+      200: {
+        description: "OK",
+        content: {
+          "application/json": {
+            schema: resolver(zUpcomingMaintenanceResponseSchema),
+          },
+        },
+      },
+      401: unauthorizedResponseObject,
+      404: notFoundResponseObject,
+    },
+  }), zValidator("param", z.object({
+    vehicleUUID: z.string().uuid(),
+  })), zValidator("query", zUpcomingMaintenanceQuerySchema), async (c) => {
+    const user = c.get("user");
+    const logger = c.get("logger");
+
+    if (!user) {
+      logger.warn("Unauthorized access attempt - upcoming maintenance");
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+
+    const { vehicleUUID } = c.req.valid("param");
+    const { includeAll } = c.req.valid("query");
+
+    const vehicle = await getAccessibleVehicle(vehicleUUID, user);
+
+    if (!vehicle) {
+      logger.warn({ userId: user.id, vehicleUUID }, "Vehicle not found or not owned");
+      return c.json({ error: "Vehicle not found" }, 404);
+    }
+
+    // Time-based reminders have no event to hang off, so they are raised when the schedule is looked at
+    try {
+      const reminders = await checkMaintenanceReminders(vehicle);
+      if (reminders.length > 0) {
+        logger.info({ vehicleUUID, count: reminders.length }, "Maintenance reminders raised");
+      }
+    }
+    catch (error) {
+      logger.error({ error, vehicleUUID }, "Failed to check maintenance reminders");
+    }
+
+    const { currentOdometer, statuses } = await getMaintenanceStatuses(vehicle.uuid);
+    const preferences = await getUnitPreferences(user.id);
+
+    const items = statuses.filter(item => includeAll || (item.schedule.enabled && item.status !== "ok" && item.status !== "unknown"));
+
+    return c.json({
+      vehicleUUID: vehicle.uuid,
+      currentOdometer: currentOdometer != null ? Math.round(convertDistance(currentOdometer, preferences)) : null,
+      distanceUnit: preferences.distance,
+      items: items.map(item => convertMaintenanceStatus(item, preferences)),
+    });
+  })
+  .post("/reset", describeRoute({
+    tags: ["Maintenance"],
+    summary: "Reset the maintenance schedule of a vehicle",
+    description: "Replace the schedule rules of a vehicle with the defaults for its fuel and engine type",
+    responses: {
+      200: {
+        description: "OK",
+        content: {
+          "application/json": {
+            schema: resolver(zMaintenanceSchedulesListResponseSchema),
+          },
+        },
+      },
+      401: unauthorizedResponseObject,
+      404: notFoundResponseObject,
+    },
+  }), zValidator("param", z.object({
+    vehicleUUID: z.string().uuid(),
+  })), async (c) => {
+    const user = c.get("user");
+    const logger = c.get("logger");
+
+    if (!user) {
+      logger.warn("Unauthorized access attempt - reset maintenance schedule");
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+
+    const { vehicleUUID } = c.req.valid("param");
+
+    const vehicle = await getAccessibleVehicle(vehicleUUID, user);
+
+    if (!vehicle) {
+      logger.warn({ userId: user.id, vehicleUUID }, "Vehicle not found or not owned");
+      return c.json({ error: "Vehicle not found" }, 404);
+    }
+
+    await db
+      .delete(maintenanceSchedulesTable)
+      .where(eq(maintenanceSchedulesTable.vehicleUUID, vehicle.uuid));
+
+    await ensureMaintenanceSchedules(vehicle);
+
+    logger.info({ vehicleUUID, ruleCount: getDefaultSchedules(vehicle).length }, "Maintenance schedule reset to defaults");
+
+    const schedules = await getVehicleSchedules(vehicle.uuid);
+    const preferences = await getUnitPreferences(user.id);
+
+    return c.json(schedules.map(schedule => convertMaintenanceSchedule(schedule, preferences)));
+  })
+  .put("/:serviceType", describeRoute({
+    tags: ["Maintenance"],
+    summary: "Set the schedule rule of a service type",
+    description: "Create or replace the rule of a service type for a vehicle. The service is due after whichever of the distance and month intervals is reached first.",
+    responses: {
+      200: {
+        description: "OK",
+        content: {
+          "application/json": {
+            schema: resolver(zMaintenanceScheduleSchema),
+          },
+        },
+      },
+      400: badRequestResponseObject,
+      401: unauthorizedResponseObject,
+      404: notFoundResponseObject,
+    },
+  }), zValidator("param", zMaintenanceScheduleParamSchema), zValidator("json", zMaintenanceScheduleUpsertSchema), async (c) => {
+    const user = c.get("user");
+    const logger = c.get("logger");
+
+    if (!user) {
+      logger.warn("Unauthorized access attempt - set maintenance schedule");
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+
+    const { vehicleUUID, serviceType } = c.req.valid("param");
+    const rule = c.req.valid("json");
+
+    const vehicle = await getAccessibleVehicle(vehicleUUID, user);
+
+    if (!vehicle) {
+      logger.warn({ userId: user.id, vehicleUUID }, "Vehicle not found or not owned");
+      return c.json({ error: "Vehicle not found" }, 404);
+    }
+
+    // Keep the defaults for the other service types when the first rule is set by hand
+    await ensureMaintenanceSchedules(vehicle);
+
+    const values = {
+      // Intervals are stored in kilometres
+      intervalKm: rule.intervalDistance != null
+        ? Math.round(toCanonicalUnit(rule.intervalDistance, rule.distanceUnit).value)
+        : null,
+      intervalMonths: rule.intervalMonths,
+      enabled: rule.enabled,
+      // A changed rule is evaluated afresh
+      notifiedStatus: null,
+      notifiedAt: null,
+    };
+
+    const schedule = await db
+      .insert(maintenanceSchedulesTable)
+      .values({ ...values, vehicleUUID: vehicle.uuid, serviceType })
+      .onConflictDoUpdate({
+        target: [maintenanceSchedulesTable.vehicleUUID, maintenanceSchedulesTable.serviceType],
+        set: values,
+      })
+      .returning()
+      .then(res => res[0]);
+
+    logger.info({ vehicleUUID, serviceType, scheduleUUID: schedule.uuid }, "Maintenance schedule rule set");
+
+    const preferences = await getUnitPreferences(user.id);
+
+    return c.json(convertMaintenanceSchedule(schedule, preferences));
+  })
+  .delete("/:serviceType", describeRoute({
+    tags: ["Maintenance"],
+    summary: "Remove the schedule rule of a service type",
+    description: "Stop tracking when a service type is due for a vehicle",
+    responses: {
+      200: {
+        description: "OK",
+        content: {
+          "application/json": {
+            schema: resolver(z.object({ message: z.string() })),
+          },
+        },
+      },
+      401: unauthorizedResponseObject,
+      404: notFoundResponseObject,
+    },
+  }), zValidator("param", zMaintenanceScheduleParamSchema), async (c) => {
+    const user = c.get("user");
+    const logger = c.get("logger");
+
+    if (!user) {
+      logger.warn("Unauthorized access attempt - remove maintenance schedule");
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+
+    const { vehicleUUID, serviceType } = c.req.valid("param");
+
+    const vehicle = await getAccessibleVehicle(vehicleUUID, user);
+
+    if (!vehicle) {
+      logger.warn({ userId: user.id, vehicleUUID }, "Vehicle not found or not owned");
+      return c.json({ error: "Vehicle not found" }, 404);
+    }
+
+    const deleted = await db
+      .delete(maintenanceSchedulesTable)
+      .where(
+        and(
+          eq(maintenanceSchedulesTable.vehicleUUID, vehicle.uuid),
+          eq(maintenanceSchedulesTable.serviceType, serviceType),
+        ),
+      )
+      .returning()
+      .then(res => res[0]);
+
+    if (!deleted) {
+      logger.warn({ vehicleUUID, serviceType }, "Maintenance schedule rule not found");
+      return c.json({ error: "Maintenance schedule rule not found" }, 404);
+    }
+
+    logger.info({ vehicleUUID, serviceType }, "Maintenance schedule rule removed");
+
+    return c.json({ message: "Maintenance schedule rule deleted successfully" });
+  });
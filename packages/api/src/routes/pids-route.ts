@@ -0,0 +1,93 @@
+import { Hono } from "hono";
+import { describeRoute } from "hono-openapi";
+import { resolver, validator as zValidator } from "hono-openapi/zod";
+import { z } from "zod";
+
+import type { AppBindings } from "../lib/types";
+
+import { DERIVED_FUEL_PID_ENTRIES } from "../lib/fuel-consumption";
+import { createPidResolver, getPidRegistry } from "../lib/pid-registry";
+import { getSessionAndUser } from "../middleware/get-session-and-user";
+import { notFoundResponseObject, unauthorizedResponseObject } from "../zod/z-api-responses";
+import { zPidRegistryEntrySchema, zPidRegistryListResponseSchema, zPidRegistryQuerySchema } from "../zod/z-pids";
+
+export const pidsRoute = new Hono<AppBindings>()
+  .use(getSessionAndUser)
+  .get("/", describeRoute({
+    tags: ["PIDs"],
+    summary: "Get the PID registry",
+    description: "Get every known OBD-II mode 01 PID with its friendly name, category, canonical unit and expected ranges. Also lists the series derived by the API (FUEL_RATE, FUEL_ECONOMY), flagged as derived.",
+    responses: {
+      200: {
+        description: "OK",
+        content: {
+          "application/json": {
+            schema: resolver(zPidRegistryListResponseSchema),
+          },
+        },
+      },
+      401: unauthorizedResponseObject,
+    },
+  }), zValidator("query", zPidRegistryQuerySchema), async (c) => {
+    const user = c.get("user");
+    const logger = c.get("logger");
+
+    if (!user) {
+      logger.warn("Unauthorized access attempt - PID registry");
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+
+    const { category } = c.req.valid("query");
+
+    const registry = [
+      ...(await getPidRegistry()).map(entry => ({ ...entry, derived: false })),
+      ...DERIVED_FUEL_PID_ENTRIES.map(entry => ({ ...entry, derived: true })),
+    ];
+
+    const pids = category
+      ? registry.filter(entry => entry.category.toLowerCase() === category.toLowerCase())
+      : registry;
+
+    logger.debug({ category, count: pids.length }, "PID registry retrieved");
+
+    return c.json([...pids].sort((a, b) => a.pid.localeCompare(b.pid)));
+  })
+  .get("/:pid", describeRoute({
+    tags: ["PIDs"],
+    summary: "Resolve a PID",
+    description: "Get a single PID registry entry. Accepts the hex PID (\"0C\", \"010C\") or one of its aliases (\"rpm\").",
+    responses: {
+      200: {
+        description: "OK",
+        content: {
+          "application/json": {
+            schema: resolver(zPidRegistryEntrySchema),
+          },
+        },
+      },
+      401: unauthorizedResponseObject,
+      404: notFoundResponseObject,
+    },
+  }), zValidator("param", z.object({
+    pid: z.string().min(1),
+  })), async (c) => {
+    const user = c.get("user");
+    const logger = c.get("logger");
+
+    if (!user) {
+      logger.warn("Unauthorized access attempt - PID lookup");
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+
+    const { pid } = c.req.valid("param");
+
+    const resolve = createPidResolver(await getPidRegistry());
+    const entry = resolve(pid);
+
+    if (!entry) {
+      logger.debug({ pid }, "PID not found in registry");
+      return c.json({ error: "PID not found" }, 404);
+    }
+
+    return c.json({ ...entry, derived: false });
+  });
@@ -0,0 +1,125 @@
+import { eq } from "drizzle-orm";
+import { Hono } from "hono";
+import { describeRoute } from "hono-openapi";
+import { resolver, validator as zValidator } from "hono-openapi/zod";
+
+import type { AppBindings } from "../lib/types";
+
+import { db } from "../db";
+import { insertUserPreferencesSchema, userPreferencesTable } from "../db/schema/user-preferences-schema";
+import { getUnitPreferences } from "../lib/units";
+import { getSessionAndUser } from "../middleware/get-session-and-user";
+import { badRequestResponseObject, unauthorizedResponseObject } from "../zod/z-api-responses";
+import { zUnitPreferencesResponseSchema, zUnitPreferencesUpdateSchema } from "../zod/z-preferences";
+
+export const preferencesRoute = new Hono<AppBindings>()
+  .use(getSessionAndUser)
+  .get("/units", describeRoute({
+    tags: ["Preferences"],
+    summary: "Get unit preferences",
+    description: "Get the unit system of the authenticated user together with the resolved unit for every quantity",
+    responses: {
+      200: {
+        description: "OK",
+        content: {
+          "application/json": {
+            schema: resolver(zUnitPreferencesResponseSchema),
+          },
+        },
+      },
+      401: unauthorizedResponseObject,
+    },
+  }), async (c) => {
+    const user = c.get("user");
+    const logger = c.get("logger");
+
+    if (!user) {
+      logger.warn("Unauthorized access attempt - unit preferences");
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+
+    const stored = await db
+      .select()
+      .from(userPreferencesTable)
+      .where(eq(userPreferencesTable.userId, user.id))
+      .then(res => res[0]);
+
+    const units = await getUnitPreferences(user.id);
+
+    return c.json({
+      preferences: {
+        unitSystem: stored?.unitSystem ?? "metric",
+        distanceUnit: stored?.distanceUnit ?? null,
+        speedUnit: stored?.speedUnit ?? null,
+        temperatureUnit: stored?.temperatureUnit ?? null,
+        pressureUnit: stored?.pressureUnit ?? null,
+        volumeUnit: stored?.volumeUnit ?? null,
+      },
+      units,
+    });
+  })
+  .put("/units", describeRoute({
+    tags: ["Preferences"],
+    summary: "Update unit preferences",
+    description: "Set the unit system of the authenticated user. Sensor, location, dashboard and maintenance responses are converted to these units.",
+    responses: {
+      200: {
+        description: "OK",
+        content: {
+          "application/json": {
+            schema: resolver(zUnitPreferencesResponseSchema),
+          },
+        },
+      },
+      400: badRequestResponseObject,
+      401: unauthorizedResponseObject,
+    },
+  }), zValidator("json", zUnitPreferencesUpdateSchema), async (c) => {
+    const user = c.get("user");
+    const logger = c.get("logger");
+
+    if (!user) {
+      logger.warn("Unauthorized unit preferences update attempt");
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+
+    const data = c.req.valid("json");
+
+    const validatedPreferences = insertUserPreferencesSchema.parse({
+      userId: user.id,
+      unitSystem: data.unitSystem,
+      distanceUnit: data.distanceUnit ?? null,
+      speedUnit: data.speedUnit ?? null,
+      temperatureUnit: data.temperatureUnit ?? null,
+      pressureUnit: data.pressureUnit ?? null,
+      volumeUnit: data.volumeUnit ?? null,
+    });
+
+    const { userId: _userId, ...preferenceValues } = validatedPreferences;
+
+    const stored = await db
+      .insert(userPreferencesTable)
+      .values(validatedPreferences)
+      .onConflictDoUpdate({
+        target: userPreferencesTable.userId,
+        set: preferenceValues,
+      })
+      .returning()
+      .then(res => res[0]);
+
+    logger.info({ userId: user.id, unitSystem: stored.unitSystem }, "Unit preferences updated");
+
+    const units = await getUnitPreferences(user.id);
+
+    return c.json({
+      preferences: {
+        unitSystem: stored.unitSystem,
+        distanceUnit: stored.distanceUnit,
+        speedUnit: stored.speedUnit,
+        temperatureUnit: stored.temperatureUnit,
+        pressureUnit: stored.pressureUnit,
+        volumeUnit: stored.volumeUnit,
+      },
+      units,
+    });
+  });
@@ -0,0 +1,314 @@
+import { and, eq } from "drizzle-orm";
+import { Hono } from "hono";
+import { describeRoute } from "hono-openapi";
+import { resolver, validator as zValidator } from "hono-openapi/zod";
+import { getRuntimeKey } from "hono/adapter";
+import { upgradeWebSocket } from "hono/cloudflare-workers";
+import { streamSSE } from "hono/streaming";
+import { z } from "zod";
+
+import type { AppBindings } from "../lib/types";
+import type { TelemetryCursor } from "../zod/z-telemetry";
+
+import { db } from "../db";
+import { diagnosticsTable } from "../db/schema/diagnostics-schema";
+import { vehiclesTable } from "../db/schema/vehicles-schema";
+import { createTelemetryCursor, getTelemetrySince, persistTelemetryMessage } from "../lib/telemetry";
+import { getUnitPreferences } from "../lib/units";
+import { getSessionAndUser } from "../middleware/get-session-and-user";
+import { badRequestResponseObject, notFoundResponseObject, unauthorizedResponseObject } from "../zod/z-api-responses";
+import {
+  zTelemetryClientMessageSchema,
+  zTelemetryCursorPositionSchema,
+  zTelemetryIngestMessageSchema,
+  zTelemetryIngestResponseSchema,
+  zTelemetryUpdateSchema,
+} from "../zod/z-telemetry";
+
+// How often subscribers are checked for newly stored telemetry
+const POLL_INTERVAL_MS = 1000;
+
+/**
+ * Find a diagnostic and make sure the user is allowed to access it.
+ * Admins can access every diagnostic, users only those of their own vehicles.
+ */
+async function getAccessibleDiagnostic(user: { id: string; role: string }, diagnosticUUID: string) {
+  const diagnostic = await db
+    .select()
+    .from(diagnosticsTable)
+    .where(eq(diagnosticsTable.uuid, diagnosticUUID))
+    .then(res => res[0]);
+
+  if (!diagnostic) {
+    return { diagnostic: null, error: { message: "Diagnostic not found", status: 404 as const } };
+  }
+
+  if (user.role === "user") {
+    const vehicle = await db
+      .select()
+      .from(vehiclesTable)
+      .where(
+        and(
+          eq(vehiclesTable.uuid, diagnostic.vehicleUUID),
+          eq(vehiclesTable.ownerId, user.id),
+        ),
+      )
+      .then(res => res[0]);
+
+    if (!vehicle) {
+      return { diagnostic: null, error: { message: "Unauthorized to access this diagnostic", status: 401 as const } };
+    }
+  }
+
+  return { diagnostic, error: null };
+}
+
+export const telemetryRoute = new Hono<AppBindings>()
+  .use(getSessionAndUser)
+  .get("/:diagnosticUUID/ws", describeRoute({
+    tags: ["Telemetry"],
+    summary: "Open a live telemetry WebSocket",
+    description: "Upgrade to a WebSocket for an in-progress diagnostic session. The Android app sends \"readings\" and \"locations\" messages which are stored like the batch endpoints, while the web client sends a \"subscribe\" message and receives \"telemetry\" updates as new data is stored. Only available on Cloudflare Workers; elsewhere (such as the bun dev server) subscribe through the SSE stream and push through the HTTP fallback instead.",
+    responses: {
+      101: {
+        description: "Switching Protocols",
+      },
+      401: unauthorizedResponseObject,
+      404: notFoundResponseObject,
+      501: {
+        description: "WebSockets are not supported by the current runtime",
+      },
+    },
+  }), zValidator("param", z.object({
+    diagnosticUUID: z.string().uuid(),
+  })), async (c) => {
+    const user = c.get("user");
+    const logger = c.get("logger");
+
+    if (!user) {
+      logger.warn("Unauthorized telemetry socket attempt");
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+
+    // The upgrade relies on WebSocketPair, which only exists on Workers
+    if (getRuntimeKey() !== "workerd") {
+      logger.warn({ runtime: getRuntimeKey() }, "Telemetry socket requested outside Workers");
+      return c.json({ error: "WebSockets are only available on Cloudflare Workers, use the /stream endpoint and POST fallback instead" }, 501);
+    }
+
+    const diagnosticUUID = c.req.param("diagnosticUUID");
+
+    const { diagnostic, error } = await getAccessibleDiagnostic(user, diagnosticUUID);
+
+    if (!diagnostic) {
+      logger.warn({ diagnosticUUID, userId: user.id }, "Telemetry socket rejected");
+      return c.json({ error: error.message }, error.status);
+    }
+
+    const preferences = await getUnitPreferences(user.id);
+
+    let cursor: TelemetryCursor | null = null;
+    let pollTimer: ReturnType<typeof setInterval> | null = null;
+    let isPolling = false;
+
+    logger.debug({ diagnosticUUID, userId: user.id }, "Telemetry socket opened");
+
+    return upgradeWebSocket(c, {
+      onMessage: async (event, ws) => {
+        if (typeof event.data !== "string") {
+          ws.send(JSON.stringify({ type: "error", error: "Only JSON text messages are supported" }));
+          return;
+        }
+
+        let payload: unknown;
+        try {
+          payload = JSON.parse(event.data);
+        }
+        catch {
+          ws.send(JSON.stringify({ type: "error", error: "Invalid JSON" }));
+          return;
+        }
+
+        const parsed = zTelemetryClientMessageSchema.safeParse(payload);
+
+        if (!parsed.success) {
+          ws.send(JSON.stringify({ type: "error", error: "Invalid telemetry message", details: parsed.error.errors }));
+          return;
+        }
+
+        const message = parsed.data;
+
+        if (message.type === "ping") {
+          ws.send(JSON.stringify({ type: "pong" }));
+          return;
+        }
+
+        if (message.type === "subscribe") {
+          cursor = createTelemetryCursor(message.cursor);
+
+          if (!pollTimer) {
+            pollTimer = setInterval(async () => {
+              if (isPolling || !cursor) {
+                return;
+              }
+
+              isPolling = true;
+              try {
+                const update = await getTelemetrySince(diagnostic.uuid, cursor, preferences);
+                if (update) {
+                  cursor = update.cursor;
+                  ws.send(JSON.stringify(update));
+                }
+              }
+              catch (pollError) {
+                logger.error({ diagnosticUUID, error: pollError instanceof Error ? pollError.message : String(pollError) }, "Telemetry poll failed");
+              }
+              finally {
+                isPolling = false;
+              }
+            }, POLL_INTERVAL_MS);
+          }
+
+          ws.send(JSON.stringify({ type: "subscribed", diagnosticUUID: diagnostic.uuid, cursor }));
+          return;
+        }
+
+        try {
+          const result = await persistTelemetryMessage(diagnostic, message, logger);
+          ws.send(JSON.stringify({ type: "ack", ...result }));
+        }
+        catch (persistError) {
+          logger.error({ diagnosticUUID, error: persistError instanceof Error ? persistError.message : String(persistError) }, "Failed to store live telemetry");
+          ws.send(JSON.stringify({ type: "error", error: "Failed to store telemetry" }));
+        }
+      },
+      onClose: () => {
+        if (pollTimer) {
+          clearInterval(pollTimer);
+          pollTimer = null;
+        }
+
+        logger.debug({ diagnosticUUID }, "Telemetry socket closed");
+      },
+    });
+  })
+  .get("/:diagnosticUUID/stream", describeRoute({
+    tags: ["Telemetry"],
+    summary: "Subscribe to live telemetry (SSE)",
+    description: "Server-Sent Events fallback for clients that cannot open a WebSocket. Emits a \"telemetry\" event every time new readings or locations are stored for the diagnostic.",
+    responses: {
+      200: {
+        description: "OK",
+        content: {
+          "text/event-stream": {
+            schema: resolver(zTelemetryUpdateSchema),
+          },
+        },
+      },
+      401: unauthorizedResponseObject,
+      404: notFoundResponseObject,
+    },
+  }), zValidator("param", z.object({
+    diagnosticUUID: z.string().uuid(),
+  })), zValidator("query", z.object({
+    readingsCursor: zTelemetryCursorPositionSchema.optional(),
+    locationsCursor: zTelemetryCursorPositionSchema.optional(),
+  })), async (c) => {
+    const user = c.get("user");
+    const logger = c.get("logger");
+
+    if (!user) {
+      logger.warn("Unauthorized access attempt - telemetry stream");
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+
+    const diagnosticUUID = c.req.param("diagnosticUUID");
+    const { readingsCursor, locationsCursor } = c.req.valid("query");
+
+    const { diagnostic, error } = await getAccessibleDiagnostic(user, diagnosticUUID);
+
+    if (!diagnostic) {
+      logger.warn({ diagnosticUUID, userId: user.id }, "Telemetry stream rejected");
+      return c.json({ error: error.message }, error.status);
+    }
+
+    const preferences = await getUnitPreferences(user.id);
+
+    logger.debug({ diagnosticUUID, userId: user.id }, "Telemetry stream opened");
+
+    return streamSSE(c, async (stream) => {
+      let cursor = createTelemetryCursor({ readings: readingsCursor, locations: locationsCursor });
+
+      stream.onAbort(() => {
+        logger.debug({ diagnosticUUID }, "Telemetry stream closed");
+      });
+
+      while (!stream.aborted) {
+        const update = await getTelemetrySince(diagnostic.uuid, cursor, preferences);
+
+        if (update) {
+          cursor = update.cursor;
+          await stream.writeSSE({
+            event: "telemetry",
+            data: JSON.stringify(update),
+          });
+        }
+        else {
+          await stream.writeSSE({ event: "heartbeat", data: JSON.stringify({ cursor }) });
+        }
+
+        await stream.sleep(POLL_INTERVAL_MS);
+      }
+    });
+  })
+  .post("/:diagnosticUUID", describeRoute({
+    tags: ["Telemetry"],
+    summary: "Push a live telemetry message",
+    description: "HTTP fallback for the WebSocket ingestion channel. Accepts the same \"readings\" and \"locations\" messages and stores them for the diagnostic like the batch endpoints, including geofence checks and trip detection.",
+    responses: {
+      201: {
+        description: "Created",
+        content: {
+          "application/json": {
+            schema: resolver(zTelemetryIngestResponseSchema),
+          },
+        },
+      },
+      400: badRequestResponseObject,
+      401: unauthorizedResponseObject,
+      404: notFoundResponseObject,
+    },
+  }), zValidator("param", z.object({
+    diagnosticUUID: z.string().uuid(),
+  })), zValidator("json", zTelemetryIngestMessageSchema), async (c) => {
+    const user = c.get("user");
+    const logger = c.get("logger");
+
+    if (!user) {
+      logger.warn("Unauthorized telemetry push attempt");
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+
+    const diagnosticUUID = c.req.param("diagnosticUUID");
+    const message = c.req.valid("json");
+
+    const { diagnostic, error } = await getAccessibleDiagnostic(user, diagnosticUUID);
+
+    if (!diagnostic) {
+      logger.warn({ diagnosticUUID, userId: user.id }, "Telemetry push rejected");
+      return c.json({ error: error.message }, error.status);
+    }
+
+    const { readingsCount, locationsCount, unresolvedPids } = await persistTelemetryMessage(diagnostic, message, logger);
+
+    c.status(201);
+
+    logger.debug({ diagnosticUUID, readingsCount, locationsCount, unresolvedPids }, "Live telemetry stored");
+
+    return c.json({
+      message: "Telemetry stored successfully",
+      readingsCount,
+      locationsCount,
+      unresolvedPids,
+    });
+  });
@@ -0,0 +1,217 @@
+import { and, asc, desc, eq, gte, lte } from "drizzle-orm";
+import { Hono } from "hono";
+import { describeRoute } from "hono-openapi";
+import { resolver, validator as zValidator } from "hono-openapi/zod";
+import { stream } from "hono/streaming";
+import { z } from "zod";
+
+import type { AppBindings } from "../lib/types";
+
+import { db } from "../db";
+import { locationsTable } from "../db/schema/locations-schema";
+import { tripsTable } from "../db/schema/trips-schema";
+import { ROUTE_FORMAT_CONTENT_TYPES, serializeRoute } from "../lib/route-formats";
+import { convertTrip } from "../lib/trips";
+import { convertLocation, getUnitPreferences } from "../lib/units";
+import { getAccessibleVehicle } from "../lib/vehicles";
+import { getSessionAndUser } from "../middleware/get-session-and-user";
+import { notFoundResponseObject, unauthorizedResponseObject } from "../zod/z-api-responses";
+import { zRouteExportQuerySchema } from "../zod/z-locations";
+import { zTripDetailResponseSchema, zTripsListResponseSchema, zTripsQuerySchema } from "../zod/z-trips";
+
+// Mounted under /vehicles/:vehicleUUID/trips
+export const tripsRoute = new Hono<AppBindings>()
+  .use(getSessionAndUser)
+  .get("/", describeRoute({
+    tags: ["Trips"],
+    summary: "List trips of a vehicle",
+    description: "List the trips detected in the location stream of a vehicle, most recent first. Trips are split on gaps in the locations, long stops and engine-off RPM readings. Distance and speeds follow the user's unit preferences.",
+    responses: {
+      200: {
+        description: "OK",
+        content: {
+          "application/json": {
+            schema: resolver(zTripsListResponseSchema),
+          },
+        },
+      },
+      401: unauthorizedResponseObject,
+      404: notFoundResponseObject,
+    },
+  }), zValidator("param", z.object({
+    vehicleUUID: z.string().uuid(),
+  })), zValidator("query", zTripsQuerySchema), async (c) => {
+    const user = c.get("user");
+    const logger = c.get("logger");
+
+    if (!user) {
+      logger.warn("Unauthorized access attempt - trips");
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+
+    const { vehicleUUID } = c.req.valid("param");
+    const { from, to, limit } = c.req.valid("query");
+
+    const vehicle = await getAccessibleVehicle(vehicleUUID, user);
+
+    if (!vehicle) {
+      logger.warn({ userId: user.id, vehicleUUID }, "Vehicle not found or not owned");
+      return c.json({ error: "Vehicle not found" }, 404);
+    }
+
+    const trips = await db
+      .select()
+      .from(tripsTable)
+      .where(
+        and(
+          eq(tripsTable.vehicleUUID, vehicle.uuid),
+          from ? gte(tripsTable.startedAt, new Date(from)) : undefined,
+          to ? lte(tripsTable.startedAt, new Date(to)) : undefined,
+        ),
+      )
+      .orderBy(desc(tripsTable.startedAt))
+      .limit(limit);
+
+    const preferences = await getUnitPreferences(user.id);
+
+    return c.json(trips.map(trip => convertTrip(trip, preferences)));
+  })
+  .get("/:tripUUID", describeRoute({
+    tags: ["Trips"],
+    summary: "Get a trip",
+    description: "Get a trip of a vehicle with the locations recorded between its start and end. Distance, speeds and altitudes follow the user's unit preferences.",
+    responses: {
+      200: {
+        description: "OK",
+        content: {
+          "application/json": {
+            schema: resolver(zTripDetailResponseSchema),
+          },
+        },
+      },
+      401: unauthorizedResponseObject,
+      404: notFoundResponseObject,
+    },
+  }), zValidator("param", z.object({
+    vehicleUUID: z.string().uuid(),
+    tripUUID: z.string().uuid(),
+  })), async (c) => {
+    const user = c.get("user");
+    const logger = c.get("logger");
+
+    if (!user) {
+      logger.warn("Unauthorized access attempt - trip details");
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+
+    const { vehicleUUID, tripUUID } = c.req.valid("param");
+
+    const vehicle = await getAccessibleVehicle(vehicleUUID, user);
+
+    if (!vehicle) {
+      logger.warn({ userId: user.id, vehicleUUID }, "Vehicle not found or not owned");
+      return c.json({ error: "Vehicle not found" }, 404);
+    }
+
+    const trip = await db
+      .select()
+      .from(tripsTable)
+      .where(and(eq(tripsTable.uuid, tripUUID), eq(tripsTable.vehicleUUID, vehicle.uuid)))
+      .then(res => res[0]);
+
+    if (!trip) {
+      logger.warn({ vehicleUUID, tripUUID }, "Trip not found");
+      return c.json({ error: "Trip not found" }, 404);
+    }
+
+    const locations = await db
+      .select()
+      .from(locationsTable)
+      .where(
+        and(
+          eq(locationsTable.vehicleUUID, vehicle.uuid),
+          gte(locationsTable.timestamp, trip.startedAt),
+          lte(locationsTable.timestamp, trip.endedAt),
+        ),
+      )
+      .orderBy(asc(locationsTable.timestamp));
+
+    const preferences = await getUnitPreferences(user.id);
+
+    return c.json({
+      ...convertTrip(trip, preferences),
+      locations: locations.map(location => convertLocation(location, preferences)),
+    });
+  })
+  .get("/:tripUUID/export", describeRoute({
+    tags: ["Trips"],
+    summary: "Export the route of a trip",
+    description: "Stream the locations of a trip as a GPX 1.1 track, a KML gx:Track or a GeoJSON LineString, with altitude in metres and speed in m/s",
+    responses: {
+      200: {
+        description: "Route document",
+        content: {
+          "application/gpx+xml": { schema: { type: "string" } },
+          "application/vnd.google-earth.kml+xml": { schema: { type: "string" } },
+          "application/geo+json": { schema: { type: "object" } },
+        },
+      },
+      401: unauthorizedResponseObject,
+      404: notFoundResponseObject,
+    },
+  }), zValidator("param", z.object({
+    vehicleUUID: z.string().uuid(),
+    tripUUID: z.string().uuid(),
+  })), zValidator("query", zRouteExportQuerySchema), async (c) => {
+    const user = c.get("user");
+    const logger = c.get("logger");
+
+    if (!user) {
+      logger.warn("Unauthorized access attempt - trip export");
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+
+    const { vehicleUUID, tripUUID } = c.req.valid("param");
+    const { format } = c.req.valid("query");
+
+    const vehicle = await getAccessibleVehicle(vehicleUUID, user);
+
+    if (!vehicle) {
+      logger.warn({ userId: user.id, vehicleUUID }, "Vehicle not found or not owned");
+      return c.json({ error: "Vehicle not found" }, 404);
+    }
+
+    const trip = await db
+      .select()
+      .from(tripsTable)
+      .where(and(eq(tripsTable.uuid, tripUUID), eq(tripsTable.vehicleUUID, vehicle.uuid)))
+      .then(res => res[0]);
+
+    if (!trip) {
+      logger.warn({ vehicleUUID, tripUUID }, "Trip not found");
+      return c.json({ error: "Trip not found" }, 404);
+    }
+
+    const locations = await db
+      .select()
+      .from(locationsTable)
+      .where(
+        and(
+          eq(locationsTable.vehicleUUID, vehicle.uuid),
+          gte(locationsTable.timestamp, trip.startedAt),
+          lte(locationsTable.timestamp, trip.endedAt),
+        ),
+      )
+      .orderBy(asc(locationsTable.timestamp));
+
+    const name = `${vehicle.make} ${vehicle.model} trip ${trip.startedAt.toISOString().slice(0, 16).replace("T", " ")}`;
+
+    c.header("Content-Type", ROUTE_FORMAT_CONTENT_TYPES[format]);
+    c.header("Content-Disposition", `attachment; filename="trip-${tripUUID}.${format}"`);
+
+    return stream(c, async (output) => {
+      for (const chunk of serializeRoute(format, name, locations)) {
+        await output.write(chunk);
+      }
+    });
+  });
@@ -0,0 +1,489 @@
+import { and, eq } from "drizzle-orm";
+import { Hono } from "hono";
+import { describeRoute } from "hono-openapi";
+import { resolver, validator as zValidator } from "hono-openapi/zod";
+import { z } from "zod";
+
+import type { AppBindings } from "../lib/types";
+
+import { db } from "../db";
+import { vehicleDocumentsTable } from "../db/schema/vehicle-documents-schema";
+import { getAttachmentContentType, MAX_ATTACHMENT_SIZE } from "../lib/maintenance-attachments";
+import {
+  checkVehicleDocumentReminders,
+  convertVehicleDocument,
+  getVehicleDocumentFileKey,
+  getVehicleDocuments,
+} from "../lib/vehicle-documents";
+import { getAccessibleVehicle } from "../lib/vehicles";
+import { getSessionAndUser } from "../middleware/get-session-and-user";
+import { badRequestResponseObject, notFoundResponseObject, unauthorizedResponseObject } from "../zod/z-api-responses";
+import {
+  zVehicleDocumentCreateSchema,
+  zVehicleDocumentFileQuerySchema,
+  zVehicleDocumentFileUploadSchema,
+  zVehicleDocumentParamSchema,
+  zVehicleDocumentSchema,
+  zVehicleDocumentsListResponseSchema,
+  zVehicleDocumentUpdateSchema,
+} from "../zod/z-vehicle-documents";
+
+async function getVehicleDocument(vehicleUUID: string, documentUUID: string) {
+  return db
+    .select()
+    .from(vehicleDocumentsTable)
+    .where(and(eq(vehicleDocumentsTable.uuid, documentUUID), eq(vehicleDocumentsTable.vehicleUUID, vehicleUUID)))
+    .then(res => res[0]);
+}
+
+// Mounted under /vehicles/:vehicleUUID/documents
+export const vehicleDocumentsRoute = new Hono<AppBindings>()
+  .use(getSessionAndUser)
+  .get("/", describeRoute({
+    tags: ["Vehicle Documents"],
+    summary: "List the documents of a vehicle",
+    description: "List the insurance, inspection, vignette and registration documents of a vehicle, soonest expiry first, with their expiry status. Reminders are raised for documents that reached one of their lead times or expired.",
+    responses: {
+      200: {
+        description: "OK",
+        content: {
+          "application/json": {
+            schema: resolver(zVehicleDocumentsListResponseSchema),
+          },
+        },
+      },
+      401: unauthorizedResponseObject,
+      404: notFoundResponseObject,
+    },
+  }), zValidator("param", z.object({
+    vehicleUUID: z.string().uuid(),
+  })), async (c) => {
+    const user = c.get("user");
+    const logger = c.get("logger");
+
+    if (!user) {
+      logger.warn("Unauthorized access attempt - vehicle documents");
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+
+    const { vehicleUUID } = c.req.valid("param");
+
+    const vehicle = await getAccessibleVehicle(vehicleUUID, user);
+
+    if (!vehicle) {
+      logger.warn({ userId: user.id, vehicleUUID }, "Vehicle not found or not owned");
+      return c.json({ error: "Vehicle not found" }, 404);
+    }
+
+    // Expiry has no event to hang off, so reminders are raised when the documents are looked at
+    try {
+      const reminders = await checkVehicleDocumentReminders(vehicle);
+      if (reminders.length > 0) {
+        logger.info({ vehicleUUID, count: reminders.length }, "Document expiry reminders raised");
+      }
+    }
+    catch (error) {
+      logger.error({ error, vehicleUUID }, "Failed to check document expiry reminders");
+    }
+
+    const documents = await getVehicleDocuments(vehicle.uuid);
+    const now = new Date();
+
+    return c.json(documents.map(document => convertVehicleDocument(document, now)));
+  })
+  .post("/", describeRoute({
+    tags: ["Vehicle Documents"],
+    summary: "Add a document to a vehicle",
+    description: "Add an insurance policy, inspection, vignette, registration or other document to a vehicle. The owner is reminded at each lead time before the document expires and when it expires.",
+    responses: {
+      201: {
+        description: "Created",
+        content: {
+          "application/json": {
+            schema: resolver(zVehicleDocumentSchema),
+          },
+        },
+      },
+      400: badRequestResponseObject,
+      401: unauthorizedResponseObject,
+      404: notFoundResponseObject,
+    },
+  }), zValidator("param", z.object({
+    vehicleUUID: z.string().uuid(),
+  })), zValidator("json", zVehicleDocumentCreateSchema), async (c) => {
+    const user = c.get("user");
+    const logger = c.get("logger");
+
+    if (!user) {
+      logger.warn("Unauthorized vehicle document creation attempt");
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+
+    const { vehicleUUID } = c.req.valid("param");
+    const { validFrom, validTo, ...rest } = c.req.valid("json");
+
+    const vehicle = await getAccessibleVehicle(vehicleUUID, user);
+
+    if (!vehicle) {
+      logger.warn({ userId: user.id, vehicleUUID }, "Vehicle not found or not owned");
+      return c.json({ error: "Vehicle not found" }, 404);
+    }
+
+    const document = await db
+      .insert(vehicleDocumentsTable)
+      .values({
+        ...rest,
+        vehicleUUID: vehicle.uuid,
+        validFrom: validFrom ? new Date(validFrom) : null,
+        validTo: validTo ? new Date(validTo) : null,
+      })
+      .returning()
+      .then(res => res[0]);
+
+    logger.info({ documentUUID: document.uuid, vehicleUUID, type: document.type }, "Vehicle document created");
+
+    c.status(201);
+    return c.json(convertVehicleDocument(document));
+  })
+  .patch("/:documentUUID", describeRoute({
+    tags: ["Vehicle Documents"],
+    summary: "Update a vehicle document",
+    description: "Update the details of a vehicle document, for example after renewing it. A new expiry date or new lead times restart the reminders.",
+    responses: {
+      200: {
+        description: "OK",
+        content: {
+          "application/json": {
+            schema: resolver(zVehicleDocumentSchema),
+          },
+        },
+      },
+      400: badRequestResponseObject,
+      401: unauthorizedResponseObject,
+      404: notFoundResponseObject,
+    },
+  }), zValidator("param", zVehicleDocumentParamSchema), zValidator("json", zVehicleDocumentUpdateSchema), async (c) => {
+    const user = c.get("user");
+    const logger = c.get("logger");
+
+    if (!user) {
+      logger.warn("Unauthorized vehicle document update attempt");
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+
+    const { vehicleUUID, documentUUID } = c.req.valid("param");
+    const { validFrom, validTo, ...rest } = c.req.valid("json");
+
+    const vehicle = await getAccessibleVehicle(vehicleUUID, user);
+
+    if (!vehicle) {
+      logger.warn({ userId: user.id, vehicleUUID }, "Vehicle not found or not owned");
+      return c.json({ error: "Vehicle not found" }, 404);
+    }
+
+    const document = await getVehicleDocument(vehicle.uuid, documentUUID);
+
+    if (!document) {
+      return c.json({ error: "Document not found" }, 404);
+    }
+
+    const newValidFrom = validFrom !== undefined ? (validFrom ? new Date(validFrom) : null) : document.validFrom;
+    const newValidTo = validTo !== undefined ? (validTo ? new Date(validTo) : null) : document.validTo;
+
+    if (newValidFrom && newValidTo && newValidFrom > newValidTo) {
+      return c.json({ error: "validFrom must be before validTo" }, 400);
+    }
+
+    const restartReminders = newValidTo?.getTime() !== document.validTo?.getTime() || rest.reminderLeadDays !== undefined;
+
+    const updatedDocument = await db
+      .update(vehicleDocumentsTable)
+      .set({
+        ...rest,
+        validFrom: newValidFrom,
+        validTo: newValidTo,
+        ...(restartReminders && { remindedLeadDays: null }),
+      })
+      .where(eq(vehicleDocumentsTable.uuid, document.uuid))
+      .returning()
+      .then(res => res[0]);
+
+    logger.info({ documentUUID, vehicleUUID, restartReminders }, "Vehicle document updated");
+
+    return c.json(convertVehicleDocument(updatedDocument));
+  })
+  .delete("/:documentUUID", describeRoute({
+    tags: ["Vehicle Documents"],
+    summary: "Delete a vehicle document",
+    description: "Delete a vehicle document and its stored file",
+    responses: {
+      200: {
+        description: "OK",
+        content: {
+          "application/json": {
+            schema: resolver(z.object({ message: z.string() })),
+          },
+        },
+      },
+      401: unauthorizedResponseObject,
+      404: notFoundResponseObject,
+    },
+  }), zValidator("param", zVehicleDocumentParamSchema), async (c) => {
+    const user = c.get("user");
+    const logger = c.get("logger");
+
+    if (!user) {
+      logger.warn("Unauthorized vehicle document deletion attempt");
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+
+    const { vehicleUUID, documentUUID } = c.req.valid("param");
+
+    const vehicle = await getAccessibleVehicle(vehicleUUID, user);
+
+    if (!vehicle) {
+      logger.warn({ userId: user.id, vehicleUUID }, "Vehicle not found or not owned");
+      return c.json({ error: "Vehicle not found" }, 404);
+    }
+
+    const document = await db
+      .delete(vehicleDocumentsTable)
+      .where(and(eq(vehicleDocumentsTable.uuid, documentUUID), eq(vehicleDocumentsTable.vehicleUUID, vehicle.uuid)))
+      .returning()
+      .then(res => res[0]);
+
+    if (!document) {
+      return c.json({ error: "Document not found" }, 404);
+    }
+
+    if (document.fileKey) {
+      try {
+        await c.env.R2_BUCKET.delete(document.fileKey);
+      }
+      catch (error) {
+        logger.error({ error, documentUUID, key: document.fileKey }, "Failed to delete vehicle document file from storage");
+      }
+    }
+
+    logger.info({ documentUUID, vehicleUUID }, "Vehicle document deleted");
+
+    return c.json({ message: "Vehicle document deleted successfully" });
+  })
+  .put("/:documentUUID/file", describeRoute({
+    tags: ["Vehicle Documents"],
+    summary: "Upload the file of a vehicle document",
+    description: `Upload a scan or photo of a vehicle document as multipart form data, replacing any previous file. Supports PDF, JPEG, PNG and HEIC files of up to ${MAX_ATTACHMENT_SIZE / 1024 / 1024}MB. Files are stored privately and can only be downloaded by the owner of the vehicle.`,
+    responses: {
+      200: {
+        description: "OK",
+        content: {
+          "application/json": {
+            schema: resolver(zVehicleDocumentSchema),
+          },
+        },
+      },
+      400: badRequestResponseObject,
+      401: unauthorizedResponseObject,
+      404: notFoundResponseObject,
+    },
+  }), zValidator("param", zVehicleDocumentParamSchema), zValidator("form", zVehicleDocumentFileUploadSchema), async (c) => {
+    const user = c.get("user");
+    const logger = c.get("logger");
+
+    if (!user) {
+      logger.warn("Unauthorized vehicle document file upload attempt");
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+
+    if (!c.env.R2_BUCKET) {
+      logger.error("R2_BUCKET binding not found");
+      return c.json({ error: "Storage not configured" }, 500);
+    }
+
+    const { vehicleUUID, documentUUID } = c.req.valid("param");
+    const { file } = c.req.valid("form");
+
+    const vehicle = await getAccessibleVehicle(vehicleUUID, user);
+
+    if (!vehicle) {
+      logger.warn({ userId: user.id, vehicleUUID }, "Vehicle not found or not owned");
+      return c.json({ error: "Vehicle not found" }, 404);
+    }
+
+    const document = await getVehicleDocument(vehicle.uuid, documentUUID);
+
+    if (!document) {
+      return c.json({ error: "Document not found" }, 404);
+    }
+
+    const contentType = getAttachmentContentType(file);
+
+    if (!contentType) {
+      return c.json({ error: "Unsupported file type. Allowed types are PDF, JPEG, PNG and HEIC." }, 400);
+    }
+
+    if (file.size > MAX_ATTACHMENT_SIZE) {
+      return c.json({ error: `File too large. Max size is ${MAX_ATTACHMENT_SIZE / 1024 / 1024}MB.` }, 400);
+    }
+
+    const key = getVehicleDocumentFileKey(vehicle.uuid, document.uuid, contentType);
+
+    await c.env.R2_BUCKET.put(key, await file.arrayBuffer(), {
+      httpMetadata: {
+        contentType,
+        cacheControl: "private, max-age=3600",
+      },
+      customMetadata: {
+        userId: user.id,
+        documentUUID: document.uuid,
+        uploadedAt: new Date().toISOString(),
+      },
+    });
+
+    let updatedDocument;
+
+    try {
+      updatedDocument = await db
+        .update(vehicleDocumentsTable)
+        .set({
+          fileKey: key,
+          fileName: file.name || "document",
+          fileContentType: contentType,
+          fileSize: file.size,
+        })
+        .where(eq(vehicleDocumentsTable.uuid, document.uuid))
+        .returning()
+        .then(res => res[0]);
+    }
+    catch (error) {
+      // The document still points at its previous file, so the new one would be orphaned
+      try {
+        await c.env.R2_BUCKET.delete(key);
+      }
+      catch (deleteError) {
+        logger.error({ error: deleteError, documentUUID, key }, "Failed to delete orphaned vehicle document file");
+      }
+
+      throw error;
+    }
+
+    // The previous file is only removed once the new one is in place
+    if (document.fileKey) {
+      try {
+        await c.env.R2_BUCKET.delete(document.fileKey);
+      }
+      catch (error) {
+        logger.error({ error, documentUUID, key: document.fileKey }, "Failed to delete replaced vehicle document file");
+      }
+    }
+
+    logger.info({ documentUUID, vehicleUUID, key, size: file.size }, "Vehicle document file uploaded");
+
+    return c.json(convertVehicleDocument(updatedDocument));
+  })
+  .get("/:documentUUID/file", describeRoute({
+    tags: ["Vehicle Documents"],
+    summary: "Download the file of a vehicle document",
+    description: "Download the scan or photo of a vehicle document. Images and PDFs are shown inline unless download is set, other files are always downloaded.",
+    responses: {
+      200: {
+        description: "Document file",
+      },
+      401: unauthorizedResponseObject,
+      404: notFoundResponseObject,
+    },
+  }), zValidator("param", zVehicleDocumentParamSchema), zValidator("query", zVehicleDocumentFileQuerySchema), async (c) => {
+    const user = c.get("user");
+    const logger = c.get("logger");
+
+    if (!user) {
+      logger.warn("Unauthorized vehicle document file download attempt");
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+
+    const { vehicleUUID, documentUUID } = c.req.valid("param");
+    const { download } = c.req.valid("query");
+
+    const vehicle = await getAccessibleVehicle(vehicleUUID, user);
+
+    if (!vehicle) {
+      logger.warn({ userId: user.id, vehicleUUID }, "Vehicle not found or not owned");
+      return c.json({ error: "Vehicle not found" }, 404);
+    }
+
+    const document = await getVehicleDocument(vehicle.uuid, documentUUID);
+
+    if (!document?.fileKey || !document.fileContentType) {
+      return c.json({ error: "Document file not found" }, 404);
+    }
+
+    const object = await c.env.R2_BUCKET.get(document.fileKey);
+
+    if (!object) {
+      logger.error({ documentUUID, key: document.fileKey }, "Vehicle document file missing from storage");
+      return c.json({ error: "Document file not found" }, 404);
+    }
+
+    // Only images and PDFs are shown inline, anything else is always downloaded
+    const inline = !download && (document.fileContentType.startsWith("image/") || document.fileContentType === "application/pdf");
+
+    c.header("Content-Type", document.fileContentType);
+    c.header("Content-Disposition", `${inline ? "inline" : "attachment"}; filename*=UTF-8''${encodeURIComponent(document.fileName ?? "document")}`);
+    c.header("X-Content-Type-Options", "nosniff");
+    c.header("Cache-Control", "private, max-age=3600");
+
+    return c.body(object.body);
+  })
+  .delete("/:documentUUID/file", describeRoute({
+    tags: ["Vehicle Documents"],
+    summary: "Remove the file of a vehicle document",
+    description: "Remove the scan or photo of a vehicle document, keeping its details",
+    responses: {
+      200: {
+        description: "OK",
+        content: {
+          "application/json": {
+            schema: resolver(zVehicleDocumentSchema),
+          },
+        },
+      },
+      401: unauthorizedResponseObject,
+      404: notFoundResponseObject,
+    },
+  }), zValidator("param", zVehicleDocumentParamSchema), async (c) => {
+    const user = c.get("user");
+    const logger = c.get("logger");
+
+    if (!user) {
+      logger.warn("Unauthorized vehicle document file deletion attempt");
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+
+    const { vehicleUUID, documentUUID } = c.req.valid("param");
+
+    const vehicle = await getAccessibleVehicle(vehicleUUID, user);
+
+    if (!vehicle) {
+      logger.warn({ userId: user.id, vehicleUUID }, "Vehicle not found or not owned");
+      return c.json({ error: "Vehicle not found" }, 404);
+    }
+
+    const document = await getVehicleDocument(vehicle.uuid, documentUUID);
+
+    if (!document?.fileKey) {
+      return c.json({ error: "Document file not found" }, 404);
+    }
+
+    await c.env.R2_BUCKET.delete(document.fileKey);
+
+    const updatedDocument = await db
+      .update(vehicleDocumentsTable)
+      .set({ fileKey: null, fileName: null, fileContentType: null, fileSize: null })
+      .where(eq(vehicleDocumentsTable.uuid, document.uuid))
+      .returning()
+      .then(res => res[0]);
+
+    logger.info({ documentUUID, vehicleUUID }, "Vehicle document file removed");
+
+    return c.json(convertVehicleDocument(updatedDocument));
+  });
@@ -13,14 +13,23 @@ import {
   insertOwnershipTransferSchema,
   ownershipTransfersTable,
 } from "../db/schema/ownership-transfers";
+import { sensorAnomaliesTable } from "../db/schema/sensor-anomalies-schema";
 import {
   insertVehicleSchema,
   updateVehicleSchema,
   vehiclesTable,
 } from "../db/schema/vehicles-schema";
+import { getVehicleDTCHistory, isActiveDTCHistoryEntry } from "../lib/dtc-lifecycle";
+import { aggregateFuelConsumption, DERIVED_FUEL_PIDS, getFuelKind } from "../lib/fuel-consumption";
+import { createPidResolver, getPidRegistry } from "../lib/pid-registry";
+import { aggregateSensorReadings, convertAggregateSeries, getAutoBucket, getBucketSeconds, getReadingTimeRange, MAX_AGGREGATE_BUCKETS } from "../lib/sensor-aggregates";
+import { convertSensorAnomaly } from "../lib/sensor-anomalies";
+import { convertDistance, convertLocation, getUnitPreferences } from "../lib/units";
 import { getSessionAndUser } from "../middleware/get-session-and-user";
 import { badRequestResponseObject, notFoundResponseObject, unauthorizedResponseObject, vehicleNotFoundResponseObject } from "../zod/z-api-responses";
+import { zDTCHistoryQuerySchema, zDTCHistoryResponseSchema } from "../zod/z-dtc";
 import { zLocationsListResponseSchema } from "../zod/z-locations";
+import { zSensorAggregateBucketSecondsSchema, zSensorAggregateQuerySchema, zSensorAggregateResponseSchema, zSensorAnomaliesListResponseSchema, zSensorAnomaliesQuerySchema } from "../zod/z-sensors";
 import {
   zVehicleCreateResponseSchema,
   zVehicleDeleteResponseSchema,
@@ -30,6 +39,13 @@ import {
   zVehiclesListResponseSchema,
   zVehicleUpdateResponseSchema,
 } from "../zod/z-vehicles";
+import { alertRulesRoute } from "./alert-rules-route";
+import { drivingRoute } from "./driving-route";
+import { fuelLogsRoute } from "./fuel-logs-route";
+import { geofencesRoute } from "./geofences-route";
+import { maintenanceSchedulesRoute } from "./maintenance-schedules-route";
+import { tripsRoute } from "./trips-route";
+import { vehicleDocumentsRoute } from "./vehicle-documents-route";
 
 const MAX_LOCATIONS_LIMIT = 100;
 
@@ -504,7 +520,12 @@ export const vehiclesRoute = new Hono<AppBindings>()
     // Use the numeric ID from the vehicle to query diagnostics
     const diagnostics = await db.select().from(diagnosticsTable).where(eq(diagnosticsTable.vehicleUUID, vehicle.uuid));
 
-    return c.json(diagnostics);
+    const preferences = await getUnitPreferences(user.id);
+
+    return c.json(diagnostics.map(diagnostic => ({
+      ...diagnostic,
+      odometer: Math.round(convertDistance(diagnostic.odometer, preferences)),
+    })));
   })
   .get("/:vehicleUUID/locations/recent", describeRoute({
     tags: ["Vehicles"],
@@ -589,5 +610,272 @@ export const vehiclesRoute = new Hono<AppBindings>()
       logger.debug({ count: locations.length }, "Recent locations found");
     }
 
-    return c.json(locations);
-  });
+    const preferences = await getUnitPreferences(user.id);
+
+    return c.json(locations.map(location => convertLocation(location, preferences)));
+  })
+  .get("/:vehicleUUID/sensors/aggregate", describeRoute({
+    tags: ["Vehicles"],
+    description: "Aggregate sensor readings of a vehicle into time buckets. Returns min/max/avg/count/last per PID per bucket, computed in the database and expressed in the user's preferred units. The derived FUEL_RATE (L/h) and FUEL_ECONOMY (L/100km) series, estimated from the MAF, speed and engine fuel rate readings, can be requested like any other PID. Without \"from\" the range starts at the oldest reading of the vehicle (or of the diagnostic), and without \"to\" it ends now (or at the diagnostic's last reading). A bucket of \"auto\" picks the bucket size giving at most 500 points over the range. Requests that would return more than 5000 buckets per PID, or too many rows overall, are rejected. If user role is 'user', they can only access their own vehicles.",
+    summary: "Get aggregated sensor readings for a vehicle",
+    responses: {
+      200: {
+        description: "OK",
+        content: {
+          "application/json": {
+            schema: resolver(zSensorAggregateResponseSchema),
+          },
+        },
+      },
+      401: unauthorizedResponseObject,
+      404: notFoundResponseObject,
+      400: badRequestResponseObject,
+    },
+  }), zValidator("param", z.object({
+    vehicleUUID: z.string().uuid(),
+  })), zValidator("query", zSensorAggregateQuerySchema), async (c) => {
+    const user = c.get("user");
+    const logger = c.get("logger");
+
+    if (!user) {
+      logger.warn("Unauthorized access attempt - vehicle sensor aggregates");
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+
+    const vehicleUUID = c.req.param("vehicleUUID");
+    const { pids, bucket, from, to, diagnosticUUID } = c.req.valid("query");
+
+    logger.debug({ userId: user.id, vehicleUUID, pids, bucket, from, to, diagnosticUUID }, "Aggregating sensor readings for vehicle");
+
+    // Get the vehicle first to check ownership
+    const vehicle = await db
+      .select()
+      .from(vehiclesTable)
+      .where(eq(vehiclesTable.uuid, vehicleUUID))
+      .then(res => res[0]);
+
+    if (!vehicle) {
+      logger.debug({ vehicleUUID }, "Vehicle not found");
+      return c.json({ error: "Vehicle not found" }, 404);
+    }
+
+    // Check ownership for non-admin users
+    if (user.role === "user" && vehicle.ownerId !== user.id) {
+      logger.warn({
+        userId: user.id,
+        vehicleUUID: vehicle.uuid,
+        ownerId: vehicle.ownerId,
+      }, "Access denied to vehicle sensor aggregates");
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+
+    // An open range runs from the oldest reading up to now, or up to the last reading of a diagnostic,
+    // so the bucket limit always applies
+    const readingRange = !from || (!to && diagnosticUUID)
+      ? await getReadingTimeRange({ vehicleUUID: vehicle.uuid, diagnosticUUID })
+      : null;
+
+    const toDate = to ? new Date(to) : (diagnosticUUID && readingRange?.to) || new Date();
+    const fromDate = from ? new Date(from) : readingRange?.from ?? toDate;
+
+    if (fromDate > toDate) {
+      return c.json({ error: "\"from\" must be before \"to\"" }, 400);
+    }
+
+    const resolvedBucket = bucket === "auto" ? getAutoBucket((toDate.getTime() - fromDate.getTime()) / 1000) : bucket;
+
+    const bucketSeconds = zSensorAggregateBucketSecondsSchema.safeParse(getBucketSeconds(resolvedBucket));
+    if (!bucketSeconds.success) {
+      return c.json({ error: bucketSeconds.error.issues[0].message }, 400);
+    }
+
+    // Refuse requests that would split the range into an unreasonable number of buckets
+    const bucketCount = (toDate.getTime() - fromDate.getTime()) / 1000 / bucketSeconds.data;
+    if (bucketCount > MAX_AGGREGATE_BUCKETS) {
+      return c.json({ error: `Bucket too small for the requested range (max ${MAX_AGGREGATE_BUCKETS} buckets)` }, 400);
+    }
+
+    // Derived fuel series are computed from their source PIDs, the rest come straight from the readings
+    const derivedPids = pids.length > 0 ? pids.filter(pid => DERIVED_FUEL_PIDS.includes(pid)) : DERIVED_FUEL_PIDS;
+    const sensorPids = pids.filter(pid => !DERIVED_FUEL_PIDS.includes(pid));
+
+    const sensorSeries = pids.length === 0 || sensorPids.length > 0
+      ? await aggregateSensorReadings({
+        vehicleUUID: vehicle.uuid,
+        bucketSeconds: bucketSeconds.data,
+        pids: sensorPids,
+        from: fromDate,
+        to: toDate,
+        diagnosticUUID,
+      })
+      : { series: [], truncated: false };
+
+    const derivedSeries = derivedPids.length > 0
+      ? await aggregateFuelConsumption({
+        vehicleUUID: vehicle.uuid,
+        fuelKind: getFuelKind(vehicle.fuelType),
+        bucketSeconds: bucketSeconds.data,
+        from: fromDate,
+        to: toDate,
+        diagnosticUUID,
+      })
+      : { series: [], truncated: false };
+
+    if (sensorSeries.truncated || derivedSeries.truncated) {
+      logger.warn({ vehicleUUID, pids, bucket }, "Sensor aggregation exceeds the row limit");
+      return c.json({ error: "Too many buckets for the requested PIDs and range, request fewer PIDs or a larger bucket" }, 400);
+    }
+
+    const series = [...sensorSeries.series, ...derivedSeries.series.filter(entry => derivedPids.includes(entry.pid))];
+
+    logger.debug({ seriesCount: series.length }, "Sensor aggregates computed");
+
+    const preferences = await getUnitPreferences(user.id);
+
+    return c.json({
+      vehicleUUID: vehicle.uuid,
+      bucket: resolvedBucket,
+      bucketSeconds: bucketSeconds.data,
+      from: fromDate.toISOString(),
+      to: toDate.toISOString(),
+      series: convertAggregateSeries(series, preferences),
+    });
+  })
+  .get("/:vehicleUUID/sensors/anomalies", describeRoute({
+    tags: ["Vehicles"],
+    description: "List the sensor readings of a vehicle that were flagged as anomalous when they were ingested. Each reading is scored against a baseline learned from the vehicle's own recent history of the PID, conditioned on engine RPM. Values are expressed in the user's preferred units. If user role is 'user', they can only access their own vehicles.",
+    summary: "Get detected sensor anomalies for a vehicle",
+    responses: {
+      200: {
+        description: "OK",
+        content: {
+          "application/json": {
+            schema: resolver(zSensorAnomaliesListResponseSchema),
+          },
+        },
+      },
+      401: unauthorizedResponseObject,
+      404: notFoundResponseObject,
+    },
+  }), zValidator("param", z.object({
+    vehicleUUID: z.string().uuid(),
+  })), zValidator("query", zSensorAnomaliesQuerySchema), async (c) => {
+    const user = c.get("user");
+    const logger = c.get("logger");
+
+    if (!user) {
+      logger.warn("Unauthorized access attempt - vehicle sensor anomalies");
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+
+    const vehicleUUID = c.req.param("vehicleUUID");
+    const { diagnosticUUID, pid, severity, limit } = c.req.valid("query");
+
+    const vehicle = await db
+      .select()
+      .from(vehiclesTable)
+      .where(
+        and(
+          eq(vehiclesTable.uuid, vehicleUUID),
+          user.role === "user" ? eq(vehiclesTable.ownerId, user.id) : undefined,
+          isNull(vehiclesTable.deletedAt),
+        ),
+      )
+      .then(res => res[0]);
+
+    if (!vehicle) {
+      logger.debug({ vehicleUUID }, "Vehicle not found");
+      return c.json({ error: "Vehicle not found" }, 404);
+    }
+
+    const anomalies = await db
+      .select()
+      .from(sensorAnomaliesTable)
+      .where(
+        and(
+          eq(sensorAnomaliesTable.vehicleUUID, vehicle.uuid),
+          diagnosticUUID ? eq(sensorAnomaliesTable.diagnosticUUID, diagnosticUUID) : undefined,
+          pid ? eq(sensorAnomaliesTable.pid, pid) : undefined,
+          severity ? eq(sensorAnomaliesTable.severity, severity) : undefined,
+        ),
+      )
+      .orderBy(desc(sensorAnomaliesTable.detectedAt))
+      .limit(limit);
+
+    const preferences = await getUnitPreferences(user.id);
+    const resolvePid = createPidResolver(await getPidRegistry());
+
+    return c.json(anomalies.map(anomaly => ({
+      ...convertSensorAnomaly(anomaly, preferences),
+      name: resolvePid(anomaly.pid)?.name ?? `PID ${anomaly.pid}`,
+    })));
+  })
+  .get("/:vehicleUUID/dtc-history", describeRoute({
+    tags: ["Vehicles"],
+    description: "Get the lifecycle of every DTC reported for a vehicle, derived from the diagnostic sessions that read its stored DTCs, in chronological order. Each entry is one episode of a code: when it first appeared, its current status (pending, confirmed or permanent), how many sessions it persisted through and, once a scan no longer reports it, when it was cleared or self-healed. If user role is 'user', they can only access their own vehicles.",
+    summary: "Get the DTC history of a vehicle",
+    responses: {
+      200: {
+        description: "OK",
+        content: {
+          "application/json": {
+            schema: resolver(zDTCHistoryResponseSchema),
+          },
+        },
+      },
+      401: unauthorizedResponseObject,
+      404: notFoundResponseObject,
+    },
+  }), zValidator("param", z.object({
+    vehicleUUID: z.string().uuid(),
+  })), zValidator("query", zDTCHistoryQuerySchema), async (c) => {
+    const user = c.get("user");
+    const logger = c.get("logger");
+
+    if (!user) {
+      logger.warn("Unauthorized access attempt - vehicle DTC history");
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+
+    const vehicleUUID = c.req.param("vehicleUUID");
+    const { code, activeOnly } = c.req.valid("query");
+
+    const vehicle = await db
+      .select()
+      .from(vehiclesTable)
+      .where(
+        and(
+          eq(vehiclesTable.uuid, vehicleUUID),
+          user.role === "user" ? eq(vehiclesTable.ownerId, user.id) : undefined,
+          isNull(vehiclesTable.deletedAt),
+        ),
+      )
+      .then(res => res[0]);
+
+    if (!vehicle) {
+      logger.debug({ vehicleUUID }, "Vehicle not found");
+      return c.json({ error: "Vehicle not found" }, 404);
+    }
+
+    const history = await getVehicleDTCHistory(vehicle.uuid);
+
+    const entries = history.entries.filter(entry =>
+      (!code || entry.code === code) && (!activeOnly || isActiveDTCHistoryEntry(entry)),
+    );
+
+    logger.debug({ vehicleUUID, entryCount: entries.length }, "DTC history computed");
+
+    return c.json({
+      vehicleUUID: vehicle.uuid,
+      totalSessions: history.totalSessions,
+      activeCount: history.activeCount,
+      entries,
+    });
+  })
+  .route("/:vehicleUUID/alert-rules", alertRulesRoute)
+  .route("/:vehicleUUID/geofences", geofencesRoute)
+  .route("/:vehicleUUID/trips", tripsRoute)
+  .route("/:vehicleUUID/driving", drivingRoute)
+  .route("/:vehicleUUID/fuel-logs", fuelLogsRoute)
+  .route("/:vehicleUUID/maintenance-schedules", maintenanceSchedulesRoute)
+  .route("/:vehicleUUID/documents", vehicleDocumentsRoute);
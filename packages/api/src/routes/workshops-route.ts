@@ -0,0 +1,344 @@
+import { and, eq } from "drizzle-orm";
+import { Hono } from "hono";
+import { describeRoute } from "hono-openapi";
+import { resolver, validator as zValidator } from "hono-openapi/zod";
+import { z } from "zod";
+
+import type { AppBindings } from "../lib/types";
+
+import { db } from "../db";
+import { maintenanceLogTable } from "../db/schema/maintenance-log-schema";
+import { serviceWorkshopsTable } from "../db/schema/service-workshops-schema";
+import { getUnitPreferences, toCanonicalUnit } from "../lib/units";
+import { getAccessibleVehicle } from "../lib/vehicles";
+import { convertWorkshop, findDuplicateWorkshop, getVehicleLastLocation, isWorkshopVisibleTo, searchWorkshops } from "../lib/workshops";
+import { getSessionAndUser } from "../middleware/get-session-and-user";
+import {
+  badRequestResponseObject,
+  conflictResponseObject,
+  forbiddenResponseObject,
+  notFoundResponseObject,
+  unauthorizedResponseObject,
+} from "../zod/z-api-responses";
+import {
+  zWorkshopCreateSchema,
+  zWorkshopParamSchema,
+  zWorkshopSchema,
+  zWorkshopSearchQuerySchema,
+  zWorkshopSearchResponseSchema,
+  zWorkshopUpdateSchema,
+} from "../zod/z-workshops";
+
+// Without a user every workshop is found, as for updates that check ownership afterwards
+async function getWorkshop(workshopUUID: string, visibleToUserId?: string) {
+  return db
+    .select()
+    .from(serviceWorkshopsTable)
+    .where(
+      and(
+        eq(serviceWorkshopsTable.uuid, workshopUUID),
+        visibleToUserId ? isWorkshopVisibleTo(visibleToUserId) : undefined,
+      ),
+    )
+    .then(res => res[0]);
+}
+
+// The directory is shared, so a workshop can only be changed by whoever added it or by an admin
+function canManageWorkshop(workshop: typeof serviceWorkshopsTable.$inferSelect, user: { id: string; role?: string | null }) {
+  return user.role === "admin" || (workshop.createdBy !== null && workshop.createdBy === user.id);
+}
+
+export const workshopsRoute = new Hono<AppBindings>()
+  .use(getSessionAndUser)
+  .get("/", describeRoute({
+    tags: ["Workshops"],
+    summary: "Search service workshops",
+    description: "Search the workshop directory around a point, or around the last known location of a vehicle, nearest first. Without either, workshops are listed by name. Results can be narrowed to a service type, to workshops open right now in their own time zone, and by name. The radius and distances follow the user's preferred distance unit. Workshops other users typed in by name on their maintenance entries are not listed.",
+    responses: {
+      200: {
+        description: "OK",
+        content: {
+          "application/json": {
+            schema: resolver(zWorkshopSearchResponseSchema),
+          },
+        },
+      },
+      400: badRequestResponseObject,
+      401: unauthorizedResponseObject,
+      404: notFoundResponseObject,
+    },
+  }), zValidator("query", zWorkshopSearchQuerySchema), async (c) => {
+    const user = c.get("user");
+    const logger = c.get("logger");
+
+    if (!user) {
+      logger.warn("Unauthorized access attempt - workshops search");
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+
+    const { latitude, longitude, vehicleUUID, radius, serviceType, openNow, q, limit } = c.req.valid("query");
+
+    const preferences = await getUnitPreferences(user.id);
+
+    let origin: { latitude: number; longitude: number; source: "point" | "vehicle" } | null = null;
+
+    if (latitude !== undefined && longitude !== undefined) {
+      origin = { latitude, longitude, source: "point" };
+    }
+    else if (vehicleUUID) {
+      const vehicle = await getAccessibleVehicle(vehicleUUID, user);
+
+      if (!vehicle) {
+        logger.warn({ userId: user.id, vehicleUUID }, "Vehicle not found or not owned");
+        return c.json({ error: "Vehicle not found" }, 404);
+      }
+
+      const lastLocation = await getVehicleLastLocation(vehicle.uuid);
+
+      if (!lastLocation) {
+        return c.json({ error: "Vehicle has no known location" }, 404);
+      }
+
+      origin = { latitude: lastLocation.latitude, longitude: lastLocation.longitude, source: "vehicle" };
+    }
+
+    const now = new Date();
+    const results = await searchWorkshops({
+      userId: user.id,
+      center: origin,
+      // The radius is entered in the user's distance unit
+      radiusKm: toCanonicalUnit(radius, preferences.distance).value,
+      serviceType,
+      openNow,
+      q,
+      limit,
+    }, now);
+
+    return c.json({
+      origin,
+      radius: origin ? radius : null,
+      distanceUnit: preferences.distance,
+      workshops: results.map(({ workshop, distanceKm }) => convertWorkshop(workshop, preferences, { distanceKm, now })),
+    });
+  })
+  .get("/:workshopUUID", describeRoute({
+    tags: ["Workshops"],
+    summary: "Get a service workshop",
+    description: "Get the details, services and opening hours of a workshop",
+    responses: {
+      200: {
+        description: "OK",
+        content: {
+          "application/json": {
+            schema: resolver(zWorkshopSchema),
+          },
+        },
+      },
+      401: unauthorizedResponseObject,
+      404: notFoundResponseObject,
+    },
+  }), zValidator("param", zWorkshopParamSchema), async (c) => {
+    const user = c.get("user");
+    const logger = c.get("logger");
+
+    if (!user) {
+      logger.warn("Unauthorized access attempt - workshop details");
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+
+    const { workshopUUID } = c.req.valid("param");
+
+    const workshop = await getWorkshop(workshopUUID, user.id);
+
+    if (!workshop) {
+      return c.json({ error: "Workshop not found" }, 404);
+    }
+
+    const preferences = await getUnitPreferences(user.id);
+
+    return c.json(convertWorkshop(workshop, preferences));
+  })
+  .post("/", describeRoute({
+    tags: ["Workshops"],
+    summary: "Add a service workshop",
+    description: "Add a workshop to the directory. A workshop with the same name within 200 m of an existing one is treated as the existing workshop, which is returned instead with status 200.",
+    responses: {
+      200: {
+        description: "Existing workshop",
+        content: {
+          "application/json": {
+            schema: resolver(zWorkshopSchema),
+          },
+        },
+      },
+      201: {
+        description: "Created",
+        content: {
+          "application/json": {
+            schema: resolver(zWorkshopSchema),
+          },
+        },
+      },
+      400: badRequestResponseObject,
+      401: unauthorizedResponseObject,
+    },
+  }), zValidator("json", zWorkshopCreateSchema), async (c) => {
+    const user = c.get("user");
+    const logger = c.get("logger");
+
+    if (!user) {
+      logger.warn("Unauthorized workshop creation attempt");
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+
+    const workshopData = c.req.valid("json");
+
+    const preferences = await getUnitPreferences(user.id);
+
+    const existingWorkshop = await findDuplicateWorkshop(workshopData.name, workshopData);
+
+    if (existingWorkshop) {
+      logger.info({ workshopUUID: existingWorkshop.uuid, userId: user.id }, "Workshop already in the directory");
+      return c.json(convertWorkshop(existingWorkshop, preferences), 200);
+    }
+
+    const workshop = await db
+      .insert(serviceWorkshopsTable)
+      .values({
+        ...workshopData,
+        createdBy: user.id,
+      })
+      .returning()
+      .then(res => res[0]);
+
+    logger.info({ workshopUUID: workshop.uuid, userId: user.id }, "Workshop created");
+
+    return c.json(convertWorkshop(workshop, preferences), 201);
+  })
+  .patch("/:workshopUUID", describeRoute({
+    tags: ["Workshops"],
+    summary: "Update a service workshop",
+    description: "Update the details, services or opening hours of a workshop. Only whoever added the workshop and admins can change it. Renaming or moving a workshop onto another one with the same name is rejected.",
+    responses: {
+      200: {
+        description: "OK",
+        content: {
+          "application/json": {
+            schema: resolver(zWorkshopSchema),
+          },
+        },
+      },
+      400: badRequestResponseObject,
+      401: unauthorizedResponseObject,
+      403: forbiddenResponseObject,
+      404: notFoundResponseObject,
+      409: conflictResponseObject,
+    },
+  }), zValidator("param", zWorkshopParamSchema), zValidator("json", zWorkshopUpdateSchema), async (c) => {
+    const user = c.get("user");
+    const logger = c.get("logger");
+
+    if (!user) {
+      logger.warn("Unauthorized workshop update attempt");
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+
+    const { workshopUUID } = c.req.valid("param");
+    const workshopData = c.req.valid("json");
+
+    const workshop = await getWorkshop(workshopUUID);
+
+    if (!workshop) {
+      return c.json({ error: "Workshop not found" }, 404);
+    }
+
+    if (!canManageWorkshop(workshop, user)) {
+      logger.warn({ userId: user.id, workshopUUID }, "Workshop update attempt by non-owner");
+      return c.json({ error: "Forbidden" }, 403);
+    }
+
+    const name = workshopData.name ?? workshop.name;
+    const latitude = workshopData.latitude ?? workshop.latitude;
+    const longitude = workshopData.longitude ?? workshop.longitude;
+
+    if (latitude != null && longitude != null) {
+      const duplicate = await findDuplicateWorkshop(name, { latitude, longitude }, workshop.uuid);
+
+      if (duplicate) {
+        return c.json({ error: "A workshop with this name already exists at this location" }, 409);
+      }
+    }
+
+    const updatedWorkshop = await db
+      .update(serviceWorkshopsTable)
+      .set(workshopData)
+      .where(eq(serviceWorkshopsTable.uuid, workshop.uuid))
+      .returning()
+      .then(res => res[0]);
+
+    logger.info({ workshopUUID, userId: user.id }, "Workshop updated");
+
+    const preferences = await getUnitPreferences(user.id);
+
+    return c.json(convertWorkshop(updatedWorkshop, preferences));
+  })
+  .delete("/:workshopUUID", describeRoute({
+    tags: ["Workshops"],
+    summary: "Delete a service workshop",
+    description: "Remove a workshop from the directory. Only whoever added the workshop and admins can delete it, and only while no maintenance entry refers to it.",
+    responses: {
+      200: {
+        description: "OK",
+        content: {
+          "application/json": {
+            schema: resolver(z.object({ message: z.string() })),
+          },
+        },
+      },
+      401: unauthorizedResponseObject,
+      403: forbiddenResponseObject,
+      404: notFoundResponseObject,
+      409: conflictResponseObject,
+    },
+  }), zValidator("param", zWorkshopParamSchema), async (c) => {
+    const user = c.get("user");
+    const logger = c.get("logger");
+
+    if (!user) {
+      logger.warn("Unauthorized workshop deletion attempt");
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+
+    const { workshopUUID } = c.req.valid("param");
+
+    const workshop = await getWorkshop(workshopUUID);
+
+    if (!workshop) {
+      return c.json({ error: "Workshop not found" }, 404);
+    }
+
+    if (!canManageWorkshop(workshop, user)) {
+      logger.warn({ userId: user.id, workshopUUID }, "Workshop deletion attempt by non-owner");
+      return c.json({ error: "Forbidden" }, 403);
+    }
+
+    // Maintenance entries cascade with their workshop, so referenced workshops stay
+    const reference = await db
+      .select({ uuid: maintenanceLogTable.uuid })
+      .from(maintenanceLogTable)
+      .where(eq(maintenanceLogTable.serviceWorkshopUUID, workshop.uuid))
+      .limit(1)
+      .then(res => res[0]);
+
+    if (reference) {
+      return c.json({ error: "Workshop is referenced by maintenance entries" }, 409);
+    }
+
+    await db
+      .delete(serviceWorkshopsTable)
+      .where(eq(serviceWorkshopsTable.uuid, workshop.uuid));
+
+    logger.info({ workshopUUID, userId: user.id }, "Workshop deleted");
+
+    return c.json({ message: "Workshop deleted successfully" });
+  });
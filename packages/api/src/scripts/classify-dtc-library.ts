@@ -0,0 +1,29 @@
+// src/scripts/classify-dtc-library.ts
+
+import { classifyDTCLibrary } from "../lib/dtc-classification";
+
+async function classifyLibrary() {
+  try {
+    // Pass --dry-run to only list what would change
+    const dryRun = process.argv.includes("--dry-run");
+
+    const { changes, version } = await classifyDTCLibrary({ dryRun, createdBy: null });
+
+    changes.forEach(change => console.log(`${change.code}: ${change.previous?.severity} -> ${change.current?.severity}`));
+
+    if (dryRun) {
+      console.log(`${changes.length} DTC codes would be reclassified`);
+      return;
+    }
+
+    console.log(version
+      ? `DTC library version ${version.version}: ${changes.length} codes reclassified`
+      : "DTC library classification already up to date");
+  }
+  catch (error) {
+    console.error("Error classifying DTC library:", error);
+  }
+}
+
+// Run the classification
+classifyLibrary();
@@ -0,0 +1,22 @@
+// src/scripts/seed-pid-registry.ts
+
+import { db } from "../db/index";
+import { pidRegistryTable } from "../db/schema/pid-registry-schema";
+import { STANDARD_PIDS } from "../lib/standard-pids";
+
+async function seedPidRegistry() {
+  try {
+    console.log(`Found ${STANDARD_PIDS.length} standard PIDs to seed`);
+
+    // Existing entries are left untouched so manual edits survive re-seeding
+    await db.insert(pidRegistryTable).values(STANDARD_PIDS).onConflictDoNothing();
+
+    console.log("PID registry seed completed successfully");
+  }
+  catch (error) {
+    console.error("Error seeding PID registry:", error);
+  }
+}
+
+// Run the seed function
+seedPidRegistry();
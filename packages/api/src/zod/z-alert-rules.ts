@@ -0,0 +1,99 @@
+import { z } from "zod";
+import "zod-openapi/extend";
+
+import { alertOperatorEnum, selectAlertEventSchema, selectAlertRuleSchema } from "../db/schema/alert-rules-schema";
+
+// =============================================================================
+// Input Schemas - Used for validating request payloads
+// =============================================================================
+
+/**
+ * Schema for creating an alert rule. The threshold is expressed in `unit`,
+ * or in the user's preferred unit for the PID when no unit is given.
+ */
+export const zAlertRuleCreateSchema = z.object({
+  name: z.string().min(1).max(100).openapi({ example: "Engine overheating" }),
+  pid: z.string().min(1).openapi({ example: "05" }),
+  operator: z.enum(alertOperatorEnum.enumValues).openapi({ example: "gt" }),
+  threshold: z.number().openapi({ example: 105 }),
+  unit: z.string().optional().openapi({ example: "°C" }),
+  durationSeconds: z.number().int().min(0).max(3600).default(0).openapi({ example: 30 }),
+  cooldownSeconds: z.number().int().min(0).max(86400).default(300).openapi({ example: 300 }),
+  enabled: z.boolean().default(true).openapi({ example: true }),
+});
+
+export type AlertRuleCreate = z.infer<typeof zAlertRuleCreateSchema>;
+
+/**
+ * Schema for updating an alert rule, every field is optional
+ */
+export const zAlertRuleUpdateSchema = z.object({
+  name: z.string().min(1).max(100).optional().openapi({ example: "Engine overheating" }),
+  pid: z.string().min(1).optional().openapi({ example: "05" }),
+  operator: z.enum(alertOperatorEnum.enumValues).optional().openapi({ example: "gte" }),
+  threshold: z.number().optional().openapi({ example: 110 }),
+  unit: z.string().optional().openapi({ example: "°C" }),
+  durationSeconds: z.number().int().min(0).max(3600).optional().openapi({ example: 60 }),
+  cooldownSeconds: z.number().int().min(0).max(86400).optional().openapi({ example: 600 }),
+  enabled: z.boolean().optional().openapi({ example: false }),
+});
+
+export type AlertRuleUpdate = z.infer<typeof zAlertRuleUpdateSchema>;
+
+// =============================================================================
+// Query Schemas - Used for validating request parameters
+// =============================================================================
+
+/**
+ * Schema for filtering the fired alert history
+ */
+export const zAlertEventsQuerySchema = z.object({
+  alertRuleUUID: z.string().uuid().optional().openapi({ example: "123e4567-e89b-12d3-a456-426614174000" }),
+  limit: z.coerce.number().int().min(1).max(200).default(50).openapi({ example: 50 }),
+});
+
+export type AlertEventsQuery = z.infer<typeof zAlertEventsQuerySchema>;
+
+// =============================================================================
+// Response Schemas - Used for validating and documenting responses
+// =============================================================================
+
+/**
+ * Schema for an alert rule, threshold converted to the user's preferred unit
+ */
+export const zAlertRuleSchema = selectAlertRuleSchema;
+
+export type AlertRule = z.infer<typeof zAlertRuleSchema>;
+
+export const zAlertRulesListResponseSchema = z.array(zAlertRuleSchema);
+
+/**
+ * Schema for a fired alert, value and threshold converted to the user's preferred unit
+ */
+export const zAlertEventSchema = selectAlertEventSchema.extend({
+  ruleName: z.string().openapi({ example: "Engine overheating" }),
+  operator: z.enum(alertOperatorEnum.enumValues).openapi({ example: "gt" }),
+});
+
+export type AlertEvent = z.infer<typeof zAlertEventSchema>;
+
+export const zAlertEventsListResponseSchema = z.array(zAlertEventSchema);
+
+/**
+ * Schema for the data payload of "sensor_alert" notifications
+ */
+export const zSensorAlertNotificationDataSchema = z.object({
+  alertRuleUUID: z.string().uuid(),
+  alertEventUUID: z.string().uuid(),
+  vehicleUUID: z.string().uuid(),
+  diagnosticUUID: z.string().uuid(),
+  sensorSnapshotUUID: z.string().uuid(),
+  sensorReadingUUID: z.string().uuid(),
+  pid: z.string().openapi({ example: "05" }),
+  operator: z.enum(alertOperatorEnum.enumValues).openapi({ example: "gt" }),
+  value: z.number().openapi({ example: 108.5 }),
+  threshold: z.number().openapi({ example: 105 }),
+  unit: z.string().openapi({ example: "°C" }),
+});
+
+export type SensorAlertNotificationData = z.infer<typeof zSensorAlertNotificationDataSchema>;
@@ -20,6 +20,13 @@ export const zUnauthorizedResponse = z.object({
   error: z.string().openapi({ example: "Unauthorized" }),
 });
 
+/**
+ * Forbidden error response schema
+ */
+export const zForbiddenResponse = z.object({
+  error: z.string().openapi({ example: "Forbidden" }),
+});
+
 /**
  * Not found error response schema
  */
@@ -41,6 +48,13 @@ export const zBadRequestResponse = z.object({
   error: z.string().openapi({ example: "Invalid request parameters" }),
 });
 
+/**
+ * Conflict error response schema
+ */
+export const zConflictResponse = z.object({
+  error: z.string().openapi({ example: "Resource already exists" }),
+});
+
 // =============================================================================
 // OpenAPI Response Objects - Pre-configured response objects for OpenAPI docs
 // =============================================================================
@@ -57,6 +71,18 @@ export const unauthorizedResponseObject = {
   },
 };
 
+/**
+ * Forbidden response object for OpenAPI
+ */
+export const forbiddenResponseObject = {
+  description: "Forbidden",
+  content: {
+    "application/json": {
+      schema: resolver(zForbiddenResponse),
+    },
+  },
+};
+
 /**
  * Not found response object for OpenAPI
  */
@@ -92,3 +118,15 @@ export const badRequestResponseObject = {
     },
   },
 };
+
+/**
+ * Conflict response object for OpenAPI
+ */
+export const conflictResponseObject = {
+  description: "Conflict",
+  content: {
+    "application/json": {
+      schema: resolver(zConflictResponse),
+    },
+  },
+};
@@ -1,6 +1,9 @@
 import { z } from "zod";
 import "zod-openapi/extend";
 
+import { zResolvedUnitsSchema } from "./z-preferences";
+import { zVehicleDocumentAlertSchema } from "./z-vehicle-documents";
+
 // =============================================================================
 // Dashboard Component Schemas
 // =============================================================================
@@ -19,6 +22,8 @@ export const zVehicleStatusSchema = z.object({
   daysSinceLastDiagnostic: z.number().nullable().openapi({ example: 5 }),
   activeDTCsCount: z.number().openapi({ example: 2 }),
   totalDiagnosticsCount: z.number().openapi({ example: 15 }),
+  expiredDocuments: z.array(zVehicleDocumentAlertSchema),
+  expiringDocuments: z.array(zVehicleDocumentAlertSchema),
 });
 
 export type VehicleStatusSchema = z.infer<typeof zVehicleStatusSchema>;
@@ -32,6 +37,7 @@ export const zQuickStatsSchema = z.object({
   totalNotifications: z.number().openapi({ example: 3 }),
   activeDTCs: z.number().openapi({ example: 2 }),
   maintenanceCostYTD: z.number().openapi({ example: 1250.50 }),
+  fuelCostYTD: z.number().openapi({ example: 2340.75 }),
   averageDiagnosticInterval: z.number().nullable().openapi({ example: 7.5 }),
 });
 
@@ -41,7 +47,7 @@ export type QuickStatsSchema = z.infer<typeof zQuickStatsSchema>;
  * Schema for recent activity items
  */
 export const zRecentActivitySchema = z.object({
-  type: z.enum(["diagnostic", "maintenance", "dtc", "notification"]).openapi({
+  type: z.enum(["diagnostic", "maintenance", "dtc", "notification", "anomaly"]).openapi({
     example: "diagnostic",
   }),
   id: z.string().openapi({ example: "123e4567-e89b-12d3-a456-426614174000" }),
@@ -78,6 +84,7 @@ export const zDashboardOverviewSchema = z.object({
   quickStats: zQuickStatsSchema,
   recentActivity: z.array(zRecentActivitySchema),
   healthTrends: z.array(zHealthTrendSchema),
+  units: zResolvedUnitsSchema,
 });
 
 export type DashboardOverviewSchema = z.infer<typeof zDashboardOverviewSchema>;
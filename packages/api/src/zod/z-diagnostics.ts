@@ -1,8 +1,11 @@
 import { z } from "zod";
 import "zod-openapi/extend";
 
-import { selectDiagnosticDTCInstanceSchema } from "../db/schema/diagnostics-dtc-schema";
+import { dtcStatusEnum, selectDiagnosticDTCInstanceSchema } from "../db/schema/diagnostics-dtc-schema";
 import { insertDiagnosticSchema, selectDiagnosticSchema } from "../db/schema/diagnostics-schema";
+import { selectDTCFreezeFrameReadingSchema } from "../db/schema/dtc-freeze-frames-schema";
+import { distanceUnitEnum } from "../db/schema/user-preferences-schema";
+import { DTC_CODE_PATTERN } from "../lib/dtc-codes";
 
 // =============================================================================
 // Input Schemas - Used for validating request payloads
@@ -15,16 +18,57 @@ export const zDiagnosticInsertSchema = insertDiagnosticSchema.omit({
   uuid: true,
   createdAt: true,
   updatedAt: true,
+}).extend({
+  // Unit the odometer was read in, converted to kilometres before storing
+  odometerUnit: z.enum(distanceUnitEnum.enumValues).default("km"),
 });
 
 export type DiagnosticInsertSchema = z.infer<typeof zDiagnosticInsertSchema>;
 
+/**
+ * Schema for a single PID value of a freeze-frame
+ */
+export const zFreezeFrameReadingInputSchema = z.object({
+  pid: z.string().min(1).openapi({ example: "0C" }),
+  value: z.number().openapi({ example: 2450 }),
+  unit: z.string().openapi({ example: "rpm" }),
+});
+
+/**
+ * Schema for bulk DTC creation requests. Any valid SAE J2012 code is accepted,
+ * codes missing from the library get a placeholder entry flagged for review.
+ * The status defaults to "confirmed" or "pending" from the confirmed flag. Each DTC may carry the freeze-frame
+ * captured by the ECU when the code was stored.
+ */
+export const zBulkDTCsInsertSchema = z.array(z.object({
+  code: z
+    .string()
+    .trim()
+    .toUpperCase()
+    .regex(DTC_CODE_PATTERN, "Code must be a valid SAE J2012 code, eg: P0301")
+    .openapi({ example: "P0301" }),
+  confirmed: z.boolean().optional(),
+  status: z.enum(dtcStatusEnum.enumValues).optional().openapi({ example: "confirmed" }),
+  freezeFrame: z.array(zFreezeFrameReadingInputSchema).max(100).optional(),
+}));
+
+export type BulkDTCsInsert = z.infer<typeof zBulkDTCsInsertSchema>;
+
 /**
  * Schema for retrieving a single diagnostic
  */
 export const zDiagnosticGetResponseSchema = selectDiagnosticSchema;
 export type DiagnosticGetResponse = z.infer<typeof zDiagnosticGetResponseSchema>;
 
+/**
+ * Schema for a DTC of a diagnostic with its freeze-frame readings
+ */
+export const zDiagnosticDTCSchema = selectDiagnosticDTCInstanceSchema.extend({
+  freezeFrame: z.array(selectDTCFreezeFrameReadingSchema),
+});
+
+export type DiagnosticDTC = z.infer<typeof zDiagnosticDTCSchema>;
+
 // =============================================================================
 // Collection Response Schemas
 // =============================================================================
@@ -34,6 +78,11 @@ export type DiagnosticGetResponse = z.infer<typeof zDiagnosticGetResponseSchema>
  */
 export const zDiagnosticsListResponseSchema = z.array(selectDiagnosticSchema);
 
+/**
+ * Schema for listing the DTCs of a diagnostic, freeze-frame values in the user's preferred units
+ */
+export const zDiagnosticDTCsListResponseSchema = z.array(zDiagnosticDTCSchema);
+
 // =============================================================================
 // Operation Response Schemas
 // =============================================================================
@@ -44,5 +93,7 @@ export const zDiagnosticsListResponseSchema = z.array(selectDiagnosticSchema);
 export const zBulkDTCsResponseSchema = z.object({
   message: z.string().openapi({ example: "DTCs created successfully" }),
   count: z.number().openapi({ example: 1 }),
-  dtcs: z.array(selectDiagnosticDTCInstanceSchema),
+  dtcs: z.array(zDiagnosticDTCSchema),
+  unresolvedPids: z.array(z.string()).openapi({ example: [] }),
+  placeholderCodes: z.array(z.string()).openapi({ example: ["P1604"] }),
 });
@@ -0,0 +1,98 @@
+import { z } from "zod";
+import "zod-openapi/extend";
+
+const zDrivingEventTypeSchema = z.enum(["harsh_acceleration", "harsh_braking", "sharp_cornering", "over_revving", "excessive_idling"]).openapi({ example: "harsh_braking" });
+
+const zDrivingEventCountsSchema = z.record(zDrivingEventTypeSchema, z.number().int()).openapi({
+  example: { harsh_acceleration: 2, harsh_braking: 1, sharp_cornering: 0, over_revving: 0, excessive_idling: 1 },
+});
+
+// =============================================================================
+// Query Schemas - Used for validating request parameters
+// =============================================================================
+
+/**
+ * Schema for the driving behaviour report of a vehicle, covering the given
+ * number of calendar months up to and including the current one
+ */
+export const zDrivingReportQuerySchema = z.object({
+  months: z.coerce.number().int().min(1).max(24).default(6).openapi({ example: 6 }),
+});
+
+export type DrivingReportQuery = z.infer<typeof zDrivingReportQuerySchema>;
+
+// =============================================================================
+// Response Schemas - Used for validating and documenting responses
+// =============================================================================
+
+/**
+ * Schema for a driving event. The value is the peak acceleration in m/s²
+ * (negative when braking), the peak RPM or the idle time in seconds. Events
+ * without a location recorded close to them have no coordinates.
+ */
+export const zDrivingEventSchema = z.object({
+  type: zDrivingEventTypeSchema,
+  occurredAt: z.string().datetime().openapi({ example: "2025-06-12T08:14:05.000Z" }),
+  latitude: z.number().nullable().openapi({ example: 44.4268 }),
+  longitude: z.number().nullable().openapi({ example: 26.1025 }),
+  value: z.number().openapi({ example: -4.2 }),
+  unit: z.enum(["m/s²", "rpm", "s"]).openapi({ example: "m/s²" }),
+  speed: z.number().nullable().openapi({ example: 52.3 }),
+  duration: z.number().nullable().openapi({ example: null }),
+});
+
+export type DrivingEvent = z.infer<typeof zDrivingEventSchema>;
+
+/**
+ * Schema for the driving score of a diagnostic session. The score goes from 0
+ * to 100 and is null for sessions without speed or RPM data. Distance and
+ * speeds follow the user's unit preferences, duration is in seconds.
+ */
+export const zDrivingSessionSchema = z.object({
+  diagnosticUUID: z.string().uuid(),
+  startedAt: z.string().datetime().openapi({ example: "2025-06-12T08:02:11.000Z" }),
+  endedAt: z.string().datetime().openapi({ example: "2025-06-12T08:41:50.000Z" }),
+  distance: z.number().openapi({ example: 24.8 }),
+  distanceUnit: z.enum(["km", "mi"]).openapi({ example: "km" }),
+  speedUnit: z.enum(["km/h", "mph"]).openapi({ example: "km/h" }),
+  duration: z.number().int().openapi({ example: 2379 }),
+  score: z.number().int().min(0).max(100).nullable().openapi({ example: 86 }),
+  eventCounts: zDrivingEventCountsSchema,
+});
+
+export type DrivingSession = z.infer<typeof zDrivingSessionSchema>;
+
+/**
+ * Schema for a scored diagnostic session with its events
+ */
+export const zDrivingSessionDetailResponseSchema = zDrivingSessionSchema.extend({
+  events: z.array(zDrivingEventSchema),
+});
+
+export type DrivingSessionDetailResponse = z.infer<typeof zDrivingSessionDetailResponseSchema>;
+
+/**
+ * Schema for the driving score of a calendar month, the distance-weighted
+ * average of its scored sessions
+ */
+export const zDrivingMonthSchema = z.object({
+  month: z.string().openapi({ example: "2025-06" }),
+  score: z.number().int().min(0).max(100).nullable().openapi({ example: 82 }),
+  distance: z.number().openapi({ example: 612.4 }),
+  sessionCount: z.number().int().openapi({ example: 18 }),
+  eventCounts: zDrivingEventCountsSchema,
+});
+
+export type DrivingMonth = z.infer<typeof zDrivingMonthSchema>;
+
+/**
+ * Schema for the driving behaviour report of a vehicle: monthly scores,
+ * oldest first, and the scored sessions, most recent first
+ */
+export const zDrivingReportResponseSchema = z.object({
+  months: z.array(zDrivingMonthSchema),
+  sessions: z.array(zDrivingSessionSchema),
+  distanceUnit: z.enum(["km", "mi"]).openapi({ example: "km" }),
+});
+
+export type DrivingReportResponse = z.infer<typeof zDrivingReportResponseSchema>;
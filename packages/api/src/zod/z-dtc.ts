@@ -1,7 +1,13 @@
 import { z } from "zod";
 import "zod-openapi/extend";
 
-import { selectDTCLibrarySchema } from "../db/schema/dtc-library-schema";
+import { dtcStatusEnum } from "../db/schema/diagnostics-dtc-schema";
+import { selectDTCClassificationOverrideSchema } from "../db/schema/dtc-classification-overrides-schema";
+import { selectDTCKnowledgeBaseSchema } from "../db/schema/dtc-knowledge-base-schema";
+import { driveSafetyEnum, dtcUrgencyEnum, selectDTCLibrarySchema, severityEnum } from "../db/schema/dtc-library-schema";
+import { dtcLibraryChangeTypeEnum, selectDTCLibraryVersionSchema } from "../db/schema/dtc-library-versions-schema";
+import { selectDTCManufacturerOverlaySchema } from "../db/schema/dtc-overlays-schema";
+import { DTC_CODE_PATTERN } from "../lib/dtc-codes";
 
 // =============================================================================
 // Query Schemas - Used for validating request parameters
@@ -16,6 +22,222 @@ export const zDTCQuerySchema = z.object({
 
 export type DTCQuerySchema = z.infer<typeof zDTCQuerySchema>;
 
+/**
+ * Schema for resolving a DTC code, optionally against a vehicle so
+ * manufacturer overlays for its make, model and year apply
+ */
+export const zDTCResolveQuerySchema = zDTCQuerySchema.extend({
+  vehicleUUID: z.string().uuid().optional(),
+});
+
+export type DTCResolveQuery = z.infer<typeof zDTCResolveQuerySchema>;
+
+/**
+ * Schema for filtering the DTC history of a vehicle
+ */
+export const zDTCHistoryQuerySchema = z.object({
+  code: z.string().optional().transform(val => val?.trim().toUpperCase() || undefined).openapi({ example: "P0301" }),
+  activeOnly: z.enum(["true", "false"]).default("false").transform(val => val === "true").openapi({ example: "false" }),
+});
+
+export type DTCHistoryQuery = z.infer<typeof zDTCHistoryQuerySchema>;
+
+/**
+ * Schema for searching the DTC library. `q` matches code prefixes ("P03")
+ * and words of the description ("misfire cylinder"), the other fields filter
+ * the results. Pass the `nextCursor` of a page to get the following one.
+ */
+export const zDTCSearchQuerySchema = z.object({
+  q: z.string().trim().max(200).optional().openapi({ example: "misfire" }),
+  category: z.string().trim().optional().openapi({ example: "Powertrain" }),
+  severity: z.enum(severityEnum.enumValues).optional().openapi({ example: "high" }),
+  affectedSystem: z.string().trim().optional().openapi({ example: "Ignition System" }),
+  limit: z.coerce.number().int().min(1).max(100).default(25).openapi({ example: 25 }),
+  cursor: z.string().optional().openapi({ example: "eyJzIjowLCJjIjoiUDAzMDAifQ" }),
+});
+
+export type DTCSearchQuery = z.infer<typeof zDTCSearchQuerySchema>;
+
+/**
+ * Schema for listing the library entries waiting for review
+ */
+export const zDTCReviewQueueQuerySchema = z.object({
+  category: z.string().trim().optional().openapi({ example: "Powertrain" }),
+  limit: z.coerce.number().int().min(1).max(200).default(50).openapi({ example: 50 }),
+});
+
+export type DTCReviewQueueQuery = z.infer<typeof zDTCReviewQueueQuerySchema>;
+
+/**
+ * Schema for listing manufacturer overlays, filtered by code and make
+ */
+export const zDTCOverlaysQuerySchema = z.object({
+  code: z.string().optional().transform(val => val?.trim().toUpperCase() || undefined).openapi({ example: "P1345" }),
+  make: z.string().trim().optional().openapi({ example: "Volkswagen" }),
+});
+
+export type DTCOverlaysQuery = z.infer<typeof zDTCOverlaysQuerySchema>;
+
+/**
+ * Schema for addressing a library version by its number
+ */
+export const zDTCLibraryVersionParamSchema = z.object({
+  version: z.coerce.number().int().positive().openapi({ example: 3 }),
+});
+
+export type DTCLibraryVersionParam = z.infer<typeof zDTCLibraryVersionParamSchema>;
+
+// =============================================================================
+// Input Schemas - Used for validating request payloads
+// =============================================================================
+
+/**
+ * Schema for looking up several DTC codes at once
+ */
+export const zDTCLookupSchema = z.object({
+  codes: z.array(z.string().trim().min(1)).min(1).max(500).openapi({ example: ["P0300", "P0171"] }),
+  vehicleUUID: z.string().uuid().optional(),
+});
+
+export type DTCLookup = z.infer<typeof zDTCLookupSchema>;
+
+/**
+ * Schema for completing a library entry from the review queue. Saving it
+ * takes the entry out of the queue.
+ */
+export const zDTCReviewSchema = z.object({
+  description: z.string().trim().min(1).openapi({ example: "Internal Control Module Processor Error" }),
+  category: z.string().trim().min(1).optional().openapi({ example: "Powertrain" }),
+  severity: z.enum(severityEnum.enumValues).optional().openapi({ example: "medium" }),
+  affectedSystem: z.string().trim().min(1).nullable().optional().openapi({ example: "Engine Control Module" }),
+});
+
+export type DTCReview = z.infer<typeof zDTCReviewSchema>;
+
+/**
+ * Schema for a library entry created by an admin or read from an import.
+ * Severity, category and affected system left out keep their current value,
+ * or are derived from the code for new entries.
+ */
+export const zDTCLibraryEntryInputSchema = z.object({
+  code: z.string().trim().toUpperCase().regex(DTC_CODE_PATTERN, "Invalid SAE J2012 DTC code").openapi({ example: "P0301" }),
+  description: z.string().trim().min(1).openapi({ example: "Cylinder 1 Misfire Detected" }),
+  category: z.string().trim().min(1).nullable().optional().openapi({ example: "Powertrain" }),
+  severity: z.enum(severityEnum.enumValues).optional().openapi({ example: "high" }),
+  affectedSystem: z.string().trim().min(1).nullable().optional().openapi({ example: "Ignition System" }),
+});
+
+export type DTCLibraryEntryInput = z.infer<typeof zDTCLibraryEntryInputSchema>;
+
+/**
+ * Schema for updating a library entry
+ */
+export const zDTCLibraryEntryUpdateSchema = zDTCLibraryEntryInputSchema.omit({ code: true }).partial();
+
+export type DTCLibraryEntryUpdate = z.infer<typeof zDTCLibraryEntryUpdateSchema>;
+
+/**
+ * Schema for importing library entries. `data` holds the file contents: a
+ * JSON array of entries, or CSV with a header row of code, description and
+ * optionally category, severity and affectedSystem. With dryRun the diff is
+ * returned without being applied; with removeMissing reviewed codes absent
+ * from the file are removed.
+ */
+export const zDTCLibraryImportSchema = z.object({
+  format: z.enum(["json", "csv"]).openapi({ example: "csv" }),
+  data: z.string().min(1).openapi({ example: "code,description,severity\nP0301,Cylinder 1 Misfire Detected,high" }),
+  dryRun: z.boolean().default(false).openapi({ example: true }),
+  removeMissing: z.boolean().default(false).openapi({ example: false }),
+  note: z.string().trim().max(500).optional().openapi({ example: "Corrected misfire severities" }),
+});
+
+export type DTCLibraryImport = z.infer<typeof zDTCLibraryImportSchema>;
+
+/**
+ * Schema for re-running the classification rules over the library. With
+ * dryRun the changes are returned without being applied.
+ */
+export const zDTCClassificationRunSchema = z.object({
+  dryRun: z.boolean().default(false).openapi({ example: true }),
+});
+
+export type DTCClassificationRun = z.infer<typeof zDTCClassificationRunSchema>;
+
+/**
+ * Schema for overriding the classification of a single code. Fields left
+ * out keep the value of the matching range rule.
+ */
+export const zDTCClassificationOverrideSchema = z.object({
+  severity: z.enum(severityEnum.enumValues).nullable().optional().openapi({ example: "low" }),
+  affectedSystem: z.string().trim().min(1).nullable().optional().openapi({ example: "Evaporative Emissions" }),
+  safeToDrive: z.enum(driveSafetyEnum.enumValues).nullable().optional().openapi({ example: "safe" }),
+  urgency: z.enum(dtcUrgencyEnum.enumValues).nullable().optional().openapi({ example: "monitor" }),
+  note: z.string().trim().max(500).nullable().optional().openapi({ example: "Usually a loose fuel cap" }),
+}).refine(
+  data => data.severity != null || data.affectedSystem != null || data.safeToDrive != null || data.urgency != null,
+  {
+    message: "At least one of severity, affectedSystem, safeToDrive or urgency must be provided",
+    path: ["severity"],
+  },
+);
+
+export type DTCClassificationOverride = z.infer<typeof zDTCClassificationOverrideSchema>;
+
+/**
+ * Schema for a typical fix of a code, with how hard it is to carry out
+ */
+export const zDTCTypicalFixSchema = z.object({
+  description: z.string().trim().min(1).openapi({ example: "Replace the ignition coil of the misfiring cylinder" }),
+  difficulty: z.enum(["easy", "moderate", "professional"]).openapi({ example: "moderate" }),
+});
+
+/**
+ * Schema for saving the knowledge-base record of a code. Lists are shown in
+ * the given order, body is free-form markdown.
+ */
+export const zDTCKnowledgeInputSchema = z.object({
+  causes: z.array(z.string().trim().min(1)).max(50).default([]).openapi({ example: ["Worn spark plug", "Faulty ignition coil"] }),
+  symptoms: z.array(z.string().trim().min(1)).max(50).default([]).openapi({ example: ["Rough idle", "Flashing check engine light"] }),
+  diagnosticSteps: z.array(z.string().trim().min(1)).max(50).default([]).openapi({ example: ["Swap the coil with another cylinder and check whether the misfire follows it"] }),
+  relatedCodes: z.array(z.string().trim().toUpperCase().regex(DTC_CODE_PATTERN, "Invalid SAE J2012 DTC code")).max(50).default([]).openapi({ example: ["P0300", "P0351"] }),
+  typicalFixes: z.array(zDTCTypicalFixSchema).max(20).default([]),
+  body: z.string().max(20000).nullable().optional().openapi({ example: "## Background\nA misfire on cylinder 1 ..." }),
+});
+
+export type DTCKnowledgeInput = z.infer<typeof zDTCKnowledgeInputSchema>;
+
+const zDTCOverlayFieldsSchema = z.object({
+  code: z.string().trim().toUpperCase().regex(DTC_CODE_PATTERN, "Invalid SAE J2012 DTC code").openapi({ example: "P1345" }),
+  make: z.string().trim().min(1).openapi({ example: "Volkswagen" }),
+  model: z.string().trim().min(1).nullable().optional().openapi({ example: "Golf" }),
+  yearFrom: z.number().int().min(1900).max(2100).nullable().optional().openapi({ example: 2004 }),
+  yearTo: z.number().int().min(1900).max(2100).nullable().optional().openapi({ example: 2012 }),
+  description: z.string().trim().min(1).openapi({ example: "Crankshaft/Camshaft Position Sensor Correlation" }),
+  severity: z.enum(severityEnum.enumValues).openapi({ example: "high" }),
+  affectedSystem: z.string().trim().min(1).nullable().optional().openapi({ example: "Engine Timing" }),
+});
+
+/**
+ * Schema for creating a manufacturer overlay. Leaving out the model applies
+ * it to every model of the make, leaving out a year bound keeps the range open.
+ */
+export const zDTCOverlayInsertSchema = zDTCOverlayFieldsSchema.refine(
+  data => data.yearFrom == null || data.yearTo == null || data.yearFrom <= data.yearTo,
+  {
+    message: "yearFrom must not be after yearTo",
+    path: ["yearFrom"],
+  },
+);
+
+export type DTCOverlayInsert = z.infer<typeof zDTCOverlayInsertSchema>;
+
+/**
+ * Schema for updating a manufacturer overlay
+ */
+export const zDTCOverlayUpdateSchema = zDTCOverlayFieldsSchema.partial();
+
+export type DTCOverlayUpdate = z.infer<typeof zDTCOverlayUpdateSchema>;
+
 // =============================================================================
 // Response Schemas - Used for validating and documenting responses
 // =============================================================================
@@ -24,3 +246,241 @@ export type DTCQuerySchema = z.infer<typeof zDTCQuerySchema>;
  * Schema for DTC library item responses
  */
 export const zDTCLibraryResponseSchema = selectDTCLibrarySchema;
+
+/**
+ * Schema for the knowledge-base record of a code
+ */
+export const zDTCKnowledgeSchema = selectDTCKnowledgeBaseSchema.extend({
+  causes: z.array(z.string()),
+  symptoms: z.array(z.string()),
+  diagnosticSteps: z.array(z.string()),
+  relatedCodes: z.array(z.string()),
+  typicalFixes: z.array(zDTCTypicalFixSchema),
+});
+
+export type DTCKnowledge = z.infer<typeof zDTCKnowledgeSchema>;
+
+/**
+ * Schema for a library entry resolved for a vehicle. When a manufacturer
+ * overlay matched, its description, severity and affected system replace the
+ * generic ones and overlayUUID points to it. knowledge holds the repair
+ * guidance of the code, null when none has been written yet.
+ */
+export const zResolvedDTCSchema = selectDTCLibrarySchema.extend({
+  source: z.enum(["generic", "manufacturer"]).openapi({ example: "manufacturer" }),
+  overlayUUID: z.string().uuid().nullable(),
+  knowledge: zDTCKnowledgeSchema.nullable(),
+});
+
+export type ResolvedDTC = z.infer<typeof zResolvedDTCSchema>;
+
+/**
+ * Schema for the library fields recorded in the changelog
+ */
+export const zDTCLibraryChangeSnapshotSchema = z.object({
+  description: z.string().openapi({ example: "Cylinder 1 Misfire Detected" }),
+  severity: z.enum(severityEnum.enumValues).openapi({ example: "high" }),
+  affectedSystem: z.string().nullable().openapi({ example: "Ignition System" }),
+  category: z.string().nullable().openapi({ example: "Powertrain" }),
+  safeToDrive: z.enum(driveSafetyEnum.enumValues).nullable().optional().openapi({ example: "caution" }),
+  urgency: z.enum(dtcUrgencyEnum.enumValues).nullable().optional().openapi({ example: "immediate" }),
+});
+
+/**
+ * Schema for one changelog entry of a library version
+ */
+export const zDTCLibraryChangeSchema = z.object({
+  code: z.string().openapi({ example: "P0301" }),
+  changeType: z.enum(dtcLibraryChangeTypeEnum.enumValues).openapi({ example: "updated" }),
+  previous: zDTCLibraryChangeSnapshotSchema.nullable(),
+  current: zDTCLibraryChangeSnapshotSchema.nullable(),
+});
+
+export type DTCLibraryChange = z.infer<typeof zDTCLibraryChangeSchema>;
+
+/**
+ * Schema for library version responses
+ */
+export const zDTCLibraryVersionSchema = selectDTCLibraryVersionSchema;
+
+export const zDTCLibraryVersionsListResponseSchema = z.array(selectDTCLibraryVersionSchema);
+
+/**
+ * Schema for a library version with its changelog
+ */
+export const zDTCLibraryVersionDetailResponseSchema = selectDTCLibraryVersionSchema.extend({
+  changes: z.array(zDTCLibraryChangeSchema),
+});
+
+/**
+ * Schema for a created or updated library entry, with the library version the
+ * change was recorded in (null when nothing changed)
+ */
+export const zDTCLibraryEntryMutationResponseSchema = z.object({
+  entry: selectDTCLibrarySchema,
+  version: selectDTCLibraryVersionSchema.nullable(),
+});
+
+/**
+ * Schema for the result of a library import. version is null for dry runs
+ * and imports that change nothing.
+ */
+export const zDTCLibraryImportResponseSchema = z.object({
+  dryRun: z.boolean().openapi({ example: false }),
+  version: selectDTCLibraryVersionSchema.nullable(),
+  addedCount: z.number().openapi({ example: 12 }),
+  updatedCount: z.number().openapi({ example: 48 }),
+  removedCount: z.number().openapi({ example: 0 }),
+  unchangedCount: z.number().openapi({ example: 4310 }),
+  // Codes that would have been removed but are still referenced by stored DTCs
+  retainedCodes: z.array(z.string()).openapi({ example: ["P1690"] }),
+  changes: z.array(zDTCLibraryChangeSchema),
+});
+
+export type DTCLibraryImportResponse = z.infer<typeof zDTCLibraryImportResponseSchema>;
+
+/**
+ * Schema for an import rejected because of invalid rows
+ */
+export const zDTCLibraryImportErrorResponseSchema = z.object({
+  error: z.string().openapi({ example: "Invalid import" }),
+  rows: z.array(z.object({
+    row: z.number().openapi({ example: 7 }),
+    message: z.string().openapi({ example: "code: Invalid SAE J2012 DTC code" }),
+  })),
+});
+
+/**
+ * Schema for a code range of the classification rule table
+ */
+export const zDTCClassificationRuleSchema = z.object({
+  from: z.string().openapi({ example: "P0300" }),
+  to: z.string().openapi({ example: "P0312" }),
+  label: z.string().openapi({ example: "Misfire" }),
+  severity: z.enum(severityEnum.enumValues).openapi({ example: "high" }),
+  affectedSystem: z.string().openapi({ example: "Ignition System" }),
+  safeToDrive: z.enum(driveSafetyEnum.enumValues).openapi({ example: "caution" }),
+  urgency: z.enum(dtcUrgencyEnum.enumValues).openapi({ example: "immediate" }),
+});
+
+export const zDTCClassificationRulesResponseSchema = z.array(zDTCClassificationRuleSchema);
+
+/**
+ * Schema for the result of a classification run. version is null for dry
+ * runs and runs that change nothing.
+ */
+export const zDTCClassificationRunResponseSchema = z.object({
+  dryRun: z.boolean().openapi({ example: false }),
+  version: selectDTCLibraryVersionSchema.nullable(),
+  updatedCount: z.number().openapi({ example: 1843 }),
+  changes: z.array(zDTCLibraryChangeSchema),
+});
+
+/**
+ * Schema for classification override responses
+ */
+export const zDTCClassificationOverridesListResponseSchema = z.array(selectDTCClassificationOverrideSchema);
+
+/**
+ * Schema for a saved or removed override, with the reclassified library entry
+ * and the library version the change was recorded in
+ */
+export const zDTCClassificationOverrideResponseSchema = z.object({
+  override: selectDTCClassificationOverrideSchema.nullable(),
+  entry: selectDTCLibrarySchema,
+  version: selectDTCLibraryVersionSchema.nullable(),
+});
+
+/**
+ * Schema for manufacturer overlay responses
+ */
+export const zDTCOverlayResponseSchema = selectDTCManufacturerOverlaySchema;
+
+export const zDTCOverlaysListResponseSchema = z.array(selectDTCManufacturerOverlaySchema);
+
+/**
+ * Schema for a page of DTC library search results, best matches first
+ */
+export const zDTCSearchResponseSchema = z.object({
+  items: z.array(selectDTCLibrarySchema),
+  nextCursor: z.string().nullable().openapi({ example: null }),
+});
+
+export type DTCSearchResponse = z.infer<typeof zDTCSearchResponseSchema>;
+
+/**
+ * Schema for the bulk lookup response, codes missing from the library are listed separately
+ */
+export const zDTCLookupResponseSchema = z.object({
+  found: z.array(zResolvedDTCSchema),
+  missing: z.array(z.string()).openapi({ example: ["P1234"] }),
+});
+
+export type DTCLookupResponse = z.infer<typeof zDTCLookupResponseSchema>;
+
+/**
+ * Schema for an entry of the review queue, with how often vehicles reported it
+ */
+export const zDTCReviewQueueItemSchema = selectDTCLibrarySchema.extend({
+  occurrenceCount: z.number().openapi({ example: 4 }),
+  lastReportedAt: z.string().datetime().nullable().openapi({ example: "2024-01-15T10:30:00.000Z" }),
+});
+
+export type DTCReviewQueueItem = z.infer<typeof zDTCReviewQueueItemSchema>;
+
+export const zDTCReviewQueueResponseSchema = z.array(zDTCReviewQueueItemSchema);
+
+/**
+ * Lifecycle state of a DTC on a vehicle. A code is pending, confirmed or
+ * permanent while it keeps being reported; once it stops being reported it is
+ * cleared if it had been confirmed, or self-healed if it never got past pending.
+ */
+export const zDTCLifecycleStateSchema = z.enum([...dtcStatusEnum.enumValues, "cleared", "self_healed"]).openapi({ example: "confirmed" });
+
+export type DTCLifecycleState = z.infer<typeof zDTCLifecycleStateSchema>;
+
+/**
+ * Schema for a diagnostic session in which a DTC was reported
+ */
+export const zDTCHistoryOccurrenceSchema = z.object({
+  diagnosticUUID: z.string().uuid(),
+  date: z.string().datetime().openapi({ example: "2024-01-15T10:30:00.000Z" }),
+  status: z.enum(dtcStatusEnum.enumValues).openapi({ example: "pending" }),
+});
+
+export type DTCHistoryOccurrence = z.infer<typeof zDTCHistoryOccurrenceSchema>;
+
+/**
+ * Schema for one episode of a DTC on a vehicle, from the session it first
+ * appeared in to the session it disappeared in
+ */
+export const zDTCHistoryEntrySchema = z.object({
+  code: z.string().openapi({ example: "P0301" }),
+  description: z.string().nullable().openapi({ example: "Cylinder 1 Misfire Detected" }),
+  severity: z.enum(severityEnum.enumValues).nullable().openapi({ example: "high" }),
+  state: zDTCLifecycleStateSchema,
+  // Most advanced status the code reached during the episode
+  highestStatus: z.enum(dtcStatusEnum.enumValues).openapi({ example: "confirmed" }),
+  firstSeenAt: z.string().datetime().openapi({ example: "2024-01-15T10:30:00.000Z" }),
+  firstSeenDiagnosticUUID: z.string().uuid(),
+  lastSeenAt: z.string().datetime().openapi({ example: "2024-02-02T08:12:00.000Z" }),
+  lastSeenDiagnosticUUID: z.string().uuid(),
+  resolvedAt: z.string().datetime().nullable().openapi({ example: null }),
+  resolvedDiagnosticUUID: z.string().uuid().nullable(),
+  sessionCount: z.number().openapi({ example: 3 }),
+  occurrences: z.array(zDTCHistoryOccurrenceSchema),
+});
+
+export type DTCHistoryEntry = z.infer<typeof zDTCHistoryEntrySchema>;
+
+/**
+ * Schema for the DTC history of a vehicle, most recently seen first
+ */
+export const zDTCHistoryResponseSchema = z.object({
+  vehicleUUID: z.string().uuid(),
+  totalSessions: z.number().openapi({ example: 12 }),
+  activeCount: z.number().openapi({ example: 2 }),
+  entries: z.array(zDTCHistoryEntrySchema),
+});
+
+export type DTCHistoryResponse = z.infer<typeof zDTCHistoryResponseSchema>;
@@ -0,0 +1,126 @@
+import { z } from "zod";
+import "zod-openapi/extend";
+
+import { selectFuelLogSchema } from "../db/schema/fuel-logs-schema";
+import { distanceUnitEnum, volumeUnitEnum } from "../db/schema/user-preferences-schema";
+
+// =============================================================================
+// Input Schemas - Used for validating request payloads
+// =============================================================================
+
+const zFuelLogFieldsSchema = z.object({
+  filledAt: z.string().datetime().openapi({ example: "2025-06-12T17:45:00.000Z" }),
+  odometer: z.number().int().nonnegative().openapi({ example: 84210 }),
+  // Unit the odometer was entered in, converted to kilometres before storing
+  odometerUnit: z.enum(distanceUnitEnum.enumValues).default("km"),
+  volume: z.number().positive().openapi({ example: 42.7 }),
+  // Unit the volume and price were entered in, converted to litres before storing
+  volumeUnit: z.enum(volumeUnitEnum.enumValues).default("L"),
+  pricePerUnit: z.number().positive().optional().openapi({ example: 7.39 }),
+  totalCost: z.number().positive().optional().openapi({ example: 315.55 }),
+  isFullTank: z.boolean().default(true).openapi({ example: true }),
+  station: z.string().max(200).optional().openapi({ example: "OMV Calea Victoriei" }),
+  latitude: z.number().min(-90).max(90).optional().openapi({ example: 44.4452 }),
+  longitude: z.number().min(-180).max(180).optional().openapi({ example: 26.0978 }),
+  notes: z.string().max(1000).optional(),
+});
+
+/**
+ * Schema for recording a fuel-up. Either the price per unit or the total cost
+ * is required, the other one is derived from the volume.
+ */
+export const zFuelLogCreateSchema = zFuelLogFieldsSchema.refine(
+  data => data.pricePerUnit !== undefined || data.totalCost !== undefined,
+  {
+    message: "Either pricePerUnit or totalCost must be provided",
+    path: ["pricePerUnit"],
+  },
+);
+
+export type FuelLogCreate = z.infer<typeof zFuelLogCreateSchema>;
+
+/**
+ * Schema for updating a fuel-up, every field is optional. Changing the volume
+ * without a price keeps the stored price per litre.
+ */
+export const zFuelLogUpdateSchema = z.object({
+  filledAt: z.string().datetime().optional().openapi({ example: "2025-06-12T17:45:00.000Z" }),
+  odometer: z.number().int().nonnegative().optional().openapi({ example: 84215 }),
+  odometerUnit: z.enum(distanceUnitEnum.enumValues).default("km"),
+  volume: z.number().positive().optional().openapi({ example: 42.7 }),
+  volumeUnit: z.enum(volumeUnitEnum.enumValues).default("L"),
+  pricePerUnit: z.number().positive().optional().openapi({ example: 7.29 }),
+  totalCost: z.number().positive().optional().openapi({ example: 311.28 }),
+  isFullTank: z.boolean().optional().openapi({ example: false }),
+  station: z.string().max(200).nullable().optional().openapi({ example: "Petrom Baneasa" }),
+  latitude: z.number().min(-90).max(90).nullable().optional().openapi({ example: 44.5031 }),
+  longitude: z.number().min(-180).max(180).nullable().optional().openapi({ example: 26.0854 }),
+  notes: z.string().max(1000).nullable().optional(),
+});
+
+export type FuelLogUpdate = z.infer<typeof zFuelLogUpdateSchema>;
+
+// =============================================================================
+// Query Schemas - Used for validating request parameters
+// =============================================================================
+
+/**
+ * Schema for filtering fuel-ups by date. Statistics only measure consumption
+ * from the first full fill inside the range.
+ */
+export const zFuelLogsQuerySchema = z.object({
+  from: z.string().datetime().optional().openapi({ example: "2025-01-01T00:00:00.000Z" }),
+  to: z.string().datetime().optional().openapi({ example: "2025-12-31T23:59:59.000Z" }),
+});
+
+export type FuelLogsQuery = z.infer<typeof zFuelLogsQuerySchema>;
+
+// =============================================================================
+// Response Schemas - Used for validating and documenting responses
+// =============================================================================
+
+/**
+ * Schema for a fuel-up in the user's preferred units. Consumption is the
+ * full-to-full consumption measured at this fill, in L/100 km and in US MPG,
+ * and null for partial fills and the first full fill.
+ */
+export const zFuelLogSchema = selectFuelLogSchema.extend({
+  odometer: z.number().openapi({ example: 84210 }),
+  distanceUnit: z.enum(["km", "mi"]).openapi({ example: "km" }),
+  volume: z.number().openapi({ example: 42.7 }),
+  volumeUnit: z.enum(["L", "gal"]).openapi({ example: "L" }),
+  pricePerUnit: z.number().openapi({ example: 7.39 }),
+  consumption: z.number().nullable().openapi({ example: 6.8 }),
+  mpg: z.number().nullable().openapi({ example: 34.6 }),
+});
+
+export type FuelLog = z.infer<typeof zFuelLogSchema>;
+
+export const zFuelLogsListResponseSchema = z.array(zFuelLogSchema);
+
+/**
+ * Schema for the fuel statistics of a vehicle. Consumption and cost per
+ * distance only cover the distance between full fills; prices are per
+ * preferred volume unit.
+ */
+export const zFuelStatsResponseSchema = z.object({
+  fillCount: z.number().int().openapi({ example: 14 }),
+  totalVolume: z.number().openapi({ example: 598.2 }),
+  totalCost: z.number().openapi({ example: 4390.1 }),
+  averagePricePerUnit: z.number().nullable().openapi({ example: 7.34 }),
+  measuredDistance: z.number().openapi({ example: 8420 }),
+  averageConsumption: z.number().nullable().openapi({ example: 6.9 }),
+  averageMpg: z.number().nullable().openapi({ example: 34.1 }),
+  costPerDistance: z.number().nullable().openapi({ example: 0.51 }),
+  priceTrend: z.array(z.object({
+    month: z.string().openapi({ example: "2025-06" }),
+    averagePricePerUnit: z.number().openapi({ example: 7.41 }),
+    volume: z.number().openapi({ example: 86.3 }),
+    cost: z.number().openapi({ example: 639.5 }),
+    fillCount: z.number().int().openapi({ example: 2 }),
+  })),
+  distanceUnit: z.enum(["km", "mi"]).openapi({ example: "km" }),
+  volumeUnit: z.enum(["L", "gal"]).openapi({ example: "L" }),
+});
+
+export type FuelStatsResponse = z.infer<typeof zFuelStatsResponseSchema>;
@@ -0,0 +1,106 @@
+import { z } from "zod";
+import "zod-openapi/extend";
+
+import { geofenceEventTypeEnum, geofenceShapeEnum, selectGeofenceEventSchema, selectGeofenceSchema } from "../db/schema/geofences-schema";
+
+const zLatitude = z.number().min(-90).max(90);
+const zLongitude = z.number().min(-180).max(180);
+
+const zGeofencePolygonSchema = z.array(z.tuple([zLatitude, zLongitude])).min(3).max(100).openapi({
+  example: [[44.4268, 26.1025], [44.4281, 26.1052], [44.4255, 26.1068]],
+});
+
+// =============================================================================
+// Input Schemas - Used for validating request payloads
+// =============================================================================
+
+/**
+ * Schema for creating a geofence. Circles need a center and a radius in
+ * metres, polygons at least three [latitude, longitude] vertices.
+ */
+export const zGeofenceCreateSchema = z.object({
+  name: z.string().min(1).max(100).openapi({ example: "Home" }),
+  shape: z.enum(geofenceShapeEnum.enumValues).openapi({ example: "circle" }),
+  centerLatitude: zLatitude.optional().openapi({ example: 44.4268 }),
+  centerLongitude: zLongitude.optional().openapi({ example: 26.1025 }),
+  radius: z.number().min(10).max(100000).optional().openapi({ example: 150 }),
+  polygon: zGeofencePolygonSchema.optional(),
+  notifyOnEnter: z.boolean().default(true).openapi({ example: true }),
+  notifyOnExit: z.boolean().default(true).openapi({ example: true }),
+  enabled: z.boolean().default(true).openapi({ example: true }),
+});
+
+export type GeofenceCreate = z.infer<typeof zGeofenceCreateSchema>;
+
+/**
+ * Schema for updating a geofence, every field is optional. Changing the
+ * shape or its coordinates resets the inside/outside state of the geofence.
+ */
+export const zGeofenceUpdateSchema = z.object({
+  name: z.string().min(1).max(100).optional().openapi({ example: "Work" }),
+  shape: z.enum(geofenceShapeEnum.enumValues).optional().openapi({ example: "polygon" }),
+  centerLatitude: zLatitude.optional().openapi({ example: 44.4268 }),
+  centerLongitude: zLongitude.optional().openapi({ example: 26.1025 }),
+  radius: z.number().min(10).max(100000).optional().openapi({ example: 250 }),
+  polygon: zGeofencePolygonSchema.optional(),
+  notifyOnEnter: z.boolean().optional().openapi({ example: true }),
+  notifyOnExit: z.boolean().optional().openapi({ example: false }),
+  enabled: z.boolean().optional().openapi({ example: false }),
+});
+
+export type GeofenceUpdate = z.infer<typeof zGeofenceUpdateSchema>;
+
+// =============================================================================
+// Query Schemas - Used for validating request parameters
+// =============================================================================
+
+/**
+ * Schema for filtering the geofence event history
+ */
+export const zGeofenceEventsQuerySchema = z.object({
+  geofenceUUID: z.string().uuid().optional().openapi({ example: "123e4567-e89b-12d3-a456-426614174000" }),
+  limit: z.coerce.number().int().min(1).max(200).default(50).openapi({ example: 50 }),
+});
+
+export type GeofenceEventsQuery = z.infer<typeof zGeofenceEventsQuerySchema>;
+
+// =============================================================================
+// Response Schemas - Used for validating and documenting responses
+// =============================================================================
+
+/**
+ * Schema for a geofence
+ */
+export const zGeofenceSchema = selectGeofenceSchema.extend({
+  polygon: z.array(z.tuple([z.number(), z.number()])).nullable(),
+});
+
+export type Geofence = z.infer<typeof zGeofenceSchema>;
+
+export const zGeofencesListResponseSchema = z.array(zGeofenceSchema);
+
+/**
+ * Schema for an enter or exit event, with the name of its geofence
+ */
+export const zGeofenceEventSchema = selectGeofenceEventSchema.extend({
+  geofenceName: z.string().openapi({ example: "Home" }),
+});
+
+export type GeofenceEvent = z.infer<typeof zGeofenceEventSchema>;
+
+export const zGeofenceEventsListResponseSchema = z.array(zGeofenceEventSchema);
+
+/**
+ * Schema for the data payload of "geofence_alert" notifications
+ */
+export const zGeofenceNotificationDataSchema = z.object({
+  geofenceUUID: z.string().uuid(),
+  geofenceEventUUID: z.string().uuid(),
+  vehicleUUID: z.string().uuid(),
+  locationUUID: z.string().uuid(),
+  eventType: z.enum(geofenceEventTypeEnum.enumValues).openapi({ example: "enter" }),
+  latitude: z.number().openapi({ example: 44.4268 }),
+  longitude: z.number().openapi({ example: 26.1025 }),
+});
+
+export type GeofenceNotificationData = z.infer<typeof zGeofenceNotificationDataSchema>;
@@ -1,6 +1,7 @@
 import { z } from "zod";
 import "zod-openapi/extend";
 
+import { selectDiagnosticSchema } from "../db/schema/diagnostics-schema";
 import { insertLocationSchema, selectLocationSchema, updateLocationSchema } from "../db/schema/locations-schema";
 
 // =============================================================================
@@ -28,6 +29,33 @@ export const zBulkLocationInsertSchema = insertLocationSchema.omit({
 
 export type LocationInsertSchema = z.infer<typeof zLocationInsertSchema>;
 
+/**
+ * Schema for importing a GPX 1.0/1.1 file as a new diagnostic. Without an
+ * odometer the reading of the vehicle's latest diagnostic is reused.
+ */
+export const zGPXImportSchema = z.object({
+  vehicleUUID: z.string().uuid().openapi({ example: "123e4567-e89b-12d3-a456-426614174000" }),
+  gpx: z.string().min(1).max(10 * 1024 * 1024).openapi({ example: "<?xml version=\"1.0\"?><gpx version=\"1.1\">...</gpx>" }),
+  odometer: z.number().int().min(0).optional().openapi({ example: 125400 }),
+  notes: z.string().max(500).optional().openapi({ example: "Weekend trip to Brașov" }),
+});
+
+export type GPXImport = z.infer<typeof zGPXImportSchema>;
+
+// =============================================================================
+// Query Schemas - Used for validating request parameters
+// =============================================================================
+
+/**
+ * Schema for exporting a route. GPX 1.1 and KML carry speed in extensions,
+ * GeoJSON in coordinateProperties; speeds are in m/s and altitudes in metres.
+ */
+export const zRouteExportQuerySchema = z.object({
+  format: z.enum(["gpx", "kml", "geojson"]).default("gpx").openapi({ example: "gpx" }),
+});
+
+export type RouteExportQuery = z.infer<typeof zRouteExportQuerySchema>;
+
 // =============================================================================
 // Single Location Response Schemas
 // =============================================================================
@@ -39,6 +67,17 @@ export const zLocationGetResponseSchema = selectLocationSchema;
 
 export type LocationGetResponse = z.infer<typeof zLocationGetResponseSchema>;
 
+/**
+ * Schema for a location converted to the user's unit preferences.
+ * Speed and altitude are expressed in speedUnit and altitudeUnit.
+ */
+export const zLocationWithUnitsSchema = selectLocationSchema.extend({
+  speedUnit: z.enum(["km/h", "mph"]).openapi({ example: "km/h" }),
+  altitudeUnit: z.enum(["m", "ft"]).openapi({ example: "m" }),
+});
+
+export type LocationWithUnits = z.infer<typeof zLocationWithUnitsSchema>;
+
 /**
  * Schema for updating a location
  */
@@ -52,7 +91,7 @@ export type LocationUpdateResponse = z.infer<typeof zLocationUpdateResponseSchem
 /**
  * Schema for listing multiple locations
  */
-export const zLocationsListResponseSchema = z.array(zLocationGetResponseSchema);
+export const zLocationsListResponseSchema = z.array(zLocationWithUnitsSchema);
 export type LocationsListResponse = z.infer<typeof zLocationsListResponseSchema>;
 
 // =============================================================================
@@ -77,3 +116,22 @@ export const zLocationDeleteResponseSchema = z.object({
   locationUUID: z.string().openapi({ example: "123e4567-e89b-12d3-a456-426614174000" }),
 });
 export type LocationDeleteResponse = z.infer<typeof zLocationDeleteResponseSchema>;
+
+/**
+ * Schema for the result of a GPX import
+ */
+export const zGPXImportResponseSchema = z.object({
+  message: z.string().openapi({ example: "GPX imported successfully" }),
+  diagnostic: selectDiagnosticSchema,
+  count: z.number().openapi({ example: 842 }),
+});
+
+export type GPXImportResponse = z.infer<typeof zGPXImportResponseSchema>;
+
+/**
+ * Schema for a GPX file that could not be imported, with the offending points
+ */
+export const zGPXImportErrorResponseSchema = z.object({
+  error: z.string().openapi({ example: "Invalid GPX file" }),
+  errors: z.array(z.string()).openapi({ example: ["Point 12: missing or invalid time"] }),
+});
@@ -0,0 +1,119 @@
+import { z } from "zod";
+import "zod-openapi/extend";
+
+import { serviceTypeEnum } from "../db/schema/maintenance-log-schema";
+import { maintenanceDueStatusEnum, selectMaintenanceScheduleSchema } from "../db/schema/maintenance-schedules-schema";
+import { distanceUnitEnum } from "../db/schema/user-preferences-schema";
+
+// =============================================================================
+// Input Schemas - Used for validating request payloads
+// =============================================================================
+
+/**
+ * Schema for the rule of a service type. The service is due after whichever
+ * interval is reached first, so at least one of them is required.
+ */
+export const zMaintenanceScheduleUpsertSchema = z.object({
+  intervalDistance: z.number().int().positive().nullable().default(null).openapi({ example: 15000 }),
+  // Unit the interval distance was entered in, converted to kilometres before storing
+  distanceUnit: z.enum(distanceUnitEnum.enumValues).default("km"),
+  intervalMonths: z.number().int().min(1).max(240).nullable().default(null).openapi({ example: 12 }),
+  enabled: z.boolean().default(true).openapi({ example: true }),
+}).refine(
+  data => data.intervalDistance != null || data.intervalMonths != null,
+  {
+    message: "Either intervalDistance or intervalMonths must be provided",
+    path: ["intervalDistance"],
+  },
+);
+
+export type MaintenanceScheduleUpsert = z.infer<typeof zMaintenanceScheduleUpsertSchema>;
+
+// =============================================================================
+// Query Schemas - Used for validating request parameters
+// =============================================================================
+
+export const zMaintenanceScheduleParamSchema = z.object({
+  vehicleUUID: z.string().uuid(),
+  serviceType: z.enum(serviceTypeEnum.enumValues).openapi({ example: "oil_change" }),
+});
+
+/**
+ * Schema for the upcoming maintenance query. By default only services that
+ * are upcoming, due or overdue are returned.
+ */
+export const zUpcomingMaintenanceQuerySchema = z.object({
+  includeAll: z.enum(["true", "false"])
+    .optional()
+    .default("false")
+    .transform(val => val === "true")
+    .pipe(z.boolean()),
+});
+
+export type UpcomingMaintenanceQuery = z.infer<typeof zUpcomingMaintenanceQuerySchema>;
+
+// =============================================================================
+// Response Schemas - Used for validating and documenting responses
+// =============================================================================
+
+/**
+ * Schema for a schedule rule, with the interval distance in the user's
+ * preferred distance unit
+ */
+export const zMaintenanceScheduleSchema = selectMaintenanceScheduleSchema.omit({ intervalKm: true }).extend({
+  intervalDistance: z.number().nullable().openapi({ example: 15000 }),
+  distanceUnit: z.enum(distanceUnitEnum.enumValues).openapi({ example: "km" }),
+});
+
+export type MaintenanceSchedule = z.infer<typeof zMaintenanceScheduleSchema>;
+
+export const zMaintenanceSchedulesListResponseSchema = z.array(zMaintenanceScheduleSchema);
+
+const zMaintenanceStatusSchema = z.enum(["ok", "unknown", ...maintenanceDueStatusEnum.enumValues]).openapi({ example: "upcoming" });
+
+/**
+ * Schema for the due status of a scheduled service. "unknown" means the
+ * service was never logged, so there is nothing to count the interval from.
+ * Distances follow the user's preferred distance unit.
+ */
+export const zUpcomingMaintenanceItemSchema = z.object({
+  scheduleUUID: z.string().uuid(),
+  serviceType: z.enum(serviceTypeEnum.enumValues).openapi({ example: "oil_change" }),
+  status: zMaintenanceStatusSchema,
+  intervalDistance: z.number().nullable().openapi({ example: 15000 }),
+  intervalMonths: z.number().int().nullable().openapi({ example: 12 }),
+  lastService: z.object({
+    maintenanceUUID: z.string().uuid(),
+    serviceDate: z.string().datetime(),
+    odometer: z.number().nullable().openapi({ example: 72400 }),
+  }).nullable(),
+  dueDate: z.string().datetime().nullable(),
+  dueOdometer: z.number().nullable().openapi({ example: 87400 }),
+  remainingDays: z.number().int().nullable().openapi({ example: 41 }),
+  remainingDistance: z.number().nullable().openapi({ example: 1190 }),
+});
+
+export type UpcomingMaintenanceItem = z.infer<typeof zUpcomingMaintenanceItemSchema>;
+
+export const zUpcomingMaintenanceResponseSchema = z.object({
+  vehicleUUID: z.string().uuid(),
+  currentOdometer: z.number().nullable().openapi({ example: 86210 }),
+  distanceUnit: z.enum(distanceUnitEnum.enumValues).openapi({ example: "km" }),
+  items: z.array(zUpcomingMaintenanceItemSchema),
+});
+
+export type UpcomingMaintenanceResponse = z.infer<typeof zUpcomingMaintenanceResponseSchema>;
+
+/**
+ * Schema for the data payload of "maintenance_reminder" notifications
+ */
+export const zMaintenanceReminderNotificationDataSchema = z.object({
+  vehicleUUID: z.string().uuid(),
+  scheduleUUID: z.string().uuid(),
+  serviceType: z.enum(serviceTypeEnum.enumValues).openapi({ example: "oil_change" }),
+  status: z.enum(maintenanceDueStatusEnum.enumValues).openapi({ example: "due" }),
+  dueDate: z.string().datetime().nullable(),
+  dueOdometer: z.number().nullable().openapi({ example: 87400 }),
+});
+
+export type MaintenanceReminderNotificationData = z.infer<typeof zMaintenanceReminderNotificationDataSchema>;
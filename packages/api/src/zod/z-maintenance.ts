@@ -1,6 +1,24 @@
 import { z } from "zod";
+import "zod-openapi/extend";
 
+import { selectMaintenanceAttachmentSchema } from "../db/schema/maintenance-attachments-schema";
+import { selectMaintenanceLineItemSchema } from "../db/schema/maintenance-line-items-schema";
 import { selectMaintenanceLogSchema, serviceTypeEnum } from "../db/schema/maintenance-log-schema";
+import { distanceUnitEnum } from "../db/schema/user-preferences-schema";
+import { zResolvedUnitsSchema } from "./z-preferences";
+
+// Line item request schema, labour is billed as labourHours times the unit price
+export const zMaintenanceLineItemInputSchema = z.object({
+  description: z.string().min(1).max(200),
+  partNumber: z.string().max(100).nullable().optional(),
+  quantity: z.number().positive().default(1),
+  unitPrice: z.number().nonnegative(),
+  labourHours: z.number().positive().nullable().optional(),
+  // Tax in percent, added on top of the unit price
+  taxRate: z.number().min(0).max(100).default(0),
+});
+
+export type MaintenanceLineItemInput = z.infer<typeof zMaintenanceLineItemInputSchema>;
 
 // Create maintenance entry request schema
 export const zCreateMaintenanceEntrySchema = z.object({
@@ -10,24 +28,87 @@ export const zCreateMaintenanceEntrySchema = z.object({
   serviceDate: z.string().datetime(),
   serviceTypes: z.array(z.enum(serviceTypeEnum.enumValues)).min(1, "At least one service type is required"),
   odometer: z.number().int().positive().optional(),
+  // Unit the odometer was entered in, converted to kilometres before storing
+  odometerUnit: z.enum(distanceUnitEnum.enumValues).default("km"),
   cost: z.number().optional(),
   notes: z.string().optional(),
+  // When given, the cost is the sum of the line items
+  lineItems: z.array(zMaintenanceLineItemInputSchema).optional(),
 }).refine(
   data => data.serviceWorkshopUUID || data.customServiceWorkshopName,
   {
     message: "Either serviceWorkshopUUID or customServiceWorkshopName must be provided",
     path: ["serviceWorkshopUUID"],
   },
+).refine(
+  data => data.cost === undefined || !data.lineItems?.length,
+  {
+    message: "cost cannot be provided together with lineItems",
+    path: ["cost"],
+  },
+);
+
+// Update maintenance entry request schema, only the given fields are changed
+export const zUpdateMaintenanceEntrySchema = z.object({
+  serviceWorkshopUUID: z.string().uuid().optional(),
+  customServiceWorkshopName: z.string().min(1).optional(),
+  serviceDate: z.string().datetime().optional(),
+  // Replaces the service types of the entry
+  serviceTypes: z.array(z.enum(serviceTypeEnum.enumValues)).min(1, "At least one service type is required").optional(),
+  odometer: z.number().int().positive().nullable().optional(),
+  odometerUnit: z.enum(distanceUnitEnum.enumValues).default("km"),
+  cost: z.number().nullable().optional(),
+  notes: z.string().nullable().optional(),
+  // Replaces the line items of the entry, an empty list turns it back into a single cost
+  lineItems: z.array(zMaintenanceLineItemInputSchema).optional(),
+}).refine(
+  data => data.cost === undefined || !data.lineItems?.length,
+  {
+    message: "cost cannot be provided together with lineItems",
+    path: ["cost"],
+  },
 );
 
+export type UpdateMaintenanceEntry = z.infer<typeof zUpdateMaintenanceEntrySchema>;
+
+const zAttachmentFileSchema = z.instanceof(File).openapi({ type: "string", format: "binary" });
+
+// Attachment upload request schema, one or more files sent as multipart "file" fields
+export const zMaintenanceAttachmentUploadSchema = z.object({
+  file: z.union([zAttachmentFileSchema, z.array(zAttachmentFileSchema)]),
+});
+
+// Attachment download query schema, images open inline unless a download is asked for
+export const zMaintenanceAttachmentDownloadQuerySchema = z.object({
+  download: z.enum(["true", "false"])
+    .optional()
+    .default("false")
+    .transform(val => val === "true")
+    .pipe(z.boolean()),
+});
+
 // Response schemas
+export const zMaintenanceLineItemSchema = selectMaintenanceLineItemSchema.extend({
+  total: z.number(),
+});
+
+export const zMaintenanceAttachmentSchema = selectMaintenanceAttachmentSchema.omit({ storageKey: true });
+
+export const zMaintenanceAttachmentsUploadResponseSchema = z.object({
+  attachments: z.array(zMaintenanceAttachmentSchema),
+  message: z.string(),
+});
+
 export const zMaintenanceEntryResponseSchema = z.object({
   maintenanceEntry: selectMaintenanceLogSchema,
+  lineItems: z.array(zMaintenanceLineItemSchema),
   message: z.string(),
 });
 
 export const zMaintenanceHistoryItemSchema = selectMaintenanceLogSchema.extend({
   serviceTypes: z.array(z.enum(serviceTypeEnum.enumValues)),
+  lineItems: z.array(zMaintenanceLineItemSchema),
+  attachments: z.array(zMaintenanceAttachmentSchema),
   workshop: z.object({
     uuid: z.string().uuid(),
     name: z.string(),
@@ -63,6 +144,7 @@ export const zMaintenanceHistoryResponseSchema = z.object({
     year: z.number(),
     licensePlate: z.string(),
   }),
+  units: zResolvedUnitsSchema,
 });
 
 export const zDeleteMaintenanceEntryResponseSchema = z.object({
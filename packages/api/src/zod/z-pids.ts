@@ -0,0 +1,47 @@
+import { z } from "zod";
+import "zod-openapi/extend";
+
+import { selectPidRegistrySchema } from "../db/schema/pid-registry-schema";
+
+// =============================================================================
+// Query Schemas - Used for validating request parameters
+// =============================================================================
+
+/**
+ * Schema for filtering the PID registry
+ */
+export const zPidRegistryQuerySchema = z.object({
+  category: z.string().optional().openapi({ example: "Engine" }),
+});
+
+export type PidRegistryQuery = z.infer<typeof zPidRegistryQuerySchema>;
+
+// =============================================================================
+// Response Schemas - Used for validating and documenting responses
+// =============================================================================
+
+/**
+ * Schema for a single PID registry entry
+ */
+export const zPidRegistryEntrySchema = selectPidRegistrySchema.pick({
+  pid: true,
+  name: true,
+  category: true,
+  unit: true,
+  minValue: true,
+  maxValue: true,
+  typicalMin: true,
+  typicalMax: true,
+}).extend({
+  aliases: z.array(z.string()).openapi({ example: ["rpm", "engine_rpm"] }),
+  // Computed by the API from other PIDs (e.g. the estimated fuel rate) rather than reported by the vehicle
+  derived: z.boolean().openapi({ example: false }),
+});
+
+export type PidRegistryEntryResponse = z.infer<typeof zPidRegistryEntrySchema>;
+
+/**
+ * Schema for listing the PID registry
+ */
+export const zPidRegistryListResponseSchema = z.array(zPidRegistryEntrySchema);
+export type PidRegistryListResponse = z.infer<typeof zPidRegistryListResponseSchema>;
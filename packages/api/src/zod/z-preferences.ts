@@ -0,0 +1,58 @@
+import { z } from "zod";
+import "zod-openapi/extend";
+
+import {
+  distanceUnitEnum,
+  pressureUnitEnum,
+  speedUnitEnum,
+  temperatureUnitEnum,
+  unitSystemEnum,
+  volumeUnitEnum,
+} from "../db/schema/user-preferences-schema";
+
+// =============================================================================
+// Input Schemas - Used for validating request payloads
+// =============================================================================
+
+/**
+ * Schema for updating the unit preferences of the current user. Per-quantity
+ * units are only taken into account when unitSystem is "mixed".
+ */
+export const zUnitPreferencesUpdateSchema = z.object({
+  unitSystem: z.enum(unitSystemEnum.enumValues).openapi({ example: "mixed" }),
+  distanceUnit: z.enum(distanceUnitEnum.enumValues).nullable().optional().openapi({ example: "km" }),
+  speedUnit: z.enum(speedUnitEnum.enumValues).nullable().optional().openapi({ example: "km/h" }),
+  temperatureUnit: z.enum(temperatureUnitEnum.enumValues).nullable().optional().openapi({ example: "°C" }),
+  pressureUnit: z.enum(pressureUnitEnum.enumValues).nullable().optional().openapi({ example: "psi" }),
+  volumeUnit: z.enum(volumeUnitEnum.enumValues).nullable().optional().openapi({ example: "L" }),
+});
+
+export type UnitPreferencesUpdate = z.infer<typeof zUnitPreferencesUpdateSchema>;
+
+// =============================================================================
+// Response Schemas
+// =============================================================================
+
+/**
+ * Schema for the units every converted response is expressed in
+ */
+export const zResolvedUnitsSchema = z.object({
+  unitSystem: z.enum(unitSystemEnum.enumValues).openapi({ example: "mixed" }),
+  distance: z.enum(distanceUnitEnum.enumValues).openapi({ example: "km" }),
+  speed: z.enum(speedUnitEnum.enumValues).openapi({ example: "km/h" }),
+  temperature: z.enum(temperatureUnitEnum.enumValues).openapi({ example: "°C" }),
+  pressure: z.enum(pressureUnitEnum.enumValues).openapi({ example: "psi" }),
+  volume: z.enum(volumeUnitEnum.enumValues).openapi({ example: "L" }),
+});
+
+export type ResolvedUnits = z.infer<typeof zResolvedUnitsSchema>;
+
+/**
+ * Schema for the unit preferences response
+ */
+export const zUnitPreferencesResponseSchema = z.object({
+  preferences: zUnitPreferencesUpdateSchema,
+  units: zResolvedUnitsSchema,
+});
+
+export type UnitPreferencesResponse = z.infer<typeof zUnitPreferencesResponseSchema>;
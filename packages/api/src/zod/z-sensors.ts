@@ -0,0 +1,146 @@
+import { z } from "zod";
+import "zod-openapi/extend";
+
+import { anomalySeverityEnum, selectSensorAnomalySchema } from "../db/schema/sensor-anomalies-schema";
+
+// =============================================================================
+// Input Schemas - Used for validating request query parameters
+// =============================================================================
+
+// Largest bucket a sensor aggregation may use (one year)
+export const MAX_AGGREGATE_BUCKET_SECONDS = 366 * 86400;
+
+/**
+ * Schema for the length in seconds of an aggregation bucket
+ */
+export const zSensorAggregateBucketSecondsSchema = z
+  .number()
+  .int()
+  .positive()
+  .max(MAX_AGGREGATE_BUCKET_SECONDS, "Bucket must be at most 366d");
+
+/**
+ * Schema for the sensor aggregation query
+ */
+export const zSensorAggregateQuerySchema = z.object({
+  pids: z
+    .string()
+    .optional()
+    .transform(val => val ? val.split(",").map(pid => pid.trim().toUpperCase()).filter(Boolean) : [])
+    .openapi({ example: "0C,05" }),
+  bucket: z
+    .string()
+    // "auto" picks a bucket giving a chart-sized number of points over the range
+    .regex(/^(?:auto|[1-9]\d{0,7}[smhd])$/, "Bucket must look like 30s, 1m, 1h or 1d, or be auto")
+    .default("1m")
+    .openapi({ example: "1m" }),
+  from: z.string().datetime().optional().openapi({ example: "2024-01-15T10:00:00Z" }),
+  to: z.string().datetime().optional().openapi({ example: "2024-01-15T11:00:00Z" }),
+  diagnosticUUID: z.string().uuid().optional(),
+});
+
+export type SensorAggregateQuery = z.infer<typeof zSensorAggregateQuerySchema>;
+
+/**
+ * Schema for filtering the detected sensor anomalies
+ */
+export const zSensorAnomaliesQuerySchema = z.object({
+  diagnosticUUID: z.string().uuid().optional(),
+  pid: z.string().optional().transform(val => val?.trim().toUpperCase() || undefined).openapi({ example: "05" }),
+  severity: z.enum(anomalySeverityEnum.enumValues).optional().openapi({ example: "critical" }),
+  limit: z.coerce.number().int().min(1).max(200).default(50).openapi({ example: 50 }),
+});
+
+export type SensorAnomaliesQuery = z.infer<typeof zSensorAnomaliesQuerySchema>;
+
+// =============================================================================
+// Response Schemas
+// =============================================================================
+
+/**
+ * Schema for the statistics of a single PID within a single time bucket
+ */
+export const zSensorAggregateBucketSchema = z.object({
+  bucketStart: z.string().datetime().openapi({ example: "2024-01-15T10:30:00.000Z" }),
+  min: z.number().openapi({ example: 780 }),
+  max: z.number().openapi({ example: 3150 }),
+  avg: z.number().openapi({ example: 1820.5 }),
+  count: z.number().openapi({ example: 58 }),
+  last: z.number().openapi({ example: 2100 }),
+  lastTimestamp: z.string().datetime().openapi({ example: "2024-01-15T10:30:59.000Z" }),
+});
+
+export type SensorAggregateBucket = z.infer<typeof zSensorAggregateBucketSchema>;
+
+/**
+ * Schema for the aggregated series of a single PID
+ */
+export const zSensorAggregateSeriesSchema = z.object({
+  pid: z.string().openapi({ example: "0C" }),
+  unit: z.string().openapi({ example: "rpm" }),
+  buckets: z.array(zSensorAggregateBucketSchema),
+});
+
+export type SensorAggregateSeries = z.infer<typeof zSensorAggregateSeriesSchema>;
+
+/**
+ * Schema for the sensor aggregation response
+ */
+export const zSensorAggregateResponseSchema = z.object({
+  vehicleUUID: z.string().uuid(),
+  bucket: z.string().openapi({ example: "1m" }),
+  bucketSeconds: z.number().openapi({ example: 60 }),
+  from: z.string().datetime().openapi({ example: "2024-01-15T10:00:00.000Z" }),
+  to: z.string().datetime().openapi({ example: "2024-01-15T11:00:00.000Z" }),
+  series: z.array(zSensorAggregateSeriesSchema),
+});
+
+export type SensorAggregateResponse = z.infer<typeof zSensorAggregateResponseSchema>;
+
+/**
+ * Schema for a reading derived from the stored readings of a snapshot, such as
+ * the fuel rate estimated from the MAF air flow
+ */
+export const zDerivedSensorReadingSchema = z.object({
+  pid: z.string().openapi({ example: "FUEL_RATE" }),
+  value: z.number().openapi({ example: 6.8 }),
+  unit: z.string().openapi({ example: "L/h" }),
+  timestamp: z.string().datetime().openapi({ example: "2024-01-15T10:30:59.000Z" }),
+  source: z.enum(["fuel_rate", "maf"]).openapi({ example: "maf" }),
+});
+
+export type DerivedSensorReading = z.infer<typeof zDerivedSensorReadingSchema>;
+
+/**
+ * Schema for the fuel used over a diagnostic session. Distance and volumes
+ * follow the user's unit preferences, consumption is given in L/100 km and MPG.
+ */
+export const zFuelConsumptionSummarySchema = z.object({
+  diagnosticUUID: z.string().uuid(),
+  fuelKind: z.enum(["petrol", "diesel", "lpg"]).nullable().openapi({ example: "petrol" }),
+  source: z.enum(["fuel_rate", "maf", "mixed"]).nullable().openapi({ example: "maf" }),
+  sampleCount: z.number().int().openapi({ example: 412 }),
+  duration: z.number().openapi({ example: 1830 }),
+  distance: z.number().openapi({ example: 24.6 }),
+  fuelUsed: z.number().openapi({ example: 1.92 }),
+  idleFuelUsed: z.number().openapi({ example: 0.11 }),
+  averageFuelRate: z.number().nullable().openapi({ example: 3.78 }),
+  maxFuelRate: z.number().nullable().openapi({ example: 21.4 }),
+  averageConsumption: z.number().nullable().openapi({ example: 7.8 }),
+  averageMpg: z.number().nullable().openapi({ example: 30.2 }),
+  distanceUnit: z.enum(["km", "mi"]).openapi({ example: "km" }),
+  volumeUnit: z.enum(["L", "gal"]).openapi({ example: "L" }),
+});
+
+export type FuelConsumptionSummary = z.infer<typeof zFuelConsumptionSummarySchema>;
+
+/**
+ * Schema for a detected sensor anomaly, value and baseline converted to the user's preferred unit
+ */
+export const zSensorAnomalySchema = selectSensorAnomalySchema.extend({
+  name: z.string().openapi({ example: "Coolant Temperature" }),
+});
+
+export type SensorAnomaly = z.infer<typeof zSensorAnomalySchema>;
+
+export const zSensorAnomaliesListResponseSchema = z.array(zSensorAnomalySchema);
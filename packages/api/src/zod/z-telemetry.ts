@@ -0,0 +1,122 @@
+import { z } from "zod";
+import "zod-openapi/extend";
+
+import { selectSensorReadingSchema } from "../db/schema/sensor-readings-schema";
+import { sensorSourceEnum } from "../db/schema/sensor-snapshots-schema";
+import { zLocationWithUnitsSchema } from "./z-locations";
+
+// =============================================================================
+// Inbound Message Schemas - Sent by the Android app while a session is running
+// =============================================================================
+
+/**
+ * Schema for a single live sensor reading
+ */
+export const zTelemetryReadingSchema = z.object({
+  pid: z.string().openapi({ example: "0C" }),
+  value: z.number().openapi({ example: 2150 }),
+  unit: z.string().openapi({ example: "rpm" }),
+  timestamp: z.string().datetime().openapi({ example: "2024-01-15T10:30:00Z" }),
+});
+
+/**
+ * Schema for a single live GPS fix
+ */
+export const zTelemetryLocationSchema = z.object({
+  latitude: z.number().openapi({ example: 44.4268 }),
+  longitude: z.number().openapi({ example: 26.1025 }),
+  altitude: z.number().nullable().optional().openapi({ example: 82.5 }),
+  speed: z.number().nullable().optional().openapi({ example: 13.9 }),
+  accuracy: z.number().nullable().optional().openapi({ example: 4.2 }),
+  timestamp: z.string().datetime().openapi({ example: "2024-01-15T10:30:00Z" }),
+});
+
+/**
+ * Schema for messages accepted on the ingestion side of the telemetry channel.
+ * A "readings" message becomes one sensor snapshot, a "locations" message is
+ * stored as individual rows in the locations table.
+ */
+export const zTelemetryIngestMessageSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("readings"),
+    source: z.enum(sensorSourceEnum.enumValues).optional(),
+    readings: z.array(zTelemetryReadingSchema).min(1),
+  }),
+  z.object({
+    type: z.literal("locations"),
+    locations: z.array(zTelemetryLocationSchema).min(1),
+  }),
+]);
+
+export type TelemetryIngestMessage = z.infer<typeof zTelemetryIngestMessageSchema>;
+
+/**
+ * Schema for a cursor position: the server insertion time of the last item
+ * received and its uuid, as "<ISO timestamp>_<uuid>". A bare ISO timestamp
+ * starts after everything stored up to that time.
+ */
+export const zTelemetryCursorPositionSchema = z.string().regex(
+  /^[^_]+(?:_[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})?$/i,
+  "Invalid cursor",
+).refine(
+  position => !Number.isNaN(new Date(position.split("_")[0]).getTime()),
+  "Invalid cursor timestamp",
+).openapi({ example: "2024-01-15T10:30:01.123Z_123e4567-e89b-12d3-a456-426614174000" });
+
+/**
+ * Schema for the position a subscriber has already received up to. Readings
+ * (by snapshot) and locations are both tracked in server insertion order,
+ * each stream keeps its own cursor.
+ */
+export const zTelemetryCursorSchema = z.object({
+  readings: zTelemetryCursorPositionSchema,
+  locations: zTelemetryCursorPositionSchema,
+});
+
+export type TelemetryCursor = z.infer<typeof zTelemetryCursorSchema>;
+
+/**
+ * Schema for every message a WebSocket client may send
+ */
+export const zTelemetryClientMessageSchema = z.union([
+  zTelemetryIngestMessageSchema,
+  z.object({
+    type: z.literal("subscribe"),
+    cursor: zTelemetryCursorSchema.partial().optional(),
+  }),
+  z.object({
+    type: z.literal("ping"),
+  }),
+]);
+
+export type TelemetryClientMessage = z.infer<typeof zTelemetryClientMessageSchema>;
+
+// =============================================================================
+// Outbound Message Schemas - Pushed to subscribers (web dashboard)
+// =============================================================================
+
+/**
+ * Schema for a batch of new telemetry pushed to subscribers, expressed in the
+ * subscriber's preferred units
+ */
+export const zTelemetryUpdateSchema = z.object({
+  type: z.literal("telemetry"),
+  diagnosticUUID: z.string().uuid(),
+  cursor: zTelemetryCursorSchema,
+  readings: z.array(selectSensorReadingSchema),
+  locations: z.array(zLocationWithUnitsSchema),
+});
+
+export type TelemetryUpdate = z.infer<typeof zTelemetryUpdateSchema>;
+
+/**
+ * Schema for the HTTP ingestion fallback response
+ */
+export const zTelemetryIngestResponseSchema = z.object({
+  message: z.string().openapi({ example: "Telemetry stored successfully" }),
+  readingsCount: z.number().openapi({ example: 12 }),
+  locationsCount: z.number().openapi({ example: 0 }),
+  unresolvedPids: z.array(z.string()).openapi({ example: [] }),
+});
+
+export type TelemetryIngestResponse = z.infer<typeof zTelemetryIngestResponseSchema>;
@@ -0,0 +1,51 @@
+import { z } from "zod";
+import "zod-openapi/extend";
+
+import { selectTripSchema } from "../db/schema/trips-schema";
+import { zLocationWithUnitsSchema } from "./z-locations";
+
+// =============================================================================
+// Query Schemas - Used for validating request parameters
+// =============================================================================
+
+/**
+ * Schema for listing the trips of a vehicle, most recent first
+ */
+export const zTripsQuerySchema = z.object({
+  from: z.string().datetime().optional().openapi({ example: "2025-06-01T00:00:00.000Z" }),
+  to: z.string().datetime().optional().openapi({ example: "2025-06-30T23:59:59.000Z" }),
+  limit: z.coerce.number().int().min(1).max(200).default(50).openapi({ example: 50 }),
+});
+
+export type TripsQuery = z.infer<typeof zTripsQuerySchema>;
+
+// =============================================================================
+// Response Schemas - Used for validating and documenting responses
+// =============================================================================
+
+/**
+ * Schema for a detected trip. Distance and speeds are converted to the
+ * user's preferred units, duration and idle time are in seconds.
+ */
+export const zTripSchema = selectTripSchema.extend({
+  distance: z.number().openapi({ example: 12.4 }),
+  distanceUnit: z.enum(["km", "mi"]).openapi({ example: "km" }),
+  maxSpeed: z.number().openapi({ example: 87.5 }),
+  avgSpeed: z.number().openapi({ example: 34.2 }),
+  speedUnit: z.enum(["km/h", "mph"]).openapi({ example: "km/h" }),
+  duration: z.number().int().openapi({ example: 1305 }),
+  idleTime: z.number().int().openapi({ example: 140 }),
+});
+
+export type Trip = z.infer<typeof zTripSchema>;
+
+export const zTripsListResponseSchema = z.array(zTripSchema);
+
+/**
+ * Schema for a trip with the locations recorded along it
+ */
+export const zTripDetailResponseSchema = zTripSchema.extend({
+  locations: z.array(zLocationWithUnitsSchema),
+});
+
+export type TripDetailResponse = z.infer<typeof zTripDetailResponseSchema>;
@@ -0,0 +1,132 @@
+import { z } from "zod";
+import "zod-openapi/extend";
+
+import { selectVehicleDocumentSchema, vehicleDocumentTypeEnum } from "../db/schema/vehicle-documents-schema";
+
+// =============================================================================
+// Input Schemas - Used for validating request payloads
+// =============================================================================
+
+const zReminderLeadDaysSchema = z.array(z.number().int().min(1).max(365))
+  .max(5, "At most 5 reminder lead times are allowed")
+  .openapi({ example: [30, 7, 1] });
+
+/**
+ * Schema for adding a document to a vehicle. Documents without an expiry date,
+ * such as the registration certificate, are never reminded of.
+ */
+export const zVehicleDocumentCreateSchema = z.object({
+  type: z.enum(vehicleDocumentTypeEnum.enumValues).openapi({ example: "rca" }),
+  number: z.string().max(100).nullable().optional().openapi({ example: "RO/25/XY/123456789" }),
+  issuer: z.string().max(200).nullable().optional().openapi({ example: "Allianz-Tiriac" }),
+  validFrom: z.string().datetime().nullable().optional().openapi({ example: "2025-03-01T00:00:00.000Z" }),
+  validTo: z.string().datetime().nullable().optional().openapi({ example: "2026-02-28T23:59:59.000Z" }),
+  reminderLeadDays: zReminderLeadDaysSchema.default([30, 7, 1]),
+  notes: z.string().max(1000).nullable().optional(),
+}).refine(
+  data => !data.validFrom || !data.validTo || new Date(data.validFrom) <= new Date(data.validTo),
+  {
+    message: "validFrom must be before validTo",
+    path: ["validTo"],
+  },
+);
+
+export type VehicleDocumentCreate = z.infer<typeof zVehicleDocumentCreateSchema>;
+
+/**
+ * Schema for updating a document, only the given fields are changed. A new
+ * expiry date or new lead times restart the reminders.
+ */
+export const zVehicleDocumentUpdateSchema = z.object({
+  type: z.enum(vehicleDocumentTypeEnum.enumValues).optional().openapi({ example: "rca" }),
+  number: z.string().max(100).nullable().optional().openapi({ example: "RO/25/XY/123456789" }),
+  issuer: z.string().max(200).nullable().optional().openapi({ example: "Allianz-Tiriac" }),
+  validFrom: z.string().datetime().nullable().optional().openapi({ example: "2025-03-01T00:00:00.000Z" }),
+  validTo: z.string().datetime().nullable().optional().openapi({ example: "2026-02-28T23:59:59.000Z" }),
+  reminderLeadDays: zReminderLeadDaysSchema.optional(),
+  notes: z.string().max(1000).nullable().optional(),
+});
+
+export type VehicleDocumentUpdate = z.infer<typeof zVehicleDocumentUpdateSchema>;
+
+/**
+ * Schema for uploading the scan or photo of a document as multipart form data
+ */
+export const zVehicleDocumentFileUploadSchema = z.object({
+  file: z.instanceof(File).openapi({ type: "string", format: "binary" }),
+});
+
+// =============================================================================
+// Query Schemas - Used for validating request parameters
+// =============================================================================
+
+export const zVehicleDocumentParamSchema = z.object({
+  vehicleUUID: z.string().uuid(),
+  documentUUID: z.string().uuid(),
+});
+
+/**
+ * Schema for downloading the file of a document. Files are shown inline
+ * unless a download is asked for.
+ */
+export const zVehicleDocumentFileQuerySchema = z.object({
+  download: z.enum(["true", "false"])
+    .optional()
+    .default("false")
+    .transform(val => val === "true")
+    .pipe(z.boolean()),
+});
+
+// =============================================================================
+// Response Schemas - Used for validating and documenting responses
+// =============================================================================
+
+export const zVehicleDocumentStatusSchema = z.enum(["valid", "expiring", "expired", "no_expiry"]).openapi({ example: "expiring" });
+
+export type VehicleDocumentStatus = z.infer<typeof zVehicleDocumentStatusSchema>;
+
+/**
+ * Schema for a vehicle document. A document is expiring once its expiry date
+ * is within the longest reminder lead time.
+ */
+export const zVehicleDocumentSchema = selectVehicleDocumentSchema
+  .omit({ fileKey: true, fileName: true, fileContentType: true, fileSize: true, remindedLeadDays: true })
+  .extend({
+    status: zVehicleDocumentStatusSchema,
+    daysUntilExpiry: z.number().int().nullable().openapi({ example: 12 }),
+    file: z.object({
+      fileName: z.string().openapi({ example: "rca-2025.pdf" }),
+      contentType: z.string().openapi({ example: "application/pdf" }),
+      size: z.number().int().openapi({ example: 183412 }),
+    }).nullable(),
+  });
+
+export type VehicleDocument = z.infer<typeof zVehicleDocumentSchema>;
+
+export const zVehicleDocumentsListResponseSchema = z.array(zVehicleDocumentSchema);
+
+/**
+ * Schema for a document that needs attention, as shown on the dashboard
+ */
+export const zVehicleDocumentAlertSchema = z.object({
+  uuid: z.string().uuid(),
+  type: z.enum(vehicleDocumentTypeEnum.enumValues).openapi({ example: "itp" }),
+  validTo: z.string().datetime(),
+  daysUntilExpiry: z.number().int().openapi({ example: -3 }),
+});
+
+export type VehicleDocumentAlert = z.infer<typeof zVehicleDocumentAlertSchema>;
+
+/**
+ * Schema for the data payload of "document_expiry" notifications
+ */
+export const zDocumentExpiryNotificationDataSchema = z.object({
+  vehicleUUID: z.string().uuid(),
+  documentUUID: z.string().uuid(),
+  type: z.enum(vehicleDocumentTypeEnum.enumValues).openapi({ example: "rca" }),
+  validTo: z.string().datetime(),
+  // Lead time the reminder was sent at, 0 when the document expired
+  leadDays: z.number().int().openapi({ example: 7 }),
+});
+
+export type DocumentExpiryNotificationData = z.infer<typeof zDocumentExpiryNotificationDataSchema>;
@@ -0,0 +1,158 @@
+import { z } from "zod";
+import "zod-openapi/extend";
+
+import { serviceTypeEnum } from "../db/schema/maintenance-log-schema";
+import { selectServiceWorkshopSchema, WORKSHOP_DAYS } from "../db/schema/service-workshops-schema";
+import { distanceUnitEnum } from "../db/schema/user-preferences-schema";
+
+const zLatitude = z.number().min(-90).max(90);
+const zLongitude = z.number().min(-180).max(180);
+
+const zTimeOfDay = z.string().regex(/^(?:[01]\d|2[0-3]):[0-5]\d$|^24:00$/, "Times must be in HH:mm format");
+
+const zOperatingHoursIntervalSchema = z.object({
+  open: zTimeOfDay.openapi({ example: "08:00" }),
+  close: zTimeOfDay.openapi({ example: "18:00" }),
+}).refine(interval => interval.open < interval.close, {
+  message: "Opening time must be before closing time",
+  path: ["close"],
+});
+
+/**
+ * Schema for the weekly opening hours of a workshop. Each day holds its
+ * opening intervals, days left out are closed.
+ */
+export const zWorkshopOperatingHoursSchema = z.record(
+  z.enum(WORKSHOP_DAYS),
+  z.array(zOperatingHoursIntervalSchema).max(4),
+).openapi({
+  example: {
+    mon: [{ open: "08:00", close: "18:00" }],
+    sat: [{ open: "09:00", close: "13:00" }],
+  },
+});
+
+const zTimezone = z.string().refine((timezone) => {
+  try {
+    return Boolean(new Intl.DateTimeFormat("en-US", { timeZone: timezone }).resolvedOptions().timeZone);
+  }
+  catch {
+    return false;
+  }
+}, "Unknown time zone");
+
+// =============================================================================
+// Input Schemas - Used for validating request payloads
+// =============================================================================
+
+/**
+ * Schema for adding a workshop to the directory. Workshops with the same
+ * name close to an existing one are treated as the existing workshop.
+ */
+export const zWorkshopCreateSchema = z.object({
+  name: z.string().trim().min(1).max(200).openapi({ example: "Auto Service Pipera" }),
+  latitude: zLatitude.openapi({ example: 44.4268 }),
+  longitude: zLongitude.openapi({ example: 26.1025 }),
+  address: z.string().max(300).nullable().optional().openapi({ example: "Str. Exemplu 10, București" }),
+  servicesOffered: z.array(z.enum(serviceTypeEnum.enumValues)).default([]).openapi({ example: ["oil_change", "tire_rotation"] }),
+  phone: z.string().max(50).nullable().optional().openapi({ example: "+40 721 000 000" }),
+  email: z.string().email().nullable().optional().openapi({ example: "contact@example.ro" }),
+  website: z.string().url().nullable().optional().openapi({ example: "https://example.ro" }),
+  operatingHours: zWorkshopOperatingHoursSchema.nullable().optional(),
+  timezone: zTimezone.default("Europe/Bucharest").openapi({ example: "Europe/Bucharest" }),
+});
+
+export type WorkshopCreate = z.infer<typeof zWorkshopCreateSchema>;
+
+/**
+ * Schema for updating a workshop, only the given fields are changed. The
+ * location is moved as a whole, so latitude and longitude go together.
+ */
+export const zWorkshopUpdateSchema = z.object({
+  name: z.string().trim().min(1).max(200).optional().openapi({ example: "Auto Service Pipera" }),
+  latitude: zLatitude.optional().openapi({ example: 44.4268 }),
+  longitude: zLongitude.optional().openapi({ example: 26.1025 }),
+  address: z.string().max(300).nullable().optional().openapi({ example: "Str. Exemplu 10, București" }),
+  servicesOffered: z.array(z.enum(serviceTypeEnum.enumValues)).optional().openapi({ example: ["oil_change", "tire_rotation"] }),
+  phone: z.string().max(50).nullable().optional().openapi({ example: "+40 721 000 000" }),
+  email: z.string().email().nullable().optional().openapi({ example: "contact@example.ro" }),
+  website: z.string().url().nullable().optional().openapi({ example: "https://example.ro" }),
+  operatingHours: zWorkshopOperatingHoursSchema.nullable().optional(),
+  timezone: zTimezone.optional().openapi({ example: "Europe/Bucharest" }),
+}).refine(
+  data => (data.latitude === undefined) === (data.longitude === undefined),
+  {
+    message: "latitude and longitude must be provided together",
+    path: ["latitude"],
+  },
+);
+
+export type WorkshopUpdate = z.infer<typeof zWorkshopUpdateSchema>;
+
+// =============================================================================
+// Query Schemas - Used for validating request parameters
+// =============================================================================
+
+export const zWorkshopParamSchema = z.object({
+  workshopUUID: z.string().uuid(),
+});
+
+/**
+ * Schema for searching the directory. The search is centered on the given
+ * point, or on the last known location of the given vehicle. Without either,
+ * workshops are listed by name. The radius follows the user's preferred
+ * distance unit.
+ */
+export const zWorkshopSearchQuerySchema = z.object({
+  latitude: z.coerce.number().min(-90).max(90).optional().openapi({ example: 44.4268 }),
+  longitude: z.coerce.number().min(-180).max(180).optional().openapi({ example: 26.1025 }),
+  vehicleUUID: z.string().uuid().optional(),
+  radius: z.coerce.number().positive().max(200).default(25).openapi({ example: 25 }),
+  serviceType: z.enum(serviceTypeEnum.enumValues).optional().openapi({ example: "oil_change" }),
+  openNow: z.enum(["true", "false"])
+    .optional()
+    .default("false")
+    .transform(val => val === "true")
+    .pipe(z.boolean()),
+  q: z.string().trim().min(1).max(100).optional().openapi({ example: "pipera" }),
+  limit: z.coerce.number().int().min(1).max(100).default(50).openapi({ example: 50 }),
+}).refine(
+  data => (data.latitude === undefined) === (data.longitude === undefined),
+  {
+    message: "latitude and longitude must be provided together",
+    path: ["latitude"],
+  },
+);
+
+export type WorkshopSearchQuery = z.infer<typeof zWorkshopSearchQuerySchema>;
+
+// =============================================================================
+// Response Schemas - Used for validating and documenting responses
+// =============================================================================
+
+/**
+ * Schema for a workshop. isOpenNow is null when the opening hours are not
+ * known, distance is only set for searches around a point and follows the
+ * user's preferred distance unit.
+ */
+export const zWorkshopSchema = selectServiceWorkshopSchema.omit({ createdBy: true }).extend({
+  servicesOffered: z.array(z.enum(serviceTypeEnum.enumValues)).openapi({ example: ["oil_change", "tire_rotation"] }),
+  operatingHours: zWorkshopOperatingHoursSchema.nullable(),
+  isOpenNow: z.boolean().nullable().openapi({ example: true }),
+  distance: z.number().nullable().openapi({ example: 2.4 }),
+});
+
+export type Workshop = z.infer<typeof zWorkshopSchema>;
+
+export const zWorkshopSearchResponseSchema = z.object({
+  origin: z.object({
+    latitude: z.number().openapi({ example: 44.4268 }),
+    longitude: z.number().openapi({ example: 26.1025 }),
+    source: z.enum(["point", "vehicle"]).openapi({ example: "vehicle" }),
+  }).nullable(),
+  radius: z.number().nullable().openapi({ example: 25 }),
+  distanceUnit: z.enum(distanceUnitEnum.enumValues).openapi({ example: "km" }),
+  workshops: z.array(zWorkshopSchema),
+});
+
+export type WorkshopSearchResponse = z.infer<typeof zWorkshopSearchResponseSchema>;
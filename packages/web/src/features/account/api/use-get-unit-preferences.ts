@@ -0,0 +1,39 @@
+import { queryOptions, useQuery, useSuspenseQuery } from "@tanstack/react-query";
+
+import { api } from "@/lib/rpc";
+
+// Function to fetch the unit preferences of the current user
+export async function getUnitPreferencesQuery() {
+  const response = await api.preferences.units.$get();
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch unit preferences: ${response.statusText}`);
+  }
+
+  return response.json();
+}
+
+export function useGetUnitPreferences({ suspense = false }: { suspense?: boolean } = {}) {
+  if (suspense) {
+    return useSuspenseQuery({
+      queryKey: ["preferences", "units"],
+      queryFn: () => getUnitPreferencesQuery(),
+      staleTime: 1000 * 60 * 30, // 30 minutes
+    });
+  }
+  else {
+    return useQuery({
+      queryKey: ["preferences", "units"],
+      queryFn: () => getUnitPreferencesQuery(),
+      staleTime: 1000 * 60 * 30, // 30 minutes
+    });
+  }
+}
+
+export function getUnitPreferencesQueryOptions() {
+  return queryOptions({
+    queryKey: ["preferences", "units"],
+    queryFn: () => getUnitPreferencesQuery(),
+    staleTime: 1000 * 60 * 30, // 30 minutes
+  });
+}
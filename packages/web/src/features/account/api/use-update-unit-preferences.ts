@@ -0,0 +1,37 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+
+import { api } from "@/lib/rpc";
+
+import type { UnitPreferencesUpdate } from "../types";
+
+export function useUpdateUnitPreferences() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: UnitPreferencesUpdate) => {
+      const response = await api.preferences.units.$put({
+        json: data,
+      });
+
+      if (!response.ok) {
+        const error = await response.json() as { error?: string };
+        throw new Error(error.error || "Failed to update unit preferences");
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      // Sensor, location, dashboard and maintenance data is converted on the
+      // server, so everything cached was expressed in the previous units
+      queryClient.invalidateQueries();
+
+      toast.success("Unit preferences updated");
+    },
+    onError: (error: Error) => {
+      toast.error("Failed to update unit preferences", {
+        description: error.message,
+      });
+    },
+  });
+}
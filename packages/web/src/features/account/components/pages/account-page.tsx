@@ -8,6 +8,7 @@ import type { UserProfile } from "../../types";
 import { pageVariants, staggerContainer } from "../../utils/animation-variants";
 import { generateProfileStats } from "../../utils/profile-utils";
 import { ProfileForm } from "../forms/profile-form";
+import { UnitPreferencesCard } from "../preferences/unit-preferences-card";
 import { ProfileStats } from "../stats/profile-stats";
 
 export function AccountPage() {
@@ -83,6 +84,11 @@ export function AccountPage() {
         <div className="lg:order-2 h-full">
           <ProfileStats stats={profileStats} />
         </div>
+
+        {/* Unit Preferences */}
+        <div className="lg:order-3 lg:col-span-2">
+          <UnitPreferencesCard />
+        </div>
       </motion.div>
     </motion.div>
   );
@@ -0,0 +1,112 @@
+import { Ruler } from "lucide-react";
+import { useEffect, useState } from "react";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+
+import type { ResolvedUnits, UnitPreferencesUpdate } from "../../types";
+
+import { useGetUnitPreferences } from "../../api/use-get-unit-preferences";
+import { useUpdateUnitPreferences } from "../../api/use-update-unit-preferences";
+
+type UnitField = Exclude<keyof UnitPreferencesUpdate, "unitSystem">;
+
+const UNIT_FIELDS: { field: UnitField; quantity: Exclude<keyof ResolvedUnits, "unitSystem">; label: string; options: string[] }[] = [
+  { field: "distanceUnit", quantity: "distance", label: "Distance", options: ["km", "mi"] },
+  { field: "speedUnit", quantity: "speed", label: "Speed", options: ["km/h", "mph"] },
+  { field: "temperatureUnit", quantity: "temperature", label: "Temperature", options: ["°C", "°F"] },
+  { field: "pressureUnit", quantity: "pressure", label: "Pressure", options: ["kPa", "psi", "bar"] },
+  { field: "volumeUnit", quantity: "volume", label: "Volume", options: ["L", "gal"] },
+];
+
+export function UnitPreferencesCard() {
+  const { data, isLoading } = useGetUnitPreferences();
+  const updateUnitPreferences = useUpdateUnitPreferences();
+
+  const [draft, setDraft] = useState<UnitPreferencesUpdate>({ unitSystem: "metric" });
+
+  useEffect(() => {
+    if (data) {
+      setDraft(data.preferences);
+    }
+  }, [data]);
+
+  const handleSave = () => {
+    updateUnitPreferences.mutate(draft);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Ruler className="h-5 w-5" />
+          Units
+        </CardTitle>
+        <CardDescription>
+          Sensor readings, locations, odometers and costs are shown in these units
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading || !data
+          ? (
+              <div className="space-y-3">
+                <Skeleton className="h-9 w-full" />
+                <Skeleton className="h-9 w-1/2" />
+              </div>
+            )
+          : (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="unitSystem">Unit system</Label>
+                  <Select
+                    value={draft.unitSystem}
+                    onValueChange={value => setDraft(previous => ({ ...previous, unitSystem: value as UnitPreferencesUpdate["unitSystem"] }))}
+                  >
+                    <SelectTrigger id="unitSystem" className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="metric">Metric</SelectItem>
+                      <SelectItem value="imperial">Imperial</SelectItem>
+                      <SelectItem value="mixed">Custom</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {draft.unitSystem === "mixed" && (
+                  <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                    {UNIT_FIELDS.map(({ field, quantity, label, options }) => (
+                      <div key={field} className="space-y-2">
+                        <Label htmlFor={field}>{label}</Label>
+                        <Select
+                          value={draft[field] ?? data.units[quantity]}
+                          onValueChange={value => setDraft(previous => ({ ...previous, [field]: value }))}
+                        >
+                          <SelectTrigger id={field} className="w-full">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {options.map(option => (
+                              <SelectItem key={option} value={option}>{option}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                <div className="flex justify-end">
+                  <Button onClick={handleSave} disabled={updateUnitPreferences.isPending}>
+                    {updateUnitPreferences.isPending ? "Saving..." : "Save units"}
+                  </Button>
+                </div>
+              </>
+            )}
+      </CardContent>
+    </Card>
+  );
+}
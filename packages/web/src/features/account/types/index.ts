@@ -1,3 +1,5 @@
+export type { ResolvedUnits, UnitPreferencesResponse, UnitPreferencesUpdate } from "@/api/zod/z-preferences";
+
 export type UserProfile = {
   id: string;
   name: string;
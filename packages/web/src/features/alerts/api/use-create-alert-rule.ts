@@ -0,0 +1,36 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+
+import { api } from "@/lib/rpc";
+
+import type { AlertRuleCreate } from "../types";
+
+export function useCreateAlertRule(vehicleId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: AlertRuleCreate) => {
+      const response = await api.vehicles[":vehicleUUID"]["alert-rules"].$post({
+        param: { vehicleUUID: vehicleId },
+        json: data,
+      });
+
+      if (!response.ok) {
+        const error = await response.json() as { error?: string };
+        throw new Error(error.error || "Failed to create alert rule");
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["vehicles", vehicleId, "alert-rules"] });
+
+      toast.success("Alert rule created");
+    },
+    onError: (error: Error) => {
+      toast.error("Failed to create alert rule", {
+        description: error.message,
+      });
+    },
+  });
+}
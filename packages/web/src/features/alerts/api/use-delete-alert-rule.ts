@@ -0,0 +1,31 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+
+import { api } from "@/lib/rpc";
+
+export function useDeleteAlertRule(vehicleId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (alertRuleUUID: string) => {
+      const response = await api.vehicles[":vehicleUUID"]["alert-rules"][":alertRuleUUID"].$delete({
+        param: { vehicleUUID: vehicleId, alertRuleUUID },
+      });
+
+      if (!response.ok) {
+        const error = await response.json() as { error?: string };
+        throw new Error(error.error || "Failed to delete alert rule");
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["vehicles", vehicleId, "alert-rules"] });
+
+      toast.success("Alert rule deleted");
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to delete alert rule");
+    },
+  });
+}
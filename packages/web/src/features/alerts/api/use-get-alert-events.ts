@@ -0,0 +1,49 @@
+import { queryOptions, useQuery, useSuspenseQuery } from "@tanstack/react-query";
+
+import { api } from "@/lib/rpc";
+
+// Function to fetch the fired alert history of a vehicle
+export async function getAlertEventsQuery(vehicleId: string, alertRuleUUID?: string) {
+  const response = await api.vehicles[":vehicleUUID"]["alert-rules"].events.$get({
+    param: { vehicleUUID: vehicleId },
+    query: {
+      ...(alertRuleUUID ? { alertRuleUUID } : {}),
+    },
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch alert history: ${response.statusText}`);
+  }
+
+  return response.json();
+}
+
+export function useGetAlertEvents({
+  vehicleId,
+  alertRuleUUID,
+  suspense = false,
+}: {
+  vehicleId: string;
+  alertRuleUUID?: string;
+  suspense?: boolean;
+}) {
+  if (suspense) {
+    return useSuspenseQuery({
+      queryKey: ["vehicles", vehicleId, "alert-rules", "events", alertRuleUUID],
+      queryFn: () => getAlertEventsQuery(vehicleId, alertRuleUUID),
+    });
+  }
+  else {
+    return useQuery({
+      queryKey: ["vehicles", vehicleId, "alert-rules", "events", alertRuleUUID],
+      queryFn: () => getAlertEventsQuery(vehicleId, alertRuleUUID),
+    });
+  }
+}
+
+export function getAlertEventsQueryOptions(vehicleId: string, alertRuleUUID?: string) {
+  return queryOptions({
+    queryKey: ["vehicles", vehicleId, "alert-rules", "events", alertRuleUUID],
+    queryFn: () => getAlertEventsQuery(vehicleId, alertRuleUUID),
+  });
+}
@@ -0,0 +1,38 @@
+import { queryOptions, useQuery, useSuspenseQuery } from "@tanstack/react-query";
+
+import { api } from "@/lib/rpc";
+
+// Function to fetch the alert rules of a vehicle
+export async function getAlertRulesQuery(vehicleId: string) {
+  const response = await api.vehicles[":vehicleUUID"]["alert-rules"].$get({
+    param: { vehicleUUID: vehicleId },
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch alert rules: ${response.statusText}`);
+  }
+
+  return response.json();
+}
+
+export function useGetAlertRules({ vehicleId, suspense = false }: { vehicleId: string; suspense?: boolean }) {
+  if (suspense) {
+    return useSuspenseQuery({
+      queryKey: ["vehicles", vehicleId, "alert-rules"],
+      queryFn: () => getAlertRulesQuery(vehicleId),
+    });
+  }
+  else {
+    return useQuery({
+      queryKey: ["vehicles", vehicleId, "alert-rules"],
+      queryFn: () => getAlertRulesQuery(vehicleId),
+    });
+  }
+}
+
+export function getAlertRulesQueryOptions(vehicleId: string) {
+  return queryOptions({
+    queryKey: ["vehicles", vehicleId, "alert-rules"],
+    queryFn: () => getAlertRulesQuery(vehicleId),
+  });
+}
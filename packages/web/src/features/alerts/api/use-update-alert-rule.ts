@@ -0,0 +1,34 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+
+import { api } from "@/lib/rpc";
+
+import type { AlertRuleUpdate } from "../types";
+
+export function useUpdateAlertRule(vehicleId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ alertRuleUUID, data }: { alertRuleUUID: string; data: AlertRuleUpdate }) => {
+      const response = await api.vehicles[":vehicleUUID"]["alert-rules"][":alertRuleUUID"].$patch({
+        param: { vehicleUUID: vehicleId, alertRuleUUID },
+        json: data,
+      });
+
+      if (!response.ok) {
+        const error = await response.json() as { error?: string };
+        throw new Error(error.error || "Failed to update alert rule");
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["vehicles", vehicleId, "alert-rules"] });
+    },
+    onError: (error: Error) => {
+      toast.error("Failed to update alert rule", {
+        description: error.message,
+      });
+    },
+  });
+}
@@ -0,0 +1,206 @@
+import { PlusIcon } from "lucide-react";
+import { useState } from "react";
+
+import type { ResolvedUnits } from "@/features/account/types";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useGetUnitPreferences } from "@/features/account/api/use-get-unit-preferences";
+import { useGetPidRegistry } from "@/features/sensors/api/use-get-pid-registry";
+
+import type { AlertOperator } from "../types";
+
+import { useCreateAlertRule } from "../api/use-create-alert-rule";
+import { ALERT_OPERATOR_LABELS } from "../types";
+
+/**
+ * Registry units are canonical, thresholds are entered in the unit the user
+ * reads the sensor in
+ */
+function getPreferredUnit(unit: string, units?: ResolvedUnits) {
+  const preferred: Record<string, string | undefined> = {
+    "km": units?.distance,
+    "km/h": units?.speed,
+    "°C": units?.temperature,
+    "kPa": units?.pressure,
+    "L": units?.volume,
+  };
+  return preferred[unit] ?? unit;
+}
+
+type AddAlertRuleDialogProps = {
+  vehicleId: string;
+};
+
+const INITIAL_STATE = {
+  name: "",
+  pid: "",
+  operator: "gt" as AlertOperator,
+  threshold: "",
+  durationSeconds: "0",
+  cooldownSeconds: "300",
+};
+
+export function AddAlertRuleDialog({ vehicleId }: AddAlertRuleDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [form, setForm] = useState(INITIAL_STATE);
+  const { data: pidRegistry } = useGetPidRegistry();
+  const { data: unitPreferences } = useGetUnitPreferences();
+  const createAlertRule = useCreateAlertRule(vehicleId);
+
+  // Only PIDs with a numeric range make sense as alert conditions, and derived series are never ingested
+  const pidOptions = (pidRegistry ?? []).filter(entry => entry.unit !== "" && !entry.derived);
+  const selectedPid = pidOptions.find(entry => entry.pid === form.pid);
+  const thresholdUnit = selectedPid ? getPreferredUnit(selectedPid.unit, unitPreferences?.units) : "";
+
+  const threshold = Number.parseFloat(form.threshold);
+  const isValid = form.name.trim() !== "" && selectedPid !== undefined && !Number.isNaN(threshold);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!isValid)
+      return;
+
+    try {
+      await createAlertRule.mutateAsync({
+        name: form.name.trim(),
+        pid: form.pid,
+        operator: form.operator,
+        threshold,
+        durationSeconds: Number.parseInt(form.durationSeconds, 10) || 0,
+        cooldownSeconds: Number.parseInt(form.cooldownSeconds, 10) || 0,
+        enabled: true,
+      });
+      setForm(INITIAL_STATE);
+      setOpen(false);
+    }
+    catch {
+      // Error is handled by the mutation's onError callback
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button>
+          <PlusIcon className="h-4 w-4" />
+          Add Alert Rule
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Add Alert Rule</DialogTitle>
+          <DialogDescription>
+            Get notified when a sensor reading crosses a threshold while the vehicle is being monitored.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="alert-name">Name</Label>
+            <Input
+              id="alert-name"
+              placeholder="Engine overheating"
+              value={form.name}
+              onChange={e => setForm(previous => ({ ...previous, name: e.target.value }))}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="alert-pid">Sensor</Label>
+            <Select value={form.pid} onValueChange={value => setForm(previous => ({ ...previous, pid: value }))}>
+              <SelectTrigger id="alert-pid" className="w-full">
+                <SelectValue placeholder="Select a sensor" />
+              </SelectTrigger>
+              <SelectContent>
+                {pidOptions.map(entry => (
+                  <SelectItem key={entry.pid} value={entry.pid}>
+                    {entry.name}
+                    {" "}
+                    <span className="font-mono text-muted-foreground">
+                      (
+                      {entry.pid}
+                      )
+                    </span>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="alert-operator">Condition</Label>
+              <Select
+                value={form.operator}
+                onValueChange={value => setForm(previous => ({ ...previous, operator: value as AlertOperator }))}
+              >
+                <SelectTrigger id="alert-operator" className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(ALERT_OPERATOR_LABELS) as AlertOperator[]).map(operator => (
+                    <SelectItem key={operator} value={operator}>{ALERT_OPERATOR_LABELS[operator]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="alert-threshold">
+                Threshold
+                {thresholdUnit ? ` (${thresholdUnit})` : ""}
+              </Label>
+              <Input
+                id="alert-threshold"
+                type="number"
+                inputMode="decimal"
+                step="any"
+                value={form.threshold}
+                onChange={e => setForm(previous => ({ ...previous, threshold: e.target.value }))}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="alert-duration">Sustained for (seconds)</Label>
+              <Input
+                id="alert-duration"
+                type="number"
+                min={0}
+                value={form.durationSeconds}
+                onChange={e => setForm(previous => ({ ...previous, durationSeconds: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="alert-cooldown">Cooldown (seconds)</Label>
+              <Input
+                id="alert-cooldown"
+                type="number"
+                min={0}
+                value={form.cooldownSeconds}
+                onChange={e => setForm(previous => ({ ...previous, cooldownSeconds: e.target.value }))}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button type="submit" disabled={!isValid || createAlertRule.isPending}>
+              {createAlertRule.isPending ? "Creating..." : "Create Rule"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,74 @@
+import { format } from "date-fns";
+import { HistoryIcon } from "lucide-react";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+
+import { useGetAlertEvents } from "../api/use-get-alert-events";
+import { ALERT_OPERATOR_SYMBOLS } from "../types";
+
+type AlertHistorySectionProps = {
+  vehicleId: string;
+};
+
+export function AlertHistorySection({ vehicleId }: AlertHistorySectionProps) {
+  const { data: events, isLoading } = useGetAlertEvents({ vehicleId });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <HistoryIcon className="h-5 w-5" />
+          Fired Alerts
+        </CardTitle>
+        <CardDescription>
+          The most recent alerts raised by your rules
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading
+          ? (
+              <div className="space-y-2">
+                <Skeleton className="h-10 w-full" />
+                <Skeleton className="h-10 w-full" />
+                <Skeleton className="h-10 w-full" />
+              </div>
+            )
+          : events && events.length > 0
+            ? (
+                <ul className="divide-y">
+                  {events.map(event => (
+                    <li key={event.uuid} className="flex items-center justify-between gap-4 py-3 text-sm">
+                      <div className="min-w-0">
+                        <p className="font-medium truncate">{event.ruleName}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {format(new Date(event.firedAt), "PPp")}
+                        </p>
+                      </div>
+                      <div className="shrink-0 text-right">
+                        <p className="font-mono font-medium text-destructive">
+                          {Math.round(event.value * 10) / 10}
+                          {" "}
+                          {event.unit}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {ALERT_OPERATOR_SYMBOLS[event.operator]}
+                          {" "}
+                          {Math.round(event.threshold * 10) / 10}
+                          {" "}
+                          {event.unit}
+                        </p>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )
+            : (
+                <p className="py-6 text-center text-sm text-muted-foreground">
+                  No alerts have fired for this vehicle.
+                </p>
+              )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,73 @@
+import { formatDistanceToNow } from "date-fns";
+import { BellRingIcon, TrashIcon } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Switch } from "@/components/ui/switch";
+import { cn } from "@/lib/utils";
+
+import type { AlertRule } from "../types";
+
+import { useDeleteAlertRule } from "../api/use-delete-alert-rule";
+import { useUpdateAlertRule } from "../api/use-update-alert-rule";
+import { ALERT_OPERATOR_LABELS } from "../types";
+
+type AlertRuleCardProps = {
+  vehicleId: string;
+  rule: AlertRule;
+  pidName?: string;
+};
+
+export function AlertRuleCard({ vehicleId, rule, pidName }: AlertRuleCardProps) {
+  const updateAlertRule = useUpdateAlertRule(vehicleId);
+  const deleteAlertRule = useDeleteAlertRule(vehicleId);
+
+  return (
+    <Card className={cn("transition-opacity", !rule.enabled && "opacity-60")}>
+      <CardContent className="flex items-start justify-between gap-4 p-4">
+        <div className="flex items-start gap-3 min-w-0">
+          <div className="flex h-9 w-9 shrink-0 items-center justify-center rounded-lg bg-primary/10">
+            <BellRingIcon className="h-4 w-4 text-primary" />
+          </div>
+          <div className="min-w-0 space-y-1">
+            <h4 className="font-medium truncate">{rule.name}</h4>
+            <p className="text-sm text-muted-foreground">
+              {pidName ?? `PID ${rule.pid}`}
+              {" "}
+              {ALERT_OPERATOR_LABELS[rule.operator]}
+              {" "}
+              <span className="font-medium text-foreground">
+                {Math.round(rule.threshold * 10) / 10}
+                {" "}
+                {rule.unit}
+              </span>
+              {rule.durationSeconds > 0 && ` for ${rule.durationSeconds}s`}
+            </p>
+            <p className="text-xs text-muted-foreground">
+              {rule.lastFiredAt
+                ? `Last fired ${formatDistanceToNow(new Date(rule.lastFiredAt), { addSuffix: true })}`
+                : "Never fired"}
+            </p>
+          </div>
+        </div>
+        <div className="flex shrink-0 items-center gap-2">
+          <Switch
+            checked={rule.enabled}
+            disabled={updateAlertRule.isPending}
+            onCheckedChange={enabled => updateAlertRule.mutate({ alertRuleUUID: rule.uuid, data: { enabled } })}
+            aria-label={rule.enabled ? "Disable alert rule" : "Enable alert rule"}
+          />
+          <Button
+            variant="ghost"
+            size="icon"
+            disabled={deleteAlertRule.isPending}
+            onClick={() => deleteAlertRule.mutate(rule.uuid)}
+            aria-label="Delete alert rule"
+          >
+            <TrashIcon className="h-4 w-4 text-destructive" />
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,60 @@
+import { BellIcon } from "lucide-react";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useGetPidRegistry } from "@/features/sensors/api/use-get-pid-registry";
+
+import { useGetAlertRules } from "../api/use-get-alert-rules";
+import { AddAlertRuleDialog } from "./add-alert-rule-dialog";
+import { AlertRuleCard } from "./alert-rule-card";
+
+type AlertRulesSectionProps = {
+  vehicleId: string;
+};
+
+export function AlertRulesSection({ vehicleId }: AlertRulesSectionProps) {
+  const { data: rules, isLoading } = useGetAlertRules({ vehicleId });
+  const { data: pidRegistry } = useGetPidRegistry();
+
+  const pidNames = new Map((pidRegistry ?? []).map(entry => [entry.pid, entry.name]));
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div className="space-y-1">
+          <CardTitle className="flex items-center gap-2">
+            <BellIcon className="h-5 w-5" />
+            Alert Rules
+          </CardTitle>
+          <CardDescription>
+            Rules are checked every time sensor readings are uploaded for this vehicle
+          </CardDescription>
+        </div>
+        <AddAlertRuleDialog vehicleId={vehicleId} />
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading
+          ? (
+              <>
+                <Skeleton className="h-20 w-full" />
+                <Skeleton className="h-20 w-full" />
+              </>
+            )
+          : rules && rules.length > 0
+            ? rules.map(rule => (
+                <AlertRuleCard
+                  key={rule.uuid}
+                  vehicleId={vehicleId}
+                  rule={rule}
+                  pidName={pidNames.get(rule.pid)}
+                />
+              ))
+            : (
+                <p className="py-6 text-center text-sm text-muted-foreground">
+                  No alert rules yet. Add one to get notified about abnormal sensor readings.
+                </p>
+              )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,29 @@
+import type { AlertEvent as AlertEventResponse, AlertRuleCreate, AlertRule as AlertRuleResponse, AlertRuleUpdate } from "@/api/zod/z-alert-rules";
+
+export type { AlertRuleCreate, AlertRuleUpdate };
+
+export type AlertRule = Omit<AlertRuleResponse, "createdAt" | "updatedAt" | "lastFiredAt"> & {
+  createdAt: string;
+  updatedAt: string;
+  lastFiredAt: string | null;
+};
+
+export type AlertEvent = Omit<AlertEventResponse, "firedAt"> & {
+  firedAt: string;
+};
+
+export type AlertOperator = AlertRule["operator"];
+
+export const ALERT_OPERATOR_LABELS: Record<AlertOperator, string> = {
+  gt: "above",
+  gte: "at or above",
+  lt: "below",
+  lte: "at or below",
+};
+
+export const ALERT_OPERATOR_SYMBOLS: Record<AlertOperator, string> = {
+  gt: ">",
+  gte: "≥",
+  lt: "<",
+  lte: "≤",
+};
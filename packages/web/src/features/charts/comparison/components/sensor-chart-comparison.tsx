@@ -2,14 +2,14 @@ import { useParams } from "@tanstack/react-router";
 import { parseAsString, useQueryState } from "nuqs";
 import { useMemo, useState } from "react";
 
-import type { ChartType, Sensor, SensorData } from "@/features/charts/types";
+import type { ChartType, Sensor, SensorChartData } from "@/features/charts/types";
 
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { ChartControls } from "@/features/charts/components/chart-controls";
 import { FullScreenChartDialog } from "@/features/charts/components/full-screen-chart-dialog";
 import { useChartPreferences } from "@/features/charts/overview/hooks/use-chart-preferences";
 import { colorThemes } from "@/features/charts/utils/color-themes";
-import { useGetVehicleSensorData } from "@/features/sensors/api/use-get-vehicle-sensor-data";
+import { useGetDiagnosticSensorChartData } from "@/features/sensors/api/use-get-vehicle-sensor-aggregates";
 import { SensorSelector } from "@/features/sensors/playback/components/sensor-selector";
 import { useGetVehicleDiagnostics } from "@/features/vehicles/api/use-get-vehicle-diagnostics";
 
@@ -98,25 +98,25 @@ export function SensorChartComparison({ isLoading: initialLoading }: { isLoading
   const secondSessionId = selectedSessions[1] || null;
   const thirdSessionId = selectedSessions[2] || null;
 
-  // Fetch data for each selected session
+  // Fetch data for each selected session, bucketed to chart resolution by the API
   const {
     data: firstSessionData,
     isLoading: isLoadingFirstSession,
-  } = useGetVehicleSensorData({ vehicleId, filter: { diagnosticId: firstSessionId || undefined } });
+  } = useGetDiagnosticSensorChartData({ vehicleId, diagnosticId: firstSessionId });
 
   const {
     data: secondSessionData,
     isLoading: isLoadingSecondSession,
-  } = useGetVehicleSensorData({ vehicleId, filter: { diagnosticId: secondSessionId || undefined } });
+  } = useGetDiagnosticSensorChartData({ vehicleId, diagnosticId: secondSessionId });
 
   const {
     data: thirdSessionData,
     isLoading: isLoadingThirdSession,
-  } = useGetVehicleSensorData({ vehicleId, filter: { diagnosticId: thirdSessionId || undefined } });
+  } = useGetDiagnosticSensorChartData({ vehicleId, diagnosticId: thirdSessionId });
 
   // Combine all session data into a single object
   const sessionDataMap = useMemo(() => {
-    const result: Record<string, SensorData | undefined> = {};
+    const result: Record<string, SensorChartData | undefined> = {};
 
     if (firstSessionId && firstSessionData) {
       result[firstSessionId] = firstSessionData;
@@ -1,4 +1,4 @@
-import type { NormalizedDataPoint, Sensor, SensorData } from "@/features/charts/types";
+import type { NormalizedDataPoint, Sensor, SensorChartData } from "@/features/charts/types";
 
 /**
  * Normalizes data points across multiple diagnostic sessions for comparison
@@ -7,7 +7,7 @@ import type { NormalizedDataPoint, Sensor, SensorData } from "@/features/charts/
  */
 export function generateComparisonChartData(
   sensorId: string,
-  sessionData: Record<string, SensorData | undefined>,
+  sessionData: Record<string, SensorChartData | undefined>,
   sessionLabels: Record<string, string>,
   colors: string[],
 ) {
@@ -49,9 +49,6 @@ export function SensorChartOverview({ data, isLoading }: SensorChartOverviewProp
     chartData: [],
   });
 
-  // Get the current selected diagnostic ID
-  const selectedDiagnosticId = data?.diagnostics[0].uuid;
-
   // Filter sensors based on active filters
   const filteredSensors = useMemo(() => {
     if (!data?.sensors || data.sensors.length === 0) {
@@ -76,7 +73,7 @@ export function SensorChartOverview({ data, isLoading }: SensorChartOverviewProp
   }, [data, selectedCategories, searchTerm, showFavoritesOnly, isFavorite]);
 
   // Preprocess all chart data at once to avoid useMemo in the mapping function
-  // Regenerate when diagnostic changes
+  // Regenerate when the sensors change with the diagnostic
   const allChartData = useMemo(() => {
     if (!data?.sensors) {
       return {};
@@ -89,7 +86,7 @@ export function SensorChartOverview({ data, isLoading }: SensorChartOverviewProp
       result[sensor.pid] = [...chartData];
     });
     return result;
-  }, [data?.sensors, selectedDiagnosticId]);
+  }, [data?.sensors]);
 
   // Reset all filters
   const resetFilters = useCallback(() => {
@@ -6,13 +6,13 @@ export type DiagnosticSession = {
   notes?: string | null;
 };
 
-// Sensor Reading Interface
+// Sensor Reading Interface, aggregated readings are one per bucket and belong to no snapshot
 export type SensorReading = {
   value: number;
   timestamp: string;
   diagnosticUUID: string;
-  snapshotUUID: string;
-  odometer: number;
+  snapshotUUID?: string;
+  odometer?: number;
 };
 
 // Sensor Interface
@@ -57,6 +57,13 @@ export type SensorData = {
   };
 };
 
+// Sensors of a diagnostic session aggregated by the server, one reading per time bucket
+export type SensorChartData = {
+  sensors: Sensor[];
+  categories: CategoryRecord;
+  bucket: string;
+};
+
 // Sensor Chart Card Props Interface
 export type SensorChartCardProps = {
   sensor: Sensor;
@@ -157,7 +164,7 @@ export type ChartConfig = {
 
 // Sensor Chart Overview Props Interface
 export type SensorChartOverviewProps = {
-  data: SensorData | undefined;
+  data: SensorChartData | undefined;
   isLoading: boolean;
 };
 
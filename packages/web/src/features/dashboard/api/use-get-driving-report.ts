@@ -0,0 +1,30 @@
+import { useQuery } from "@tanstack/react-query";
+
+import { api } from "@/lib/rpc";
+
+import type { DrivingReport } from "../types";
+
+type UseGetDrivingReportProps = {
+  vehicleUUID: string;
+  months?: number;
+};
+
+export function useGetDrivingReport({ vehicleUUID, months = 6 }: UseGetDrivingReportProps) {
+  return useQuery({
+    queryKey: ["vehicles", vehicleUUID, "driving", months],
+    queryFn: async (): Promise<DrivingReport> => {
+      const response = await api.vehicles[":vehicleUUID"].driving.$get({
+        param: { vehicleUUID },
+        query: { months: String(months) },
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to fetch driving report");
+      }
+
+      return await response.json();
+    },
+    enabled: !!vehicleUUID,
+    staleTime: 1000 * 60 * 5, // 5 minutes
+  });
+}
@@ -0,0 +1,29 @@
+import { useQuery } from "@tanstack/react-query";
+
+import { api } from "@/lib/rpc";
+
+import type { DrivingSessionDetail } from "../types";
+
+type UseGetDrivingSessionProps = {
+  vehicleUUID: string;
+  diagnosticUUID: string | null;
+};
+
+export function useGetDrivingSession({ vehicleUUID, diagnosticUUID }: UseGetDrivingSessionProps) {
+  return useQuery({
+    queryKey: ["vehicles", vehicleUUID, "driving", "sessions", diagnosticUUID],
+    queryFn: async (): Promise<DrivingSessionDetail> => {
+      const response = await api.vehicles[":vehicleUUID"].driving.sessions[":diagnosticUUID"].$get({
+        param: { vehicleUUID, diagnosticUUID: diagnosticUUID! },
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to fetch driving session");
+      }
+
+      return await response.json();
+    },
+    enabled: !!vehicleUUID && !!diagnosticUUID,
+    staleTime: 1000 * 60 * 5, // 5 minutes
+  });
+}
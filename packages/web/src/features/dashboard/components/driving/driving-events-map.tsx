@@ -0,0 +1,79 @@
+import "@/styles/leaflet.css";
+
+import { format } from "date-fns";
+import { MapPin } from "lucide-react";
+import { useEffect, useState } from "react";
+import { CircleMarker, MapContainer, TileLayer, Tooltip } from "react-leaflet";
+
+import type { DrivingEvent } from "../../types";
+
+import { formatDrivingEventValue, getDrivingEventColor, getDrivingEventLabel } from "../../utils/driving-utils";
+
+type DrivingEventsMapProps = {
+  events: DrivingEvent[];
+  speedUnit: string;
+  className?: string;
+};
+
+export function DrivingEventsMap({ events, speedUnit, className = "h-[320px] w-full" }: DrivingEventsMapProps) {
+  const [isMounted, setIsMounted] = useState(false);
+
+  useEffect(() => {
+    setIsMounted(true);
+  }, []);
+
+  const locatedEvents = events.filter(event => event.latitude !== null && event.longitude !== null);
+
+  if (!isMounted || locatedEvents.length === 0) {
+    return (
+      <div className={`flex items-center justify-center bg-muted/20 p-6 text-center rounded-md ${className}`}>
+        <div>
+          <MapPin className="mx-auto mb-2 h-10 w-10 text-muted-foreground opacity-50" />
+          <p className="text-sm text-muted-foreground">
+            {isMounted ? "No driving events with a location in this session" : "Loading map..."}
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  const bounds = locatedEvents.map(event => [event.latitude!, event.longitude!] as [number, number]);
+
+  return (
+    <div className={`overflow-hidden rounded-md ${className}`}>
+      <MapContainer
+        bounds={bounds}
+        boundsOptions={{ padding: [30, 30], maxZoom: 16 }}
+        scrollWheelZoom={true}
+        className="map-monochrome"
+      >
+        <TileLayer
+          attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> | &copy; <a href="https://cartodb.com/attributions">CartoDB</a>'
+          url="https://{s}.basemaps.cartocdn.com/light_all/{z}/{x}/{y}{r}.png"
+          subdomains="abcd"
+          maxZoom={19}
+        />
+
+        {locatedEvents.map(event => (
+          <CircleMarker
+            key={`${event.type}-${event.occurredAt}`}
+            center={[event.latitude!, event.longitude!]}
+            radius={7}
+            pathOptions={{ color: getDrivingEventColor(event.type), fillOpacity: 0.8 }}
+          >
+            <Tooltip>
+              <div className="space-y-0.5 text-xs">
+                <p className="font-medium">{getDrivingEventLabel(event.type)}</p>
+                <p>{format(new Date(event.occurredAt), "PPp")}</p>
+                <p>
+                  {formatDrivingEventValue(event)}
+                  {event.speed !== null && ` at ${Math.round(event.speed)} ${speedUnit}`}
+                </p>
+              </div>
+            </Tooltip>
+          </CircleMarker>
+        ))}
+      </MapContainer>
+    </div>
+  );
+}
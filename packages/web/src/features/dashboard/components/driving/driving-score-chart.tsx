@@ -0,0 +1,90 @@
+import { Gauge } from "lucide-react";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+
+import { ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+
+import type { DrivingMonth } from "../../types";
+
+type DrivingScoreChartProps = {
+  months: DrivingMonth[];
+};
+
+const chartConfig = {
+  score: {
+    label: "Driving Score",
+    color: "hsl(var(--primary))",
+  },
+};
+
+export function DrivingScoreChart({ months }: DrivingScoreChartProps) {
+  const chartData = months
+    .filter(month => month.score !== null)
+    .map(month => ({
+      month: month.month,
+      score: month.score,
+      displayMonth: new Date(`${month.month}-01T00:00:00Z`).toLocaleDateString([], {
+        month: "short",
+        year: "2-digit",
+        timeZone: "UTC",
+      }),
+    }));
+
+  return (
+    <div className="space-y-3">
+      <h4 className="text-sm font-medium">Monthly Score</h4>
+      <div className="h-[200px]">
+        {chartData.length > 0
+          ? (
+              <ChartContainer config={chartConfig} className="h-full w-full">
+                <BarChart
+                  accessibilityLayer
+                  data={chartData}
+                  margin={{
+                    left: 12,
+                    right: 12,
+                    top: 12,
+                    bottom: 12,
+                  }}
+                >
+                  <CartesianGrid vertical={false} strokeDasharray="3 3" opacity={0.3} />
+                  <XAxis
+                    dataKey="displayMonth"
+                    tickLine={false}
+                    axisLine={false}
+                    tickMargin={8}
+                    tick={{ fontSize: 11 }}
+                  />
+                  <YAxis
+                    tickLine={false}
+                    axisLine={false}
+                    tickMargin={8}
+                    width={35}
+                    tick={{ fontSize: 11 }}
+                    domain={[0, 100]}
+                  />
+                  <ChartTooltip
+                    cursor={false}
+                    content={(
+                      <ChartTooltipContent
+                        formatter={value => [value, "Driving Score"]}
+                        indicator="dot"
+                      />
+                    )}
+                  />
+                  <Bar dataKey="score" fill="hsl(var(--primary))" radius={4} />
+                </BarChart>
+              </ChartContainer>
+            )
+          : (
+              <div className="flex items-center justify-center h-full text-muted-foreground border rounded-lg bg-muted/20">
+                <div className="text-center">
+                  <Gauge className="h-8 w-8 mx-auto mb-3 opacity-50" />
+                  <p className="font-medium text-sm">No Driving Data</p>
+                  <p className="text-xs mt-1">Sessions with speed or RPM data are scored here</p>
+                </div>
+              </div>
+            )}
+      </div>
+    </div>
+  );
+}
@@ -2,6 +2,8 @@ import { HelpCircle } from "lucide-react";
 
 import { Button } from "@/components/ui/button";
 
+import type { DistanceUnit } from "../../types";
+
 import { formatKilometers, getHealthStatusColor, getHealthStatusDescription, getHealthStatusText } from "../../utils/health-utils";
 import { getTrendIcon } from "../../utils/trend-utils";
 import { HealthScoreExplanationDialog } from "./health-score-explanation-dialog";
@@ -9,10 +11,11 @@ import { HealthScoreExplanationDialog } from "./health-score-explanation-dialog"
 type HealthScoreDisplayProps = {
   currentScore: number;
   totalKilometers: number;
+  distanceUnit: DistanceUnit;
   trend: "up" | "down" | "stable";
 };
 
-export function HealthScoreDisplay({ currentScore, totalKilometers, trend }: HealthScoreDisplayProps) {
+export function HealthScoreDisplay({ currentScore, totalKilometers, distanceUnit, trend }: HealthScoreDisplayProps) {
   return (
     <div className="relative">
       <div className="flex items-center justify-between mb-4">
@@ -39,7 +42,7 @@ export function HealthScoreDisplay({ currentScore, totalKilometers, trend }: Hea
             <div className="text-sm font-medium text-foreground">
               {formatKilometers(totalKilometers)}
               {" "}
-              km
+              {distanceUnit}
             </div>
             <div className="text-xs text-muted-foreground">
               Total driven
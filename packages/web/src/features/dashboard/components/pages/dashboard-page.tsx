@@ -8,6 +8,7 @@ import type { DashboardPageProps } from "../../types";
 
 import { useGetDashboardOverview } from "../../api/use-get-dashboard-overview";
 import { containerVariants } from "../../utils/animation-variants";
+import { DrivingSection } from "../sections/driving-section";
 import { HealthTrendsSection } from "../sections/health-trends-section";
 import { QuickStatsSection } from "../sections/quick-stats-section";
 import { RecentActivitySection } from "../sections/recent-activity-section";
@@ -62,7 +63,7 @@ export function DashboardPage({ vehicleId }: DashboardPageProps) {
     );
   }
 
-  const { vehicleStatus, quickStats, recentActivity, healthTrends } = dashboardData;
+  const { vehicleStatus, quickStats, recentActivity, healthTrends, units } = dashboardData;
 
   return (
     <div className="space-y-4 p-4 lg:p-6">
@@ -73,7 +74,7 @@ export function DashboardPage({ vehicleId }: DashboardPageProps) {
         className="space-y-6"
       >
         {/* Vehicle Status Section */}
-        <VehicleStatusSection vehicleStatus={vehicleStatus} />
+        <VehicleStatusSection vehicleStatus={vehicleStatus} distanceUnit={units.distance} />
 
         {/* Quick Stats Section */}
         <QuickStatsSection quickStats={quickStats} />
@@ -86,9 +87,12 @@ export function DashboardPage({ vehicleId }: DashboardPageProps) {
 
           {/* Health Trends Chart */}
           <div className="xl:col-span-1 flex">
-            <HealthTrendsSection healthTrends={healthTrends} />
+            <HealthTrendsSection healthTrends={healthTrends} distanceUnit={units.distance} />
           </div>
         </div>
+
+        {/* Driving Behaviour */}
+        <DrivingSection vehicleId={vehicleId} />
       </motion.div>
     </div>
   );
@@ -0,0 +1,156 @@
+import { format } from "date-fns";
+import { motion } from "framer-motion";
+import { Gauge } from "lucide-react";
+import { useState } from "react";
+
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Skeleton } from "@/components/ui/skeleton";
+import { cn } from "@/lib/utils";
+
+import { useGetDrivingReport } from "../../api/use-get-driving-report";
+import { useGetDrivingSession } from "../../api/use-get-driving-session";
+import { itemVariants } from "../../utils/animation-variants";
+import { DRIVING_EVENT_TYPES, getDrivingEventColor, getDrivingEventLabel, getDrivingScoreColor } from "../../utils/driving-utils";
+import { DrivingEventsMap } from "../driving/driving-events-map";
+import { DrivingScoreChart } from "../driving/driving-score-chart";
+
+type DrivingSectionProps = {
+  vehicleId: string;
+};
+
+export function DrivingSection({ vehicleId }: DrivingSectionProps) {
+  const [selectedSessionId, setSelectedSessionId] = useState<string | null>(null);
+  const { data: report, isLoading } = useGetDrivingReport({ vehicleUUID: vehicleId });
+
+  const scoredSessions = report?.sessions.filter(session => session.score !== null) ?? [];
+  const sessionId = selectedSessionId ?? scoredSessions[0]?.diagnosticUUID ?? null;
+  const { data: session, isLoading: isLoadingSession } = useGetDrivingSession({ vehicleUUID: vehicleId, diagnosticUUID: sessionId });
+
+  const currentMonth = report?.months.filter(month => month.score !== null).at(-1);
+
+  return (
+    <motion.div variants={itemVariants} className="w-full">
+      <Card>
+        <CardHeader>
+          <div className="space-y-1">
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <Gauge className="h-5 w-5 text-primary" />
+              Driving
+            </CardTitle>
+            <CardDescription className="text-sm">
+              Driving score from harsh acceleration, braking and cornering, over-revving and idling
+            </CardDescription>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading
+            ? (
+                <div className="grid grid-cols-1 gap-6 xl:grid-cols-3">
+                  <Skeleton className="h-[280px] w-full" />
+                  <Skeleton className="h-[280px] w-full xl:col-span-2" />
+                </div>
+              )
+            : (
+                <div className="grid grid-cols-1 gap-6 xl:grid-cols-3">
+                  <div className="space-y-6">
+                    <div className="flex items-end justify-between">
+                      <div>
+                        <p className="text-sm text-muted-foreground">
+                          {currentMonth
+                            ? format(new Date(`${currentMonth.month}-01T00:00:00`), "MMMM yyyy")
+                            : "No scored sessions"}
+                        </p>
+                        <p className={cn("text-4xl font-bold", getDrivingScoreColor(currentMonth?.score ?? null))}>
+                          {currentMonth?.score ?? "–"}
+                        </p>
+                      </div>
+                      {currentMonth && (
+                        <p className="text-right text-xs text-muted-foreground">
+                          {currentMonth.sessionCount}
+                          {" "}
+                          sessions
+                          <br />
+                          {currentMonth.distance.toFixed(0)}
+                          {" "}
+                          {report?.distanceUnit}
+                        </p>
+                      )}
+                    </div>
+
+                    <DrivingScoreChart months={report?.months ?? []} />
+
+                    {currentMonth && (
+                      <ul className="space-y-1 text-sm">
+                        {DRIVING_EVENT_TYPES.map(type => (
+                          <li key={type} className="flex items-center justify-between">
+                            <span className="flex items-center gap-2">
+                              <span className="h-2 w-2 rounded-full" style={{ backgroundColor: getDrivingEventColor(type) }} />
+                              {getDrivingEventLabel(type)}
+                            </span>
+                            <span className="font-mono">{currentMonth.eventCounts[type] ?? 0}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+
+                  <div className="grid grid-cols-1 gap-4 lg:grid-cols-3 xl:col-span-2">
+                    <ScrollArea className="h-[320px] rounded-md border">
+                      {scoredSessions.length > 0
+                        ? (
+                            <ul className="divide-y">
+                              {scoredSessions.map(scoredSession => (
+                                <li key={scoredSession.diagnosticUUID}>
+                                  <button
+                                    type="button"
+                                    className={cn(
+                                      "flex w-full items-center justify-between gap-2 px-3 py-2 text-left text-sm hover:bg-muted/50",
+                                      scoredSession.diagnosticUUID === sessionId && "bg-muted",
+                                    )}
+                                    onClick={() => setSelectedSessionId(scoredSession.diagnosticUUID)}
+                                  >
+                                    <span>
+                                      <span className="block font-medium">{format(new Date(scoredSession.startedAt), "PP")}</span>
+                                      <span className="block text-xs text-muted-foreground">
+                                        {format(new Date(scoredSession.startedAt), "p")}
+                                        {" · "}
+                                        {scoredSession.distance.toFixed(1)}
+                                        {" "}
+                                        {scoredSession.distanceUnit}
+                                      </span>
+                                    </span>
+                                    <Badge variant="outline" className={cn("font-mono", getDrivingScoreColor(scoredSession.score))}>
+                                      {scoredSession.score}
+                                    </Badge>
+                                  </button>
+                                </li>
+                              ))}
+                            </ul>
+                          )
+                        : (
+                            <p className="p-6 text-center text-sm text-muted-foreground">
+                              No sessions with speed or RPM data yet.
+                            </p>
+                          )}
+                    </ScrollArea>
+
+                    <div className="lg:col-span-2">
+                      {isLoadingSession
+                        ? <Skeleton className="h-[320px] w-full" />
+                        : (
+                            <DrivingEventsMap
+                              events={session?.events ?? []}
+                              speedUnit={session?.speedUnit ?? "km/h"}
+                            />
+                          )}
+                    </div>
+                  </div>
+                </div>
+              )}
+        </CardContent>
+      </Card>
+    </motion.div>
+  );
+}
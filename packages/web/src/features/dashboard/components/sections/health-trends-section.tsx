@@ -3,7 +3,7 @@ import { Activity } from "lucide-react";
 
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 
-import type { HealthTrend } from "../../types";
+import type { DistanceUnit, HealthTrend } from "../../types";
 
 import { itemVariants } from "../../utils/animation-variants";
 import { calculateTrend, getCurrentScore, getTotalKilometers } from "../../utils/health-utils";
@@ -12,9 +12,10 @@ import { HealthScoreDisplay } from "../health/health-score-display";
 
 type HealthTrendsSectionProps = {
   healthTrends: HealthTrend[];
+  distanceUnit: DistanceUnit;
 };
 
-export function HealthTrendsSection({ healthTrends }: HealthTrendsSectionProps) {
+export function HealthTrendsSection({ healthTrends, distanceUnit }: HealthTrendsSectionProps) {
   const currentScore = getCurrentScore(healthTrends);
   const totalKilometers = getTotalKilometers(healthTrends);
   const trend = calculateTrend(healthTrends);
@@ -37,6 +38,7 @@ export function HealthTrendsSection({ healthTrends }: HealthTrendsSectionProps)
           <HealthScoreDisplay
             currentScore={currentScore}
             totalKilometers={totalKilometers}
+            distanceUnit={distanceUnit}
             trend={trend}
           />
           <HealthChart healthTrends={healthTrends} />
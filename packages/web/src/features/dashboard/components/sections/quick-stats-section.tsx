@@ -27,7 +27,7 @@ export function QuickStatsSection({ quickStats }: QuickStatsSectionProps) {
           </CardTitle>
         </CardHeader>
         <CardContent className="h-full">
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-5 gap-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-6 gap-4">
             {stats.map((stat, index) => (
               <div key={index} className="h-full">
                 <StatCard
@@ -4,20 +4,22 @@ import { Car } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 
-import type { VehicleStatus } from "../../types";
+import type { DistanceUnit, VehicleStatus } from "../../types";
 
 import { itemVariants } from "../../utils/animation-variants";
 import { getBadgeVariant, getStatusColor, getStatusText } from "../../utils/vehicle-status-utils";
 import { LastDiagnosticInfo } from "../vehicle/last-diagnostic-info";
 import { VehicleAlert } from "../vehicle/vehicle-alert";
+import { VehicleDocumentsAlert } from "../vehicle/vehicle-documents-alert";
 import { VehicleInfoHeader } from "../vehicle/vehicle-info-header";
 import { VehicleStatsGrid } from "../vehicle/vehicle-stats-grid";
 
 type VehicleStatusSectionProps = {
   vehicleStatus: VehicleStatus;
+  distanceUnit: DistanceUnit;
 };
 
-export function VehicleStatusSection({ vehicleStatus }: VehicleStatusSectionProps) {
+export function VehicleStatusSection({ vehicleStatus, distanceUnit }: VehicleStatusSectionProps) {
   const {
     make,
     model,
@@ -28,6 +30,8 @@ export function VehicleStatusSection({ vehicleStatus }: VehicleStatusSectionProp
     daysSinceLastDiagnostic,
     activeDTCsCount,
     totalDiagnosticsCount,
+    expiredDocuments,
+    expiringDocuments,
   } = vehicleStatus;
 
   const statusColor = getStatusColor(daysSinceLastDiagnostic);
@@ -68,6 +72,7 @@ export function VehicleStatusSection({ vehicleStatus }: VehicleStatusSectionProp
             activeDTCsCount={activeDTCsCount}
             daysSinceLastDiagnostic={daysSinceLastDiagnostic}
             latestOdometer={latestOdometer}
+            distanceUnit={distanceUnit}
           />
 
           {lastDiagnosticDate && (
@@ -75,6 +80,11 @@ export function VehicleStatusSection({ vehicleStatus }: VehicleStatusSectionProp
           )}
 
           <VehicleAlert activeDTCsCount={activeDTCsCount} />
+
+          <VehicleDocumentsAlert
+            expiredDocuments={expiredDocuments}
+            expiringDocuments={expiringDocuments}
+          />
         </CardContent>
       </Card>
     </motion.div>
@@ -0,0 +1,54 @@
+import { FileWarning } from "lucide-react";
+
+import type { VehicleDocumentAlert } from "../../types";
+
+import { getDocumentExpiryText, getDocumentTypeLabel } from "../../utils/vehicle-status-utils";
+
+type VehicleDocumentsAlertProps = {
+  expiredDocuments: VehicleDocumentAlert[];
+  expiringDocuments: VehicleDocumentAlert[];
+};
+
+export function VehicleDocumentsAlert({ expiredDocuments, expiringDocuments }: VehicleDocumentsAlertProps) {
+  if (expiredDocuments.length === 0 && expiringDocuments.length === 0)
+    return null;
+
+  const hasExpired = expiredDocuments.length > 0;
+  const documents = [...expiredDocuments, ...expiringDocuments];
+
+  return (
+    <div className={`relative p-4 rounded-xl border backdrop-blur-sm ${hasExpired
+      ? "bg-gradient-to-br from-red-50/80 via-red-50/40 to-background dark:from-red-950/40 dark:via-red-950/20 dark:to-background border-red-200/60 dark:border-red-800/60"
+      : "bg-gradient-to-br from-amber-50/80 via-amber-50/40 to-background dark:from-amber-950/40 dark:via-amber-950/20 dark:to-background border-amber-200/60 dark:border-amber-800/60"}`}
+    >
+      <div className="flex items-start gap-3">
+        <div className={`p-2 rounded-lg border shrink-0 backdrop-blur-sm ${hasExpired
+          ? "bg-red-100/80 dark:bg-red-900/40 border-red-200/60 dark:border-red-800/60"
+          : "bg-amber-100/80 dark:bg-amber-900/40 border-amber-200/60 dark:border-amber-800/60"}`}
+        >
+          <FileWarning className={`h-4 w-4 ${hasExpired ? "text-red-600 dark:text-red-400" : "text-amber-600 dark:text-amber-400"}`} />
+        </div>
+        <div className="flex-1">
+          <div className={`font-semibold text-sm mb-1 ${hasExpired ? "text-red-700 dark:text-red-300" : "text-amber-700 dark:text-amber-300"}`}>
+            {hasExpired
+              ? `${expiredDocuments.length} Expired Document${expiredDocuments.length > 1 ? "s" : ""}`
+              : `${expiringDocuments.length} Document${expiringDocuments.length > 1 ? "s" : ""} Expiring Soon`}
+          </div>
+          <ul className="space-y-0.5 text-sm text-muted-foreground">
+            {documents.map(document => (
+              <li key={document.uuid}>
+                <span className="font-medium text-foreground">{getDocumentTypeLabel(document.type)}</span>
+                {" "}
+                {getDocumentExpiryText(document.daysUntilExpiry)}
+                {" "}
+                (
+                {new Date(document.validTo).toLocaleDateString()}
+                )
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+    </div>
+  );
+}
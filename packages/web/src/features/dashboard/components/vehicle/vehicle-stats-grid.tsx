@@ -1,5 +1,7 @@
 import { AlertTriangle, Calendar, Gauge, Stethoscope } from "lucide-react";
 
+import type { DistanceUnit } from "../../types";
+
 import { StatItem } from "../shared/stat-item";
 
 type VehicleStatsGridProps = {
@@ -7,6 +9,7 @@ type VehicleStatsGridProps = {
   activeDTCsCount: number;
   daysSinceLastDiagnostic: number | null;
   latestOdometer: number | null;
+  distanceUnit: DistanceUnit;
 };
 
 export function VehicleStatsGrid({
@@ -14,6 +17,7 @@ export function VehicleStatsGrid({
   activeDTCsCount,
   daysSinceLastDiagnostic,
   latestOdometer,
+  distanceUnit,
 }: VehicleStatsGridProps) {
   const formatKilometers = (kilometers: number) => {
     return new Intl.NumberFormat("en-US").format(kilometers);
@@ -48,7 +52,7 @@ export function VehicleStatsGrid({
       <StatItem
         icon={<Gauge className="h-4 w-4" />}
         value={latestOdometer ? `${formatKilometers(latestOdometer)}` : "--"}
-        label="Kilometers"
+        label={distanceUnit === "mi" ? "Miles" : "Kilometers"}
         color="default"
       />
     </div>
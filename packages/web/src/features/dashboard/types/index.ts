@@ -1,4 +1,17 @@
+import type { DrivingEvent, DrivingMonth, DrivingReportResponse, DrivingSession, DrivingSessionDetailResponse } from "@/api/zod/z-driving";
+import type { ResolvedUnits } from "@/api/zod/z-preferences";
+
 // Dashboard API Response Types
+export type VehicleDocumentType = "rca" | "casco" | "itp" | "rovinieta" | "registration" | "other";
+
+// Document that expired or expires within its reminder lead time
+export type VehicleDocumentAlert = {
+  uuid: string;
+  type: VehicleDocumentType;
+  validTo: string;
+  daysUntilExpiry: number;
+};
+
 export type VehicleStatus = {
   vehicleUUID: string;
   make: string;
@@ -10,6 +23,8 @@ export type VehicleStatus = {
   daysSinceLastDiagnostic: number | null;
   activeDTCsCount: number;
   totalDiagnosticsCount: number;
+  expiredDocuments: VehicleDocumentAlert[];
+  expiringDocuments: VehicleDocumentAlert[];
 };
 
 export type QuickStats = {
@@ -18,11 +33,12 @@ export type QuickStats = {
   totalNotifications: number;
   activeDTCs: number;
   maintenanceCostYTD: number;
+  fuelCostYTD: number;
   averageDiagnosticInterval: number | null;
 };
 
 export type RecentActivity = {
-  type: "diagnostic" | "maintenance" | "dtc" | "notification";
+  type: "diagnostic" | "maintenance" | "dtc" | "notification" | "anomaly";
   id: string;
   title: string;
   description: string | null;
@@ -44,9 +60,20 @@ export type DashboardOverview = {
   quickStats: QuickStats;
   recentActivity: RecentActivity[];
   healthTrends: HealthTrend[];
+  // Units distances and odometer readings are expressed in
+  units: ResolvedUnits;
 };
 
+export type DistanceUnit = ResolvedUnits["distance"];
+
 // Component Props Types
 export type DashboardPageProps = {
   vehicleId: string;
 };
+
+// Driving behaviour API Response Types
+export type DrivingReport = DrivingReportResponse;
+export type DrivingSessionDetail = DrivingSessionDetailResponse;
+export type DrivingEventType = DrivingEvent["type"];
+
+export type { DrivingEvent, DrivingMonth, DrivingSession };
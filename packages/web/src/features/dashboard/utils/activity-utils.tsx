@@ -1,4 +1,4 @@
-import { AlertTriangle, Bell, Calendar, Stethoscope, Wrench } from "lucide-react";
+import { Activity, AlertTriangle, Bell, Calendar, Stethoscope, Wrench } from "lucide-react";
 
 import type { RecentActivity } from "../types";
 
@@ -12,6 +12,8 @@ export function getActivityIcon(activityType: RecentActivity["type"]) {
       return <AlertTriangle className="h-4 w-4" />;
     case "notification":
       return <Bell className="h-4 w-4" />;
+    case "anomaly":
+      return <Activity className="h-4 w-4" />;
     default:
       return <Calendar className="h-4 w-4" />;
   }
@@ -27,6 +29,8 @@ export function getActivityIconColor(activityType: RecentActivity["type"]) {
       return "text-destructive";
     case "notification":
       return "text-orange-600 dark:text-orange-400";
+    case "anomaly":
+      return "text-amber-600 dark:text-amber-400";
     default:
       return "text-muted-foreground";
   }
@@ -0,0 +1,60 @@
+import type { DrivingEvent, DrivingEventType } from "../types";
+
+export const DRIVING_EVENT_TYPES: DrivingEventType[] = [
+  "harsh_acceleration",
+  "harsh_braking",
+  "sharp_cornering",
+  "over_revving",
+  "excessive_idling",
+];
+
+export function getDrivingEventLabel(type: DrivingEventType): string {
+  switch (type) {
+    case "harsh_acceleration":
+      return "Harsh acceleration";
+    case "harsh_braking":
+      return "Harsh braking";
+    case "sharp_cornering":
+      return "Sharp cornering";
+    case "over_revving":
+      return "Over-revving";
+    case "excessive_idling":
+      return "Excessive idling";
+  }
+}
+
+// Marker colors on the driving events map
+export function getDrivingEventColor(type: DrivingEventType): string {
+  switch (type) {
+    case "harsh_acceleration":
+      return "#F59E0B";
+    case "harsh_braking":
+      return "#EF4444";
+    case "sharp_cornering":
+      return "#8B5CF6";
+    case "over_revving":
+      return "#EC4899";
+    case "excessive_idling":
+      return "#6B7280";
+  }
+}
+
+export function formatDrivingEventValue(event: Pick<DrivingEvent, "value" | "unit">): string {
+  if (event.unit === "s")
+    return `${Math.round(event.value / 60)} min`;
+  if (event.unit === "rpm")
+    return `${Math.round(event.value)} rpm`;
+  return `${Math.abs(event.value).toFixed(1)} m/s²`;
+}
+
+export function getDrivingScoreColor(score: number | null): string {
+  if (score === null)
+    return "text-muted-foreground";
+  if (score >= 85)
+    return "text-green-600 dark:text-green-400";
+  if (score >= 70)
+    return "text-yellow-600 dark:text-yellow-400";
+  if (score >= 50)
+    return "text-orange-600 dark:text-orange-400";
+  return "text-red-600 dark:text-red-400";
+}
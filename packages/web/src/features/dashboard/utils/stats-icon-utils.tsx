@@ -1,4 +1,4 @@
-import { AlertCircle, BarChart3, Bell, DollarSign, Stethoscope, Wrench } from "lucide-react";
+import { AlertCircle, BarChart3, Bell, DollarSign, Fuel, Stethoscope, Wrench } from "lucide-react";
 
 export function getStatsIcon(iconType: string) {
   switch (iconType) {
@@ -12,6 +12,8 @@ export function getStatsIcon(iconType: string) {
       return <Bell className="h-5 w-5" />;
     case "dollar-sign":
       return <DollarSign className="h-5 w-5" />;
+    case "fuel":
+      return <Fuel className="h-5 w-5" />;
     default:
       return <BarChart3 className="h-5 w-5" />;
   }
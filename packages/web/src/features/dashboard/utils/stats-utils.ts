@@ -14,6 +14,7 @@ export function createStatsData(quickStats: QuickStats) {
     totalNotifications,
     activeDTCs,
     maintenanceCostYTD,
+    fuelCostYTD,
   } = quickStats;
 
   return [
@@ -52,5 +53,12 @@ export function createStatsData(quickStats: QuickStats) {
       color: "green" as const,
       iconType: "dollar-sign",
     },
+    {
+      title: "Fuel Cost",
+      value: formatCurrency(fuelCostYTD),
+      description: "This year's fuel spending",
+      color: "blue" as const,
+      iconType: "fuel",
+    },
   ];
 }
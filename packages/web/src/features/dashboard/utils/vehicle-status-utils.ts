@@ -1,3 +1,5 @@
+import type { VehicleDocumentType } from "../types";
+
 export function getStatusColor(daysSinceLastDiagnostic: number | null) {
   if (!daysSinceLastDiagnostic)
     return "gray";
@@ -30,3 +32,24 @@ export function getBadgeVariant(statusColor: string) {
       return "outline";
   }
 }
+
+const DOCUMENT_TYPE_LABELS: Record<VehicleDocumentType, string> = {
+  rca: "RCA insurance",
+  casco: "CASCO insurance",
+  itp: "ITP inspection",
+  rovinieta: "Road vignette",
+  registration: "Registration certificate",
+  other: "Document",
+};
+
+export function getDocumentTypeLabel(type: VehicleDocumentType) {
+  return DOCUMENT_TYPE_LABELS[type];
+}
+
+export function getDocumentExpiryText(daysUntilExpiry: number) {
+  if (daysUntilExpiry < 0)
+    return `expired ${-daysUntilExpiry} day${daysUntilExpiry === -1 ? "" : "s"} ago`;
+  if (daysUntilExpiry === 0)
+    return "expires today";
+  return `expires in ${daysUntilExpiry} day${daysUntilExpiry === 1 ? "" : "s"}`;
+}
@@ -2,6 +2,8 @@ import { useQuery } from "@tanstack/react-query";
 
 import { api } from "@/lib/rpc";
 
+import type { DTCKnowledge } from "../types";
+
 // This type represents the data returned from the DTC library API
 export type DTCLibraryInfo = {
   uuid: string;
@@ -10,21 +12,26 @@ export type DTCLibraryInfo = {
   severity: "low" | "medium" | "high";
   affectedSystem: string | null;
   category: string | null;
+  safeToDrive: "safe" | "caution" | "unsafe" | null;
+  urgency: "monitor" | "soon" | "immediate" | null;
+  knowledge: DTCKnowledge | null;
+  source: "generic" | "manufacturer";
+  overlayUUID: string | null;
   createdAt: string;
   updatedAt: string;
 };
 
 /**
- * Fetches DTC information by code
+ * Fetches DTC information by code, resolved for the vehicle's make, model and year
  */
-export async function getDTCByCodeQuery(code: string) {
+export async function getDTCByCodeQuery(code: string, vehicleId: string) {
   if (!code)
     return null;
 
   try {
-    // The API endpoint is /api/dtc?code={code}
+    // The API endpoint is /api/dtc?code={code}&vehicleUUID={vehicleId}
     const response = await api.dtc.$get({
-      query: { code },
+      query: { code, vehicleUUID: vehicleId },
     });
 
     if (!response.ok) {
@@ -44,10 +51,10 @@ export async function getDTCByCodeQuery(code: string) {
 /**
  * Hook to fetch diagnostic trouble code information by code
  */
-export function useGetDTCByCode(code: string) {
+export function useGetDTCByCode(code: string, vehicleId: string) {
   return useQuery({
-    queryKey: ["dtc", code],
-    queryFn: () => getDTCByCodeQuery(code),
+    queryKey: ["dtc", code, vehicleId],
+    queryFn: () => getDTCByCodeQuery(code, vehicleId),
     enabled: !!code,
     staleTime: 1000 * 60 * 5, // 5 minutes
   });
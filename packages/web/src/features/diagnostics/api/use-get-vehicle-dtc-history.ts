@@ -0,0 +1,41 @@
+import { queryOptions, useQuery, useSuspenseQuery } from "@tanstack/react-query";
+
+import { api } from "@/lib/rpc";
+
+/**
+ * Fetches the lifecycle of every DTC reported for a vehicle across its diagnostic sessions
+ */
+export async function getVehicleDTCHistoryQuery(vehicleId: string) {
+  const response = await api.vehicles[":vehicleUUID"]["dtc-history"].$get({
+    param: { vehicleUUID: vehicleId },
+    query: {},
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch DTC history: ${response.statusText}`);
+  }
+
+  return response.json();
+}
+
+export function useGetVehicleDTCHistory({ vehicleId, suspense = false }: { vehicleId: string; suspense?: boolean }) {
+  if (suspense) {
+    return useSuspenseQuery({
+      queryKey: ["vehicles", vehicleId, "dtc-history"],
+      queryFn: () => getVehicleDTCHistoryQuery(vehicleId),
+    });
+  }
+  else {
+    return useQuery({
+      queryKey: ["vehicles", vehicleId, "dtc-history"],
+      queryFn: () => getVehicleDTCHistoryQuery(vehicleId),
+    });
+  }
+}
+
+export function getVehicleDTCHistoryQueryOptions({ vehicleId }: { vehicleId: string }) {
+  return queryOptions({
+    queryKey: ["vehicles", vehicleId, "dtc-history"],
+    queryFn: () => getVehicleDTCHistoryQuery(vehicleId),
+  });
+}
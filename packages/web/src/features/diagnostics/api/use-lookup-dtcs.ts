@@ -0,0 +1,43 @@
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+
+import { api } from "@/lib/rpc";
+
+/**
+ * Fetches the library entries of several DTC codes in a single request,
+ * resolved against the vehicle's manufacturer overlays
+ */
+export async function lookupDTCsQuery(codes: string[], vehicleId: string) {
+  const response = await api.dtc.lookup.$post({
+    json: { codes, vehicleUUID: vehicleId },
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to look up DTC codes: ${response.statusText}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * Hook to fetch the library entries of all DTCs of a list at once. Results
+ * are also stored under the per-code query key, so the cards reading a single
+ * code do not fetch it again.
+ */
+export function useLookupDTCs(codes: string[], vehicleId: string) {
+  const queryClient = useQueryClient();
+  const uniqueCodes = [...new Set(codes)].sort();
+
+  return useQuery({
+    queryKey: ["dtc", "lookup", vehicleId, uniqueCodes],
+    queryFn: async () => {
+      const result = await lookupDTCsQuery(uniqueCodes, vehicleId);
+
+      result.found.forEach(dtc => queryClient.setQueryData(["dtc", dtc.code, vehicleId], dtc));
+      result.missing.forEach(code => queryClient.setQueryData(["dtc", code, vehicleId], null));
+
+      return result;
+    },
+    enabled: uniqueCodes.length > 0,
+    staleTime: 1000 * 60 * 5, // 5 minutes
+  });
+}
@@ -5,8 +5,10 @@ import {
   Calendar,
   Clipboard,
   Clock,
+  Factory,
   Info,
   Loader2,
+  ShieldAlert,
   Tag,
   Zap,
 } from "lucide-react";
@@ -24,19 +26,34 @@ import type { DiagnosticDTCWithInfo } from "../types";
 
 import { useGetDTCByCode } from "../api/use-get-dtc-by-code";
 import { badgeVariants, dtcCardVariants } from "../utils/animation-variants";
+import { DTCFreezeFramePanel } from "./dtc-freeze-frame-panel";
+import { DTCKnowledgeDialog } from "./dtc-knowledge-dialog";
 import { DTCSeverityUpdater, useDTCSeverity } from "./dtc-severity-context";
 
+const DRIVE_SAFETY_GUIDANCE: Record<"safe" | "caution" | "unsafe", { label: string; className: string }> = {
+  safe: { label: "Safe to drive", className: "text-green-600 dark:text-green-400" },
+  caution: { label: "Drive with caution", className: "text-warning" },
+  unsafe: { label: "Do not drive", className: "text-destructive" },
+};
+
+const URGENCY_LABELS: Record<"monitor" | "soon" | "immediate", string> = {
+  monitor: "Monitor, fix at next service",
+  soon: "Have it checked soon",
+  immediate: "Have it checked immediately",
+};
+
 type DTCCardProps = {
   dtc: DiagnosticDTCWithInfo;
+  vehicleId: string;
   index: number;
 };
 
-export function DTCCard({ dtc, index }: DTCCardProps) {
+export function DTCCard({ dtc, vehicleId, index }: DTCCardProps) {
   const contentRef = useRef<HTMLDivElement>(null);
   const { getDTCSeverity } = useDTCSeverity();
 
   // Fetch additional DTC information from the library
-  const { data: dtcInfo, isLoading: isLoadingDtcInfo } = useGetDTCByCode(dtc.code);
+  const { data: dtcInfo, isLoading: isLoadingDtcInfo } = useGetDTCByCode(dtc.code, vehicleId);
 
   // Get severity from context or fallback to local data
   const severity = getDTCSeverity(dtc.uuid) || dtcInfo?.severity || dtc.severity;
@@ -123,7 +140,7 @@ export function DTCCard({ dtc, index }: DTCCardProps) {
 
   return (
     <>
-      <DTCSeverityUpdater dtc={dtc} />
+      <DTCSeverityUpdater dtc={dtc} vehicleId={vehicleId} />
       <motion.div
         custom={index}
         variants={dtcCardVariants}
@@ -206,14 +223,33 @@ export function DTCCard({ dtc, index }: DTCCardProps) {
                       </motion.div>
                     )}
                   </div>
-                  {combinedDtc.confirmed && (
-                    <motion.div variants={badgeVariants} initial="initial" animate="animate">
-                      <Badge variant="default">
-                        <Clipboard className="mr-1 h-3 w-3" />
-                        Confirmed
-                      </Badge>
-                    </motion.div>
-                  )}
+                  <div className="flex items-center gap-2">
+                    {dtcInfo?.source === "manufacturer" && (
+                      <motion.div variants={badgeVariants} initial="initial" animate="animate">
+                        <TooltipProvider>
+                          <Tooltip>
+                            <TooltipTrigger asChild>
+                              <Badge variant="outline" className="cursor-help">
+                                <Factory className="mr-1 h-3 w-3" />
+                                Manufacturer
+                              </Badge>
+                            </TooltipTrigger>
+                            <TooltipContent>
+                              <p>Manufacturer-specific meaning for this vehicle</p>
+                            </TooltipContent>
+                          </Tooltip>
+                        </TooltipProvider>
+                      </motion.div>
+                    )}
+                    {combinedDtc.confirmed && (
+                      <motion.div variants={badgeVariants} initial="initial" animate="animate">
+                        <Badge variant="default">
+                          <Clipboard className="mr-1 h-3 w-3" />
+                          Confirmed
+                        </Badge>
+                      </motion.div>
+                    )}
+                  </div>
                 </div>
               </div>
 
@@ -231,6 +267,21 @@ export function DTCCard({ dtc, index }: DTCCardProps) {
 
               {/* Details Grid */}
               <div className="grid grid-cols-1 gap-y-3 bg-background/60 p-3 rounded-md">
+                {dtcInfo?.safeToDrive && (
+                  <div className="text-center">
+                    <div className="flex items-center justify-center gap-1.5 text-muted-foreground text-xs mb-1">
+                      <ShieldAlert className="h-3.5 w-3.5" />
+                      <span>Drivability</span>
+                    </div>
+                    <p className={`font-medium text-sm ${DRIVE_SAFETY_GUIDANCE[dtcInfo.safeToDrive].className}`}>
+                      {DRIVE_SAFETY_GUIDANCE[dtcInfo.safeToDrive].label}
+                    </p>
+                    {dtcInfo.urgency && (
+                      <p className="text-xs text-muted-foreground">{URGENCY_LABELS[dtcInfo.urgency]}</p>
+                    )}
+                  </div>
+                )}
+
                 {combinedDtc.affectedSystem && (
                   <div className="text-center">
                     <div className="flex items-center justify-center gap-1.5 text-muted-foreground text-xs mb-1">
@@ -262,6 +313,16 @@ export function DTCCard({ dtc, index }: DTCCardProps) {
                 </div>
               </div>
 
+              {/* Freeze Frame */}
+              {combinedDtc.freezeFrame.length > 0 && (
+                <DTCFreezeFramePanel freezeFrame={combinedDtc.freezeFrame} />
+              )}
+
+              {/* Knowledge base */}
+              {dtcInfo?.knowledge && (
+                <DTCKnowledgeDialog code={combinedDtc.code} description={combinedDtc.description} knowledge={dtcInfo.knowledge} />
+              )}
+
               {/* Recommendation */}
               {/* <div className={`rounded-md p-3 ${
                 combinedDtc.severity === "high"
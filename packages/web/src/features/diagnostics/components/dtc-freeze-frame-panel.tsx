@@ -0,0 +1,62 @@
+import { ChevronDown, Snowflake } from "lucide-react";
+import { useState } from "react";
+
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { useGetPidRegistry } from "@/features/sensors/api/use-get-pid-registry";
+
+import type { FreezeFrameReading } from "../types";
+
+type DTCFreezeFramePanelProps = {
+  freezeFrame: FreezeFrameReading[];
+};
+
+export function DTCFreezeFramePanel({ freezeFrame }: DTCFreezeFramePanelProps) {
+  const [open, setOpen] = useState(false);
+  const { data: pidRegistry } = useGetPidRegistry();
+
+  // Resolve PID names from the registry, fall back to the raw PID
+  const getPidName = (pid: string) => pidRegistry?.find(entry => entry.pid === pid)?.name ?? `PID ${pid}`;
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="bg-background/60 rounded-md">
+      <CollapsibleTrigger className="flex w-full items-center justify-between p-3 text-sm font-medium">
+        <span className="flex items-center gap-1.5">
+          <Snowflake className="h-4 w-4 text-muted-foreground" />
+          Freeze Frame
+          <span className="text-xs text-muted-foreground">
+            (
+            {freezeFrame.length}
+            {" "}
+            {freezeFrame.length === 1 ? "value" : "values"}
+            )
+          </span>
+        </span>
+        <ChevronDown className={`h-4 w-4 text-muted-foreground transition-transform ${open ? "rotate-180" : ""}`} />
+      </CollapsibleTrigger>
+      <CollapsibleContent>
+        <div className="px-3 pb-3 space-y-1.5">
+          <p className="text-xs text-muted-foreground">
+            Sensor values recorded by the ECU when this code was stored.
+          </p>
+          {freezeFrame.map(reading => (
+            <div key={reading.uuid} className="flex items-center justify-between gap-2 text-sm">
+              <span className="truncate text-muted-foreground">
+                {getPidName(reading.pid)}
+                {" "}
+                <span className="font-mono text-xs">
+                  (
+                  {reading.pid}
+                  )
+                </span>
+              </span>
+              <span className="font-medium tabular-nums whitespace-nowrap">
+                {Math.round(reading.value * 100) / 100}
+                {reading.unit ? ` ${reading.unit}` : ""}
+              </span>
+            </div>
+          ))}
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
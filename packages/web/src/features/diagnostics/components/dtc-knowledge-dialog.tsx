@@ -0,0 +1,96 @@
+import { BookOpen } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+
+import type { DTCKnowledgeDialogProps } from "../types";
+
+import { DTCKnowledgeMarkdown } from "./dtc-knowledge-markdown";
+
+const DIFFICULTY_LABELS = {
+  easy: "DIY",
+  moderate: "Experienced DIY",
+  professional: "Workshop",
+} as const;
+
+function KnowledgeSection({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <section className="space-y-1.5">
+      <h4 className="text-sm font-semibold">{title}</h4>
+      {children}
+    </section>
+  );
+}
+
+export function DTCKnowledgeDialog({ code, description, knowledge }: DTCKnowledgeDialogProps) {
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="w-full gap-1.5">
+          <BookOpen className="size-4" />
+          Repair guide
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg max-h-[90vh]">
+        <DialogHeader>
+          <DialogTitle className="font-mono">{code}</DialogTitle>
+          {description && <DialogDescription>{description}</DialogDescription>}
+        </DialogHeader>
+        <ScrollArea className="max-h-[65vh] pr-3">
+          <div className="space-y-4 pb-2">
+            {knowledge.symptoms.length > 0 && (
+              <KnowledgeSection title="Symptoms">
+                <ul className="list-disc pl-5 space-y-1 text-sm text-muted-foreground">
+                  {knowledge.symptoms.map(symptom => <li key={symptom}>{symptom}</li>)}
+                </ul>
+              </KnowledgeSection>
+            )}
+
+            {knowledge.causes.length > 0 && (
+              <KnowledgeSection title="Common causes">
+                <ul className="list-disc pl-5 space-y-1 text-sm text-muted-foreground">
+                  {knowledge.causes.map(cause => <li key={cause}>{cause}</li>)}
+                </ul>
+              </KnowledgeSection>
+            )}
+
+            {knowledge.diagnosticSteps.length > 0 && (
+              <KnowledgeSection title="Diagnostic steps">
+                <ol className="list-decimal pl-5 space-y-1 text-sm text-muted-foreground">
+                  {knowledge.diagnosticSteps.map(step => <li key={step}>{step}</li>)}
+                </ol>
+              </KnowledgeSection>
+            )}
+
+            {knowledge.typicalFixes.length > 0 && (
+              <KnowledgeSection title="Typical fixes">
+                <div className="space-y-1.5">
+                  {knowledge.typicalFixes.map(fix => (
+                    <div key={fix.description} className="flex items-start justify-between gap-2 text-sm">
+                      <span className="text-muted-foreground">{fix.description}</span>
+                      <Badge variant="outline" className="shrink-0">{DIFFICULTY_LABELS[fix.difficulty]}</Badge>
+                    </div>
+                  ))}
+                </div>
+              </KnowledgeSection>
+            )}
+
+            {knowledge.relatedCodes.length > 0 && (
+              <KnowledgeSection title="Related codes">
+                <div className="flex flex-wrap gap-1.5">
+                  {knowledge.relatedCodes.map(relatedCode => (
+                    <Badge key={relatedCode} variant="secondary" className="font-mono">{relatedCode}</Badge>
+                  ))}
+                </div>
+              </KnowledgeSection>
+            )}
+
+            {knowledge.body && <DTCKnowledgeMarkdown markdown={knowledge.body} />}
+          </div>
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,109 @@
+import type { ReactNode } from "react";
+
+type Block
+  = | { type: "heading"; level: number; text: string }
+    | { type: "list"; ordered: boolean; items: string[] }
+    | { type: "paragraph"; text: string };
+
+const INLINE_PATTERN = /(\*\*[^*]+\*\*|\*[^*]+\*|`[^`]+`|\[[^\]]+\]\([^)]+\))/g;
+
+// Links are only rendered for web URLs, anything else stays plain text
+function renderInline(text: string): ReactNode[] {
+  return text.split(INLINE_PATTERN).map((part, index) => {
+    if (part.startsWith("**") && part.endsWith("**") && part.length > 4) {
+      return <strong key={index}>{part.slice(2, -2)}</strong>;
+    }
+    if (part.startsWith("`") && part.endsWith("`") && part.length > 2) {
+      return <code key={index} className="rounded bg-muted px-1 font-mono text-xs">{part.slice(1, -1)}</code>;
+    }
+    if (part.startsWith("*") && part.endsWith("*") && part.length > 2) {
+      return <em key={index}>{part.slice(1, -1)}</em>;
+    }
+
+    const link = part.match(/^\[([^\]]+)\]\((https?:\/\/[^)]+)\)$/);
+    if (link) {
+      return (
+        <a key={index} href={link[2]} target="_blank" rel="noreferrer" className="text-primary underline underline-offset-2">
+          {link[1]}
+        </a>
+      );
+    }
+
+    return part;
+  });
+}
+
+function parseBlocks(markdown: string) {
+  const blocks: Block[] = [];
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ type: "paragraph", text: paragraph.join(" ") });
+      paragraph = [];
+    }
+  };
+
+  for (const rawLine of markdown.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    const heading = line.match(/^(#{1,3})\s+(\S.*)$/);
+    const listItem = line.match(/^([-*]|\d+\.)\s+(\S.*)$/);
+
+    if (!line) {
+      flushParagraph();
+    }
+    else if (heading) {
+      flushParagraph();
+      blocks.push({ type: "heading", level: heading[1].length, text: heading[2] });
+    }
+    else if (listItem) {
+      flushParagraph();
+      const ordered = /^\d/.test(listItem[1]);
+      const previous = blocks[blocks.length - 1];
+
+      if (previous?.type === "list" && previous.ordered === ordered) {
+        previous.items.push(listItem[2]);
+      }
+      else {
+        blocks.push({ type: "list", ordered, items: [listItem[2]] });
+      }
+    }
+    else {
+      paragraph.push(line);
+    }
+  }
+
+  flushParagraph();
+  return blocks;
+}
+
+/**
+ * Renders the markdown body of a knowledge-base record. Covers the subset
+ * the editors use: headings, lists, paragraphs, bold, italic, code and links.
+ */
+export function DTCKnowledgeMarkdown({ markdown }: { markdown: string }) {
+  return (
+    <div className="space-y-2 text-sm">
+      {parseBlocks(markdown).map((block, index) => {
+        if (block.type === "heading") {
+          return (
+            <p key={index} className={block.level === 1 ? "font-semibold text-base pt-1" : "font-semibold pt-1"}>
+              {renderInline(block.text)}
+            </p>
+          );
+        }
+
+        if (block.type === "list") {
+          const ListTag = block.ordered ? "ol" : "ul";
+          return (
+            <ListTag key={index} className={`pl-5 space-y-1 ${block.ordered ? "list-decimal" : "list-disc"}`}>
+              {block.items.map((item, itemIndex) => <li key={itemIndex}>{renderInline(item)}</li>)}
+            </ListTag>
+          );
+        }
+
+        return <p key={index} className="text-muted-foreground">{renderInline(block.text)}</p>;
+      })}
+    </div>
+  );
+}
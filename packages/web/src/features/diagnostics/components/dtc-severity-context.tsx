@@ -50,9 +50,9 @@ export const DTCSeverityProvider: React.FC<{ children: React.ReactNode }> = ({ c
 };
 
 // Component to fetch and update DTC severity
-export const DTCSeverityUpdater: React.FC<{ dtc: DiagnosticDTCWithInfo }> = ({ dtc }) => {
+export const DTCSeverityUpdater: React.FC<{ dtc: DiagnosticDTCWithInfo; vehicleId: string }> = ({ dtc, vehicleId }) => {
   const { updateDTCSeverity } = useDTCSeverity();
-  const { data: dtcInfo } = useGetDTCByCode(dtc.code);
+  const { data: dtcInfo } = useGetDTCByCode(dtc.code, vehicleId);
   const hasUpdatedRef = useRef(false);
 
   useEffect(() => {
@@ -0,0 +1,171 @@
+import { motion } from "framer-motion";
+import { CheckCircle2, History, Loader2 } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+
+import type { DTCHistoryEntry, DTCLifecycleState, DTCStatus, DTCTimelineProps } from "../types";
+
+import { useGetVehicleDTCHistory } from "../api/use-get-vehicle-dtc-history";
+import { cardVariants } from "../utils/animation-variants";
+import { ErrorLoadingDTCs } from "./dtcs-states/error-loading-dtcs";
+
+const STATE_LABELS: Record<DTCLifecycleState, string> = {
+  pending: "Pending",
+  confirmed: "Confirmed",
+  permanent: "Permanent",
+  cleared: "Cleared",
+  self_healed: "Self-healed",
+};
+
+const STATE_CLASSES: Record<DTCLifecycleState, string> = {
+  pending: "border-warning text-warning",
+  confirmed: "border-destructive text-destructive",
+  permanent: "bg-destructive text-white border-destructive",
+  cleared: "border-green-500 text-green-600 dark:text-green-400",
+  self_healed: "border-muted-foreground/50 text-muted-foreground",
+};
+
+const STATUS_DOT_CLASSES: Record<DTCStatus, string> = {
+  pending: "bg-warning",
+  confirmed: "bg-destructive",
+  permanent: "bg-destructive ring-2 ring-destructive/30",
+};
+
+function formatDate(dateString: string) {
+  return new Date(dateString).toLocaleDateString([], { month: "short", day: "numeric", year: "numeric" });
+}
+
+function DTCTimelineEntry({ entry, index }: { entry: DTCHistoryEntry; index: number }) {
+  const isActive = entry.resolvedAt === null;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.25, delay: Math.min(index, 10) * 0.04 }}
+      className="relative pl-6"
+    >
+      {/* Timeline rail */}
+      <span className={`absolute left-0 top-1.5 h-3 w-3 rounded-full border-2 ${isActive ? "border-destructive bg-destructive/20" : "border-muted-foreground/40 bg-background"}`} />
+      <span className="absolute left-[5px] top-5 bottom-[-1rem] w-px bg-border" />
+
+      <div className="rounded-md border bg-background/60 p-3 space-y-2">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div className="flex items-center gap-2 min-w-0">
+            <span className="font-mono font-bold">{entry.code}</span>
+            {entry.description && (
+              <span className="truncate text-sm text-muted-foreground">{entry.description}</span>
+            )}
+          </div>
+          <Badge variant="outline" className={STATE_CLASSES[entry.state]}>
+            {STATE_LABELS[entry.state]}
+          </Badge>
+        </div>
+
+        <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground">
+          <span>
+            First seen
+            {" "}
+            <span className="font-medium text-foreground">{formatDate(entry.firstSeenAt)}</span>
+          </span>
+          {isActive
+            ? (
+                <span>
+                  Last seen
+                  {" "}
+                  <span className="font-medium text-foreground">{formatDate(entry.lastSeenAt)}</span>
+                </span>
+              )
+            : (
+                <span className="flex items-center gap-1">
+                  <CheckCircle2 className="h-3 w-3" />
+                  Gone since
+                  {" "}
+                  <span className="font-medium text-foreground">{formatDate(entry.resolvedAt!)}</span>
+                </span>
+              )}
+          <span>
+            {entry.sessionCount}
+            {" "}
+            {entry.sessionCount === 1 ? "session" : "sessions"}
+          </span>
+        </div>
+
+        {/* One dot per session the code was reported in */}
+        <div className="flex flex-wrap items-center gap-1">
+          <TooltipProvider>
+            {entry.occurrences.map(occurrence => (
+              <Tooltip key={occurrence.diagnosticUUID}>
+                <TooltipTrigger asChild>
+                  <span className={`h-2 w-2 rounded-full cursor-help ${STATUS_DOT_CLASSES[occurrence.status]}`} />
+                </TooltipTrigger>
+                <TooltipContent>
+                  <p>{formatDate(occurrence.date)}</p>
+                  <p>{STATE_LABELS[occurrence.status]}</p>
+                </TooltipContent>
+              </Tooltip>
+            ))}
+          </TooltipProvider>
+        </div>
+      </div>
+    </motion.div>
+  );
+}
+
+export function DTCTimeline({ vehicleId }: DTCTimelineProps) {
+  const { data: history, isLoading, error } = useGetVehicleDTCHistory({ vehicleId });
+
+  if (error) {
+    return <ErrorLoadingDTCs />;
+  }
+
+  return (
+    <motion.div
+      variants={cardVariants}
+      initial="hidden"
+      animate="visible"
+      exit="exit"
+      className="h-full"
+    >
+      <Card className="w-full h-full flex flex-col">
+        <CardHeader className="pb-2 pt-3 px-4 flex-shrink-0">
+          <div className="flex items-center gap-2">
+            <History className="h-5 w-5 text-primary" />
+            <CardTitle>DTC History</CardTitle>
+          </div>
+          <CardDescription>
+            {history
+              ? `${history.entries.length} ${history.entries.length === 1 ? "code" : "codes"} across ${history.totalSessions} ${history.totalSessions === 1 ? "session" : "sessions"}, ${history.activeCount} still active`
+              : "How trouble codes evolved across diagnostic sessions"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex-1 overflow-hidden">
+          {isLoading && (
+            <div className="flex h-full items-center justify-center">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          )}
+
+          {history && history.entries.length === 0 && (
+            <div className="flex h-full items-center justify-center text-sm text-muted-foreground">
+              No trouble codes have been reported for this vehicle yet.
+            </div>
+          )}
+
+          {history && history.entries.length > 0 && (
+            <ScrollArea className="h-full pr-3">
+              <div className="space-y-4 pb-2">
+                {history.entries.map((entry, index) => (
+                  <DTCTimelineEntry key={`${entry.code}-${entry.firstSeenDiagnosticUUID}`} entry={entry} index={index} />
+                ))}
+              </div>
+            </ScrollArea>
+          )}
+        </CardContent>
+      </Card>
+    </motion.div>
+  );
+}
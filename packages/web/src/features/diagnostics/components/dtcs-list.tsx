@@ -5,6 +5,7 @@ import { Card, CardContent } from "@/components/ui/card";
 import type { DTCsListProps } from "../types";
 
 import { useGetDiagnosticDTCs } from "../api/use-get-diagnostic-dtcs";
+import { useLookupDTCs } from "../api/use-lookup-dtcs";
 import { cardVariants } from "../utils/animation-variants";
 import { DTCSeverityProvider } from "./dtc-severity-context";
 import { DTCsHeader } from "./dtcs-header";
@@ -26,6 +27,7 @@ export function DTCsList(props: DTCsListProps) {
 // The inner component that uses the severity context
 function DTCsListContent({
   diagnosticId,
+  vehicleId,
   isLoading: isLoadingProp,
   error: errorProp,
 }: DTCsListProps) {
@@ -36,7 +38,11 @@ function DTCsListContent({
     error: fetchError,
   } = useGetDiagnosticDTCs({ diagnosticId, suspense: true });
 
-  const isLoading = isLoadingProp || isLoadingData;
+  // Library info of every code in one request instead of one per card,
+  // with the vehicle's manufacturer overlays applied
+  const { isLoading: isLoadingLibrary } = useLookupDTCs(dtcs?.map(dtc => dtc.code) ?? [], vehicleId);
+
+  const isLoading = isLoadingProp || isLoadingData || isLoadingLibrary;
   const error = errorProp || fetchError;
 
   if (isLoading) {
@@ -66,7 +72,7 @@ function DTCsListContent({
       <Card className="w-full h-full flex flex-col">
         <DTCsHeader dtcs={dtcs} />
         <CardContent className="flex-1 overflow-hidden">
-          <DTCsScrollContainer dtcs={dtcs} />
+          <DTCsScrollContainer dtcs={dtcs} vehicleId={vehicleId} />
         </CardContent>
       </Card>
     </motion.div>
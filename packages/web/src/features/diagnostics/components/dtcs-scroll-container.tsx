@@ -9,9 +9,10 @@ import { DTCCard } from "./dtc-card";
 
 type DTCsScrollContainerProps = {
   dtcs: DiagnosticDTCWithInfo[];
+  vehicleId: string;
 };
 
-export function DTCsScrollContainer({ dtcs }: DTCsScrollContainerProps) {
+export function DTCsScrollContainer({ dtcs, vehicleId }: DTCsScrollContainerProps) {
   return (
     <div className="h-full rounded-xl overflow-hidden bg-background/80 shadow-sm border border-border/40 dark:border-border/20">
       <div className="h-full relative">
@@ -29,7 +30,7 @@ export function DTCsScrollContainer({ dtcs }: DTCsScrollContainerProps) {
               animate="visible"
             >
               {dtcs.map((dtc: DiagnosticDTCWithInfo, index: number) => (
-                <DTCCard key={dtc.uuid} dtc={dtc} index={index} />
+                <DTCCard key={dtc.uuid} dtc={dtc} vehicleId={vehicleId} index={index} />
               ))}
             </motion.div>
           </div>
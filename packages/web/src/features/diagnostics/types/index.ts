@@ -1,3 +1,33 @@
+import type { DTCKnowledge as ApiDTCKnowledge, DTCHistoryEntry, DTCHistoryResponse, DTCLifecycleState } from "@/api/zod/z-dtc";
+
+export type { DTCHistoryEntry, DTCHistoryResponse, DTCLifecycleState };
+
+/**
+ * Knowledge-base record of a DTC code: causes, symptoms, diagnostic steps,
+ * related codes, typical fixes and a markdown body
+ */
+export type DTCKnowledge = Omit<ApiDTCKnowledge, "createdAt" | "updatedAt"> & {
+  createdAt: string;
+  updatedAt: string;
+};
+
+/**
+ * Status reported by the ECU for a stored DTC
+ */
+export type DTCStatus = "pending" | "confirmed" | "permanent";
+
+/**
+ * Type representing a PID value captured in the freeze-frame of a DTC
+ */
+export type FreezeFrameReading = {
+  uuid: string;
+  diagnosticDTCUUID: string;
+  pid: string;
+  value: number;
+  unit: string;
+  createdAt: string;
+};
+
 /**
  * Type representing a Diagnostic Trouble Code (DTC) associated with a diagnostic session
  */
@@ -6,8 +36,11 @@ export type DiagnosticDTC = {
   diagnosticUUID: string;
   code: string;
   confirmed: boolean;
+  status: DTCStatus | null;
+  libraryVersion: number | null;
   createdAt: string;
   updatedAt: string;
+  freezeFrame: FreezeFrameReading[];
 };
 
 /**
@@ -45,6 +78,7 @@ export type DiagnosticDetailsProps = {
  */
 export type DTCsListProps = {
   diagnosticId: string;
+  vehicleId: string;
   isLoading?: boolean;
   error?: Error | null;
 };
@@ -55,3 +89,19 @@ export type DTCsListProps = {
 export type DTCItemProps = {
   dtc: DiagnosticDTCWithInfo;
 };
+
+/**
+ * Props for the DTC knowledge dialog component
+ */
+export type DTCKnowledgeDialogProps = {
+  code: string;
+  description?: string;
+  knowledge: DTCKnowledge;
+};
+
+/**
+ * Props for the DTC timeline component
+ */
+export type DTCTimelineProps = {
+  vehicleId: string;
+};
@@ -1,6 +1,9 @@
 import { useQuery } from "@tanstack/react-query";
 
-import { PID_CATEGORY_MAP, PID_FRIENDLY_NAMES } from "@/features/sensors/utils/sensor-categories";
+import type { PidRegistryEntryResponse } from "@/api/zod/z-pids";
+
+import { getPidRegistryQuery } from "@/features/sensors/api/use-get-pid-registry";
+import { createPidLookup, getPidCategory } from "@/features/sensors/utils/sensor-categories";
 import { api } from "@/lib/rpc";
 
 type GetDiagnosticDataParams = {
@@ -37,10 +40,13 @@ export async function getDiagnosticDataQuery({
   }
 
   try {
-    // First, get diagnostics for the vehicle
-    const diagnosticsResponse = await api.vehicles[":vehicleUUID"].diagnostics.$get({
-      param: { vehicleUUID: vehicleId },
-    });
+    // First, get diagnostics for the vehicle, and the registry to label their PIDs
+    const [diagnosticsResponse, pidRegistry] = await Promise.all([
+      api.vehicles[":vehicleUUID"].diagnostics.$get({
+        param: { vehicleUUID: vehicleId },
+      }),
+      getPidRegistryQuery(),
+    ]);
 
     if (!diagnosticsResponse.ok) {
       throw new Error(`Failed to fetch vehicle diagnostics: ${diagnosticsResponse.statusText}`);
@@ -65,7 +71,7 @@ export async function getDiagnosticDataQuery({
     );
 
     // Process the data to a format suitable for export
-    const processedData = processDataForExport(sensorData, startDate, endDate, includeAllData);
+    const processedData = processDataForExport(sensorData, pidRegistry, startDate, endDate, includeAllData);
 
     // Find the min and max dates in all the diagnostic data
     const dateRange = findDateRange(sensorData);
@@ -112,7 +118,10 @@ function findDateRange(sensorData: any[]) {
   return { min: minDate, max: maxDate };
 }
 
-function processDataForExport(sensorData: any[], startDate?: Date, endDate?: Date, includeAllData = false) {
+function processDataForExport(sensorData: any[], pidRegistry: PidRegistryEntryResponse[], startDate?: Date, endDate?: Date, includeAllData = false) {
+  // Names and categories come from the server PID registry
+  const pidLookup = createPidLookup(pidRegistry);
+
   // Prepare the export data array
   const exportData: any[] = [];
 
@@ -133,11 +142,9 @@ function processDataForExport(sensorData: any[], startDate?: Date, endDate?: Dat
               return;
           }
 
-          // Get friendly name for the PID
-          const friendlyName = PID_FRIENDLY_NAMES[reading.pid] || reading.name || `Sensor ${reading.pid}`;
-
-          // Get standard category for the PID
-          const category = PID_CATEGORY_MAP[reading.pid] || reading.category || "Unknown";
+          // Get friendly name and category for the PID
+          const friendlyName = pidLookup.get(reading.pid)?.name || reading.name || `Sensor ${reading.pid}`;
+          const category = pidLookup.has(reading.pid) ? getPidCategory(reading.pid, pidLookup) : reading.category || "Unknown";
 
           // Create a row for each reading with diagnostic context
           exportData.push({
@@ -0,0 +1,36 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+
+import { api } from "@/lib/rpc";
+
+import type { GeofenceCreate } from "../types";
+
+export function useCreateGeofence(vehicleId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: GeofenceCreate) => {
+      const response = await api.vehicles[":vehicleUUID"].geofences.$post({
+        param: { vehicleUUID: vehicleId },
+        json: data,
+      });
+
+      if (!response.ok) {
+        const error = await response.json() as { error?: string };
+        throw new Error(error.error || "Failed to create geofence");
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["vehicles", vehicleId, "geofences"] });
+
+      toast.success("Geofence created");
+    },
+    onError: (error: Error) => {
+      toast.error("Failed to create geofence", {
+        description: error.message,
+      });
+    },
+  });
+}
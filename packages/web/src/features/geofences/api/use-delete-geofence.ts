@@ -0,0 +1,31 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+
+import { api } from "@/lib/rpc";
+
+export function useDeleteGeofence(vehicleId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (geofenceUUID: string) => {
+      const response = await api.vehicles[":vehicleUUID"].geofences[":geofenceUUID"].$delete({
+        param: { vehicleUUID: vehicleId, geofenceUUID },
+      });
+
+      if (!response.ok) {
+        const error = await response.json() as { error?: string };
+        throw new Error(error.error || "Failed to delete geofence");
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["vehicles", vehicleId, "geofences"] });
+
+      toast.success("Geofence deleted");
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to delete geofence");
+    },
+  });
+}
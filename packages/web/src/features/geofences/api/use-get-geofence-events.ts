@@ -0,0 +1,49 @@
+import { queryOptions, useQuery, useSuspenseQuery } from "@tanstack/react-query";
+
+import { api } from "@/lib/rpc";
+
+// Function to fetch the geofence enter/exit history of a vehicle
+export async function getGeofenceEventsQuery(vehicleId: string, geofenceUUID?: string) {
+  const response = await api.vehicles[":vehicleUUID"].geofences.events.$get({
+    param: { vehicleUUID: vehicleId },
+    query: {
+      ...(geofenceUUID ? { geofenceUUID } : {}),
+    },
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch geofence events: ${response.statusText}`);
+  }
+
+  return response.json();
+}
+
+export function useGetGeofenceEvents({
+  vehicleId,
+  geofenceUUID,
+  suspense = false,
+}: {
+  vehicleId: string;
+  geofenceUUID?: string;
+  suspense?: boolean;
+}) {
+  if (suspense) {
+    return useSuspenseQuery({
+      queryKey: ["vehicles", vehicleId, "geofences", "events", geofenceUUID],
+      queryFn: () => getGeofenceEventsQuery(vehicleId, geofenceUUID),
+    });
+  }
+  else {
+    return useQuery({
+      queryKey: ["vehicles", vehicleId, "geofences", "events", geofenceUUID],
+      queryFn: () => getGeofenceEventsQuery(vehicleId, geofenceUUID),
+    });
+  }
+}
+
+export function getGeofenceEventsQueryOptions(vehicleId: string, geofenceUUID?: string) {
+  return queryOptions({
+    queryKey: ["vehicles", vehicleId, "geofences", "events", geofenceUUID],
+    queryFn: () => getGeofenceEventsQuery(vehicleId, geofenceUUID),
+  });
+}
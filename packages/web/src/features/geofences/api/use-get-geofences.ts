@@ -0,0 +1,38 @@
+import { queryOptions, useQuery, useSuspenseQuery } from "@tanstack/react-query";
+
+import { api } from "@/lib/rpc";
+
+// Function to fetch the geofences of a vehicle
+export async function getGeofencesQuery(vehicleId: string) {
+  const response = await api.vehicles[":vehicleUUID"].geofences.$get({
+    param: { vehicleUUID: vehicleId },
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch geofences: ${response.statusText}`);
+  }
+
+  return response.json();
+}
+
+export function useGetGeofences({ vehicleId, suspense = false }: { vehicleId: string; suspense?: boolean }) {
+  if (suspense) {
+    return useSuspenseQuery({
+      queryKey: ["vehicles", vehicleId, "geofences"],
+      queryFn: () => getGeofencesQuery(vehicleId),
+    });
+  }
+  else {
+    return useQuery({
+      queryKey: ["vehicles", vehicleId, "geofences"],
+      queryFn: () => getGeofencesQuery(vehicleId),
+    });
+  }
+}
+
+export function getGeofencesQueryOptions(vehicleId: string) {
+  return queryOptions({
+    queryKey: ["vehicles", vehicleId, "geofences"],
+    queryFn: () => getGeofencesQuery(vehicleId),
+  });
+}
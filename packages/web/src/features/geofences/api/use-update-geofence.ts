@@ -0,0 +1,34 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+
+import { api } from "@/lib/rpc";
+
+import type { GeofenceUpdate } from "../types";
+
+export function useUpdateGeofence(vehicleId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ geofenceUUID, data }: { geofenceUUID: string; data: GeofenceUpdate }) => {
+      const response = await api.vehicles[":vehicleUUID"].geofences[":geofenceUUID"].$patch({
+        param: { vehicleUUID: vehicleId, geofenceUUID },
+        json: data,
+      });
+
+      if (!response.ok) {
+        const error = await response.json() as { error?: string };
+        throw new Error(error.error || "Failed to update geofence");
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["vehicles", vehicleId, "geofences"] });
+    },
+    onError: (error: Error) => {
+      toast.error("Failed to update geofence", {
+        description: error.message,
+      });
+    },
+  });
+}
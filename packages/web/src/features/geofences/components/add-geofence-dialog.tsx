@@ -0,0 +1,198 @@
+import { PlusIcon, Undo2Icon } from "lucide-react";
+import { useState } from "react";
+
+import type { GeofenceBoundary } from "@/features/location/types";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { GeofenceEditorMap } from "@/features/location/components/maps/geofence-editor-map";
+
+import type { Geofence, GeofenceShape } from "../types";
+
+import { useCreateGeofence } from "../api/use-create-geofence";
+
+type AddGeofenceDialogProps = {
+  vehicleId: string;
+  center: [number, number];
+  geofences: Geofence[];
+};
+
+const INITIAL_STATE = {
+  name: "",
+  shape: "circle" as GeofenceShape,
+  center: null as [number, number] | null,
+  radius: "150",
+  polygon: [] as [number, number][],
+  notifyOnEnter: true,
+  notifyOnExit: true,
+};
+
+export function AddGeofenceDialog({ vehicleId, center, geofences }: AddGeofenceDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [form, setForm] = useState(INITIAL_STATE);
+  const createGeofence = useCreateGeofence(vehicleId);
+
+  const radius = Number.parseFloat(form.radius);
+  const hasBoundary = form.shape === "circle"
+    ? form.center !== null && !Number.isNaN(radius) && radius >= 10
+    : form.polygon.length >= 3;
+  const isValid = form.name.trim() !== "" && hasBoundary;
+
+  const draft: GeofenceBoundary = {
+    shape: form.shape,
+    centerLatitude: form.center?.[0] ?? null,
+    centerLongitude: form.center?.[1] ?? null,
+    radius: Number.isNaN(radius) ? null : radius,
+    polygon: form.polygon,
+  };
+
+  const handleMapClick = (point: [number, number]) => {
+    setForm(previous => previous.shape === "circle"
+      ? { ...previous, center: point }
+      : { ...previous, polygon: [...previous.polygon, point] });
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!isValid)
+      return;
+
+    try {
+      await createGeofence.mutateAsync({
+        name: form.name.trim(),
+        shape: form.shape,
+        ...(form.shape === "circle"
+          ? { centerLatitude: form.center![0], centerLongitude: form.center![1], radius }
+          : { polygon: form.polygon }),
+        notifyOnEnter: form.notifyOnEnter,
+        notifyOnExit: form.notifyOnExit,
+        enabled: true,
+      });
+      setForm(INITIAL_STATE);
+      setOpen(false);
+    }
+    catch {
+      // Error is handled by the mutation's onError callback
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button>
+          <PlusIcon className="h-4 w-4" />
+          Add Geofence
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Add Geofence</DialogTitle>
+          <DialogDescription>
+            {form.shape === "circle"
+              ? "Click the map to place the center of the zone."
+              : "Click the map to add the corners of the zone, at least three."}
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="geofence-name">Name</Label>
+              <Input
+                id="geofence-name"
+                placeholder="Home"
+                value={form.name}
+                onChange={e => setForm(previous => ({ ...previous, name: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Shape</Label>
+              <ToggleGroup
+                type="single"
+                variant="outline"
+                value={form.shape}
+                onValueChange={value => value && setForm(previous => ({ ...previous, shape: value as GeofenceShape }))}
+              >
+                <ToggleGroupItem value="circle">Circle</ToggleGroupItem>
+                <ToggleGroupItem value="polygon">Polygon</ToggleGroupItem>
+              </ToggleGroup>
+            </div>
+          </div>
+
+          <GeofenceEditorMap
+            center={center}
+            draft={draft}
+            geofences={geofences}
+            onMapClick={handleMapClick}
+            className="h-[320px] w-full"
+          />
+
+          <div className="flex flex-wrap items-end justify-between gap-4">
+            {form.shape === "circle"
+              ? (
+                  <div className="space-y-2">
+                    <Label htmlFor="geofence-radius">Radius (m)</Label>
+                    <Input
+                      id="geofence-radius"
+                      type="number"
+                      min={10}
+                      className="w-32"
+                      value={form.radius}
+                      onChange={e => setForm(previous => ({ ...previous, radius: e.target.value }))}
+                    />
+                  </div>
+                )
+              : (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    disabled={form.polygon.length === 0}
+                    onClick={() => setForm(previous => ({ ...previous, polygon: previous.polygon.slice(0, -1) }))}
+                  >
+                    <Undo2Icon className="h-4 w-4" />
+                    Remove last corner
+                  </Button>
+                )}
+
+            <div className="flex items-center gap-4">
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="geofence-notify-enter"
+                  checked={form.notifyOnEnter}
+                  onCheckedChange={notifyOnEnter => setForm(previous => ({ ...previous, notifyOnEnter }))}
+                />
+                <Label htmlFor="geofence-notify-enter">Notify on enter</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="geofence-notify-exit"
+                  checked={form.notifyOnExit}
+                  onCheckedChange={notifyOnExit => setForm(previous => ({ ...previous, notifyOnExit }))}
+                />
+                <Label htmlFor="geofence-notify-exit">Notify on exit</Label>
+              </div>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button type="submit" disabled={!isValid || createGeofence.isPending}>
+              {createGeofence.isPending ? "Creating..." : "Create Geofence"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,72 @@
+import { CircleIcon, HexagonIcon, TrashIcon } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Switch } from "@/components/ui/switch";
+import { cn } from "@/lib/utils";
+
+import type { Geofence } from "../types";
+
+import { useDeleteGeofence } from "../api/use-delete-geofence";
+import { useUpdateGeofence } from "../api/use-update-geofence";
+
+type GeofenceCardProps = {
+  vehicleId: string;
+  geofence: Geofence;
+};
+
+export function GeofenceCard({ vehicleId, geofence }: GeofenceCardProps) {
+  const updateGeofence = useUpdateGeofence(vehicleId);
+  const deleteGeofence = useDeleteGeofence(vehicleId);
+
+  const ShapeIcon = geofence.shape === "circle" ? CircleIcon : HexagonIcon;
+  const notifications = [geofence.notifyOnEnter && "enter", geofence.notifyOnExit && "exit"].filter(Boolean).join(" and ");
+
+  return (
+    <Card className={cn("transition-opacity", !geofence.enabled && "opacity-60")}>
+      <CardContent className="flex items-start justify-between gap-4 p-4">
+        <div className="flex items-start gap-3 min-w-0">
+          <div className="flex h-9 w-9 shrink-0 items-center justify-center rounded-lg bg-primary/10">
+            <ShapeIcon className="h-4 w-4 text-primary" />
+          </div>
+          <div className="min-w-0 space-y-1">
+            <div className="flex items-center gap-2">
+              <h4 className="font-medium truncate">{geofence.name}</h4>
+              {geofence.isInside != null && (
+                <Badge variant={geofence.isInside ? "default" : "outline"}>
+                  {geofence.isInside ? "Inside" : "Outside"}
+                </Badge>
+              )}
+            </div>
+            <p className="text-sm text-muted-foreground">
+              {geofence.shape === "circle"
+                ? `Circle, ${Math.round(geofence.radius ?? 0)} m radius`
+                : `Polygon, ${geofence.polygon?.length ?? 0} corners`}
+            </p>
+            <p className="text-xs text-muted-foreground">
+              {notifications ? `Notifies on ${notifications}` : "Notifications off"}
+            </p>
+          </div>
+        </div>
+        <div className="flex shrink-0 items-center gap-2">
+          <Switch
+            checked={geofence.enabled}
+            disabled={updateGeofence.isPending}
+            onCheckedChange={enabled => updateGeofence.mutate({ geofenceUUID: geofence.uuid, data: { enabled } })}
+            aria-label={geofence.enabled ? "Disable geofence" : "Enable geofence"}
+          />
+          <Button
+            variant="ghost"
+            size="icon"
+            disabled={deleteGeofence.isPending}
+            onClick={() => deleteGeofence.mutate(geofence.uuid)}
+            aria-label="Delete geofence"
+          >
+            <TrashIcon className="h-4 w-4 text-destructive" />
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,66 @@
+import { format } from "date-fns";
+import { HistoryIcon, LogInIcon, LogOutIcon } from "lucide-react";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+
+import { useGetGeofenceEvents } from "../api/use-get-geofence-events";
+
+type GeofenceEventsSectionProps = {
+  vehicleId: string;
+};
+
+export function GeofenceEventsSection({ vehicleId }: GeofenceEventsSectionProps) {
+  const { data: events, isLoading } = useGetGeofenceEvents({ vehicleId });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <HistoryIcon className="h-5 w-5" />
+          Geofence History
+        </CardTitle>
+        <CardDescription>
+          The most recent times the vehicle entered or left a geofence
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading
+          ? (
+              <div className="space-y-2">
+                <Skeleton className="h-10 w-full" />
+                <Skeleton className="h-10 w-full" />
+                <Skeleton className="h-10 w-full" />
+              </div>
+            )
+          : events && events.length > 0
+            ? (
+                <ul className="divide-y">
+                  {events.map(event => (
+                    <li key={event.uuid} className="flex items-center justify-between gap-4 py-3 text-sm">
+                      <div className="flex min-w-0 items-center gap-2">
+                        {event.eventType === "enter"
+                          ? <LogInIcon className="h-4 w-4 shrink-0 text-green-600" />
+                          : <LogOutIcon className="h-4 w-4 shrink-0 text-amber-600" />}
+                        <p className="font-medium truncate">
+                          {event.eventType === "enter" ? "Entered" : "Left"}
+                          {" "}
+                          {event.geofenceName}
+                        </p>
+                      </div>
+                      <p className="shrink-0 text-xs text-muted-foreground">
+                        {format(new Date(event.occurredAt), "PPp")}
+                      </p>
+                    </li>
+                  ))}
+                </ul>
+              )
+            : (
+                <p className="py-6 text-center text-sm text-muted-foreground">
+                  The vehicle has not crossed a geofence yet.
+                </p>
+              )}
+      </CardContent>
+    </Card>
+  );
+}
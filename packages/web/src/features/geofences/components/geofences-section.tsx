@@ -0,0 +1,82 @@
+import { ShieldIcon } from "lucide-react";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { GeofenceEditorMap } from "@/features/location/components/maps/geofence-editor-map";
+import { useGetVehicleRecentLocations } from "@/features/vehicles/api/use-get-vehicle-recent-locations";
+
+import type { Geofence } from "../types";
+
+import { useGetGeofences } from "../api/use-get-geofences";
+import { AddGeofenceDialog } from "./add-geofence-dialog";
+import { GeofenceCard } from "./geofence-card";
+
+// Used when the vehicle has neither a location nor a geofence yet
+const DEFAULT_CENTER: [number, number] = [44.4268, 26.1025];
+
+type GeofencesSectionProps = {
+  vehicleId: string;
+};
+
+function getMapCenter(geofences: Geofence[], lastLocation?: { latitude: number; longitude: number }): [number, number] {
+  if (lastLocation) {
+    return [lastLocation.latitude, lastLocation.longitude];
+  }
+
+  const first = geofences[0];
+  if (first?.centerLatitude != null && first.centerLongitude != null) {
+    return [first.centerLatitude, first.centerLongitude];
+  }
+  if (first?.polygon && first.polygon.length > 0) {
+    return first.polygon[0];
+  }
+
+  return DEFAULT_CENTER;
+}
+
+export function GeofencesSection({ vehicleId }: GeofencesSectionProps) {
+  const { data: geofences, isLoading } = useGetGeofences({ vehicleId });
+  const { data: recentLocations } = useGetVehicleRecentLocations({ vehicleId, limit: 1 });
+
+  const center = getMapCenter(geofences ?? [], recentLocations?.[0]);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div className="space-y-1">
+          <CardTitle className="flex items-center gap-2">
+            <ShieldIcon className="h-5 w-5" />
+            Geofences
+          </CardTitle>
+          <CardDescription>
+            Get notified when the vehicle enters or leaves a zone, checked every time locations are uploaded
+          </CardDescription>
+        </div>
+        <AddGeofenceDialog vehicleId={vehicleId} center={center} geofences={geofences ?? []} />
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading
+          ? (
+              <>
+                <Skeleton className="h-[300px] w-full" />
+                <Skeleton className="h-20 w-full" />
+              </>
+            )
+          : geofences && geofences.length > 0
+            ? (
+                <>
+                  <GeofenceEditorMap center={center} geofences={geofences} className="h-[300px] w-full" />
+                  {geofences.map(geofence => (
+                    <GeofenceCard key={geofence.uuid} vehicleId={vehicleId} geofence={geofence} />
+                  ))}
+                </>
+              )
+            : (
+                <p className="py-6 text-center text-sm text-muted-foreground">
+                  No geofences yet. Draw one around home, work or your workshop.
+                </p>
+              )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,16 @@
+import type { GeofenceCreate, GeofenceEvent as GeofenceEventResponse, Geofence as GeofenceResponse, GeofenceUpdate } from "@/api/zod/z-geofences";
+
+export type { GeofenceCreate, GeofenceUpdate };
+
+export type Geofence = Omit<GeofenceResponse, "createdAt" | "updatedAt" | "lastLocationAt"> & {
+  createdAt: string;
+  updatedAt: string;
+  lastLocationAt: string | null;
+};
+
+export type GeofenceEvent = Omit<GeofenceEventResponse, "occurredAt" | "createdAt"> & {
+  occurredAt: string;
+  createdAt: string;
+};
+
+export type GeofenceShape = Geofence["shape"];
@@ -0,0 +1,42 @@
+import { useMutation } from "@tanstack/react-query";
+import { toast } from "sonner";
+
+import { api } from "@/lib/rpc";
+
+import type { RouteExportFormat, RouteExportTarget } from "../types";
+
+import { downloadRouteFile } from "../utils/location-utils";
+
+async function fetchRouteExport(target: RouteExportTarget, format: RouteExportFormat) {
+  if (target.type === "diagnostic") {
+    return api.locations[":diagnosticUUID"].export.$get({
+      param: { diagnosticUUID: target.diagnosticUUID },
+      query: { format },
+    });
+  }
+
+  return api.vehicles[":vehicleUUID"].trips[":tripUUID"].export.$get({
+    param: { vehicleUUID: target.vehicleId, tripUUID: target.tripUUID },
+    query: { format },
+  });
+}
+
+export function useExportRoute() {
+  return useMutation({
+    mutationFn: async ({ target, format }: { target: RouteExportTarget; format: RouteExportFormat }) => {
+      const response = await fetchRouteExport(target, format);
+
+      if (!response.ok) {
+        throw new Error(`Failed to export route: ${response.statusText}`);
+      }
+
+      const name = target.type === "diagnostic" ? `diagnostic-${target.diagnosticUUID}` : `trip-${target.tripUUID}`;
+      downloadRouteFile(await response.blob(), `${name}.${format}`);
+    },
+    onError: (error: Error) => {
+      toast.error("Failed to export route", {
+        description: error.message,
+      });
+    },
+  });
+}
@@ -0,0 +1,39 @@
+import { queryOptions, useQuery, useSuspenseQuery } from "@tanstack/react-query";
+
+import { api } from "@/lib/rpc";
+
+// Function to fetch the trips detected for a vehicle, most recent first
+export async function getVehicleTripsQuery(vehicleId: string) {
+  const response = await api.vehicles[":vehicleUUID"].trips.$get({
+    param: { vehicleUUID: vehicleId },
+    query: {},
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch trips: ${response.statusText}`);
+  }
+
+  return response.json();
+}
+
+export function useGetVehicleTrips({ vehicleId, suspense = false }: { vehicleId: string; suspense?: boolean }) {
+  if (suspense) {
+    return useSuspenseQuery({
+      queryKey: ["vehicles", vehicleId, "trips"],
+      queryFn: () => getVehicleTripsQuery(vehicleId),
+    });
+  }
+  else {
+    return useQuery({
+      queryKey: ["vehicles", vehicleId, "trips"],
+      queryFn: () => getVehicleTripsQuery(vehicleId),
+    });
+  }
+}
+
+export function getVehicleTripsQueryOptions(vehicleId: string) {
+  return queryOptions({
+    queryKey: ["vehicles", vehicleId, "trips"],
+    queryFn: () => getVehicleTripsQuery(vehicleId),
+  });
+}
@@ -0,0 +1,37 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+
+import type { GPXImport } from "@/api/zod/z-locations";
+
+import { api } from "@/lib/rpc";
+
+export function useImportGPX(vehicleId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: Omit<GPXImport, "vehicleUUID">) => {
+      const response = await api.locations.import.$post({
+        json: { ...data, vehicleUUID: vehicleId },
+      });
+
+      if (!response.ok) {
+        const error = await response.json() as { error?: string; errors?: string[] };
+        throw new Error([error.error || "Failed to import GPX file", ...(error.errors ?? [])].join("\n"));
+      }
+
+      return response.json();
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["vehicles", vehicleId] });
+
+      toast.success("GPX file imported", {
+        description: `${result.count} points added as a new diagnostic session`,
+      });
+    },
+    onError: (error: Error) => {
+      toast.error("Failed to import GPX file", {
+        description: error.message,
+      });
+    },
+  });
+}
@@ -146,7 +146,7 @@ export const DiagnosticRouteMap = forwardRef<DiagnosticRouteMapRef, DiagnosticRo
                       Speed:
                       {startLocation.speed.toFixed(1)}
                       {" "}
-                      km/h
+                      {startLocation.speedUnit ?? "km/h"}
                     </span>
                   </>
                 )}
@@ -174,7 +174,7 @@ export const DiagnosticRouteMap = forwardRef<DiagnosticRouteMapRef, DiagnosticRo
                       Speed:
                       {endLocation.speed.toFixed(1)}
                       {" "}
-                      km/h
+                      {endLocation.speedUnit ?? "km/h"}
                     </span>
                   </>
                 )}
@@ -0,0 +1,128 @@
+import "@/styles/leaflet.css";
+
+import { MapPin } from "lucide-react";
+import { useEffect, useState } from "react";
+import { Circle, CircleMarker, MapContainer, Polygon, Polyline, TileLayer, Tooltip, useMapEvents } from "react-leaflet";
+
+import type { GeofenceBoundary } from "../../types";
+
+type SavedGeofence = GeofenceBoundary & {
+  uuid: string;
+  name: string;
+  enabled: boolean;
+};
+
+type GeofenceEditorMapProps = {
+  center: [number, number];
+  // Boundary being drawn, null when only showing the saved geofences
+  draft?: GeofenceBoundary | null;
+  geofences?: SavedGeofence[];
+  // Circles move their center to the clicked point, polygons get a new vertex
+  onMapClick?: (point: [number, number]) => void;
+  className?: string;
+};
+
+function MapClickHandler({ onMapClick }: { onMapClick?: (point: [number, number]) => void }) {
+  useMapEvents({
+    click: (event) => {
+      onMapClick?.([event.latlng.lat, event.latlng.lng]);
+    },
+  });
+
+  return null;
+}
+
+function GeofenceBoundaryLayer({ boundary, color, dashed = false }: { boundary: GeofenceBoundary; color: string; dashed?: boolean }) {
+  const pathOptions = { color, weight: 2, fillOpacity: 0.15, dashArray: dashed ? "6 6" : undefined };
+
+  if (boundary.shape === "circle") {
+    if (boundary.centerLatitude == null || boundary.centerLongitude == null || boundary.radius == null) {
+      return null;
+    }
+
+    return (
+      <Circle
+        center={[boundary.centerLatitude, boundary.centerLongitude]}
+        radius={boundary.radius}
+        pathOptions={pathOptions}
+      />
+    );
+  }
+
+  const polygon = boundary.polygon ?? [];
+
+  // Until the third vertex is placed the draft is shown as an open line
+  if (polygon.length < 3) {
+    return polygon.length === 2 ? <Polyline positions={polygon} pathOptions={pathOptions} /> : null;
+  }
+
+  return <Polygon positions={polygon} pathOptions={pathOptions} />;
+}
+
+export function GeofenceEditorMap({
+  center,
+  draft,
+  geofences = [],
+  onMapClick,
+  className = "h-[400px] w-full",
+}: GeofenceEditorMapProps) {
+  const [isMounted, setIsMounted] = useState(false);
+
+  useEffect(() => {
+    setIsMounted(true);
+  }, []);
+
+  if (!isMounted) {
+    return (
+      <div className={`flex items-center justify-center bg-muted/20 p-6 text-center rounded-md ${className}`}>
+        <div>
+          <MapPin className="mx-auto mb-2 h-10 w-10 text-muted-foreground opacity-50" />
+          <p className="text-sm text-muted-foreground">Loading map...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className={`overflow-hidden rounded-md ${className}`}>
+      <MapContainer
+        center={center}
+        zoom={14}
+        scrollWheelZoom={true}
+        className="map-monochrome"
+      >
+        <TileLayer
+          attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> | &copy; <a href="https://cartodb.com/attributions">CartoDB</a>'
+          url="https://{s}.basemaps.cartocdn.com/light_all/{z}/{x}/{y}{r}.png"
+          subdomains="abcd"
+          maxZoom={19}
+        />
+
+        <MapClickHandler onMapClick={onMapClick} />
+
+        {/* Saved geofences */}
+        {geofences.map(geofence => (
+          <GeofenceBoundaryLayer
+            key={geofence.uuid}
+            boundary={geofence}
+            color={geofence.enabled ? "#3B82F6" : "#9CA3AF"}
+          />
+        ))}
+
+        {/* Geofence being drawn */}
+        {draft && <GeofenceBoundaryLayer boundary={draft} color="#F59E0B" dashed />}
+
+        {draft?.shape === "polygon" && (draft.polygon ?? []).map(([latitude, longitude], index) => (
+          <CircleMarker
+            key={`${latitude}-${longitude}-${index}`}
+            center={[latitude, longitude]}
+            radius={4}
+            pathOptions={{ color: "#F59E0B", fillOpacity: 1 }}
+          >
+            <Tooltip>{`Vertex ${index + 1}`}</Tooltip>
+          </CircleMarker>
+        ))}
+      </MapContainer>
+    </div>
+  );
+}
@@ -5,6 +5,8 @@ import { useEffect, useState } from "react";
 
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Tabs, TabsContent } from "@/components/ui/tabs";
+import { GeofenceEventsSection } from "@/features/geofences/components/geofence-events-section";
+import { GeofencesSection } from "@/features/geofences/components/geofences-section";
 import { DiagnosticSessionSelector } from "@/features/sensors/components/diagnostic-session-selector";
 import { useGetVehicleDiagnostics } from "@/features/vehicles/api/use-get-vehicle-diagnostics";
 
@@ -13,8 +15,11 @@ import type { LocationData, LocationWithParsedDates } from "../../types";
 import { useGetDiagnosticLocations } from "../../api/use-get-diagnostic-locations";
 import { LocationOverview } from "../../overview/components/location-overview";
 import { LocationPlayback } from "../../playback/components/location-playback";
-import { LocationTabs } from "../shared/location-tabs";
 import { containerVariants, itemVariants } from "../../utils/animation-variants";
+import { ImportGPXDialog } from "../shared/import-gpx-dialog";
+import { LocationTabs } from "../shared/location-tabs";
+import { RouteExportMenu } from "../shared/route-export-menu";
+import { LocationTripsList } from "../trips/location-trips-list";
 
 type LocationPageProps = {
   vehicleId: string;
@@ -102,13 +107,22 @@ export function LocationPage({ vehicleId }: LocationPageProps) {
           >
             <div className="flex flex-wrap items-center justify-between gap-2">
               <LocationTabs />
-              
-              <DiagnosticSessionSelector
-                sessions={diagnosticsData || []}
-                selectedSession={selectedDiagnosticId || null}
-                onSessionChange={handleDiagnosticSessionChange}
-                isLoading={isLoadingDiagnostics}
-              />
+
+              <div className="flex flex-wrap items-center gap-2">
+                <DiagnosticSessionSelector
+                  sessions={diagnosticsData || []}
+                  selectedSession={selectedDiagnosticId || null}
+                  onSessionChange={handleDiagnosticSessionChange}
+                  isLoading={isLoadingDiagnostics}
+                />
+                {selectedDiagnosticId && (
+                  <RouteExportMenu
+                    target={{ type: "diagnostic", diagnosticUUID: selectedDiagnosticId }}
+                    isDisabled={processedLocations.length === 0}
+                  />
+                )}
+                <ImportGPXDialog vehicleId={vehicleId} onImported={handleDiagnosticSessionChange} />
+              </div>
             </div>
 
             <TabsContent value="overview" className="space-y-4">
@@ -125,6 +139,15 @@ export function LocationPage({ vehicleId }: LocationPageProps) {
                 isLoading={isLoadingLocations}
               />
             </TabsContent>
+
+            <TabsContent value="trips">
+              <LocationTripsList vehicleId={vehicleId} />
+            </TabsContent>
+
+            <TabsContent value="geofences" className="space-y-4">
+              <GeofencesSection vehicleId={vehicleId} />
+              <GeofenceEventsSection vehicleId={vehicleId} />
+            </TabsContent>
           </Tabs>
         </motion.div>
       )}
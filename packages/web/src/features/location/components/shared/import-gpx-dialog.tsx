@@ -0,0 +1,94 @@
+import { Upload } from "lucide-react";
+import { useState } from "react";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+
+import { useImportGPX } from "../../api/use-import-gpx";
+
+type ImportGPXDialogProps = {
+  vehicleId: string;
+  onImported?: (diagnosticUUID: string) => void;
+};
+
+export function ImportGPXDialog({ vehicleId, onImported }: ImportGPXDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [file, setFile] = useState<File | null>(null);
+  const [notes, setNotes] = useState("");
+  const importGPX = useImportGPX(vehicleId);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!file)
+      return;
+
+    try {
+      const result = await importGPX.mutateAsync({
+        gpx: await file.text(),
+        notes: notes.trim() || undefined,
+      });
+      setFile(null);
+      setNotes("");
+      setOpen(false);
+      onImported?.(result.diagnostic.uuid);
+    }
+    catch {
+      // Error is handled by the mutation's onError callback
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Upload className="mr-2 h-4 w-4" />
+          Import GPX
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Import GPX track</DialogTitle>
+          <DialogDescription>
+            The track points are added to a new diagnostic session of this vehicle. Every point needs a timestamp.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="gpx-file">GPX file</Label>
+            <Input
+              id="gpx-file"
+              type="file"
+              accept=".gpx,application/gpx+xml"
+              onChange={e => setFile(e.target.files?.[0] ?? null)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="gpx-notes">Notes</Label>
+            <Textarea
+              id="gpx-notes"
+              placeholder="Optional notes for the session"
+              value={notes}
+              onChange={e => setNotes(e.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button type="submit" disabled={!file || importGPX.isPending}>
+              {importGPX.isPending ? "Importing..." : "Import"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,4 +1,4 @@
-import { ChartBar, PlayIcon } from "lucide-react";
+import { ChartBar, PlayIcon, Route, Shield } from "lucide-react";
 
 import { TabsList, TabsTrigger } from "@/components/ui/tabs";
 
@@ -13,6 +13,14 @@ export function LocationTabs() {
         <PlayIcon className="mr-1 h-3 w-3" />
         Playback
       </TabsTrigger>
+      <TabsTrigger value="trips">
+        <Route className="mr-1 h-3 w-3" />
+        Trips
+      </TabsTrigger>
+      <TabsTrigger value="geofences">
+        <Shield className="mr-1 h-3 w-3" />
+        Geofences
+      </TabsTrigger>
     </TabsList>
   );
 } 
\ No newline at end of file
@@ -0,0 +1,54 @@
+import { Download } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+
+import type { RouteExportFormat, RouteExportTarget } from "../../types";
+
+import { useExportRoute } from "../../api/use-export-route";
+
+const EXPORT_FORMATS: { format: RouteExportFormat; label: string }[] = [
+  { format: "gpx", label: "GPX" },
+  { format: "kml", label: "KML" },
+  { format: "geojson", label: "GeoJSON" },
+];
+
+type RouteExportMenuProps = {
+  target: RouteExportTarget;
+  isDisabled?: boolean;
+  size?: "sm" | "icon";
+};
+
+export function RouteExportMenu({ target, isDisabled = false, size = "sm" }: RouteExportMenuProps) {
+  const exportRoute = useExportRoute();
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="outline"
+          size={size}
+          disabled={isDisabled || exportRoute.isPending}
+          aria-label="Export route"
+        >
+          <Download className={size === "sm" ? "mr-2 h-4 w-4" : "h-4 w-4"} />
+          {size === "sm" && "Export"}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {EXPORT_FORMATS.map(({ format, label }) => (
+          <DropdownMenuItem key={format} onClick={() => exportRoute.mutate({ target, format })}>
+            Export to
+            {" "}
+            {label}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
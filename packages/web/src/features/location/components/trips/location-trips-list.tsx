@@ -0,0 +1,90 @@
+import { format } from "date-fns";
+import { Route as RouteIcon } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+
+import { useGetVehicleTrips } from "../../api/use-get-vehicle-trips";
+import { formatDuration, formatSpeed } from "../../utils/location-utils";
+import { RouteExportMenu } from "../shared/route-export-menu";
+
+type LocationTripsListProps = {
+  vehicleId: string;
+};
+
+export function LocationTripsList({ vehicleId }: LocationTripsListProps) {
+  const { data: trips, isLoading } = useGetVehicleTrips({ vehicleId });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <RouteIcon className="h-5 w-5" />
+          Trips
+        </CardTitle>
+        <CardDescription>
+          Trips detected from the vehicle's locations, split on long stops and engine-off readings
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading
+          ? (
+              <div className="space-y-2">
+                <Skeleton className="h-14 w-full" />
+                <Skeleton className="h-14 w-full" />
+                <Skeleton className="h-14 w-full" />
+              </div>
+            )
+          : trips && trips.length > 0
+            ? (
+                <ul className="divide-y">
+                  {trips.map(trip => (
+                    <li key={trip.uuid} className="flex flex-wrap items-center justify-between gap-4 py-3 text-sm">
+                      <div className="min-w-0">
+                        <p className="font-medium">
+                          {format(new Date(trip.startedAt), "PPp")}
+                          {" – "}
+                          {format(new Date(trip.endedAt), "p")}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {formatDuration(trip.duration * 1000)}
+                          {trip.idleTime > 0 && ` · ${formatDuration(trip.idleTime * 1000)} idle`}
+                        </p>
+                      </div>
+                      <div className="flex shrink-0 items-center gap-2">
+                        <Badge variant="secondary" className="font-mono">
+                          {trip.distance.toFixed(1)}
+                          {" "}
+                          {trip.distanceUnit}
+                        </Badge>
+                        <div className="text-right text-xs text-muted-foreground">
+                          <p>
+                            avg
+                            {" "}
+                            {formatSpeed(trip.avgSpeed, trip.speedUnit)}
+                          </p>
+                          <p>
+                            max
+                            {" "}
+                            {formatSpeed(trip.maxSpeed, trip.speedUnit)}
+                          </p>
+                        </div>
+                        <RouteExportMenu
+                          target={{ type: "trip", vehicleId, tripUUID: trip.uuid }}
+                          size="icon"
+                        />
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )
+            : (
+                <p className="py-6 text-center text-sm text-muted-foreground">
+                  No trips have been detected for this vehicle yet.
+                </p>
+              )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -24,6 +24,7 @@ export function LocationRouteStats({
   onFitToBounds 
 }: LocationRouteStatsProps) {
   const routeStats = calculateRouteStats(locations);
+  const speedUnit = locations[0]?.speedUnit;
 
   return (
     <motion.div variants={itemVariants}>
@@ -73,7 +74,7 @@ export function LocationRouteStats({
                       <div className="flex justify-between">
                         <span className="text-muted-foreground">Max Speed:</span>
                         <span className="font-medium">
-                          {formatSpeed(routeStats.maxSpeed)}
+                          {formatSpeed(routeStats.maxSpeed, speedUnit)}
                         </span>
                       </div>
                     )}
@@ -81,7 +82,7 @@ export function LocationRouteStats({
                       <div className="flex justify-between">
                         <span className="text-muted-foreground">Avg Speed:</span>
                         <span className="font-medium">
-                          {formatSpeed(routeStats.avgSpeed)}
+                          {formatSpeed(routeStats.avgSpeed, speedUnit)}
                         </span>
                       </div>
                     )}
@@ -149,13 +149,13 @@ export function LocationPlayback({ locations, isLoading, make, model }: Location
                 <div className="text-center">
                   <p className="text-xs text-muted-foreground">Speed</p>
                   <p className="text-sm font-medium">
-                    {currentLocation.speed ? `${currentLocation.speed.toFixed(1)} km/h` : "N/A"}
+                    {currentLocation.speed ? `${currentLocation.speed.toFixed(1)} ${currentLocation.speedUnit ?? "km/h"}` : "N/A"}
                   </p>
                 </div>
                 <div className="text-center">
                   <p className="text-xs text-muted-foreground">Altitude</p>
                   <p className="text-sm font-medium">
-                    {currentLocation.altitude ? `${currentLocation.altitude.toFixed(1)} m` : "N/A"}
+                    {currentLocation.altitude ? `${currentLocation.altitude.toFixed(1)} ${currentLocation.altitudeUnit ?? "m"}` : "N/A"}
                   </p>
                 </div>
                 <div className="text-center">
@@ -190,7 +190,7 @@ export const LocationPlaybackMap = forwardRef<LocationPlaybackMapRef, LocationPl
                       Speed:
                       {startLocation.speed.toFixed(1)}
                       {" "}
-                      km/h
+                      {startLocation.speedUnit ?? "km/h"}
                     </span>
                   </>
                 )}
@@ -218,7 +218,7 @@ export const LocationPlaybackMap = forwardRef<LocationPlaybackMapRef, LocationPl
                       Speed:
                       {endLocation.speed.toFixed(1)}
                       {" "}
-                      km/h
+                      {endLocation.speedUnit ?? "km/h"}
                     </span>
                   </>
                 )}
@@ -245,7 +245,7 @@ export const LocationPlaybackMap = forwardRef<LocationPlaybackMapRef, LocationPl
                       Speed:
                       {currentLocation.speed.toFixed(1)}
                       {" "}
-                      km/h
+                      {currentLocation.speedUnit ?? "km/h"}
                     </span>
                   </>
                 )}
@@ -256,7 +256,7 @@ export const LocationPlaybackMap = forwardRef<LocationPlaybackMapRef, LocationPl
                       Altitude:
                       {currentLocation.altitude.toFixed(1)}
                       {" "}
-                      m
+                      {currentLocation.altitudeUnit ?? "m"}
                     </span>
                   </>
                 )}
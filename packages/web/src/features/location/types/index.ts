@@ -7,6 +7,9 @@ export type LocationData = {
   altitude?: number | null;
   speed?: number | null;
   accuracy?: number | null;
+  // Units the server converted speed and altitude to
+  speedUnit?: "km/h" | "mph";
+  altitudeUnit?: "m" | "ft";
   timestamp: string;
 };
 
@@ -29,3 +32,19 @@ export type RoutePathData = {
   maxSpeed: number;
   locations: LocationWithParsedDates[];
 };
+
+// Boundary of a geofence as drawn on the map, polygon vertices are [latitude, longitude]
+export type GeofenceBoundary = {
+  shape: "circle" | "polygon";
+  centerLatitude: number | null;
+  centerLongitude: number | null;
+  radius: number | null;
+  polygon: [number, number][] | null;
+};
+
+export type RouteExportFormat = "gpx" | "kml" | "geojson";
+
+// What a route export covers: a whole diagnostic session or a single detected trip
+export type RouteExportTarget
+  = | { type: "diagnostic"; diagnosticUUID: string }
+    | { type: "trip"; vehicleId: string; tripUUID: string };
@@ -90,8 +90,8 @@ export function getLocationBounds(locations: LocationWithParsedDates[]): {
 /**
  * Format speed value for display
  */
-export function formatSpeed(speed: number): string {
-  return `${speed.toFixed(1)} km/h`;
+export function formatSpeed(speed: number, unit: string = "km/h"): string {
+  return `${speed.toFixed(1)} ${unit}`;
 }
 
 /**
@@ -205,3 +205,21 @@ export function simplifyRoute(
 
   return simplified;
 }
+
+/**
+ * Save a downloaded route document under the given file name
+ */
+export function downloadRouteFile(blob: Blob, filename: string): void {
+  const link = document.createElement("a");
+  const url = URL.createObjectURL(blob);
+
+  link.setAttribute("href", url);
+  link.setAttribute("download", filename);
+  link.style.display = "none";
+
+  document.body.appendChild(link);
+  link.click();
+
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
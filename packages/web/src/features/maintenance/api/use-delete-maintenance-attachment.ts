@@ -0,0 +1,33 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+
+import { api } from "@/lib/rpc";
+
+export function useDeleteMaintenanceAttachment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ maintenanceUUID, attachmentUUID }: { maintenanceUUID: string; attachmentUUID: string }) => {
+      const response = await api.maintenance[":maintenanceUUID"].attachments[":attachmentUUID"].$delete({
+        param: { maintenanceUUID, attachmentUUID },
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error((errorData as any).error || "Failed to delete attachment");
+      }
+
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: ["maintenance-history"],
+      });
+
+      toast.success("Attachment deleted successfully");
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to delete attachment");
+    },
+  });
+}
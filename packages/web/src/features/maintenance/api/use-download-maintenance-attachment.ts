@@ -0,0 +1,30 @@
+import { useMutation } from "@tanstack/react-query";
+import { toast } from "sonner";
+
+import { api } from "@/lib/rpc";
+
+import type { MaintenanceAttachment } from "../types";
+
+import { downloadAttachmentFile } from "../utils/maintenance-utils";
+
+export function useDownloadMaintenanceAttachment() {
+  return useMutation({
+    mutationFn: async (attachment: MaintenanceAttachment) => {
+      const response = await api.maintenance[":maintenanceUUID"].attachments[":attachmentUUID"].$get({
+        param: { maintenanceUUID: attachment.maintenanceLogUUID, attachmentUUID: attachment.uuid },
+        query: { download: "true" },
+      });
+
+      if (!response.ok) {
+        throw new Error(`Failed to download attachment: ${response.statusText}`);
+      }
+
+      downloadAttachmentFile(await response.blob(), attachment.fileName);
+    },
+    onError: (error: Error) => {
+      toast.error("Failed to download attachment", {
+        description: error.message,
+      });
+    },
+  });
+}
@@ -0,0 +1,46 @@
+import { useQuery } from "@tanstack/react-query";
+import { useEffect, useState } from "react";
+
+import { api } from "@/lib/rpc";
+
+import type { MaintenanceAttachment } from "../types";
+
+/**
+ * Object URL of an image attachment for showing a thumbnail. Attachments are
+ * not public, so the file is fetched with the session and kept as a blob.
+ */
+export function useGetMaintenanceAttachmentPreview(attachment: MaintenanceAttachment, enabled: boolean) {
+  const { data: blob } = useQuery({
+    queryKey: ["maintenance-attachment", attachment.uuid],
+    queryFn: async (): Promise<Blob> => {
+      const response = await api.maintenance[":maintenanceUUID"].attachments[":attachmentUUID"].$get({
+        param: { maintenanceUUID: attachment.maintenanceLogUUID, attachmentUUID: attachment.uuid },
+        query: {},
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to fetch attachment");
+      }
+
+      return await response.blob();
+    },
+    enabled,
+    // Stored files never change
+    staleTime: Infinity,
+  });
+
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!blob) {
+      return;
+    }
+
+    const url = URL.createObjectURL(blob);
+    setPreviewUrl(url);
+
+    return () => URL.revokeObjectURL(url);
+  }, [blob]);
+
+  return previewUrl;
+}
@@ -0,0 +1,24 @@
+import { useQuery } from "@tanstack/react-query";
+
+import { api } from "@/lib/rpc";
+
+import type { UpcomingMaintenance } from "../types";
+
+export function useGetUpcomingMaintenance({ vehicleUUID }: { vehicleUUID: string }) {
+  return useQuery({
+    queryKey: ["maintenance-history", vehicleUUID, "upcoming"],
+    queryFn: async (): Promise<UpcomingMaintenance> => {
+      const response = await api.vehicles[":vehicleUUID"]["maintenance-schedules"].upcoming.$get({
+        param: { vehicleUUID },
+        query: {},
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to fetch upcoming maintenance");
+      }
+
+      return await response.json();
+    },
+    enabled: !!vehicleUUID,
+  });
+}
@@ -0,0 +1,41 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+
+import { api } from "@/lib/rpc";
+
+import type { MaintenanceEntryResponse, UpdateMaintenanceEntry } from "../types";
+
+export function useUpdateMaintenanceEntry() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ maintenanceUUID, data }: { maintenanceUUID: string; data: UpdateMaintenanceEntry }): Promise<MaintenanceEntryResponse> => {
+      const result = await api.maintenance[":maintenanceUUID"].$patch({
+        param: { maintenanceUUID },
+        json: data,
+      });
+
+      if (!result.ok) {
+        const error = await result.json() as { error?: string };
+        throw new Error(error.error || "Failed to update maintenance entry");
+      }
+
+      return await result.json() as MaintenanceEntryResponse;
+    },
+    onSuccess: (data) => {
+      // The history and the upcoming services both depend on the entry
+      queryClient.invalidateQueries({
+        queryKey: ["maintenance-history", data.maintenanceEntry.vehicleUUID],
+      });
+
+      toast.success("Maintenance entry updated successfully!", {
+        description: data.message,
+      });
+    },
+    onError: (error: Error) => {
+      toast.error("Failed to update maintenance entry", {
+        description: error.message,
+      });
+    },
+  });
+}
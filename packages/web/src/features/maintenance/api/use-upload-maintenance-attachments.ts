@@ -0,0 +1,38 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+
+import { api } from "@/lib/rpc";
+
+import type { MaintenanceAttachment } from "../types";
+
+export function useUploadMaintenanceAttachments() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ maintenanceUUID, files }: { maintenanceUUID: string; files: File[] }) => {
+      const response = await api.maintenance[":maintenanceUUID"].attachments.$post({
+        param: { maintenanceUUID },
+        form: { file: files },
+      });
+
+      if (!response.ok) {
+        const error = await response.json() as { error?: string };
+        throw new Error(error.error || "Failed to upload attachments");
+      }
+
+      return await response.json() as { attachments: MaintenanceAttachment[]; message: string };
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({
+        queryKey: ["maintenance-history"],
+      });
+
+      toast.success(data.attachments.length === 1 ? "Attachment uploaded" : `${data.attachments.length} attachments uploaded`);
+    },
+    onError: (error: Error) => {
+      toast.error("Failed to upload attachments", {
+        description: error.message,
+      });
+    },
+  });
+}
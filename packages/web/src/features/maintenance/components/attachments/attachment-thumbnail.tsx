@@ -0,0 +1,55 @@
+import { DownloadIcon, FileTextIcon, ImageIcon, XIcon } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+
+import type { MaintenanceAttachment } from "../../types";
+
+import { useDeleteMaintenanceAttachment } from "../../api/use-delete-maintenance-attachment";
+import { useDownloadMaintenanceAttachment } from "../../api/use-download-maintenance-attachment";
+import { useGetMaintenanceAttachmentPreview } from "../../api/use-get-maintenance-attachment-preview";
+import { formatFileSize, isPreviewableAttachment } from "../../utils/maintenance-utils";
+
+type AttachmentThumbnailProps = {
+  attachment: MaintenanceAttachment;
+};
+
+export function AttachmentThumbnail({ attachment }: AttachmentThumbnailProps) {
+  const isPreviewable = isPreviewableAttachment(attachment.contentType);
+  const previewUrl = useGetMaintenanceAttachmentPreview(attachment, isPreviewable);
+  const downloadAttachment = useDownloadMaintenanceAttachment();
+  const deleteAttachment = useDeleteMaintenanceAttachment();
+
+  const FileIcon = attachment.contentType === "application/pdf" ? FileTextIcon : ImageIcon;
+
+  return (
+    <div className="group relative w-24 space-y-1">
+      <button
+        type="button"
+        className="flex h-24 w-24 items-center justify-center overflow-hidden rounded-lg border bg-muted/50 cursor-pointer hover:border-primary transition-colors"
+        onClick={() => downloadAttachment.mutate(attachment)}
+        disabled={downloadAttachment.isPending}
+        title={`Download ${attachment.fileName}`}
+      >
+        {previewUrl
+          ? <img src={previewUrl} alt={attachment.fileName} className="h-full w-full object-cover" />
+          : <FileIcon className="h-8 w-8 text-muted-foreground" />}
+        <span className="absolute inset-x-0 top-0 flex h-24 items-center justify-center rounded-lg bg-background/60 opacity-0 group-hover:opacity-100 transition-opacity">
+          <DownloadIcon className="h-5 w-5 text-foreground" />
+        </span>
+      </button>
+      <Button
+        type="button"
+        variant="secondary"
+        size="sm"
+        className="absolute -right-2 -top-2 h-6 w-6 rounded-full p-0 opacity-0 group-hover:opacity-100 hover:text-destructive"
+        onClick={() => deleteAttachment.mutate({ maintenanceUUID: attachment.maintenanceLogUUID, attachmentUUID: attachment.uuid })}
+        disabled={deleteAttachment.isPending}
+        aria-label={`Delete ${attachment.fileName}`}
+      >
+        <XIcon className="h-3 w-3" />
+      </Button>
+      <p className="truncate text-xs text-foreground" title={attachment.fileName}>{attachment.fileName}</p>
+      <p className="text-xs text-muted-foreground">{formatFileSize(attachment.size)}</p>
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+import { PaperclipIcon, UploadIcon } from "lucide-react";
+import { useRef } from "react";
+
+import { Button } from "@/components/ui/button";
+
+import type { MaintenanceEntry } from "../../types";
+
+import { useUploadMaintenanceAttachments } from "../../api/use-upload-maintenance-attachments";
+import { AttachmentThumbnail } from "./attachment-thumbnail";
+
+// HEIC photos often have no MIME type in the browser, so extensions are listed too
+const ACCEPTED_FILE_TYPES = ".pdf,.jpg,.jpeg,.png,.heic,.heif,application/pdf,image/jpeg,image/png,image/heic,image/heif";
+
+type MaintenanceAttachmentsProps = {
+  entry: MaintenanceEntry;
+};
+
+export function MaintenanceAttachments({ entry }: MaintenanceAttachmentsProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const uploadAttachments = useUploadMaintenanceAttachments();
+
+  const handleFilesSelected = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    // Allow picking the same file again after an upload
+    event.target.value = "";
+
+    if (files.length > 0) {
+      uploadAttachments.mutate({ maintenanceUUID: entry.uuid, files });
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <div className="flex items-center justify-center w-8 h-8 bg-chart-3/10 rounded-lg">
+            <PaperclipIcon className="h-4 w-4 text-chart-3" />
+          </div>
+          <h4 className="text-sm font-medium text-foreground">Receipts & Documents</h4>
+        </div>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => inputRef.current?.click()}
+          disabled={uploadAttachments.isPending}
+        >
+          <UploadIcon className="h-4 w-4" />
+          {uploadAttachments.isPending ? "Uploading..." : "Attach"}
+        </Button>
+        <input
+          ref={inputRef}
+          type="file"
+          accept={ACCEPTED_FILE_TYPES}
+          multiple
+          className="hidden"
+          onChange={handleFilesSelected}
+        />
+      </div>
+
+      {entry.attachments.length > 0
+        ? (
+            <div className="flex flex-wrap gap-3 ml-10">
+              {entry.attachments.map(attachment => (
+                <AttachmentThumbnail key={attachment.uuid} attachment={attachment} />
+              ))}
+            </div>
+          )
+        : (
+            <p className="ml-10 text-xs text-muted-foreground">
+              Attach invoices, receipts or photos (PDF, JPEG, PNG or HEIC)
+            </p>
+          )}
+    </div>
+  );
+}
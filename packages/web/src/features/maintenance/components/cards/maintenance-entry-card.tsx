@@ -7,6 +7,7 @@ import {
   MailIcon,
   MoreVerticalIcon,
   PhoneIcon,
+  ReceiptIcon,
   StickyNoteIcon,
   TrendingUpIcon,
   WrenchIcon,
@@ -34,15 +35,18 @@ import {
   getWorkshopDisplayName,
   isRecentMaintenance,
 } from "../../utils/maintenance-utils";
+import { MaintenanceAttachments } from "../attachments/maintenance-attachments";
 import { DeleteMaintenanceDialog } from "../dialogs/delete-maintenance-dialog";
+import { EditMaintenanceDialog } from "../dialogs/edit-maintenance-dialog";
 import { ServiceTypeBadge } from "../shared/service-type-badge";
 
 type MaintenanceEntryCardProps = {
   entry: MaintenanceEntry;
+  distanceUnit?: string;
   index: number;
 };
 
-export function MaintenanceEntryCard({ entry, index }: MaintenanceEntryCardProps) {
+export function MaintenanceEntryCard({ entry, distanceUnit, index }: MaintenanceEntryCardProps) {
   const relativeTime = formatDistanceToNow(parseISO(entry.serviceDate), { addSuffix: true });
   const isRecent = isRecentMaintenance(entry);
   const hasMultipleServices = entry.serviceTypes.length > 1;
@@ -104,6 +108,14 @@ export function MaintenanceEntryCard({ entry, index }: MaintenanceEntryCardProps
                     </Button>
                   </DropdownMenuTrigger>
                   <DropdownMenuContent align="end">
+                    <EditMaintenanceDialog entry={entry}>
+                      <DropdownMenuItem
+                        className="cursor-pointer"
+                        onSelect={e => e.preventDefault()}
+                      >
+                        Edit Entry
+                      </DropdownMenuItem>
+                    </EditMaintenanceDialog>
                     <DeleteMaintenanceDialog entry={entry}>
                       <DropdownMenuItem
                         className="text-destructive cursor-pointer"
@@ -179,7 +191,7 @@ export function MaintenanceEntryCard({ entry, index }: MaintenanceEntryCardProps
                   </div>
                   <div className="flex-1">
                     <h4 className="text-sm font-medium text-foreground">Odometer Reading</h4>
-                    <p className="text-sm text-muted-foreground">{formatOdometer(entry.odometer)}</p>
+                    <p className="text-sm text-muted-foreground">{formatOdometer(entry.odometer, distanceUnit)}</p>
                   </div>
                 </div>
               )}
@@ -210,6 +222,38 @@ export function MaintenanceEntryCard({ entry, index }: MaintenanceEntryCardProps
             )}
           </div>
 
+          {/* Itemized parts and labour */}
+          {entry.lineItems.length > 0 && (
+            <>
+              <Separator />
+              <div className="space-y-3">
+                <div className="flex items-center gap-2">
+                  <div className="flex items-center justify-center w-8 h-8 bg-chart-5/10 rounded-lg">
+                    <ReceiptIcon className="h-4 w-4 text-chart-5" />
+                  </div>
+                  <h4 className="text-sm font-medium text-foreground">Parts & Labour</h4>
+                </div>
+                <ul className="space-y-1.5 ml-10">
+                  {entry.lineItems.map(item => (
+                    <li key={item.uuid} className="flex items-start justify-between gap-4 text-sm">
+                      <div>
+                        <p className="text-foreground">{item.description}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {item.labourHours !== null
+                            ? `${item.labourHours} h × ${formatCost(item.unitPrice)}`
+                            : `${item.quantity} × ${formatCost(item.unitPrice)}`}
+                          {item.partNumber && ` · ${item.partNumber}`}
+                          {item.taxRate > 0 && ` · ${item.taxRate}% tax`}
+                        </p>
+                      </div>
+                      <span className="font-medium text-foreground">{formatCost(item.total)}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            </>
+          )}
+
           {/* Notes section - more prominent presentation */}
           {entry.notes && (
             <>
@@ -234,6 +278,9 @@ export function MaintenanceEntryCard({ entry, index }: MaintenanceEntryCardProps
             </>
           )}
 
+          <Separator />
+          <MaintenanceAttachments entry={entry} />
+
           {/* Metadata footer */}
           <div className="flex justify-between items-center pt-2 text-xs text-muted-foreground border-t border-border bg-muted/30 -mx-6 px-6 py-3 mt-4">
             <span className="flex items-center gap-1">
@@ -0,0 +1,55 @@
+import { PencilIcon } from "lucide-react";
+import { useState } from "react";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+
+import type { MaintenanceEntry } from "../../types";
+
+import { AddMaintenanceForm } from "../forms/add-maintenance-form";
+
+type EditMaintenanceDialogProps = {
+  entry: MaintenanceEntry;
+  children?: React.ReactNode;
+};
+
+export function EditMaintenanceDialog({ entry, children }: EditMaintenanceDialogProps) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        {children || (
+          <Button variant="outline" size="sm">
+            <PencilIcon className="h-4 w-4" />
+          </Button>
+        )}
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Edit Maintenance Entry</DialogTitle>
+          <DialogDescription>
+            Correct the details, services or cost breakdown of this entry.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="mt-4">
+          {/* Mounted only while open so the form starts from the latest entry */}
+          {open && (
+            <AddMaintenanceForm
+              vehicleUUID={entry.vehicleUUID}
+              entry={entry}
+              onSuccess={() => setOpen(false)}
+            />
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -12,16 +12,22 @@ import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, Command
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Switch } from "@/components/ui/switch";
 import { Textarea } from "@/components/ui/textarea";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { cn } from "@/lib/utils";
 
-import type { CreateMaintenanceEntry } from "../../types";
+import type { CreateMaintenanceEntry, MaintenanceEntry, MaintenanceLineItemInput, UpdateMaintenanceEntry } from "../../types";
+import type { MaintenanceLineItemDraft } from "./maintenance-line-items-editor";
 
+import { useGetUnitPreferences } from "../../../account/api/use-get-unit-preferences";
 import { FieldErrorIconTooltip } from "../../../auth/components/field-error-icon-tooltip";
 import { useCreateMaintenanceEntry } from "../../api/use-create-maintenance-entry";
+import { useUpdateMaintenanceEntry } from "../../api/use-update-maintenance-entry";
 import { SERVICE_TYPE_CATEGORIES, SERVICE_TYPE_LABELS, SERVICE_TYPES } from "../../types";
 import { itemVariants } from "../../utils/animation-variants";
+import { getWorkshopDisplayName } from "../../utils/maintenance-utils";
+import { createLineItemDraft, MaintenanceLineItemsEditor, toLineItemDraft, toLineItemInput } from "./maintenance-line-items-editor";
 
 const maintenanceFormSchema = z.object({
   serviceTypes: z.array(z.enum(SERVICE_TYPES)).min(1, "Please select at least one service type"),
@@ -32,25 +38,47 @@ const maintenanceFormSchema = z.object({
   customServiceWorkshopName: z.string().min(1, "Workshop name is required"),
   cost: z.number().optional(),
   notes: z.string().optional(),
+  lineItems: z.array(z.custom<MaintenanceLineItemInput>()).optional(),
 });
 
+/**
+ * Error message for the line items of an itemized entry, if any
+ */
+function validateLineItems(drafts: MaintenanceLineItemDraft[]) {
+  if (drafts.length === 0) {
+    return "Please add at least one line item";
+  }
+  return drafts.every(draft => toLineItemInput(draft) !== null)
+    ? undefined
+    : "Every line item needs a description, an amount and a price";
+}
+
 type AddMaintenanceFormProps = {
   vehicleUUID: string;
+  // Entry to edit, a new entry is created when omitted
+  entry?: MaintenanceEntry;
   onSuccess?: () => void;
 };
 
-export function AddMaintenanceForm({ vehicleUUID, onSuccess }: AddMaintenanceFormProps) {
+export function AddMaintenanceForm({ vehicleUUID, entry, onSuccess }: AddMaintenanceFormProps) {
   const createMaintenanceMutation = useCreateMaintenanceEntry();
+  const updateMaintenanceMutation = useUpdateMaintenanceEntry();
+  const isPending = createMaintenanceMutation.isPending || updateMaintenanceMutation.isPending;
   const [serviceTypesOpen, setServiceTypesOpen] = useState(false);
+  const { data: unitPreferences } = useGetUnitPreferences();
+  const distanceUnit = unitPreferences?.units.distance ?? "km";
 
   const form = useForm({
     defaultValues: {
-      serviceTypes: [] as (typeof SERVICE_TYPES)[number][],
-      serviceDate: undefined as Date | undefined,
-      odometer: undefined as number | undefined,
-      customServiceWorkshopName: "",
-      cost: undefined as number | undefined,
-      notes: "",
+      serviceTypes: (entry?.serviceTypes ?? []) as (typeof SERVICE_TYPES)[number][],
+      serviceDate: (entry ? new Date(entry.serviceDate) : undefined) as Date | undefined,
+      odometer: (entry?.odometer ?? undefined) as number | undefined,
+      customServiceWorkshopName: entry ? getWorkshopDisplayName(entry) : "",
+      cost: (entry?.cost ?? undefined) as number | undefined,
+      notes: entry?.notes ?? "",
+      // Itemized entries are priced from their parts and labour lines
+      itemized: (entry?.lineItems.length ?? 0) > 0,
+      lineItems: entry?.lineItems.length ? entry.lineItems.map(toLineItemDraft) : [createLineItemDraft()],
     },
     onSubmit: async ({ value }) => {
       // Validate using Zod schema
@@ -59,8 +87,11 @@ export function AddMaintenanceForm({ vehicleUUID, onSuccess }: AddMaintenanceFor
         serviceDate: value.serviceDate,
         odometer: value.odometer,
         customServiceWorkshopName: value.customServiceWorkshopName,
-        cost: value.cost,
+        cost: value.itemized ? undefined : value.cost,
         notes: value.notes,
+        lineItems: value.itemized
+          ? value.lineItems.map(toLineItemInput).filter(item => item !== null)
+          : undefined,
       });
 
       if (!result.success) {
@@ -69,14 +100,42 @@ export function AddMaintenanceForm({ vehicleUUID, onSuccess }: AddMaintenanceFor
         return;
       }
 
+      if (entry) {
+        const workshopName = result.data.customServiceWorkshopName;
+        const updateData: UpdateMaintenanceEntry = {
+          serviceTypes: result.data.serviceTypes,
+          serviceDate: result.data.serviceDate.toISOString(),
+          odometer: result.data.odometer ?? null,
+          odometerUnit: distanceUnit,
+          // A new workshop is only created when the name was changed
+          customServiceWorkshopName: workshopName !== getWorkshopDisplayName(entry) ? workshopName : undefined,
+          notes: result.data.notes || null,
+          ...(result.data.lineItems
+            ? { lineItems: result.data.lineItems }
+            : { cost: result.data.cost ?? null, lineItems: entry.lineItems.length > 0 ? [] : undefined }),
+        };
+
+        try {
+          await updateMaintenanceMutation.mutateAsync({ maintenanceUUID: entry.uuid, data: updateData });
+          onSuccess?.();
+        }
+        catch (error) {
+          // Error is handled by the mutation's onError callback
+          console.error("Failed to update maintenance entry:", error);
+        }
+        return;
+      }
+
       const formData: CreateMaintenanceEntry = {
         vehicleUUID,
         serviceTypes: result.data.serviceTypes,
         serviceDate: result.data.serviceDate.toISOString(),
         odometer: result.data.odometer,
+        odometerUnit: distanceUnit,
         customServiceWorkshopName: result.data.customServiceWorkshopName,
         cost: result.data.cost,
         notes: result.data.notes || undefined,
+        lineItems: result.data.lineItems,
       };
 
       try {
@@ -290,7 +349,13 @@ export function AddMaintenanceForm({ vehicleUUID, onSuccess }: AddMaintenanceFor
           <form.Field name="odometer">
             {field => (
               <div className="space-y-2">
-                <Label htmlFor={field.name}>Odometer Reading (Optional)</Label>
+                <Label htmlFor={field.name}>
+                  Odometer Reading in
+                  {" "}
+                  {distanceUnit}
+                  {" "}
+                  (Optional)
+                </Label>
                 <div className="relative">
                   <GaugeIcon className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
                   <Input
@@ -374,68 +439,119 @@ export function AddMaintenanceForm({ vehicleUUID, onSuccess }: AddMaintenanceFor
             }}
           </form.Field>
 
-          {/* Cost */}
-          <form.Field name="cost">
+          {/* Itemized toggle */}
+          <form.Field name="itemized">
             {field => (
-              <div className="space-y-2">
-                <Label htmlFor={field.name}>Cost (Optional)</Label>
-                <div className="relative">
-                  <DollarSignIcon className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
-                  <Input
-                    id={field.name}
-                    type="text"
-                    inputMode="decimal"
-                    value={field.state.value ? field.state.value.toString() : ""}
-                    onBlur={field.handleBlur}
-                    onChange={(e) => {
-                      const value = e.target.value;
-                      // Allow empty string
-                      if (value === "") {
-                        field.handleChange(undefined);
-                        return;
-                      }
-                      // Only allow numbers, decimal point, and one decimal point max
-                      const numericRegex = /^\d*\.?\d{0,2}$/;
-                      if (numericRegex.test(value)) {
-                        const numValue = Number.parseFloat(value);
-                        if (!Number.isNaN(numValue) && numValue >= 0) {
-                          field.handleChange(numValue);
-                        }
-                        else if (value.match(/^\d*\.?$/)) {
-                          // Allow partial input like "123." or "."
-                          field.handleChange(value === "." ? undefined : Number.parseFloat(value) || undefined);
-                        }
-                      }
-                    }}
-                    onKeyDown={(e) => {
-                      // Prevent non-numeric characters except backspace, delete, tab, escape, enter, and decimal point
-                      if (
-                        !((e.key >= "0" && e.key <= "9")
-                          || e.key === "."
-                          || e.key === "Backspace"
-                          || e.key === "Delete"
-                          || e.key === "Tab"
-                          || e.key === "Escape"
-                          || e.key === "Enter"
-                          || e.key === "ArrowLeft"
-                          || e.key === "ArrowRight"
-                          || (e.ctrlKey && (e.key === "a" || e.key === "c" || e.key === "v" || e.key === "x")))
-                      ) {
-                        e.preventDefault();
-                      }
-                      // Prevent multiple decimal points
-                      if (e.key === "." && e.currentTarget.value.includes(".")) {
-                        e.preventDefault();
-                      }
-                    }}
-                    placeholder="0.00"
-                    className="pl-10 [appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none"
-                  />
+              <div className="flex items-center justify-between rounded-lg border p-3">
+                <div className="space-y-0.5">
+                  <Label htmlFor={field.name}>Itemize Parts & Labour</Label>
+                  <p className="text-xs text-muted-foreground">
+                    The cost is the sum of the line items
+                  </p>
                 </div>
+                <Switch
+                  id={field.name}
+                  checked={field.state.value}
+                  onCheckedChange={checked => field.handleChange(checked)}
+                />
               </div>
             )}
           </form.Field>
 
+          <form.Subscribe selector={state => state.values.itemized}>
+            {itemized => itemized
+              ? (
+                  // Line items
+                  <form.Field
+                    name="lineItems"
+                    validators={{
+                      onSubmit: ({ value }) => validateLineItems(value),
+                    }}
+                  >
+                    {(field) => {
+                      const hasError = field.state.meta.errors && field.state.meta.errors.length > 0;
+
+                      return (
+                        <div className="space-y-2">
+                          <Label>Line Items</Label>
+                          <MaintenanceLineItemsEditor
+                            value={field.state.value}
+                            onChange={value => field.handleChange(value)}
+                            hasError={hasError}
+                          />
+                          {hasError && (
+                            <p className="text-xs text-destructive">{field.state.meta.errors.join(", ")}</p>
+                          )}
+                        </div>
+                      );
+                    }}
+                  </form.Field>
+                )
+              : (
+                  // Cost
+                  <form.Field name="cost">
+                    {field => (
+                      <div className="space-y-2">
+                        <Label htmlFor={field.name}>Cost (Optional)</Label>
+                        <div className="relative">
+                          <DollarSignIcon className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                          <Input
+                            id={field.name}
+                            type="text"
+                            inputMode="decimal"
+                            value={field.state.value ? field.state.value.toString() : ""}
+                            onBlur={field.handleBlur}
+                            onChange={(e) => {
+                              const value = e.target.value;
+                              // Allow empty string
+                              if (value === "") {
+                                field.handleChange(undefined);
+                                return;
+                              }
+                              // Only allow numbers, decimal point, and one decimal point max
+                              const numericRegex = /^\d*\.?\d{0,2}$/;
+                              if (numericRegex.test(value)) {
+                                const numValue = Number.parseFloat(value);
+                                if (!Number.isNaN(numValue) && numValue >= 0) {
+                                  field.handleChange(numValue);
+                                }
+                                else if (value.match(/^\d*\.?$/)) {
+                                  // Allow partial input like "123." or "."
+                                  field.handleChange(value === "." ? undefined : Number.parseFloat(value) || undefined);
+                                }
+                              }
+                            }}
+                            onKeyDown={(e) => {
+                              // Prevent non-numeric characters except backspace, delete, tab, escape, enter, and decimal point
+                              if (
+                                !((e.key >= "0" && e.key <= "9")
+                                  || e.key === "."
+                                  || e.key === "Backspace"
+                                  || e.key === "Delete"
+                                  || e.key === "Tab"
+                                  || e.key === "Escape"
+                                  || e.key === "Enter"
+                                  || e.key === "ArrowLeft"
+                                  || e.key === "ArrowRight"
+                                  || (e.ctrlKey && (e.key === "a" || e.key === "c" || e.key === "v" || e.key === "x")))
+                              ) {
+                                e.preventDefault();
+                              }
+                              // Prevent multiple decimal points
+                              if (e.key === "." && e.currentTarget.value.includes(".")) {
+                                e.preventDefault();
+                              }
+                            }}
+                            placeholder="0.00"
+                            className="pl-10 [appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none"
+                          />
+                        </div>
+                      </div>
+                    )}
+                  </form.Field>
+                )}
+          </form.Subscribe>
+
           {/* Notes */}
           <form.Field name="notes">
             {field => (
@@ -457,10 +573,12 @@ export function AddMaintenanceForm({ vehicleUUID, onSuccess }: AddMaintenanceFor
           <div className="flex justify-end pt-4">
             <Button
               type="submit"
-              disabled={createMaintenanceMutation.isPending}
+              disabled={isPending}
               className="w-full sm:w-auto"
             >
-              {createMaintenanceMutation.isPending ? "Adding..." : "Add Maintenance Entry"}
+              {entry
+                ? (isPending ? "Saving..." : "Save Changes")
+                : (isPending ? "Adding..." : "Add Maintenance Entry")}
             </Button>
           </div>
         </form>
@@ -0,0 +1,183 @@
+import { PlusIcon, TrashIcon } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+
+import type { MaintenanceLineItem, MaintenanceLineItemInput } from "../../types";
+
+import { formatCost, getLineItemTotal } from "../../utils/maintenance-utils";
+
+// Line item as typed in the form, numbers are kept as text while editing
+export type MaintenanceLineItemDraft = {
+  isLabour: boolean;
+  description: string;
+  partNumber: string;
+  // Quantity for parts, hours for labour
+  amount: string;
+  unitPrice: string;
+  taxRate: string;
+};
+
+export function createLineItemDraft(): MaintenanceLineItemDraft {
+  return { isLabour: false, description: "", partNumber: "", amount: "1", unitPrice: "", taxRate: "0" };
+}
+
+export function toLineItemDraft(item: MaintenanceLineItem): MaintenanceLineItemDraft {
+  return {
+    isLabour: item.labourHours !== null,
+    description: item.description,
+    partNumber: item.partNumber ?? "",
+    amount: String(item.labourHours ?? item.quantity),
+    unitPrice: String(item.unitPrice),
+    taxRate: String(item.taxRate),
+  };
+}
+
+/**
+ * Convert a draft to the API payload, or null while it is incomplete
+ */
+export function toLineItemInput(draft: MaintenanceLineItemDraft): MaintenanceLineItemInput | null {
+  const amount = Number.parseFloat(draft.amount);
+  const unitPrice = Number.parseFloat(draft.unitPrice);
+  const taxRate = draft.taxRate === "" ? 0 : Number.parseFloat(draft.taxRate);
+
+  if (!draft.description.trim() || !(amount > 0) || Number.isNaN(unitPrice) || Number.isNaN(taxRate) || taxRate > 100) {
+    return null;
+  }
+
+  return {
+    description: draft.description.trim(),
+    partNumber: draft.partNumber.trim() || null,
+    quantity: draft.isLabour ? 1 : amount,
+    labourHours: draft.isLabour ? amount : null,
+    unitPrice,
+    taxRate,
+  };
+}
+
+const decimalRegex = /^\d*(?:\.\d*)?$/;
+
+type MaintenanceLineItemsEditorProps = {
+  value: MaintenanceLineItemDraft[];
+  onChange: (value: MaintenanceLineItemDraft[]) => void;
+  hasError?: boolean;
+};
+
+export function MaintenanceLineItemsEditor({ value, onChange, hasError }: MaintenanceLineItemsEditorProps) {
+  const updateItem = (index: number, changes: Partial<MaintenanceLineItemDraft>) => {
+    onChange(value.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+  };
+
+  const updateDecimal = (index: number, key: "amount" | "unitPrice" | "taxRate", text: string) => {
+    if (decimalRegex.test(text)) {
+      updateItem(index, { [key]: text });
+    }
+  };
+
+  const total = value.reduce((sum, draft) => {
+    const item = toLineItemInput(draft);
+    return item ? sum + getLineItemTotal(item) : sum;
+  }, 0);
+
+  return (
+    <div className="space-y-3">
+      {value.map((draft, index) => {
+        const item = toLineItemInput(draft);
+
+        return (
+          <div key={index} className="space-y-2 rounded-lg border p-3">
+            <div className="flex items-center gap-2">
+              <Input
+                value={draft.description}
+                onChange={e => updateItem(index, { description: e.target.value })}
+                placeholder={draft.isLabour ? "e.g., Brake pad fitting" : "e.g., Front brake pads"}
+                className={hasError && !draft.description.trim() ? "!border-destructive" : undefined}
+                aria-label="Description"
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-9 w-9 p-0 text-muted-foreground hover:text-destructive"
+                onClick={() => onChange(value.filter((_, i) => i !== index))}
+                aria-label="Remove line item"
+              >
+                <TrashIcon className="h-4 w-4" />
+              </Button>
+            </div>
+
+            <div className="grid grid-cols-2 gap-2 sm:grid-cols-4">
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Part Number</Label>
+                <Input
+                  value={draft.partNumber}
+                  onChange={e => updateItem(index, { partNumber: e.target.value })}
+                  placeholder="Optional"
+                  disabled={draft.isLabour}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">{draft.isLabour ? "Hours" : "Quantity"}</Label>
+                <Input
+                  inputMode="decimal"
+                  value={draft.amount}
+                  onChange={e => updateDecimal(index, "amount", e.target.value)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">{draft.isLabour ? "Hourly Rate" : "Unit Price"}</Label>
+                <Input
+                  inputMode="decimal"
+                  value={draft.unitPrice}
+                  onChange={e => updateDecimal(index, "unitPrice", e.target.value)}
+                  placeholder="0.00"
+                  className={hasError && draft.unitPrice === "" ? "!border-destructive" : undefined}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Tax %</Label>
+                <Input
+                  inputMode="decimal"
+                  value={draft.taxRate}
+                  onChange={e => updateDecimal(index, "taxRate", e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <Switch
+                  id={`line-item-labour-${index}`}
+                  checked={draft.isLabour}
+                  onCheckedChange={isLabour => updateItem(index, { isLabour, partNumber: isLabour ? "" : draft.partNumber })}
+                />
+                <Label htmlFor={`line-item-labour-${index}`} className="text-xs">Labour</Label>
+              </div>
+              <span className="text-sm font-medium">
+                {item ? formatCost(getLineItemTotal(item)) : "—"}
+              </span>
+            </div>
+          </div>
+        );
+      })}
+
+      <div className="flex items-center justify-between">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => onChange([...value, createLineItemDraft()])}
+        >
+          <PlusIcon className="h-4 w-4" />
+          Add Line
+        </Button>
+        <p className="text-sm">
+          <span className="text-muted-foreground">Total </span>
+          <span className="font-semibold">{formatCost(total)}</span>
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -9,10 +9,11 @@ import { MaintenanceHistorySkeleton } from "./maintenance-history-skeleton";
 
 type MaintenanceHistoryListProps = {
   entries: MaintenanceEntry[];
+  distanceUnit?: string;
   isLoading?: boolean;
 };
 
-export function MaintenanceHistoryList({ entries, isLoading }: MaintenanceHistoryListProps) {
+export function MaintenanceHistoryList({ entries, distanceUnit, isLoading }: MaintenanceHistoryListProps) {
   if (isLoading) {
     return <MaintenanceHistorySkeleton />;
   }
@@ -32,6 +33,7 @@ export function MaintenanceHistoryList({ entries, isLoading }: MaintenanceHistor
         <MaintenanceEntryCard
           key={entry.uuid}
           entry={entry}
+          distanceUnit={distanceUnit}
           index={index}
         />
       ))}
@@ -0,0 +1,93 @@
+import { motion } from "framer-motion";
+import { CalendarClockIcon, CheckCircle2Icon } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { cn } from "@/lib/utils";
+
+import { useGetUpcomingMaintenance } from "../../api/use-get-upcoming-maintenance";
+import { itemVariants } from "../../utils/animation-variants";
+import {
+  formatMaintenanceDue,
+  formatOdometer,
+  formatServiceDate,
+  getMaintenanceDueStatusClassName,
+  getServiceTypeLabel,
+  MAINTENANCE_DUE_STATUS_LABELS,
+} from "../../utils/maintenance-utils";
+
+type UpcomingMaintenanceCardProps = {
+  vehicleUUID: string;
+};
+
+export function UpcomingMaintenanceCard({ vehicleUUID }: UpcomingMaintenanceCardProps) {
+  const { data, isLoading, isError } = useGetUpcomingMaintenance({ vehicleUUID });
+
+  return (
+    <motion.div variants={itemVariants} initial="hidden" animate="visible">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2">
+              Upcoming Maintenance
+              {data && data.items.length > 0 && (
+                <Badge variant="secondary" className="text-xs">
+                  {data.items.length}
+                </Badge>
+              )}
+            </CardTitle>
+            <CardDescription>
+              {data?.currentOdometer != null
+                ? `Based on the latest odometer reading of ${formatOdometer(data.currentOdometer, data.distanceUnit)}`
+                : "Based on your service history and schedule"}
+            </CardDescription>
+          </div>
+          <CalendarClockIcon className="h-4 w-4 text-muted-foreground" />
+        </CardHeader>
+        <CardContent>
+          {isLoading
+            ? (
+                <div className="space-y-3">
+                  {Array.from({ length: 3 }).map((_, index) => (
+                    <Skeleton key={index} className="h-12 w-full" />
+                  ))}
+                </div>
+              )
+            : isError || !data
+              ? (
+                  <p className="text-sm text-muted-foreground">Could not load the maintenance schedule.</p>
+                )
+              : data.items.length === 0
+                ? (
+                    <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                      <CheckCircle2Icon className="h-4 w-4 text-chart-2" />
+                      Nothing due in the next few weeks.
+                    </div>
+                  )
+                : (
+                    <ul className="divide-y">
+                      {data.items.map(item => (
+                        <li key={item.scheduleUUID} className="flex items-center justify-between gap-4 py-3 first:pt-0 last:pb-0">
+                          <div className="min-w-0">
+                            <p className="font-medium truncate">{getServiceTypeLabel(item.serviceType)}</p>
+                            <p className="text-xs text-muted-foreground">
+                              {formatMaintenanceDue(item, data.distanceUnit)}
+                              {item.lastService && ` · last done ${formatServiceDate(item.lastService.serviceDate)}`}
+                            </p>
+                          </div>
+                          <Badge
+                            variant="outline"
+                            className={cn("text-xs font-medium border shrink-0", getMaintenanceDueStatusClassName(item.status))}
+                          >
+                            {MAINTENANCE_DUE_STATUS_LABELS[item.status]}
+                          </Badge>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+        </CardContent>
+      </Card>
+    </motion.div>
+  );
+}
@@ -1,3 +1,6 @@
+import type { UpcomingMaintenanceItem as UpcomingMaintenanceItemResponse, UpcomingMaintenanceResponse } from "@/api/zod/z-maintenance-schedules";
+import type { ResolvedUnits } from "@/api/zod/z-preferences";
+
 // Service types
 export const SERVICE_TYPES = [
   // Routine Maintenance
@@ -77,6 +80,47 @@ export const SERVICE_TYPES = [
 
 export type ServiceType = typeof SERVICE_TYPES[number];
 
+// Part or labour line of an itemized maintenance entry
+export type MaintenanceLineItem = {
+  uuid: string;
+  maintenanceLogUUID: string;
+  description: string;
+  partNumber: string | null;
+  quantity: number;
+  // Price per unit for parts, hourly rate for labour
+  unitPrice: number;
+  // Set for labour, billed instead of the quantity
+  labourHours: number | null;
+  // Tax in percent
+  taxRate: number;
+  position: number;
+  // Price including tax
+  total: number;
+  createdAt: string;
+  updatedAt: string;
+};
+
+// Receipt, invoice or photo attached to a maintenance entry
+export type MaintenanceAttachment = {
+  uuid: string;
+  maintenanceLogUUID: string;
+  fileName: string;
+  contentType: string;
+  size: number; // bytes
+  uploadedBy: string | null;
+  createdAt: string;
+};
+
+// Interface for creating or replacing a line item
+export type MaintenanceLineItemInput = {
+  description: string;
+  partNumber?: string | null;
+  quantity?: number;
+  unitPrice: number;
+  labourHours?: number | null;
+  taxRate?: number;
+};
+
 // Interface for maintenance entry
 export type MaintenanceEntry = {
   uuid: string;
@@ -85,6 +129,8 @@ export type MaintenanceEntry = {
   customServiceWorkshopName: string | null;
   serviceDate: string;
   serviceTypes: ServiceType[];
+  lineItems: MaintenanceLineItem[];
+  attachments: MaintenanceAttachment[];
   odometer: number | null;
   cost: number | null;
   notes: string | null;
@@ -107,8 +153,26 @@ export type CreateMaintenanceEntry = {
   serviceDate: string;
   serviceTypes: ServiceType[];
   odometer?: number;
+  // Unit the odometer was entered in, defaults to km
+  odometerUnit?: ResolvedUnits["distance"];
   cost?: number;
   notes?: string;
+  // When given, the cost is the sum of the line items
+  lineItems?: MaintenanceLineItemInput[];
+};
+
+// Interface for updating maintenance entry, only the given fields are changed
+export type UpdateMaintenanceEntry = {
+  serviceWorkshopUUID?: string;
+  customServiceWorkshopName?: string;
+  serviceDate?: string;
+  serviceTypes?: ServiceType[];
+  odometer?: number | null;
+  odometerUnit?: ResolvedUnits["distance"];
+  cost?: number | null;
+  notes?: string | null;
+  // Replaces the line items, an empty list turns the entry back into a single cost
+  lineItems?: MaintenanceLineItemInput[];
 };
 
 // Interface for maintenance summary from backend
@@ -139,14 +203,24 @@ export type MaintenanceHistoryResponse = {
     year: number;
     licensePlate: string;
   };
+  // Units odometer readings are expressed in
+  units: ResolvedUnits;
 };
 
 // Interface for maintenance entry response
 export type MaintenanceEntryResponse = {
   maintenanceEntry: MaintenanceEntry;
+  lineItems: MaintenanceLineItem[];
   message: string;
 };
 
+// Due status of a scheduled service, distances in the user's preferred unit
+export type UpcomingMaintenanceItem = UpcomingMaintenanceItemResponse;
+
+export type MaintenanceDueStatus = UpcomingMaintenanceItem["status"];
+
+export type UpcomingMaintenance = UpcomingMaintenanceResponse;
+
 // Service type labels for display
 export const SERVICE_TYPE_LABELS: Record<ServiceType, string> = {
   // Routine Maintenance
@@ -301,4 +375,3 @@ export const SERVICE_TYPE_CATEGORIES = {
     "paint_touch_up",
   ],
 } as const;
- 
\ No newline at end of file
@@ -1,6 +1,6 @@
 import { format, parseISO } from "date-fns";
 
-import type { MaintenanceEntry, ServiceType } from "../types";
+import type { MaintenanceDueStatus, MaintenanceEntry, MaintenanceLineItemInput, ServiceType, UpcomingMaintenanceItem } from "../types";
 
 import { SERVICE_TYPE_CATEGORIES, SERVICE_TYPE_LABELS } from "../types";
 
@@ -41,14 +41,62 @@ export function formatCost(cost: number | null): string {
   }).format(cost);
 }
 
+/**
+ * Price of a line item including tax, labour is billed by the hour at the
+ * unit price. Matches the total the backend stores for itemized entries.
+ */
+export function getLineItemTotal(item: MaintenanceLineItemInput): number {
+  const units = item.labourHours ?? item.quantity ?? 1;
+  return Math.round(units * item.unitPrice * (1 + (item.taxRate ?? 0) / 100) * 100) / 100;
+}
+
+/**
+ * Format an attachment size for display
+ */
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${Math.round(bytes / 1024)} KB`;
+  }
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+/**
+ * Whether the browser can show an attachment as an image thumbnail. HEIC
+ * photos are not supported by most browsers and are shown as files.
+ */
+export function isPreviewableAttachment(contentType: string): boolean {
+  return contentType === "image/jpeg" || contentType === "image/png";
+}
+
+/**
+ * Save a downloaded attachment under its original file name
+ */
+export function downloadAttachmentFile(blob: Blob, filename: string): void {
+  const link = document.createElement("a");
+  const url = URL.createObjectURL(blob);
+
+  link.setAttribute("href", url);
+  link.setAttribute("download", filename);
+  link.style.display = "none";
+
+  document.body.appendChild(link);
+  link.click();
+
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
 /**
  * Format odometer reading for display
  */
-export function formatOdometer(odometer: number | null): string {
+export function formatOdometer(odometer: number | null, unit: string = "km"): string {
   if (odometer === null || odometer === undefined) {
     return "N/A";
   }
-  return new Intl.NumberFormat("en-US").format(odometer);
+  return `${new Intl.NumberFormat("en-US").format(odometer)} ${unit}`;
 }
 
 /**
@@ -168,3 +216,48 @@ export function isRecentMaintenance(entry: MaintenanceEntry): boolean {
   const entryDate = parseISO(entry.serviceDate);
   return entryDate >= thirtyDaysAgo;
 }
+
+export const MAINTENANCE_DUE_STATUS_LABELS: Record<MaintenanceDueStatus, string> = {
+  overdue: "Overdue",
+  due: "Due soon",
+  upcoming: "Upcoming",
+  ok: "OK",
+  unknown: "No record",
+};
+
+/**
+ * Badge classes for the due status of a scheduled service
+ */
+export function getMaintenanceDueStatusClassName(status: MaintenanceDueStatus): string {
+  switch (status) {
+    case "overdue":
+      return "border-destructive text-destructive bg-destructive/10";
+    case "due":
+      return "border-chart-4 text-chart-4 bg-chart-4/10";
+    case "upcoming":
+      return "border-chart-1 text-chart-1 bg-chart-1/10";
+    default:
+      return "border-muted-foreground text-muted-foreground bg-muted";
+  }
+}
+
+/**
+ * Describe how far away (or how late) a scheduled service is, by date and by
+ * distance, e.g. "in 12 days · 850 km left"
+ */
+export function formatMaintenanceDue(item: UpcomingMaintenanceItem, distanceUnit: string): string {
+  const parts: string[] = [];
+
+  if (item.remainingDays !== null) {
+    const days = Math.abs(item.remainingDays);
+    const label = `${days} ${days === 1 ? "day" : "days"}`;
+    parts.push(item.remainingDays < 0 ? `${label} late` : item.remainingDays === 0 ? "today" : `in ${label}`);
+  }
+
+  if (item.remainingDistance !== null) {
+    const distance = formatOdometer(Math.abs(item.remainingDistance), distanceUnit);
+    parts.push(item.remainingDistance < 0 ? `${distance} over` : `${distance} left`);
+  }
+
+  return parts.length > 0 ? parts.join(" · ") : "No due date";
+}
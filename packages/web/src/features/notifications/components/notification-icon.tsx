@@ -1,4 +1,4 @@
-import { Bell, CheckCircle, Mail, XCircle } from "lucide-react";
+import { AlertTriangle, Bell, CheckCircle, Mail, MapPin, XCircle } from "lucide-react";
 
 type NotificationIconProps = {
   type: string;
@@ -14,6 +14,10 @@ export function NotificationIcon({ type }: NotificationIconProps) {
       return <XCircle className="h-4 w-4 text-red-500 dark:text-red-600" />;
     case "transfer_cancelled":
       return <XCircle className="h-4 w-4 text-gray-500 dark:text-gray-600" />;
+    case "sensor_alert":
+      return <AlertTriangle className="h-4 w-4 text-amber-500 dark:text-amber-600" />;
+    case "geofence_alert":
+      return <MapPin className="h-4 w-4 text-blue-500 dark:text-blue-600" />;
     default:
       return <Bell className="h-4 w-4 text-muted-foreground dark:text-muted-foreground" />;
   }
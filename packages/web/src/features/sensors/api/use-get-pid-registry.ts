@@ -0,0 +1,41 @@
+import { queryOptions, useQuery, useSuspenseQuery } from "@tanstack/react-query";
+
+import { api } from "@/lib/rpc";
+
+// Function to fetch the server-owned PID registry
+export async function getPidRegistryQuery() {
+  const response = await api.pids.$get({
+    query: {},
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch PID registry: ${response.statusText}`);
+  }
+
+  return response.json();
+}
+
+export function useGetPidRegistry({ suspense = false }: { suspense?: boolean } = {}) {
+  if (suspense) {
+    return useSuspenseQuery({
+      queryKey: ["pids"],
+      queryFn: () => getPidRegistryQuery(),
+      staleTime: 1000 * 60 * 60, // 1 hour
+    });
+  }
+  else {
+    return useQuery({
+      queryKey: ["pids"],
+      queryFn: () => getPidRegistryQuery(),
+      staleTime: 1000 * 60 * 60, // 1 hour
+    });
+  }
+}
+
+export function getPidRegistryQueryOptions() {
+  return queryOptions({
+    queryKey: ["pids"],
+    queryFn: () => getPidRegistryQuery(),
+    staleTime: 1000 * 60 * 60, // 1 hour
+  });
+}
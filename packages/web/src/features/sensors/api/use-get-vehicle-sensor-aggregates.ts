@@ -0,0 +1,121 @@
+import { queryOptions, useQuery, useSuspenseQuery } from "@tanstack/react-query";
+
+import type { PidRegistryEntryResponse } from "@/api/zod/z-pids";
+import type { SensorAggregateResponse } from "@/api/zod/z-sensors";
+import type { Sensor, SensorChartData } from "@/features/charts/types";
+
+import { api } from "@/lib/rpc";
+
+import { createPidLookup, getPidCategory, getPidName } from "../utils/sensor-categories";
+import { getPidRegistryQuery } from "./use-get-pid-registry";
+
+export type SensorAggregateFilter = {
+  pids?: string[];
+  // Bucket size such as "30s", "1m", "15m", "1h" or "1d", or "auto" for a chart-sized number of buckets
+  bucket?: string;
+  from?: Date;
+  to?: Date;
+  diagnosticId?: string;
+};
+
+// Function to fetch time-bucketed sensor statistics computed by the API
+export async function getVehicleSensorAggregatesQuery(vehicleId: string, filter?: SensorAggregateFilter) {
+  const response = await api.vehicles[":vehicleUUID"].sensors.aggregate.$get({
+    param: { vehicleUUID: vehicleId },
+    query: {
+      pids: filter?.pids && filter.pids.length > 0 ? filter.pids.join(",") : undefined,
+      bucket: filter?.bucket,
+      from: filter?.from?.toISOString(),
+      to: filter?.to?.toISOString(),
+      diagnosticUUID: filter?.diagnosticId,
+    },
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch sensor aggregates: ${response.statusText}`);
+  }
+
+  return response.json();
+}
+
+export function useGetVehicleSensorAggregates({ vehicleId, filter, suspense = false }: { vehicleId: string; filter?: SensorAggregateFilter; suspense?: boolean }) {
+  if (suspense) {
+    return useSuspenseQuery({
+      queryKey: ["vehicles", vehicleId, "sensors", "aggregate", filter],
+      queryFn: () => getVehicleSensorAggregatesQuery(vehicleId, filter),
+    });
+  }
+  else {
+    return useQuery({
+      queryKey: ["vehicles", vehicleId, "sensors", "aggregate", filter],
+      queryFn: () => getVehicleSensorAggregatesQuery(vehicleId, filter),
+    });
+  }
+}
+
+export function getVehicleSensorAggregatesQueryOptions({ vehicleId, filter }: { vehicleId: string; filter?: SensorAggregateFilter }) {
+  return queryOptions({
+    queryKey: ["vehicles", vehicleId, "sensors", "aggregate", filter],
+    queryFn: () => getVehicleSensorAggregatesQuery(vehicleId, filter),
+  });
+}
+
+// Function to fetch the sensors of a diagnostic session at chart resolution, bucketed by the API
+export async function getDiagnosticSensorChartDataQuery(vehicleId: string, diagnosticId: string) {
+  const [aggregates, pidRegistry] = await Promise.all([
+    getVehicleSensorAggregatesQuery(vehicleId, { diagnosticId, bucket: "auto" }),
+    getPidRegistryQuery(),
+  ]);
+
+  return processSensorAggregates(aggregates, diagnosticId, pidRegistry);
+}
+
+// Helper function to turn aggregated series into chart sensors, one reading per bucket at its average
+function processSensorAggregates(aggregates: SensorAggregateResponse, diagnosticId: string, pidRegistry: PidRegistryEntryResponse[]): SensorChartData {
+  const categories: Record<string, string[]> = {
+    Engine: [],
+    Temperature: [],
+    Electrical: [],
+    Fluid: [],
+    Emissions: [],
+    Other: [],
+  };
+
+  // Names and categories come from the server PID registry
+  const pidLookup = createPidLookup(pidRegistry);
+
+  const sensors = aggregates.series
+    .filter(entry => entry.buckets.length > 0)
+    .map((entry): Sensor => {
+      const category = getPidCategory(entry.pid, pidLookup);
+      (categories[category] ??= []).push(entry.pid);
+
+      return {
+        pid: entry.pid,
+        name: getPidName(entry.pid, pidLookup),
+        unit: entry.unit,
+        category,
+        readings: entry.buckets.map(bucket => ({
+          value: bucket.avg,
+          timestamp: bucket.bucketStart,
+          diagnosticUUID: diagnosticId,
+        })),
+        lastValue: entry.buckets[entry.buckets.length - 1].last,
+        minValue: entry.buckets.reduce((min, bucket) => Math.min(min, bucket.min), Infinity),
+        maxValue: entry.buckets.reduce((max, bucket) => Math.max(max, bucket.max), -Infinity),
+      };
+    });
+
+  // Sort sensors by category and then by PID
+  sensors.sort((a, b) => a.category === b.category ? a.pid.localeCompare(b.pid) : a.category.localeCompare(b.category));
+
+  return { sensors, categories, bucket: aggregates.bucket };
+}
+
+export function useGetDiagnosticSensorChartData({ vehicleId, diagnosticId }: { vehicleId: string; diagnosticId: string | null }) {
+  return useQuery({
+    queryKey: ["vehicles", vehicleId, "sensors", "aggregate", "charts", diagnosticId],
+    queryFn: () => getDiagnosticSensorChartDataQuery(vehicleId, diagnosticId!),
+    enabled: !!diagnosticId,
+  });
+}
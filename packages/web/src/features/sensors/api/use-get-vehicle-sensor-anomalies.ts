@@ -0,0 +1,51 @@
+import { queryOptions, useQuery, useSuspenseQuery } from "@tanstack/react-query";
+
+import { api } from "@/lib/rpc";
+
+export type SensorAnomalyFilter = {
+  diagnosticId?: string;
+  pid?: string;
+  severity?: "warning" | "critical";
+  limit?: number;
+};
+
+// Function to fetch the readings of a vehicle flagged as anomalous by the API
+export async function getVehicleSensorAnomaliesQuery(vehicleId: string, filter?: SensorAnomalyFilter) {
+  const response = await api.vehicles[":vehicleUUID"].sensors.anomalies.$get({
+    param: { vehicleUUID: vehicleId },
+    query: {
+      diagnosticUUID: filter?.diagnosticId,
+      pid: filter?.pid,
+      severity: filter?.severity,
+      limit: filter?.limit?.toString(),
+    },
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch sensor anomalies: ${response.statusText}`);
+  }
+
+  return response.json();
+}
+
+export function useGetVehicleSensorAnomalies({ vehicleId, filter, suspense = false }: { vehicleId: string; filter?: SensorAnomalyFilter; suspense?: boolean }) {
+  if (suspense) {
+    return useSuspenseQuery({
+      queryKey: ["vehicles", vehicleId, "sensors", "anomalies", filter],
+      queryFn: () => getVehicleSensorAnomaliesQuery(vehicleId, filter),
+    });
+  }
+  else {
+    return useQuery({
+      queryKey: ["vehicles", vehicleId, "sensors", "anomalies", filter],
+      queryFn: () => getVehicleSensorAnomaliesQuery(vehicleId, filter),
+    });
+  }
+}
+
+export function getVehicleSensorAnomaliesQueryOptions({ vehicleId, filter }: { vehicleId: string; filter?: SensorAnomalyFilter }) {
+  return queryOptions({
+    queryKey: ["vehicles", vehicleId, "sensors", "anomalies", filter],
+    queryFn: () => getVehicleSensorAnomaliesQuery(vehicleId, filter),
+  });
+}
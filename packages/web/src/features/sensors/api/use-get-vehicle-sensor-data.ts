@@ -1,7 +1,12 @@
 import { queryOptions, useQuery, useSuspenseQuery } from "@tanstack/react-query";
 
+import type { PidRegistryEntryResponse } from "@/api/zod/z-pids";
+
 import { api } from "@/lib/rpc";
 
+import { createPidLookup, getPidCategory, getPidName } from "../utils/sensor-categories";
+import { getPidRegistryQuery } from "./use-get-pid-registry";
+
 export type SensorFilter = {
   pid?: string[];
   timeRange?: {
@@ -13,10 +18,10 @@ export type SensorFilter = {
 };
 
 // Function to fetch sensor snapshots for a given diagnostic
-export async function getSensorSnapshotsQuery(diagnosticId: string, includeReadings: "true" | "false" = "true") {
+export async function getSensorSnapshotsQuery(diagnosticId: string, includeReadings: "true" | "false" = "true", includeDerived: "true" | "false" = "false") {
   const response = await api.diagnostics[":diagnosticUUID"].snapshots.$get({
     param: { diagnosticUUID: diagnosticId },
-    query: { includeReadings },
+    query: { includeReadings, includeDerived },
   });
 
   if (!response.ok) {
@@ -41,10 +46,13 @@ export async function getSensorReadingsForSnapshotQuery(diagnosticId: string, sn
 
 // Function to fetch all sensor data for a vehicle
 export async function getVehicleSensorDataQuery(vehicleId: string, filter?: SensorFilter) {
-  // First, get all diagnostics for the vehicle
-  const diagnosticsResponse = await api.vehicles[":vehicleUUID"].diagnostics.$get({
-    param: { vehicleUUID: vehicleId },
-  });
+  // First, get all diagnostics for the vehicle, and the registry to label their PIDs
+  const [diagnosticsResponse, pidRegistry] = await Promise.all([
+    api.vehicles[":vehicleUUID"].diagnostics.$get({
+      param: { vehicleUUID: vehicleId },
+    }),
+    getPidRegistryQuery(),
+  ]);
 
   if (!diagnosticsResponse.ok) {
     throw new Error(`Failed to fetch vehicle diagnostics: ${diagnosticsResponse.statusText}`);
@@ -60,7 +68,7 @@ export async function getVehicleSensorDataQuery(vehicleId: string, filter?: Sens
   // For each diagnostic, get sensor snapshots with readings
   const sensorData = await Promise.all(
     filteredDiagnostics.map(async (diagnostic: any) => {
-      const snapshotsData = await getSensorSnapshotsQuery(diagnostic.uuid, "true");
+      const snapshotsData = await getSensorSnapshotsQuery(diagnostic.uuid, "true", "true");
       return {
         diagnostic,
         snapshots: snapshotsData.snapshots || [],
@@ -69,11 +77,11 @@ export async function getVehicleSensorDataQuery(vehicleId: string, filter?: Sens
   );
 
   // Process the data: organize sensors by category, calculate stats, etc.
-  return processSensorData(sensorData, filter);
+  return processSensorData(sensorData, pidRegistry, filter);
 }
 
 // Helper function to process and organize the sensor data
-function processSensorData(sensorData: any[], filter?: SensorFilter) {
+function processSensorData(sensorData: any[], pidRegistry: PidRegistryEntryResponse[], filter?: SensorFilter) {
   const allSensors: { [key: string]: any } = {};
   const readings: any[] = [];
   const categories: { [key: string]: string[] } = {
@@ -88,139 +96,8 @@ function processSensorData(sensorData: any[], filter?: SensorFilter) {
   // Collect all snapshots across all diagnostics
   const allSnapshots: any[] = [];
 
-  // OBD-II PID category mapping
-  // Map standard OBD-II PIDs to categories
-  const obdPIDCategories: { [key: string]: string } = {
-    // Engine sensors
-    "04": "Engine", // Calculated engine load
-    "05": "Temperature", // Engine coolant temperature (was "engine")
-    "0A": "Engine", // Fuel pressure
-    "0B": "Engine", // Intake manifold pressure
-    "0C": "Engine", // Engine RPM
-    "0D": "Engine", // Vehicle speed
-    "0E": "Engine", // Timing advance
-    "0F": "Temperature", // Intake air temperature (was "engine")
-    "10": "Engine", // MAF air flow rate
-    "11": "Engine", // Throttle position
-
-    // Electrical systems
-    "42": "Electrical", // Control module voltage
-
-    // Fuel and emissions
-    "2F": "Fluid", // Fuel level input
-    "3C": "Fluid", // Catalyst temperature
-    "51": "Fluid", // Fuel type
-
-    // Emissions related
-    "01": "Emissions", // Status since DTCs cleared
-    "02": "Emissions", // Freeze DTC
-    "07": "Emissions", // Long term fuel trim
-    "08": "Emissions", // Short term fuel trim
-    "09": "Emissions", // Fuel system status
-
-    // Climate control/Temperature
-    "46": "Temperature", // Ambient air temperature (was "climate")
-    "5C": "Temperature", // Oil temperature (was "climate")
-  };
-
-  // OBD-II PID friendly names mapping
-  const obdPIDNames: { [key: string]: string } = {
-    "01": "Monitor Status",
-    "02": "Freeze DTC",
-    "03": "Fuel System Status",
-    "04": "Engine Load",
-    "05": "Coolant Temperature",
-    "06": "Short Term Fuel Trim",
-    "07": "Long Term Fuel Trim",
-    "08": "Short Term Fuel Trim",
-    "09": "Long Term Fuel Trim",
-    "0A": "Fuel Pressure",
-    "0B": "Intake Manifold Pressure",
-    "0C": "Engine RPM",
-    "0D": "Vehicle Speed",
-    "0E": "Timing Advance",
-    "0F": "Intake Air Temperature",
-    "10": "MAF Air Flow Rate",
-    "11": "Throttle Position",
-    "12": "Commanded Secondary Air Status",
-    "13": "Oxygen Sensors Present",
-    "14": "Oxygen Sensor 1",
-    "15": "Oxygen Sensor 2",
-    "16": "Oxygen Sensor 3",
-    "17": "Oxygen Sensor 4",
-    "18": "Oxygen Sensor 5",
-    "19": "Oxygen Sensor 6",
-    "1A": "Oxygen Sensor 7",
-    "1B": "Oxygen Sensor 8",
-    "1C": "OBD Standards",
-    "1D": "Oxygen Sensors Present",
-    "1E": "Auxiliary Input Status",
-    "1F": "Run Time Since Engine Start",
-    "20": "PIDs Supported [21-40]",
-    "21": "Distance With MIL On",
-    "22": "Fuel Rail Pressure",
-    "23": "Fuel Rail Gauge Pressure",
-    "24": "Oxygen Sensor 1",
-    "25": "Oxygen Sensor 2",
-    "26": "Oxygen Sensor 3",
-    "27": "Oxygen Sensor 4",
-    "28": "Oxygen Sensor 5",
-    "29": "Oxygen Sensor 6",
-    "2A": "Oxygen Sensor 7",
-    "2B": "Oxygen Sensor 8",
-    "2C": "Commanded EGR",
-    "2D": "EGR Error",
-    "2E": "Commanded Evaporative Purge",
-    "2F": "Fuel Level Input",
-    "30": "Warm-ups Since Codes Cleared",
-    "31": "Distance Since Codes Cleared",
-    "32": "Evap System Vapor Pressure",
-    "33": "Barometric Pressure",
-    "34": "Oxygen Sensor 1",
-    "35": "Oxygen Sensor 2",
-    "36": "Oxygen Sensor 3",
-    "37": "Oxygen Sensor 4",
-    "38": "Oxygen Sensor 5",
-    "39": "Oxygen Sensor 6",
-    "3A": "Oxygen Sensor 7",
-    "3B": "Oxygen Sensor 8",
-    "3C": "Catalyst Temperature",
-    "3D": "Catalyst Temperature",
-    "3E": "Catalyst Temperature",
-    "3F": "Catalyst Temperature",
-    "40": "PIDs Supported [41-60]",
-    "41": "Monitor Status This Drive Cycle",
-    "42": "Control Module Voltage",
-    "43": "Absolute Load Value",
-    "44": "Commanded Equivalence Ratio",
-    "45": "Relative Throttle Position",
-    "46": "Ambient Air Temperature",
-    "47": "Absolute Throttle Position B",
-    "48": "Absolute Throttle Position C",
-    "49": "Accelerator Pedal Position D",
-    "4A": "Accelerator Pedal Position E",
-    "4B": "Accelerator Pedal Position F",
-    "4C": "Commanded Throttle Actuator",
-    "4D": "Time With MIL On",
-    "4E": "Time Since Codes Cleared",
-    "4F": "Maximum Values",
-    "50": "Maximum Air Flow Rate",
-    "51": "Fuel Type",
-    "52": "Ethanol Fuel Percentage",
-    "53": "Absolute Evap System Vapor Pressure",
-    "54": "Evap System Vapor Pressure",
-    "55": "Short Term Secondary Oxygen Sensor Trim",
-    "56": "Long Term Secondary Oxygen Sensor Trim",
-    "57": "Short Term Secondary Oxygen Sensor Trim",
-    "58": "Long Term Secondary Oxygen Sensor Trim",
-    "59": "Fuel Rail Absolute Pressure",
-    "5A": "Relative Accelerator Pedal Position",
-    "5B": "Hybrid Battery Pack Remaining Life",
-    "5C": "Engine Oil Temperature",
-    "5D": "Fuel Injection Timing",
-    "5E": "Engine Fuel Rate",
-    "5F": "Emission Requirements",
-  };
+  // Names and categories come from the server PID registry
+  const pidLookup = createPidLookup(pidRegistry);
 
   // Store all diagnostics for reference
   const diagnostics = sensorData.map(item => item.diagnostic);
@@ -234,8 +111,11 @@ function processSensorData(sensorData: any[], filter?: SensorFilter) {
         diagnosticUUID: diagnostic.uuid,
       });
 
-      if (snapshot.readings) {
-        snapshot.readings.forEach((reading: any) => {
+      // Derived readings (estimated fuel rate and economy) are plotted like any other sensor
+      const snapshotReadings = [...(snapshot.readings ?? []), ...(snapshot.derivedReadings ?? [])];
+
+      if (snapshotReadings.length > 0) {
+        snapshotReadings.forEach((reading: any) => {
           // Apply PID filter if specified
           if (filter?.pid && filter.pid.length > 0 && !filter.pid.includes(reading.pid)) {
             return;
@@ -260,11 +140,9 @@ function processSensorData(sensorData: any[], filter?: SensorFilter) {
 
           // Track unique sensors
           if (!allSensors[reading.pid]) {
-            // Determine category based on OBD-II PID code
-            const category = obdPIDCategories[reading.pid] || "Other";
-
-            // Get friendly name for the PID
-            const friendlyName = obdPIDNames[reading.pid] || `Sensor ${reading.pid}`;
+            // Determine category and friendly name from the PID registry
+            const category = getPidCategory(reading.pid, pidLookup);
+            const friendlyName = getPidName(reading.pid, pidLookup);
 
             // Create sensor object
             allSensors[reading.pid] = {
@@ -278,8 +156,8 @@ function processSensorData(sensorData: any[], filter?: SensorFilter) {
               maxValue: null,
             };
 
-            // Add to category
-            categories[category].push(reading.pid);
+            // Add to category, the registry may define categories beyond the standard ones
+            (categories[category] ??= []).push(reading.pid);
           }
 
           // Add reading to sensor
@@ -353,6 +231,8 @@ export function useGetVehicleSensorData({ vehicleId, filter, suspense = false }:
     return useQuery({
       queryKey: ["vehicles", vehicleId, "sensors", filter],
       queryFn: () => getVehicleSensorDataQuery(vehicleId, filter),
+      // Pages pick a session first, without one every snapshot of every session would be loaded
+      enabled: !!filter?.diagnosticId,
     });
   }
 }
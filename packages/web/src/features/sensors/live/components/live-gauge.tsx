@@ -0,0 +1,92 @@
+import { motion } from "framer-motion";
+
+import { Card, CardContent } from "@/components/ui/card";
+
+import type { LiveReading, PidMetadata } from "../types";
+
+import { getCategoryIcon, normalizeCategory } from "../../utils/sensor-categories";
+
+// Headroom above the typical maximum so normal readings don't peg the gauge
+const TYPICAL_HEADROOM = 1.5;
+
+const ARC_LENGTH = Math.PI * 40;
+
+type LiveGaugeProps = {
+  reading: LiveReading;
+  metadata?: PidMetadata;
+};
+
+/**
+ * Work out the range the gauge is drawn over. Registry PIDs use their typical
+ * range (with some headroom), anything else scales with the highest value seen.
+ */
+function getGaugeRange(reading: LiveReading, metadata?: PidMetadata) {
+  if (metadata && metadata.typicalMax != null) {
+    const max = Math.min(metadata.typicalMax * TYPICAL_HEADROOM, metadata.maxValue ?? Number.POSITIVE_INFINITY);
+    return { min: metadata.minValue ?? 0, max };
+  }
+
+  if (metadata && metadata.minValue != null && metadata.maxValue != null) {
+    return { min: metadata.minValue, max: metadata.maxValue };
+  }
+
+  return { min: Math.min(0, reading.value), max: Math.max(reading.peak, 1) };
+}
+
+export function LiveGauge({ reading, metadata }: LiveGaugeProps) {
+  // Registry ranges are in canonical units and don't apply once converted (°F, psi, ...)
+  const rangeMetadata = metadata?.unit === reading.unit ? metadata : undefined;
+  const range = getGaugeRange(reading, rangeMetadata);
+  const ratio = Math.min(Math.max((reading.value - range.min) / (range.max - range.min || 1), 0), 1);
+  const category = normalizeCategory(metadata?.category ?? "");
+  const isOutsideTypical = rangeMetadata != null
+    && ((rangeMetadata.typicalMin != null && reading.value < rangeMetadata.typicalMin)
+      || (rangeMetadata.typicalMax != null && reading.value > rangeMetadata.typicalMax));
+
+  return (
+    <Card className="overflow-hidden">
+      <CardContent className="flex flex-col items-center gap-1 p-4">
+        <div className="flex w-full items-center justify-between gap-2 text-xs text-muted-foreground">
+          <span className="flex items-center gap-1 truncate">
+            {getCategoryIcon(category, "size-3")}
+            {metadata?.name ?? `PID ${reading.pid}`}
+          </span>
+          <span className="font-mono">{reading.pid}</span>
+        </div>
+
+        <svg viewBox="0 0 100 56" className="w-full max-w-[180px]">
+          <path
+            d="M 10 50 A 40 40 0 0 1 90 50"
+            fill="none"
+            stroke="var(--muted)"
+            strokeWidth="8"
+            strokeLinecap="round"
+          />
+          <motion.path
+            d="M 10 50 A 40 40 0 0 1 90 50"
+            fill="none"
+            stroke={isOutsideTypical ? "var(--destructive)" : "var(--primary)"}
+            strokeWidth="8"
+            strokeLinecap="round"
+            strokeDasharray={ARC_LENGTH}
+            initial={false}
+            animate={{ strokeDashoffset: ARC_LENGTH * (1 - ratio) }}
+            transition={{ type: "spring", stiffness: 120, damping: 20 }}
+          />
+        </svg>
+
+        <div className="-mt-4 text-center">
+          <span className="text-2xl font-bold tabular-nums">
+            {Number.isInteger(reading.value) ? reading.value : reading.value.toFixed(1)}
+          </span>
+          <span className="ml-1 text-xs text-muted-foreground">{reading.unit}</span>
+        </div>
+
+        <div className="flex w-full justify-between text-[10px] text-muted-foreground tabular-nums">
+          <span>{Math.round(range.min)}</span>
+          <span>{Math.round(range.max)}</span>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
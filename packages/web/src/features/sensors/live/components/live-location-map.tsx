@@ -0,0 +1,107 @@
+import "@/styles/leaflet.css";
+
+import L from "leaflet";
+import { Navigation } from "lucide-react";
+import { useEffect } from "react";
+import { CircleMarker, MapContainer, Marker, Polyline, Popup, TileLayer, useMap } from "react-leaflet";
+
+import type { LivePosition } from "../types";
+
+type LiveLocationMapProps = {
+  trail: LivePosition[];
+  currentPosition: LivePosition | null;
+  followVehicle?: boolean;
+  className?: string;
+};
+
+const vehicleIcon = new L.Icon({
+  iconUrl: `data:image/svg+xml;base64,${btoa(`
+    <svg xmlns="http://www.w3.org/2000/svg" width="28" height="28" viewBox="0 0 24 24" fill="#3B82F6" stroke="white" stroke-width="1.5" stroke-linecap="round" stroke-linejoin="round">
+      <polygon points="3 11 22 2 13 21 11 13 3 11"></polygon>
+    </svg>
+  `)}`,
+  iconSize: [28, 28],
+  iconAnchor: [14, 14],
+  popupAnchor: [0, -14],
+});
+
+// Keeps the map centered on the vehicle as new fixes arrive
+function FollowPosition({ position }: { position: LivePosition }) {
+  const map = useMap();
+
+  useEffect(() => {
+    map.panTo([position.latitude, position.longitude], { animate: true });
+  }, [map, position.latitude, position.longitude]);
+
+  return null;
+}
+
+export function LiveLocationMap({ trail, currentPosition, followVehicle = true, className = "h-[400px] w-full" }: LiveLocationMapProps) {
+  if (!currentPosition) {
+    return (
+      <div className={`flex items-center justify-center bg-muted/20 p-6 text-center rounded-md ${className}`}>
+        <div>
+          <Navigation className="mx-auto mb-2 h-10 w-10 text-muted-foreground opacity-50" />
+          <p className="text-sm text-muted-foreground">Waiting for GPS fix...</p>
+        </div>
+      </div>
+    );
+  }
+
+  const pathCoordinates: [number, number][] = trail.map(position => [position.latitude, position.longitude]);
+
+  return (
+    <div className={`overflow-hidden rounded-md ${className}`}>
+      <MapContainer
+        center={[currentPosition.latitude, currentPosition.longitude]}
+        zoom={16}
+        scrollWheelZoom={true}
+        className="map-monochrome"
+      >
+        <TileLayer
+          attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> | &copy; <a href="https://cartodb.com/attributions">CartoDB</a>'
+          url="https://{s}.basemaps.cartocdn.com/light_all/{z}/{x}/{y}{r}.png"
+          subdomains="abcd"
+          maxZoom={19}
+        />
+
+        {/* Trail driven since the page was opened */}
+        {pathCoordinates.length > 1 && (
+          <Polyline
+            positions={pathCoordinates}
+            color="#3B82F6"
+            weight={4}
+            opacity={0.6}
+          />
+        )}
+
+        {pathCoordinates.length > 0 && (
+          <CircleMarker center={pathCoordinates[0]} radius={5} pathOptions={{ color: "#16A34A" }} />
+        )}
+
+        <Marker position={[currentPosition.latitude, currentPosition.longitude]} icon={vehicleIcon}>
+          <Popup className="custom-popup">
+            <div className="font-medium mb-1">Current position</div>
+            <span className="text-xs text-muted-foreground">
+              {new Date(currentPosition.timestamp).toLocaleString()}
+            </span>
+            {currentPosition.speed != null && (
+              <>
+                <br />
+                <span className="text-xs">
+                  Speed:
+                  {" "}
+                  {currentPosition.speed.toFixed(1)}
+                  {" "}
+                  {currentPosition.speedUnit}
+                </span>
+              </>
+            )}
+          </Popup>
+        </Marker>
+
+        {followVehicle && <FollowPosition position={currentPosition} />}
+      </MapContainer>
+    </div>
+  );
+}
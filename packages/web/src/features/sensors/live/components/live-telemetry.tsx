@@ -0,0 +1,97 @@
+import { Activity, MapPin, Radio, WifiOff } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+
+import type { LiveConnectionStatus, LiveTransport } from "../types";
+
+import { useGetPidRegistry } from "../../api/use-get-pid-registry";
+import { useLiveTelemetry } from "../hooks/use-live-telemetry";
+import { LiveGauge } from "./live-gauge";
+import { LiveLocationMap } from "./live-location-map";
+
+type LiveTelemetryProps = {
+  diagnosticId: string;
+};
+
+function getStatusLabel(status: LiveConnectionStatus, transport: LiveTransport | null) {
+  switch (status) {
+    case "open":
+      return transport === "sse" ? "Live (SSE)" : "Live";
+    case "connecting":
+      return "Connecting...";
+    case "fallback":
+      return "Switching to SSE...";
+    case "error":
+      return "Disconnected";
+    default:
+      return "Offline";
+  }
+}
+
+export function LiveTelemetry({ diagnosticId }: LiveTelemetryProps) {
+  const { status, transport, readings, trail, currentPosition, lastUpdate } = useLiveTelemetry({ diagnosticId });
+  const { data: pidRegistry } = useGetPidRegistry();
+
+  const pidMetadata = new Map((pidRegistry ?? []).map(entry => [entry.pid, entry]));
+
+  const sortedReadings = Object.values(readings).sort((a, b) => a.pid.localeCompare(b.pid));
+  const isLive = status === "open";
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Badge variant={isLive ? "default" : "outline"} className="gap-1">
+            {isLive ? <Radio className="h-3 w-3 animate-pulse" /> : <WifiOff className="h-3 w-3" />}
+            {getStatusLabel(status, transport)}
+          </Badge>
+          {lastUpdate && (
+            <span className="text-xs text-muted-foreground">
+              Last update
+              {" "}
+              {lastUpdate.toLocaleTimeString()}
+            </span>
+          )}
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="flex items-center gap-2 text-base">
+            <Activity className="h-4 w-4" />
+            Live Gauges
+          </CardTitle>
+          <CardDescription>Values update as the app streams readings for this session</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {sortedReadings.length === 0
+            ? (
+                <p className="py-8 text-center text-sm text-muted-foreground">
+                  Waiting for live readings from the vehicle...
+                </p>
+              )
+            : (
+                <div className="grid grid-cols-2 gap-3 md:grid-cols-3 xl:grid-cols-4">
+                  {sortedReadings.map(reading => (
+                    <LiveGauge key={reading.pid} reading={reading} metadata={pidMetadata.get(reading.pid)} />
+                  ))}
+                </div>
+              )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="flex items-center gap-2 text-base">
+            <MapPin className="h-4 w-4" />
+            Live Location
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <LiveLocationMap trail={trail} currentPosition={currentPosition} />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
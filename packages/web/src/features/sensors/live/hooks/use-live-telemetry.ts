@@ -0,0 +1,200 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+import { api } from "@/lib/rpc";
+
+import type {
+  LiveConnectionStatus,
+  LivePosition,
+  LiveReading,
+  LiveTelemetryCursor,
+  LiveTelemetryUpdate,
+  LiveTransport,
+} from "../types";
+
+// Keep the trail on the map bounded so long sessions don't grow without limit
+const MAX_TRAIL_LENGTH = 500;
+// Keeps intermediaries from closing an idle socket
+const PING_INTERVAL_MS = 25000;
+
+type UseLiveTelemetryOptions = {
+  diagnosticId: string;
+  enabled?: boolean;
+};
+
+function getWebSocketUrl(diagnosticId: string) {
+  const url = api.telemetry[":diagnosticUUID"].ws.$url({ param: { diagnosticUUID: diagnosticId } });
+  url.protocol = url.protocol === "https:" ? "wss:" : "ws:";
+  return url.toString();
+}
+
+function getStreamUrl(diagnosticId: string, cursor: LiveTelemetryCursor | null) {
+  const url = api.telemetry[":diagnosticUUID"].stream.$url({
+    param: { diagnosticUUID: diagnosticId },
+    query: cursor ? { readingsCursor: cursor.readings, locationsCursor: cursor.locations } : {},
+  });
+  return url.toString();
+}
+
+/**
+ * Subscribe to live telemetry for a diagnostic session.
+ * Connects over WebSocket and falls back to Server-Sent Events when the socket
+ * cannot be opened.
+ */
+export function useLiveTelemetry({ diagnosticId, enabled = true }: UseLiveTelemetryOptions) {
+  const [status, setStatus] = useState<LiveConnectionStatus>("closed");
+  const [transport, setTransport] = useState<LiveTransport | null>(null);
+  const [readings, setReadings] = useState<Record<string, LiveReading>>({});
+  const [trail, setTrail] = useState<LivePosition[]>([]);
+  const [lastUpdate, setLastUpdate] = useState<Date | null>(null);
+
+  const cursorRef = useRef<LiveTelemetryCursor | null>(null);
+
+  const handleUpdate = useCallback((update: LiveTelemetryUpdate) => {
+    cursorRef.current = update.cursor;
+    setLastUpdate(new Date());
+
+    if (update.readings.length > 0) {
+      setReadings((previous) => {
+        const next = { ...previous };
+        update.readings.forEach((reading) => {
+          const current = next[reading.pid];
+          if (!current || new Date(reading.timestamp) >= new Date(current.timestamp)) {
+            next[reading.pid] = {
+              pid: reading.pid,
+              value: reading.value,
+              unit: reading.unit,
+              timestamp: reading.timestamp,
+              peak: Math.max(current?.peak ?? reading.value, reading.value),
+            };
+          }
+        });
+        return next;
+      });
+    }
+
+    if (update.locations.length > 0) {
+      setTrail((previous) => {
+        const positions = update.locations.map(location => ({
+          latitude: location.latitude,
+          longitude: location.longitude,
+          speed: location.speed,
+          speedUnit: location.speedUnit,
+          altitude: location.altitude,
+          timestamp: location.timestamp,
+        }));
+        return [...previous, ...positions].slice(-MAX_TRAIL_LENGTH);
+      });
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!enabled || !diagnosticId) {
+      return;
+    }
+
+    // Reset state when switching sessions
+    cursorRef.current = null;
+    setReadings({});
+    setTrail([]);
+    setLastUpdate(null);
+
+    let socket: WebSocket | null = null;
+    let eventSource: EventSource | null = null;
+    let pingTimer: ReturnType<typeof setInterval> | null = null;
+    let hasOpened = false;
+    let isDisposed = false;
+
+    const openEventSource = () => {
+      if (isDisposed) {
+        return;
+      }
+
+      setTransport("sse");
+      setStatus("fallback");
+
+      eventSource = new EventSource(getStreamUrl(diagnosticId, cursorRef.current), { withCredentials: true });
+
+      eventSource.onopen = () => setStatus("open");
+      eventSource.addEventListener("telemetry", (event) => {
+        handleUpdate(JSON.parse((event as MessageEvent<string>).data) as LiveTelemetryUpdate);
+      });
+      eventSource.onerror = () => {
+        // EventSource reconnects on its own, we only reflect the state
+        setStatus(eventSource?.readyState === EventSource.CLOSED ? "error" : "connecting");
+      };
+    };
+
+    setTransport("websocket");
+    setStatus("connecting");
+
+    try {
+      socket = new WebSocket(getWebSocketUrl(diagnosticId));
+    }
+    catch {
+      openEventSource();
+      return;
+    }
+
+    socket.onopen = () => {
+      hasOpened = true;
+      setStatus("open");
+      socket?.send(JSON.stringify({ type: "subscribe", ...(cursorRef.current ? { cursor: cursorRef.current } : {}) }));
+      pingTimer = setInterval(() => {
+        if (socket?.readyState === WebSocket.OPEN) {
+          socket.send(JSON.stringify({ type: "ping" }));
+        }
+      }, PING_INTERVAL_MS);
+    };
+
+    socket.onmessage = (event) => {
+      if (typeof event.data !== "string") {
+        return;
+      }
+
+      const message = JSON.parse(event.data) as { type: string } & Partial<LiveTelemetryUpdate>;
+      if (message.type === "telemetry") {
+        handleUpdate(message as LiveTelemetryUpdate);
+      }
+    };
+
+    socket.onclose = () => {
+      if (pingTimer) {
+        clearInterval(pingTimer);
+        pingTimer = null;
+      }
+
+      if (isDisposed) {
+        return;
+      }
+
+      // The socket never opened (blocked by a proxy, unsupported, ...) or dropped
+      // mid-session: continue over Server-Sent Events from the last cursor
+      openEventSource();
+    };
+
+    socket.onerror = () => {
+      if (!hasOpened) {
+        setStatus("connecting");
+      }
+    };
+
+    return () => {
+      isDisposed = true;
+      if (pingTimer) {
+        clearInterval(pingTimer);
+      }
+      socket?.close();
+      eventSource?.close();
+      setStatus("closed");
+    };
+  }, [diagnosticId, enabled, handleUpdate]);
+
+  return {
+    status,
+    transport,
+    readings,
+    trail,
+    currentPosition: trail.length > 0 ? trail[trail.length - 1] : null,
+    lastUpdate,
+  };
+}
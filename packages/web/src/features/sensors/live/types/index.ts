@@ -0,0 +1,36 @@
+import type { PidRegistryEntryResponse } from "@/api/zod/z-pids";
+import type { TelemetryCursor, TelemetryUpdate } from "@/api/zod/z-telemetry";
+
+// Telemetry update as received over the wire (dates are serialized as strings)
+export type LiveTelemetryUpdate = Omit<TelemetryUpdate, "readings" | "locations"> & {
+  readings: Array<Omit<TelemetryUpdate["readings"][number], "timestamp"> & { timestamp: string }>;
+  locations: Array<Omit<TelemetryUpdate["locations"][number], "timestamp"> & { timestamp: string }>;
+};
+
+export type LiveTelemetryCursor = TelemetryCursor;
+
+export type LiveConnectionStatus = "connecting" | "open" | "fallback" | "closed" | "error";
+
+export type LiveTransport = "websocket" | "sse";
+
+// Latest value of a single PID
+export type LiveReading = {
+  pid: string;
+  value: number;
+  unit: string;
+  timestamp: string;
+  // Highest value seen since subscribing
+  peak: number;
+};
+
+export type LivePosition = {
+  latitude: number;
+  longitude: number;
+  speed: number | null;
+  speedUnit: "km/h" | "mph";
+  altitude: number | null;
+  timestamp: string;
+};
+
+// Registry metadata used to label and scale a gauge
+export type PidMetadata = PidRegistryEntryResponse;
@@ -0,0 +1,55 @@
+import { AlertTriangle } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+
+import type { SensorAnomalyBadgeProps } from "../types";
+
+import { getRelativeTime } from "../utils";
+
+function formatValue(value: number, unit: string) {
+  return `${Math.round(value * 10) / 10}${unit ? ` ${unit}` : ""}`;
+}
+
+export function SensorAnomalyBadge({ anomalies }: SensorAnomalyBadgeProps) {
+  const latest = anomalies[0];
+  const isCritical = anomalies.some(anomaly => anomaly.severity === "critical");
+
+  return (
+    <TooltipProvider>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <Badge
+            variant="outline"
+            className={`flex items-center h-6 gap-1 rounded-lg text-xs shrink-0 whitespace-nowrap px-2 cursor-help ${
+              isCritical
+                ? "border-red-500/50 text-red-600 dark:text-red-400"
+                : "border-amber-500/50 text-amber-600 dark:text-amber-400"
+            }`}
+          >
+            <AlertTriangle className="size-3" />
+            {anomalies.length}
+          </Badge>
+        </TooltipTrigger>
+        <TooltipContent>
+          <p className="font-medium">
+            {anomalies.length === 1 ? "Unusual reading" : `${anomalies.length} unusual readings`}
+            {" "}
+            in this session
+          </p>
+          <p>
+            Latest:
+            {" "}
+            {formatValue(latest.value, latest.unit)}
+            , usually
+            {" "}
+            {Math.round(latest.baselineMean * 10) / 10}
+            {" ± "}
+            {formatValue(latest.baselineStddev, latest.unit)}
+          </p>
+          <p>{getRelativeTime(latest.detectedAt)}</p>
+        </TooltipContent>
+      </Tooltip>
+    </TooltipProvider>
+  );
+}
@@ -16,6 +16,7 @@ import { AnimatedCounter } from "./animated-counter";
 import { MiniHistoryChart } from "./mini-history-chart";
 import { ReadingNavigation } from "./reading-navigation";
 import { ScrollingText } from "./scrolling-text";
+import { SensorAnomalyBadge } from "./sensor-anomaly-badge";
 import { SensorHistoryDialog } from "./sensor-history-dialog";
 
 export function SensorCard({
@@ -33,6 +34,7 @@ export function SensorCard({
   delayAnimation = 0,
   isFavorite = false,
   onToggleFavorite,
+  anomalies,
 }: SensorCardProps) {
   // State to track the current reading index within the snapshot
   const [currentReadingIndex, setCurrentReadingIndex] = useState(0);
@@ -132,6 +134,7 @@ export function SensorCard({
                 : categoryIcon}
               {category}
             </Badge>
+            {anomalies && anomalies.length > 0 && <SensorAnomalyBadge anomalies={anomalies} />}
             {onToggleFavorite && (
               <Button
                 variant="ghost"
@@ -1,6 +1,6 @@
 import { Badge } from "@/components/ui/badge";
 
-import type { SensorCardData, SensorOverviewCardsProps } from "../types";
+import type { SensorAnomaly, SensorCardData, SensorOverviewCardsProps } from "../types";
 
 import { useSensorData } from "../hooks/use-sensor-data";
 import { useSensorFavorites } from "../hooks/use-sensor-favorites";
@@ -27,6 +27,12 @@ export function SensorOverviewCards(props: SensorOverviewCardsProps) {
     resetFilters,
   } = useSensorFilters(sensorData, favorites);
 
+  // Group the detected anomalies by PID so each card gets its own
+  const anomaliesByPid = (props.anomalies ?? []).reduce<Record<string, SensorAnomaly[]>>((groups, anomaly) => {
+    (groups[anomaly.pid] ??= []).push(anomaly);
+    return groups;
+  }, {});
+
   return (
     <div className="space-y-6">
       {/* Filters and Controls */}
@@ -97,6 +103,7 @@ export function SensorOverviewCards(props: SensorOverviewCardsProps) {
               delayAnimation={item.delay}
               isFavorite={isFavorite(item.sensor.pid || "")}
               onToggleFavorite={() => toggleFavorite(item.sensor.pid || "")}
+              anomalies={item.sensor.pid ? anomaliesByPid[item.sensor.pid] : undefined}
             />
           );
         })}
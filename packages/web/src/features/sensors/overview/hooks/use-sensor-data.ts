@@ -2,7 +2,7 @@ import { useEffect, useMemo, useState } from "react";
 
 import type { SensorCardData, SensorData, SensorOverviewCardsProps, SensorReading } from "../types";
 
-import { getStandardCategory } from "../../utils/sensor-categories";
+import { normalizeCategory } from "../../utils/sensor-categories";
 import { findSensorByPID } from "../utils";
 
 export function useSensorData({ data, isLoading }: SensorOverviewCardsProps) {
@@ -123,15 +123,7 @@ export function useSensorData({ data, isLoading }: SensorOverviewCardsProps) {
         if (!sensor)
           return;
 
-        if (sensor.pid) {
-          sensor.category = getStandardCategory(sensor.category || "", sensor.pid);
-        }
-        else if (sensor.category) {
-          sensor.category = getStandardCategory(sensor.category, "");
-        }
-        else {
-          sensor.category = "Other";
-        }
+        sensor.category = normalizeCategory(sensor.category || "");
       });
 
       const primarySensorDefinitions = [
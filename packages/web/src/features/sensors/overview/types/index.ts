@@ -1,5 +1,7 @@
 import type { ReactNode } from "react";
 
+import type { SensorAnomaly as SensorAnomalyResponse } from "@/api/zod/z-sensors";
+
 // Type for sensor data received from API
 export type SensorData = {
   pid?: string;
@@ -23,6 +25,11 @@ export type SensorReading = {
   unit?: string;
 };
 
+// Type for a reading the API flagged as deviating from the vehicle's usual behaviour
+export type SensorAnomaly = Omit<SensorAnomalyResponse, "detectedAt"> & {
+  detectedAt: string;
+};
+
 // Type for a sensor snapshot
 export type SensorSnapshot = {
   uuid: string;
@@ -57,6 +64,7 @@ export type SensorOverviewCardsProps = {
     };
   } | undefined;
   isLoading: boolean;
+  anomalies?: SensorAnomaly[];
 };
 
 // Type for SensorCard component props
@@ -76,6 +84,12 @@ export type SensorCardProps = {
   delayAnimation?: number;
   isFavorite?: boolean;
   onToggleFavorite?: () => void;
+  anomalies?: SensorAnomaly[]; // Anomalies detected for this sensor, newest first
+};
+
+// Type for SensorAnomalyBadge component props
+export type SensorAnomalyBadgeProps = {
+  anomalies: SensorAnomaly[];
 };
 
 // Type for SensorFilters component props
@@ -1,6 +1,6 @@
 import type { DataFreshness, SensorData, SensorOverviewCardsProps, SensorReading } from "../types";
 
-import { getStandardCategory } from "../../utils/sensor-categories";
+import { normalizeCategory } from "../../utils/sensor-categories";
 
 /**
  * Calculate data freshness based on last reading time
@@ -203,9 +203,7 @@ export function findSensorByPID(
 
     if (exactMatch) {
       // Apply standard categorization when we find the sensor
-      if (exactMatch.pid) {
-        exactMatch.category = getStandardCategory(exactMatch.category || "", exactMatch.pid);
-      }
+      exactMatch.category = normalizeCategory(exactMatch.category || "");
       return exactMatch;
     }
   }
@@ -2,7 +2,7 @@ import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 
 import type { PlaybackControls, PlaybackSensor, PlaybackSpeedOption, PlaybackState, SensorPlaybackProps } from "../types";
 
-import { getStandardCategory } from "../../utils/sensor-categories";
+import { normalizeCategory } from "../../utils/sensor-categories";
 import { loadSelectedSensors, loadSensorOrder, saveSelectedSensors, saveSensorOrder } from "../utils/storage-utils";
 
 export function useSensorPlayback({ data, isLoading }: SensorPlaybackProps): [PlaybackState, PlaybackControls] {
@@ -38,7 +38,7 @@ export function useSensorPlayback({ data, isLoading }: SensorPlaybackProps): [Pl
     // Process sensors
     const processedSensors: PlaybackSensor[] = data.sensors.map((sensor: any) => {
       // Standardize the category
-      const standardizedCategory = getStandardCategory(sensor.category, sensor.pid);
+      const standardizedCategory = normalizeCategory(sensor.category);
 
       return {
         pid: sensor.pid,
@@ -9,11 +9,13 @@ export type VehicleWithParsedDates = Omit<VehicleGetResponse, "createdAt" | "upd
   odometerUpdatedAt: string | null;
 };
 
-export type LocationWithParsedDates = Omit<LocationGetResponse, "timestamp"> & {
+export type LocationWithParsedDates = Omit<LocationGetResponse, "timestamp" | "createdAt"> & {
   timestamp: string;
+  createdAt: string;
 };
 
-export type DiagnosticWithParsedDates = Omit<DiagnosticGetResponse, "createdAt" | "updatedAt"> & {
+export type DiagnosticWithParsedDates = Omit<DiagnosticGetResponse, "createdAt" | "updatedAt" | "dtcScannedAt"> & {
+  dtcScannedAt: string | null;
   createdAt: string;
   updatedAt: string;
 };
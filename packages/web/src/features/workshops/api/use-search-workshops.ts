@@ -0,0 +1,36 @@
+import { useQuery } from "@tanstack/react-query";
+
+import { api } from "@/lib/rpc";
+
+import type { WorkshopSearchParams } from "../types";
+
+// Function to search the workshop directory
+export async function searchWorkshopsQuery(params: WorkshopSearchParams) {
+  const response = await api.workshops.$get({
+    query: {
+      vehicleUUID: params.vehicleUUID,
+      latitude: params.latitude?.toString(),
+      longitude: params.longitude?.toString(),
+      radius: params.radius.toString(),
+      serviceType: params.serviceType,
+      openNow: params.openNow ? "true" : "false",
+      q: params.q || undefined,
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json() as { error?: string };
+    throw new Error(error.error || `Failed to search workshops: ${response.statusText}`);
+  }
+
+  return response.json();
+}
+
+export function useSearchWorkshops({ params, enabled = true }: { params: WorkshopSearchParams; enabled?: boolean }) {
+  return useQuery({
+    queryKey: ["workshops", "search", params],
+    queryFn: () => searchWorkshopsQuery(params),
+    enabled,
+    retry: false,
+  });
+}
@@ -0,0 +1,171 @@
+import { motion } from "framer-motion";
+import { MapPin, Wrench } from "lucide-react";
+import { useState } from "react";
+
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+
+import type { WorkshopSearchOrigin, WorkshopSearchParams } from "../../types";
+
+import { useSearchWorkshops } from "../../api/use-search-workshops";
+import { WorkshopCard } from "../workshop-card";
+import { WorkshopFilters } from "../workshop-filters";
+import { WorkshopsMap } from "../workshops-map";
+
+type WorkshopsPageProps = {
+  vehicleId: string;
+};
+
+type DeviceLocation = {
+  latitude: number;
+  longitude: number;
+};
+
+export function WorkshopsPage({ vehicleId }: WorkshopsPageProps) {
+  const [origin, setOrigin] = useState<WorkshopSearchOrigin>("vehicle");
+  const [deviceLocation, setDeviceLocation] = useState<DeviceLocation | null>(null);
+  const [locationError, setLocationError] = useState<string | null>(null);
+  const [filters, setFilters] = useState<Pick<WorkshopSearchParams, "radius" | "serviceType" | "openNow" | "q">>({
+    radius: 25,
+    openNow: false,
+  });
+  const [selectedWorkshopUUID, setSelectedWorkshopUUID] = useState<string | null>(null);
+
+  const params: WorkshopSearchParams = origin === "device" && deviceLocation
+    ? { ...filters, ...deviceLocation }
+    : { ...filters, vehicleUUID: vehicleId };
+
+  const { data, isLoading, error } = useSearchWorkshops({
+    params,
+    // Wait for the browser to share its location before searching around it
+    enabled: origin === "vehicle" || deviceLocation !== null,
+  });
+
+  const handleOriginChange = (nextOrigin: WorkshopSearchOrigin) => {
+    setOrigin(nextOrigin);
+    setLocationError(null);
+
+    if (nextOrigin === "device" && !deviceLocation) {
+      if (!navigator.geolocation) {
+        setLocationError("Your browser cannot share its location");
+        return;
+      }
+
+      navigator.geolocation.getCurrentPosition(
+        position => setDeviceLocation({ latitude: position.coords.latitude, longitude: position.coords.longitude }),
+        () => setLocationError("Allow location access to search around you"),
+      );
+    }
+  };
+
+  const workshops = data?.workshops ?? [];
+  const distanceUnit = data?.distanceUnit ?? "km";
+  const errorMessage = locationError ?? error?.message;
+
+  return (
+    <div className="space-y-6">
+      <motion.div
+        initial={{ opacity: 0, y: 10 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="space-y-1"
+      >
+        <h1 className="text-3xl font-bold">Service Centers</h1>
+        <p className="text-muted-foreground">
+          Find workshops near your vehicle by the service you need and their opening hours
+        </p>
+      </motion.div>
+
+      <Card>
+        <CardContent className="pt-6">
+          <WorkshopFilters
+            origin={origin}
+            onOriginChange={handleOriginChange}
+            filters={filters}
+            onFiltersChange={changes => setFilters(previous => ({ ...previous, ...changes }))}
+            distanceUnit={distanceUnit}
+          />
+        </CardContent>
+      </Card>
+
+      {errorMessage && (
+        <Alert variant="destructive">
+          <AlertDescription>
+            {errorMessage}
+            {origin === "vehicle" && " Try searching around your own location instead."}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="grid gap-6 lg:grid-cols-5">
+        <Card className="lg:col-span-3">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <MapPin className="h-5 w-5" />
+              Map
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoading
+              ? <Skeleton className="h-[420px] w-full" />
+              : (
+                  <WorkshopsMap
+                    origin={data?.origin ?? null}
+                    radius={data?.radius ?? null}
+                    distanceUnit={distanceUnit}
+                    workshops={workshops}
+                    selectedWorkshopUUID={selectedWorkshopUUID}
+                    onSelectWorkshop={setSelectedWorkshopUUID}
+                  />
+                )}
+          </CardContent>
+        </Card>
+
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Wrench className="h-5 w-5" />
+              Workshops
+              {data && (
+                <Badge variant="secondary" className="text-xs">
+                  {workshops.length}
+                </Badge>
+              )}
+            </CardTitle>
+            <CardDescription>
+              {data?.origin
+                ? `Within ${data.radius} ${distanceUnit} of ${data.origin.source === "vehicle" ? "your vehicle's last known location" : "you"}, nearest first`
+                : "Workshops in the directory"}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3 max-h-[520px] overflow-y-auto">
+            {isLoading
+              ? (
+                  <>
+                    <Skeleton className="h-28 w-full" />
+                    <Skeleton className="h-28 w-full" />
+                    <Skeleton className="h-28 w-full" />
+                  </>
+                )
+              : workshops.length > 0
+                ? workshops.map(workshop => (
+                    <WorkshopCard
+                      key={workshop.uuid}
+                      workshop={workshop}
+                      distanceUnit={distanceUnit}
+                      isSelected={workshop.uuid === selectedWorkshopUUID}
+                      onSelect={() => setSelectedWorkshopUUID(workshop.uuid)}
+                    />
+                  ))
+                : (
+                    <p className="py-6 text-center text-sm text-muted-foreground">
+                      No workshops match these filters. Try a larger radius or fewer filters.
+                    </p>
+                  )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
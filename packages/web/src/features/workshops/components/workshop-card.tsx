@@ -0,0 +1,115 @@
+import { Clock, ExternalLink, Globe, MapPin, Navigation, Phone } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { getServiceTypeLabel } from "@/features/maintenance/utils/maintenance-utils";
+import { cn } from "@/lib/utils";
+
+import type { Workshop } from "../types";
+
+import { formatTodayHours, formatWorkshopDistance, getDirectionsUrl, getOpenStatusLabel } from "../utils/workshop-utils";
+
+// Services listed before the rest are folded into a count
+const VISIBLE_SERVICES = 4;
+
+type WorkshopCardProps = {
+  workshop: Workshop;
+  distanceUnit: string;
+  isSelected: boolean;
+  onSelect: () => void;
+};
+
+export function WorkshopCard({ workshop, distanceUnit, isSelected, onSelect }: WorkshopCardProps) {
+  const distance = formatWorkshopDistance(workshop.distance, distanceUnit);
+  const directionsUrl = getDirectionsUrl(workshop);
+  const hiddenServices = workshop.servicesOffered.length - VISIBLE_SERVICES;
+
+  return (
+    <div
+      role="button"
+      tabIndex={0}
+      onClick={onSelect}
+      onKeyDown={(event) => {
+        if (event.key === "Enter" || event.key === " ") {
+          onSelect();
+        }
+      }}
+      className={cn(
+        "rounded-lg border p-4 space-y-3 cursor-pointer transition-colors hover:bg-muted/40",
+        isSelected && "border-primary bg-muted/40",
+      )}
+    >
+      <div className="flex items-start justify-between gap-3">
+        <div className="space-y-1 min-w-0">
+          <p className="font-medium truncate">{workshop.name}</p>
+          {workshop.address && (
+            <p className="flex items-center gap-1 text-xs text-muted-foreground">
+              <MapPin className="h-3 w-3 shrink-0" />
+              <span className="truncate">{workshop.address}</span>
+            </p>
+          )}
+        </div>
+        <div className="flex flex-col items-end gap-1 shrink-0">
+          <Badge
+            variant={workshop.isOpenNow ? "default" : workshop.isOpenNow === false ? "secondary" : "outline"}
+            className="text-xs"
+          >
+            {getOpenStatusLabel(workshop.isOpenNow)}
+          </Badge>
+          {distance && <span className="text-xs text-muted-foreground">{distance}</span>}
+        </div>
+      </div>
+
+      <p className="flex items-center gap-1 text-xs text-muted-foreground">
+        <Clock className="h-3 w-3" />
+        {formatTodayHours(workshop)}
+      </p>
+
+      {workshop.servicesOffered.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {workshop.servicesOffered.slice(0, VISIBLE_SERVICES).map(serviceType => (
+            <Badge key={serviceType} variant="outline" className="text-xs font-normal">
+              {getServiceTypeLabel(serviceType)}
+            </Badge>
+          ))}
+          {hiddenServices > 0 && (
+            <Badge variant="outline" className="text-xs font-normal">
+              +
+              {hiddenServices}
+              {" "}
+              more
+            </Badge>
+          )}
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-2" onClick={event => event.stopPropagation()}>
+        {workshop.phone && (
+          <Button variant="outline" size="sm" asChild>
+            <a href={`tel:${workshop.phone}`}>
+              <Phone className="h-3 w-3" />
+              {workshop.phone}
+            </a>
+          </Button>
+        )}
+        {workshop.website && (
+          <Button variant="outline" size="sm" asChild>
+            <a href={workshop.website} target="_blank" rel="noreferrer">
+              <Globe className="h-3 w-3" />
+              Website
+              <ExternalLink className="h-3 w-3" />
+            </a>
+          </Button>
+        )}
+        {directionsUrl && (
+          <Button variant="outline" size="sm" asChild>
+            <a href={directionsUrl} target="_blank" rel="noreferrer">
+              <Navigation className="h-3 w-3" />
+              Directions
+            </a>
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+import { Car, LocateFixed, Search } from "lucide-react";
+import { useState } from "react";
+
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { SERVICE_TYPES } from "@/features/maintenance/types";
+import { getServiceTypeLabel } from "@/features/maintenance/utils/maintenance-utils";
+
+import type { WorkshopSearchOrigin, WorkshopSearchParams } from "../types";
+
+import { WORKSHOP_RADIUS_OPTIONS } from "../utils/workshop-utils";
+
+type WorkshopFiltersProps = {
+  origin: WorkshopSearchOrigin;
+  onOriginChange: (origin: WorkshopSearchOrigin) => void;
+  filters: Pick<WorkshopSearchParams, "radius" | "serviceType" | "openNow" | "q">;
+  onFiltersChange: (filters: Partial<Pick<WorkshopSearchParams, "radius" | "serviceType" | "openNow" | "q">>) => void;
+  distanceUnit: string;
+};
+
+export function WorkshopFilters({ origin, onOriginChange, filters, onFiltersChange, distanceUnit }: WorkshopFiltersProps) {
+  // The name filter is applied on submit, so typing does not search on every key
+  const [name, setName] = useState(filters.q ?? "");
+
+  return (
+    <div className="flex flex-col gap-4 lg:flex-row lg:flex-wrap lg:items-end">
+      <div className="space-y-2">
+        <Label>Search around</Label>
+        <ToggleGroup
+          type="single"
+          variant="outline"
+          value={origin}
+          onValueChange={value => value && onOriginChange(value as WorkshopSearchOrigin)}
+        >
+          <ToggleGroupItem value="vehicle" className="gap-1 px-3">
+            <Car className="h-4 w-4" />
+            Vehicle
+          </ToggleGroupItem>
+          <ToggleGroupItem value="device" className="gap-1 px-3">
+            <LocateFixed className="h-4 w-4" />
+            My location
+          </ToggleGroupItem>
+        </ToggleGroup>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="workshop-radius">Radius</Label>
+        <Select
+          value={filters.radius.toString()}
+          onValueChange={value => onFiltersChange({ radius: Number(value) })}
+        >
+          <SelectTrigger id="workshop-radius" className="w-[120px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {WORKSHOP_RADIUS_OPTIONS.map(radius => (
+              <SelectItem key={radius} value={radius.toString()}>
+                {radius}
+                {" "}
+                {distanceUnit}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="workshop-service-type">Service</Label>
+        <Select
+          value={filters.serviceType ?? "all"}
+          onValueChange={value => onFiltersChange({ serviceType: value === "all" ? undefined : value as WorkshopSearchParams["serviceType"] })}
+        >
+          <SelectTrigger id="workshop-service-type" className="w-[220px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All services</SelectItem>
+            {SERVICE_TYPES.map(serviceType => (
+              <SelectItem key={serviceType} value={serviceType}>
+                {getServiceTypeLabel(serviceType)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <form
+        className="space-y-2 flex-1 min-w-[200px]"
+        onSubmit={(event) => {
+          event.preventDefault();
+          onFiltersChange({ q: name.trim() || undefined });
+        }}
+      >
+        <Label htmlFor="workshop-name">Name</Label>
+        <div className="relative">
+          <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+          <Input
+            id="workshop-name"
+            placeholder="Search by name and press Enter"
+            className="pl-8"
+            value={name}
+            onChange={event => setName(event.target.value)}
+          />
+        </div>
+      </form>
+
+      <div className="flex items-center gap-2 h-9">
+        <Switch
+          id="workshop-open-now"
+          checked={filters.openNow}
+          onCheckedChange={openNow => onFiltersChange({ openNow })}
+        />
+        <Label htmlFor="workshop-open-now">Open now</Label>
+      </div>
+    </div>
+  );
+}
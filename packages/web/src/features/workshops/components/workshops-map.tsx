@@ -0,0 +1,121 @@
+import "@/styles/leaflet.css";
+
+import { MapPin } from "lucide-react";
+import { useEffect, useState } from "react";
+import { Circle, CircleMarker, MapContainer, TileLayer, Tooltip } from "react-leaflet";
+
+import type { Workshop, WorkshopOrigin } from "../types";
+
+import { formatWorkshopDistance, getOpenStatusLabel, getWorkshopMarkerColor } from "../utils/workshop-utils";
+
+type WorkshopsMapProps = {
+  origin: WorkshopOrigin | null;
+  // Search radius in the distance unit, drawn around the origin
+  radius: number | null;
+  distanceUnit: string;
+  workshops: Workshop[];
+  selectedWorkshopUUID: string | null;
+  onSelectWorkshop: (workshopUUID: string) => void;
+  className?: string;
+};
+
+export function WorkshopsMap({
+  origin,
+  radius,
+  distanceUnit,
+  workshops,
+  selectedWorkshopUUID,
+  onSelectWorkshop,
+  className = "h-[420px] w-full",
+}: WorkshopsMapProps) {
+  const [isMounted, setIsMounted] = useState(false);
+
+  useEffect(() => {
+    setIsMounted(true);
+  }, []);
+
+  const locatedWorkshops = workshops.filter(workshop => workshop.latitude !== null && workshop.longitude !== null);
+  const points = locatedWorkshops.map(workshop => [workshop.latitude!, workshop.longitude!] as [number, number]);
+
+  if (origin) {
+    points.push([origin.latitude, origin.longitude]);
+  }
+
+  if (!isMounted || points.length === 0) {
+    return (
+      <div className={`flex items-center justify-center bg-muted/20 p-6 text-center rounded-md ${className}`}>
+        <div>
+          <MapPin className="mx-auto mb-2 h-10 w-10 text-muted-foreground opacity-50" />
+          <p className="text-sm text-muted-foreground">
+            {isMounted ? "No workshops with a location to show" : "Loading map..."}
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  const radiusMeters = radius !== null ? radius * (distanceUnit === "mi" ? 1609.344 : 1000) : null;
+
+  return (
+    <div className={`overflow-hidden rounded-md ${className}`}>
+      <MapContainer
+        // Remount on a new search so the map fits the new results
+        key={`${origin?.latitude},${origin?.longitude},${radius},${locatedWorkshops.length}`}
+        bounds={points}
+        boundsOptions={{ padding: [30, 30], maxZoom: 15 }}
+        scrollWheelZoom={true}
+        className="map-monochrome"
+      >
+        <TileLayer
+          attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> | &copy; <a href="https://cartodb.com/attributions">CartoDB</a>'
+          url="https://{s}.basemaps.cartocdn.com/light_all/{z}/{x}/{y}{r}.png"
+          subdomains="abcd"
+          maxZoom={19}
+        />
+
+        {origin && radiusMeters !== null && (
+          <Circle
+            center={[origin.latitude, origin.longitude]}
+            radius={radiusMeters}
+            pathOptions={{ color: "#2563eb", weight: 1, fillOpacity: 0.05, dashArray: "6 6" }}
+          />
+        )}
+
+        {origin && (
+          <CircleMarker
+            center={[origin.latitude, origin.longitude]}
+            radius={6}
+            pathOptions={{ color: "#ffffff", fillColor: "#2563eb", fillOpacity: 1, weight: 2 }}
+          >
+            <Tooltip>{origin.source === "vehicle" ? "Vehicle's last known location" : "Your location"}</Tooltip>
+          </CircleMarker>
+        )}
+
+        {locatedWorkshops.map((workshop) => {
+          const isSelected = workshop.uuid === selectedWorkshopUUID;
+          const distance = formatWorkshopDistance(workshop.distance, distanceUnit);
+
+          return (
+            <CircleMarker
+              key={workshop.uuid}
+              center={[workshop.latitude!, workshop.longitude!]}
+              radius={isSelected ? 10 : 7}
+              pathOptions={{ color: getWorkshopMarkerColor(workshop, isSelected), fillOpacity: 0.8 }}
+              eventHandlers={{ click: () => onSelectWorkshop(workshop.uuid) }}
+            >
+              <Tooltip>
+                <div className="space-y-0.5 text-xs">
+                  <p className="font-medium">{workshop.name}</p>
+                  <p>
+                    {getOpenStatusLabel(workshop.isOpenNow)}
+                    {distance && ` · ${distance}`}
+                  </p>
+                </div>
+              </Tooltip>
+            </CircleMarker>
+          );
+        })}
+      </MapContainer>
+    </div>
+  );
+}
@@ -0,0 +1,27 @@
+import type { Workshop as WorkshopResponse, WorkshopSearchResponse as WorkshopSearchResponseBase } from "@/api/zod/z-workshops";
+
+export type Workshop = Omit<WorkshopResponse, "createdAt" | "updatedAt"> & {
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type WorkshopSearchResponse = Omit<WorkshopSearchResponseBase, "workshops"> & {
+  workshops: Workshop[];
+};
+
+export type WorkshopOrigin = NonNullable<WorkshopSearchResponse["origin"]>;
+
+export type WorkshopOperatingHours = NonNullable<Workshop["operatingHours"]>;
+
+// Where the search is centered: the vehicle's last known location or the browser's location
+export type WorkshopSearchOrigin = "vehicle" | "device";
+
+export type WorkshopSearchParams = {
+  vehicleUUID?: string;
+  latitude?: number;
+  longitude?: number;
+  radius: number;
+  serviceType?: Workshop["servicesOffered"][number];
+  openNow: boolean;
+  q?: string;
+};
@@ -0,0 +1,55 @@
+import type { Workshop, WorkshopOperatingHours } from "../types";
+
+const WORKSHOP_DAYS = ["mon", "tue", "wed", "thu", "fri", "sat", "sun"] as const;
+
+export const WORKSHOP_RADIUS_OPTIONS = [5, 10, 25, 50, 100];
+
+/**
+ * Day of the week at the workshop, which may be in another time zone than the browser
+ */
+function getWorkshopDay(timezone: string, now: Date = new Date()): keyof WorkshopOperatingHours {
+  const weekday = new Intl.DateTimeFormat("en-US", { timeZone: timezone, weekday: "short" }).format(now).toLowerCase();
+  return WORKSHOP_DAYS.find(day => day === weekday) ?? "mon";
+}
+
+export function formatTodayHours(workshop: Workshop): string {
+  if (!workshop.operatingHours) {
+    return "Opening hours unknown";
+  }
+
+  const intervals = workshop.operatingHours[getWorkshopDay(workshop.timezone)] ?? [];
+
+  if (intervals.length === 0) {
+    return "Closed today";
+  }
+
+  return `Today ${intervals.map(interval => `${interval.open}–${interval.close}`).join(", ")}`;
+}
+
+export function getOpenStatusLabel(isOpenNow: boolean | null): string {
+  if (isOpenNow === null) {
+    return "Hours unknown";
+  }
+  return isOpenNow ? "Open now" : "Closed";
+}
+
+export function getWorkshopMarkerColor(workshop: Workshop, isSelected: boolean): string {
+  if (isSelected) {
+    return "#2563eb";
+  }
+  return workshop.isOpenNow ? "#16a34a" : "#6b7280";
+}
+
+export function formatWorkshopDistance(distance: number | null, unit: string): string | null {
+  if (distance === null) {
+    return null;
+  }
+  return `${distance < 10 ? distance.toFixed(1) : Math.round(distance)} ${unit}`;
+}
+
+export function getDirectionsUrl(workshop: Workshop): string | null {
+  if (workshop.latitude === null || workshop.longitude === null) {
+    return null;
+  }
+  return `https://www.openstreetmap.org/directions?to=${workshop.latitude},${workshop.longitude}`;
+}
@@ -11,7 +11,7 @@ import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { SensorChartComparison } from "@/features/charts/comparison/components/sensor-chart-comparison";
 import { SensorChartOverview } from "@/features/charts/overview/components/sensor-chart-overview";
-import { useGetVehicleSensorData } from "@/features/sensors/api/use-get-vehicle-sensor-data";
+import { useGetDiagnosticSensorChartData } from "@/features/sensors/api/use-get-vehicle-sensor-aggregates";
 import { DiagnosticSessionSelector } from "@/features/sensors/components/diagnostic-session-selector";
 import { getVehicleDiagnosticsQueryOptions, useGetVehicleDiagnostics } from "@/features/vehicles/api/use-get-vehicle-diagnostics";
 
@@ -53,11 +53,11 @@ function ChartsPage() {
     isLoading: isLoadingDiagnostics,
   } = useGetVehicleDiagnostics({ vehicleId, suspense: true });
 
-  // Fetch sensor data filtered by the selected diagnostic session
+  // Fetch the sensors of the selected diagnostic session, bucketed to chart resolution by the API
   const {
     data: sensorData,
     isLoading: isLoadingSensorData,
-  } = useGetVehicleSensorData({ vehicleId, filter: { diagnosticId: selectedDiagnosticId || undefined }, suspense: false });
+  } = useGetDiagnosticSensorChartData({ vehicleId, diagnosticId: selectedDiagnosticId || null });
 
   // When diagnostics data is loaded, select the most recent diagnostic session by default
   // Only if no diagnostic is currently selected in the URL
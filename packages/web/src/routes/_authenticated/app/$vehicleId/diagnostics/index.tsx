@@ -1,6 +1,6 @@
 import { createFileRoute, useParams } from "@tanstack/react-router";
 import { motion } from "framer-motion";
-import { AlertTriangle } from "lucide-react";
+import { AlertTriangle, History, ListChecks } from "lucide-react";
 import { parseAsString, useQueryState } from "nuqs";
 import { useEffect } from "react";
 
@@ -8,6 +8,8 @@ import { ErrorPage } from "@/components/error-page";
 import { LoaderPage } from "@/components/loader-page";
 import { NotFoundPage } from "@/components/not-found-page";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { DTCTimeline } from "@/features/diagnostics/components/dtc-timeline";
 import { DTCsList } from "@/features/diagnostics/components/dtcs-list";
 import { pageVariants } from "@/features/diagnostics/utils/animation-variants";
 import { DiagnosticSessionSelector } from "@/features/sensors/components/diagnostic-session-selector";
@@ -35,6 +37,12 @@ function RouteComponent() {
     parseAsString.withDefault(""),
   );
 
+  // Either the DTCs of a single session or the history across all sessions
+  const [view, setView] = useQueryState(
+    "view",
+    parseAsString.withDefault("session"),
+  );
+
   // Fetch all diagnostics for the vehicle
   const {
     data: diagnosticsData,
@@ -76,17 +84,43 @@ function RouteComponent() {
         exit="exit"
       >
         {/* Simple selector toolbar */}
-        <div className="flex justify-end">
-          <DiagnosticSessionSelector
-            sessions={diagnosticsData || []}
-            selectedSession={selectedDiagnosticId || null}
-            onSessionChange={handleDiagnosticSessionChange}
-            isLoading={isLoadingDiagnostics}
-          />
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <Tabs value={view} onValueChange={setView}>
+            <TabsList className="h-9">
+              <TabsTrigger value="session">
+                <ListChecks className="mr-1 h-3 w-3" />
+                Session
+              </TabsTrigger>
+              <TabsTrigger value="history">
+                <History className="mr-1 h-3 w-3" />
+                History
+              </TabsTrigger>
+            </TabsList>
+          </Tabs>
+          {view !== "history" && (
+            <DiagnosticSessionSelector
+              sessions={diagnosticsData || []}
+              selectedSession={selectedDiagnosticId || null}
+              onSessionChange={handleDiagnosticSessionChange}
+              isLoading={isLoadingDiagnostics}
+            />
+          )}
         </div>
 
+        {/* DTC lifecycle across all sessions */}
+        {view === "history" && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.4 }}
+            className="flex-1 overflow-hidden"
+          >
+            <DTCTimeline vehicleId={vehicleId} />
+          </motion.div>
+        )}
+
         {/* Alert when no diagnostic is selected */}
-        {!selectedDiagnosticId && !isLoadingDiagnostics && (
+        {view !== "history" && !selectedDiagnosticId && !isLoadingDiagnostics && (
           <Alert>
             <AlertTriangle className="h-4 w-4" />
             <AlertTitle>No diagnostic session selected</AlertTitle>
@@ -108,14 +142,14 @@ function RouteComponent() {
         )}
 
         {/* DTCs List - Full Width */}
-        {selectedDiagnosticId && (
+        {view !== "history" && selectedDiagnosticId && (
           <motion.div
             initial={{ opacity: 0, y: 20 }}
             animate={{ opacity: 1, y: 0 }}
             transition={{ duration: 0.4 }}
             className="flex-1 overflow-hidden"
           >
-            <DTCsList diagnosticId={selectedDiagnosticId} />
+            <DTCsList diagnosticId={selectedDiagnosticId} vehicleId={vehicleId} />
           </motion.div>
         )}
       </motion.div>
@@ -11,6 +11,7 @@ import { AddMaintenanceDialog } from "@/features/maintenance/components/forms/ad
 import { MaintenanceHistoryList } from "@/features/maintenance/components/history/maintenance-history-list";
 import { MaintenanceSummary } from "@/features/maintenance/components/summary/maintenance-summary";
 import { MaintenanceSummarySkeleton } from "@/features/maintenance/components/summary/maintenance-summary-skeleton";
+import { UpcomingMaintenanceCard } from "@/features/maintenance/components/summary/upcoming-maintenance-card";
 import { containerVariants, itemVariants } from "@/features/maintenance/utils/animation-variants";
 
 export const Route = createFileRoute(
@@ -67,6 +68,9 @@ function RouteComponent() {
             : null}
       </motion.div>
 
+      {/* Upcoming Maintenance */}
+      <UpcomingMaintenanceCard vehicleUUID={vehicleId} />
+
       {/* Maintenance History */}
       <motion.div variants={itemVariants}>
         <Card>
@@ -85,6 +89,7 @@ function RouteComponent() {
           <CardContent>
             <MaintenanceHistoryList
               entries={maintenanceData?.maintenanceHistory || []}
+              distanceUnit={maintenanceData?.units.distance}
               isLoading={isLoading}
             />
           </CardContent>
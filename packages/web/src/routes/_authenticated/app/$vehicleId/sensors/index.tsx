@@ -1,5 +1,5 @@
 import { createFileRoute, Link } from "@tanstack/react-router";
-import { ChartBar, Clock, Grid3X3, LineChart, PlayIcon } from "lucide-react";
+import { ChartBar, Clock, Grid3X3, LineChart, PlayIcon, Radio } from "lucide-react";
 import { parseAsString, useQueryState } from "nuqs";
 import { useEffect } from "react";
 
@@ -9,8 +9,10 @@ import { NotFoundPage } from "@/components/not-found-page";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useGetVehicleSensorAnomalies } from "@/features/sensors/api/use-get-vehicle-sensor-anomalies";
 import { useGetVehicleSensorData } from "@/features/sensors/api/use-get-vehicle-sensor-data";
 import { DiagnosticSessionSelector } from "@/features/sensors/components/diagnostic-session-selector";
+import { LiveTelemetry } from "@/features/sensors/live/components/live-telemetry";
 import { SensorOverviewCards } from "@/features/sensors/overview/components/sensor-overview-cards";
 import { SensorPlayback } from "@/features/sensors/playback/components/sensor-playback";
 import { getVehicleDiagnosticsQueryOptions, useGetVehicleDiagnostics } from "@/features/vehicles/api/use-get-vehicle-diagnostics";
@@ -59,6 +61,13 @@ function SensorsPage() {
     isLoading: isLoadingSensorData,
   } = useGetVehicleSensorData({ vehicleId, filter: { diagnosticId: selectedDiagnosticId || undefined }, suspense: false });
 
+  // Readings of the selected session that deviate from the vehicle's usual behaviour
+  const { data: anomalies } = useGetVehicleSensorAnomalies({
+    vehicleId,
+    filter: { diagnosticId: selectedDiagnosticId || undefined, limit: 200 },
+    suspense: false,
+  });
+
   // When diagnostics data is loaded, select the most recent diagnostic session by default
   // Only if no diagnostic is currently selected in the URL
   useEffect(() => {
@@ -117,6 +126,10 @@ function SensorsPage() {
                 <PlayIcon className="mr-1 h-3 w-3" />
                 Playback
               </TabsTrigger>
+              <TabsTrigger value="live">
+                <Radio className="mr-1 h-3 w-3" />
+                Live
+              </TabsTrigger>
             </TabsList>
 
             <div className="flex flex-wrap items-center gap-2">
@@ -144,12 +157,16 @@ function SensorsPage() {
           </div>
 
           <TabsContent value="overview" className="space-y-4">
-            <SensorOverviewCards data={sensorData} isLoading={isLoadingSensorData} />
+            <SensorOverviewCards data={sensorData} isLoading={isLoadingSensorData} anomalies={anomalies} />
           </TabsContent>
 
           <TabsContent value="playback">
             <SensorPlayback data={sensorData} isLoading={isLoadingSensorData} />
           </TabsContent>
+
+          <TabsContent value="live">
+            {activeTab === "live" && <LiveTelemetry diagnosticId={selectedDiagnosticId} />}
+          </TabsContent>
         </Tabs>
       )}
     </div>
@@ -1,13 +1,25 @@
-import { createFileRoute } from '@tanstack/react-router'
+import { createFileRoute } from "@tanstack/react-router";
+
+import { ErrorPage } from "@/components/error-page";
+import { LoaderPage } from "@/components/loader-page";
+import { NotFoundPage } from "@/components/not-found-page";
+import { WorkshopsPage } from "@/features/workshops/components/pages/workshops-page";
 
 export const Route = createFileRoute(
-  '/_authenticated/app/$vehicleId/service-centers/',
+  "/_authenticated/app/$vehicleId/service-centers/",
 )({
   component: RouteComponent,
-})
+  pendingComponent: () => <LoaderPage />,
+  notFoundComponent: () => <NotFoundPage />,
+  errorComponent: () => <ErrorPage />,
+});
 
 function RouteComponent() {
+  const { vehicleId } = Route.useParams();
+
   return (
-    <div>Hello "/_authenticated/dashboard/$vehicleId/service-centers/"!</div>
-  )
+    <div className="flex-1 space-y-4 p-4 lg:p-6 pt-4">
+      <WorkshopsPage vehicleId={vehicleId} />
+    </div>
+  );
 }
@@ -1,5 +1,8 @@
 import { createFileRoute } from "@tanstack/react-router";
 
+import { AlertHistorySection } from "@/features/alerts/components/alert-history-section";
+import { AlertRulesSection } from "@/features/alerts/components/alert-rules-section";
+
 export const Route = createFileRoute(
   "/_authenticated/app/$vehicleId/settings/",
 )({
@@ -7,5 +10,25 @@ export const Route = createFileRoute(
 });
 
 function RouteComponent() {
-  return <div>Hello "/_authenticated/app/$vehicleId/settings/"!</div>;
+  const { vehicleId } = Route.useParams();
+
+  return (
+    <div className="container mx-auto space-y-6 p-6">
+      <div>
+        <h1 className="text-3xl font-bold">Vehicle Settings</h1>
+        <p className="text-muted-foreground">
+          Configure alerts and preferences for this vehicle
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 gap-6 xl:grid-cols-3">
+        <div className="xl:col-span-2">
+          <AlertRulesSection vehicleId={vehicleId} />
+        </div>
+        <div className="xl:col-span-1">
+          <AlertHistorySection vehicleId={vehicleId} />
+        </div>
+      </div>
+    </div>
+  );
 }